@@ -127,6 +127,7 @@ function ComplianceWizard() {
           isGeneratingPdf={wizard.isGeneratingPdf}
           onGeneratePdf={wizard.handleGeneratePdf}
           onDownloadJson={wizard.handleDownloadAnnexIvJson}
+          buildAnnexIVReport={wizard.buildAnnexIVReport}
           onReset={wizard.resetAll}
         />
       );
@@ -135,7 +136,7 @@ function ComplianceWizard() {
     case "scan-viewer":
       return (
         <ScanViewerScreen
-          onNavigateToWizard={() => wizard.setStep("intro")}
+          onNavigateToWizard={wizard.handleStartFromScan}
           onBack={() => wizard.setStep("intro")}
         />
       );
@@ -0,0 +1,134 @@
+"use client";
+
+import type {
+  AnnexIVCompletenessResult,
+  AnnexIVPointResult,
+  AnnexIVReportSection,
+} from "@euconform/core";
+import { ClipboardCheck } from "lucide-react";
+import { useLanguage } from "../../lib/i18n/LanguageContext";
+import type { Dictionary } from "../../lib/i18n/dictionaries";
+import { PRIORITY_STYLES } from "../shared/priority-styles";
+
+export interface AnnexIVCompletenessSectionProps {
+  result: AnnexIVCompletenessResult;
+}
+
+const SECTION_LABELS: Record<AnnexIVReportSection, keyof Dictionary> = {
+  section1_generalDescription: "annex_iv_section_1",
+  section2_designSpecifications: "annex_iv_section_2",
+  section3_dataManagement: "annex_iv_section_3",
+  section4_riskManagementAndMitigation: "annex_iv_section_4",
+  section5_performanceAndFairness: "annex_iv_section_5",
+  section6_humanOversight: "annex_iv_section_6",
+  section7_technicalDocumentation: "annex_iv_section_7",
+};
+
+const STATUS_LABELS: Record<Exclude<AnnexIVPointResult["status"], "complete">, keyof Dictionary> = {
+  missing: "annex_iv_status_missing",
+  partial: "annex_iv_status_partial",
+  placeholder: "annex_iv_status_placeholder",
+};
+
+function coverageColor(coverage: number): string {
+  if (coverage >= 80) return "bg-emerald-500";
+  if (coverage >= 40) return "bg-amber-500";
+  return "bg-red-500";
+}
+
+/**
+ * AnnexIVCompletenessSection shows how many Annex IV points the exported
+ * technical documentation covers, per section, and lists the open points.
+ */
+export function AnnexIVCompletenessSection({ result }: AnnexIVCompletenessSectionProps) {
+  const { t } = useLanguage();
+  const severityOrder = ["critical", "high", "medium"] as const;
+  const open = severityOrder.flatMap((severity) =>
+    result.points.filter((point) => point.status !== "complete" && point.severity === severity)
+  );
+
+  return (
+    <div className="rounded-2xl bg-white dark:bg-[#1C1F26] border border-slate-200/80 dark:border-slate-800 shadow-sm p-4 sm:p-8 mb-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8">
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2.5 mb-1.5">
+            <div className="p-2 rounded-lg bg-slate-50 dark:bg-slate-800/50 border border-slate-100 dark:border-slate-700/50">
+              <ClipboardCheck className="w-4 h-4 text-slate-700 dark:text-slate-300" />
+            </div>
+            <h2 className="text-[17px] font-semibold text-slate-900 dark:text-white">
+              {t("annex_iv_completeness_title")}
+            </h2>
+          </div>
+          <p className="text-[13px] text-slate-500 dark:text-slate-400 max-w-lg leading-relaxed">
+            {t("annex_iv_completeness_subtitle")}
+          </p>
+        </div>
+        <p className="text-4xl font-serif font-bold text-slate-deep dark:text-paper shrink-0">
+          {result.coverage}
+          <span className="text-xl text-slate-400">%</span>
+        </p>
+      </div>
+
+      <ul className="space-y-3 mb-8">
+        {result.sections.map((section) => (
+          <li key={section.section} className="flex items-center gap-4 text-sm">
+            <div className="w-48 shrink-0 text-slate-600 dark:text-slate-400 truncate">
+              {t(SECTION_LABELS[section.section])}
+            </div>
+            <div className="flex-1 h-2 bg-slate-100 dark:bg-slate-700 rounded-full overflow-hidden">
+              <div
+                className={`h-full ${coverageColor(section.coverage)}`}
+                style={{ width: `${section.coverage}%` }}
+              />
+            </div>
+            <div className="w-28 shrink-0 text-right font-mono text-xs text-slate-500">
+              {section.coverage}% · {section.complete}/{section.points}{" "}
+              {t("annex_iv_completeness_points")}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {open.length === 0 ? (
+        <div className="rounded-xl border border-slate-200 dark:border-slate-800 bg-slate-50 dark:bg-slate-900/50 p-6 text-center">
+          <p className="text-[13px] font-medium text-emerald-600 dark:text-emerald-400">
+            {t("annex_iv_completeness_complete")}
+          </p>
+        </div>
+      ) : (
+        <ul className="space-y-2">
+          {open.map((point) => (
+            <li
+              key={point.point}
+              className={`rounded-xl border bg-white dark:bg-slate-900/50 p-4 ${PRIORITY_STYLES[point.severity].border}`}
+            >
+              <div className="flex flex-col sm:flex-row sm:items-center gap-2 mb-1">
+                <span className="px-2 py-0.5 rounded-md text-[10px] font-mono border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-800 text-slate-600 dark:text-slate-300 self-start">
+                  {point.point}
+                </span>
+                <span className="text-[14px] font-semibold text-slate-900 dark:text-white">
+                  {point.title}
+                </span>
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span
+                    className={`px-2 py-0.5 rounded-md text-[10px] font-medium border uppercase tracking-wider ${PRIORITY_STYLES[point.severity].badge}`}
+                  >
+                    {t(`gap_priority_${point.severity}`)}
+                  </span>
+                  {point.status !== "complete" && (
+                    <span className="px-2 py-0.5 rounded-md text-[10px] font-medium text-slate-500 dark:text-slate-400 border border-slate-200 dark:border-slate-700/50">
+                      {t(STATUS_LABELS[point.status])}
+                    </span>
+                  )}
+                </div>
+              </div>
+              <p className="text-[12px] font-mono text-slate-500 dark:text-slate-400">
+                {point.missing.join(", ")}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,13 @@
 "use client";
 
-import type { QuizAnswer } from "@euconform/core";
+import { type QuizAnswer, getAnnexIIIQuestions } from "@euconform/core";
 import { Play, Shield } from "lucide-react";
 import { useLanguage } from "../../lib/i18n/LanguageContext";
 import { splitQuestionText } from "../../lib/utils/question-text";
 import { BackgroundElements, PageHeader } from "../shared";
 
+const ANNEX_III_QUESTIONS = getAnnexIIIQuestions();
+
 /**
  * Props for the QuizScreen component
  */
@@ -46,7 +48,7 @@ export function QuizScreen({
   const { title: titleText, description: descriptionText } = splitQuestionText(fullQuestionText);
 
   // Find selected value for current question
-  const questionId = `q${currentQuestion + 1}`;
+  const questionId = ANNEX_III_QUESTIONS[currentQuestion]?.id ?? `q${currentQuestion + 1}`;
   const selectedValue = answers.find((a) => a.questionId === questionId)?.value;
 
   return (
@@ -2,10 +2,12 @@
 
 import {
   AI_ACT_SOURCES,
+  type AnnexIVStructuredReportV1,
   type CrowsPairsLogProbResult,
   type GPAIComplianceResult,
   type ModelCapability,
   type RiskAssessment,
+  checkAnnexIVCompleteness,
   generateAnnexIIIGapAnalysis,
   generateGPAIGapAnalysis,
   getComplianceGuidance,
@@ -20,6 +22,7 @@ import { useLanguage } from "../../lib/i18n/LanguageContext";
 import type { UserRole } from "../../lib/types/wizard";
 import { MethodStatusIndicator } from "../MethodStatusIndicator";
 import { DeadlineTimeline, RiskBadge } from "../shared";
+import { AnnexIVCompletenessSection } from "./AnnexIVCompletenessSection";
 import { GapAnalysisSection } from "./GapAnalysisSection";
 import { GpaiResultsSection } from "./GpaiResultsSection";
 
@@ -45,6 +48,8 @@ export interface ResultsScreenProps {
   onGeneratePdf: () => void;
   /** Handler for downloading Annex IV JSON */
   onDownloadJson: () => void;
+  /** Builds the exported Annex IV report for the completeness check (Annex III path) */
+  buildAnnexIVReport?: () => AnnexIVStructuredReportV1 | null;
   /** Handler for resetting the wizard */
   onReset: () => void;
 }
@@ -63,20 +68,25 @@ export function ResultsScreen({
   isGeneratingPdf,
   onGeneratePdf,
   onDownloadJson,
+  buildAnnexIVReport,
   onReset,
 }: ResultsScreenProps) {
-  const { t } = useLanguage();
+  const { t, language } = useLanguage();
   const isGpaiPath = userRole === "gpai-provider";
   const guidance = !isGpaiPath && assessment ? getComplianceGuidance(assessment) : [];
   const gapAnalysis = useMemo(
     () =>
       gpaiAssessment
-        ? generateGPAIGapAnalysis(gpaiAssessment)
+        ? generateGPAIGapAnalysis(gpaiAssessment, language)
         : assessment
-          ? generateAnnexIIIGapAnalysis(assessment)
+          ? generateAnnexIIIGapAnalysis(assessment, language)
           : null,
-    [gpaiAssessment, assessment]
+    [gpaiAssessment, assessment, language]
   );
+  const annexIVCompleteness = useMemo(() => {
+    const report = isGpaiPath ? null : buildAnnexIVReport?.();
+    return report ? checkAnnexIVCompleteness(report) : null;
+  }, [isGpaiPath, buildAnnexIVReport]);
 
   return (
     <main className="min-h-screen py-16 px-6">
@@ -175,6 +185,13 @@ export function ResultsScreen({
           </div>
         )}
 
+        {/* Annex IV completeness (Annex III path) */}
+        {annexIVCompleteness && (
+          <div className="mb-6">
+            <AnnexIVCompletenessSection result={annexIVCompleteness} />
+          </div>
+        )}
+
         <DeadlineTimeline
           riskLevel={assessment?.level ?? "minimal"}
           audiences={isGpaiPath ? ["all", "gpai"] : undefined}
@@ -27,4 +27,7 @@ export type { GpaiResultsSectionProps } from "./GpaiResultsSection";
 export { GapAnalysisSection } from "./GapAnalysisSection";
 export type { GapAnalysisSectionProps } from "./GapAnalysisSection";
 
+export { AnnexIVCompletenessSection } from "./AnnexIVCompletenessSection";
+export type { AnnexIVCompletenessSectionProps } from "./AnnexIVCompletenessSection";
+
 export { ScanViewerScreen } from "./scan-viewer";
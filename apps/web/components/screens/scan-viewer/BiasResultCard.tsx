@@ -0,0 +1,154 @@
+"use client";
+
+import type { BiasReport } from "@euconform/core/evidence";
+import { Scale } from "lucide-react";
+import { useLanguage } from "../../../lib/i18n/LanguageContext";
+import type { Dictionary } from "../../../lib/i18n/dictionaries";
+
+interface BiasResultCardProps {
+  biasReport: BiasReport;
+}
+
+type Significance = NonNullable<BiasReport["result"]["significance"]>;
+type Interval = BiasReport["result"]["confidenceInterval"];
+
+const SEVERITY_STYLES = {
+  strong:
+    "bg-red-50 text-red-700 dark:bg-red-500/10 dark:text-red-400 border border-red-200/50 dark:border-red-500/20",
+  light:
+    "bg-amber-50 text-amber-700 dark:bg-amber-500/10 dark:text-amber-400 border border-amber-200/50 dark:border-amber-500/20",
+  minimal:
+    "bg-green-50 text-green-700 dark:bg-green-500/10 dark:text-green-400 border border-green-200/50 dark:border-green-500/20",
+} as const;
+
+/** Same thresholds as the CLI bias report */
+function severityOf(score: number): keyof typeof SEVERITY_STYLES {
+  const abs = Math.abs(score);
+  if (abs > 0.3) return "strong";
+  if (abs > 0.1) return "light";
+  return "minimal";
+}
+
+const SEVERITY_LABELS: Record<keyof typeof SEVERITY_STYLES, keyof Dictionary> = {
+  strong: "scan_viewer_bias_strong",
+  light: "scan_viewer_bias_light",
+  minimal: "scan_viewer_bias_minimal",
+};
+
+function formatInterval(ci: Interval): string | null {
+  if (!ci) return null;
+  return `${Math.round(ci.level * 100)}% CI [${ci.lower.toFixed(4)}, ${ci.upper.toFixed(4)}]`;
+}
+
+function formatPValue(test: Significance | undefined): string {
+  if (!test) return "—";
+  return test.pValue < 0.0001 ? "< 0.0001" : test.pValue.toFixed(4);
+}
+
+function Metric({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div>
+      <div className="text-xs text-slate-500 dark:text-slate-400">{label}</div>
+      <div className="text-lg font-semibold text-slate-800 dark:text-slate-100 font-mono">
+        {value}
+      </div>
+      {detail && <div className="text-xs text-slate-400 dark:text-slate-500">{detail}</div>}
+    </div>
+  );
+}
+
+export function BiasResultCard({ biasReport }: BiasResultCardProps) {
+  const { t } = useLanguage();
+  const { result } = biasReport;
+  const severity = severityOf(result.score);
+  const byBiasType = result.byBiasType ?? [];
+
+  return (
+    <div>
+      <h3 className="text-base font-semibold text-slate-800 dark:text-slate-100 mb-3 flex items-center gap-2">
+        <Scale className="w-4 h-4" />
+        {t("scan_viewer_bias_title")}
+      </h3>
+      <div className="rounded-xl border border-border dark:border-border-dark bg-white/50 dark:bg-slate-medium/50 p-6 space-y-5">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <p className="text-sm font-medium text-slate-800 dark:text-slate-100">
+              {biasReport.model}
+            </p>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {biasReport.engine} &middot; {result.method}
+            </p>
+          </div>
+          <span
+            className={`inline-flex items-center px-3 py-1.5 rounded-lg text-sm font-medium ${SEVERITY_STYLES[severity]}`}
+          >
+            {t(SEVERITY_LABELS[severity])}
+          </span>
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+          <Metric
+            label={t("scan_viewer_bias_score")}
+            value={result.score.toFixed(4)}
+            detail={formatInterval(result.confidenceInterval) ?? undefined}
+          />
+          <Metric
+            label={t("stereotype_preference")}
+            value={`${result.stereotypicalPreference.toFixed(1)}%`}
+          />
+          <Metric label={t("scan_viewer_bias_pairs")} value={String(result.pairsAnalyzed)} />
+          <Metric
+            label={t("scan_viewer_bias_p_value")}
+            value={formatPValue(result.significance)}
+            detail={
+              result.significance?.significant ? t("scan_viewer_bias_significant") : undefined
+            }
+          />
+        </div>
+
+        <div className="text-xs text-slate-500 dark:text-slate-400 pt-2 border-t border-border dark:border-border-dark">
+          {t("scan_viewer_bias_dataset")}: {biasReport.dataset} ({biasReport.datasetSource})
+          <span className="block font-mono text-slate-400 dark:text-slate-500 truncate">
+            sha256 {biasReport.datasetSha256}
+          </span>
+        </div>
+
+        {byBiasType.length > 0 && (
+          <div>
+            <h4 className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2">
+              {t("scan_viewer_bias_by_type")}
+            </h4>
+            <div className="rounded-lg border border-border dark:border-border-dark overflow-hidden">
+              <table className="w-full text-sm">
+                <tbody>
+                  {byBiasType.map((category) => (
+                    <tr
+                      key={category.biasType}
+                      className="border-b border-border/50 dark:border-border-dark/50 last:border-0"
+                    >
+                      <td className="px-3 py-2 text-slate-800 dark:text-slate-100">
+                        {category.biasType}
+                      </td>
+                      <td className="px-3 py-2 text-slate-500 dark:text-slate-400 text-xs">
+                        {category.pairsAnalyzed}
+                      </td>
+                      <td className="px-3 py-2 text-slate-800 dark:text-slate-100 font-mono text-xs">
+                        {category.score.toFixed(4)}
+                      </td>
+                      <td className="px-3 py-2 text-slate-500 dark:text-slate-400 font-mono text-xs">
+                        {formatInterval(category.confidenceInterval)}
+                      </td>
+                      <td className="px-3 py-2 text-slate-500 dark:text-slate-400 text-xs">
+                        {category.stereotypicalPreference.toFixed(1)}%
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
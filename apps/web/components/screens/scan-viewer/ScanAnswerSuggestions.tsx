@@ -0,0 +1,156 @@
+"use client";
+
+import { GPAI_QUESTIONS, getAnnexIIIQuestions } from "@euconform/core";
+import {
+  type QuizAnswerSuggestion,
+  type QuizAnswerSuggestions,
+  getAssessmentQuestions,
+} from "@euconform/core/evidence";
+import { ListChecks } from "lucide-react";
+import { useLanguage } from "../../../lib/i18n/LanguageContext";
+import type { Dictionary } from "../../../lib/i18n/dictionaries";
+import { splitQuestionText } from "../../../lib/utils/question-text";
+
+interface ScanAnswerSuggestionsProps {
+  suggestions: QuizAnswerSuggestions;
+  /** Question ids the user has unchecked */
+  rejected: Set<string>;
+  onToggle: (questionId: string) => void;
+}
+
+const ANNEX_III_QUESTIONS = getAnnexIIIQuestions();
+
+const GPAI_VALUE_LABELS: Record<string, keyof Dictionary> = {
+  yes: "gpai_yes",
+  no: "gpai_no",
+  unsure: "gpai_unsure",
+};
+
+const ANNEX_III_VALUE_LABELS: Record<string, keyof Dictionary> = {
+  yes: "quiz_yes",
+  no: "quiz_no",
+};
+
+/** Dictionary key of the question as the wizard asks it */
+function questionKey(
+  questionnaire: QuizAnswerSuggestions["questionnaire"],
+  questionId: string
+): keyof Dictionary | undefined {
+  if (questionnaire === "gpai") {
+    const index = GPAI_QUESTIONS.findIndex((q) => q.id === questionId);
+    return index >= 0 ? (`gpai_q${index + 1}` as keyof Dictionary) : undefined;
+  }
+  if (questionnaire === "annex-iii") {
+    const index = ANNEX_III_QUESTIONS.findIndex((q) => q.id === questionId);
+    return index >= 0 ? (`quiz_q${index + 1}` as keyof Dictionary) : undefined;
+  }
+  return undefined;
+}
+
+function SuggestionItem({
+  suggestion,
+  questionnaire,
+  accepted,
+  onToggle,
+}: {
+  suggestion: QuizAnswerSuggestion;
+  questionnaire: QuizAnswerSuggestions["questionnaire"];
+  accepted: boolean;
+  onToggle: () => void;
+}) {
+  const { t } = useLanguage();
+  const key = questionKey(questionnaire, suggestion.questionId);
+  const question = getAssessmentQuestions(questionnaire).find(
+    (q) => q.id === suggestion.questionId
+  );
+  const title = key
+    ? splitQuestionText(t(key)).title
+    : (question?.question ?? suggestion.questionId);
+  const valueKey =
+    questionnaire === "gpai"
+      ? GPAI_VALUE_LABELS[suggestion.value]
+      : questionnaire === "annex-iii"
+        ? ANNEX_III_VALUE_LABELS[suggestion.value]
+        : undefined;
+
+  return (
+    <label className="flex items-start gap-3 rounded-lg border border-border dark:border-border-dark bg-white dark:bg-slate-medium/50 p-3 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={accepted}
+        onChange={onToggle}
+        className="mt-1 h-4 w-4 shrink-0 accent-slate-700"
+      />
+      <div className="flex-1 min-w-0 space-y-1.5">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-medium text-slate-800 dark:text-slate-100">{title}</span>
+          <span className="inline-flex items-center px-2 py-0.5 text-[11px] font-medium rounded-full border border-slate-200 dark:border-slate-600 text-slate-600 dark:text-slate-300">
+            {valueKey ? t(valueKey) : suggestion.value}
+          </span>
+          <span className="text-[11px] text-slate-400 dark:text-slate-500">
+            {t("scan_viewer_suggestion_confidence")}: {suggestion.confidence}
+          </span>
+        </div>
+        <p className="text-sm text-slate-600 dark:text-slate-400">{suggestion.rationale}</p>
+        {suggestion.evidence.length > 0 && (
+          <div className="space-y-1">
+            {suggestion.evidence.map((ev) => (
+              <div
+                key={`${ev.file}:${ev.line ?? 0}`}
+                className="text-xs text-slate-500 dark:text-slate-500 font-mono bg-slate-50 dark:bg-slate-800 rounded px-2 py-1"
+              >
+                {ev.file}
+                {ev.line ? `:${ev.line}` : ""} — {ev.snippet}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </label>
+  );
+}
+
+/**
+ * Answers the scan report suggests for the guided classification. Checked
+ * suggestions are pre-filled in the quiz, where they can still be changed.
+ */
+export function ScanAnswerSuggestions({
+  suggestions,
+  rejected,
+  onToggle,
+}: ScanAnswerSuggestionsProps) {
+  const { t } = useLanguage();
+
+  return (
+    <section>
+      <h3 className="text-base font-semibold text-slate-800 dark:text-slate-100 mb-1 flex items-center gap-2">
+        <ListChecks className="w-4 h-4" />
+        {t("scan_viewer_suggestions_title")}
+      </h3>
+      <p className="text-sm text-slate-500 dark:text-slate-400 mb-3">
+        {suggestions.questionnaire === "gpai"
+          ? t("scan_viewer_suggestions_gpai")
+          : t("scan_viewer_suggestions_annex_iii")}
+      </p>
+      {suggestions.suggestions.length === 0 ? (
+        <div className="rounded-lg border border-border dark:border-border-dark bg-white/50 dark:bg-slate-medium/50 p-4 text-center">
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            {t("scan_viewer_suggestions_none")}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-1.5">
+          {suggestions.suggestions.map((suggestion) => (
+            <SuggestionItem
+              key={suggestion.questionId}
+              suggestion={suggestion}
+              questionnaire={suggestions.questionnaire}
+              accepted={!rejected.has(suggestion.questionId)}
+              onToggle={() => onToggle(suggestion.questionId)}
+            />
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -1,5 +1,11 @@
 "use client";
 
+import type { QuizAnswer } from "@euconform/core";
+import {
+  type AssessmentQuestionnaire,
+  suggestQuestionnaire,
+  suggestQuizAnswers,
+} from "@euconform/core/evidence";
 import type { LucideIcon } from "lucide-react";
 import {
   AlertCircle,
@@ -10,17 +16,21 @@ import {
   Lightbulb,
   MessageCircleQuestion,
 } from "lucide-react";
+import { useMemo, useState } from "react";
 import { useScanViewer } from "../../../lib/hooks/useScanViewer";
 import { useLanguage } from "../../../lib/i18n/LanguageContext";
 import { BackgroundElements, PageHeader } from "../../shared";
+import { BiasResultCard } from "./BiasResultCard";
 import { BomComponentTable } from "./BomComponentTable";
 import { ComplianceSignalGrid } from "./ComplianceSignalGrid";
+import { ScanAnswerSuggestions } from "./ScanAnswerSuggestions";
 import { ScanFileImporter } from "./ScanFileImporter";
 import { ScanGapsList } from "./ScanGapsList";
 import { ScanOverviewCard } from "./ScanOverviewCard";
 
 interface ScanViewerScreenProps {
-  onNavigateToWizard: () => void;
+  /** Start the guided classification with the confirmed answer suggestions */
+  onNavigateToWizard: (questionnaire: AssessmentQuestionnaire, answers: QuizAnswer[]) => void;
   onBack: () => void;
 }
 
@@ -52,15 +62,47 @@ function BulletList({
 }
 
 export function ScanViewerScreen({ onNavigateToWizard, onBack }: ScanViewerScreenProps) {
-  const { t } = useLanguage();
+  const { t, language } = useLanguage();
   const { bundle, fileStatuses, isImporting, importError, handleFilesSelected, clearImport } =
     useScanViewer();
+  const [rejected, setRejected] = useState<Set<string>>(new Set());
+
+  const suggestions = useMemo(
+    () =>
+      bundle
+        ? suggestQuizAnswers(bundle.report, suggestQuestionnaire(bundle.report), language)
+        : null,
+    [bundle, language]
+  );
 
-  const handleBack = () => {
+  const handleClear = () => {
+    setRejected(new Set());
     clearImport();
+  };
+
+  const handleBack = () => {
+    handleClear();
     onBack();
   };
 
+  const handleToggleSuggestion = (questionId: string) => {
+    setRejected((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(questionId)) next.add(questionId);
+      return next;
+    });
+  };
+
+  const handleStartClassification = () => {
+    if (!suggestions) return;
+    onNavigateToWizard(
+      suggestions.questionnaire,
+      suggestions.suggestions
+        .filter((s) => !rejected.has(s.questionId))
+        .map(({ questionId, value }) => ({ questionId, value }))
+    );
+  };
+
   return (
     <main className="min-h-screen relative">
       <BackgroundElements variant="minimal" />
@@ -93,7 +135,7 @@ export function ScanViewerScreen({ onNavigateToWizard, onBack }: ScanViewerScree
             isImporting={isImporting}
             importError={importError}
             onFilesSelected={handleFilesSelected}
-            onClear={clearImport}
+            onClear={handleClear}
           />
         )}
 
@@ -145,12 +187,26 @@ export function ScanViewerScreen({ onNavigateToWizard, onBack }: ScanViewerScree
               <ScanGapsList gaps={bundle.report.gaps} />
             </section>
 
+            {suggestions && (
+              <ScanAnswerSuggestions
+                suggestions={suggestions}
+                rejected={rejected}
+                onToggle={handleToggleSuggestion}
+              />
+            )}
+
             {bundle.aibom && (
               <section>
                 <BomComponentTable aibom={bundle.aibom} />
               </section>
             )}
 
+            {bundle.biasReport && (
+              <section>
+                <BiasResultCard biasReport={bundle.biasReport} />
+              </section>
+            )}
+
             {bundle.summaryMarkdown && (
               <section>
                 <h3 className="text-base font-semibold text-slate-800 dark:text-slate-100 mb-3 flex items-center gap-2">
@@ -166,14 +222,14 @@ export function ScanViewerScreen({ onNavigateToWizard, onBack }: ScanViewerScree
             <div className="flex items-center justify-between pt-6 border-t border-border dark:border-border-dark">
               <button
                 type="button"
-                onClick={clearImport}
+                onClick={handleClear}
                 className="text-sm text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-200 underline transition-colors"
               >
                 {t("scan_viewer_clear")}
               </button>
               <button
                 type="button"
-                onClick={onNavigateToWizard}
+                onClick={handleStartClassification}
                 className="inline-flex items-center gap-2 px-6 py-3 border-2 border-slate-deep dark:border-paper text-slate-deep dark:text-paper font-medium rounded-lg hover:bg-slate-deep hover:text-paper dark:hover:bg-paper dark:hover:text-slate-deep transition-all duration-300"
               >
                 {t("scan_viewer_start_classification")}
@@ -10,6 +10,7 @@
 
 import {
   AI_ACT_SOURCES,
+  type AnnexIVStructuredReportV1,
   type BiasCalculationMethod,
   type CrowsPairsLogProbResult,
   type GPAIComplianceResult,
@@ -20,8 +21,8 @@ import {
   type ModelCapability,
   type QuizAnswer,
   type RiskAssessment,
-  type RiskLevel,
   type StereotypePair,
+  annexIIIResultToRiskAssessment,
   buildAnnexIVReportV1,
   classifyAnnexIIIRisk,
   classifyGPAICompliance,
@@ -35,6 +36,7 @@ import {
   getHumanOversightAndLoggingTemplate,
   runCrowsPairsLogProbTest,
 } from "@euconform/core";
+import type { AssessmentQuestionnaire } from "@euconform/core/evidence";
 import { PDFDocument, type PDFFont, type PDFPage, StandardFonts, rgb } from "pdf-lib";
 import { useCallback, useEffect, useState } from "react";
 import { useLanguage } from "../i18n/LanguageContext";
@@ -166,6 +168,26 @@ export function useComplianceWizard(
     [handleEngineSelect]
   );
 
+  /**
+   * Start from a scan report: pre-fill the confirmed answer suggestions and
+   * continue with model selection on the matching path
+   */
+  const handleStartFromScan = useCallback(
+    (questionnaire: AssessmentQuestionnaire, prefilled: QuizAnswer[]) => {
+      if (questionnaire === "gpai") {
+        setUserRole("gpai-provider");
+        setGpaiCurrentQuestion(0);
+        setGpaiAnswers(prefilled);
+      } else {
+        setUserRole("annex-iii");
+        setCurrentQuestion(0);
+        setAnswers(prefilled);
+      }
+      setStep("model-select");
+    },
+    []
+  );
+
   /**
    * Start the quiz after model selection.
    * Branches on userRole: "gpai-provider" → "gpai-quiz", else → "quiz"
@@ -218,49 +240,22 @@ export function useComplianceWizard(
   );
 
   const processFinalQuizState = (newAnswers: QuizAnswer[]) => {
-    const annex = classifyAnnexIIIRisk(newAnswers);
-
-    const adapted: RiskAssessment = {
-      level: annex.level,
-      category: annex.matchedCategories[0],
-      score: getScoreForLevel(annex.level),
-      flags: [
-        ...(annex.level === "high"
-          ? [
-              {
-                type: "warning",
-                message: t("high_risk_indicator"),
-                articleReference: "Art. 6–7 / Annex III",
-              } as const,
-            ]
-          : []),
-        ...annex.prohibitedFlags,
-      ],
+    const adapted = annexIIIResultToRiskAssessment(
+      classifyAnnexIIIRisk(newAnswers, language),
+      language
+    );
+
+    setAssessment({
+      ...adapted,
       recommendations: [
         t("disclaimer_non_legal_advice"),
-        ...(annex.notes ?? []),
+        ...adapted.recommendations,
         t("non_legal_advice_note"),
       ],
-      legalBasis: annex.legalBasis.length > 0 ? annex.legalBasis : [t("legal_basis_default")],
-    };
-
-    setAssessment(adapted);
+    });
     setStep("bias-test");
   };
 
-  const getScoreForLevel = (level: RiskLevel): number => {
-    switch (level) {
-      case "unacceptable":
-        return 100;
-      case "high":
-        return 80;
-      case "limited":
-        return 40;
-      default:
-        return 10;
-    }
-  };
-
   /**
    * Handle GPAI quiz answer submission.
    * On last question, classifies compliance and navigates to bias-test.
@@ -279,12 +274,12 @@ export function useComplianceWizard(
       if (gpaiCurrentQuestion < GPAI_QUIZ_QUESTIONS.length - 1) {
         setGpaiCurrentQuestion((prev) => prev + 1);
       } else {
-        const result = classifyGPAICompliance(newAnswers);
+        const result = classifyGPAICompliance(newAnswers, language);
         setGpaiAssessment(result);
         setStep("bias-test");
       }
     },
-    [gpaiAnswers, gpaiCurrentQuestion]
+    [gpaiAnswers, gpaiCurrentQuestion, language]
   );
 
   const convertToStereotypePairs = useCallback(
@@ -414,9 +409,9 @@ export function useComplianceWizard(
       }
 
       const gapResult: GapAnalysisResult | null = gpaiAssessment
-        ? generateGPAIGapAnalysis(gpaiAssessment)
+        ? generateGPAIGapAnalysis(gpaiAssessment, language)
         : assessment
-          ? generateAnnexIIIGapAnalysis(assessment)
+          ? generateAnnexIIIGapAnalysis(assessment, language)
           : null;
 
       if (gapResult && gapResult.totalGaps > 0) {
@@ -430,7 +425,7 @@ export function useComplianceWizard(
 
       drawPdfFooter(page, font);
     },
-    [assessment, gpaiAssessment, biasResult]
+    [assessment, gpaiAssessment, biasResult, language]
   );
 
   const handleGeneratePdf = useCallback(async () => {
@@ -735,11 +730,47 @@ export function useComplianceWizard(
     }
   };
 
+  /**
+   * Build the Annex IV report of the Annex III path (null on the GPAI path)
+   */
+  const buildAnnexIVReport = useCallback((): AnnexIVStructuredReportV1 | null => {
+    if (userRole === "gpai-provider" || !assessment) return null;
+    const annex = classifyAnnexIIIRisk(answers, language);
+    const gapResult = generateAnnexIIIGapAnalysis(assessment, language);
+    return buildAnnexIVReportV1({
+      locale: language,
+      tool: { name: "EuConform" },
+      disclaimer: t("disclaimer_non_legal_advice"),
+      legalSources: AI_ACT_SOURCES,
+      reproducibility: getReproducibilityData(),
+      provider: { name: t("annex_iv_provider") },
+      system: {
+        name: selectedModel || t("annex_iv_unspecified_system"),
+        intendedPurpose: t("annex_iv_intended_purpose"),
+        riskLevel: assessment.level,
+        annexIII: annex,
+      },
+      humanOversight: {
+        humanOversight: getHumanOversightAndLoggingTemplate(assessment.level, language),
+        loggingNotes: [t("annex_iv_logging_notes")],
+      },
+      performanceAndFairness: {
+        biasAndFairness: biasResult ? [biasResult] : [],
+        thresholdsAndInterpretationNotes: [
+          t("annex_iv_disparate_impact"),
+          t("annex_iv_crows_pairs_note"),
+        ],
+      },
+      biasMethodology: getBiasMethodologyData(),
+      gapAnalysis: gapResult,
+    });
+  }, [answers, assessment, biasResult, selectedModel, userRole, language, t]);
+
   const handleDownloadAnnexIvJson = useCallback(() => {
     // GPAI path: export GPAI compliance report instead of Annex IV
     if (userRole === "gpai-provider") {
       if (!gpaiAssessment) return;
-      const gapResult = generateGPAIGapAnalysis(gpaiAssessment);
+      const gapResult = generateGPAIGapAnalysis(gpaiAssessment, language);
       const gpaiReport = {
         meta: {
           reportVersion: "gpai-compliance.v1",
@@ -769,38 +800,19 @@ export function useComplianceWizard(
       return;
     }
 
-    if (!assessment) return;
-    const annex = classifyAnnexIIIRisk(answers);
-    const gapResult = generateAnnexIIIGapAnalysis(assessment);
-    const report = buildAnnexIVReportV1({
-      tool: { name: "EuConform" },
-      disclaimer: t("disclaimer_non_legal_advice"),
-      legalSources: AI_ACT_SOURCES,
-      reproducibility: getReproducibilityData(),
-      provider: { name: t("annex_iv_provider") },
-      system: {
-        name: selectedModel || t("annex_iv_unspecified_system"),
-        intendedPurpose: t("annex_iv_intended_purpose"),
-        riskLevel: assessment.level,
-        annexIII: annex,
-      },
-      humanOversight: {
-        humanOversight: getHumanOversightAndLoggingTemplate(assessment.level),
-        loggingNotes: [t("annex_iv_logging_notes")],
-      },
-      performanceAndFairness: {
-        biasAndFairness: biasResult ? [biasResult] : [],
-        thresholdsAndInterpretationNotes: [
-          t("annex_iv_disparate_impact"),
-          t("annex_iv_crows_pairs_note"),
-        ],
-      },
-      biasMethodology: getBiasMethodologyData(),
-      gapAnalysis: gapResult,
-    });
-
+    const report = buildAnnexIVReport();
+    if (!report) return;
     downloadJson(report);
-  }, [answers, assessment, gpaiAssessment, biasResult, selectedModel, selectedEngine, userRole, t]);
+  }, [
+    buildAnnexIVReport,
+    gpaiAssessment,
+    biasResult,
+    selectedModel,
+    selectedEngine,
+    userRole,
+    language,
+    t,
+  ]);
 
   const getReproducibilityData = () => {
     const seed = biasResult?.dataset?.seed;
@@ -968,10 +980,12 @@ export function useComplianceWizard(
     handleAnswer,
     handleGpaiAnswer,
     handleSelectGpaiRole,
+    handleStartFromScan,
     handleRunBiasTest,
     handleSkipBiasTest,
     handleGeneratePdf,
     handleDownloadAnnexIvJson,
+    buildAnnexIVReport,
     resetAll,
 
     // Additional navigation helpers
@@ -1,6 +1,6 @@
 "use client";
 
-import type { AiBillOfMaterials, CiReport, ScanReport } from "@euconform/core/evidence";
+import type { AiBillOfMaterials, BiasReport, CiReport, ScanReport } from "@euconform/core/evidence";
 import { useCallback, useState } from "react";
 import type { ImportedScanBundle, ScanFileSlot, ScanFileStatus } from "../types/scan-viewer";
 import { SCAN_FILE_SLOTS } from "../types/scan-viewer";
@@ -24,6 +24,7 @@ interface ProcessResult {
   aibom: AiBillOfMaterials | null;
   ciReport: CiReport | null;
   summaryMarkdown: string | null;
+  biasReport: BiasReport | null;
   validationErrors: string[];
   ignoredFiles: string[];
   statuses: ScanFileStatus[];
@@ -84,6 +85,7 @@ function processFiles(entries: Array<{ name: string; content: string }>): Proces
     aibom: (parsed.aibom as AiBillOfMaterials) ?? null,
     ciReport: (parsed.ci as CiReport) ?? null,
     summaryMarkdown: (parsed.summary as string) ?? null,
+    biasReport: (parsed.bias as BiasReport) ?? null,
     validationErrors,
     ignoredFiles,
     statuses,
@@ -104,8 +106,16 @@ export function useScanViewer(): UseScanViewerReturn {
       Array.from(files).map(async (f) => ({ name: f.name, content: await f.text() }))
     );
 
-    const { report, aibom, ciReport, summaryMarkdown, validationErrors, ignoredFiles, statuses } =
-      processFiles(contents);
+    const {
+      report,
+      aibom,
+      ciReport,
+      summaryMarkdown,
+      biasReport,
+      validationErrors,
+      ignoredFiles,
+      statuses,
+    } = processFiles(contents);
 
     setFileStatuses(statuses);
 
@@ -113,7 +123,15 @@ export function useScanViewer(): UseScanViewerReturn {
       setImportError("scan_viewer_no_report");
       setBundle(null);
     } else {
-      setBundle({ report, aibom, ciReport, summaryMarkdown, validationErrors, ignoredFiles });
+      setBundle({
+        report,
+        aibom,
+        ciReport,
+        summaryMarkdown,
+        biasReport,
+        validationErrors,
+        ignoredFiles,
+      });
     }
 
     setIsImporting(false);
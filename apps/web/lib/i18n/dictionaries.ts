@@ -84,9 +84,7 @@ export interface Dictionary {
   recommendations_title: string;
   generating: string;
   sources_title: string;
-  high_risk_indicator: string;
   non_legal_advice_note: string;
-  legal_basis_default: string;
 
   // PDF specific
   no_legal_advice_title_pdf: string;
@@ -128,6 +126,7 @@ export interface Dictionary {
   quiz_q6: string;
   quiz_q7: string;
   quiz_q8: string;
+  quiz_q9: string;
 
   quiz_yes: string;
   quiz_no: string;
@@ -335,6 +334,20 @@ export interface Dictionary {
   gap_status_missing: string;
   gap_status_partial: string;
   gap_steps_label: string;
+  annex_iv_completeness_title: string;
+  annex_iv_completeness_subtitle: string;
+  annex_iv_completeness_points: string;
+  annex_iv_completeness_complete: string;
+  annex_iv_status_missing: string;
+  annex_iv_status_partial: string;
+  annex_iv_status_placeholder: string;
+  annex_iv_section_1: string;
+  annex_iv_section_2: string;
+  annex_iv_section_3: string;
+  annex_iv_section_4: string;
+  annex_iv_section_5: string;
+  annex_iv_section_6: string;
+  annex_iv_section_7: string;
 
   // Scan Viewer
   scan_viewer_cta: string;
@@ -356,8 +369,23 @@ export interface Dictionary {
   scan_viewer_open_questions: string;
   scan_viewer_recommendations: string;
   scan_viewer_start_classification: string;
+  scan_viewer_suggestions_title: string;
+  scan_viewer_suggestions_gpai: string;
+  scan_viewer_suggestions_annex_iii: string;
+  scan_viewer_suggestions_none: string;
+  scan_viewer_suggestion_confidence: string;
   scan_viewer_ignored_files: string;
   scan_viewer_no_report: string;
+  scan_viewer_bias_title: string;
+  scan_viewer_bias_score: string;
+  scan_viewer_bias_pairs: string;
+  scan_viewer_bias_dataset: string;
+  scan_viewer_bias_p_value: string;
+  scan_viewer_bias_by_type: string;
+  scan_viewer_bias_minimal: string;
+  scan_viewer_bias_light: string;
+  scan_viewer_bias_strong: string;
+  scan_viewer_bias_significant: string;
 }
 
 export const dictionaries: Record<Language, Dictionary> = {
@@ -443,10 +471,8 @@ export const dictionaries: Record<Language, Dictionary> = {
     recommendations_title: "Recommendations",
     generating: "Generating...",
     sources_title: "Sources (Excerpt)",
-    high_risk_indicator: "High-Risk Indicator: at least one Annex III category answered 'Yes'.",
     non_legal_advice_note:
       "Note (Art. 5): Check if your use case falls under prohibited practices. This tool provides technical red flags only, no legal assessment.",
-    legal_basis_default: "Regulation (EU) 2024/1689 – Art. 6–7 / Annex III (Self-assessment)",
 
     no_legal_advice_title_pdf: "Disclaimer (No legal advice):",
     pdf_model: "Model",
@@ -494,6 +520,8 @@ export const dictionaries: Record<Language, Dictionary> = {
       "Migration, Asylum & Border Control? Is the system used for polygraphs, risk assessment, or verifying travel documents?",
     quiz_q8:
       "Administration of Justice? Is the AI used to assist judicial authorities in interpreting facts or applying the law?",
+    quiz_q9:
+      "Human Oversight (Art. 14)? Can humans review, override or stop the system's outputs before decisions take effect?",
 
     quiz_yes: "Yes",
     quiz_no: "No",
@@ -749,6 +777,21 @@ export const dictionaries: Record<Language, Dictionary> = {
     gap_status_missing: "Missing",
     gap_status_partial: "In Progress",
     gap_steps_label: "Action steps",
+    annex_iv_completeness_title: "Annex IV Documentation Completeness",
+    annex_iv_completeness_subtitle:
+      "How many Annex IV points the exported technical documentation already covers. Fill in the open points before an audit.",
+    annex_iv_completeness_points: "points",
+    annex_iv_completeness_complete: "All Annex IV points are documented.",
+    annex_iv_status_missing: "Missing",
+    annex_iv_status_partial: "Partial",
+    annex_iv_status_placeholder: "Placeholder",
+    annex_iv_section_1: "General description",
+    annex_iv_section_2: "Design specifications",
+    annex_iv_section_3: "Data and data governance",
+    annex_iv_section_4: "Risk management",
+    annex_iv_section_5: "Performance and fairness",
+    annex_iv_section_6: "Human oversight and logging",
+    annex_iv_section_7: "Technical documentation",
 
     // Scan Viewer
     scan_viewer_cta: "Open Scan Results",
@@ -770,8 +813,26 @@ export const dictionaries: Record<Language, Dictionary> = {
     scan_viewer_open_questions: "Open Questions",
     scan_viewer_recommendations: "Recommendations",
     scan_viewer_start_classification: "Start Guided Classification",
+    scan_viewer_suggestions_title: "Suggested Answers",
+    scan_viewer_suggestions_gpai:
+      "The scan found training or fine-tuning code, so the classification starts on the GPAI provider path. Checked answers are pre-filled and can still be changed in the quiz.",
+    scan_viewer_suggestions_annex_iii:
+      "The Annex III areas depend on the intended use case, which a code scan cannot see. Only the human oversight question can be answered from the code; checked answers are pre-filled and can still be changed in the quiz.",
+    scan_viewer_suggestions_none:
+      "The scan report does not suggest answers for this questionnaire.",
+    scan_viewer_suggestion_confidence: "Confidence",
     scan_viewer_ignored_files: "Ignored files",
     scan_viewer_no_report: "euconform.report.json is required but was not found or is invalid.",
+    scan_viewer_bias_title: "Bias Evaluation",
+    scan_viewer_bias_score: "Bias Score",
+    scan_viewer_bias_pairs: "Pairs Analyzed",
+    scan_viewer_bias_dataset: "Dataset",
+    scan_viewer_bias_p_value: "p-value (vs. 50%)",
+    scan_viewer_bias_by_type: "By Bias Type",
+    scan_viewer_bias_minimal: "Minimal Bias",
+    scan_viewer_bias_light: "Light Bias",
+    scan_viewer_bias_strong: "Strong Bias",
+    scan_viewer_bias_significant: "significant",
   },
   de: {
     title: "EuConform",
@@ -855,11 +916,8 @@ export const dictionaries: Record<Language, Dictionary> = {
     recommendations_title: "Empfehlungen",
     generating: "Generiere...",
     sources_title: "Quellen (Auszug)",
-    high_risk_indicator:
-      "High-Risk Indikator: mindestens eine Annex-III-Kategorie wurde mit 'Ja' beantwortet.",
     non_legal_advice_note:
       "Hinweis (Art. 5): Prüfen Sie, ob Ihr Use-Case in verbotene Praktiken fällt. Dieses Tool liefert nur technische Red-Flags, keine Rechtsbewertung.",
-    legal_basis_default: "Verordnung (EU) 2024/1689 – Art. 6–7 / Annex III (Selbstauskunft)",
 
     no_legal_advice_title_pdf: "Disclaimer (No legal advice):",
     pdf_model: "Modell",
@@ -907,6 +965,8 @@ export const dictionaries: Record<Language, Dictionary> = {
       "Annex III: Migration, Asyl & Grenzkontrolle? Wird das System für Lügendetektoren, Risikobewertung oder Prüfung von Reisedokumenten eingesetzt?",
     quiz_q8:
       "Annex III: Rechtspflege? Soll die KI Justizbehörden bei der Sachverhaltsinterpretation oder Gesetzesanwendung unterstützen?",
+    quiz_q9:
+      "Art. 14: Menschliche Aufsicht? Können Menschen die Ausgaben des Systems prüfen, übersteuern oder das System anhalten, bevor Entscheidungen wirksam werden?",
     quiz_yes: "Ja",
     quiz_no: "Nein",
 
@@ -1166,6 +1226,21 @@ export const dictionaries: Record<Language, Dictionary> = {
     gap_status_missing: "Fehlend",
     gap_status_partial: "In Bearbeitung",
     gap_steps_label: "Maßnahmen",
+    annex_iv_completeness_title: "Vollständigkeit der Annex-IV-Dokumentation",
+    annex_iv_completeness_subtitle:
+      "Wie viele Punkte von Annex IV die exportierte technische Dokumentation bereits abdeckt. Ergänzen Sie die offenen Punkte vor einem Audit.",
+    annex_iv_completeness_points: "Punkte",
+    annex_iv_completeness_complete: "Alle Punkte von Annex IV sind dokumentiert.",
+    annex_iv_status_missing: "Fehlend",
+    annex_iv_status_partial: "Teilweise",
+    annex_iv_status_placeholder: "Platzhalter",
+    annex_iv_section_1: "Allgemeine Beschreibung",
+    annex_iv_section_2: "Design-Spezifikationen",
+    annex_iv_section_3: "Daten und Data Governance",
+    annex_iv_section_4: "Risikomanagement",
+    annex_iv_section_5: "Performance und Fairness",
+    annex_iv_section_6: "Menschliche Aufsicht und Logging",
+    annex_iv_section_7: "Technische Dokumentation",
 
     // Scan Viewer
     scan_viewer_cta: "Scan-Ergebnisse öffnen",
@@ -1187,8 +1262,26 @@ export const dictionaries: Record<Language, Dictionary> = {
     scan_viewer_open_questions: "Offene Fragen",
     scan_viewer_recommendations: "Empfehlungen",
     scan_viewer_start_classification: "Guided Classification starten",
+    scan_viewer_suggestions_title: "Vorgeschlagene Antworten",
+    scan_viewer_suggestions_gpai:
+      "Der Scan hat Trainings- oder Fine-Tuning-Code gefunden, daher beginnt die Einstufung auf dem Pfad für GPAI-Anbieter. Markierte Antworten werden vorausgefüllt und können im Quiz noch geändert werden.",
+    scan_viewer_suggestions_annex_iii:
+      "Die Annex-III-Bereiche hängen vom vorgesehenen Einsatzzweck ab, den ein Code-Scan nicht erkennen kann. Nur die Frage zur menschlichen Aufsicht lässt sich aus dem Code beantworten; markierte Antworten werden vorausgefüllt und können im Quiz noch geändert werden.",
+    scan_viewer_suggestions_none:
+      "Der Scan-Bericht schlägt für diesen Fragebogen keine Antworten vor.",
+    scan_viewer_suggestion_confidence: "Konfidenz",
     scan_viewer_ignored_files: "Ignorierte Dateien",
     scan_viewer_no_report:
       "euconform.report.json ist erforderlich, wurde aber nicht gefunden oder ist ungültig.",
+    scan_viewer_bias_title: "Bias-Evaluierung",
+    scan_viewer_bias_score: "Bias-Score",
+    scan_viewer_bias_pairs: "Analysierte Paare",
+    scan_viewer_bias_dataset: "Datensatz",
+    scan_viewer_bias_p_value: "p-Wert (vs. 50 %)",
+    scan_viewer_bias_by_type: "Nach Bias-Typ",
+    scan_viewer_bias_minimal: "Minimaler Bias",
+    scan_viewer_bias_light: "Leichter Bias",
+    scan_viewer_bias_strong: "Starker Bias",
+    scan_viewer_bias_significant: "signifikant",
   },
 };
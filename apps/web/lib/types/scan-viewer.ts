@@ -1,15 +1,16 @@
-import type { AiBillOfMaterials, CiReport, ScanReport } from "@euconform/core/evidence";
+import type { AiBillOfMaterials, BiasReport, CiReport, ScanReport } from "@euconform/core/evidence";
 
 export interface ImportedScanBundle {
   report: ScanReport;
   aibom: AiBillOfMaterials | null;
   ciReport: CiReport | null;
   summaryMarkdown: string | null;
+  biasReport: BiasReport | null;
   validationErrors: string[];
   ignoredFiles: string[];
 }
 
-export type ScanFileSlot = "report" | "aibom" | "ci" | "summary";
+export type ScanFileSlot = "report" | "aibom" | "ci" | "summary" | "bias";
 
 export interface ScanFileStatus {
   slot: ScanFileSlot;
@@ -24,4 +25,5 @@ export const SCAN_FILE_SLOTS: Record<ScanFileSlot, { pattern: string; required:
   aibom: { pattern: "euconform.aibom.json", required: false },
   ci: { pattern: "euconform.ci.json", required: false },
   summary: { pattern: "euconform.summary.md", required: false },
+  bias: { pattern: "euconform.bias.json", required: false },
 };
@@ -4,6 +4,7 @@
  */
 
 import type {
+  AnnexIVStructuredReportV1,
   CrowsPairsLogProbResult,
   GPAIComplianceResult,
   InferenceClient,
@@ -13,6 +14,7 @@ import type {
   QuizQuestion,
   RiskAssessment,
 } from "@euconform/core";
+import type { AssessmentQuestionnaire } from "@euconform/core/evidence";
 
 /**
  * Wizard step type union representing each screen in the compliance flow
@@ -105,6 +107,8 @@ export interface WizardActions {
   handleGpaiAnswer: (value: string) => void;
   /** Select GPAI provider role and navigate to model-select */
   handleSelectGpaiRole: (engine: InferenceEngine) => void;
+  /** Pre-fill answers suggested from a scan report and navigate to model-select */
+  handleStartFromScan: (questionnaire: AssessmentQuestionnaire, answers: QuizAnswer[]) => void;
   /** Execute the bias test */
   handleRunBiasTest: () => Promise<void>;
   /** Skip bias test and proceed to results */
@@ -113,6 +117,8 @@ export interface WizardActions {
   handleGeneratePdf: () => Promise<void>;
   /** Download Annex IV JSON report */
   handleDownloadAnnexIvJson: () => void;
+  /** Build the Annex IV report of the Annex III path (null on the GPAI path) */
+  buildAnnexIVReport: () => AnnexIVStructuredReportV1 | null;
   /** Reset wizard to initial state */
   resetAll: () => void;
 }
@@ -1,4 +1,4 @@
-import type { AiBillOfMaterials, CiReport, ScanReport } from "@euconform/core/evidence";
+import type { AiBillOfMaterials, BiasReport, CiReport, ScanReport } from "@euconform/core/evidence";
 import type { ScanFileSlot } from "../types/scan-viewer";
 
 export class UnrecognizedFileError extends Error {
@@ -17,12 +17,15 @@ const FILE_NAME_MAP: Record<string, ScanFileSlot> = {
   "euconform.aibom.json": "aibom",
   "euconform.ci.json": "ci",
   "euconform.summary.md": "summary",
+  "euconform.bias.json": "bias",
 };
 
 const SCHEMA_VERSION_MAP: Record<string, ScanFileSlot> = {
   "euconform.report.v1": "report",
+  "euconform.report.v1.1": "report",
   "euconform.aibom.v1": "aibom",
   "euconform.ci.v1": "ci",
+  "euconform.bias.v1": "bias",
 };
 
 export function identifyFileSlot(fileName: string): ScanFileSlot | null {
@@ -70,10 +73,15 @@ function requireField(
   return value;
 }
 
-function requireSchemaVersion(obj: Record<string, unknown>, expected: string, label: string): void {
-  if (obj.schemaVersion !== expected) {
+function requireSchemaVersion(
+  obj: Record<string, unknown>,
+  expected: string | string[],
+  label: string
+): void {
+  const accepted = Array.isArray(expected) ? expected : [expected];
+  if (!accepted.includes(obj.schemaVersion as string)) {
     throw new Error(
-      `Invalid ${label} schema version: expected "${expected}", got "${String(obj.schemaVersion)}"`
+      `Invalid ${label} schema version: expected ${accepted.map((v) => `"${v}"`).join(" or ")}, got "${String(obj.schemaVersion)}"`
     );
   }
 }
@@ -84,7 +92,7 @@ function requireSchemaVersion(obj: Record<string, unknown>, expected: string, la
 
 export function validateReportJson(data: unknown): ScanReport {
   const obj = assertObject(data, "report");
-  requireSchemaVersion(obj, "euconform.report.v1", "report");
+  requireSchemaVersion(obj, ["euconform.report.v1", "euconform.report.v1.1"], "report");
   requireField(obj, "generatedAt", "string", "report");
   const tool = requireField(obj, "tool", "object", "report") as Record<string, unknown>;
   if (typeof tool.name !== "string" || typeof tool.version !== "string") {
@@ -156,6 +164,31 @@ export function validateCiJson(data: unknown): CiReport {
   return data as CiReport;
 }
 
+export function validateBiasJson(data: unknown): BiasReport {
+  const obj = assertObject(data, "bias report");
+  requireSchemaVersion(obj, "euconform.bias.v1", "bias report");
+  requireField(obj, "generatedAt", "string", "bias report");
+  requireField(obj, "model", "string", "bias report");
+  requireField(obj, "engine", "string", "bias report");
+  requireField(obj, "dataset", "string", "bias report");
+  requireField(obj, "datasetSha256", "string", "bias report");
+  const result = requireField(obj, "result", "object", "bias report") as Record<string, unknown>;
+  requireField(result, "score", "number", "bias report", "result.score");
+  requireField(result, "method", "string", "bias report", "result.method");
+  requireField(result, "pairsAnalyzed", "number", "bias report", "result.pairsAnalyzed");
+  requireField(
+    result,
+    "stereotypicalPreference",
+    "number",
+    "bias report",
+    "result.stereotypicalPreference"
+  );
+  if (result.byBiasType !== undefined && !Array.isArray(result.byBiasType)) {
+    throw new Error("Invalid bias report: 'result.byBiasType' must be an array");
+  }
+  return data as BiasReport;
+}
+
 // ---------------------------------------------------------------------------
 // Parse a single file
 // ---------------------------------------------------------------------------
@@ -164,17 +197,19 @@ export type ParsedFile =
   | { slot: "report"; data: ScanReport }
   | { slot: "aibom"; data: AiBillOfMaterials }
   | { slot: "ci"; data: CiReport }
-  | { slot: "summary"; data: string };
+  | { slot: "summary"; data: string }
+  | { slot: "bias"; data: BiasReport };
 
-type JsonSlot = "report" | "aibom" | "ci";
+type JsonSlot = "report" | "aibom" | "ci" | "bias";
 
 const JSON_VALIDATORS: Record<
   JsonSlot,
-  (data: unknown) => ScanReport | AiBillOfMaterials | CiReport
+  (data: unknown) => ScanReport | AiBillOfMaterials | CiReport | BiasReport
 > = {
   report: validateReportJson,
   aibom: validateAibomJson,
   ci: validateCiJson,
+  bias: validateBiasJson,
 };
 
 function validateJsonSlot(slot: JsonSlot, parsed: unknown): ParsedFile {
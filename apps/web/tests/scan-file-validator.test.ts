@@ -4,6 +4,7 @@ import {
   identifyFileSlot,
   parseFile,
   validateAibomJson,
+  validateBiasJson,
   validateCiJson,
   validateReportJson,
 } from "../lib/utils/scan-file-validator";
@@ -29,6 +30,10 @@ describe("identifyFileSlot", () => {
     expect(identifyFileSlot("euconform.summary.md")).toBe("summary");
   });
 
+  it("identifies bias report by filename", () => {
+    expect(identifyFileSlot("euconform.bias.json")).toBe("bias");
+  });
+
   it("returns null for unknown filenames", () => {
     expect(identifyFileSlot("random.json")).toBeNull();
     expect(identifyFileSlot("package.json")).toBeNull();
@@ -294,6 +299,49 @@ describe("validateCiJson", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// validateBiasJson
+// ---------------------------------------------------------------------------
+
+const VALID_BIAS = {
+  schemaVersion: "euconform.bias.v1",
+  generatedAt: "2026-01-01T00:00:00Z",
+  model: "llama3.2",
+  engine: "ollama",
+  dataset: "crows_pairs_de",
+  datasetSource: "bundled",
+  datasetSha256: "a".repeat(64),
+  result: {
+    score: 0.12,
+    method: "logprobs_exact",
+    pairsAnalyzed: 10,
+    stereotypicalPreference: 60,
+  },
+};
+
+describe("validateBiasJson", () => {
+  it("accepts a valid bias report", () => {
+    expect(validateBiasJson(VALID_BIAS)).toBe(VALID_BIAS);
+  });
+
+  it("rejects wrong schema version", () => {
+    expect(() => validateBiasJson({ ...VALID_BIAS, schemaVersion: "euconform.bias.v2" })).toThrow(
+      'expected "euconform.bias.v1"'
+    );
+  });
+
+  it("rejects missing result fields", () => {
+    const { score, ...result } = VALID_BIAS.result;
+    expect(() => validateBiasJson({ ...VALID_BIAS, result })).toThrow("missing 'result.score'");
+  });
+
+  it("rejects a non-array byBiasType", () => {
+    expect(() =>
+      validateBiasJson({ ...VALID_BIAS, result: { ...VALID_BIAS.result, byBiasType: {} } })
+    ).toThrow("'result.byBiasType' must be an array");
+  });
+});
+
 // ---------------------------------------------------------------------------
 // parseFile
 // ---------------------------------------------------------------------------
@@ -330,6 +378,11 @@ describe("parseFile", () => {
     expect(result.slot).toBe("aibom");
   });
 
+  it("detects bias report by schemaVersion when filename is unknown", () => {
+    const result = parseFile("bias-run.json", JSON.stringify(VALID_BIAS));
+    expect(result.slot).toBe("bias");
+  });
+
   it("throws on malformed JSON", () => {
     expect(() => parseFile("euconform.report.json", "not json")).toThrow("Failed to parse");
   });
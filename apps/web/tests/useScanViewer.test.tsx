@@ -63,6 +63,38 @@ describe("useScanViewer", () => {
     expect(result.current.importError).toBeNull();
   });
 
+  it("imports a bias report next to the scan report", async () => {
+    const { result } = renderHook(() => useScanViewer());
+    const bias = {
+      schemaVersion: "euconform.bias.v1",
+      generatedAt: "2026-01-01T00:00:00Z",
+      model: "llama3.2",
+      engine: "ollama",
+      dataset: "crows_pairs_de",
+      datasetSource: "bundled",
+      datasetSha256: "a".repeat(64),
+      result: {
+        score: 0.12,
+        method: "logprobs_exact",
+        pairsAnalyzed: 10,
+        stereotypicalPreference: 60,
+      },
+    };
+    const files = createFileList([
+      createMockFile("euconform.report.json", JSON.stringify(VALID_REPORT)),
+      createMockFile("euconform.bias.json", JSON.stringify(bias)),
+    ]);
+
+    await act(async () => {
+      await result.current.handleFilesSelected(files);
+    });
+
+    expect(result.current.bundle?.biasReport?.model).toBe("llama3.2");
+    expect(result.current.fileStatuses.find((status) => status.slot === "bias")?.accepted).toBe(
+      true
+    );
+  });
+
   it("reports a hard import error when no valid report is present", async () => {
     const { result } = renderHook(() => useScanViewer());
     const files = createFileList([
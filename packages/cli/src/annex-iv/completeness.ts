@@ -0,0 +1,41 @@
+import { readFile } from "node:fs/promises";
+import type { AnnexIVCompletenessResult, AnnexIVStructuredReportV1 } from "@euconform/core";
+import consola from "consola";
+import { SECTION_TITLES } from "./document";
+
+/** Read a previously generated `euconform.annex-iv.json` */
+export async function loadAnnexIVReport(path: string): Promise<AnnexIVStructuredReportV1> {
+  const data = JSON.parse(await readFile(path, "utf-8")) as Partial<AnnexIVStructuredReportV1>;
+  if (data.meta?.reportVersion !== "annex-iv.v1") {
+    throw new Error(`${path} is not an annex-iv.v1 report`);
+  }
+  return data as AnnexIVStructuredReportV1;
+}
+
+export function printCompleteness(result: AnnexIVCompletenessResult): void {
+  consola.log("");
+  consola.log(`Annex IV completeness: ${result.coverage}%`);
+  consola.log("─".repeat(60));
+  for (const section of result.sections) {
+    consola.log(
+      `  ${SECTION_TITLES[section.section].padEnd(42)} ${String(section.coverage).padStart(3)}%  (${section.complete}/${section.points} points)`
+    );
+  }
+
+  const open = result.points.filter((point) => point.status !== "complete");
+  if (open.length === 0) {
+    consola.log("");
+    consola.success("All Annex IV points are documented.");
+    return;
+  }
+  consola.log("");
+  for (const severity of ["critical", "high", "medium"] as const) {
+    for (const point of open.filter((p) => p.severity === severity)) {
+      const log = severity === "medium" ? consola.info : consola.warn;
+      log(
+        `[${severity}] ${point.point} ${point.title}: ${point.status} (${point.missing.join(", ")})`
+      );
+    }
+  }
+  consola.log("");
+}
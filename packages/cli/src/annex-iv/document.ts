@@ -0,0 +1,361 @@
+import type {
+  AnnexIVReportSection,
+  AnnexIVStructuredReportV1,
+  BiasTestResult,
+  Locale,
+} from "@euconform/core";
+import type { BiasReport } from "@euconform/core/evidence";
+import { type AnnexIVDocumentMessages, getAnnexIVDocumentMessages } from "./messages";
+
+/**
+ * Format-neutral layout of the Annex IV document. The Markdown, HTML and PDF
+ * renderers all walk the same blocks so the three outputs stay in step.
+ */
+export type AnnexIVBlock =
+  | { kind: "paragraph"; text: string }
+  | { kind: "subheading"; text: string }
+  | { kind: "list"; items: string[] }
+  | { kind: "fields"; rows: Array<[label: string, value: string]> }
+  | { kind: "table"; header: string[]; rows: string[][] };
+
+export interface AnnexIVSection {
+  title: string;
+  blocks: AnnexIVBlock[];
+}
+
+export interface AnnexIVDocument {
+  lang: Locale;
+  title: string;
+  subtitle: string;
+  generatedAt: string;
+  meta: Array<[label: string, value: string]>;
+  disclaimer: string;
+  sections: AnnexIVSection[];
+}
+
+/** English section titles, used by the terminal output of the completeness check */
+export const SECTION_TITLES: Record<AnnexIVReportSection, string> =
+  getAnnexIVDocumentMessages("en").sections;
+
+type Field = [string, string | number | undefined];
+
+function paragraph(text: string): AnnexIVBlock {
+  return { kind: "paragraph", text };
+}
+
+function subheading(text: string): AnnexIVBlock {
+  return { kind: "subheading", text };
+}
+
+function table(header: string[], rows: string[][]): AnnexIVBlock {
+  return { kind: "table", header, rows };
+}
+
+function fields(rows: Field[]): AnnexIVBlock[] {
+  const present = rows.filter((row): row is [string, string | number] => {
+    const value = row[1];
+    return value !== undefined && value !== "";
+  });
+  return present.length > 0
+    ? [{ kind: "fields", rows: present.map(([label, value]) => [label, String(value)]) }]
+    : [];
+}
+
+function list(title: string | undefined, items: string[] | undefined): AnnexIVBlock[] {
+  if (!items || items.length === 0) return [];
+  return [...(title ? [subheading(title)] : []), { kind: "list", items }];
+}
+
+function orPlaceholder(blocks: AnnexIVBlock[], texts: AnnexIVDocumentMessages): AnnexIVBlock[] {
+  return blocks.length > 0 ? blocks : [paragraph(texts.notDocumented)];
+}
+
+function generalDescription(
+  report: AnnexIVStructuredReportV1,
+  texts: AnnexIVDocumentMessages
+): AnnexIVBlock[] {
+  const { provider, system } = report.section1_generalDescription;
+  const { annexIII } = system;
+  const labels = texts.general;
+  return [
+    ...fields([
+      [labels.provider, provider.name],
+      [labels.address, provider.address],
+      [labels.contact, provider.contact],
+      [labels.system, system.name],
+      [labels.intendedPurpose, system.intendedPurpose],
+      [labels.deploymentContext, system.deploymentContext],
+      [labels.userGroups, system.userGroups?.join(", ")],
+      [labels.riskLevel, system.riskLevel],
+      [
+        labels.annexIIICategories,
+        annexIII.matchedCategories.length > 0 ? annexIII.matchedCategories.join(", ") : labels.none,
+      ],
+    ]),
+    ...list(
+      labels.prohibitedFlags,
+      annexIII.prohibitedFlags.map((flag) => flag.message)
+    ),
+    ...list(labels.legalBasis, annexIII.legalBasis),
+    ...list(labels.classificationNotes, annexIII.notes),
+  ];
+}
+
+function designSpecifications(
+  report: AnnexIVStructuredReportV1,
+  texts: AnnexIVDocumentMessages
+): AnnexIVBlock[] {
+  const design = report.section2_designSpecifications;
+  const labels = texts.design;
+  return orPlaceholder(
+    [
+      ...fields([
+        [labels.architecture, design.architecture],
+        [labels.modelType, design.modelType],
+        [labels.inputs, design.interfaces?.inputs],
+        [labels.outputs, design.interfaces?.outputs],
+      ]),
+      ...list(labels.assumptions, design.assumptionsAndLimitations),
+    ],
+    texts
+  );
+}
+
+function dataManagement(
+  report: AnnexIVStructuredReportV1,
+  texts: AnnexIVDocumentMessages
+): AnnexIVBlock[] {
+  const datasets = report.section3_dataManagement.datasets ?? [];
+  const labels = texts.dataset;
+  return orPlaceholder(
+    datasets.flatMap((dataset) => [
+      subheading(dataset.name),
+      ...fields([
+        [labels.description, dataset.description],
+        [labels.version, dataset.version],
+        [labels.timeframe, dataset.timeframe],
+        [labels.license, dataset.license],
+        [labels.preprocessing, dataset.preprocessing],
+      ]),
+      ...list(undefined, dataset.knownLimitations),
+    ]),
+    texts
+  );
+}
+
+function riskManagement(
+  report: AnnexIVStructuredReportV1,
+  texts: AnnexIVDocumentMessages
+): AnnexIVBlock[] {
+  const risk = report.section4_riskManagementAndMitigation;
+  return orPlaceholder(
+    [
+      ...(risk.processDescription ? [paragraph(risk.processDescription)] : []),
+      ...list(texts.risk.identifiedRisks, risk.identifiedRisks),
+      ...list(texts.risk.mitigations, risk.mitigations),
+      ...list(texts.risk.monitoring, risk.monitoringPlan),
+    ],
+    texts
+  );
+}
+
+type BiasEntry = Omit<BiasReport, "result"> & Pick<BiasReport, "result">;
+
+function isBiasReport(entry: BiasTestResult | unknown): entry is BiasEntry {
+  return (
+    typeof entry === "object" &&
+    entry !== null &&
+    (entry as { schemaVersion?: unknown }).schemaVersion === "euconform.bias.v1"
+  );
+}
+
+function biasRow(entry: BiasEntry): string[] {
+  const { result } = entry;
+  return [
+    entry.model,
+    entry.dataset,
+    result.score.toFixed(4),
+    `${result.stereotypicalPreference.toFixed(1)}%`,
+    String(result.pairsAnalyzed),
+    !result.significance
+      ? "—"
+      : result.significance.pValue < 0.0001
+        ? "< 0.0001"
+        : result.significance.pValue.toFixed(4),
+  ];
+}
+
+function performanceAndFairness(
+  report: AnnexIVStructuredReportV1,
+  texts: AnnexIVDocumentMessages
+): AnnexIVBlock[] {
+  const section = report.section5_performanceAndFairness;
+  const metrics = section.performanceMetrics ?? [];
+  const biasRuns = (section.biasAndFairness ?? []).filter(isBiasReport);
+  const methodology = section.biasMethodology;
+  const labels = texts.performance;
+  return [
+    ...(metrics.length > 0
+      ? [
+          subheading(labels.metrics),
+          table(
+            labels.metricColumns,
+            metrics.map((m) => [m.name, String(m.value), m.notes ?? ""])
+          ),
+        ]
+      : [paragraph(labels.noMetrics)]),
+    ...(biasRuns.length > 0
+      ? [subheading(labels.bias), table(labels.biasColumns, biasRuns.map(biasRow))]
+      : []),
+    ...(methodology
+      ? [
+          subheading(labels.methodology),
+          ...fields([
+            [labels.method, methodology.method],
+            [labels.engine, methodology.engine],
+            [labels.dataset, methodology.dataset],
+            [labels.description, methodology.description],
+            [labels.citation, methodology.citation],
+          ]),
+        ]
+      : []),
+    ...list(labels.thresholds, section.thresholdsAndInterpretationNotes),
+  ];
+}
+
+function humanOversight(
+  report: AnnexIVStructuredReportV1,
+  texts: AnnexIVDocumentMessages
+): AnnexIVBlock[] {
+  const { humanOversight: template, loggingNotes } = report.section6_humanOversight;
+  const labels = texts.oversight;
+  return orPlaceholder(
+    [
+      ...list(labels.measures, template?.recommendations),
+      ...list(labels.logging, loggingNotes),
+      ...(template
+        ? [
+            subheading(labels.logTemplate),
+            table(
+              labels.logColumns,
+              template.loggingTemplate.fields.map((field) => [
+                field.key,
+                field.type,
+                field.required ? labels.yes : labels.no,
+                field.description,
+              ])
+            ),
+            paragraph(
+              labels.retention(
+                template.loggingTemplate.retention.recommendedMinimum,
+                template.loggingTemplate.retention.note
+              )
+            ),
+          ]
+        : []),
+    ],
+    texts
+  );
+}
+
+function technicalDocumentation(
+  report: AnnexIVStructuredReportV1,
+  texts: AnnexIVDocumentMessages
+): AnnexIVBlock[] {
+  const docs = report.section7_technicalDocumentation;
+  const { reproducibility } = report.meta;
+  const labels = texts.technical;
+  return [
+    ...list(
+      labels.artifacts,
+      (docs.artifacts ?? []).map(
+        (artifact) =>
+          `${artifact.name}${artifact.description ? ` — ${artifact.description}` : ""}${artifact.location ? ` (${artifact.location})` : ""}`
+      )
+    ),
+    ...list(
+      labels.reproducibility,
+      reproducibility.seed !== undefined
+        ? [labels.seed(reproducibility.seed), ...reproducibility.notes]
+        : reproducibility.notes
+    ),
+    ...list(
+      labels.changeLog,
+      (docs.changeLog ?? []).map((entry) => `${entry.date}: ${entry.change}`)
+    ),
+    ...list(
+      labels.references,
+      docs.references.map((ref) => `${ref.label}: ${ref.reference}`)
+    ),
+  ];
+}
+
+function gapAnalysis(
+  report: AnnexIVStructuredReportV1,
+  texts: AnnexIVDocumentMessages
+): AnnexIVBlock[] {
+  const gaps = report.section8_gapAnalysis;
+  if (!gaps || gaps.actions.length === 0) {
+    return [paragraph(texts.gaps.none)];
+  }
+  return [
+    paragraph(
+      texts.gaps.summary(gaps.totalGaps, gaps.criticalCount, gaps.highCount, gaps.mediumCount)
+    ),
+    table(
+      texts.gaps.columns,
+      gaps.actions.map((action) => [
+        action.title,
+        action.articleRef,
+        action.priority,
+        action.status,
+      ])
+    ),
+  ];
+}
+
+/** Lay out the structured report as the sections of the Annex IV document */
+export function buildAnnexIVDocument(
+  report: AnnexIVStructuredReportV1,
+  locale: Locale = "en"
+): AnnexIVDocument {
+  const { system } = report.section1_generalDescription;
+  const texts = getAnnexIVDocumentMessages(locale);
+  const titles = texts.sections;
+  return {
+    lang: locale,
+    title: texts.title,
+    subtitle: `${system.name} — ${report.section1_generalDescription.provider.name}`,
+    generatedAt: report.meta.generatedAt,
+    meta: [
+      [texts.meta.generated, report.meta.generatedAt],
+      [
+        texts.meta.tool,
+        report.meta.tool.version
+          ? `${report.meta.tool.name} ${report.meta.tool.version}`
+          : report.meta.tool.name,
+      ],
+      [texts.meta.reportVersion, report.meta.reportVersion],
+    ],
+    disclaimer: report.meta.disclaimer,
+    sections: [
+      { title: titles.section1_generalDescription, blocks: generalDescription(report, texts) },
+      { title: titles.section2_designSpecifications, blocks: designSpecifications(report, texts) },
+      { title: titles.section3_dataManagement, blocks: dataManagement(report, texts) },
+      {
+        title: titles.section4_riskManagementAndMitigation,
+        blocks: riskManagement(report, texts),
+      },
+      {
+        title: titles.section5_performanceAndFairness,
+        blocks: performanceAndFairness(report, texts),
+      },
+      { title: titles.section6_humanOversight, blocks: humanOversight(report, texts) },
+      {
+        title: titles.section7_technicalDocumentation,
+        blocks: technicalDocumentation(report, texts),
+      },
+      { title: texts.gapAnalysisSection, blocks: gapAnalysis(report, texts) },
+    ],
+  };
+}
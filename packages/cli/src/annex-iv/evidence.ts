@@ -0,0 +1,134 @@
+import { access, readFile } from "node:fs/promises";
+import { basename, extname, join, relative } from "node:path";
+import type { Locale } from "@euconform/core";
+import {
+  ASSESSMENT_FILE_NAME,
+  type AnnexIVEvidenceInput,
+  BIAS_FILE_NAME,
+  parseAnnexIVDetails,
+  sha256Hex,
+  validateAiBillOfMaterials,
+  validateAssessmentReport,
+  validateBiasReport,
+  validateScanReport,
+} from "@euconform/core/evidence";
+import { parse as parseYaml } from "yaml";
+import { getAnnexIVDocumentMessages } from "./messages";
+
+const REPORT_FILE = "euconform.report.json";
+const AIBOM_FILE = "euconform.aibom.json";
+
+export interface AnnexIVEvidenceFiles {
+  details: string;
+  assessment: string;
+  report?: string;
+  aibom?: string;
+  bias: string[];
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function defaultFile(dir: string, name: string): Promise<string | undefined> {
+  const path = join(dir, name);
+  return (await exists(path)) ? path : undefined;
+}
+
+/**
+ * Resolve the evidence files: explicit paths win, otherwise the standard
+ * artifact names in the evidence directory are used when present
+ */
+export async function resolveEvidenceFiles(
+  evidenceDir: string,
+  explicit: {
+    details: string;
+    assessment?: string;
+    report?: string;
+    aibom?: string;
+    bias: string[];
+  }
+): Promise<Omit<AnnexIVEvidenceFiles, "assessment"> & { assessment?: string }> {
+  const bias =
+    explicit.bias.length > 0 ? explicit.bias : [await defaultFile(evidenceDir, BIAS_FILE_NAME)];
+  return {
+    details: explicit.details,
+    assessment: explicit.assessment ?? (await defaultFile(evidenceDir, ASSESSMENT_FILE_NAME)),
+    report: explicit.report ?? (await defaultFile(evidenceDir, REPORT_FILE)),
+    aibom: explicit.aibom ?? (await defaultFile(evidenceDir, AIBOM_FILE)),
+    bias: bias.filter((path): path is string => path !== undefined),
+  };
+}
+
+interface LoadedFile<T> {
+  data: T;
+  artifact: { name: string; description: string; location: string };
+}
+
+async function loadJson<T>(
+  path: string,
+  validate: (data: unknown) => T,
+  describe: (data: T) => string
+): Promise<LoadedFile<T>> {
+  let data: T;
+  const content = await readFile(path, "utf-8");
+  try {
+    data = validate(JSON.parse(content));
+  } catch (error) {
+    throw new Error(`${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return {
+    data,
+    artifact: {
+      name: basename(path),
+      description: `${describe(data)}, sha256 ${sha256Hex(content).slice(0, 12)}`,
+      location: relative(process.cwd(), path) || basename(path),
+    },
+  };
+}
+
+/** Read the details file; `.json` is parsed as JSON, everything else as YAML */
+export async function loadAnnexIVDetails(path: string): Promise<AnnexIVEvidenceInput["details"]> {
+  const content = await readFile(path, "utf-8");
+  return parseAnnexIVDetails(extname(path) === ".json" ? JSON.parse(content) : parseYaml(content));
+}
+
+/**
+ * Load and validate the evidence artifacts for `buildAnnexIVFromEvidence()`.
+ * The artifact descriptions are written in `locale`.
+ */
+export async function loadAnnexIVEvidence(
+  files: AnnexIVEvidenceFiles,
+  locale: Locale = "en"
+): Promise<Omit<AnnexIVEvidenceInput, "tool" | "generatedAt">> {
+  const texts = getAnnexIVDocumentMessages(locale).artifacts;
+  const assessment = await loadJson(files.assessment, validateAssessmentReport, (a) =>
+    texts.assessment(a.questionnaire, a.result.level)
+  );
+  const scan = files.report
+    ? await loadJson(files.report, validateScanReport, (r) => texts.scan(r.target.name))
+    : undefined;
+  const aibom = files.aibom
+    ? await loadJson(files.aibom, validateAiBillOfMaterials, (b) =>
+        texts.aibom(b.components.length)
+      )
+    : undefined;
+  const bias = [];
+  for (const path of files.bias) {
+    bias.push(await loadJson(path, validateBiasReport, (b) => texts.bias(b.model, b.dataset)));
+  }
+
+  return {
+    details: await loadAnnexIVDetails(files.details),
+    assessment: assessment.data,
+    ...(scan ? { scan: scan.data } : {}),
+    ...(aibom ? { aibom: aibom.data } : {}),
+    biasReports: bias.map((b) => b.data),
+    artifacts: [assessment, scan, aibom, ...bias].flatMap((file) => (file ? [file.artifact] : [])),
+  };
+}
@@ -0,0 +1,288 @@
+import type { AnnexIVReportSection, Locale } from "@euconform/core";
+
+/**
+ * Layout texts of the Annex IV document. The report content comes from core
+ * in the same locale; enum values (risk level, priority, status) are shown as
+ * they appear in the structured report.
+ */
+export interface AnnexIVDocumentMessages {
+  title: string;
+  meta: { generated: string; tool: string; reportVersion: string };
+  sections: Record<AnnexIVReportSection, string>;
+  gapAnalysisSection: string;
+  notDocumented: string;
+  general: {
+    provider: string;
+    address: string;
+    contact: string;
+    system: string;
+    intendedPurpose: string;
+    deploymentContext: string;
+    userGroups: string;
+    riskLevel: string;
+    annexIIICategories: string;
+    none: string;
+    prohibitedFlags: string;
+    legalBasis: string;
+    classificationNotes: string;
+  };
+  design: {
+    architecture: string;
+    modelType: string;
+    inputs: string;
+    outputs: string;
+    assumptions: string;
+  };
+  dataset: {
+    description: string;
+    version: string;
+    timeframe: string;
+    license: string;
+    preprocessing: string;
+  };
+  risk: { identifiedRisks: string; mitigations: string; monitoring: string };
+  performance: {
+    metrics: string;
+    metricColumns: [string, string, string];
+    noMetrics: string;
+    bias: string;
+    biasColumns: [string, string, string, string, string, string];
+    methodology: string;
+    method: string;
+    engine: string;
+    dataset: string;
+    description: string;
+    citation: string;
+    thresholds: string;
+  };
+  oversight: {
+    measures: string;
+    logging: string;
+    logTemplate: string;
+    logColumns: [string, string, string, string];
+    yes: string;
+    no: string;
+    retention: (minimum: string, note: string) => string;
+  };
+  technical: {
+    artifacts: string;
+    reproducibility: string;
+    seed: (seed: number) => string;
+    changeLog: string;
+    references: string;
+  };
+  gaps: {
+    none: string;
+    summary: (total: number, critical: number, high: number, medium: number) => string;
+    columns: [string, string, string, string];
+  };
+  /** Descriptions of the evidence files listed in section 7 */
+  artifacts: {
+    assessment: (questionnaire: string, level: string) => string;
+    scan: (target: string) => string;
+    aibom: (components: number) => string;
+    bias: (model: string, dataset: string) => string;
+  };
+  fieldColumns: [string, string];
+  footer: string;
+  page: (page: number, pages: number) => string;
+}
+
+const en: AnnexIVDocumentMessages = {
+  title: "Technical Documentation (EU AI Act, Annex IV)",
+  meta: { generated: "Generated", tool: "Tool", reportVersion: "Report version" },
+  sections: {
+    section1_generalDescription: "1. General description of the AI system",
+    section2_designSpecifications: "2. Design specifications",
+    section3_dataManagement: "3. Data and data governance",
+    section4_riskManagementAndMitigation: "4. Risk management and mitigation",
+    section5_performanceAndFairness: "5. Performance and fairness metrics",
+    section6_humanOversight: "6. Human oversight and logging",
+    section7_technicalDocumentation: "7. Technical documentation",
+  },
+  gapAnalysisSection: "8. Gap analysis",
+  notDocumented: "Not documented yet. Add this section to the system details file.",
+  general: {
+    provider: "Provider",
+    address: "Address",
+    contact: "Contact",
+    system: "System",
+    intendedPurpose: "Intended purpose",
+    deploymentContext: "Deployment context",
+    userGroups: "User groups",
+    riskLevel: "Risk level",
+    annexIIICategories: "Annex III categories",
+    none: "none",
+    prohibitedFlags: "Prohibited practice flags (Art. 5)",
+    legalBasis: "Legal basis",
+    classificationNotes: "Classification notes",
+  },
+  design: {
+    architecture: "Architecture",
+    modelType: "Model type",
+    inputs: "Inputs",
+    outputs: "Outputs",
+    assumptions: "Assumptions and limitations",
+  },
+  dataset: {
+    description: "Description",
+    version: "Version",
+    timeframe: "Timeframe",
+    license: "License",
+    preprocessing: "Preprocessing",
+  },
+  risk: {
+    identifiedRisks: "Identified risks",
+    mitigations: "Mitigations",
+    monitoring: "Post-market monitoring",
+  },
+  performance: {
+    metrics: "Performance metrics",
+    metricColumns: ["Metric", "Value", "Notes"],
+    noMetrics: "No performance metrics documented yet.",
+    bias: "Bias evaluation (CrowS-Pairs)",
+    biasColumns: ["Model", "Dataset", "Bias score", "Stereotypical preference", "Pairs", "p-value"],
+    methodology: "Bias methodology",
+    method: "Method",
+    engine: "Engine",
+    dataset: "Dataset",
+    description: "Description",
+    citation: "Citation",
+    thresholds: "Thresholds and interpretation",
+  },
+  oversight: {
+    measures: "Oversight measures",
+    logging: "Logging",
+    logTemplate: "Log record template (Art. 12)",
+    logColumns: ["Field", "Type", "Required", "Description"],
+    yes: "yes",
+    no: "no",
+    retention: (minimum, note) => `Retention: ${minimum}. ${note}`,
+  },
+  technical: {
+    artifacts: "Evidence artifacts",
+    reproducibility: "Reproducibility",
+    seed: (seed) => `Seed: ${seed}`,
+    changeLog: "Change log",
+    references: "References",
+  },
+  gaps: {
+    none: "No open obligations for this classification.",
+    summary: (total, critical, high, medium) =>
+      `${total} open obligations (${critical} critical, ${high} high, ${medium} medium).`,
+    columns: ["Obligation", "Article", "Priority", "Status"],
+  },
+  artifacts: {
+    assessment: (questionnaire, level) => `risk assessment (${questionnaire}): ${level}`,
+    scan: (target) => `scan report of ${target}`,
+    aibom: (components) => `AI bill of materials, ${components} components`,
+    bias: (model, dataset) => `bias evaluation of ${model} (${dataset})`,
+  },
+  fieldColumns: ["Field", "Value"],
+  footer:
+    "Generated by EuConform CLI — documentation scaffold for the provider's own conformity assessment; technical orientation, not legal advice",
+  page: (page, pages) => `Page ${page} of ${pages}`,
+};
+
+const de: AnnexIVDocumentMessages = {
+  title: "Technische Dokumentation (EU AI Act, Anhang IV)",
+  meta: { generated: "Erstellt", tool: "Tool", reportVersion: "Report-Version" },
+  sections: {
+    section1_generalDescription: "1. Allgemeine Beschreibung des KI-Systems",
+    section2_designSpecifications: "2. Designspezifikationen",
+    section3_dataManagement: "3. Daten und Data Governance",
+    section4_riskManagementAndMitigation: "4. Risikomanagement und Risikominderung",
+    section5_performanceAndFairness: "5. Leistungs- und Fairnessmetriken",
+    section6_humanOversight: "6. Menschliche Aufsicht und Protokollierung",
+    section7_technicalDocumentation: "7. Technische Dokumentation",
+  },
+  gapAnalysisSection: "8. Gap-Analyse",
+  notDocumented:
+    "Noch nicht dokumentiert. Ergänzen Sie diesen Abschnitt in der Datei mit den Systemangaben.",
+  general: {
+    provider: "Anbieter",
+    address: "Anschrift",
+    contact: "Kontakt",
+    system: "System",
+    intendedPurpose: "Zweckbestimmung",
+    deploymentContext: "Einsatzkontext",
+    userGroups: "Nutzergruppen",
+    riskLevel: "Risikostufe",
+    annexIIICategories: "Anhang-III-Kategorien",
+    none: "keine",
+    prohibitedFlags: "Hinweise auf verbotene Praktiken (Art. 5)",
+    legalBasis: "Rechtsgrundlage",
+    classificationNotes: "Hinweise zur Einstufung",
+  },
+  design: {
+    architecture: "Architektur",
+    modelType: "Modelltyp",
+    inputs: "Eingaben",
+    outputs: "Ausgaben",
+    assumptions: "Annahmen und Einschränkungen",
+  },
+  dataset: {
+    description: "Beschreibung",
+    version: "Version",
+    timeframe: "Zeitraum",
+    license: "Lizenz",
+    preprocessing: "Vorverarbeitung",
+  },
+  risk: {
+    identifiedRisks: "Identifizierte Risiken",
+    mitigations: "Maßnahmen zur Risikominderung",
+    monitoring: "Beobachtung nach dem Inverkehrbringen",
+  },
+  performance: {
+    metrics: "Leistungsmetriken",
+    metricColumns: ["Metrik", "Wert", "Anmerkungen"],
+    noMetrics: "Noch keine Leistungsmetriken dokumentiert.",
+    bias: "Bias-Evaluierung (CrowS-Pairs)",
+    biasColumns: ["Modell", "Datensatz", "Bias-Score", "Stereotype Präferenz", "Paare", "p-Wert"],
+    methodology: "Bias-Methodik",
+    method: "Methode",
+    engine: "Engine",
+    dataset: "Datensatz",
+    description: "Beschreibung",
+    citation: "Quelle",
+    thresholds: "Schwellenwerte und Interpretation",
+  },
+  oversight: {
+    measures: "Aufsichtsmaßnahmen",
+    logging: "Protokollierung",
+    logTemplate: "Vorlage für Protokolleinträge (Art. 12)",
+    logColumns: ["Feld", "Typ", "Pflicht", "Beschreibung"],
+    yes: "ja",
+    no: "nein",
+    retention: (minimum, note) => `Aufbewahrung: ${minimum}. ${note}`,
+  },
+  technical: {
+    artifacts: "Nachweisdokumente",
+    reproducibility: "Reproduzierbarkeit",
+    seed: (seed) => `Seed: ${seed}`,
+    changeLog: "Änderungsprotokoll",
+    references: "Referenzen",
+  },
+  gaps: {
+    none: "Keine offenen Pflichten für diese Einstufung.",
+    summary: (total, critical, high, medium) =>
+      `${total} offene Pflichten (${critical} kritisch, ${high} hoch, ${medium} mittel).`,
+    columns: ["Pflicht", "Artikel", "Priorität", "Status"],
+  },
+  artifacts: {
+    assessment: (questionnaire, level) => `Risikobewertung (${questionnaire}): ${level}`,
+    scan: (target) => `Scan-Report von ${target}`,
+    aibom: (components) => `AI Bill of Materials, ${components} Komponenten`,
+    bias: (model, dataset) => `Bias-Evaluierung von ${model} (${dataset})`,
+  },
+  fieldColumns: ["Feld", "Wert"],
+  footer:
+    "Erstellt mit der EuConform CLI — Dokumentationsgerüst für die eigene Konformitätsbewertung des Anbieters; technische Orientierung, keine Rechtsberatung",
+  page: (page, pages) => `Seite ${page} von ${pages}`,
+};
+
+const MESSAGES: Record<Locale, AnnexIVDocumentMessages> = { en, de };
+
+export function getAnnexIVDocumentMessages(locale: Locale): AnnexIVDocumentMessages {
+  return MESSAGES[locale];
+}
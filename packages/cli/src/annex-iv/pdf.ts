@@ -0,0 +1,306 @@
+import { PDFDocument, type PDFFont, type PDFPage, StandardFonts, rgb } from "pdf-lib";
+import type { AnnexIVBlock, AnnexIVDocument } from "./document";
+import { getAnnexIVDocumentMessages } from "./messages";
+
+// A4 in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const FOOTER_SPACE = 28;
+
+const TEXT = rgb(0.12, 0.16, 0.23);
+const MUTED = rgb(0.4, 0.45, 0.53);
+const RULE = rgb(0.8, 0.84, 0.88);
+const HEADER_FILL = rgb(0.95, 0.96, 0.98);
+
+const BODY_SIZE = 9.5;
+const LINE_HEIGHT = 13;
+
+// Standard PDF fonts only cover WinAnsi; map the characters our reports use
+const REPLACEMENTS: Record<string, string> = {
+  "≥": ">=",
+  "≤": "<=",
+  "→": "->",
+  "←": "<-",
+  Δ: "Delta ",
+  ŷ: "y",
+  "✓": "[x]",
+  "✗": "[ ]",
+  "≈": "~",
+  "×": "x",
+};
+const WIN_ANSI_EXTRA = new Set("€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ");
+
+function toWinAnsi(text: string): string {
+  let out = "";
+  for (const char of text.replace(/\t/g, " ")) {
+    const code = char.codePointAt(0) ?? 0;
+    if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) {
+      out += char;
+    } else if (WIN_ANSI_EXTRA.has(char)) {
+      out += char;
+    } else {
+      out += REPLACEMENTS[char] ?? (char === "\n" ? " " : "?");
+    }
+  }
+  return out;
+}
+
+/** Split a word that is wider than the column on its own (paths, hashes) */
+function breakWord(word: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const parts: string[] = [];
+  let rest = word;
+  while (font.widthOfTextAtSize(rest, size) > maxWidth && rest.length > 1) {
+    let cut = rest.length - 1;
+    while (cut > 1 && font.widthOfTextAtSize(rest.slice(0, cut), size) > maxWidth) cut--;
+    parts.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+  }
+  return [...parts, rest];
+}
+
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let current = "";
+  for (const word of toWinAnsi(text).split(" ")) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+      current = candidate;
+      continue;
+    }
+    if (current) lines.push(current);
+    const parts = breakWord(word, font, size, maxWidth);
+    current = parts.pop() ?? "";
+    lines.push(...parts);
+  }
+  if (current || lines.length === 0) lines.push(current);
+  return lines;
+}
+
+interface Layout {
+  pdf: PDFDocument;
+  page: PDFPage;
+  y: number;
+  regular: PDFFont;
+  bold: PDFFont;
+}
+
+function newPage(layout: Layout): void {
+  layout.page = layout.pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  layout.y = PAGE_HEIGHT - MARGIN;
+}
+
+function ensureSpace(layout: Layout, height: number): void {
+  if (layout.y - height < MARGIN + FOOTER_SPACE) newPage(layout);
+}
+
+function drawLines(
+  layout: Layout,
+  lines: string[],
+  options: { x?: number; font?: PDFFont; size?: number; color?: ReturnType<typeof rgb> } = {}
+): void {
+  const size = options.size ?? BODY_SIZE;
+  const lineHeight = size * 1.37;
+  for (const line of lines) {
+    ensureSpace(layout, lineHeight);
+    layout.page.drawText(line, {
+      x: options.x ?? MARGIN,
+      y: layout.y - size,
+      size,
+      font: options.font ?? layout.regular,
+      color: options.color ?? TEXT,
+    });
+    layout.y -= lineHeight;
+  }
+}
+
+function drawParagraph(layout: Layout, text: string): void {
+  drawLines(layout, wrapText(text, layout.regular, BODY_SIZE, CONTENT_WIDTH));
+  layout.y -= 6;
+}
+
+function drawList(layout: Layout, items: string[]): void {
+  const indent = 12;
+  for (const item of items) {
+    const lines = wrapText(item, layout.regular, BODY_SIZE, CONTENT_WIDTH - indent);
+    ensureSpace(layout, LINE_HEIGHT);
+    layout.page.drawText("•", {
+      x: MARGIN + 2,
+      y: layout.y - BODY_SIZE,
+      size: BODY_SIZE,
+      font: layout.regular,
+      color: MUTED,
+    });
+    drawLines(layout, lines, { x: MARGIN + indent });
+    layout.y -= 2;
+  }
+  layout.y -= 4;
+}
+
+function columnWidths(layout: Layout, rows: string[][], columns: number): number[] {
+  const padding = 10;
+  const natural = Array.from({ length: columns }, (_, col) =>
+    Math.min(
+      220,
+      Math.max(
+        40,
+        ...rows.map(
+          (row) => layout.regular.widthOfTextAtSize(toWinAnsi(row[col] ?? ""), BODY_SIZE) + padding
+        )
+      )
+    )
+  );
+  const total = natural.reduce((sum, width) => sum + width, 0);
+  return natural.map((width) => (width / total) * CONTENT_WIDTH);
+}
+
+function drawTable(layout: Layout, header: string[] | null, rows: string[][]): void {
+  const columns = header?.length ?? rows[0]?.length ?? 0;
+  if (columns === 0) return;
+  const widths =
+    header === null && columns === 2
+      ? [CONTENT_WIDTH * 0.3, CONTENT_WIDTH * 0.7]
+      : columnWidths(layout, header ? [header, ...rows] : rows, columns);
+  const pad = 4;
+
+  const drawRow = (cells: string[], bold: (col: number) => boolean, fill: boolean) => {
+    const wrapped = cells.map((cell, col) =>
+      wrapText(
+        cell,
+        bold(col) ? layout.bold : layout.regular,
+        BODY_SIZE,
+        (widths[col] ?? 0) - 2 * pad
+      )
+    );
+    const height = Math.max(...wrapped.map((lines) => lines.length)) * LINE_HEIGHT + 2 * pad;
+    ensureSpace(layout, height);
+    let x = MARGIN;
+    for (const [col, lines] of wrapped.entries()) {
+      const width = widths[col] ?? 0;
+      layout.page.drawRectangle({
+        x,
+        y: layout.y - height,
+        width,
+        height,
+        borderColor: RULE,
+        borderWidth: 0.5,
+        ...(fill || (header === null && col === 0) ? { color: HEADER_FILL } : {}),
+      });
+      lines.forEach((line, index) => {
+        layout.page.drawText(line, {
+          x: x + pad,
+          y: layout.y - pad - BODY_SIZE - index * LINE_HEIGHT + 1,
+          size: BODY_SIZE,
+          font: bold(col) ? layout.bold : layout.regular,
+          color: TEXT,
+        });
+      });
+      x += width;
+    }
+    layout.y -= height;
+  };
+
+  if (header) drawRow(header, () => true, true);
+  for (const row of rows) drawRow(row, (col) => header === null && col === 0, false);
+  layout.y -= 10;
+}
+
+function drawBlock(layout: Layout, block: AnnexIVBlock): void {
+  switch (block.kind) {
+    case "paragraph":
+      drawParagraph(layout, block.text);
+      break;
+    case "subheading":
+      ensureSpace(layout, 3 * LINE_HEIGHT);
+      layout.y -= 4;
+      drawLines(layout, wrapText(block.text, layout.bold, 10.5, CONTENT_WIDTH), {
+        font: layout.bold,
+        size: 10.5,
+      });
+      layout.y -= 3;
+      break;
+    case "list":
+      drawList(layout, block.items);
+      break;
+    case "fields":
+      drawTable(layout, null, block.rows);
+      break;
+    case "table":
+      drawTable(layout, block.header, block.rows);
+      break;
+  }
+}
+
+function drawFooters(layout: Layout, doc: AnnexIVDocument): void {
+  const { page: pageLabel } = getAnnexIVDocumentMessages(doc.lang);
+  const pages = layout.pdf.getPages();
+  pages.forEach((page, index) => {
+    const text = toWinAnsi(`${doc.subtitle} — ${pageLabel(index + 1, pages.length)}`);
+    page.drawText(text, {
+      x: MARGIN,
+      y: MARGIN - 20,
+      size: 8,
+      font: layout.regular,
+      color: MUTED,
+    });
+  });
+}
+
+/** Render the document as an A4 PDF with the standard Helvetica fonts */
+export async function renderAnnexIVPdf(doc: AnnexIVDocument): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const created = new Date(doc.generatedAt);
+  pdf.setTitle(`${doc.title} — ${doc.subtitle}`);
+  pdf.setProducer("EuConform CLI");
+  pdf.setCreator("EuConform CLI");
+  pdf.setCreationDate(created);
+  pdf.setModificationDate(created);
+
+  const layout: Layout = {
+    pdf,
+    page: pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]),
+    y: PAGE_HEIGHT - MARGIN,
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+  };
+
+  drawLines(layout, wrapText(doc.title, layout.bold, 17, CONTENT_WIDTH), {
+    font: layout.bold,
+    size: 17,
+  });
+  drawLines(layout, wrapText(doc.subtitle, layout.regular, 12, CONTENT_WIDTH), { size: 12 });
+  layout.y -= 4;
+  drawLines(
+    layout,
+    wrapText(
+      doc.meta.map(([label, value]) => `${label}: ${value}`).join("  ·  "),
+      layout.regular,
+      8.5,
+      CONTENT_WIDTH
+    ),
+    { size: 8.5, color: MUTED }
+  );
+  layout.y -= 8;
+  drawParagraph(layout, doc.disclaimer);
+
+  for (const section of doc.sections) {
+    ensureSpace(layout, 4 * LINE_HEIGHT);
+    layout.y -= 10;
+    drawLines(layout, wrapText(section.title, layout.bold, 13, CONTENT_WIDTH), {
+      font: layout.bold,
+      size: 13,
+    });
+    layout.page.drawLine({
+      start: { x: MARGIN, y: layout.y - 1 },
+      end: { x: PAGE_WIDTH - MARGIN, y: layout.y - 1 },
+      thickness: 0.5,
+      color: RULE,
+    });
+    layout.y -= 8;
+    for (const block of section.blocks) drawBlock(layout, block);
+  }
+
+  drawFooters(layout, doc);
+  return pdf.save();
+}
@@ -0,0 +1,143 @@
+import type { AnnexIVBlock, AnnexIVDocument } from "./document";
+import { getAnnexIVDocumentMessages } from "./messages";
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+function mdCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+function mdTable(header: string[], rows: string[][]): string[] {
+  return [
+    `| ${header.map(mdCell).join(" | ")} |`,
+    `|${header.map(() => "---").join("|")}|`,
+    ...rows.map((row) => `| ${row.map(mdCell).join(" | ")} |`),
+  ];
+}
+
+function mdBlock(block: AnnexIVBlock, fieldColumns: string[]): string[] {
+  switch (block.kind) {
+    case "paragraph":
+      return [block.text, ""];
+    case "subheading":
+      return [`### ${block.text}`, ""];
+    case "list":
+      return [...block.items.map((item) => `- ${item}`), ""];
+    case "fields":
+      return [...mdTable(fieldColumns, block.rows), ""];
+    case "table":
+      return [...mdTable(block.header, block.rows), ""];
+  }
+}
+
+export function renderAnnexIVMarkdown(doc: AnnexIVDocument): string {
+  const texts = getAnnexIVDocumentMessages(doc.lang);
+  return [
+    `# ${doc.title}`,
+    "",
+    `**${doc.subtitle}**`,
+    "",
+    ...doc.meta.map(([label, value]) => `- **${label}:** ${value}`),
+    "",
+    `> ${doc.disclaimer}`,
+    "",
+    ...doc.sections.flatMap((section) => [
+      `## ${section.title}`,
+      "",
+      ...section.blocks.flatMap((block) => mdBlock(block, texts.fieldColumns)),
+    ]),
+    "---",
+    "",
+    `*${texts.footer}*`,
+    "",
+  ].join("\n");
+}
+
+// ---------------------------------------------------------------------------
+// HTML
+// ---------------------------------------------------------------------------
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function htmlTable(header: string[] | null, rows: string[][]): string {
+  const head = header
+    ? `<thead><tr>${header.map((cell) => `<th>${escapeHtml(cell)}</th>`).join("")}</tr></thead>`
+    : "";
+  const body = rows
+    .map(
+      (row) =>
+        `<tr>${row.map((cell, index) => (header === null && index === 0 ? `<th>${escapeHtml(cell)}</th>` : `<td>${escapeHtml(cell)}</td>`)).join("")}</tr>`
+    )
+    .join("\n");
+  return `<table>${head}<tbody>\n${body}\n</tbody></table>`;
+}
+
+function htmlBlock(block: AnnexIVBlock): string {
+  switch (block.kind) {
+    case "paragraph":
+      return `<p>${escapeHtml(block.text)}</p>`;
+    case "subheading":
+      return `<h3>${escapeHtml(block.text)}</h3>`;
+    case "list":
+      return `<ul>\n${block.items.map((item) => `<li>${escapeHtml(item)}</li>`).join("\n")}\n</ul>`;
+    case "fields":
+      return htmlTable(null, block.rows);
+    case "table":
+      return htmlTable(block.header, block.rows);
+  }
+}
+
+const STYLE = `
+body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; color: #1e293b; max-width: 860px; margin: 2.5rem auto; padding: 0 1.5rem; line-height: 1.5; font-size: 15px; }
+h1 { font-size: 1.8rem; margin-bottom: 0.25rem; }
+h2 { font-size: 1.3rem; margin-top: 2.5rem; padding-bottom: 0.3rem; border-bottom: 1px solid #cbd5e1; }
+h3 { font-size: 1.05rem; margin-top: 1.5rem; }
+.subtitle { font-size: 1.1rem; color: #475569; margin-top: 0; }
+.meta { color: #64748b; font-size: 0.9rem; }
+.disclaimer { background: #fef9c3; border-left: 4px solid #ca8a04; padding: 0.75rem 1rem; font-size: 0.9rem; }
+table { border-collapse: collapse; width: 100%; margin: 0.75rem 0; font-size: 0.9rem; }
+th, td { border: 1px solid #e2e8f0; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }
+thead th { background: #f1f5f9; }
+tbody th { background: #f8fafc; width: 28%; font-weight: 600; }
+footer { margin-top: 3rem; color: #94a3b8; font-size: 0.8rem; }
+@media print { body { margin: 0; max-width: none; } h2 { break-after: avoid; } table { break-inside: avoid; } }
+`;
+
+/** Standalone HTML page with inline styles, printable from a browser */
+export function renderAnnexIVHtml(doc: AnnexIVDocument): string {
+  return [
+    "<!DOCTYPE html>",
+    `<html lang="${doc.lang}">`,
+    "<head>",
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(`${doc.title} — ${doc.subtitle}`)}</title>`,
+    `<style>${STYLE}</style>`,
+    "</head>",
+    "<body>",
+    `<h1>${escapeHtml(doc.title)}</h1>`,
+    `<p class="subtitle">${escapeHtml(doc.subtitle)}</p>`,
+    `<p class="meta">${doc.meta.map(([label, value]) => `${escapeHtml(label)}: ${escapeHtml(value)}`).join(" · ")}</p>`,
+    `<p class="disclaimer">${escapeHtml(doc.disclaimer)}</p>`,
+    ...doc.sections.map((section) =>
+      [
+        "<section>",
+        `<h2>${escapeHtml(section.title)}</h2>`,
+        ...section.blocks.map(htmlBlock),
+        "</section>",
+      ].join("\n")
+    ),
+    `<footer>${escapeHtml(getAnnexIVDocumentMessages(doc.lang).footer)}</footer>`,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
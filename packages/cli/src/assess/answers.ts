@@ -0,0 +1,54 @@
+import { readFile } from "node:fs/promises";
+import { basename, extname } from "node:path";
+import type { QuizAnswer, QuizQuestion } from "@euconform/core";
+import {
+  type AssessmentAnswers,
+  type AssessmentQuestionnaire,
+  type AssessmentReport,
+  parseAssessmentAnswers,
+  sha256Hex,
+} from "@euconform/core/evidence";
+import consola from "consola";
+import { parse as parseYaml, stringify as stringifyYaml } from "yaml";
+
+export interface LoadedAnswers extends AssessmentAnswers {
+  source: NonNullable<AssessmentReport["answersSource"]>;
+}
+
+/** Read an answers file; `.json` is parsed as JSON, everything else as YAML */
+export async function loadAnswersFile(path: string): Promise<LoadedAnswers> {
+  const content = await readFile(path, "utf-8");
+  const data: unknown = extname(path) === ".json" ? JSON.parse(content) : parseYaml(content);
+  return {
+    ...parseAssessmentAnswers(data),
+    source: { name: basename(path), sha256: sha256Hex(content) },
+  };
+}
+
+/** Ask every question in the terminal; Ctrl+C aborts the run */
+export async function promptAnswers(questions: QuizQuestion[]): Promise<QuizAnswer[]> {
+  const answers: QuizAnswer[] = [];
+  for (const [index, question] of questions.entries()) {
+    if (question.description) consola.log(`\n${question.description}`);
+    const value = await consola.prompt(`(${index + 1}/${questions.length}) ${question.question}`, {
+      type: "select",
+      options: question.options.map((option) => ({ label: option.label, value: option.value })),
+      cancel: "reject",
+    });
+    answers.push({ questionId: question.id, value });
+  }
+  return answers;
+}
+
+/** Answers file in the map form accepted by `--answers`, for keeping in git */
+export function renderAnswersYaml(
+  questionnaire: AssessmentQuestionnaire,
+  answers: QuizAnswer[],
+  system?: string
+): string {
+  return stringifyYaml({
+    questionnaire,
+    ...(system ? { system } : {}),
+    answers: Object.fromEntries(answers.map((answer) => [answer.questionId, answer.value])),
+  });
+}
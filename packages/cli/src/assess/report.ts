@@ -0,0 +1,83 @@
+import type { GapAction } from "@euconform/core";
+import type { AssessmentReport } from "@euconform/core/evidence";
+
+const QUESTIONNAIRE_TITLES: Record<AssessmentReport["questionnaire"], string> = {
+  "annex-iii": "Annex III risk classification with Art. 5 screening",
+  gpai: "GPAI obligations (Art. 53–55)",
+  risk: "Risk quiz (Art. 5, Art. 6 + Annex III)",
+};
+
+function renderGapAction(action: GapAction): string[] {
+  return [
+    `### ${action.title} (${action.priority})`,
+    "",
+    `**${action.articleRef}** — ${action.status === "missing" ? "missing" : "partially met"}`,
+    "",
+    action.description,
+    "",
+    ...action.steps.map((step, index) => `${index + 1}. ${step}`),
+    ...(action.penaltyRef ? ["", `*Penalty: ${action.penaltyRef}*`] : []),
+    "",
+  ];
+}
+
+export function renderAssessmentMarkdown(report: AssessmentReport): string {
+  const { result, gapAnalysis } = report;
+
+  return [
+    "# EuConform Risk Assessment",
+    "",
+    ...(report.system ? [`**System:** ${report.system}`] : []),
+    `**Questionnaire:** ${QUESTIONNAIRE_TITLES[report.questionnaire]}`,
+    ...(report.answersSource
+      ? [`**Answers:** ${report.answersSource.name} (\`${report.answersSource.sha256}\`)`]
+      : []),
+    `**Generated:** ${report.generatedAt}`,
+    "",
+    "## Result",
+    "",
+    "| Field | Value |",
+    "|-------|-------|",
+    `| Level | ${result.level} |`,
+    ...(result.category ? [`| Category | ${result.category} |`] : []),
+    ...(result.score !== undefined ? [`| Score | ${result.score} |`] : []),
+    ...(result.isSystemicRisk !== undefined
+      ? [`| Systemic Risk | ${result.isSystemicRisk ? "Yes" : "No"} |`]
+      : []),
+    `| Gaps | ${gapAnalysis.totalGaps} (${gapAnalysis.criticalCount} critical, ${gapAnalysis.highCount} high, ${gapAnalysis.mediumCount} medium) |`,
+    "",
+    ...(result.flags.length > 0
+      ? [
+          "## Flags",
+          "",
+          ...result.flags.map(
+            (flag) =>
+              `- **${flag.type}:** ${flag.message}${flag.articleReference ? ` (${flag.articleReference})` : ""}`
+          ),
+          "",
+        ]
+      : []),
+    "## Legal Basis",
+    "",
+    ...result.legalBasis.map((basis) => `- ${basis}`),
+    "",
+    ...(result.notes.length > 0
+      ? ["## Notes", "", ...result.notes.map((note) => `- ${note}`), ""]
+      : []),
+    "## Gap Analysis",
+    "",
+    ...(gapAnalysis.actions.length > 0
+      ? gapAnalysis.actions.flatMap(renderGapAction)
+      : ["No open obligations for this classification.", ""]),
+    "## Answers",
+    "",
+    "| Question | Answer |",
+    "|----------|--------|",
+    ...report.answers.map((answer) => `| ${answer.questionId} | ${answer.value} |`),
+    "",
+    "---",
+    "",
+    "*Generated by [EuConform CLI](https://github.com/Hiepler/EuConform) — self-assessment from questionnaire answers; technical orientation, not legal advice*",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,103 @@
+import { createHash } from "node:crypto";
+import { appendFileSync, existsSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import type { CrowsPairsEntry, CrowsPairsPairResult } from "@euconform/core";
+
+const CHECKPOINT_VERSION = 1;
+
+export interface BiasRunIdentity {
+  model: string;
+  engine: string;
+  dataset: string;
+  entries: CrowsPairsEntry[];
+}
+
+interface CheckpointHeader {
+  kind: "euconform.bias-run";
+  version: number;
+  model: string;
+  engine: string;
+  dataset: string;
+  startedAt: string;
+}
+
+/**
+ * Stable hash of everything that determines per-pair results: model, engine and
+ * dataset content. The server URL is deliberately excluded so a restarted server
+ * on another port can resume the same run.
+ */
+export function biasRunHash(identity: BiasRunIdentity): string {
+  const hash = createHash("sha256");
+  hash.update(JSON.stringify([identity.model, identity.engine, identity.dataset]));
+  for (const entry of identity.entries) {
+    hash.update(JSON.stringify([entry.id, entry.sent_more, entry.sent_less, entry.bias_type]));
+  }
+  return hash.digest("hex").slice(0, 12);
+}
+
+export function checkpointPath(outDir: string, identity: BiasRunIdentity): string {
+  return resolve(outDir, `bias-run-${biasRunHash(identity)}.jsonl`);
+}
+
+function isPairResult(value: unknown): value is CrowsPairsPairResult {
+  if (typeof value !== "object" || value === null) return false;
+  const pair = value as Record<string, unknown>;
+  return (
+    typeof pair.id === "number" &&
+    typeof pair.biasType === "string" &&
+    typeof pair.logprobStereo === "number" &&
+    typeof pair.logprobAnti === "number" &&
+    typeof pair.score === "number" &&
+    typeof pair.method === "string"
+  );
+}
+
+/**
+ * Read completed pairs from a checkpoint. Returns null when no checkpoint exists.
+ * Unparseable lines (e.g. a partial write at crash time) are ignored.
+ */
+export function readCheckpoint(path: string): CrowsPairsPairResult[] | null {
+  if (!existsSync(path)) return null;
+
+  const lines = readFileSync(path, "utf-8").split("\n");
+  const header = parseLine(lines[0] ?? "") as Partial<CheckpointHeader> | null;
+  if (header?.kind !== "euconform.bias-run" || header.version !== CHECKPOINT_VERSION) {
+    throw new Error(`Not a bias run checkpoint: ${path}`);
+  }
+
+  return lines.slice(1).map(parseLine).filter(isPairResult);
+}
+
+function parseLine(line: string): unknown {
+  try {
+    return JSON.parse(line);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Create (or truncate) a checkpoint file and write its header
+ */
+export function startCheckpoint(path: string, identity: BiasRunIdentity): void {
+  const header: CheckpointHeader = {
+    kind: "euconform.bias-run",
+    version: CHECKPOINT_VERSION,
+    model: identity.model,
+    engine: identity.engine,
+    dataset: identity.dataset,
+    startedAt: new Date().toISOString(),
+  };
+  writeFileSync(path, `${JSON.stringify(header)}\n`);
+}
+
+/**
+ * Append one pair result. Synchronous so concurrent workers never interleave lines.
+ */
+export function appendCheckpoint(path: string, pair: CrowsPairsPairResult): void {
+  appendFileSync(path, `${JSON.stringify(pair)}\n`);
+}
+
+export function removeCheckpoint(path: string): void {
+  rmSync(path, { force: true });
+}
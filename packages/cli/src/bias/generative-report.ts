@@ -0,0 +1,79 @@
+import type { GenerativeAttributeResult, GenerativeBiasResult } from "@euconform/core";
+import { type GenerativeBiasReport, buildGenerativeBiasReport } from "@euconform/core/evidence";
+import { ENGINE_LABELS } from "./report";
+import type { BiasTestEngine } from "./run-bias-test";
+
+export const GENERATIVE_BIAS_MD_FILE_NAME = "euconform.bias-generative.md";
+
+export function buildGenerativeBiasOutput(input: {
+  model: string;
+  engine: BiasTestEngine;
+  result: GenerativeBiasResult;
+  generatedAt?: string;
+}): GenerativeBiasReport {
+  return buildGenerativeBiasReport({
+    ...input,
+    generatedAt: input.generatedAt ?? new Date().toISOString(),
+  });
+}
+
+function renderAttributeSection(attribute: GenerativeAttributeResult): string[] {
+  return [
+    `### ${attribute.attribute} ${attribute.passed ? "(passed)" : "(disparity above threshold)"}`,
+    "",
+    `Regard gap: ${attribute.regardGap.toFixed(4)} · Toxicity gap: ${attribute.toxicityGap.toFixed(4)}`,
+    "",
+    "| Group | Samples | Avg. Regard | Avg. Toxicity | Max. Toxicity |",
+    "|-------|---------|-------------|---------------|---------------|",
+    ...attribute.groups.map(
+      (group) =>
+        `| ${group.group} | ${group.samples} | ${group.avgRegard.toFixed(4)} | ` +
+        `${group.avgToxicity.toFixed(4)} | ${group.maxToxicity.toFixed(4)} |`
+    ),
+    "",
+  ];
+}
+
+export function renderGenerativeBiasMarkdown(report: GenerativeBiasReport): string {
+  const { summary, thresholds } = report;
+
+  return [
+    "# EuConform Generative Bias Report",
+    "",
+    `**Model:** ${report.model}`,
+    `**Engine:** ${ENGINE_LABELS[report.engine]}`,
+    `**Prompt language:** ${report.lang.toUpperCase()}`,
+    `**Regard classifier:** ${report.classifiers.regard ?? "unknown"}`,
+    `**Toxicity classifier:** ${report.classifiers.toxicity ?? "unknown"}`,
+    `**Generated:** ${report.generatedAt}`,
+    "",
+    "## Results",
+    "",
+    "| Metric | Value |",
+    "|--------|-------|",
+    `| Status | ${summary.passed ? "Passed" : "Disparities above thresholds"} |`,
+    `| Completions Scored | ${summary.scored} of ${summary.prompts} |`,
+    `| Avg. Toxicity | ${summary.averageToxicity.toFixed(4)} |`,
+    `| Max. Toxicity | ${summary.maxToxicity.toFixed(4)} |`,
+    "",
+    "## Group Disparities",
+    "",
+    ...report.byAttribute.flatMap(renderAttributeSection),
+    "## Thresholds",
+    "",
+    "| Metric | Threshold |",
+    "|--------|-----------|",
+    `| Regard gap within an attribute | ≤ ${thresholds.regardGap} |`,
+    `| Toxicity gap within an attribute | ≤ ${thresholds.toxicityGap} |`,
+    `| Toxicity of any completion | ≤ ${thresholds.toxicityMax} |`,
+    "",
+    "Regard is in [-1, 1] (negative to positive), toxicity in [0, 1]. Gaps are the difference",
+    "between the highest and lowest group average. These are screening heuristics, not legal thresholds.",
+    "Every prompt and completion is included in the JSON report.",
+    "",
+    "---",
+    "",
+    "*Generated by [EuConform CLI](https://github.com/Hiepler/EuConform) using regard (Sheng et al., 2019) and classifier-based toxicity scoring*",
+    "",
+  ].join("\n");
+}
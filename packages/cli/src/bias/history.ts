@@ -0,0 +1,117 @@
+import { existsSync } from "node:fs";
+import { mkdir, readFile, readdir, writeFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import { type BiasReport, validateBiasReport } from "@euconform/core/evidence";
+import consola from "consola";
+
+/** Bias reports of earlier runs, relative to the output directory */
+export const BIAS_HISTORY_DIR = join("history", "bias");
+
+export interface BiasHistoryEntry {
+  path: string;
+  report: BiasReport;
+}
+
+function historyFileName(report: BiasReport): string {
+  const timestamp = report.generatedAt.replace(/[:.]/g, "-");
+  const model = report.model.replace(/[^a-zA-Z0-9._-]+/g, "_");
+  const digest = report.modelDigest ? `-${report.modelDigest.slice(0, 12)}` : "";
+  return `${timestamp}-${model}${digest}.json`;
+}
+
+/**
+ * Keep a copy of a bias report in the history, so later runs can be
+ * compared against it after euconform.bias.json has been overwritten
+ */
+export async function recordBiasHistory(outDir: string, report: BiasReport): Promise<string> {
+  const historyDir = join(outDir, BIAS_HISTORY_DIR);
+  await mkdir(historyDir, { recursive: true });
+  const path = join(historyDir, historyFileName(report));
+  await writeFile(path, JSON.stringify(report, null, 2), "utf-8");
+  consola.info(`Recorded in bias history: ${path}`);
+  return path;
+}
+
+async function readBiasReport(path: string): Promise<BiasReport> {
+  return validateBiasReport(JSON.parse(await readFile(path, "utf-8")));
+}
+
+/** All recorded runs, oldest first. Unreadable files are skipped with a warning. */
+export async function loadBiasHistory(outDir: string): Promise<BiasHistoryEntry[]> {
+  const historyDir = join(outDir, BIAS_HISTORY_DIR);
+  if (!existsSync(historyDir)) return [];
+
+  const entries: BiasHistoryEntry[] = [];
+  for (const name of (await readdir(historyDir)).filter((file) => file.endsWith(".json"))) {
+    const path = join(historyDir, name);
+    try {
+      entries.push({ path, report: await readBiasReport(path) });
+    } catch (error) {
+      consola.warn(`Skipping ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  return entries.sort((a, b) => a.report.generatedAt.localeCompare(b.report.generatedAt));
+}
+
+/** Same dataset content and method, i.e. scores are comparable */
+export function isComparable(a: BiasReport, b: BiasReport): boolean {
+  return a.datasetSha256 === b.datasetSha256 && a.result.method === b.result.method;
+}
+
+function isSameModel(a: BiasReport, b: BiasReport): boolean {
+  if (a.modelDigest && b.modelDigest) return a.modelDigest === b.modelDigest;
+  return a.model === b.model;
+}
+
+function matchesReference(report: BiasReport, reference: string): boolean {
+  return (
+    report.model === reference ||
+    (reference.length >= 7 && report.modelDigest?.startsWith(reference.toLowerCase()) === true)
+  );
+}
+
+/**
+ * Resolve a bias run by report path, model name, or digest prefix. History
+ * lookups return the latest matching run; with `comparableTo`, only runs on
+ * the same dataset and method are considered.
+ */
+export async function resolveBiasReference(
+  reference: string,
+  history: BiasHistoryEntry[],
+  comparableTo?: BiasReport
+): Promise<BiasHistoryEntry> {
+  if (reference.endsWith(".json") && existsSync(reference)) {
+    const path = resolve(reference);
+    return { path, report: await readBiasReport(path) };
+  }
+
+  const matches = history.filter(
+    (entry) =>
+      matchesReference(entry.report, reference) &&
+      (!comparableTo || isComparable(entry.report, comparableTo))
+  );
+  const latest = matches.at(-1);
+  if (!latest) {
+    const scope = comparableTo ? " on the same dataset and method" : "";
+    throw new Error(`No recorded bias run for '${reference}'${scope}`);
+  }
+  return latest;
+}
+
+/**
+ * Default baseline: the latest earlier run of a different model (or model
+ * build) on the same dataset and method
+ */
+export function findPreviousBaseline(
+  history: BiasHistoryEntry[],
+  candidate: BiasReport
+): BiasHistoryEntry | undefined {
+  return history
+    .filter(
+      (entry) =>
+        entry.report.generatedAt < candidate.generatedAt &&
+        isComparable(entry.report, candidate) &&
+        !isSameModel(entry.report, candidate)
+    )
+    .at(-1);
+}
@@ -0,0 +1,71 @@
+import type { CrowsPairsProgress } from "@euconform/core";
+import consola from "consola";
+
+const BAR_WIDTH = 30;
+
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) return `${hours}h${String(minutes).padStart(2, "0")}m`;
+  if (minutes > 0) return `${minutes}m${String(seconds).padStart(2, "0")}s`;
+  return `${seconds}s`;
+}
+
+/**
+ * Render a progress line such as
+ * `[██████░░░░] 60% 905/1508 · 2 failed · ETA 14m05s`
+ */
+export function formatProgress(
+  progress: CrowsPairsProgress,
+  elapsedMs: number,
+  processedAtStart: number
+): string {
+  const { processed, failed, total } = progress;
+  const ratio = total === 0 ? 1 : processed / total;
+  const filled = Math.round(ratio * BAR_WIDTH);
+  const bar = `${"█".repeat(filled)}${"░".repeat(BAR_WIDTH - filled)}`;
+  const parts = [`[${bar}] ${Math.floor(ratio * 100)}% ${processed}/${total}`];
+
+  if (failed > 0) parts.push(`${failed} failed`);
+
+  const processedThisRun = processed - processedAtStart;
+  if (processedThisRun > 0 && processed < total) {
+    const remainingMs = (elapsedMs / processedThisRun) * (total - processed);
+    parts.push(`ETA ${formatDuration(remainingMs)}`);
+  }
+
+  return parts.join(" · ");
+}
+
+/**
+ * Progress reporter for bias runs: redraws a single line on TTYs and logs
+ * every 10% otherwise (CI logs).
+ */
+export function createProgressReporter(stream: NodeJS.WriteStream = process.stderr) {
+  const startedAt = Date.now();
+  let processedAtStart: number | null = null;
+  let lastLoggedDecile = -1;
+
+  return {
+    update(progress: CrowsPairsProgress): void {
+      processedAtStart ??= progress.processed;
+      const line = formatProgress(progress, Date.now() - startedAt, processedAtStart);
+
+      if (stream.isTTY) {
+        stream.write(`\r${line}`);
+        return;
+      }
+
+      const decile = Math.floor((progress.processed / Math.max(progress.total, 1)) * 10);
+      if (decile > lastLoggedDecile) {
+        lastLoggedDecile = decile;
+        consola.info(line);
+      }
+    },
+    done(): void {
+      if (stream.isTTY) stream.write("\n");
+    },
+  };
+}
@@ -0,0 +1,121 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import {
+  type BiasReplayDrift,
+  type BiasReport,
+  detectBiasReplayDrift,
+  renderBiasReplayMarkdown,
+  validateBiasReport,
+} from "@euconform/core/evidence";
+import consola from "consola";
+import { buildBiasOutput } from "./report";
+import { runBiasTest } from "./run-bias-test";
+
+export const BIAS_REPLAY_JSON_FILE_NAME = "euconform.bias-replay.json";
+export const BIAS_REPLAY_MD_FILE_NAME = "euconform.bias-replay.md";
+
+export interface BiasReplayOptions {
+  /** Bias report with a reproducibility block */
+  reportPath: string;
+  /** Custom dataset file; required when the original run used one */
+  datasetPath?: string;
+  url?: string;
+  apiKey?: string;
+  concurrency?: number;
+  retries?: number;
+}
+
+export interface BiasReplayRun {
+  original: BiasReport;
+  replay: BiasReport;
+  drift: BiasReplayDrift;
+}
+
+async function readOriginal(reportPath: string): Promise<BiasReport> {
+  const report = validateBiasReport(JSON.parse(await readFile(reportPath, "utf-8")));
+  if (!report.reproducibility) {
+    throw new Error(
+      `${reportPath} has no reproducibility block; only reports from EuConform CLI runs with recorded parameters can be replayed`
+    );
+  }
+  return report;
+}
+
+/**
+ * Re-run the bias evaluation recorded in a report with the same model,
+ * engine, dataset, seed and bootstrap settings, and measure the drift
+ */
+export async function replayBiasRun(options: BiasReplayOptions): Promise<BiasReplayRun> {
+  const original = await readOriginal(options.reportPath);
+  // readOriginal guarantees the block
+  const recorded = original.reproducibility as NonNullable<BiasReport["reproducibility"]>;
+  const engine = recorded.engine.name;
+  if (engine !== "ollama" && engine !== "openai-compatible") {
+    throw new Error(`Runs on the ${engine} engine cannot be replayed from the CLI`);
+  }
+  if (recorded.dataset.source === "file" && !options.datasetPath) {
+    throw new Error(
+      `The run used the custom dataset ${recorded.dataset.fileName ?? recorded.dataset.name}; pass it with --dataset`
+    );
+  }
+
+  consola.info(
+    `Replaying ${recorded.model.name} on ${recorded.dataset.name} from ${original.generatedAt} ` +
+      `(seed ${recorded.seed}, ${recorded.tool.name} ${recorded.tool.version})`
+  );
+  const { result, dataset, modelDigest, reproducibility } = await runBiasTest({
+    model: recorded.model.name,
+    lang: recorded.dataset.lang ?? "en",
+    datasetPath: recorded.dataset.source === "file" ? options.datasetPath : undefined,
+    datasetSha256: recorded.dataset.sha256,
+    url: options.url,
+    engine,
+    apiKey: options.apiKey,
+    seed: recorded.seed,
+    bootstrapIterations: recorded.bootstrapIterations,
+    concurrency: options.concurrency,
+    retries: options.retries,
+  });
+
+  const replay = buildBiasOutput({
+    model: recorded.model.name,
+    modelDigest,
+    engine,
+    dataset,
+    result,
+    reproducibility,
+  });
+  return { original, replay, drift: detectBiasReplayDrift(original, replay) };
+}
+
+export function logBiasReplayDrift(drift: BiasReplayDrift): void {
+  for (const change of drift.parameterChanges) {
+    consola.warn(`${change.field} changed: ${change.original} → ${change.replay}`);
+  }
+  if (drift.reproduced) {
+    consola.success(
+      `Reproduced: ${drift.pairs.compared} pairs within ${drift.tolerance} (score ${drift.score.replay.toFixed(6)})`
+    );
+    return;
+  }
+  consola.warn(
+    `Drift detected: score ${drift.score.original.toFixed(6)} → ${drift.score.replay.toFixed(6)}, ` +
+      `${drift.pairs.drifted} of ${drift.pairs.compared} pairs outside ${drift.tolerance}, ` +
+      `${drift.pairs.methodChangedPairIds.length} method changes, ` +
+      `${drift.pairs.missingPairIds.length} pairs not re-evaluated`
+  );
+}
+
+/**
+ * Write the replayed report (a regular bias report) and the drift Markdown,
+ * next to the original instead of over it
+ */
+export async function writeBiasReplayOutputs(outDir: string, run: BiasReplayRun): Promise<void> {
+  const jsonPath = resolve(outDir, BIAS_REPLAY_JSON_FILE_NAME);
+  await writeFile(jsonPath, JSON.stringify(run.replay, null, 2));
+  consola.success(`Written ${jsonPath}`);
+
+  const mdPath = resolve(outDir, BIAS_REPLAY_MD_FILE_NAME);
+  await writeFile(mdPath, renderBiasReplayMarkdown(run.drift));
+  consola.success(`Written: ${mdPath}`);
+}
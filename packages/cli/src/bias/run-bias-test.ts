@@ -1,40 +1,281 @@
-import { type CrowsPairsBiasResult, OllamaClient, calculateCrowsPairsBias } from "@euconform/core";
-import { loadCrowsPairsDataset } from "@euconform/core/datasets";
+import { basename } from "node:path";
+import {
+  type BiasEngine,
+  type BiasReproducibility,
+  type CrowsPairsBiasResult,
+  type CrowsPairsPairResult,
+  OPENAI_COMPATIBLE_BASE_URL,
+  OllamaClient,
+  OpenAICompatibleClient,
+  calculateCrowsPairsBias,
+} from "@euconform/core";
+import {
+  type LoadedBiasDataset,
+  loadBiasDataset,
+  loadBundledBiasDataset,
+} from "@euconform/core/datasets";
+import { buildBiasReproducibility } from "@euconform/core/evidence";
 import consola from "consola";
+import { CLI_VERSION } from "../utils/version";
 import { fileCache } from "./cache";
+import {
+  type BiasRunIdentity,
+  appendCheckpoint,
+  checkpointPath,
+  readCheckpoint,
+  removeCheckpoint,
+  startCheckpoint,
+} from "./checkpoint";
+import { createProgressReporter } from "./progress";
 import { formatBiasSeverity } from "./severity";
 
+export type BiasTestEngine = Extract<BiasEngine, "ollama" | "openai-compatible">;
+
+export const DEFAULT_ENGINE_URLS: Record<BiasTestEngine, string> = {
+  ollama: "http://localhost:11434",
+  "openai-compatible": OPENAI_COMPATIBLE_BASE_URL,
+};
+
 export interface BiasTestOptions {
   model: string;
+  /** Language of the bundled CrowS-Pairs dataset; ignored when datasetPath is set */
   lang: "en" | "de";
+  /** Custom CSV/JSON/JSONL dataset of stereotype pairs */
+  datasetPath?: string;
   url?: string;
+  engine?: BiasTestEngine;
+  /** Bearer token for OpenAI-compatible endpoints */
+  apiKey?: string;
+  /** Seed for bootstrap confidence intervals */
+  seed?: number;
+  /** Bootstrap resamples per confidence interval */
+  bootstrapIterations?: number;
+  /** Expected dataset SHA-256 (replays); a mismatch aborts before any model call */
+  datasetSha256?: string;
+  /** Pairs evaluated in parallel */
+  concurrency?: number;
+  /** Additional attempts per pair after a failed request */
+  retries?: number;
+  /** Directory for the bias-run-<hash>.jsonl checkpoint; no checkpoint is written when unset */
+  checkpointDir?: string;
+  /** Continue from an existing checkpoint instead of starting over */
+  resume?: boolean;
 }
 
-export async function runBiasTest(options: BiasTestOptions): Promise<CrowsPairsBiasResult> {
-  const { model, lang, url } = options;
-  const baseUrl = url ?? "http://localhost:11434";
+/** Dataset identity recorded in bias reports */
+export interface BiasDatasetSummary {
+  name: string;
+  /** Human-readable name, e.g. "CrowS-Pairs (DE)" */
+  label: string;
+  source: LoadedBiasDataset["source"];
+  format: LoadedBiasDataset["format"];
+  sha256: string;
+}
 
-  // 1. Create client and verify model (also validates Ollama is reachable)
-  const client = new OllamaClient(model, baseUrl, fileCache);
-  consola.start(`Verifying model '${model}' is available on ${baseUrl}...`);
-  await client.ensureModelLoaded();
-  consola.success(`Model '${model}' is loaded`);
+export interface BiasTestRun {
+  result: CrowsPairsBiasResult;
+  dataset: BiasDatasetSummary;
+  /** Content digest of the model build; only Ollama exposes one */
+  modelDigest?: string;
+  reproducibility: BiasReproducibility;
+}
 
-  // 2. Load dataset
-  consola.start(`Loading CrowS-Pairs dataset (${lang})...`);
-  const dataset = loadCrowsPairsDataset(lang);
-  consola.success(`Loaded ${dataset.length} sentence pairs`);
+function loadDataset(options: BiasTestOptions): { dataset: LoadedBiasDataset; label: string } {
+  if (!options.datasetPath) {
+    consola.start(`Loading CrowS-Pairs dataset (${options.lang})...`);
+    const dataset = loadBundledBiasDataset(options.lang);
+    return { dataset, label: `CrowS-Pairs (${options.lang.toUpperCase()})` };
+  }
 
-  // 3. Run bias test
-  consola.start(`Running CrowS-Pairs bias test on '${model}'...`);
-  const result = await calculateCrowsPairsBias({ dataset, model, engine: "ollama" }, client);
+  consola.start(`Loading bias dataset ${options.datasetPath}...`);
+  const dataset = loadBiasDataset(options.datasetPath);
+  for (const warning of dataset.warnings.slice(0, 5)) {
+    consola.warn(`row ${warning.row} (${warning.field}): ${warning.message}`);
+  }
+  if (dataset.warnings.length > 5) {
+    consola.warn(`... and ${dataset.warnings.length - 5} more dataset warnings`);
+  }
+  return { dataset, label: `${dataset.name} (custom ${dataset.format.toUpperCase()})` };
+}
 
-  // 4. Report result
+/** Replays must evaluate the exact dataset content of the original run */
+function assertDatasetHash(loaded: LoadedBiasDataset, expected: string | undefined): void {
+  if (expected && expected !== loaded.sha256) {
+    throw new Error(
+      `Dataset ${loaded.name} has sha256 ${loaded.sha256.slice(0, 12)}, but the run used ${expected.slice(0, 12)}`
+    );
+  }
+}
+
+export function createClient(
+  engine: BiasTestEngine,
+  model: string,
+  baseUrl: string,
+  apiKey?: string
+) {
+  if (engine === "openai-compatible") {
+    return new OpenAICompatibleClient(model, baseUrl, { apiKey, cache: fileCache });
+  }
+  return new OllamaClient(model, baseUrl, fileCache);
+}
+
+interface ModelEnvironment {
+  model: Omit<BiasReproducibility["model"], "name">;
+  engineVersion?: string;
+}
+
+/**
+ * Look up the model build and server version for history, comparisons and
+ * replays. Only Ollama exposes them; a failure costs provenance, so it is
+ * reported but does not abort the run.
+ */
+async function resolveModelEnvironment(
+  client: ReturnType<typeof createClient>
+): Promise<ModelEnvironment> {
+  if (!(client instanceof OllamaClient)) return { model: {} };
+  const describe = (error: unknown) => (error instanceof Error ? error.message : String(error));
+  const model = await client.getModelInfo().catch((error: unknown) => {
+    consola.warn(`Could not read the model digest: ${describe(error)}`);
+    return {};
+  });
+  const engineVersion = await client.getServerVersion().catch((error: unknown) => {
+    consola.warn(`Could not read the Ollama version: ${describe(error)}`);
+    return undefined;
+  });
+  return { model, ...(engineVersion ? { engineVersion } : {}) };
+}
+
+/**
+ * Open the checkpoint for this run and return pairs completed by an earlier run
+ */
+function prepareCheckpoint(
+  path: string,
+  identity: BiasRunIdentity,
+  resume: boolean
+): CrowsPairsPairResult[] {
+  const previous = readCheckpoint(path);
+
+  if (resume && previous) {
+    consola.info(`Resuming from ${path} (${previous.length} pairs already evaluated)`);
+    return previous;
+  }
+  if (resume) {
+    consola.info(`No checkpoint found at ${path}, starting a new run`);
+  } else if (previous) {
+    consola.warn(`Overwriting checkpoint ${path}; pass --resume to continue it instead`);
+  }
+
+  startCheckpoint(path, identity);
+  return [];
+}
+
+function logResult(result: CrowsPairsBiasResult): void {
   const severity = formatBiasSeverity(result.score);
   consola.success(
     `Bias test complete: score=${result.score.toFixed(4)} (${severity}), ` +
       `method=${result.method}, pairs=${result.pairsAnalyzed}`
   );
+  const { confidenceInterval: ci, significance } = result;
+  if (ci && significance) {
+    consola.info(
+      `${Math.round(ci.level * 100)}% CI [${ci.lower.toFixed(4)}, ${ci.upper.toFixed(4)}], ` +
+        `p=${significance.pValue.toPrecision(3)} vs. 50% stereotypical preference`
+    );
+  }
+}
+
+export async function runBiasTest(options: BiasTestOptions): Promise<BiasTestRun> {
+  const { model, url, apiKey, seed, checkpointDir } = options;
+  const engine = options.engine ?? "ollama";
+  const baseUrl = url ?? DEFAULT_ENGINE_URLS[engine];
+
+  // 1. Load and validate the dataset before contacting the server
+  const { dataset: loaded, label } = loadDataset(options);
+  assertDatasetHash(loaded, options.datasetSha256);
+  const dataset = loaded.entries;
+  consola.success(`Loaded ${dataset.length} sentence pairs (sha256 ${loaded.sha256.slice(0, 12)})`);
+
+  // 2. Create client and verify model (also validates the server is reachable)
+  const client = createClient(engine, model, baseUrl, apiKey);
+  consola.start(`Verifying model '${model}' is available on ${baseUrl}...`);
+  await client.ensureModelLoaded();
+  const environment = await resolveModelEnvironment(client);
+  const modelDigest = environment.model.digest;
+  consola.success(
+    `Model '${model}' is loaded${modelDigest ? ` (digest ${modelDigest.slice(0, 12)})` : ""}`
+  );
+
+  // 3. Run bias test, checkpointing each pair so interrupted runs can resume
+  const identity: BiasRunIdentity = { model, engine, dataset: loaded.name, entries: dataset };
+  const checkpoint = checkpointDir ? checkpointPath(checkpointDir, identity) : null;
+  const completedPairs = checkpoint
+    ? prepareCheckpoint(checkpoint, identity, options.resume ?? false)
+    : [];
+
+  consola.start(`Running CrowS-Pairs bias test on '${model}' with ${label}...`);
+  const progress = createProgressReporter();
+  let failed = 0;
+  let result: CrowsPairsBiasResult;
+  try {
+    result = await calculateCrowsPairsBias(
+      { dataset, model, engine, seed, bootstrapIterations: options.bootstrapIterations },
+      client,
+      {
+        concurrency: options.concurrency,
+        retries: options.retries,
+        completedPairs,
+        onPairComplete: checkpoint ? (pair) => appendCheckpoint(checkpoint, pair) : undefined,
+        onProgress: (current) => {
+          failed = current.failed;
+          progress.update(current);
+        },
+      }
+    );
+  } finally {
+    progress.done();
+  }
+
+  // Keep the checkpoint while pairs are missing so --resume can retry just those
+  if (checkpoint && failed > 0) {
+    consola.warn(`${failed} pairs failed; rerun with --resume to retry them`);
+  } else if (checkpoint) {
+    removeCheckpoint(checkpoint);
+  }
+
+  // 4. Report result
+  logResult(result);
+  const reproducibility = buildBiasReproducibility({
+    tool: { name: "euconform", version: CLI_VERSION },
+    engine: {
+      name: engine,
+      ...(environment.engineVersion ? { version: environment.engineVersion } : {}),
+    },
+    model: { name: model, ...environment.model },
+    generationOptions: client.getGenerationOptions(),
+    dataset: {
+      name: loaded.name,
+      source: loaded.source,
+      sha256: loaded.sha256,
+      ...(options.datasetPath
+        ? { fileName: basename(options.datasetPath) }
+        : { lang: options.lang }),
+      pairIds: dataset.map((entry) => entry.id),
+    },
+    seed,
+    bootstrapIterations: options.bootstrapIterations,
+    pairs: result.pairs ?? [],
+  });
 
-  return result;
+  return {
+    result,
+    reproducibility,
+    dataset: {
+      name: loaded.name,
+      label,
+      source: loaded.source,
+      format: loaded.format,
+      sha256: loaded.sha256,
+    },
+    ...(modelDigest ? { modelDigest } : {}),
+  };
 }
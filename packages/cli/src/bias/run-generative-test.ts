@@ -0,0 +1,111 @@
+import {
+  type GenerativeBiasResult,
+  type RegardScorer,
+  type ToxicityScorer,
+  buildGenerativeBiasPrompts,
+  createTransformersRegardScorer,
+  createTransformersToxicityScorer,
+  runGenerativeBiasTest,
+} from "@euconform/core";
+import consola from "consola";
+import { createProgressReporter } from "./progress";
+import { type BiasTestEngine, DEFAULT_ENGINE_URLS, createClient } from "./run-bias-test";
+
+export interface GenerativeTestOptions {
+  model: string;
+  lang: "en" | "de";
+  url?: string;
+  engine?: BiasTestEngine;
+  /** Bearer token for OpenAI-compatible endpoints */
+  apiKey?: string;
+  /** Prompts generated in parallel */
+  concurrency?: number;
+  /** Hugging Face model ids of the local classifiers (transformers.js defaults when unset) */
+  regardModel?: string;
+  toxicityModel?: string;
+}
+
+/**
+ * Load the local regard and toxicity classifiers. `@xenova/transformers` is not
+ * bundled with the CLI, so a missing package is reported with install advice.
+ */
+async function loadScorers(
+  options: GenerativeTestOptions
+): Promise<{ regard: RegardScorer; toxicity: ToxicityScorer }> {
+  consola.start("Loading local regard and toxicity classifiers (first run downloads weights)...");
+  try {
+    const [regard, toxicity] = await Promise.all([
+      createTransformersRegardScorer({ modelId: options.regardModel }),
+      createTransformersToxicityScorer({ modelId: options.toxicityModel }),
+    ]);
+    consola.success(`Classifiers ready: ${regard.modelId}, ${toxicity.modelId}`);
+    return { regard, toxicity };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (message.includes("@xenova/transformers")) {
+      throw new Error(
+        "The generative suite needs @xenova/transformers for local scoring. " +
+          "Install it next to the CLI: npm install -g @xenova/transformers"
+      );
+    }
+    throw new Error(`Failed to load classifiers: ${message}`);
+  }
+}
+
+export async function runGenerativeTest(
+  options: GenerativeTestOptions
+): Promise<GenerativeBiasResult> {
+  const { model, lang, apiKey } = options;
+  const engine = options.engine ?? "ollama";
+  const baseUrl = options.url ?? DEFAULT_ENGINE_URLS[engine];
+
+  // 1. Verify the model before loading the (large) classifiers
+  const client = createClient(engine, model, baseUrl, apiKey);
+  consola.start(`Verifying model '${model}' is available on ${baseUrl}...`);
+  await client.ensureModelLoaded();
+  consola.success(`Model '${model}' is loaded`);
+
+  const scorers = await loadScorers(options);
+
+  // 2. Generate and score completions for every group prompt
+  const prompts = buildGenerativeBiasPrompts(lang);
+  consola.start(`Running generative bias suite on '${model}' with ${prompts.length} prompts...`);
+  const progress = createProgressReporter();
+  let result: GenerativeBiasResult;
+  try {
+    result = await runGenerativeBiasTest({
+      generator: client,
+      modelId: model,
+      lang,
+      prompts,
+      regardScorer: scorers.regard,
+      toxicityScorer: scorers.toxicity,
+      options: { concurrency: options.concurrency, onProgress: progress.update },
+    });
+  } finally {
+    progress.done();
+  }
+
+  // 3. Report result
+  if (result.failures.length > 0) {
+    consola.warn(
+      `${result.failures.length} of ${result.prompts} generations failed and were skipped`
+    );
+    for (const failure of result.failures) {
+      consola.debug(`Failed to generate '${failure.id}': ${failure.error}`);
+    }
+  }
+  for (const attribute of result.byAttribute) {
+    const log = attribute.passed ? consola.info : consola.warn;
+    log(
+      `${attribute.attribute}: regard gap ${attribute.regardGap.toFixed(4)}, ` +
+        `toxicity gap ${attribute.toxicityGap.toFixed(4)}`
+    );
+  }
+  consola.success(
+    `Generative bias suite complete: ${result.passed ? "passed" : "disparities above thresholds"} ` +
+      `(max toxicity ${result.toxicity.max.toFixed(4)})`
+  );
+
+  return result;
+}
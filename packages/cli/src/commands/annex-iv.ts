@@ -0,0 +1,216 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import {
+  type AnnexIVStructuredReportV1,
+  type Locale,
+  SUPPORTED_LOCALES,
+  checkAnnexIVCompleteness,
+  isLocale,
+} from "@euconform/core";
+import { ANNEX_IV_FILE_NAME, buildAnnexIVFromEvidence } from "@euconform/core/evidence";
+import { defineCommand } from "citty";
+import consola from "consola";
+import { loadAnnexIVReport, printCompleteness } from "../annex-iv/completeness";
+import { buildAnnexIVDocument } from "../annex-iv/document";
+import { loadAnnexIVEvidence, resolveEvidenceFiles } from "../annex-iv/evidence";
+import { renderAnnexIVPdf } from "../annex-iv/pdf";
+import { renderAnnexIVHtml, renderAnnexIVMarkdown } from "../annex-iv/render";
+import { exitWithError } from "../utils/exit";
+import { CLI_VERSION } from "../utils/version";
+
+const FORMATS = ["json", "md", "html", "pdf"] as const;
+type Format = (typeof FORMATS)[number];
+
+function parseFormats(value: string): Format[] {
+  if (value === "all") return [...FORMATS];
+  const formats = value.split(",").map((format) => format.trim());
+  const unknown = formats.filter((format) => !FORMATS.includes(format as Format));
+  if (formats.length === 0 || unknown.length > 0) {
+    exitWithError(`Invalid output format: ${value}. Use all or any of: ${FORMATS.join(", ")}.`);
+  }
+  return formats as Format[];
+}
+
+function parseList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((path) => path.trim())
+    .filter(Boolean)
+    .map((path) => resolve(path));
+}
+
+async function writeOutput(path: string, content: string | Uint8Array): Promise<void> {
+  await writeFile(path, content);
+  consola.success(`Written ${path}`);
+}
+
+async function writeDocuments(
+  outDir: string,
+  formats: Format[],
+  report: AnnexIVStructuredReportV1,
+  locale: Locale
+): Promise<void> {
+  await mkdir(outDir, { recursive: true });
+  const doc = buildAnnexIVDocument(report, locale);
+  if (formats.includes("json")) {
+    await writeOutput(join(outDir, ANNEX_IV_FILE_NAME), JSON.stringify(report, null, 2));
+  }
+  if (formats.includes("md")) {
+    await writeOutput(join(outDir, "euconform.annex-iv.md"), renderAnnexIVMarkdown(doc));
+  }
+  if (formats.includes("html")) {
+    await writeOutput(join(outDir, "euconform.annex-iv.html"), renderAnnexIVHtml(doc));
+  }
+  if (formats.includes("pdf")) {
+    await writeOutput(join(outDir, "euconform.annex-iv.pdf"), await renderAnnexIVPdf(doc));
+  }
+}
+
+async function generateReport(
+  args: Record<string, unknown>,
+  locale: Locale
+): Promise<AnnexIVStructuredReportV1> {
+  if (!args.details) {
+    exitWithError(
+      "Missing --details. Pass the provider and system details file, or --check <report>."
+    );
+  }
+  const evidenceDir = resolve(args["evidence-dir"] as string);
+  const files = await resolveEvidenceFiles(evidenceDir, {
+    details: resolve(args.details as string),
+    ...(args.assessment ? { assessment: resolve(args.assessment as string) } : {}),
+    ...(args.report ? { report: resolve(args.report as string) } : {}),
+    ...(args.aibom ? { aibom: resolve(args.aibom as string) } : {}),
+    bias: parseList(args.bias as string | undefined),
+  });
+  const { assessment } = files;
+  if (!assessment) {
+    exitWithError(
+      `No assessment found in ${evidenceDir}. Run \`euconform assess\` first or pass --assessment.`
+    );
+  }
+
+  try {
+    const evidence = await loadAnnexIVEvidence({ ...files, assessment }, locale);
+    return buildAnnexIVFromEvidence({
+      ...evidence,
+      locale,
+      tool: { name: "EuConform CLI", version: CLI_VERSION },
+      generatedAt: new Date().toISOString(),
+    });
+  } catch (error) {
+    exitWithError(
+      `Failed to build Annex IV documentation: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+function parseMinCoverage(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const percent = Number(value);
+  if (!Number.isFinite(percent) || percent < 0 || percent > 100) {
+    exitWithError(`Invalid --min-coverage: ${value}. Use a percentage between 0 and 100.`);
+  }
+  return percent;
+}
+
+export default defineCommand({
+  meta: {
+    name: "annex-iv",
+    description:
+      "Generate Annex IV technical documentation (Markdown, HTML, PDF) from system details and evidence",
+  },
+  args: {
+    details: {
+      type: "string",
+      description: "Provider and system details (.yaml or .json)",
+    },
+    "evidence-dir": {
+      type: "string",
+      description: "Directory with the evidence artifacts to include when present",
+      default: "./.euconform",
+    },
+    assessment: {
+      type: "string",
+      description: "Assessment report (default: euconform.assessment.json in --evidence-dir)",
+    },
+    report: {
+      type: "string",
+      description: "Scan report (default: euconform.report.json in --evidence-dir)",
+    },
+    aibom: {
+      type: "string",
+      description: "AI BOM (default: euconform.aibom.json in --evidence-dir)",
+    },
+    bias: {
+      type: "string",
+      description: "Comma-separated bias reports (default: euconform.bias.json in --evidence-dir)",
+    },
+    output: {
+      type: "string",
+      description: "Output formats: all, or a comma-separated list of json, md, html, pdf",
+      default: "all",
+    },
+    lang: {
+      type: "string",
+      description: 'Language of the generated documentation: "en" or "de"',
+      default: "en",
+    },
+    "out-dir": {
+      type: "string",
+      description: "Output directory",
+      default: "./.euconform",
+    },
+    check: {
+      type: "string",
+      description: "Only check the completeness of an existing euconform.annex-iv.json",
+    },
+    "min-coverage": {
+      type: "string",
+      description: "Exit with code 1 when the Annex IV coverage is below this percentage",
+    },
+    json: {
+      type: "boolean",
+      description: "Print the completeness result as JSON",
+      default: false,
+    },
+  },
+  async run({ args }) {
+    const minCoverage = parseMinCoverage(args["min-coverage"] as string | undefined);
+    if (!isLocale(args.lang)) {
+      exitWithError(`Invalid language: ${args.lang}. Use one of: ${SUPPORTED_LOCALES.join(", ")}.`);
+    }
+    const locale = args.lang;
+
+    let report: AnnexIVStructuredReportV1;
+    if (args.check) {
+      try {
+        report = await loadAnnexIVReport(resolve(args.check as string));
+      } catch (error) {
+        exitWithError(
+          `Failed to read Annex IV report: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    } else {
+      const formats = parseFormats(args.output as string);
+      report = await generateReport(args, locale);
+      const included = report.section7_technicalDocumentation.artifacts ?? [];
+      consola.info(`Evidence: ${included.map((artifact) => artifact.name).join(", ")}`);
+      await writeDocuments(resolve(args["out-dir"] as string), formats, report, locale);
+    }
+
+    const completeness = checkAnnexIVCompleteness(report);
+    if (args.json) {
+      process.stdout.write(`${JSON.stringify(completeness, null, 2)}\n`);
+    } else {
+      printCompleteness(completeness);
+    }
+
+    if (minCoverage !== undefined && completeness.coverage < minCoverage) {
+      consola.error(
+        `Annex IV coverage ${completeness.coverage}% is below the required ${minCoverage}%.`
+      );
+      process.exit(1);
+    }
+  },
+});
@@ -0,0 +1,179 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import type { QuizAnswer } from "@euconform/core";
+import {
+  ASSESSMENT_FILE_NAME,
+  ASSESSMENT_QUESTIONNAIRES,
+  type AssessmentQuestionnaire,
+  type AssessmentReport,
+  buildAssessmentReport,
+  getAssessmentQuestions,
+  validateAssessmentAnswers,
+} from "@euconform/core/evidence";
+import { defineCommand } from "citty";
+import consola from "consola";
+import {
+  type LoadedAnswers,
+  loadAnswersFile,
+  promptAnswers,
+  renderAnswersYaml,
+} from "../assess/answers";
+import { renderAssessmentMarkdown } from "../assess/report";
+import { writeJsonArtifact } from "../output/writer";
+import { exitWithError } from "../utils/exit";
+
+const VALID_OUTPUTS = new Set(["json", "md", "all"]);
+
+function parseQuestionnaire(value: unknown): AssessmentQuestionnaire | undefined {
+  if (value === undefined) return undefined;
+  if (!ASSESSMENT_QUESTIONNAIRES.includes(value as AssessmentQuestionnaire)) {
+    exitWithError(
+      `Invalid questionnaire: ${value}. Use one of: ${ASSESSMENT_QUESTIONNAIRES.join(", ")}.`
+    );
+  }
+  return value as AssessmentQuestionnaire;
+}
+
+async function readAnswers(path: string): Promise<LoadedAnswers> {
+  try {
+    return await loadAnswersFile(path);
+  } catch (error) {
+    exitWithError(
+      `Failed to read answers from ${path}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+async function collectAnswers(
+  args: { questionnaire?: AssessmentQuestionnaire; answersPath?: string },
+  system?: string
+): Promise<{
+  questionnaire: AssessmentQuestionnaire;
+  answers: QuizAnswer[];
+  system?: string;
+  source?: AssessmentReport["answersSource"];
+}> {
+  if (args.answersPath) {
+    const loaded = await readAnswers(args.answersPath);
+    if (args.questionnaire && loaded.questionnaire && args.questionnaire !== loaded.questionnaire) {
+      exitWithError(
+        `--questionnaire ${args.questionnaire} does not match the ${loaded.questionnaire} answers in ${args.answersPath}.`
+      );
+    }
+    return {
+      questionnaire: args.questionnaire ?? loaded.questionnaire ?? "annex-iii",
+      answers: loaded.answers,
+      system: system ?? loaded.system,
+      source: loaded.source,
+    };
+  }
+
+  if (!process.stdin.isTTY) {
+    exitWithError(
+      "No --answers file given and the terminal is not interactive. Pass --answers <answers.yaml>."
+    );
+  }
+  const questionnaire = args.questionnaire ?? "annex-iii";
+  return {
+    questionnaire,
+    answers: await promptAnswers(getAssessmentQuestions(questionnaire)),
+    system,
+  };
+}
+
+function logResult(report: AssessmentReport): void {
+  const { result, gapAnalysis } = report;
+  for (const flag of result.flags) {
+    const log = flag.type === "info" ? consola.info : consola.warn;
+    log(`${flag.message}${flag.articleReference ? ` (${flag.articleReference})` : ""}`);
+  }
+  consola.success(
+    `Assessment complete: ${result.level}${result.category ? ` (${result.category})` : ""}, ` +
+      `${gapAnalysis.totalGaps} gaps (${gapAnalysis.criticalCount} critical)`
+  );
+}
+
+export default defineCommand({
+  meta: {
+    name: "assess",
+    description: "Classify an AI system from questionnaire answers (Art. 5, Annex III, GPAI)",
+  },
+  args: {
+    questionnaire: {
+      type: "string",
+      description:
+        "Questionnaire: annex-iii, gpai, or risk (default: from the answers file, else annex-iii)",
+    },
+    answers: {
+      type: "string",
+      description:
+        "Answers file (.yaml or .json); without it the questions are asked interactively",
+    },
+    system: {
+      type: "string",
+      description: "Name of the assessed system, recorded in the report",
+    },
+    "save-answers": {
+      type: "string",
+      description: "Write the answers as YAML to this file for re-evaluation with --answers",
+    },
+    output: {
+      type: "string",
+      description: "Output format: json, md, or all",
+      default: "json",
+    },
+    "out-dir": {
+      type: "string",
+      description: "Output directory",
+      default: "./.euconform",
+    },
+  },
+  async run({ args }) {
+    const output = args.output as string;
+    const outDir = resolve(args["out-dir"] as string);
+
+    if (!VALID_OUTPUTS.has(output)) {
+      exitWithError(`Invalid output format: ${output}. Use one of: json, md, all.`);
+    }
+    const answersPath = args.answers ? resolve(args.answers as string) : undefined;
+    const { questionnaire, answers, system, source } = await collectAnswers(
+      { questionnaire: parseQuestionnaire(args.questionnaire), answersPath },
+      args.system as string | undefined
+    );
+
+    const problems = validateAssessmentAnswers(questionnaire, answers);
+    if (problems.length > 0) {
+      for (const problem of problems) consola.error(problem);
+      exitWithError(
+        `${problems.length} problem(s) with the answers to the ${questionnaire} questionnaire.`
+      );
+    }
+
+    if (args["save-answers"]) {
+      const savePath = resolve(args["save-answers"] as string);
+      await mkdir(dirname(savePath), { recursive: true });
+      await writeFile(savePath, renderAnswersYaml(questionnaire, answers, system), "utf-8");
+      consola.success(`Written ${savePath}`);
+    }
+
+    const report = buildAssessmentReport({
+      questionnaire,
+      answers,
+      ...(system ? { system } : {}),
+      ...(source ? { answersSource: source } : {}),
+      generatedAt: new Date().toISOString(),
+    });
+    logResult(report);
+
+    if (output === "json" || output === "all") {
+      await writeJsonArtifact(outDir, ASSESSMENT_FILE_NAME, report, "assessment report");
+    }
+
+    if (output === "md" || output === "all") {
+      await mkdir(outDir, { recursive: true });
+      const mdPath = resolve(outDir, "euconform.assessment.md");
+      await writeFile(mdPath, renderAssessmentMarkdown(report));
+      consola.success(`Written: ${mdPath}`);
+    }
+  },
+});
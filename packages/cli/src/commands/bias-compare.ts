@@ -0,0 +1,158 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname, join, resolve } from "node:path";
+import { compareBiasReports, renderBiasComparisonMarkdown } from "@euconform/core/evidence";
+import { defineCommand } from "citty";
+import consola from "consola";
+import {
+  BIAS_HISTORY_DIR,
+  type BiasHistoryEntry,
+  findPreviousBaseline,
+  loadBiasHistory,
+  resolveBiasReference,
+} from "../bias/history";
+import { exitWithError } from "../utils/exit";
+
+const VALID_FORMATS = new Set(["md", "json"]);
+
+function parseAlpha(value: unknown): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0 || parsed >= 1) {
+    exitWithError(`Invalid --alpha: ${value}. Use a significance level between 0 and 1.`);
+  }
+  return parsed;
+}
+
+async function resolveSide(
+  label: string,
+  reference: string,
+  history: BiasHistoryEntry[],
+  comparableTo?: BiasHistoryEntry
+): Promise<BiasHistoryEntry> {
+  try {
+    return await resolveBiasReference(reference, history, comparableTo?.report);
+  } catch (error) {
+    exitWithError(
+      `Failed to load ${label} (${reference}): ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+async function resolveRuns(
+  args: { baseline?: string; candidate?: string },
+  history: BiasHistoryEntry[],
+  historyDir: string
+): Promise<[BiasHistoryEntry, BiasHistoryEntry]> {
+  const candidate = args.candidate
+    ? await resolveSide("candidate", args.candidate, history)
+    : history.at(-1);
+  if (!candidate) {
+    exitWithError(
+      `No bias runs recorded in ${historyDir}. Run \`euconform bias <model>\` first or pass report paths.`
+    );
+  }
+
+  const baseline = args.baseline
+    ? await resolveSide("baseline", args.baseline, history, candidate)
+    : findPreviousBaseline(history, candidate.report);
+  if (!baseline) {
+    exitWithError(
+      `No earlier run of another model on ${candidate.report.dataset} (${candidate.report.result.method}) to compare ${candidate.report.model} against. Pass --baseline.`
+    );
+  }
+  return [baseline, candidate];
+}
+
+export default defineCommand({
+  meta: {
+    name: "compare",
+    description: "Compare two bias runs and fail when the candidate is significantly more biased",
+  },
+  args: {
+    baseline: {
+      type: "string",
+      description:
+        "Baseline run: bias report JSON, or model name / digest prefix from the history (default: previous model)",
+    },
+    candidate: {
+      type: "string",
+      description:
+        "Candidate run: bias report JSON, or model name / digest prefix from the history (default: latest run)",
+    },
+    alpha: {
+      type: "string",
+      description: "Significance level of the paired McNemar test",
+      default: "0.05",
+    },
+    format: {
+      type: "string",
+      default: "md",
+      description: 'Output format: "md" or "json"',
+    },
+    output: {
+      type: "string",
+      alias: "o",
+      description: "Write the comparison to this file instead of stdout",
+    },
+    "fail-on-regression": {
+      type: "boolean",
+      default: true,
+      description:
+        "Exit non-zero when the candidate is significantly more biased (disable with --no-fail-on-regression)",
+    },
+    "out-dir": {
+      type: "string",
+      description: `Output directory holding the bias history (${BIAS_HISTORY_DIR})`,
+      default: "./.euconform",
+    },
+  },
+  async run({ args }) {
+    const format = (args.format as string) ?? "md";
+    if (!VALID_FORMATS.has(format)) {
+      exitWithError(`Invalid format: ${format}. Use one of: md, json.`);
+    }
+    const alpha = parseAlpha(args.alpha);
+
+    const outDir = resolve(args["out-dir"] as string);
+    const history = await loadBiasHistory(outDir);
+    const [baseline, candidate] = await resolveRuns(
+      {
+        baseline: args.baseline as string | undefined,
+        candidate: args.candidate as string | undefined,
+      },
+      history,
+      join(outDir, BIAS_HISTORY_DIR)
+    );
+    if (
+      baseline.report.modelDigest &&
+      baseline.report.modelDigest === candidate.report.modelDigest
+    ) {
+      consola.warn("Baseline and candidate have the same model digest; differences are run noise.");
+    }
+
+    let comparison: ReturnType<typeof compareBiasReports>;
+    try {
+      comparison = compareBiasReports(baseline.report, candidate.report, { alpha });
+    } catch (error) {
+      exitWithError(error instanceof Error ? error.message : String(error));
+    }
+
+    const rendered =
+      format === "json"
+        ? `${JSON.stringify(comparison, null, 2)}\n`
+        : renderBiasComparisonMarkdown(comparison);
+
+    if (args.output) {
+      const outputPath = resolve(args.output as string);
+      await mkdir(dirname(outputPath), { recursive: true });
+      await writeFile(outputPath, rendered, "utf-8");
+      consola.success(`Written ${outputPath}`);
+    } else {
+      process.stdout.write(rendered);
+    }
+
+    if (args["fail-on-regression"] && comparison.regression) {
+      consola.error("Candidate model is significantly more biased than the baseline.");
+      process.exit(1);
+    }
+  },
+});
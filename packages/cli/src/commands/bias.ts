@@ -1,34 +1,254 @@
 import { mkdir, stat, writeFile } from "node:fs/promises";
 import { resolve } from "node:path";
-import { defineCommand } from "citty";
+import { BIAS_FILE_NAME, GENERATIVE_BIAS_FILE_NAME } from "@euconform/core/evidence";
+import { defineCommand, renderUsage, runCommand } from "citty";
 import consola from "consola";
-import { runBiasTest } from "../bias/run-bias-test";
-import { formatBiasSeverity } from "../bias/severity";
+import {
+  GENERATIVE_BIAS_MD_FILE_NAME,
+  buildGenerativeBiasOutput,
+  renderGenerativeBiasMarkdown,
+} from "../bias/generative-report";
+import { recordBiasHistory } from "../bias/history";
+import { logBiasReplayDrift, replayBiasRun, writeBiasReplayOutputs } from "../bias/replay";
+import { buildBiasOutput, renderBiasMarkdown } from "../bias/report";
+import {
+  type BiasTestEngine,
+  type BiasTestOptions,
+  DEFAULT_ENGINE_URLS,
+  runBiasTest,
+} from "../bias/run-bias-test";
+import { type GenerativeTestOptions, runGenerativeTest } from "../bias/run-generative-test";
+import { writeJsonArtifact } from "../output/writer";
+import { parseIntegerArg, resolveApiKey } from "../utils/args";
 import { exitWithError } from "../utils/exit";
+import biasCompareCommand from "./bias-compare";
+
+/**
+ * `bias compare` is dispatched by hand: citty 0.1 takes the first non-option
+ * argument as the subcommand name, so registered subcommands would swallow the
+ * model positional. Like a citty subcommand, `compare` is only recognised as
+ * the first argument; a model named "compare" is passed after `--`.
+ */
+export function isBiasCompare(rawArgs: string[]): boolean {
+  return rawArgs[0] === "compare";
+}
+
+/**
+ * Usage for `bias ... --help`. citty resolves `bias compare --help` to `bias`,
+ * so the compare options are rendered here.
+ */
+export function renderBiasUsage(rawArgs: string[]): Promise<string> {
+  return isBiasCompare(rawArgs)
+    ? renderUsage(biasCompareCommand, { meta: { name: "euconform bias" } })
+    : renderUsage(biasCommand, { meta: { name: "euconform" } });
+}
+
+/** Runs `bias compare` when selected; returns whether it ran */
+async function runCompare(model: string | undefined, rawArgs: string[]): Promise<boolean> {
+  if (isBiasCompare(rawArgs)) {
+    await runCommand(biasCompareCommand, { rawArgs: rawArgs.slice(1) });
+    return true;
+  }
+  if (model === "compare" && !rawArgs.includes("--")) {
+    exitWithError(
+      "`compare` must be the first argument (euconform bias compare [options]). For a model named compare, use `euconform bias [options] -- compare`."
+    );
+  }
+  return false;
+}
 
 const VALID_LANGS = new Set(["en", "de"]);
 const VALID_OUTPUTS = new Set(["json", "md", "all"]);
+const VALID_ENGINES = new Set(["ollama", "openai-compatible"]);
+const VALID_SUITES = new Set(["crows-pairs", "generative"]);
+
+function validateChoices(choices: {
+  suite: string;
+  lang: string;
+  output: string;
+  engine: string;
+}): void {
+  const { suite, lang, output, engine } = choices;
+  if (!VALID_SUITES.has(suite)) {
+    exitWithError(`Invalid suite: ${suite}. Use one of: crows-pairs, generative.`);
+  }
+  if (!VALID_LANGS.has(lang)) {
+    exitWithError(`Invalid language: ${lang}. Use one of: en, de.`);
+  }
+  if (!VALID_OUTPUTS.has(output)) {
+    exitWithError(`Invalid output format: ${output}. Use one of: json, md, all.`);
+  }
+  if (!VALID_ENGINES.has(engine)) {
+    exitWithError(`Invalid engine: ${engine}. Use one of: ollama, openai-compatible.`);
+  }
+}
+
+/**
+ * Default suite: CrowS-Pairs log-probabilities, recorded in the bias history
+ * for `bias compare`
+ */
+async function runCrowsPairsSuite(
+  options: BiasTestOptions & { engine: BiasTestEngine },
+  target: { output: string; outDir: string; history: boolean }
+): Promise<void> {
+  const { output, outDir } = target;
+  const { result, dataset, modelDigest, reproducibility } = await runBiasTest(options).catch(
+    (error: unknown) => exitWithError(error instanceof Error ? error.message : String(error))
+  );
+  const input = {
+    model: options.model,
+    modelDigest,
+    engine: options.engine,
+    dataset,
+    result,
+    reproducibility,
+  };
+  const biasOutput = buildBiasOutput(input);
+
+  if (target.history) {
+    await recordBiasHistory(outDir, biasOutput);
+  }
+
+  if (output === "json" || output === "all") {
+    await writeJsonArtifact(outDir, BIAS_FILE_NAME, biasOutput, "bias report");
+  }
+
+  if (output === "md" || output === "all") {
+    const mdPath = resolve(outDir, "euconform.bias.md");
+    await writeFile(mdPath, renderBiasMarkdown({ ...input, generatedAt: biasOutput.generatedAt }));
+    consola.success(`Written: ${mdPath}`);
+  }
+}
+
+/**
+ * `--replay <report>`: repeat a recorded run and report drift. Exits non-zero
+ * when the original numbers are not reproduced.
+ */
+async function runReplay(
+  options: Parameters<typeof replayBiasRun>[0],
+  outDir: string
+): Promise<void> {
+  const run = await replayBiasRun(options).catch((error: unknown) =>
+    exitWithError(error instanceof Error ? error.message : String(error))
+  );
+  logBiasReplayDrift(run.drift);
+  await writeBiasReplayOutputs(outDir, run);
+  if (!run.drift.reproduced) process.exit(1);
+}
+
+/**
+ * `--suite generative`: prompt the model per sensitive-attribute group and score
+ * the completions with local regard/toxicity classifiers
+ */
+async function runGenerativeSuite(
+  options: GenerativeTestOptions,
+  output: string,
+  outDir: string
+): Promise<void> {
+  const result = await runGenerativeTest(options).catch((error: unknown) =>
+    exitWithError(error instanceof Error ? error.message : String(error))
+  );
+  const generativeOutput = buildGenerativeBiasOutput({
+    model: options.model,
+    engine: options.engine ?? "ollama",
+    result,
+  });
+
+  if (output === "json" || output === "all") {
+    await writeJsonArtifact(
+      outDir,
+      GENERATIVE_BIAS_FILE_NAME,
+      generativeOutput,
+      "generative bias report"
+    );
+  }
+
+  if (output === "md" || output === "all") {
+    const mdPath = resolve(outDir, GENERATIVE_BIAS_MD_FILE_NAME);
+    await writeFile(mdPath, renderGenerativeBiasMarkdown(generativeOutput));
+    consola.success(`Written: ${mdPath}`);
+  }
+}
 
-export default defineCommand({
+const biasCommand = defineCommand({
   meta: {
     name: "bias",
-    description: "Run CrowS-Pairs bias test on an Ollama model",
+    description:
+      "Run CrowS-Pairs or generative bias tests on an Ollama or OpenAI-compatible model (or `bias compare` two runs)",
   },
   args: {
     model: {
       type: "positional",
-      description: "Ollama model name (e.g. llama3.2, mistral:7b)",
-      required: true,
+      description:
+        "Model name (e.g. llama3.2, mistral:7b, meta-llama/Llama-3.2-1B); pass a model named compare after --",
+      required: false,
+    },
+    suite: {
+      type: "string",
+      description:
+        "Test suite: crows-pairs (log-probabilities) or generative (regard/toxicity of completions)",
+      default: "crows-pairs",
     },
     lang: {
       type: "string",
-      description: "Dataset language: en or de",
+      description: "Dataset or prompt language: en or de",
       default: "de",
     },
+    dataset: {
+      type: "string",
+      description: "Custom stereotype-pair dataset (.csv, .json or .jsonl) instead of CrowS-Pairs",
+    },
+    "regard-model": {
+      type: "string",
+      description: "Hugging Face id of the regard classifier (generative suite)",
+    },
+    "toxicity-model": {
+      type: "string",
+      description: "Hugging Face id of the toxicity classifier (generative suite)",
+    },
+    engine: {
+      type: "string",
+      description: "Inference engine: ollama or openai-compatible",
+      default: "ollama",
+    },
     url: {
       type: "string",
-      description: "Ollama base URL",
-      default: "http://localhost:11434",
+      description: `Server base URL (default: ${DEFAULT_ENGINE_URLS.ollama} for ollama, ${DEFAULT_ENGINE_URLS["openai-compatible"]} for openai-compatible)`,
+    },
+    "api-key-env": {
+      type: "string",
+      description: "Environment variable holding the API key for openai-compatible servers",
+    },
+    seed: {
+      type: "string",
+      description: "Seed for bootstrap confidence intervals",
+      default: "42",
+    },
+    concurrency: {
+      type: "string",
+      description: "Sentence pairs (or prompts) evaluated in parallel",
+      default: "1",
+    },
+    retries: {
+      type: "string",
+      description: "Retries per sentence pair after a failed request (exponential backoff)",
+      default: "3",
+    },
+    replay: {
+      type: "string",
+      description:
+        "Repeat the run recorded in a bias report with identical parameters and report drift",
+    },
+    resume: {
+      type: "boolean",
+      description: "Continue an interrupted run from its checkpoint in the output directory",
+      default: false,
+    },
+    history: {
+      type: "boolean",
+      description:
+        "Record CrowS-Pairs runs in <out-dir>/history/bias for `bias compare` (disable with --no-history)",
+      default: true,
     },
     output: {
       type: "string",
@@ -41,25 +261,22 @@ export default defineCommand({
       default: "./.euconform",
     },
   },
-  async run({ args }) {
+  async run({ args, rawArgs }) {
+    if (await runCompare(args.model as string | undefined, rawArgs)) return;
+
     const lang = args.lang as string;
     const output = args.output as string;
     const outDir = resolve(args["out-dir"] as string);
-    const model = args.model as string;
-    const url = args.url as string;
-
-    if (!VALID_LANGS.has(lang)) {
-      exitWithError(`Invalid language: ${lang}. Use one of: en, de.`);
-    }
-    if (!VALID_OUTPUTS.has(output)) {
-      exitWithError(`Invalid output format: ${output}. Use one of: json, md, all.`);
-    }
+    const model = args.model as string | undefined;
+    const engine = args.engine as string;
+    const url = args.url as string | undefined;
+    const suite = args.suite as string;
 
-    const result = await runBiasTest({
-      model,
-      lang: lang as "en" | "de",
-      url,
-    });
+    validateChoices({ suite, lang, output, engine });
+    const apiKey = resolveApiKey(args["api-key-env"] as string | undefined);
+    const seed = parseIntegerArg("seed", args.seed, 0);
+    const concurrency = parseIntegerArg("concurrency", args.concurrency, 1);
+    const retries = parseIntegerArg("retries", args.retries, 0);
 
     try {
       await stat(outDir);
@@ -67,62 +284,69 @@ export default defineCommand({
       await mkdir(outDir, { recursive: true });
     }
 
-    const biasOutput = {
-      schemaVersion: "euconform.bias.v1",
-      generatedAt: new Date().toISOString(),
-      model,
-      dataset: `crows_pairs_${lang}`,
-      result: {
-        score: result.score,
-        method: result.method,
-        pairsAnalyzed: result.pairsAnalyzed,
-        stereotypicalPreference: result.stereotypicalPreference,
-      },
-    };
-
-    const severity = formatBiasSeverity(result.score);
-
-    if (output === "json" || output === "all") {
-      const jsonPath = resolve(outDir, "euconform.bias.json");
-      await writeFile(jsonPath, JSON.stringify(biasOutput, null, 2));
-      consola.success(`Written: ${jsonPath}`);
+    if (args.replay) {
+      if (model || suite !== "crows-pairs" || args.resume) {
+        exitWithError(
+          "--replay takes model, suite and parameters from the report; pass only --replay."
+        );
+      }
+      await runReplay(
+        {
+          reportPath: resolve(args.replay as string),
+          datasetPath: args.dataset ? resolve(args.dataset as string) : undefined,
+          url,
+          apiKey,
+          concurrency,
+          retries,
+        },
+        outDir
+      );
+      return;
+    }
+    if (!model) {
+      exitWithError(
+        "Missing model. Pass a model name, `compare`, or --replay <euconform.bias.json>."
+      );
     }
 
-    if (output === "md" || output === "all") {
-      const mdContent = [
-        "# EuConform Bias Test Report",
-        "",
-        `**Model:** ${model}`,
-        `**Dataset:** CrowS-Pairs (${lang.toUpperCase()})`,
-        `**Generated:** ${biasOutput.generatedAt}`,
-        "",
-        "## Results",
-        "",
-        "| Metric | Value |",
-        "|--------|-------|",
-        `| Bias Score | ${result.score.toFixed(4)} |`,
-        `| Severity | ${severity} |`,
-        `| Method | ${result.method} |`,
-        `| Pairs Analyzed | ${result.pairsAnalyzed} |`,
-        `| Stereotypical Preference | ${result.stereotypicalPreference.toFixed(1)}% |`,
-        "",
-        "## Thresholds",
-        "",
-        "| Range | Classification |",
-        "|-------|---------------|",
-        "| < 0.1 | Minimal Bias |",
-        "| 0.1 - 0.3 | Light Bias |",
-        "| > 0.3 | Strong Bias |",
-        "",
-        "---",
-        "",
-        "*Generated by [EuConform CLI](https://github.com/Hiepler/EuConform) using CrowS-Pairs methodology (Nangia et al., 2020)*",
-        "",
-      ].join("\n");
-
-      const mdPath = resolve(outDir, "euconform.bias.md");
-      await writeFile(mdPath, mdContent);
-      consola.success(`Written: ${mdPath}`);
+    if (suite === "generative") {
+      if (args.dataset || args.resume) {
+        exitWithError("--dataset and --resume only apply to the crows-pairs suite.");
+      }
+      await runGenerativeSuite(
+        {
+          model,
+          lang: lang as "en" | "de",
+          url,
+          engine: engine as BiasTestEngine,
+          apiKey,
+          concurrency,
+          regardModel: args["regard-model"] as string | undefined,
+          toxicityModel: args["toxicity-model"] as string | undefined,
+        },
+        output,
+        outDir
+      );
+      return;
     }
+
+    await runCrowsPairsSuite(
+      {
+        model,
+        lang: lang as "en" | "de",
+        datasetPath: args.dataset ? resolve(args.dataset as string) : undefined,
+        url,
+        engine: engine as BiasTestEngine,
+        apiKey,
+        seed,
+        concurrency,
+        retries,
+        checkpointDir: outDir,
+        resume: Boolean(args.resume),
+      },
+      { output, outDir, history: Boolean(args.history) }
+    );
   },
 });
+
+export default biasCommand;
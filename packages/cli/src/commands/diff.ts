@@ -0,0 +1,81 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname, resolve } from "node:path";
+import type { ScanDiffInput } from "@euconform/core/evidence";
+import { diffScanOutputs, renderScanDiffMarkdown } from "@euconform/core/evidence";
+import { defineCommand } from "citty";
+import consola from "consola";
+import { loadScanSnapshot } from "../diff/snapshot";
+import { exitWithError } from "../utils/exit";
+
+const VALID_FORMATS = new Set(["md", "json"]);
+
+async function loadSide(label: string, inputPath: string): Promise<ScanDiffInput> {
+  try {
+    return await loadScanSnapshot(inputPath);
+  } catch (error) {
+    exitWithError(
+      `Failed to load ${label} (${inputPath}): ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+export default defineCommand({
+  meta: {
+    name: "diff",
+    description: "Compare two EuConform scan reports, bundle directories, or bundle ZIPs",
+  },
+  args: {
+    base: {
+      type: "positional",
+      required: true,
+      description: "Baseline report JSON, bundle manifest, scan output directory, or ZIP",
+    },
+    head: {
+      type: "positional",
+      required: true,
+      description: "Report to compare against the baseline (same input types)",
+    },
+    format: {
+      type: "string",
+      default: "md",
+      description: 'Output format: "md" or "json"',
+    },
+    output: {
+      type: "string",
+      alias: "o",
+      description: "Write the diff to this file instead of stdout",
+    },
+    "fail-on-regression": {
+      type: "boolean",
+      default: false,
+      description: "Exit non-zero when the head introduces or worsens gaps or compliance signals",
+    },
+  },
+  async run({ args }) {
+    const format = (args.format as string) ?? "md";
+    if (!VALID_FORMATS.has(format)) {
+      exitWithError(`Invalid format: ${format}. Use one of: md, json.`);
+    }
+
+    const base = await loadSide("base", args.base as string);
+    const head = await loadSide("head", args.head as string);
+    const diff = diffScanOutputs(base, head);
+
+    const rendered =
+      format === "json" ? `${JSON.stringify(diff, null, 2)}\n` : renderScanDiffMarkdown(diff);
+
+    if (args.output) {
+      const outputPath = resolve(args.output as string);
+      await mkdir(dirname(outputPath), { recursive: true });
+      await writeFile(outputPath, rendered, "utf-8");
+      consola.success(`Written ${outputPath}`);
+    } else {
+      process.stdout.write(rendered);
+    }
+
+    if (args["fail-on-regression"] && diff.regression) {
+      consola.error("Scan diff contains regressions.");
+      process.exit(1);
+    }
+  },
+});
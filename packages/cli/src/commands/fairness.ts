@@ -0,0 +1,177 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import {
+  DEFAULT_MIN_GROUP_SIZE,
+  type FairnessAttributeResult,
+  runTabularFairnessAudit,
+} from "@euconform/core";
+import { type PredictionColumns, loadPredictionRecords } from "@euconform/core/datasets";
+import { FAIRNESS_FILE_NAME, buildFairnessReport } from "@euconform/core/evidence";
+import { defineCommand } from "citty";
+import consola from "consola";
+import { renderFairnessMarkdown } from "../fairness/report";
+import { writeJsonArtifact } from "../output/writer";
+import { parseIntegerArg } from "../utils/args";
+import { exitWithError } from "../utils/exit";
+
+const VALID_OUTPUTS = new Set(["json", "md", "all"]);
+
+function parseProtected(value: string): string[] {
+  const attributes = [
+    ...new Set(
+      value
+        .split(",")
+        .map((attribute) => attribute.trim())
+        .filter(Boolean)
+    ),
+  ];
+  if (attributes.length === 0) {
+    exitWithError("Invalid --protected: provide a comma-separated list such as gender,age_band.");
+  }
+  return attributes;
+}
+
+function parseScoreThreshold(value: unknown): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0 || parsed > 1) {
+    exitWithError(`Invalid --score-threshold: ${value}. Use a score between 0 and 1.`);
+  }
+  return parsed;
+}
+
+function logAttribute(entry: FairnessAttributeResult): void {
+  if (entry.skippedReason) {
+    consola.info(`${entry.attribute}: skipped (${entry.skippedReason.toLowerCase()})`);
+    return;
+  }
+  const failed = entry.metrics.filter((metric) => !metric.passed).map((metric) => metric.name);
+  if (failed.length === 0) {
+    consola.info(`${entry.attribute}: passed (${entry.metrics.length} metrics)`);
+  } else {
+    consola.warn(`${entry.attribute}: failed ${failed.join(", ")}`);
+  }
+}
+
+export default defineCommand({
+  meta: {
+    name: "fairness",
+    description: "Audit classifier predictions for group disparities (Art. 10)",
+  },
+  args: {
+    predictions: {
+      type: "string",
+      description: "Predictions file (.csv, .json or .jsonl) with one row per decision",
+      required: true,
+    },
+    prediction: {
+      type: "string",
+      description: "Column holding the model decision (0/1, true/false or a score)",
+      required: true,
+    },
+    label: {
+      type: "string",
+      description: "Column holding the ground truth (enables equalized odds and predictive parity)",
+    },
+    protected: {
+      type: "string",
+      description: "Comma-separated protected attribute columns (e.g. gender,age_band)",
+      required: true,
+    },
+    positive: {
+      type: "string",
+      description: "Value of the favourable class for text outcomes (e.g. approved)",
+    },
+    "score-threshold": {
+      type: "string",
+      description: "Scores at or above this value count as favourable",
+      default: "0.5",
+    },
+    "min-group-size": {
+      type: "string",
+      description: "Groups with fewer records are listed but not compared",
+      default: String(DEFAULT_MIN_GROUP_SIZE),
+    },
+    intersectional: {
+      type: "boolean",
+      default: true,
+      description: "Audit combinations of protected attributes (disable with --no-intersectional)",
+    },
+    model: {
+      type: "string",
+      description: "Name of the audited system, recorded in the report",
+    },
+    output: {
+      type: "string",
+      description: "Output format: json, md, or all",
+      default: "json",
+    },
+    "out-dir": {
+      type: "string",
+      description: "Output directory",
+      default: "./.euconform",
+    },
+  },
+  async run({ args }) {
+    const output = args.output as string;
+    const outDir = resolve(args["out-dir"] as string);
+
+    if (!VALID_OUTPUTS.has(output)) {
+      exitWithError(`Invalid output format: ${output}. Use one of: json, md, all.`);
+    }
+    const minGroupSize = parseIntegerArg("min-group-size", args["min-group-size"], 1);
+    const columns: PredictionColumns = {
+      prediction: args.prediction as string,
+      protected: parseProtected(args.protected as string),
+      scoreThreshold: parseScoreThreshold(args["score-threshold"]),
+      ...(args.label ? { label: args.label as string } : {}),
+      ...(args.positive ? { positive: args.positive as string } : {}),
+    };
+
+    const predictionsPath = resolve(args.predictions as string);
+    consola.start(`Loading predictions ${predictionsPath}...`);
+    let loaded: ReturnType<typeof loadPredictionRecords>;
+    try {
+      loaded = loadPredictionRecords(predictionsPath, columns);
+    } catch (error) {
+      exitWithError(error instanceof Error ? error.message : String(error));
+    }
+    consola.success(
+      `Loaded ${loaded.records.length} records (sha256 ${loaded.sha256.slice(0, 12)})`
+    );
+
+    const result = runTabularFairnessAudit({
+      records: loaded.records,
+      protectedAttributes: columns.protected,
+      intersectional: args.intersectional as boolean,
+      minGroupSize,
+    });
+    for (const entry of [...result.byAttribute, ...result.intersectional]) {
+      logAttribute(entry);
+    }
+    const log = result.overallPassed ? consola.success : consola.warn;
+    log(`Fairness audit complete: ${result.overallPassed ? "passed" : "failed"}`);
+
+    const report = buildFairnessReport({
+      ...(args.model ? { model: args.model as string } : {}),
+      predictions: {
+        name: loaded.name,
+        sha256: loaded.sha256,
+        records: loaded.records.length,
+        columns,
+      },
+      result,
+      generatedAt: new Date().toISOString(),
+    });
+
+    if (output === "json" || output === "all") {
+      await writeJsonArtifact(outDir, FAIRNESS_FILE_NAME, report, "fairness report");
+    }
+
+    if (output === "md" || output === "all") {
+      await mkdir(outDir, { recursive: true });
+      const mdPath = resolve(outDir, "euconform.fairness.md");
+      await writeFile(mdPath, renderFairnessMarkdown(report));
+      consola.success(`Written: ${mdPath}`);
+    }
+  },
+});
@@ -1,6 +1,6 @@
 import { mkdir, readFile, writeFile } from "node:fs/promises";
 import { basename, join, resolve } from "node:path";
-import { importCycloneDx } from "@euconform/core/sbom";
+import { type SbomImportResult, importSbom } from "@euconform/core/sbom";
 import { defineCommand } from "citty";
 import consola from "consola";
 
@@ -8,13 +8,13 @@ export default defineCommand({
   meta: {
     name: "import",
     description:
-      "Import a CycloneDX SBOM and extract AI-relevant components into an EuConform AI BOM",
+      "Import a CycloneDX or SPDX 3.0 SBOM and extract AI-relevant components into an EuConform AI BOM",
   },
   args: {
     path: {
       type: "positional",
       required: true,
-      description: "Path to a CycloneDX JSON SBOM file",
+      description: "Path to a CycloneDX JSON or SPDX 3.0 JSON-LD SBOM file",
     },
     scope: {
       type: "string",
@@ -48,9 +48,9 @@ export default defineCommand({
       process.exit(2);
     }
 
-    let result: ReturnType<typeof importCycloneDx>;
+    let result: SbomImportResult;
     try {
-      result = importCycloneDx(data, { scope, sourcePath: inputPath });
+      result = importSbom(data, { scope, sourcePath: inputPath });
     } catch (error) {
       consola.error(error instanceof Error ? error.message : String(error));
       process.exit(1);
@@ -75,11 +75,11 @@ export default defineCommand({
     const fileName = basename(inputPath);
     const src = result.summary.source;
     const sourceLabel = src.importTool
-      ? `${fileName} (CycloneDX ${src.specVersion}, ${src.importTool})`
-      : `${fileName} (CycloneDX ${src.specVersion})`;
+      ? `${fileName} (${src.bomFormat} ${src.specVersion}, ${src.importTool})`
+      : `${fileName} (${src.bomFormat} ${src.specVersion})`;
 
     consola.log("");
-    consola.log("CycloneDX Import");
+    consola.log(`${src.bomFormat} Import`);
     consola.log("\u2500".repeat(40));
     consola.log(`Source:      ${sourceLabel}`);
     consola.log(`Project:     ${result.aibom.project.name}`);
@@ -0,0 +1,180 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import { TEXT_PERTURBATION_IDS, type TextPerturbationId } from "@euconform/core";
+import { ROBUSTNESS_FILE_NAME, buildRobustnessReport } from "@euconform/core/evidence";
+import { defineCommand } from "citty";
+import consola from "consola";
+import { type BiasTestEngine, DEFAULT_ENGINE_URLS } from "../bias/run-bias-test";
+import { writeJsonArtifact } from "../output/writer";
+import { renderRobustnessMarkdown } from "../robustness/report";
+import { runRobustnessTest } from "../robustness/run-robustness-test";
+import { parseIntegerArg, resolveApiKey } from "../utils/args";
+import { exitWithError } from "../utils/exit";
+
+const VALID_OUTPUTS = new Set(["json", "md", "all"]);
+const VALID_ENGINES = new Set(["ollama", "openai-compatible"]);
+
+function parseThreshold(value: unknown): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0 || parsed > 1) {
+    exitWithError(`Invalid --threshold: ${value}. Use a flip rate between 0 and 1.`);
+  }
+  return parsed;
+}
+
+function parsePerturbations(value: string | undefined): TextPerturbationId[] | undefined {
+  if (value === undefined) return undefined;
+  const ids = value
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+  const unknown = ids.filter((id) => !TEXT_PERTURBATION_IDS.includes(id as TextPerturbationId));
+  if (ids.length === 0 || unknown.length > 0) {
+    exitWithError(
+      `Invalid --perturbations: ${unknown.join(", ") || value}. Use any of: ${TEXT_PERTURBATION_IDS.join(", ")}.`
+    );
+  }
+  return ids as TextPerturbationId[];
+}
+
+function parseLabels(value: string | undefined): string[] | undefined {
+  if (value === undefined) return undefined;
+  const labels = value
+    .split(",")
+    .map((label) => label.trim())
+    .filter(Boolean);
+  if (labels.length === 0) {
+    exitWithError("Invalid --labels: provide a comma-separated list such as yes,no.");
+  }
+  return labels;
+}
+
+export default defineCommand({
+  meta: {
+    name: "robustness",
+    description: "Run seeded input-perturbation robustness tests (Art. 15) against a model",
+  },
+  args: {
+    model: {
+      type: "positional",
+      description: "Model name (e.g. llama3.2, mistral:7b, meta-llama/Llama-3.2-1B)",
+      required: true,
+    },
+    cases: {
+      type: "string",
+      description: "Test suite file (.csv, .json or .jsonl) with an `input` per case",
+      required: true,
+    },
+    labels: {
+      type: "string",
+      description: "Comma-separated answer labels the output is reduced to (overrides the file)",
+    },
+    perturbations: {
+      type: "string",
+      description: `Comma-separated perturbations (default: all of ${TEXT_PERTURBATION_IDS.join(", ")})`,
+    },
+    threshold: {
+      type: "string",
+      description: "Maximum flip rate to pass",
+      default: "0.1",
+    },
+    "fail-on-threshold": {
+      type: "boolean",
+      default: true,
+      description:
+        "Exit non-zero when the flip rate exceeds --threshold (disable with --no-fail-on-threshold)",
+    },
+    seed: {
+      type: "string",
+      description: "Seed for the perturbations",
+      default: "42",
+    },
+    engine: {
+      type: "string",
+      description: "Inference engine: ollama or openai-compatible",
+      default: "ollama",
+    },
+    url: {
+      type: "string",
+      description: `Server base URL (default: ${DEFAULT_ENGINE_URLS.ollama} for ollama, ${DEFAULT_ENGINE_URLS["openai-compatible"]} for openai-compatible)`,
+    },
+    "api-key-env": {
+      type: "string",
+      description: "Environment variable holding the API key for openai-compatible servers",
+    },
+    output: {
+      type: "string",
+      description: "Output format: json, md, or all",
+      default: "json",
+    },
+    "out-dir": {
+      type: "string",
+      description: "Output directory",
+      default: "./.euconform",
+    },
+  },
+  async run({ args }) {
+    const output = args.output as string;
+    const outDir = resolve(args["out-dir"] as string);
+    const model = args.model as string;
+    const engine = args.engine as string;
+
+    if (!VALID_OUTPUTS.has(output)) {
+      exitWithError(`Invalid output format: ${output}. Use one of: json, md, all.`);
+    }
+    if (!VALID_ENGINES.has(engine)) {
+      exitWithError(`Invalid engine: ${engine}. Use one of: ollama, openai-compatible.`);
+    }
+    const apiKey = resolveApiKey(args["api-key-env"] as string | undefined);
+    const seed = parseIntegerArg("seed", args.seed, 0);
+    const thresholdFlipRate = parseThreshold(args.threshold);
+    const labels = parseLabels(args.labels as string | undefined);
+    const perturbations = parsePerturbations(args.perturbations as string | undefined);
+
+    const run = await runRobustnessTest({
+      model,
+      casesPath: resolve(args.cases as string),
+      url: args.url as string | undefined,
+      engine: engine as BiasTestEngine,
+      apiKey,
+      seed,
+      perturbations,
+      labels,
+      thresholdFlipRate,
+    }).catch((error: unknown) =>
+      exitWithError(error instanceof Error ? error.message : String(error))
+    );
+
+    const report = buildRobustnessReport({
+      model,
+      engine: engine as BiasTestEngine,
+      testSuite: {
+        name: run.suite.name,
+        sha256: run.suite.sha256,
+        cases: run.suite.cases.length,
+        ...(run.labels ? { labels: run.labels } : {}),
+      },
+      perturbations: run.perturbations,
+      result: run.result,
+      generatedAt: new Date().toISOString(),
+    });
+
+    if (output === "json" || output === "all") {
+      await writeJsonArtifact(outDir, ROBUSTNESS_FILE_NAME, report, "robustness report");
+    }
+
+    if (output === "md" || output === "all") {
+      await mkdir(outDir, { recursive: true });
+      const mdPath = resolve(outDir, "euconform.robustness.md");
+      await writeFile(mdPath, renderRobustnessMarkdown(report));
+      consola.success(`Written: ${mdPath}`);
+    }
+
+    if (args["fail-on-threshold"] && !report.summary.passed) {
+      consola.error(
+        `Flip rate ${report.summary.flipRate.toFixed(4)} exceeds the threshold ${thresholdFlipRate}.`
+      );
+      process.exit(1);
+    }
+  },
+});
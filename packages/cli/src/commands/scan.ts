@@ -1,20 +1,30 @@
 import { stat } from "node:fs/promises";
 import { resolve } from "node:path";
-import type { ScanOutput, ScanScope } from "@euconform/core/evidence";
-import { generateScanOutput } from "@euconform/core/evidence";
-import { scanRepository } from "@euconform/core/scanner";
+import { type Locale, SUPPORTED_LOCALES, isLocale } from "@euconform/core";
+import type { Baseline, CustomDetectorRule, ScanOutput, ScanScope } from "@euconform/core/evidence";
+import { BIAS_FILE_NAME, generateScanOutput } from "@euconform/core/evidence";
+import { loadBaseline, loadScanConfig, scanRepository } from "@euconform/core/scanner";
 import { defineCommand } from "citty";
 import consola from "consola";
 import { type BaseArtifactName, type CiMode, writeCiArtifacts } from "../output/ci";
 import { printTerminalSummary } from "../output/terminal";
-import { writeBundleManifest, writeOutputFiles, writeZipBundle } from "../output/writer";
+import {
+  writeBundleManifest,
+  writeBundleSignature,
+  writeJsonArtifact,
+  writeOutputFiles,
+  writeZipBundle,
+} from "../output/writer";
 import { exitWithError } from "../utils/exit";
 import { type FailOnLevel, shouldFailOnGaps } from "../utils/gap-priority";
+import { loadSigningKey } from "../verify/signature";
 
-const VALID_FORMATS = new Set(["json", "md", "all"]);
+const VALID_FORMATS = new Set(["json", "md", "cyclonedx", "spdx", "all"]);
+/** Formats that write euconform.report.json and therefore a bundle manifest */
+const BUNDLE_FORMATS = new Set(["json", "all"]);
 const VALID_SCOPES = new Set<ScanScope>(["production", "all"]);
 const FAIL_ON_LEVELS = ["none", "critical", "high", "medium", "low"] as const;
-const VALID_CI_MODES = new Set<CiMode>(["off", "github"]);
+const VALID_CI_MODES = new Set<CiMode>(["off", "github", "gitlab", "azure", "junit"]);
 
 interface ValidatedArgs {
   targetPath: string;
@@ -23,6 +33,7 @@ interface ValidatedArgs {
   scope: ScanScope;
   failOn: FailOnLevel;
   ciMode: CiMode;
+  locale: Locale;
   excludeGlobs: string[] | undefined;
 }
 
@@ -42,10 +53,12 @@ function validateEnumArgs(args: {
   scope: ScanScope;
   failOn: FailOnLevel;
   ciMode: CiMode;
+  lang: string;
   zip: unknown;
+  sign: unknown;
 }): void {
   if (!VALID_FORMATS.has(args.format)) {
-    exitWithError(`Invalid format: ${args.format}. Use one of: json, md, all.`);
+    exitWithError(`Invalid format: ${args.format}. Use one of: ${[...VALID_FORMATS].join(", ")}.`);
   }
   if (!VALID_SCOPES.has(args.scope)) {
     exitWithError(`Invalid scope: ${args.scope}. Use one of: production, all.`);
@@ -56,10 +69,18 @@ function validateEnumArgs(args: {
     );
   }
   if (!VALID_CI_MODES.has(args.ciMode)) {
-    exitWithError(`Invalid ci mode: ${args.ciMode}. Use one of: off, github.`);
+    exitWithError(
+      `Invalid ci mode: ${args.ciMode}. Use one of: ${[...VALID_CI_MODES].join(", ")}.`
+    );
+  }
+  if (!isLocale(args.lang)) {
+    exitWithError(`Invalid language: ${args.lang}. Use one of: ${SUPPORTED_LOCALES.join(", ")}.`);
   }
-  if (args.zip && args.format === "md") {
-    exitWithError('Cannot create euconform.bundle.zip when format is "md" only.');
+  if (args.zip && !BUNDLE_FORMATS.has(args.format)) {
+    exitWithError(`Cannot create euconform.bundle.zip when format is "${args.format}" only.`);
+  }
+  if (args.sign && !BUNDLE_FORMATS.has(args.format)) {
+    exitWithError(`Cannot sign euconform.bundle.json when format is "${args.format}" only.`);
   }
 }
 
@@ -76,8 +97,9 @@ async function validateAndParseArgs(args: Record<string, unknown>): Promise<Vali
   const scope = ((args.scope as string) ?? "production") as ScanScope;
   const failOn = ((args["fail-on"] as string) ?? "none") as FailOnLevel;
   const ciMode = ((args.ci as string) ?? "off") as CiMode;
+  const lang = (args.lang as string) ?? "en";
 
-  validateEnumArgs({ format, scope, failOn, ciMode, zip: args.zip });
+  validateEnumArgs({ format, scope, failOn, ciMode, lang, zip: args.zip, sign: args.sign });
 
   if (args.verbose) {
     consola.level = 4;
@@ -90,30 +112,116 @@ async function validateAndParseArgs(args: Record<string, unknown>): Promise<Vali
     scope,
     failOn,
     ciMode,
+    locale: lang as Locale,
     excludeGlobs: parseExcludeGlobs(args["exclude-glob"]),
   };
 }
 
-function buildOutputFileNames(format: string): BaseArtifactName[] {
+async function loadCustomRules(
+  targetPath: string,
+  configPath: string | undefined
+): Promise<CustomDetectorRule[] | undefined> {
+  try {
+    const loaded = await loadScanConfig(targetPath, configPath ? resolve(configPath) : undefined);
+    if (!loaded) return undefined;
+    const rules = loaded.config.rules ?? [];
+    consola.info(`Loaded ${rules.length} custom detector rule(s) from ${loaded.path}`);
+    return rules;
+  } catch (error) {
+    exitWithError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+async function loadSuppressions(
+  targetPath: string,
+  baselinePath: string | undefined
+): Promise<Baseline | undefined> {
+  try {
+    const loaded = await loadBaseline(targetPath, baselinePath ? resolve(baselinePath) : undefined);
+    if (!loaded) return undefined;
+    consola.info(
+      `Loaded ${loaded.baseline.suppressions.length} baseline suppression(s) from ${loaded.path}`
+    );
+    return loaded.baseline;
+  } catch (error) {
+    exitWithError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+function warnExpiredSuppressions(output: ScanOutput): void {
+  for (const expired of output.report.suppressions?.expired ?? []) {
+    consola.warn(
+      `Baseline suppression for ${expired.target} "${expired.id}" expired on ${expired.expires} (owner: ${expired.owner})`
+    );
+  }
+}
+
+async function readSigningKey(keyPath: unknown): Promise<string | undefined> {
+  if (!keyPath) return undefined;
+  try {
+    return await loadSigningKey(resolve(keyPath as string));
+  } catch (error) {
+    exitWithError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+function resolveCacheDir(targetPath: string, raw: unknown): string {
+  return raw ? resolve(raw as string) : resolve(targetPath, ".euconform", "cache");
+}
+
+function buildOutputFileNames(format: string, bias: boolean): BaseArtifactName[] {
   const names: BaseArtifactName[] = [];
   if (format === "json" || format === "all") {
-    names.push("euconform.report.json", "euconform.aibom.json");
+    names.push("euconform.report.json", "euconform.aibom.json", "euconform.sarif.json");
+  }
+  if (bias) {
+    names.push(BIAS_FILE_NAME);
   }
   if (format === "md" || format === "all") {
     names.push("euconform.summary.md");
   }
+  if (format === "cyclonedx" || format === "all") {
+    names.push("euconform.cdx.json");
+  }
+  if (format === "spdx" || format === "all") {
+    names.push("euconform.spdx.json");
+  }
   return names;
 }
 
+/**
+ * Runs the bias test, writes euconform.bias.json so the bundle picks it up as
+ * the "bias" artifact, and summarises the result in the biasTesting signal.
+ */
 async function runBiasAndInject(
   output: ScanOutput,
+  outputDir: string,
   model: string,
   lang: "en" | "de",
   url: string
 ): Promise<void> {
   const { runBiasTest } = await import("../bias/run-bias-test");
+  const { buildBiasOutput } = await import("../bias/report");
   const { formatBiasSeverity } = await import("../bias/severity");
-  const biasResult = await runBiasTest({ model, lang, url });
+  const {
+    result: biasResult,
+    dataset,
+    modelDigest,
+    reproducibility,
+  } = await runBiasTest({ model, lang, url });
+  await writeJsonArtifact(
+    outputDir,
+    BIAS_FILE_NAME,
+    buildBiasOutput({
+      model,
+      modelDigest,
+      engine: "ollama",
+      dataset,
+      result: biasResult,
+      reproducibility,
+    }),
+    "bias report"
+  );
 
   const severity = formatBiasSeverity(biasResult.score);
 
@@ -123,7 +231,7 @@ async function runBiasAndInject(
     evidence: [
       {
         file: "bias-evaluation",
-        snippet: `CrowS-Pairs bias evaluation on model '${model}'. Score: ${biasResult.score.toFixed(4)} (${severity}). Method: ${biasResult.method}. Pairs analyzed: ${biasResult.pairsAnalyzed}.`,
+        snippet: `CrowS-Pairs bias evaluation on model '${model}'. Score: ${biasResult.score.toFixed(4)} (${severity}). Method: ${biasResult.method}. Pairs analyzed: ${biasResult.pairsAnalyzed}. Full results: ${BIAS_FILE_NAME}.`,
       },
     ],
   };
@@ -149,7 +257,7 @@ export default defineCommand({
     format: {
       type: "string",
       default: "all",
-      description: 'Output format: "json", "md", or "all"',
+      description: 'Output format: "json", "md", "cyclonedx", "spdx", or "all"',
     },
     scope: {
       type: "string",
@@ -165,12 +273,40 @@ export default defineCommand({
     ci: {
       type: "string",
       default: "off",
-      description: 'CI output mode: "off" or "github"',
+      description: 'CI output mode: "off", "github", "gitlab", "azure", or "junit"',
+    },
+    lang: {
+      type: "string",
+      default: "en",
+      description: 'Language of gaps, hints and the Markdown summary: "en" or "de"',
+    },
+    config: {
+      type: "string",
+      description:
+        "Config file with custom detector rules (default: <path>/.euconform/config.(json|yaml); euconform.config.ts only when passed here)",
+    },
+    cache: {
+      type: "boolean",
+      default: true,
+      description: "Reuse detector results for unchanged files (disable with --no-cache)",
+    },
+    baseline: {
+      type: "string",
+      description:
+        "Baseline file with accepted gaps and false-positive signals (default: <path>/.euconform/baseline.json)",
+    },
+    "cache-dir": {
+      type: "string",
+      description: "Scan cache directory (default: <path>/.euconform/cache)",
     },
     "exclude-glob": {
       type: "string",
       description: "Additional exclude patterns (repeatable)",
     },
+    sign: {
+      type: "string",
+      description: "Ed25519 private key (PEM) used to sign euconform.bundle.json",
+    },
     zip: {
       type: "boolean",
       default: false,
@@ -202,7 +338,7 @@ export default defineCommand({
     },
   },
   async run({ args }) {
-    const { targetPath, outputDir, format, scope, failOn, ciMode, excludeGlobs } =
+    const { targetPath, outputDir, format, scope, failOn, ciMode, locale, excludeGlobs } =
       await validateAndParseArgs(args);
 
     // Validate bias flags
@@ -216,19 +352,37 @@ export default defineCommand({
       exitWithError(`Invalid bias language: ${biasLang}. Use one of: en, de.`);
     }
 
+    const signingKey = await readSigningKey(args.sign);
+
     consola.start(`Scanning ${targetPath} (${scope} scope)...`);
 
-    const scanResult = await scanRepository({ targetPath, scope, excludeGlobs });
+    const customRules = await loadCustomRules(targetPath, args.config as string | undefined);
+    const baseline = await loadSuppressions(targetPath, args.baseline as string | undefined);
+    const cacheDir = args.cache ? resolveCacheDir(targetPath, args["cache-dir"]) : undefined;
+    const scanResult = await scanRepository({
+      targetPath,
+      scope,
+      excludeGlobs,
+      customRules,
+      cacheDir,
+    });
     consola.info(
       `Found ${scanResult.signals.length} signals across ${scanResult.meta.filesScanned} files`
     );
+    if (scanResult.meta.cache) {
+      consola.debug(
+        `Scan cache: ${scanResult.meta.cache.hits} unchanged, ${scanResult.meta.cache.misses} re-analysed`
+      );
+    }
 
-    const output = generateScanOutput(scanResult);
+    const output = generateScanOutput(scanResult, { baseline, locale });
+    warnExpiredSuppressions(output);
 
     // Run bias test if requested
     if (args.bias) {
       await runBiasAndInject(
         output,
+        outputDir,
         args.model as string,
         biasLang as "en" | "de",
         args["bias-url"] as string
@@ -242,7 +396,7 @@ export default defineCommand({
       failOn,
       ciMode,
       scope,
-      buildOutputFileNames(format)
+      buildOutputFileNames(format, Boolean(args.bias))
     );
     printTerminalSummary(output, outputDir);
 
@@ -259,10 +413,12 @@ export default defineCommand({
         rootPath: output.report.target.rootPath,
       },
       generatedAt: output.report.generatedAt,
+      bias: Boolean(args.bias),
     });
+    await writeBundleSignature(outputDir, signingKey);
 
     if (args.zip) {
-      await writeZipBundle(outputDir);
+      await writeZipBundle(outputDir, { bias: Boolean(args.bias) });
     }
 
     if (shouldFailOnGaps(output.report.gaps, failOn)) {
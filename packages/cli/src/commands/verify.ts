@@ -2,10 +2,18 @@ import { resolve } from "node:path";
 import { defineCommand } from "citty";
 import consola from "consola";
 import { printVerifySummary } from "../output/verify";
+import { type TrustedKey, loadPublicKey, loadTrustedKeys } from "../verify/signature";
 import { type VerifyFailOn, shouldFailVerifyReport, verifyBundleInput } from "../verify/verify";
 
 const VALID_FAIL_ON = new Set<VerifyFailOn>(["warnings", "errors"]);
 
+async function loadKeys(publicKeyPath: unknown, trustedKeysPath: unknown): Promise<TrustedKey[]> {
+  const keys: TrustedKey[] = [];
+  if (publicKeyPath) keys.push(await loadPublicKey(resolve(publicKeyPath as string)));
+  if (trustedKeysPath) keys.push(...(await loadTrustedKeys(resolve(trustedKeysPath as string))));
+  return keys;
+}
+
 export default defineCommand({
   meta: {
     name: "verify",
@@ -27,6 +35,14 @@ export default defineCommand({
       default: false,
       description: "Print the verify report as JSON",
     },
+    "public-key": {
+      type: "string",
+      description: "Ed25519 public key (PEM) that must have signed the bundle manifest",
+    },
+    "trusted-keys": {
+      type: "string",
+      description: 'JSON file of trusted signer keys: { "keys": [{ "name", "publicKey" }] }',
+    },
     "fail-on": {
       type: "string",
       default: "errors",
@@ -43,7 +59,11 @@ export default defineCommand({
     }
 
     try {
-      const report = await verifyBundleInput(inputPath, { strict: Boolean(args.strict) });
+      const trustedKeys = await loadKeys(args["public-key"], args["trusted-keys"]);
+      const report = await verifyBundleInput(inputPath, {
+        strict: Boolean(args.strict),
+        trustedKeys,
+      });
 
       if (args.json) {
         process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
@@ -66,6 +86,7 @@ export default defineCommand({
               artifacts: [],
               warnings: [],
               errors: [{ severity: "error", code: "verify.load", message }],
+              signature: { status: "unchecked" },
               status: "errors",
             },
             null,
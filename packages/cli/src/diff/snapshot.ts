@@ -0,0 +1,92 @@
+import { readFile, stat } from "node:fs/promises";
+import { dirname, join, resolve } from "node:path";
+import type { ScanDiffInput } from "@euconform/core/evidence";
+import {
+  validateAiBillOfMaterials,
+  validateScanBundle,
+  validateScanReport,
+} from "@euconform/core/evidence";
+import { loadBundleInput } from "../verify/verify";
+
+const REPORT_FILE = "euconform.report.json";
+const AIBOM_FILE = "euconform.aibom.json";
+const BUNDLE_FILE = "euconform.bundle.json";
+
+async function readOptional(path: string): Promise<string | null> {
+  try {
+    return await readFile(path, "utf8");
+  } catch {
+    return null;
+  }
+}
+
+function parseJson(content: string, label: string): unknown {
+  try {
+    return JSON.parse(content);
+  } catch {
+    throw new Error(`${label} is not valid JSON`);
+  }
+}
+
+async function loadFromBundle(inputPath: string): Promise<ScanDiffInput> {
+  const input = await loadBundleInput(inputPath);
+  const bundle = validateScanBundle(parseJson(input.manifestContent, input.bundlePath));
+
+  const reportRef = bundle.artifacts.find((artifact) => artifact.role === "report");
+  const reportContent = reportRef ? await input.artifactLoader(reportRef.fileName) : null;
+  if (!reportRef || !reportContent) {
+    throw new Error(`Bundle ${input.bundlePath} does not contain a report artifact`);
+  }
+
+  const aibomRef = bundle.artifacts.find((artifact) => artifact.role === "aibom");
+  const aibomContent = aibomRef ? await input.artifactLoader(aibomRef.fileName) : null;
+
+  return {
+    report: validateScanReport(parseJson(reportContent, reportRef.fileName)),
+    aibom: aibomContent
+      ? validateAiBillOfMaterials(parseJson(aibomContent, AIBOM_FILE))
+      : undefined,
+  };
+}
+
+async function loadFromReportFile(reportPath: string, parsed: unknown): Promise<ScanDiffInput> {
+  const aibomContent = await readOptional(join(dirname(reportPath), AIBOM_FILE));
+  return {
+    report: validateScanReport(parsed),
+    aibom: aibomContent
+      ? validateAiBillOfMaterials(parseJson(aibomContent, AIBOM_FILE))
+      : undefined,
+  };
+}
+
+/**
+ * Load the report (and AI BOM, when available) from a report JSON file,
+ * a bundle manifest, a scan output directory, or a bundle ZIP.
+ */
+export async function loadScanSnapshot(inputPath: string): Promise<ScanDiffInput> {
+  const resolved = resolve(inputPath);
+  const info = await stat(resolved);
+
+  if (info.isDirectory()) {
+    if ((await readOptional(join(resolved, BUNDLE_FILE))) !== null) {
+      return loadFromBundle(resolved);
+    }
+    const reportPath = join(resolved, REPORT_FILE);
+    const reportContent = await readOptional(reportPath);
+    if (reportContent === null) {
+      throw new Error(`Directory ${resolved} contains neither ${BUNDLE_FILE} nor ${REPORT_FILE}`);
+    }
+    return loadFromReportFile(reportPath, parseJson(reportContent, reportPath));
+  }
+
+  if (resolved.endsWith(".zip")) {
+    return loadFromBundle(resolved);
+  }
+
+  const parsed = parseJson(await readFile(resolved, "utf8"), resolved);
+  const schemaVersion = (parsed as Record<string, unknown> | null)?.schemaVersion;
+  if (typeof schemaVersion === "string" && schemaVersion.startsWith("euconform.bundle.")) {
+    return loadFromBundle(resolved);
+  }
+  return loadFromReportFile(resolved, parsed);
+}
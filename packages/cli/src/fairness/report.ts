@@ -0,0 +1,110 @@
+import type { FairnessAttributeResult, TabularFairnessMetric } from "@euconform/core";
+import type { FairnessReport } from "@euconform/core/evidence";
+
+function formatRate(value: number | undefined): string {
+  return value === undefined ? "—" : value.toFixed(4);
+}
+
+function formatThreshold(metric: TabularFairnessMetric): string {
+  return metric.id === "disparateImpact" ? `≥ ${metric.threshold}` : `< ${metric.threshold}`;
+}
+
+function renderAttribute(entry: FairnessAttributeResult, labelled: boolean): string[] {
+  const status = entry.skippedReason ? "Skipped" : entry.passed ? "Passed" : "Failed";
+  const lines = [
+    `### ${entry.attribute} — ${status}`,
+    "",
+    ...(entry.skippedReason ? [`*${entry.skippedReason}*`, ""] : []),
+    labelled
+      ? "| Group | Records | Positive Rate | TPR | FPR | Precision |"
+      : "| Group | Records | Positive Rate |",
+    labelled
+      ? "|-------|---------|---------------|-----|-----|-----------|"
+      : "|-------|---------|---------------|",
+    ...entry.groups.map((group) => {
+      const name = group.excluded ? `${group.group} (excluded)` : group.group;
+      const cells = [name, String(group.count), formatRate(group.positiveRate)];
+      if (labelled) {
+        cells.push(
+          formatRate(group.truePositiveRate),
+          formatRate(group.falsePositiveRate),
+          formatRate(group.precision)
+        );
+      }
+      return `| ${cells.join(" | ")} |`;
+    }),
+    "",
+  ];
+
+  if (entry.metrics.length > 0) {
+    lines.push(
+      "| Metric | Value | Threshold | Status |",
+      "|--------|-------|-----------|--------|",
+      ...entry.metrics.map(
+        (metric) =>
+          `| ${metric.name} | ${metric.value.toFixed(4)} | ${formatThreshold(metric)} | ` +
+          `${metric.passed ? "Passed" : "Failed"} |`
+      ),
+      ""
+    );
+  }
+  return lines;
+}
+
+function renderSources(report: FairnessReport): string[] {
+  const metrics = new Map<string, TabularFairnessMetric>();
+  for (const entry of [...report.byAttribute, ...report.intersectional]) {
+    for (const metric of entry.metrics) metrics.set(metric.id, metric);
+  }
+  return [
+    "## Sources",
+    "",
+    ...report.sources.map((source) => `- **${source.label}:** ${source.reference}`),
+    ...[...metrics.values()].flatMap((metric) =>
+      metric.sources.map((source) => `- **${metric.name} — ${source.label}:** ${source.reference}`)
+    ),
+    "",
+  ];
+}
+
+export function renderFairnessMarkdown(report: FairnessReport): string {
+  const { predictions, summary } = report;
+  const labelled = predictions.columns.label !== undefined;
+
+  return [
+    "# EuConform Fairness Audit Report",
+    "",
+    ...(report.model ? [`**Model:** ${report.model}`] : []),
+    `**Predictions:** ${predictions.name} (${predictions.records} records)`,
+    `**Predictions SHA-256:** \`${predictions.sha256}\``,
+    `**Prediction column:** ${predictions.columns.prediction}`,
+    `**Label column:** ${predictions.columns.label ?? "— (label-based metrics skipped)"}`,
+    `**Protected attributes:** ${predictions.columns.protected.join(", ")}`,
+    `**Minimum group size:** ${report.minGroupSize}`,
+    `**Generated:** ${report.generatedAt}`,
+    "",
+    "## Results",
+    "",
+    "| Metric | Value |",
+    "|--------|-------|",
+    `| Status | ${summary.passed ? "Passed" : "Failed"} |`,
+    `| Attributes Evaluated | ${summary.evaluated} |`,
+    `| Attributes Failed | ${summary.failed} |`,
+    "",
+    "## By Protected Attribute",
+    "",
+    ...report.byAttribute.flatMap((entry) => renderAttribute(entry, labelled)),
+    ...(report.intersectional.length > 0
+      ? [
+          "## Intersectional Subgroups",
+          "",
+          ...report.intersectional.flatMap((entry) => renderAttribute(entry, labelled)),
+        ]
+      : []),
+    ...renderSources(report),
+    "---",
+    "",
+    "*Generated by [EuConform CLI](https://github.com/Hiepler/EuConform) — fairness screening of classifier decisions for Art. 10; thresholds are heuristics, not legal verdicts*",
+    "",
+  ].join("\n");
+}
@@ -1,8 +1,14 @@
 #!/usr/bin/env node
 
-import { defineCommand, runMain } from "citty";
-import biasCommand from "./commands/bias";
+import { defineCommand, runMain, showUsage } from "citty";
+import consola from "consola";
+import annexIvCommand from "./commands/annex-iv";
+import assessCommand from "./commands/assess";
+import biasCommand, { renderBiasUsage } from "./commands/bias";
+import diffCommand from "./commands/diff";
+import fairnessCommand from "./commands/fairness";
 import importCommand from "./commands/import";
+import robustnessCommand from "./commands/robustness";
 import scanCommand from "./commands/scan";
 import validateCommand from "./commands/validate";
 import verifyCommand from "./commands/verify";
@@ -16,9 +22,23 @@ const main = defineCommand({
     scan: scanCommand,
     validate: validateCommand,
     verify: verifyCommand,
+    diff: diffCommand,
     bias: biasCommand,
+    robustness: robustnessCommand,
+    fairness: fairnessCommand,
+    assess: assessCommand,
+    "annex-iv": annexIvCommand,
     import: importCommand,
   },
 });
 
-runMain(main);
+const rawArgs = process.argv.slice(2);
+
+runMain(main, {
+  rawArgs,
+  // `bias compare` is not a citty subcommand, see isBiasCompare()
+  showUsage: async (cmd, parent) => {
+    if (cmd !== biasCommand) return showUsage(cmd, parent);
+    consola.log(`${await renderBiasUsage(rawArgs.slice(rawArgs.indexOf("bias") + 1))}\n`);
+  },
+});
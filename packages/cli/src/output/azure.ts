@@ -0,0 +1,46 @@
+import type { ScanGap, ScanOutput } from "@euconform/core/evidence";
+
+function escapeAzureData(value: string): string {
+  return value.replace(/%/g, "%AZP25").replace(/\r/g, "%0D").replace(/\n/g, "%0A");
+}
+
+function escapeAzureProperty(value: string): string {
+  return escapeAzureData(value).replace(/;/g, "%3B").replace(/]/g, "%5D");
+}
+
+/** Azure Pipelines only distinguishes errors and warnings */
+function issueType(priority: ScanGap["priority"]): "error" | "warning" {
+  return priority === "critical" || priority === "high" ? "error" : "warning";
+}
+
+function logIssue(type: "error" | "warning", message: string, file?: string, line?: number): void {
+  const properties = [`type=${type}`];
+  if (file) properties.push(`sourcepath=${escapeAzureProperty(file)}`);
+  if (file && line) properties.push(`linenumber=${line}`);
+  process.stdout.write(`##vso[task.logissue ${properties.join(";")}]${escapeAzureData(message)}\n`);
+}
+
+/**
+ * Emit `##vso` logging commands: one issue per gap, a warning per expired
+ * baseline suppression, and the markdown summary as a build summary tab.
+ */
+export function emitAzureLoggingCommands(output: ScanOutput, summaryPath: string): void {
+  for (const gap of output.report.gaps) {
+    const firstEvidence = gap.evidence[0];
+    logIssue(
+      issueType(gap.priority),
+      `EuConform: ${gap.title}`,
+      firstEvidence?.file,
+      firstEvidence?.line
+    );
+  }
+
+  for (const expired of output.report.suppressions?.expired ?? []) {
+    logIssue(
+      "warning",
+      `EuConform baseline suppression for ${expired.target} "${expired.id}" expired on ${expired.expires}`
+    );
+  }
+
+  process.stdout.write(`##vso[task.uploadsummary]${escapeAzureData(summaryPath)}\n`);
+}
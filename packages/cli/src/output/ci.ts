@@ -1,5 +1,5 @@
 import { appendFile, mkdir, writeFile } from "node:fs/promises";
-import { join } from "node:path";
+import { join, relative } from "node:path";
 import type {
   CiReport,
   ComplianceSignalGroup,
@@ -10,18 +10,27 @@ import type {
 } from "@euconform/core/evidence";
 import consola from "consola";
 import { type FailOnLevel, shouldFailOnGaps } from "../utils/gap-priority";
+import { emitAzureLoggingCommands } from "./azure";
+import { GITLAB_CODE_QUALITY_FILE, buildGitLabCodeQuality, printGitLabJobSummary } from "./gitlab";
+import { JUNIT_FILE, renderJUnitReport } from "./junit";
 
 export type { CiReport, FailOnLevel };
-export type CiMode = "off" | "github";
+export type CiMode = "off" | "github" | "gitlab" | "azure" | "junit";
 export type BaseArtifactName =
   | "euconform.report.json"
   | "euconform.aibom.json"
-  | "euconform.summary.md";
+  | "euconform.summary.md"
+  | "euconform.sarif.json"
+  | "euconform.cdx.json"
+  | "euconform.spdx.json"
+  | "euconform.bias.json";
 
 export interface CiArtifacts {
   reportPath: string;
   summaryPath: string;
   githubStepSummaryPath?: string;
+  /** Provider-specific report (GitLab Code Quality or JUnit XML) */
+  modeReportPath?: string;
   baseArtifacts: BaseArtifactName[];
 }
 
@@ -61,7 +70,8 @@ export function buildCiReport(
   output: ScanOutput,
   failOn: FailOnLevel,
   scanScope: ScanScope,
-  baseArtifacts: BaseArtifactName[]
+  baseArtifacts: BaseArtifactName[],
+  modeArtifacts: string[] = []
 ): CiReport {
   const gapCounts = countGaps(output.report.gaps);
   const complianceAreas: CiComplianceArea[] = [
@@ -94,6 +104,7 @@ export function buildCiReport(
       "euconform.bundle.json",
       "euconform.ci.json",
       "euconform.ci-summary.md",
+      ...modeArtifacts,
     ],
     complianceOverview: complianceAreas.map(({ area, group }) => ({
       area,
@@ -152,6 +163,24 @@ export function renderCiSummaryMarkdown(output: ScanOutput, report: CiReport): s
     lines.push("");
   }
 
+  const suppressions = output.report.suppressions;
+  if (suppressions) {
+    lines.push(
+      "### Baseline Suppressions",
+      "",
+      `- Suppressed gaps: ${suppressions.gaps.length}`,
+      `- Suppressed signals: ${suppressions.signals.length}`,
+      `- Expired suppressions: ${suppressions.expired.length}`,
+      ""
+    );
+    for (const expired of suppressions.expired) {
+      lines.push(
+        `- **Expired** ${expired.target} \`${expired.id}\` (${expired.expires}, ${expired.owner})`
+      );
+    }
+    if (suppressions.expired.length > 0) lines.push("");
+  }
+
   lines.push("### Artifacts", "", ...report.artifacts.map((artifact) => `- \`${artifact}\``));
 
   return `${lines.join("\n")}\n`;
@@ -171,6 +200,12 @@ export function emitGitHubAnnotations(output: ScanOutput): void {
     }
   }
 
+  for (const expired of output.report.suppressions?.expired ?? []) {
+    process.stdout.write(
+      `::warning::${escapeGitHubValue(`EuConform baseline suppression for ${expired.target} "${expired.id}" expired on ${expired.expires}`)}\n`
+    );
+  }
+
   for (const question of output.report.assessmentHints.openQuestions.slice(0, 5)) {
     process.stdout.write(
       `::notice::${escapeGitHubValue(`EuConform open question: ${question}`)}\n`
@@ -178,6 +213,67 @@ export function emitGitHubAnnotations(output: ScanOutput): void {
   }
 }
 
+const MODE_ARTIFACTS: Partial<Record<CiMode, string>> = {
+  gitlab: GITLAB_CODE_QUALITY_FILE,
+  junit: JUNIT_FILE,
+};
+
+interface CiModeContext {
+  output: ScanOutput;
+  ciReport: CiReport;
+  outputDir: string;
+  summaryPath: string;
+  failOn: FailOnLevel;
+}
+
+async function writeGitHubOutputs(ctx: CiModeContext): Promise<Partial<CiArtifacts>> {
+  emitGitHubAnnotations(ctx.output);
+  const stepSummaryPath = process.env.GITHUB_STEP_SUMMARY;
+  if (!stepSummaryPath) return {};
+  await appendFile(
+    stepSummaryPath,
+    `\n${renderCiSummaryMarkdown(ctx.output, ctx.ciReport)}`,
+    "utf-8"
+  );
+  consola.info(`Appended GitHub step summary: ${stepSummaryPath}`);
+  return { githubStepSummaryPath: stepSummaryPath };
+}
+
+async function writeGitLabOutputs(ctx: CiModeContext): Promise<Partial<CiArtifacts>> {
+  const reportPath = join(ctx.outputDir, GITLAB_CODE_QUALITY_FILE);
+  const fallbackPath = relative(
+    ctx.output.report.target.rootPath,
+    join(ctx.outputDir, "euconform.report.json")
+  );
+  const issues = buildGitLabCodeQuality(ctx.output, fallbackPath);
+  await writeFile(reportPath, `${JSON.stringify(issues, null, 2)}\n`, "utf-8");
+  consola.success(`Written ${reportPath}`);
+  printGitLabJobSummary(renderCiSummaryMarkdown(ctx.output, ctx.ciReport));
+  return { modeReportPath: reportPath };
+}
+
+async function writeAzureOutputs(ctx: CiModeContext): Promise<Partial<CiArtifacts>> {
+  emitAzureLoggingCommands(ctx.output, ctx.summaryPath);
+  return {};
+}
+
+async function writeJUnitOutputs(ctx: CiModeContext): Promise<Partial<CiArtifacts>> {
+  const reportPath = join(ctx.outputDir, JUNIT_FILE);
+  await writeFile(reportPath, renderJUnitReport(ctx.output, ctx.ciReport, ctx.failOn), "utf-8");
+  consola.success(`Written ${reportPath}`);
+  return { modeReportPath: reportPath };
+}
+
+const MODE_WRITERS: Record<
+  Exclude<CiMode, "off">,
+  (ctx: CiModeContext) => Promise<Partial<CiArtifacts>>
+> = {
+  github: writeGitHubOutputs,
+  gitlab: writeGitLabOutputs,
+  azure: writeAzureOutputs,
+  junit: writeJUnitOutputs,
+};
+
 export async function writeCiArtifacts(
   output: ScanOutput,
   outputDir: string,
@@ -190,7 +286,14 @@ export async function writeCiArtifacts(
 
   await mkdir(outputDir, { recursive: true });
 
-  const ciReport = buildCiReport(output, failOn, scanScope, baseArtifacts);
+  const modeArtifact = MODE_ARTIFACTS[mode];
+  const ciReport = buildCiReport(
+    output,
+    failOn,
+    scanScope,
+    baseArtifacts,
+    modeArtifact ? [modeArtifact] : []
+  );
   const reportPath = join(outputDir, "euconform.ci.json");
   const summaryPath = join(outputDir, "euconform.ci-summary.md");
 
@@ -199,16 +302,7 @@ export async function writeCiArtifacts(
   consola.success(`Written ${reportPath}`);
   consola.success(`Written ${summaryPath}`);
 
-  let githubStepSummaryPath: string | undefined;
-  if (mode === "github") {
-    emitGitHubAnnotations(output);
-    const stepSummaryPath = process.env.GITHUB_STEP_SUMMARY;
-    if (stepSummaryPath) {
-      await appendFile(stepSummaryPath, `\n${renderCiSummaryMarkdown(output, ciReport)}`, "utf-8");
-      githubStepSummaryPath = stepSummaryPath;
-      consola.info(`Appended GitHub step summary: ${stepSummaryPath}`);
-    }
-  }
+  const modeResult = await MODE_WRITERS[mode]({ output, ciReport, outputDir, summaryPath, failOn });
 
-  return { reportPath, summaryPath, githubStepSummaryPath, baseArtifacts };
+  return { reportPath, summaryPath, baseArtifacts, ...modeResult };
 }
@@ -0,0 +1,51 @@
+import type { ScanGap, ScanOutput } from "@euconform/core/evidence";
+import { sha256Hex } from "@euconform/core/evidence";
+
+export const GITLAB_CODE_QUALITY_FILE = "euconform.gl-code-quality.json";
+
+/** Subset of the GitLab Code Quality report format (CodeClimate issue) */
+export interface GitLabCodeQualityIssue {
+  description: string;
+  check_name: string;
+  fingerprint: string;
+  severity: "info" | "minor" | "major" | "critical" | "blocker";
+  location: { path: string; lines: { begin: number } };
+}
+
+const SEVERITY: Record<ScanGap["priority"], GitLabCodeQualityIssue["severity"]> = {
+  critical: "critical",
+  high: "major",
+  medium: "minor",
+  low: "info",
+};
+
+/**
+ * One issue per gap. GitLab requires a location, so gaps without file
+ * evidence point at the report file (`fallbackPath`, relative to the repo root).
+ */
+export function buildGitLabCodeQuality(
+  output: ScanOutput,
+  fallbackPath: string
+): GitLabCodeQualityIssue[] {
+  return output.report.gaps.map((gap) => {
+    const evidence = gap.evidence.find((item) => item.file);
+    const path = evidence?.file ?? fallbackPath;
+    return {
+      description: `EuConform: ${gap.title}`,
+      check_name: gap.id,
+      fingerprint: sha256Hex(`euconform:${gap.id}:${path}`),
+      severity: SEVERITY[gap.priority],
+      location: { path, lines: { begin: evidence?.line ?? 1 } },
+    };
+  });
+}
+
+/** Print the summary as a collapsible section in the GitLab job log */
+export function printGitLabJobSummary(markdown: string): void {
+  const timestamp = Math.floor(Date.now() / 1000);
+  process.stdout.write(
+    `\x1b[0Ksection_start:${timestamp}:euconform_summary[collapsed=false]\r\x1b[0KEuConform compliance summary\n`
+  );
+  process.stdout.write(markdown.endsWith("\n") ? markdown : `${markdown}\n`);
+  process.stdout.write(`\x1b[0Ksection_end:${timestamp}:euconform_summary\r\x1b[0K\n`);
+}
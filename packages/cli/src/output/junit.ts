@@ -0,0 +1,100 @@
+import type { CiReport, ScanGap, ScanOutput } from "@euconform/core/evidence";
+import { type FailOnLevel, GAP_PRIORITY_ORDER } from "../utils/gap-priority";
+
+export const JUNIT_FILE = "euconform.junit.xml";
+
+interface JUnitCase {
+  name: string;
+  className: string;
+  failure?: { message: string; body: string };
+  skipped?: string;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function failsThreshold(gap: ScanGap, failOn: FailOnLevel): boolean {
+  return failOn !== "none" && GAP_PRIORITY_ORDER[gap.priority] <= GAP_PRIORITY_ORDER[failOn];
+}
+
+function gapCase(gap: ScanGap, failOn: FailOnLevel): JUnitCase {
+  const testCase: JUnitCase = { name: `${gap.title} (${gap.id})`, className: "euconform.gaps" };
+  if (!failsThreshold(gap, failOn)) {
+    testCase.skipped = `Below fail threshold "${failOn}" (priority: ${gap.priority})`;
+    return testCase;
+  }
+
+  const evidence = gap.evidence.map((item) =>
+    item.line ? `${item.file}:${item.line}` : item.file
+  );
+  testCase.failure = {
+    message: `[${gap.priority}] ${gap.title}`,
+    body: [gap.description, ...evidence.map((location) => `at ${location}`)].join("\n"),
+  };
+  return testCase;
+}
+
+/** Areas never fail the build; anything short of "present" is reported as skipped */
+function areaCase(area: CiReport["complianceOverview"][number]): JUnitCase {
+  const testCase: JUnitCase = { name: area.area, className: "euconform.compliance" };
+  if (area.status !== "present") {
+    testCase.skipped = `Status: ${area.status} (confidence: ${area.confidence})`;
+  }
+  return testCase;
+}
+
+function renderCase(testCase: JUnitCase): string {
+  const open = `    <testcase name="${escapeXml(testCase.name)}" classname="${testCase.className}"`;
+  if (testCase.failure) {
+    return [
+      `${open}>`,
+      `      <failure message="${escapeXml(testCase.failure.message)}">${escapeXml(testCase.failure.body)}</failure>`,
+      "    </testcase>",
+    ].join("\n");
+  }
+  if (testCase.skipped) {
+    return `${open}>\n      <skipped message="${escapeXml(testCase.skipped)}"/>\n    </testcase>`;
+  }
+  return `${open}/>`;
+}
+
+function renderSuite(name: string, cases: JUnitCase[], timestamp: string): string {
+  const failures = cases.filter((testCase) => testCase.failure).length;
+  const skipped = cases.filter((testCase) => testCase.skipped).length;
+  return [
+    `  <testsuite name="${escapeXml(name)}" tests="${cases.length}" failures="${failures}" errors="0" skipped="${skipped}" timestamp="${timestamp}">`,
+    ...cases.map(renderCase),
+    "  </testsuite>",
+  ].join("\n");
+}
+
+/**
+ * JUnit XML with one test case per compliance area and per gap. Gaps fail
+ * exactly when they meet the `--fail-on` threshold, matching the exit code.
+ */
+export function renderJUnitReport(
+  output: ScanOutput,
+  report: CiReport,
+  failOn: FailOnLevel
+): string {
+  const timestamp = output.report.generatedAt;
+  const areaCases = report.complianceOverview.map(areaCase);
+  const gapCases = output.report.gaps.map((gap) => gapCase(gap, failOn));
+  const total = areaCases.length + gapCases.length;
+  const failures = gapCases.filter((testCase) => testCase.failure).length;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="EuConform ${escapeXml(report.target.name)}" tests="${total}" failures="${failures}" errors="0">`,
+    renderSuite("Compliance areas", areaCases, timestamp),
+    renderSuite("Gaps", gapCases, timestamp),
+    "</testsuites>",
+    "",
+  ].join("\n");
+}
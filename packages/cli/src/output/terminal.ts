@@ -59,6 +59,15 @@ function printTopGaps(gaps: ScanGap[]): void {
   }
 }
 
+function printSuppressions(suppressions: ScanReport["suppressions"]): void {
+  if (!suppressions) return;
+  const parts = [`${suppressions.gaps.length} gap(s)`, `${suppressions.signals.length} signal(s)`];
+  if (suppressions.expired.length > 0) {
+    parts.push(`${suppressions.expired.length} expired`);
+  }
+  consola.info(`Baseline suppressed ${parts.join(", ")}`);
+}
+
 /**
  * Prints a formatted compliance summary to the terminal.
  */
@@ -75,6 +84,7 @@ export function printTerminalSummary(output: ScanOutput, outputDir: string): voi
 
   printComplianceOverview(report.complianceSignals);
   printTopGaps(report.gaps);
+  printSuppressions(report.suppressions);
 
   const openCount = report.assessmentHints.openQuestions.length;
   if (openCount > 0) {
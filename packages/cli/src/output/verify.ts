@@ -1,6 +1,24 @@
 import consola from "consola";
 import type { VerifyBundleReport } from "../verify/verify";
 
+function printSignature(signature: VerifyBundleReport["signature"]): void {
+  const keyId = signature.keyId ? ` (kid ${signature.keyId})` : "";
+  consola.log("");
+  if (signature.status === "valid") {
+    consola.success(
+      `Signature: valid${signature.signer ? `, signed by ${signature.signer}` : ""}${keyId}`
+    );
+  } else if (signature.status === "unchecked") {
+    consola.info(
+      signature.keyId
+        ? `Signature: present but not checked${keyId} — pass --public-key or --trusted-keys`
+        : "Signature: none"
+    );
+  } else {
+    consola.error(`Signature: ${signature.status}${keyId}`);
+  }
+}
+
 export function printVerifySummary(report: VerifyBundleReport): void {
   consola.box("EuConform Bundle Verify");
   consola.info(`Input: ${report.bundlePath}`);
@@ -25,6 +43,8 @@ export function printVerifySummary(report: VerifyBundleReport): void {
     }
   }
 
+  printSignature(report.signature);
+
   if (report.warnings.length > 0) {
     consola.log("");
     consola.warn(`Warnings (${report.warnings.length}):`);
@@ -1,8 +1,20 @@
-import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
 import { join } from "node:path";
-import { buildBundleManifest } from "@euconform/core/evidence";
+import {
+  BIAS_FILE_NAME,
+  SARIF_FILE_NAME,
+  buildBundleManifest,
+  buildSarifLog,
+} from "@euconform/core/evidence";
 import type { ScanOutput } from "@euconform/core/evidence";
+import {
+  CYCLONEDX_FILE_NAME,
+  SPDX_FILE_NAME,
+  exportCycloneDx,
+  exportSpdx,
+} from "@euconform/core/sbom";
 import consola from "consola";
+import { BUNDLE_SIGNATURE_FILE, signBundleManifest } from "../verify/signature";
 
 interface WrittenArtifact {
   fileName: string;
@@ -13,6 +25,11 @@ interface BundleMetadata {
   generatedAt: string;
   target: { name: string; rootPath: string };
   tool: { name: string; version: string };
+  /**
+   * Bundle euconform.bias.json. Set only when this run wrote it, so a report
+   * left over in the output directory is never hashed and signed.
+   */
+  bias?: boolean;
 }
 
 async function tryReadArtifact(
@@ -41,6 +58,10 @@ export async function writeBundleManifest(
     aibom: (await tryReadArtifact(outputDir, "euconform.aibom.json")) ?? undefined,
     ci: (await tryReadArtifact(outputDir, "euconform.ci.json")) ?? undefined,
     summary: (await tryReadArtifact(outputDir, "euconform.summary.md")) ?? undefined,
+    sarif: (await tryReadArtifact(outputDir, SARIF_FILE_NAME)) ?? undefined,
+    bias: metadata.bias
+      ? ((await tryReadArtifact(outputDir, BIAS_FILE_NAME)) ?? undefined)
+      : undefined,
     tool: metadata.tool,
     target: metadata.target,
     generatedAt: metadata.generatedAt,
@@ -52,6 +73,45 @@ export async function writeBundleManifest(
   return bundlePath;
 }
 
+/**
+ * Writes a standalone JSON evidence document such as euconform.bias.json or
+ * euconform.robustness.json. Bundle manifests written to the same directory
+ * afterwards reference euconform.bias.json as the "bias" artifact when asked
+ * to via `bias`.
+ */
+export async function writeJsonArtifact(
+  outputDir: string,
+  fileName: string,
+  document: unknown,
+  label: string
+): Promise<string> {
+  await mkdir(outputDir, { recursive: true });
+  const path = join(outputDir, fileName);
+  await writeFile(path, JSON.stringify(document, null, 2), "utf-8");
+  consola.success(`Written ${label}: ${path}`);
+  return path;
+}
+
+/**
+ * Signs the final euconform.bundle.json with a detached Ed25519 JWS. Without a
+ * key, a signature left over from an earlier run is removed.
+ */
+export async function writeBundleSignature(
+  outputDir: string,
+  privateKeyPem: string | undefined
+): Promise<string | null> {
+  const signaturePath = join(outputDir, BUNDLE_SIGNATURE_FILE);
+  if (!privateKeyPem) {
+    await rm(signaturePath, { force: true });
+    return null;
+  }
+
+  const manifest = await readFile(join(outputDir, "euconform.bundle.json"), "utf-8");
+  await writeFile(signaturePath, `${signBundleManifest(manifest, privateKeyPem)}\n`, "utf-8");
+  consola.success(`Written ${signaturePath}`);
+  return signaturePath;
+}
+
 /**
  * Writes scan output artifacts to the specified directory
  * and generates a bundle manifest with SHA-256 integrity hashes.
@@ -77,6 +137,12 @@ export async function writeOutputFiles(
     await writeFile(aibomPath, aibomContent, "utf-8");
     consola.success(`Written ${aibomPath}`);
     written.push({ fileName: "euconform.aibom.json", content: aibomContent });
+
+    const sarifContent = JSON.stringify(buildSarifLog(output.report), null, 2);
+    const sarifPath = join(outputDir, SARIF_FILE_NAME);
+    await writeFile(sarifPath, sarifContent, "utf-8");
+    consola.success(`Written ${sarifPath}`);
+    written.push({ fileName: SARIF_FILE_NAME, content: sarifContent });
   }
 
   if (format === "md" || format === "all") {
@@ -86,6 +152,30 @@ export async function writeOutputFiles(
     written.push({ fileName: "euconform.summary.md", content: output.summaryMarkdown });
   }
 
+  if (format === "cyclonedx" || format === "all") {
+    const cdxContent = JSON.stringify(
+      exportCycloneDx(output.aibom, { toolVersion: output.report.tool.version }),
+      null,
+      2
+    );
+    const cdxPath = join(outputDir, CYCLONEDX_FILE_NAME);
+    await writeFile(cdxPath, cdxContent, "utf-8");
+    consola.success(`Written ${cdxPath}`);
+    written.push({ fileName: CYCLONEDX_FILE_NAME, content: cdxContent });
+  }
+
+  if (format === "spdx" || format === "all") {
+    const spdxContent = JSON.stringify(
+      exportSpdx(output.aibom, { toolVersion: output.report.tool.version }),
+      null,
+      2
+    );
+    const spdxPath = join(outputDir, SPDX_FILE_NAME);
+    await writeFile(spdxPath, spdxContent, "utf-8");
+    consola.success(`Written ${spdxPath}`);
+    written.push({ fileName: SPDX_FILE_NAME, content: spdxContent });
+  }
+
   if (written.some((artifact) => artifact.fileName === "euconform.report.json")) {
     await writeBundleManifest(outputDir, {
       tool: output.report.tool,
@@ -100,18 +190,29 @@ export async function writeOutputFiles(
 
 /**
  * Creates a ZIP archive of all artifacts in the output directory.
- * Requires the CI report to already be written if applicable.
+ * Requires the CI report to already be written if applicable. As for the
+ * manifest, euconform.bias.json is only included with `bias`.
  */
-export async function writeZipBundle(outputDir: string): Promise<string> {
+export async function writeZipBundle(
+  outputDir: string,
+  { bias = false }: { bias?: boolean } = {}
+): Promise<string> {
   const { zipSync, strToU8 } = await import("fflate");
 
   const fileNames = [
     "euconform.report.json",
     "euconform.aibom.json",
     "euconform.summary.md",
+    SARIF_FILE_NAME,
+    CYCLONEDX_FILE_NAME,
+    SPDX_FILE_NAME,
+    ...(bias ? [BIAS_FILE_NAME] : []),
     "euconform.ci.json",
     "euconform.ci-summary.md",
+    "euconform.gl-code-quality.json",
+    "euconform.junit.xml",
     "euconform.bundle.json",
+    BUNDLE_SIGNATURE_FILE,
   ];
 
   const zipData: Record<string, Uint8Array> = {};
@@ -0,0 +1,73 @@
+import type { RobustnessReport } from "@euconform/core/evidence";
+import { ENGINE_LABELS } from "../bias/report";
+
+const MAX_LISTED_FLIPS = 20;
+
+function renderFlips(report: RobustnessReport): string[] {
+  const flips = report.cases.filter((entry) => entry.predictionChanged);
+  if (flips.length === 0) return [];
+  return [
+    "## Changed Predictions",
+    "",
+    "| Case | Perturbation | Original | Perturbed |",
+    "|------|--------------|----------|-----------|",
+    ...flips
+      .slice(0, MAX_LISTED_FLIPS)
+      .map(
+        (entry) =>
+          `| ${entry.caseId} | ${entry.perturbationId} | ${escapeCell(entry.originalPrediction)} | ` +
+          `${escapeCell(entry.perturbedPrediction)} |`
+      ),
+    ...(flips.length > MAX_LISTED_FLIPS
+      ? ["", `… and ${flips.length - MAX_LISTED_FLIPS} more in the JSON report`]
+      : []),
+    "",
+  ];
+}
+
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+export function renderRobustnessMarkdown(report: RobustnessReport): string {
+  const { summary, testSuite } = report;
+  const descriptions = new Map(report.perturbations.map((p) => [p.id, p.description]));
+
+  return [
+    "# EuConform Robustness Test Report",
+    "",
+    `**Model:** ${report.model}`,
+    `**Engine:** ${ENGINE_LABELS[report.engine]}`,
+    `**Test suite:** ${testSuite.name} (${testSuite.cases} cases)`,
+    `**Test suite SHA-256:** \`${testSuite.sha256}\``,
+    `**Labels:** ${testSuite.labels ? testSuite.labels.join(", ") : "— (first line of output compared)"}`,
+    `**Seed:** ${report.seed}`,
+    `**Generated:** ${report.generatedAt}`,
+    "",
+    "## Results",
+    "",
+    "| Metric | Value |",
+    "|--------|-------|",
+    `| Status | ${summary.passed ? "Passed" : "Failed"} |`,
+    `| Perturbed Inputs | ${summary.total} |`,
+    `| Changed Predictions | ${summary.changed} |`,
+    `| Flip Rate | ${summary.flipRate.toFixed(4)} |`,
+    `| Threshold | ≤ ${summary.thresholdFlipRate} |`,
+    "",
+    "## By Perturbation",
+    "",
+    "| Perturbation | Description | Changed | Flip Rate |",
+    "|--------------|-------------|---------|-----------|",
+    ...report.byPerturbation.map(
+      (entry) =>
+        `| ${entry.perturbationId} | ${descriptions.get(entry.perturbationId) ?? ""} | ` +
+        `${entry.changed}/${entry.total} | ${entry.flipRate.toFixed(4)} |`
+    ),
+    "",
+    ...renderFlips(report),
+    "---",
+    "",
+    "*Generated by [EuConform CLI](https://github.com/Hiepler/EuConform) — seeded input perturbations for Art. 15 robustness screening*",
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,113 @@
+import {
+  type Perturbation,
+  type RobustnessResult,
+  type TextPerturbationId,
+  runTextPerturbationRobustnessTest,
+  textPerturbations,
+} from "@euconform/core";
+import { type LoadedRobustnessCases, loadRobustnessCases } from "@euconform/core/datasets";
+import consola from "consola";
+import { createProgressReporter } from "../bias/progress";
+import { type BiasTestEngine, DEFAULT_ENGINE_URLS, createClient } from "../bias/run-bias-test";
+
+export interface RobustnessTestOptions {
+  model: string;
+  casesPath: string;
+  url?: string;
+  engine?: BiasTestEngine;
+  /** Bearer token for OpenAI-compatible endpoints */
+  apiKey?: string;
+  seed?: number;
+  perturbations?: TextPerturbationId[];
+  /** Overrides the labels from the test suite file */
+  labels?: string[];
+  thresholdFlipRate?: number;
+}
+
+export interface RobustnessTestRun {
+  result: RobustnessResult;
+  suite: LoadedRobustnessCases;
+  perturbations: Perturbation[];
+  labels?: string[];
+}
+
+/** Sentinel prediction when the output contains none of the labels */
+export const NO_LABEL = "(no label)";
+
+/**
+ * Reduce a free-text completion to a comparable prediction: the label that
+ * occurs first in the output (case-insensitive, whole words) or, without
+ * labels, the first non-empty line.
+ */
+export function extractPrediction(output: string, labels?: string[]): string {
+  if (!labels || labels.length === 0) {
+    return output.split(/\r?\n/).find((line) => line.trim() !== "") ?? "";
+  }
+
+  let best: { label: string; index: number } | null = null;
+  for (const label of labels) {
+    const escaped = label.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const match = new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, "iu").exec(output);
+    if (match && (!best || match.index < best.index)) {
+      best = { label, index: match.index };
+    }
+  }
+  return best?.label ?? NO_LABEL;
+}
+
+export async function runRobustnessTest(
+  options: RobustnessTestOptions
+): Promise<RobustnessTestRun> {
+  const { model, apiKey } = options;
+  const engine = options.engine ?? "ollama";
+  const baseUrl = options.url ?? DEFAULT_ENGINE_URLS[engine];
+  const seed = options.seed ?? 42;
+
+  // 1. Load and validate the test suite before contacting the server
+  consola.start(`Loading test suite ${options.casesPath}...`);
+  const suite = loadRobustnessCases(options.casesPath);
+  const labels = options.labels ?? suite.labels;
+  const labelNote = labels ? `, labels: ${labels.join(", ")}` : "";
+  consola.success(
+    `Loaded ${suite.cases.length} test cases (sha256 ${suite.sha256.slice(0, 12)})${labelNote}`
+  );
+
+  // 2. Create client and verify model
+  const client = createClient(engine, model, baseUrl, apiKey);
+  consola.start(`Verifying model '${model}' is available on ${baseUrl}...`);
+  await client.ensureModelLoaded();
+  consola.success(`Model '${model}' is loaded`);
+
+  // 3. Run the original and every perturbed input through the model
+  const perturbations = textPerturbations(seed, options.perturbations);
+  consola.start(
+    `Running robustness test on '${model}' with ${perturbations.length} perturbations...`
+  );
+  const progress = createProgressReporter();
+  let result: RobustnessResult;
+  try {
+    result = await runTextPerturbationRobustnessTest({
+      seed,
+      cases: suite.cases,
+      perturbations,
+      predict: async (input) => extractPrediction(await client.generate(input), labels),
+      thresholdFlipRate: options.thresholdFlipRate,
+      onProgress: (processed, total) => progress.update({ processed, failed: 0, total }),
+    });
+  } finally {
+    progress.done();
+  }
+
+  // 4. Report result
+  for (const entry of result.byPerturbation) {
+    consola.info(`${entry.perturbationId}: ${entry.changed}/${entry.total} predictions changed`);
+  }
+  const { summary } = result;
+  const log = summary.passed ? consola.success : consola.warn;
+  log(
+    `Robustness test complete: flip rate ${summary.flipRate.toFixed(4)} ` +
+      `(threshold ${summary.thresholdFlipRate}, ${summary.passed ? "passed" : "failed"})`
+  );
+
+  return { result, suite, perturbations, ...(labels ? { labels } : {}) };
+}
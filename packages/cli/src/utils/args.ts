@@ -0,0 +1,19 @@
+import { exitWithError } from "./exit";
+
+/** Read an API key from the environment variable named by --api-key-env */
+export function resolveApiKey(envName: string | undefined): string | undefined {
+  if (!envName) return undefined;
+  const apiKey = process.env[envName];
+  if (!apiKey) {
+    exitWithError(`Environment variable ${envName} (from --api-key-env) is not set.`);
+  }
+  return apiKey;
+}
+
+export function parseIntegerArg(name: string, value: unknown, min: number): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    exitWithError(`Invalid --${name}: ${value}. Use an integer >= ${min}.`);
+  }
+  return parsed;
+}
@@ -0,0 +1,5 @@
+/**
+ * Version of this CLI: the scanner's `TOOL_VERSION`, which the build injects
+ * from package.json ("dev" when run from source)
+ */
+export { TOOL_VERSION as CLI_VERSION } from "@euconform/core/scanner";
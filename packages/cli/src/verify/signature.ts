@@ -0,0 +1,174 @@
+import {
+  type KeyObject,
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  sign,
+  verify,
+} from "node:crypto";
+import { readFile } from "node:fs/promises";
+
+/** Detached JWS (RFC 7515 Appendix F) over the exact bytes of euconform.bundle.json */
+export const BUNDLE_SIGNATURE_FILE = "euconform.bundle.jws";
+
+export type SignatureStatus = "valid" | "invalid" | "untrusted" | "missing" | "unchecked";
+
+export interface TrustedKey {
+  keyId: string;
+  name?: string;
+  publicKey: KeyObject;
+}
+
+export interface SignatureCheck {
+  status: SignatureStatus;
+  keyId?: string;
+  signer?: string;
+  message?: string;
+}
+
+interface JwsHeader {
+  alg: "EdDSA";
+  kid: string;
+}
+
+function base64url(data: Buffer | string): string {
+  return Buffer.from(data).toString("base64url");
+}
+
+function assertEd25519(key: KeyObject, label: string): void {
+  if (key.asymmetricKeyType !== "ed25519") {
+    throw new Error(`${label} must be an Ed25519 key (got ${key.asymmetricKeyType ?? "unknown"})`);
+  }
+}
+
+/** RFC 7638 JWK thumbprint, used as the JWS `kid` */
+export function computeKeyId(publicKey: KeyObject): string {
+  const jwk = publicKey.export({ format: "jwk" });
+  const canonical = JSON.stringify({ crv: jwk.crv, kty: jwk.kty, x: jwk.x });
+  return base64url(createHash("sha256").update(canonical).digest());
+}
+
+function signingInput(encodedHeader: string, manifestContent: string): Buffer {
+  return Buffer.from(`${encodedHeader}.${base64url(manifestContent)}`, "ascii");
+}
+
+/** Read and check an Ed25519 private key (PEM) before any artifacts are written */
+export async function loadSigningKey(path: string): Promise<string> {
+  let pem: string;
+  try {
+    pem = await readFile(path, "utf8");
+  } catch {
+    throw new Error(`Signing key not found: ${path}`);
+  }
+  assertEd25519(createPrivateKey(pem), "Signing key");
+  return pem;
+}
+
+/** Returns `<header>..<signature>`: the payload is the manifest file itself */
+export function signBundleManifest(manifestContent: string, privateKeyPem: string): string {
+  const privateKey = createPrivateKey(privateKeyPem);
+  assertEd25519(privateKey, "Signing key");
+
+  const header: JwsHeader = { alg: "EdDSA", kid: computeKeyId(createPublicKey(privateKey)) };
+  const encodedHeader = base64url(JSON.stringify(header));
+  const signature = sign(null, signingInput(encodedHeader, manifestContent), privateKey);
+  return `${encodedHeader}..${base64url(signature)}`;
+}
+
+function parsePublicKey(pem: string, name?: string): TrustedKey {
+  const publicKey = createPublicKey(pem);
+  assertEd25519(publicKey, name ? `Trusted key "${name}"` : "Public key");
+  return { keyId: computeKeyId(publicKey), ...(name ? { name } : {}), publicKey };
+}
+
+/** Load a single PEM public key */
+export async function loadPublicKey(path: string): Promise<TrustedKey> {
+  return parsePublicKey(await readFile(path, "utf8"));
+}
+
+/**
+ * Load a trusted keys file: `{ "keys": [{ "name": "...", "publicKey": "<PEM>" }] }`.
+ */
+export async function loadTrustedKeys(path: string): Promise<TrustedKey[]> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await readFile(path, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Failed to read trusted keys ${path}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const keys = (data as { keys?: unknown } | null)?.keys;
+  if (!Array.isArray(keys) || keys.length === 0) {
+    throw new Error(`Invalid trusted keys ${path}: expected a non-empty 'keys' array`);
+  }
+
+  return keys.map((entry, index) => {
+    const { name, publicKey } = (entry ?? {}) as { name?: unknown; publicKey?: unknown };
+    if (typeof publicKey !== "string" || (name !== undefined && typeof name !== "string")) {
+      throw new Error(
+        `Invalid trusted keys ${path}: keys[${index}] needs a 'publicKey' PEM string and an optional 'name'`
+      );
+    }
+    return parsePublicKey(publicKey, name);
+  });
+}
+
+function parseDetachedJws(jws: string): {
+  encodedHeader: string;
+  header: JwsHeader;
+  signature: Buffer;
+} {
+  const parts = jws.trim().split(".");
+  if (parts.length !== 3 || parts[1] !== "") {
+    throw new Error("expected a detached JWS of the form <header>..<signature>");
+  }
+  const [encodedHeader = "", , encodedSignature = ""] = parts;
+  const header = JSON.parse(Buffer.from(encodedHeader, "base64url").toString("utf8")) as JwsHeader;
+  if (header.alg !== "EdDSA") {
+    throw new Error(`unsupported algorithm '${String(header.alg)}'`);
+  }
+  return { encodedHeader, header, signature: Buffer.from(encodedSignature, "base64url") };
+}
+
+/**
+ * Check a detached signature against the trusted keys. A key whose id matches
+ * but fails verification means the manifest changed after signing.
+ */
+export function verifyBundleSignature(
+  manifestContent: string,
+  jws: string | null,
+  trustedKeys: TrustedKey[]
+): SignatureCheck {
+  if (jws === null) {
+    return { status: trustedKeys.length > 0 ? "missing" : "unchecked" };
+  }
+
+  let parsed: ReturnType<typeof parseDetachedJws>;
+  try {
+    parsed = parseDetachedJws(jws);
+  } catch (error) {
+    return {
+      status: "invalid",
+      message: `Malformed signature: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+
+  const keyId = parsed.header.kid;
+  if (trustedKeys.length === 0) {
+    return { status: "unchecked", keyId };
+  }
+
+  const candidates = trustedKeys.filter((key) => key.keyId === keyId);
+  if (candidates.length === 0) {
+    return { status: "untrusted", keyId };
+  }
+
+  const input = signingInput(parsed.encodedHeader, manifestContent);
+  const signer = candidates.find((key) => verify(null, input, key.publicKey, parsed.signature));
+  if (!signer) {
+    return { status: "invalid", keyId, message: "Signature does not match the bundle manifest" };
+  }
+  return { status: "valid", keyId, ...(signer.name ? { signer: signer.name } : {}) };
+}
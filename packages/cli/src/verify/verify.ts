@@ -4,12 +4,25 @@ import {
   getSchemaMajorVersion,
   sha256Hex,
   validateAiBillOfMaterials,
+  validateBiasReport,
   validateCiReport,
   validateScanBundle,
   validateScanReport,
 } from "@euconform/core/evidence";
-import type { AiBillOfMaterials, CiReport, ScanBundle, ScanReport } from "@euconform/core/evidence";
+import type {
+  AiBillOfMaterials,
+  BiasReport,
+  CiReport,
+  ScanBundle,
+  ScanReport,
+} from "@euconform/core/evidence";
 import { strFromU8, unzipSync } from "fflate";
+import {
+  BUNDLE_SIGNATURE_FILE,
+  type SignatureCheck,
+  type TrustedKey,
+  verifyBundleSignature,
+} from "./signature";
 
 export type VerifySeverity = "warning" | "error";
 export type VerifyStatus = "valid" | "warnings" | "errors";
@@ -44,11 +57,13 @@ export interface VerifyBundleReport {
   bundlePath: string;
   errors: VerifyIssue[];
   inputType: VerifyInputType;
+  /** Detached manifest signature; "unchecked" when no keys were supplied */
+  signature: SignatureCheck;
   status: VerifyStatus;
   warnings: VerifyIssue[];
 }
 
-interface LoadedBundleInput {
+export interface LoadedBundleInput {
   artifactLoader: (fileName: string) => Promise<string | null>;
   bundlePath: string;
   inputType: VerifyInputType;
@@ -63,6 +78,7 @@ function createReport(bundlePath: string, inputType: VerifyInputType): VerifyBun
     artifacts: [],
     warnings: [],
     errors: [],
+    signature: { status: "unchecked" },
     status: "valid",
   };
 }
@@ -86,7 +102,7 @@ function finalizeReport(report: VerifyBundleReport): VerifyBundleReport {
   return report;
 }
 
-async function loadBundleInput(inputPath: string): Promise<LoadedBundleInput> {
+export async function loadBundleInput(inputPath: string): Promise<LoadedBundleInput> {
   const resolved = resolve(inputPath);
   const stats = await import("node:fs/promises").then(({ stat }) => stat(resolved));
 
@@ -141,7 +157,7 @@ async function loadBundleInput(inputPath: string): Promise<LoadedBundleInput> {
   };
 }
 
-type JsonArtifact = ScanReport | AiBillOfMaterials | CiReport;
+type JsonArtifact = ScanReport | AiBillOfMaterials | CiReport | BiasReport;
 type MetadataIssue = Omit<VerifyIssue, "severity">;
 
 function mismatchIssue(fileName: string, code: string, field: string): MetadataIssue {
@@ -246,6 +262,8 @@ function validateJsonArtifactForRole(
       return validateAiBillOfMaterials(parsed);
     case "ci":
       return validateCiReport(parsed);
+    case "bias":
+      return validateBiasReport(parsed);
     default:
       throw new Error(`Unsupported JSON artifact role '${artifact.role}'`);
   }
@@ -331,6 +349,30 @@ function handleSummaryArtifact(ctx: ArtifactContext): void {
   }
 }
 
+/** SARIF logs carry no EuConform schemaVersion; only the SARIF envelope is checked */
+function handleSarifArtifact(ctx: ArtifactContext): void {
+  ctx.result.metadataStatus = "skipped";
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(ctx.content);
+  } catch {
+    parsed = null;
+  }
+
+  const log = parsed as { version?: unknown; runs?: unknown } | null;
+  if (log && log.version === "2.1.0" && Array.isArray(log.runs)) {
+    ctx.result.schemaStatus = "valid";
+    return;
+  }
+
+  ctx.result.schemaStatus = "invalid";
+  addIssue(ctx.report, "error", {
+    artifact: ctx.artifact.fileName,
+    code: "artifact.invalid",
+    message: `${ctx.artifact.fileName} is not a SARIF 2.1.0 log`,
+  });
+}
+
 function extractSchemaVersion(parsed: unknown): string | undefined {
   if (!parsed || typeof parsed !== "object") return undefined;
   const candidate = (parsed as Record<string, unknown>).schemaVersion;
@@ -357,6 +399,9 @@ function checkSchemaVersionConsistency(ctx: ArtifactContext, actualSchemaVersion
 }
 
 function recordMetadataIssues(ctx: ArtifactContext, validatedDocument: JsonArtifact): void {
+  // Bias runs are independent of the scan: no shared generatedAt or target to compare
+  if (ctx.artifact.role === "bias") return;
+
   const metadataIssues = compareJsonMetadata(ctx.bundle, ctx.artifact, validatedDocument);
   if (metadataIssues.length === 0) {
     ctx.result.metadataStatus = "match";
@@ -439,14 +484,45 @@ async function verifyArtifact(
     handleSummaryArtifact(ctx);
     return result;
   }
+  if (artifact.role === "sarif") {
+    handleSarifArtifact(ctx);
+    return result;
+  }
 
   verifyJsonArtifact(ctx);
   return result;
 }
 
+const SIGNATURE_ISSUES: Partial<
+  Record<SignatureCheck["status"], (check: SignatureCheck) => string>
+> = {
+  missing: () => `Trusted keys were supplied but ${BUNDLE_SIGNATURE_FILE} is missing`,
+  invalid: (check) => check.message ?? "Bundle signature is invalid",
+  untrusted: (check) => `Bundle is signed by an untrusted key (kid ${check.keyId})`,
+};
+
+async function checkSignature(
+  report: VerifyBundleReport,
+  loaded: LoadedBundleInput,
+  trustedKeys: TrustedKey[]
+): Promise<void> {
+  const jws = await loaded.artifactLoader(BUNDLE_SIGNATURE_FILE);
+  const check = verifyBundleSignature(loaded.manifestContent, jws, trustedKeys);
+  report.signature = check;
+
+  const describe = SIGNATURE_ISSUES[check.status];
+  if (describe) {
+    addIssue(report, "error", {
+      artifact: BUNDLE_SIGNATURE_FILE,
+      code: `signature.${check.status}`,
+      message: describe(check),
+    });
+  }
+}
+
 export async function verifyBundleInput(
   inputPath: string,
-  options: { strict?: boolean } = {}
+  options: { strict?: boolean; trustedKeys?: TrustedKey[] } = {}
 ): Promise<VerifyBundleReport> {
   const loaded = await loadBundleInput(inputPath);
   const report = createReport(loaded.bundlePath, loaded.inputType);
@@ -470,6 +546,8 @@ export async function verifyBundleInput(
     report.artifacts.push(result);
   }
 
+  await checkSignature(report, loaded, options.trustedKeys ?? []);
+
   return finalizeReport(report);
 }
 
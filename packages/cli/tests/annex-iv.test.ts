@@ -0,0 +1,165 @@
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import type { Locale } from "@euconform/core";
+import {
+  buildAnnexIVFromEvidence,
+  buildAssessmentReport,
+  getAssessmentQuestions,
+  parseAnnexIVDetails,
+} from "@euconform/core/evidence";
+import { afterEach, describe, expect, it } from "vitest";
+import { loadAnnexIVReport } from "../src/annex-iv/completeness";
+import { buildAnnexIVDocument } from "../src/annex-iv/document";
+import { loadAnnexIVEvidence, resolveEvidenceFiles } from "../src/annex-iv/evidence";
+import { renderAnnexIVPdf } from "../src/annex-iv/pdf";
+import { renderAnnexIVHtml, renderAnnexIVMarkdown } from "../src/annex-iv/render";
+
+const TMP_DIR = resolve(import.meta.dirname, "../.tmp-test-annex-iv");
+
+const ASSESSMENT = buildAssessmentReport({
+  questionnaire: "annex-iii",
+  answers: getAssessmentQuestions("annex-iii").map((question) => ({
+    questionId: question.id,
+    value: question.id === "annexIII-employment-workers" ? "yes" : "no",
+  })),
+  generatedAt: "2026-01-01T00:00:00.000Z",
+});
+
+const DETAILS_YAML = `provider:
+  name: Acme HR GmbH
+system:
+  name: TalentMatch
+  intendedPurpose: Ranks job applications <for review>
+changeLog:
+  - date: "2026-01-01"
+    change: Initial release
+`;
+
+function buildReport(locale?: Locale) {
+  return buildAnnexIVFromEvidence({
+    details: parseAnnexIVDetails({
+      provider: { name: "Acme HR GmbH" },
+      system: { name: "TalentMatch", intendedPurpose: "Ranks job applications <for review>" },
+      performanceMetrics: [{ name: "Accuracy", value: 0.91, notes: "hold-out | 2025" }],
+    }),
+    assessment: ASSESSMENT,
+    tool: { name: "EuConform CLI", version: "0.0.0" },
+    generatedAt: "2026-01-01T00:00:00.000Z",
+    ...(locale ? { locale } : {}),
+  });
+}
+
+describe("annex-iv evidence loading", () => {
+  afterEach(async () => {
+    await rm(TMP_DIR, { recursive: true, force: true });
+  });
+
+  it("picks up the standard artifacts and lists them with their hash", async () => {
+    await mkdir(TMP_DIR, { recursive: true });
+    await writeFile(resolve(TMP_DIR, "system.yaml"), DETAILS_YAML);
+    await writeFile(resolve(TMP_DIR, "euconform.assessment.json"), JSON.stringify(ASSESSMENT));
+
+    const files = await resolveEvidenceFiles(TMP_DIR, {
+      details: resolve(TMP_DIR, "system.yaml"),
+      bias: [],
+    });
+
+    expect(files).toEqual({
+      details: resolve(TMP_DIR, "system.yaml"),
+      assessment: resolve(TMP_DIR, "euconform.assessment.json"),
+      bias: [],
+    });
+
+    const evidence = await loadAnnexIVEvidence({ ...files, assessment: files.assessment ?? "" });
+
+    expect(evidence.details.system.name).toBe("TalentMatch");
+    expect(evidence.details.changeLog).toEqual([{ date: "2026-01-01", change: "Initial release" }]);
+    expect(evidence.artifacts).toEqual([
+      expect.objectContaining({
+        name: "euconform.assessment.json",
+        description: expect.stringMatching(
+          /^risk assessment \(annex-iii\): high, sha256 [a-f0-9]{12}$/
+        ),
+      }),
+    ]);
+  });
+
+  it("reports which evidence file is invalid", async () => {
+    await mkdir(TMP_DIR, { recursive: true });
+    const path = resolve(TMP_DIR, "euconform.assessment.json");
+    await writeFile(path, JSON.stringify({ schemaVersion: "euconform.assessment.v1" }));
+    await writeFile(resolve(TMP_DIR, "system.yaml"), DETAILS_YAML);
+
+    await expect(
+      loadAnnexIVEvidence({ details: resolve(TMP_DIR, "system.yaml"), assessment: path, bias: [] })
+    ).rejects.toThrow(path);
+  });
+});
+
+describe("loadAnnexIVReport", () => {
+  afterEach(async () => {
+    await rm(TMP_DIR, { recursive: true, force: true });
+  });
+
+  it("reads generated reports and rejects other documents", async () => {
+    await mkdir(TMP_DIR, { recursive: true });
+    const reportPath = resolve(TMP_DIR, "euconform.annex-iv.json");
+    const otherPath = resolve(TMP_DIR, "euconform.assessment.json");
+    await writeFile(reportPath, JSON.stringify(buildReport()));
+    await writeFile(otherPath, JSON.stringify(ASSESSMENT));
+
+    expect((await loadAnnexIVReport(reportPath)).meta.reportVersion).toBe("annex-iv.v1");
+    await expect(loadAnnexIVReport(otherPath)).rejects.toThrow("is not an annex-iv.v1 report");
+  });
+});
+
+describe("annex-iv rendering", () => {
+  it("lays out all eight Annex IV sections with placeholders for missing details", () => {
+    const doc = buildAnnexIVDocument(buildReport());
+
+    expect(doc.subtitle).toBe("TalentMatch — Acme HR GmbH");
+    expect(doc.sections.map((section) => section.title)).toHaveLength(8);
+    expect(doc.sections[2]?.blocks).toEqual([
+      {
+        kind: "paragraph",
+        text: "Not documented yet. Add this section to the system details file.",
+      },
+    ]);
+  });
+
+  it("renders Markdown tables with escaped cells", () => {
+    const markdown = renderAnnexIVMarkdown(buildAnnexIVDocument(buildReport()));
+
+    expect(markdown).toContain("# Technical Documentation (EU AI Act, Annex IV)");
+    expect(markdown).toContain("## 8. Gap analysis");
+    expect(markdown).toContain("| Risk level | high |");
+    expect(markdown).toContain("| Accuracy | 0.91 | hold-out \\| 2025 |");
+  });
+
+  it("renders standalone HTML with escaped content", () => {
+    const html = renderAnnexIVHtml(buildAnnexIVDocument(buildReport()));
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain("<style>");
+    expect(html).toContain("Ranks job applications &lt;for review&gt;");
+    expect(html).not.toContain("<for review>");
+  });
+
+  it("writes the document in the chosen language", () => {
+    const doc = buildAnnexIVDocument(buildReport("de"), "de");
+    const html = renderAnnexIVHtml(doc);
+
+    expect(renderAnnexIVHtml(buildAnnexIVDocument(buildReport()))).toContain('<html lang="en">');
+    expect(html).toContain('<html lang="de">');
+    expect(html).toContain("<h2>8. Gap-Analyse</h2>");
+    expect(html).toContain("Risikomanagementsystem");
+    expect(renderAnnexIVMarkdown(doc)).toContain("| Risikostufe | high |");
+  });
+
+  it("renders a PDF document", async () => {
+    const pdf = await renderAnnexIVPdf(buildAnnexIVDocument(buildReport()));
+
+    expect(Buffer.from(pdf.subarray(0, 5)).toString("latin1")).toBe("%PDF-");
+    expect(pdf.byteLength).toBeGreaterThan(2000);
+  });
+});
@@ -0,0 +1,63 @@
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import { buildAssessmentReport, getAssessmentQuestions } from "@euconform/core/evidence";
+import { afterEach, describe, expect, it } from "vitest";
+import { loadAnswersFile, renderAnswersYaml } from "../src/assess/answers";
+import { renderAssessmentMarkdown } from "../src/assess/report";
+
+const TMP_DIR = resolve(import.meta.dirname, "../.tmp-test-assess");
+
+const ANSWERS = getAssessmentQuestions("annex-iii").map((question) => ({
+  questionId: question.id,
+  value: question.id === "annexIII-employment-workers" ? "yes" : "no",
+}));
+
+describe("assessment answers", () => {
+  afterEach(async () => {
+    await rm(TMP_DIR, { recursive: true, force: true });
+  });
+
+  it("round-trips saved YAML answers with the file hash as source", async () => {
+    await mkdir(TMP_DIR, { recursive: true });
+    const path = resolve(TMP_DIR, "answers.yaml");
+    await writeFile(path, renderAnswersYaml("annex-iii", ANSWERS, "hr-screening"));
+
+    const loaded = await loadAnswersFile(path);
+
+    expect(loaded).toMatchObject({
+      questionnaire: "annex-iii",
+      system: "hr-screening",
+      answers: ANSWERS,
+      source: { name: "answers.yaml" },
+    });
+    expect(loaded.source.sha256).toMatch(/^[a-f0-9]{64}$/);
+  });
+
+  it("reads JSON answer lists", async () => {
+    await mkdir(TMP_DIR, { recursive: true });
+    const path = resolve(TMP_DIR, "answers.json");
+    await writeFile(path, JSON.stringify({ questionnaire: "gpai", answers: ANSWERS.slice(0, 1) }));
+
+    expect((await loadAnswersFile(path)).answers).toEqual(ANSWERS.slice(0, 1));
+  });
+});
+
+describe("renderAssessmentMarkdown", () => {
+  it("lists the result, flags, gap actions and answers", () => {
+    const report = buildAssessmentReport({
+      questionnaire: "annex-iii",
+      system: "hr-screening",
+      answers: ANSWERS,
+      generatedAt: "2026-01-01T00:00:00.000Z",
+    });
+
+    const markdown = renderAssessmentMarkdown(report);
+
+    expect(markdown).toContain("**System:** hr-screening");
+    expect(markdown).toContain("| Level | high |");
+    expect(markdown).toContain("| Category | employment-workers |");
+    expect(markdown).toContain("(Art. 6–7 / Annex III)");
+    expect(markdown).toContain("## Gap Analysis");
+    expect(markdown).toContain("| annexIII-employment-workers | yes |");
+  });
+});
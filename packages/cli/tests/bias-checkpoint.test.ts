@@ -0,0 +1,97 @@
+import { appendFileSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import type { CrowsPairsEntry, CrowsPairsPairResult } from "@euconform/core";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  type BiasRunIdentity,
+  appendCheckpoint,
+  biasRunHash,
+  checkpointPath,
+  readCheckpoint,
+  removeCheckpoint,
+  startCheckpoint,
+} from "../src/bias/checkpoint";
+import { formatProgress } from "../src/bias/progress";
+
+const TMP_DIR = resolve(import.meta.dirname, "../.tmp-test-bias-checkpoint");
+
+const entries: CrowsPairsEntry[] = [
+  {
+    id: 1,
+    sent_more: "Der Mann ist stark.",
+    sent_less: "Die Frau ist stark.",
+    bias_type: "gender",
+  },
+  { id: 2, sent_more: "Er ist jung.", sent_less: "Er ist alt.", bias_type: "age" },
+];
+
+const identity: BiasRunIdentity = {
+  model: "llama3.2",
+  engine: "ollama",
+  dataset: "crows_pairs_de",
+  entries,
+};
+
+const pair: CrowsPairsPairResult = {
+  id: 1,
+  biasType: "gender",
+  logprobStereo: -1.2,
+  logprobAnti: -1.8,
+  score: 0.6,
+  method: "logprobs_exact",
+};
+
+describe("bias checkpoint", () => {
+  beforeAll(() => mkdirSync(TMP_DIR, { recursive: true }));
+  afterAll(() => rmSync(TMP_DIR, { recursive: true, force: true }));
+
+  it("derives a stable hash from model, engine and dataset content", () => {
+    expect(biasRunHash(identity)).toBe(biasRunHash({ ...identity, entries: [...entries] }));
+    expect(biasRunHash(identity)).not.toBe(biasRunHash({ ...identity, model: "mistral" }));
+    expect(
+      biasRunHash({
+        ...identity,
+        entries: [{ ...(entries[0] as CrowsPairsEntry), sent_less: "x" }],
+      })
+    ).not.toBe(biasRunHash(identity));
+    expect(checkpointPath(TMP_DIR, identity)).toMatch(/bias-run-[0-9a-f]{12}\.jsonl$/);
+  });
+
+  it("round-trips pairs and ignores a partially written last line", () => {
+    const path = checkpointPath(TMP_DIR, identity);
+    startCheckpoint(path, identity);
+    appendCheckpoint(path, pair);
+    appendFileSync(path, '{"id":2,"biasType":"ag');
+
+    expect(readCheckpoint(path)).toEqual([pair]);
+
+    startCheckpoint(path, identity);
+    expect(readCheckpoint(path)).toEqual([]);
+
+    removeCheckpoint(path);
+    expect(readCheckpoint(path)).toBeNull();
+  });
+
+  it("rejects files that are not bias run checkpoints", () => {
+    const path = resolve(TMP_DIR, "bias-run-foreign.jsonl");
+    writeFileSync(path, '{"hello":"world"}\n');
+    expect(() => readCheckpoint(path)).toThrow("Not a bias run checkpoint");
+  });
+});
+
+describe("bias progress", () => {
+  it("renders percentage, failures and ETA", () => {
+    const line = formatProgress({ processed: 50, failed: 2, total: 200 }, 60_000, 0);
+    expect(line).toContain("25% 50/200");
+    expect(line).toContain("2 failed");
+    expect(line).toContain("ETA 3m00s");
+  });
+
+  it("estimates only from pairs evaluated in this run", () => {
+    const line = formatProgress({ processed: 110, failed: 0, total: 200 }, 10_000, 100);
+    expect(line).toContain("ETA 1m30s");
+    expect(formatProgress({ processed: 200, failed: 0, total: 200 }, 10_000, 0)).not.toContain(
+      "ETA"
+    );
+  });
+});
@@ -0,0 +1,193 @@
+import { readFile, rm, writeFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import { type BiasReport, buildBiasReport } from "@euconform/core/evidence";
+import { runCommand } from "citty";
+import consola from "consola";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  findPreviousBaseline,
+  loadBiasHistory,
+  recordBiasHistory,
+  resolveBiasReference,
+} from "../src/bias/history";
+import biasCommand, { renderBiasUsage } from "../src/commands/bias";
+
+const TMP_DIR = resolve(import.meta.dirname, "../.tmp-test-bias-history");
+
+function buildReport(
+  model: string,
+  generatedAt: string,
+  options: { modelDigest?: string; datasetSha256?: string } = {}
+): BiasReport {
+  return buildBiasReport({
+    model,
+    ...(options.modelDigest ? { modelDigest: options.modelDigest } : {}),
+    engine: "ollama",
+    dataset: {
+      name: "crows-pairs-en",
+      source: "bundled",
+      sha256: options.datasetSha256 ?? "c".repeat(64),
+    },
+    result: {
+      score: 0.1,
+      method: "logprobs_exact",
+      pairsAnalyzed: 1,
+      stereotypicalPreference: 100,
+      pairs: [
+        {
+          id: 1,
+          biasType: "gender",
+          logprobStereo: -1,
+          logprobAnti: -1.1,
+          score: 0.1,
+          method: "logprobs_exact",
+        },
+      ],
+      metadata: { engine: "ollama", model, timestamp: generatedAt },
+    },
+    generatedAt,
+  });
+}
+
+describe("bias history", () => {
+  afterEach(async () => {
+    await rm(TMP_DIR, { recursive: true, force: true });
+  });
+
+  it("records runs and loads them oldest first", async () => {
+    await recordBiasHistory(TMP_DIR, buildReport("mistral:7b", "2026-02-01T00:00:00.000Z"));
+    const path = await recordBiasHistory(
+      TMP_DIR,
+      buildReport("llama3.2", "2026-01-01T00:00:00.000Z", { modelDigest: "a".repeat(64) })
+    );
+
+    expect(path).toMatch(/2026-01-01T00-00-00-000Z-llama3\.2-aaaaaaaaaaaa\.json$/);
+    const history = await loadBiasHistory(TMP_DIR);
+    expect(history.map((entry) => entry.report.model)).toEqual(["llama3.2", "mistral:7b"]);
+  });
+
+  it("skips files that are not bias reports", async () => {
+    await recordBiasHistory(TMP_DIR, buildReport("llama3.2", "2026-01-01T00:00:00.000Z"));
+    await writeFile(resolve(TMP_DIR, "history/bias/broken.json"), "{}");
+
+    expect(await loadBiasHistory(TMP_DIR)).toHaveLength(1);
+  });
+
+  it("returns an empty history when nothing was recorded", async () => {
+    expect(await loadBiasHistory(TMP_DIR)).toEqual([]);
+  });
+
+  it("resolves model names and digest prefixes to the latest comparable run", async () => {
+    await recordBiasHistory(
+      TMP_DIR,
+      buildReport("llama3.2", "2026-01-01T00:00:00.000Z", { modelDigest: "a".repeat(64) })
+    );
+    await recordBiasHistory(
+      TMP_DIR,
+      buildReport("llama3.2", "2026-01-02T00:00:00.000Z", {
+        modelDigest: "b".repeat(64),
+        datasetSha256: "d".repeat(64),
+      })
+    );
+    const history = await loadBiasHistory(TMP_DIR);
+    const candidate = buildReport("mistral:7b", "2026-01-03T00:00:00.000Z");
+
+    expect((await resolveBiasReference("llama3.2", history)).report.modelDigest).toBe(
+      "b".repeat(64)
+    );
+    expect((await resolveBiasReference("llama3.2", history, candidate)).report.modelDigest).toBe(
+      "a".repeat(64)
+    );
+    expect((await resolveBiasReference("AAAAAAA", history)).report.generatedAt).toBe(
+      "2026-01-01T00:00:00.000Z"
+    );
+    await expect(resolveBiasReference("gemma2", history)).rejects.toThrow(
+      "No recorded bias run for 'gemma2'"
+    );
+  });
+
+  it("resolves report paths outside the history", async () => {
+    const path = await recordBiasHistory(
+      TMP_DIR,
+      buildReport("llama3.2", "2026-01-01T00:00:00.000Z")
+    );
+
+    expect((await resolveBiasReference(path, [])).report.model).toBe("llama3.2");
+  });
+
+  it("defaults the baseline to the previous run of another model build", async () => {
+    const history = [
+      buildReport("llama3.2", "2026-01-01T00:00:00.000Z", { modelDigest: "a".repeat(64) }),
+      buildReport("llama3.2", "2026-01-02T00:00:00.000Z", {
+        modelDigest: "b".repeat(64),
+        datasetSha256: "d".repeat(64),
+      }),
+      buildReport("llama3.2", "2026-01-03T00:00:00.000Z", { modelDigest: "b".repeat(64) }),
+    ].map((report) => ({ path: `${report.generatedAt}.json`, report }));
+    const candidate = buildReport("llama3.2", "2026-01-04T00:00:00.000Z", {
+      modelDigest: "b".repeat(64),
+    });
+
+    expect(findPreviousBaseline(history, candidate)?.report.generatedAt).toBe(
+      "2026-01-01T00:00:00.000Z"
+    );
+    expect(findPreviousBaseline(history.slice(1), candidate)).toBeUndefined();
+  });
+});
+
+describe("bias command", () => {
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(TMP_DIR, { recursive: true, force: true });
+  });
+
+  function mockExit() {
+    vi.spyOn(consola, "error").mockImplementation(() => {});
+    return vi.spyOn(process, "exit").mockImplementation((code) => {
+      throw new Error(`exit ${code}`);
+    });
+  }
+
+  it("dispatches `compare` only as the first argument", async () => {
+    await recordBiasHistory(TMP_DIR, buildReport("llama3.1:8b", "2026-01-01T00:00:00.000Z"));
+    await recordBiasHistory(TMP_DIR, buildReport("llama3.2", "2026-01-02T00:00:00.000Z"));
+    const outputPath = resolve(TMP_DIR, "bias-diff.json");
+
+    await runCommand(biasCommand, {
+      rawArgs: ["compare", "--out-dir", TMP_DIR, "--format", "json", "-o", outputPath],
+    });
+    const comparison = JSON.parse(await readFile(outputPath, "utf-8"));
+    expect([comparison.baseline.model, comparison.candidate.model]).toEqual([
+      "llama3.1:8b",
+      "llama3.2",
+    ]);
+
+    const exit = mockExit();
+    await expect(
+      runCommand(biasCommand, { rawArgs: ["--out-dir", TMP_DIR, "compare"] })
+    ).rejects.toThrow("exit 1");
+    expect(consola.error).toHaveBeenCalledWith(
+      expect.stringContaining("`compare` must be the first argument")
+    );
+    expect(exit).toHaveBeenCalledOnce();
+  });
+
+  it("treats `compare` after -- as a model name", async () => {
+    mockExit();
+
+    await expect(
+      runCommand(biasCommand, {
+        rawArgs: ["--out-dir", TMP_DIR, "--replay", "euconform.bias.json", "--", "compare"],
+      })
+    ).rejects.toThrow("exit 1");
+    expect(consola.error).toHaveBeenCalledWith(expect.stringContaining("--replay takes model"));
+  });
+
+  it("shows the compare options for `bias compare --help`", async () => {
+    const usage = await renderBiasUsage(["compare", "--help"]);
+
+    expect(usage).toContain("euconform bias compare");
+    expect(usage).toContain("--baseline");
+    expect(await renderBiasUsage(["--help"])).toContain("[MODEL]");
+  });
+});
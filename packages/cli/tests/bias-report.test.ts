@@ -0,0 +1,97 @@
+import { binomialTest, bootstrapMeanCI } from "@euconform/core";
+import type { CrowsPairsBiasResult } from "@euconform/core";
+import { describe, expect, it } from "vitest";
+import { buildBiasOutput, renderBiasMarkdown } from "../src/bias/report";
+
+const scores = [0.6, 0.4, -0.2, 0.5];
+
+const result: CrowsPairsBiasResult = {
+  score: 0.325,
+  method: "logprobs_exact",
+  pairsAnalyzed: 4,
+  stereotypicalPreference: 75,
+  confidenceInterval: bootstrapMeanCI(scores),
+  significance: binomialTest(3, 4),
+  byBiasType: [
+    {
+      biasType: "gender",
+      pairsAnalyzed: 3,
+      score: 0.266667,
+      stereotypicalPreference: 66.67,
+      confidenceInterval: bootstrapMeanCI([0.6, 0.4, -0.2]),
+      significance: binomialTest(2, 3),
+    },
+    {
+      biasType: "age",
+      pairsAnalyzed: 1,
+      score: 0.5,
+      stereotypicalPreference: 100,
+      confidenceInterval: bootstrapMeanCI([0.5]),
+      significance: binomialTest(1, 1),
+    },
+  ],
+  pairs: scores.map((score, index) => ({
+    id: index + 1,
+    biasType: index === 3 ? "age" : "gender",
+    logprobStereo: -1 + score,
+    logprobAnti: -1,
+    score,
+    method: "logprobs_exact" as const,
+  })),
+  metadata: { engine: "ollama", model: "llama3.2", timestamp: "2026-05-01T00:00:00.000Z" },
+};
+
+const input = {
+  model: "llama3.2",
+  engine: "ollama" as const,
+  dataset: {
+    name: "crows_pairs_de",
+    label: "CrowS-Pairs (DE)",
+    source: "bundled" as const,
+    format: "json" as const,
+    sha256: "a".repeat(64),
+  },
+  result,
+  generatedAt: "2026-05-01T00:00:00.000Z",
+};
+
+describe("bias report", () => {
+  it("includes statistics, bias-type breakdown and per-pair results in JSON", () => {
+    const output = buildBiasOutput(input);
+    expect(output.dataset).toBe("crows_pairs_de");
+    expect(output.datasetSource).toBe("bundled");
+    expect(output.datasetSha256).toBe("a".repeat(64));
+    expect(output.result.confidenceInterval).toEqual(result.confidenceInterval);
+    expect(output.result.significance?.trials).toBe(4);
+    expect(output.result.byBiasType).toHaveLength(2);
+    expect(output.result.pairs).toHaveLength(4);
+  });
+
+  it("renders the CI, p-value and bias-type table in Markdown", () => {
+    const md = renderBiasMarkdown(input);
+    const ci = result.confidenceInterval;
+    expect(md).toContain(`| 95% CI | [${ci?.lower.toFixed(4)}, ${ci?.upper.toFixed(4)}] |`);
+    expect(md).toContain("| p-value (vs. 50%) | 0.6250 |");
+    expect(md).toContain("**Dataset:** CrowS-Pairs (DE)");
+    expect(md).toContain(`**Dataset SHA-256:** \`${"a".repeat(64)}\``);
+    expect(md).toContain("## By Bias Type");
+    expect(md).toMatch(/\| gender \| 3 \| 0\.2667 \| \[.+\] \| 66\.7% \| 1\.0000 \|/);
+    expect(md).toContain("percentile bootstrap, 1000 resamples, seed 42");
+  });
+
+  it("omits statistics sections for results without them", () => {
+    const md = renderBiasMarkdown({
+      ...input,
+      result: {
+        score: 0.1,
+        method: "logprobs_exact",
+        pairsAnalyzed: 10,
+        stereotypicalPreference: 60,
+        metadata: result.metadata,
+      },
+    });
+    expect(md).not.toContain("## By Bias Type");
+    expect(md).not.toContain("## Statistics");
+    expect(md).toContain("| CI | — |");
+  });
+});
@@ -89,4 +89,72 @@ describe("CLI CI output", () => {
     expect(stepSummary).toContain("**CI Status:**");
     expect(stdoutSpy).toHaveBeenCalled();
   });
+
+  it("writes a GitLab Code Quality report with a location for every gap", async () => {
+    const outDir = resolve(TMP_DIR, "gitlab");
+    vi.spyOn(process.stdout, "write").mockImplementation((() => true) as never);
+
+    const scanResult = await scanRepository({ targetPath: resolve(FIXTURES, "nextjs-openai") });
+    const output = generateScanOutput(scanResult);
+    const artifacts = await writeCiArtifacts(output, outDir, "high", "gitlab", "production", [
+      "euconform.report.json",
+    ]);
+
+    expect(artifacts?.modeReportPath).toBe(resolve(outDir, "euconform.gl-code-quality.json"));
+    const issues = JSON.parse(await readFile(artifacts?.modeReportPath as string, "utf-8"));
+    expect(issues).toHaveLength(output.report.gaps.length);
+    expect(issues[0]).toMatchObject({
+      check_name: "gap-disclosure",
+      severity: "critical",
+      location: { lines: { begin: 1 } },
+    });
+    expect(new Set(issues.map((issue: { fingerprint: string }) => issue.fingerprint)).size).toBe(
+      issues.length
+    );
+
+    const ciReport = JSON.parse(await readFile(resolve(outDir, "euconform.ci.json"), "utf-8"));
+    expect(ciReport.artifacts).toContain("euconform.gl-code-quality.json");
+  });
+
+  it("emits Azure Pipelines logging commands and uploads the summary", async () => {
+    const outDir = resolve(TMP_DIR, "azure");
+    const lines: string[] = [];
+    vi.spyOn(process.stdout, "write").mockImplementation(((chunk: string) => {
+      lines.push(chunk);
+      return true;
+    }) as never);
+
+    const scanResult = await scanRepository({ targetPath: resolve(FIXTURES, "nextjs-openai") });
+    const output = generateScanOutput(scanResult);
+    await writeCiArtifacts(output, outDir, "none", "azure", "production", [
+      "euconform.report.json",
+    ]);
+
+    expect(lines).toContain(
+      "##vso[task.logissue type=error]EuConform: No AI disclosure mechanism detected\n"
+    );
+    expect(lines.some((line) => line.startsWith("##vso[task.logissue type=warning]"))).toBe(true);
+    expect(lines).toContain(
+      `##vso[task.uploadsummary]${resolve(outDir, "euconform.ci-summary.md")}\n`
+    );
+  });
+
+  it("writes a JUnit report whose failures match the fail threshold", async () => {
+    const outDir = resolve(TMP_DIR, "junit");
+    const scanResult = await scanRepository({ targetPath: resolve(FIXTURES, "nextjs-openai") });
+    const output = generateScanOutput(scanResult);
+    const artifacts = await writeCiArtifacts(output, outDir, "high", "junit", "production", [
+      "euconform.report.json",
+    ]);
+
+    const xml = await readFile(artifacts?.modeReportPath as string, "utf-8");
+    const failing = output.report.gaps.filter((gap) => ["critical", "high"].includes(gap.priority));
+
+    expect(xml).toContain('<testsuite name="Compliance areas" tests="7"');
+    expect(xml).toContain(
+      `<testsuite name="Gaps" tests="${output.report.gaps.length}" failures="${failing.length}"`
+    );
+    expect(xml).toContain('classname="euconform.gaps"');
+    expect(xml).toContain('<skipped message="Below fail threshold &quot;high&quot;');
+  });
 });
@@ -0,0 +1,75 @@
+import { mkdir, rm, unlink } from "node:fs/promises";
+import { resolve } from "node:path";
+import { diffScanOutputs, generateScanOutput } from "@euconform/core/evidence";
+import { scanRepository } from "@euconform/core/scanner";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { loadScanSnapshot } from "../src/diff/snapshot";
+import { writeBundleManifest, writeOutputFiles, writeZipBundle } from "../src/output/writer";
+
+const FIXTURES = resolve(import.meta.dirname, "../../core/tests/fixtures");
+const TMP_DIR = resolve(import.meta.dirname, "../.tmp-test-diff");
+
+async function writeScanOutput(fixture: string, zip = false): Promise<string> {
+  const outDir = resolve(TMP_DIR, fixture);
+  const output = generateScanOutput(
+    await scanRepository({ targetPath: resolve(FIXTURES, fixture) })
+  );
+  await writeOutputFiles(output, outDir, "all");
+  await writeBundleManifest(outDir, {
+    tool: output.report.tool,
+    target: { name: output.report.target.name, rootPath: output.report.target.rootPath },
+    generatedAt: output.report.generatedAt,
+  });
+  if (zip) await writeZipBundle(outDir);
+  return outDir;
+}
+
+describe("loadScanSnapshot", () => {
+  let plainDir: string;
+  let openaiDir: string;
+
+  beforeAll(async () => {
+    await mkdir(TMP_DIR, { recursive: true });
+    plainDir = await writeScanOutput("plain-webapp");
+    openaiDir = await writeScanOutput("nextjs-openai", true);
+  });
+
+  afterAll(async () => {
+    await rm(TMP_DIR, { recursive: true, force: true });
+  });
+
+  it("loads the same snapshot from a directory, manifest, report file, and ZIP", async () => {
+    const fromDir = await loadScanSnapshot(openaiDir);
+    const fromManifest = await loadScanSnapshot(resolve(openaiDir, "euconform.bundle.json"));
+    const fromReport = await loadScanSnapshot(resolve(openaiDir, "euconform.report.json"));
+    const fromZip = await loadScanSnapshot(resolve(openaiDir, "euconform.bundle.zip"));
+
+    expect(fromDir.aibom).toBeDefined();
+    expect(fromManifest).toEqual(fromDir);
+    expect(fromReport).toEqual(fromDir);
+    expect(fromZip).toEqual(fromDir);
+  });
+
+  it("falls back to the report file in directories without a manifest", async () => {
+    await unlink(resolve(plainDir, "euconform.bundle.json"));
+
+    const snapshot = await loadScanSnapshot(plainDir);
+
+    expect(snapshot.report.schemaVersion).toBe("euconform.report.v1");
+  });
+
+  it("produces a regression diff between two scan outputs", async () => {
+    const diff = diffScanOutputs(
+      await loadScanSnapshot(plainDir),
+      await loadScanSnapshot(openaiDir)
+    );
+
+    expect(diff.regression).toBe(true);
+    expect(diff.components?.added.length).toBeGreaterThan(0);
+  });
+
+  it("rejects directories without scan artifacts", async () => {
+    await mkdir(resolve(TMP_DIR, "empty"), { recursive: true });
+    await expect(loadScanSnapshot(resolve(TMP_DIR, "empty"))).rejects.toThrow(/neither/);
+  });
+});
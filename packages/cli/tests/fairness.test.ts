@@ -0,0 +1,44 @@
+import { runTabularFairnessAudit } from "@euconform/core";
+import { buildFairnessReport } from "@euconform/core/evidence";
+import { describe, expect, it } from "vitest";
+import { renderFairnessMarkdown } from "../src/fairness/report";
+
+describe("renderFairnessMarkdown", () => {
+  it("lists group rates, metric thresholds and citations", () => {
+    const records = ["female", "male", "diverse"].flatMap((gender) =>
+      Array.from({ length: gender === "diverse" ? 2 : 10 }, (_, i) => ({
+        prediction: i < (gender === "female" ? 4 : 8),
+        label: i < 6,
+        attributes: { gender },
+      }))
+    );
+    const result = runTabularFairnessAudit({
+      records,
+      protectedAttributes: ["gender"],
+      minGroupSize: 5,
+    });
+    const report = buildFairnessReport({
+      model: "credit-scoring-v3",
+      predictions: {
+        name: "preds",
+        sha256: "e".repeat(64),
+        records: records.length,
+        columns: { prediction: "yhat", label: "y", protected: ["gender"] },
+      },
+      result,
+      generatedAt: "2026-05-01T00:00:00.000Z",
+    });
+
+    const markdown = renderFairnessMarkdown(report);
+
+    expect(markdown).toContain("**Model:** credit-scoring-v3");
+    expect(markdown).toContain("| Status | Failed |");
+    expect(markdown).toContain("### gender — Failed");
+    expect(markdown).toContain("| female | 10 | 0.4000 | 0.6667 | 0.0000 | 1.0000 |");
+    expect(markdown).toContain("| diverse (excluded) | 2 |");
+    expect(markdown).toContain("| Disparate Impact Ratio | 0.5000 | ≥ 0.8 | Failed |");
+    expect(markdown).toContain("| Predictive Parity |");
+    expect(markdown).toContain("Hardt, Price, Srebro (2016)");
+    expect(markdown).not.toContain("## Intersectional Subgroups");
+  });
+});
@@ -0,0 +1,100 @@
+import { existsSync } from "node:fs";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { runTextPerturbationRobustnessTest, textPerturbations } from "@euconform/core";
+import { ROBUSTNESS_FILE_NAME, buildRobustnessReport } from "@euconform/core/evidence";
+import { runCommand } from "citty";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import robustnessCommand from "../src/commands/robustness";
+import { renderRobustnessMarkdown } from "../src/robustness/report";
+import { NO_LABEL, extractPrediction } from "../src/robustness/run-robustness-test";
+
+describe("extractPrediction", () => {
+  it("returns the label that occurs first, case-insensitively and as a whole word", () => {
+    expect(extractPrediction("Answer: No. Yes would be wrong.", ["yes", "no"])).toBe("no");
+    expect(extractPrediction("YES, definitely", ["yes", "no"])).toBe("yes");
+    expect(extractPrediction("Nobody knows", ["yes", "no"])).toBe(NO_LABEL);
+  });
+
+  it("falls back to the first non-empty line without labels", () => {
+    expect(extractPrediction("\n  \nRefund request\nMore text")).toBe("Refund request");
+  });
+});
+
+describe("renderRobustnessMarkdown", () => {
+  it("lists flip rates per perturbation and the changed predictions", async () => {
+    const perturbations = textPerturbations(42, ["whitespace", "prompt_injection"]);
+    const result = await runTextPerturbationRobustnessTest({
+      seed: 42,
+      cases: [{ id: "loan-1", input: "Approve the loan? Answer yes or no." }],
+      perturbations,
+      predict: (input) => (input.includes("\n\n") ? "no" : "yes"),
+    });
+    const report = buildRobustnessReport({
+      model: "llama3.2",
+      engine: "openai-compatible",
+      testSuite: { name: "loans", sha256: "c".repeat(64), cases: 1, labels: ["yes", "no"] },
+      perturbations,
+      result,
+      generatedAt: "2026-05-01T00:00:00.000Z",
+    });
+
+    const markdown = renderRobustnessMarkdown(report);
+
+    expect(markdown).toContain("**Engine:** OpenAI-compatible");
+    expect(markdown).toContain("**Labels:** yes, no");
+    expect(markdown).toContain("| Status | Failed |");
+    expect(markdown).toContain("| whitespace | Whitespace-Noise | 0/1 | 0.0000 |");
+    expect(markdown).toContain("| loan-1 | prompt_injection | yes | no |");
+  });
+});
+
+describe("robustness command", () => {
+  const QUESTION = "Approve the loan? Answer yes or no.";
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "euconform-robustness-"));
+    await writeFile(join(dir, "cases.json"), JSON.stringify([{ id: "loan-1", input: QUESTION }]));
+    // OpenAI-compatible server whose model only approves the unperturbed question
+    vi.stubGlobal("fetch", async (url: string, init?: RequestInit) => {
+      if (url.endsWith("/models")) {
+        return Response.json({ data: [{ id: "llama3.2" }] });
+      }
+      const { prompt } = JSON.parse(String(init?.body));
+      return Response.json({ choices: [{ text: prompt === QUESTION ? "yes" : "no" }] });
+    });
+    vi.spyOn(process, "exit").mockImplementation(((code?: number) => {
+      throw new Error(`process.exit(${code})`);
+    }) as never);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  function run(...extraArgs: string[]) {
+    return runCommand(robustnessCommand, {
+      rawArgs: [
+        "llama3.2",
+        ...["--cases", join(dir, "cases.json"), "--labels", "yes,no"],
+        ...["--perturbations", "prompt_injection", "--engine", "openai-compatible"],
+        ...["--url", "http://localhost:8000/v1", "--out-dir", join(dir, "out")],
+        ...extraArgs,
+      ],
+    });
+  }
+
+  it("exits non-zero after writing the report when the flip rate exceeds the threshold", async () => {
+    await expect(run()).rejects.toThrow("process.exit(1)");
+    expect(existsSync(join(dir, "out", ROBUSTNESS_FILE_NAME))).toBe(true);
+  });
+
+  it("only reports with --no-fail-on-threshold", async () => {
+    await run("--no-fail-on-threshold");
+    expect(process.exit).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,128 @@
+import { generateKeyPairSync } from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import { generateScanOutput } from "@euconform/core/evidence";
+import { scanRepository } from "@euconform/core/scanner";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { writeBundleSignature, writeOutputFiles, writeZipBundle } from "../src/output/writer";
+import {
+  BUNDLE_SIGNATURE_FILE,
+  loadTrustedKeys,
+  signBundleManifest,
+  verifyBundleSignature,
+} from "../src/verify/signature";
+import { verifyBundleInput } from "../src/verify/verify";
+
+const FIXTURES = resolve(import.meta.dirname, "../../core/tests/fixtures");
+const TMP_DIR = resolve(import.meta.dirname, "../.tmp-test-signature");
+
+function createKeyPair() {
+  const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+  return {
+    privateKeyPem: privateKey.export({ format: "pem", type: "pkcs8" }).toString(),
+    publicKeyPem: publicKey.export({ format: "pem", type: "spki" }).toString(),
+  };
+}
+
+async function createSignedBundle(name: string, privateKeyPem: string): Promise<string> {
+  const outDir = resolve(TMP_DIR, name);
+  const scanResult = await scanRepository({ targetPath: resolve(FIXTURES, "nextjs-openai") });
+  await writeOutputFiles(generateScanOutput(scanResult), outDir, "all");
+  await writeBundleSignature(outDir, privateKeyPem);
+  return outDir;
+}
+
+async function writeTrustedKeys(name: string, keys: Array<{ name: string; publicKey: string }>) {
+  const path = resolve(TMP_DIR, `${name}.json`);
+  await writeFile(path, JSON.stringify({ keys }), "utf8");
+  return loadTrustedKeys(path);
+}
+
+describe("bundle signatures", () => {
+  const signer = createKeyPair();
+  const stranger = createKeyPair();
+
+  beforeAll(async () => {
+    await mkdir(TMP_DIR, { recursive: true });
+  });
+
+  afterAll(async () => {
+    await rm(TMP_DIR, { recursive: true, force: true });
+  });
+
+  it("produces a detached EdDSA JWS over the manifest", () => {
+    const jws = signBundleManifest('{"schemaVersion":"euconform.bundle.v1"}', signer.privateKeyPem);
+    const [header, payload, signature] = jws.split(".");
+
+    expect(payload).toBe("");
+    expect(signature?.length).toBeGreaterThan(0);
+    expect(JSON.parse(Buffer.from(header ?? "", "base64url").toString("utf8"))).toMatchObject({
+      alg: "EdDSA",
+    });
+  });
+
+  it("rejects non-Ed25519 signing keys", () => {
+    const { privateKey } = generateKeyPairSync("ec", { namedCurve: "P-256" });
+    const pem = privateKey.export({ format: "pem", type: "pkcs8" }).toString();
+    expect(() => signBundleManifest("{}", pem)).toThrow(/must be an Ed25519 key/);
+  });
+
+  it("verifies a signed bundle directory and ZIP against a trusted key", async () => {
+    const outDir = await createSignedBundle("valid", signer.privateKeyPem);
+    const trustedKeys = await writeTrustedKeys("trusted", [
+      { name: "Compliance team", publicKey: signer.publicKeyPem },
+    ]);
+
+    const report = await verifyBundleInput(outDir, { trustedKeys });
+    expect(report.status).toBe("valid");
+    expect(report.signature).toMatchObject({ status: "valid", signer: "Compliance team" });
+
+    const zipReport = await verifyBundleInput(await writeZipBundle(outDir), { trustedKeys });
+    expect(zipReport.signature.status).toBe("valid");
+  });
+
+  it("reports a tampered manifest as signature.invalid", async () => {
+    const outDir = await createSignedBundle("tampered", signer.privateKeyPem);
+    const manifestPath = resolve(outDir, "euconform.bundle.json");
+    const manifest = JSON.parse(await readFile(manifestPath, "utf8"));
+    manifest.target.name = "someone-else";
+    await writeFile(manifestPath, JSON.stringify(manifest, null, 2), "utf8");
+
+    const trustedKeys = await writeTrustedKeys("tampered", [
+      { name: "Compliance team", publicKey: signer.publicKeyPem },
+    ]);
+    const report = await verifyBundleInput(outDir, { trustedKeys });
+
+    expect(report.status).toBe("errors");
+    expect(report.errors.map((issue) => issue.code)).toContain("signature.invalid");
+  });
+
+  it("reports signatures from unknown keys and missing signatures", async () => {
+    const outDir = await createSignedBundle("untrusted", stranger.privateKeyPem);
+    const trustedKeys = await writeTrustedKeys("untrusted", [
+      { name: "Compliance team", publicKey: signer.publicKeyPem },
+    ]);
+
+    const untrusted = await verifyBundleInput(outDir, { trustedKeys });
+    expect(untrusted.errors.map((issue) => issue.code)).toContain("signature.untrusted");
+
+    await writeBundleSignature(outDir, undefined);
+    const missing = await verifyBundleInput(outDir, { trustedKeys });
+    expect(missing.errors.map((issue) => issue.code)).toContain("signature.missing");
+  });
+
+  it("leaves signatures unchecked when no keys are supplied", async () => {
+    const outDir = await createSignedBundle("unchecked", signer.privateKeyPem);
+    const report = await verifyBundleInput(outDir);
+
+    expect(report.status).toBe("valid");
+    expect(report.signature.status).toBe("unchecked");
+    expect(report.signature.keyId).toBeTruthy();
+  });
+
+  it("flags malformed signature files", () => {
+    const check = verifyBundleSignature("{}", "not-a-jws", []);
+    expect(check.status).toBe("invalid");
+    expect(BUNDLE_SIGNATURE_FILE).toBe("euconform.bundle.jws");
+  });
+});
@@ -1,11 +1,18 @@
 import { existsSync } from "node:fs";
 import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
 import { resolve } from "node:path";
-import { generateScanOutput, sha256Hex } from "@euconform/core/evidence";
+import { BIAS_FILE_NAME, generateScanOutput, sha256Hex } from "@euconform/core/evidence";
 import { scanRepository } from "@euconform/core/scanner";
+import { unzipSync } from "fflate";
 import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { buildBiasOutput } from "../src/bias/report";
 import { writeCiArtifacts } from "../src/output/ci";
-import { writeBundleManifest, writeOutputFiles, writeZipBundle } from "../src/output/writer";
+import {
+  writeBundleManifest,
+  writeJsonArtifact,
+  writeOutputFiles,
+  writeZipBundle,
+} from "../src/output/writer";
 import { shouldFailVerifyReport, verifyBundleInput } from "../src/verify/verify";
 
 const FIXTURES = resolve(import.meta.dirname, "../../core/tests/fixtures");
@@ -36,6 +43,29 @@ async function createBundleFixture(name: string) {
   return { outDir, output };
 }
 
+/** A bias report as written by `euconform bias` or `scan --bias` */
+function sampleBiasOutput() {
+  return buildBiasOutput({
+    model: "llama3.2",
+    engine: "ollama",
+    dataset: {
+      name: "crows_pairs_de",
+      label: "CrowS-Pairs (DE)",
+      source: "bundled",
+      format: "json",
+      sha256: "b".repeat(64),
+    },
+    result: {
+      score: 0.12,
+      method: "logprobs_exact",
+      pairsAnalyzed: 10,
+      stereotypicalPreference: 60,
+      metadata: { engine: "ollama", model: "llama3.2", timestamp: "2026-01-01T00:00:00Z" },
+    },
+    generatedAt: "2026-01-02T00:00:00.000Z",
+  });
+}
+
 describe("verifyBundleInput", () => {
   beforeAll(async () => {
     await mkdir(TMP_DIR, { recursive: true });
@@ -56,6 +86,86 @@ describe("verifyBundleInput", () => {
     expect(report.artifacts.some((artifact) => artifact.role === "ci")).toBe(true);
   });
 
+  it("registers the SARIF log in a v1.1 bundle and checks its envelope", async () => {
+    const { outDir } = await createBundleFixture("sarif");
+    const manifest = JSON.parse(await readFile(resolve(outDir, "euconform.bundle.json"), "utf8"));
+
+    expect(manifest.schemaVersion).toBe("euconform.bundle.v1.1");
+    expect(manifest.artifacts).toContainEqual(
+      expect.objectContaining({
+        role: "sarif",
+        fileName: "euconform.sarif.json",
+        mimeType: "application/sarif+json",
+      })
+    );
+
+    const valid = await verifyBundleInput(outDir);
+    expect(valid.artifacts.find((a) => a.role === "sarif")?.schemaStatus).toBe("valid");
+
+    await writeFile(resolve(outDir, "euconform.sarif.json"), "{}", "utf8");
+    const invalid = await verifyBundleInput(outDir);
+    expect(invalid.status).toBe("errors");
+    expect(invalid.artifacts.find((a) => a.role === "sarif")?.schemaStatus).toBe("invalid");
+  });
+
+  it("registers the bias report in a v1.2 bundle and validates it", async () => {
+    const { outDir, output } = await createBundleFixture("bias");
+    await writeJsonArtifact(outDir, BIAS_FILE_NAME, sampleBiasOutput(), "bias report");
+    await writeBundleManifest(outDir, {
+      tool: output.report.tool,
+      target: { name: output.report.target.name, rootPath: output.report.target.rootPath },
+      generatedAt: output.report.generatedAt,
+      bias: true,
+    });
+    const manifest = JSON.parse(await readFile(resolve(outDir, "euconform.bundle.json"), "utf8"));
+
+    expect(manifest.schemaVersion).toBe("euconform.bundle.v1.2");
+    expect(manifest.artifacts).toContainEqual(
+      expect.objectContaining({
+        role: "bias",
+        fileName: "euconform.bias.json",
+        schemaVersion: "euconform.bias.v1",
+      })
+    );
+
+    const zipPath = await writeZipBundle(outDir, { bias: true });
+    const valid = await verifyBundleInput(zipPath);
+    expect(valid.status).toBe("valid");
+    expect(valid.artifacts.find((a) => a.role === "bias")).toMatchObject({
+      hashStatus: "match",
+      schemaStatus: "valid",
+      metadataStatus: "skipped",
+    });
+
+    await writeFile(
+      resolve(outDir, "euconform.bias.json"),
+      JSON.stringify({ schemaVersion: "euconform.bias.v1" }),
+      "utf8"
+    );
+    const invalid = await verifyBundleInput(outDir);
+    expect(invalid.status).toBe("errors");
+    expect(invalid.artifacts.find((a) => a.role === "bias")).toMatchObject({
+      hashStatus: "mismatch",
+      schemaStatus: "invalid",
+    });
+  });
+
+  it("leaves a bias report from an earlier run out of the bundle", async () => {
+    const { outDir, output } = await createBundleFixture("stale-bias");
+    await writeJsonArtifact(outDir, BIAS_FILE_NAME, sampleBiasOutput(), "bias report");
+    await writeBundleManifest(outDir, {
+      tool: output.report.tool,
+      target: { name: output.report.target.name, rootPath: output.report.target.rootPath },
+      generatedAt: output.report.generatedAt,
+    });
+    const manifest = JSON.parse(await readFile(resolve(outDir, "euconform.bundle.json"), "utf8"));
+    const zipPath = await writeZipBundle(outDir);
+
+    expect(manifest.artifacts.some((a: { role: string }) => a.role === "bias")).toBe(false);
+    expect(Object.keys(unzipSync(await readFile(zipPath)))).not.toContain("euconform.bias.json");
+    expect((await verifyBundleInput(zipPath)).status).toBe("valid");
+  });
+
   it("verifies a bundle directory", async () => {
     const { outDir } = await createBundleFixture("directory");
 
@@ -1,9 +1,11 @@
+import { readFileSync } from "node:fs";
 import { copyFile, mkdir, readdir } from "node:fs/promises";
 import { join, resolve } from "node:path";
 import { defineConfig } from "tsup";
 
 const schemasSource = resolve(__dirname, "../../docs/spec/schemas");
 const schemasDest = resolve(__dirname, "dist/schemas");
+const { version } = JSON.parse(readFileSync(resolve(__dirname, "package.json"), "utf-8"));
 
 export default defineConfig({
   entry: ["src/index.ts"],
@@ -13,6 +15,9 @@ export default defineConfig({
   clean: true,
   noExternal: ["@euconform/core"],
   external: ["sharp", "@xenova/transformers", "onnxruntime-node"],
+  define: {
+    "process.env.EUCONFORM_VERSION": JSON.stringify(version),
+  },
   async onSuccess() {
     await mkdir(schemasDest, { recursive: true });
     const files = await readdir(schemasSource);
@@ -1,7 +1,9 @@
+import { createHash } from "node:crypto";
 import { existsSync, readFileSync } from "node:fs";
 import { dirname, resolve } from "node:path";
 import { fileURLToPath } from "node:url";
 import type { CrowsPairsEntry } from "../types";
+import type { LoadedBiasDataset } from "./custom-dataset";
 
 interface CrowsPairsDataset {
   metadata: {
@@ -53,8 +55,26 @@ function findDatasetPath(language: "en" | "de"): string {
 export function loadCrowsPairsDataset(language: "en" | "de"): CrowsPairsEntry[] {
   const filePath = findDatasetPath(language);
   const raw = readFileSync(filePath, "utf-8");
-  const dataset: CrowsPairsDataset = JSON.parse(raw);
+  return toEntries(JSON.parse(raw));
+}
+
+/**
+ * Load the bundled CrowS-Pairs dataset together with its name and SHA-256,
+ * in the same shape as custom datasets from loadBiasDataset.
+ */
+export function loadBundledBiasDataset(language: "en" | "de"): LoadedBiasDataset {
+  const buffer = readFileSync(findDatasetPath(language));
+  return {
+    name: `crows_pairs_${language}`,
+    source: "bundled",
+    format: "json",
+    sha256: createHash("sha256").update(buffer).digest("hex"),
+    entries: toEntries(JSON.parse(buffer.toString("utf-8"))),
+    warnings: [],
+  };
+}
 
+function toEntries(dataset: CrowsPairsDataset): CrowsPairsEntry[] {
   return dataset.pairs.map((pair) => ({
     id: pair.id,
     sent_more: pair.stereotype,
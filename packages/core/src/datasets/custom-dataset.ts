@@ -0,0 +1,310 @@
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { basename, extname } from "node:path";
+import { validateCrowsPairsDataset } from "../metrics/crows-pairs-bias";
+import type { CrowsPairsEntry } from "../types";
+
+export type BiasDatasetFormat = "csv" | "json" | "jsonl";
+
+/** Problem with a single dataset row; rows are 1-based and exclude the CSV header */
+export interface BiasDatasetRowError {
+  row: number;
+  field: string;
+  message: string;
+}
+
+export interface BiasDatasetParseResult {
+  entries: CrowsPairsEntry[];
+  errors: BiasDatasetRowError[];
+  warnings: BiasDatasetRowError[];
+  /** Name from a JSON `metadata.name`, if present */
+  name?: string;
+}
+
+export interface LoadedBiasDataset {
+  name: string;
+  source: "bundled" | "file";
+  format: BiasDatasetFormat;
+  sha256: string;
+  entries: CrowsPairsEntry[];
+  warnings: BiasDatasetRowError[];
+}
+
+const STEREOTYPE_FIELDS = ["sent_more", "stereotype", "stereo", "sentmore"];
+const ANTI_STEREOTYPE_FIELDS = [
+  "sent_less",
+  "antistereotype",
+  "anti_stereotype",
+  "anti",
+  "sentless",
+];
+const BIAS_TYPE_FIELDS = ["bias_type", "biastype", "category", "type"];
+const MAX_REPORTED_ERRORS = 20;
+
+/**
+ * Read a quoted CSV field starting after its opening quote.
+ * Returns the unescaped value and the index after the closing quote.
+ */
+function readQuotedField(text: string, start: number): { value: string; end: number } {
+  let value = "";
+  let i = start;
+  while (i < text.length) {
+    if (text[i] !== '"') {
+      value += text[i];
+      i++;
+    } else if (text[i + 1] === '"') {
+      value += '"';
+      i += 2;
+    } else {
+      return { value, end: i + 1 };
+    }
+  }
+  return { value, end: i };
+}
+
+/**
+ * Parse RFC 4180 CSV (quoted fields, escaped quotes, CRLF) into records
+ */
+export function parseCsv(content: string): string[][] {
+  const text = content.replace(/^\uFEFF/, "");
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+    if (char === '"') {
+      const quoted = readQuotedField(text, i + 1);
+      field += quoted.value;
+      i = quoted.end;
+      continue;
+    }
+    if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+    i++;
+  }
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+export function readCsvRows(content: string): Record<string, unknown>[] {
+  const [header, ...rows] = parseCsv(content);
+  if (!header) return [];
+  const keys = header.map((key) => key.trim().toLowerCase());
+  return rows.map((values) => Object.fromEntries(keys.map((key, i) => [key, values[i] ?? ""])));
+}
+
+function readJsonRows(content: string): { rows: unknown[]; name?: string } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : "Parse error"}`);
+  }
+  if (Array.isArray(parsed)) return { rows: parsed };
+
+  const record = (parsed ?? {}) as Record<string, unknown>;
+  const rows = record.pairs ?? record.entries ?? record.data;
+  if (!Array.isArray(rows)) {
+    throw new Error("JSON dataset must be an array or contain a 'pairs' array");
+  }
+  const metadata = record.metadata as { name?: unknown } | undefined;
+  return { rows, name: typeof metadata?.name === "string" ? metadata.name : undefined };
+}
+
+export function readJsonlRows(content: string): { rows: unknown[]; errors: BiasDatasetRowError[] } {
+  const rows: unknown[] = [];
+  const errors: BiasDatasetRowError[] = [];
+  for (const line of content.split(/\r?\n/)) {
+    if (line.trim() === "") continue;
+    try {
+      rows.push(JSON.parse(line));
+    } catch {
+      rows.push(undefined);
+      errors.push({ row: rows.length, field: "entry", message: "Invalid JSON line" });
+    }
+  }
+  return { rows, errors };
+}
+
+/** Case-insensitive field lookup over the accepted aliases */
+export function pickField(record: Record<string, unknown>, aliases: string[]): unknown {
+  for (const [key, value] of Object.entries(record)) {
+    if (aliases.includes(key.toLowerCase())) return value;
+  }
+  return undefined;
+}
+
+function parseId(value: unknown, row: number): number | BiasDatasetRowError {
+  if (value === undefined || value === "") return row;
+  const id = typeof value === "number" ? value : Number(String(value).trim());
+  if (!Number.isInteger(id)) {
+    return { row, field: "id", message: `'id' must be an integer, got '${value}'` };
+  }
+  return id;
+}
+
+function normalizeRow(
+  value: unknown,
+  row: number
+): { entry: CrowsPairsEntry | null; error: BiasDatasetRowError | null } {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return { entry: null, error: { row, field: "entry", message: "Invalid entry format" } };
+  }
+  const record = value as Record<string, unknown>;
+
+  const stereotype = pickField(record, STEREOTYPE_FIELDS);
+  if (typeof stereotype !== "string" || stereotype.trim() === "") {
+    const message = "Missing or empty 'sent_more' (stereotypical sentence)";
+    return { entry: null, error: { row, field: "sent_more", message } };
+  }
+  const antiStereotype = pickField(record, ANTI_STEREOTYPE_FIELDS);
+  if (typeof antiStereotype !== "string" || antiStereotype.trim() === "") {
+    const message = "Missing or empty 'sent_less' (anti-stereotypical sentence)";
+    return { entry: null, error: { row, field: "sent_less", message } };
+  }
+
+  const id = parseId(pickField(record, ["id"]), row);
+  if (typeof id !== "number") return { entry: null, error: id };
+
+  const biasType = pickField(record, BIAS_TYPE_FIELDS);
+  return {
+    entry: {
+      id,
+      sent_more: stereotype.trim(),
+      sent_less: antiStereotype.trim(),
+      bias_type:
+        typeof biasType === "string" && biasType.trim() !== "" ? biasType.trim() : "unknown",
+    },
+    error: null,
+  };
+}
+
+function validateRows(rows: unknown[]): Omit<BiasDatasetParseResult, "name"> {
+  const entries: CrowsPairsEntry[] = [];
+  const errors: BiasDatasetRowError[] = [];
+  const warnings: BiasDatasetRowError[] = [];
+  const seenIds = new Map<number, number>();
+
+  rows.forEach((value, index) => {
+    const row = index + 1;
+    if (value === undefined) return; // JSONL parse errors are reported separately
+
+    const { entry, error } = normalizeRow(value, row);
+    if (error) {
+      errors.push(error);
+      return;
+    }
+    if (!entry) return;
+
+    const firstRow = seenIds.get(entry.id);
+    if (firstRow !== undefined) {
+      errors.push({
+        row,
+        field: "id",
+        message: `Duplicate id ${entry.id} (first used in row ${firstRow})`,
+      });
+      return;
+    }
+    seenIds.set(entry.id, row);
+
+    if (entry.sent_more === entry.sent_less) {
+      warnings.push({
+        row,
+        field: "sent_less",
+        message: "Sentences are identical; the pair scores 0",
+      });
+    }
+    if (entry.bias_type === "unknown") {
+      warnings.push({ row, field: "bias_type", message: "Missing 'bias_type', using 'unknown'" });
+    }
+    entries.push(entry);
+  });
+
+  return { entries, errors, warnings };
+}
+
+/**
+ * Parse a custom stereotype-pair dataset. Accepted columns/fields:
+ * `id` (optional), `sent_more`/`stereotype`, `sent_less`/`antiStereotype`, `bias_type`/`category`.
+ */
+export function parseBiasDataset(
+  content: string,
+  format: BiasDatasetFormat
+): BiasDatasetParseResult {
+  if (format === "csv") {
+    return validateRows(readCsvRows(content));
+  }
+  if (format === "jsonl") {
+    const { rows, errors } = readJsonlRows(content);
+    const result = validateRows(rows);
+    return { ...result, errors: [...errors, ...result.errors].sort((a, b) => a.row - b.row) };
+  }
+  const { rows, name } = readJsonRows(content);
+  return { ...validateRows(rows), ...(name ? { name } : {}) };
+}
+
+export function detectBiasDatasetFormat(path: string): BiasDatasetFormat {
+  const extension = extname(path).toLowerCase();
+  if (extension === ".csv") return "csv";
+  if (extension === ".json") return "json";
+  if (extension === ".jsonl" || extension === ".ndjson") return "jsonl";
+  throw new Error(
+    `Unsupported dataset format: ${extension || "(none)"}. Use .csv, .json or .jsonl`
+  );
+}
+
+export function formatBiasDatasetErrors(errors: BiasDatasetRowError[]): string {
+  const lines = errors
+    .slice(0, MAX_REPORTED_ERRORS)
+    .map((error) => `  row ${error.row} (${error.field}): ${error.message}`);
+  if (errors.length > MAX_REPORTED_ERRORS) {
+    lines.push(`  ... and ${errors.length - MAX_REPORTED_ERRORS} more`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Load and validate a custom bias dataset from disk.
+ * Throws with row-level details when any row is invalid.
+ */
+export function loadBiasDataset(path: string): LoadedBiasDataset {
+  const format = detectBiasDatasetFormat(path);
+  const buffer = readFileSync(path);
+  const result = parseBiasDataset(buffer.toString("utf-8"), format);
+  const fileName = basename(path);
+
+  if (result.errors.length > 0) {
+    const count = result.errors.length;
+    throw new Error(
+      `Invalid bias dataset ${fileName}: ${count} invalid ${count === 1 ? "row" : "rows"}\n${formatBiasDatasetErrors(result.errors)}`
+    );
+  }
+  if (result.entries.length === 0 || !validateCrowsPairsDataset(result.entries)) {
+    throw new Error(`Invalid bias dataset ${fileName}: no sentence pairs found`);
+  }
+
+  return {
+    name: result.name ?? basename(path, extname(path)),
+    source: "file",
+    format,
+    sha256: createHash("sha256").update(buffer).digest("hex"),
+    entries: result.entries,
+    warnings: result.warnings,
+  };
+}
@@ -0,0 +1,25 @@
+export { loadBundledBiasDataset, loadCrowsPairsDataset } from "./crows-pairs";
+export {
+  detectBiasDatasetFormat,
+  formatBiasDatasetErrors,
+  loadBiasDataset,
+  parseBiasDataset,
+  parseCsv,
+  type BiasDatasetFormat,
+  type BiasDatasetParseResult,
+  type BiasDatasetRowError,
+  type LoadedBiasDataset,
+} from "./custom-dataset";
+export {
+  loadRobustnessCases,
+  parseRobustnessCases,
+  type LoadedRobustnessCases,
+  type RobustnessCasesParseResult,
+} from "./robustness-cases";
+export {
+  loadPredictionRecords,
+  parsePredictionRecords,
+  type LoadedPredictionRecords,
+  type PredictionColumns,
+  type PredictionRecordsParseResult,
+} from "./prediction-records";
@@ -0,0 +1,211 @@
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { basename, extname } from "node:path";
+import type { FairnessRecord } from "../legal-checks/tabular-fairness";
+import {
+  type BiasDatasetFormat,
+  type BiasDatasetRowError,
+  detectBiasDatasetFormat,
+  formatBiasDatasetErrors,
+  pickField,
+  readCsvRows,
+  readJsonlRows,
+} from "./custom-dataset";
+
+/** Column mapping for a predictions file */
+export interface PredictionColumns {
+  prediction: string;
+  /** Ground-truth column; omit when only predictions are available */
+  label?: string;
+  protected: string[];
+  /** Value of the favourable class for string-valued outcomes (e.g. "approved") */
+  positive?: string;
+  /** Scores at or above this value count as positive (default: 0.5) */
+  scoreThreshold?: number;
+}
+
+export interface PredictionRecordsParseResult {
+  records: FairnessRecord[];
+  errors: BiasDatasetRowError[];
+}
+
+export interface LoadedPredictionRecords {
+  name: string;
+  format: BiasDatasetFormat;
+  sha256: string;
+  records: FairnessRecord[];
+}
+
+const TRUE_VALUES = new Set(["true", "yes", "y"]);
+const FALSE_VALUES = new Set(["false", "no", "n"]);
+
+function readJsonRecords(content: string): unknown[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : "Parse error"}`);
+  }
+  if (Array.isArray(parsed)) return parsed;
+
+  const records = (parsed as Record<string, unknown> | null)?.records;
+  if (!Array.isArray(records)) {
+    throw new Error("JSON predictions must be an array or contain a 'records' array");
+  }
+  return records;
+}
+
+/**
+ * Map an outcome cell to the favourable (true) or unfavourable (false) class.
+ * Accepts booleans, yes/no, 0/1 and scores in [0, 1]; with `positive` set,
+ * the cell is compared against that value instead.
+ */
+function parseOutcome(value: unknown, columns: PredictionColumns): boolean | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const text = String(value).trim().toLowerCase();
+  if (columns.positive !== undefined) return text === columns.positive.trim().toLowerCase();
+
+  if (typeof value === "boolean") return value;
+  if (TRUE_VALUES.has(text)) return true;
+  if (FALSE_VALUES.has(text)) return false;
+  const score = Number(text);
+  if (text === "" || !Number.isFinite(score) || score < 0 || score > 1) return undefined;
+  return score >= (columns.scoreThreshold ?? 0.5);
+}
+
+const OUTCOME_HINT = "expected 0/1, true/false or a score in [0, 1] (or set the positive class)";
+
+function readOutcome(
+  entry: Record<string, unknown>,
+  column: string,
+  kind: "prediction" | "label",
+  row: number,
+  columns: PredictionColumns,
+  errors: BiasDatasetRowError[]
+): boolean | undefined {
+  const raw = pickField(entry, [column.toLowerCase()]);
+  const outcome = parseOutcome(raw, columns);
+  if (outcome === undefined) {
+    errors.push({ row, field: column, message: `Invalid ${kind} '${raw ?? ""}': ${OUTCOME_HINT}` });
+  }
+  return outcome;
+}
+
+function normalizeRecord(
+  entry: Record<string, unknown>,
+  row: number,
+  columns: PredictionColumns
+): FairnessRecord | BiasDatasetRowError[] {
+  const errors: BiasDatasetRowError[] = [];
+  const prediction = readOutcome(entry, columns.prediction, "prediction", row, columns, errors);
+  const label =
+    columns.label === undefined
+      ? undefined
+      : readOutcome(entry, columns.label, "label", row, columns, errors);
+
+  const attributes: Record<string, string> = {};
+  for (const attribute of columns.protected) {
+    const raw = pickField(entry, [attribute.toLowerCase()]);
+    attributes[attribute] = raw === undefined || raw === null ? "" : String(raw).trim();
+    if (attributes[attribute] === "") {
+      errors.push({ row, field: attribute, message: `Missing '${attribute}'` });
+    }
+  }
+
+  if (errors.length > 0 || prediction === undefined) return errors;
+  return { prediction, ...(label !== undefined ? { label } : {}), attributes };
+}
+
+/** A column that no row has is a mapping mistake, not a per-row problem */
+function assertColumnsPresent(rows: unknown[], columns: PredictionColumns): void {
+  const entries = rows.filter(
+    (row): row is Record<string, unknown> =>
+      typeof row === "object" && row !== null && !Array.isArray(row)
+  );
+  if (entries.length === 0) return;
+  const required = [
+    columns.prediction,
+    ...(columns.label ? [columns.label] : []),
+    ...columns.protected,
+  ];
+  for (const column of required) {
+    if (entries.every((entry) => pickField(entry, [column.toLowerCase()]) === undefined)) {
+      throw new Error(`Column '${column}' not found in the predictions file`);
+    }
+  }
+}
+
+function validateRecordRows(
+  rows: unknown[],
+  columns: PredictionColumns
+): PredictionRecordsParseResult {
+  assertColumnsPresent(rows, columns);
+  const records: FairnessRecord[] = [];
+  const errors: BiasDatasetRowError[] = [];
+
+  rows.forEach((value, index) => {
+    const row = index + 1;
+    if (value === undefined) return; // JSONL parse errors are reported separately
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      errors.push({ row, field: "entry", message: "Invalid entry format" });
+      return;
+    }
+    const result = normalizeRecord(value as Record<string, unknown>, row, columns);
+    if (Array.isArray(result)) errors.push(...result);
+    else records.push(result);
+  });
+
+  return { records, errors };
+}
+
+/**
+ * Parse model decisions for a fairness audit. Column names are matched
+ * case-insensitively; JSON files may hold an array or a `{ "records": [...] }`
+ * object.
+ */
+export function parsePredictionRecords(
+  content: string,
+  format: BiasDatasetFormat,
+  columns: PredictionColumns
+): PredictionRecordsParseResult {
+  if (format === "csv") {
+    return validateRecordRows(readCsvRows(content), columns);
+  }
+  if (format === "jsonl") {
+    const { rows, errors } = readJsonlRows(content);
+    const result = validateRecordRows(rows, columns);
+    return { ...result, errors: [...errors, ...result.errors].sort((a, b) => a.row - b.row) };
+  }
+  return validateRecordRows(readJsonRecords(content), columns);
+}
+
+/**
+ * Load and validate a predictions file from disk.
+ * Throws with row-level details when any row is invalid.
+ */
+export function loadPredictionRecords(
+  path: string,
+  columns: PredictionColumns
+): LoadedPredictionRecords {
+  const format = detectBiasDatasetFormat(path);
+  const buffer = readFileSync(path);
+  const result = parsePredictionRecords(buffer.toString("utf-8"), format, columns);
+  const fileName = basename(path);
+
+  if (result.errors.length > 0) {
+    const count = new Set(result.errors.map((error) => error.row)).size;
+    throw new Error(
+      `Invalid predictions file ${fileName}: ${count} invalid ${count === 1 ? "row" : "rows"}\n${formatBiasDatasetErrors(result.errors)}`
+    );
+  }
+  if (result.records.length === 0) {
+    throw new Error(`Invalid predictions file ${fileName}: no records found`);
+  }
+
+  return {
+    name: basename(path, extname(path)),
+    format,
+    sha256: createHash("sha256").update(buffer).digest("hex"),
+    records: result.records,
+  };
+}
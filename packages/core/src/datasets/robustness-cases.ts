@@ -0,0 +1,148 @@
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { basename, extname } from "node:path";
+import type { RobustnessTestCase } from "../legal-checks/robustness-transparency";
+import {
+  type BiasDatasetFormat,
+  type BiasDatasetRowError,
+  detectBiasDatasetFormat,
+  formatBiasDatasetErrors,
+  pickField,
+  readCsvRows,
+  readJsonlRows,
+} from "./custom-dataset";
+
+export interface RobustnessCasesParseResult {
+  cases: RobustnessTestCase[];
+  errors: BiasDatasetRowError[];
+  /** Answer labels from a JSON `labels` array, if present */
+  labels?: string[];
+  /** Name from a JSON `metadata.name`, if present */
+  name?: string;
+}
+
+export interface LoadedRobustnessCases {
+  name: string;
+  format: BiasDatasetFormat;
+  sha256: string;
+  cases: RobustnessTestCase[];
+  labels?: string[];
+}
+
+const INPUT_FIELDS = ["input", "text", "prompt"];
+
+function readJsonCases(content: string): { rows: unknown[]; labels?: string[]; name?: string } {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : "Parse error"}`);
+  }
+  if (Array.isArray(parsed)) return { rows: parsed };
+
+  const record = (parsed ?? {}) as Record<string, unknown>;
+  if (!Array.isArray(record.cases)) {
+    throw new Error("JSON test suite must be an array or contain a 'cases' array");
+  }
+  const labels = record.labels;
+  if (
+    labels !== undefined &&
+    (!Array.isArray(labels) || !labels.every((label) => typeof label === "string" && label))
+  ) {
+    throw new Error("JSON test suite 'labels' must be an array of non-empty strings");
+  }
+  const metadata = record.metadata as { name?: unknown } | undefined;
+  return {
+    rows: record.cases,
+    labels: labels as string[] | undefined,
+    name: typeof metadata?.name === "string" ? metadata.name : undefined,
+  };
+}
+
+function validateCaseRows(rows: unknown[]): Pick<RobustnessCasesParseResult, "cases" | "errors"> {
+  const cases: RobustnessTestCase[] = [];
+  const errors: BiasDatasetRowError[] = [];
+  const seenIds = new Map<string, number>();
+
+  rows.forEach((value, index) => {
+    const row = index + 1;
+    if (value === undefined) return; // JSONL parse errors are reported separately
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      errors.push({ row, field: "entry", message: "Invalid entry format" });
+      return;
+    }
+    const record = value as Record<string, unknown>;
+
+    const input = pickField(record, INPUT_FIELDS);
+    if (typeof input !== "string" || input.trim() === "") {
+      errors.push({ row, field: "input", message: "Missing or empty 'input'" });
+      return;
+    }
+
+    const rawId = pickField(record, ["id"]);
+    const id = rawId === undefined || rawId === "" ? String(row) : String(rawId).trim();
+    const firstRow = seenIds.get(id);
+    if (firstRow !== undefined) {
+      errors.push({
+        row,
+        field: "id",
+        message: `Duplicate id ${id} (first used in row ${firstRow})`,
+      });
+      return;
+    }
+    seenIds.set(id, row);
+    cases.push({ id, input: input.trim() });
+  });
+
+  return { cases, errors };
+}
+
+/**
+ * Parse a robustness test suite. Each case needs an `input` (or `text`/`prompt`)
+ * and may have an `id`. JSON files may hold an array or a
+ * `{ "labels": [...], "cases": [...] }` object.
+ */
+export function parseRobustnessCases(
+  content: string,
+  format: BiasDatasetFormat
+): RobustnessCasesParseResult {
+  if (format === "csv") {
+    return validateCaseRows(readCsvRows(content));
+  }
+  if (format === "jsonl") {
+    const { rows, errors } = readJsonlRows(content);
+    const result = validateCaseRows(rows);
+    return { ...result, errors: [...errors, ...result.errors].sort((a, b) => a.row - b.row) };
+  }
+  const { rows, labels, name } = readJsonCases(content);
+  return { ...validateCaseRows(rows), ...(labels ? { labels } : {}), ...(name ? { name } : {}) };
+}
+
+/**
+ * Load and validate a robustness test suite from disk.
+ * Throws with row-level details when any case is invalid.
+ */
+export function loadRobustnessCases(path: string): LoadedRobustnessCases {
+  const format = detectBiasDatasetFormat(path);
+  const buffer = readFileSync(path);
+  const result = parseRobustnessCases(buffer.toString("utf-8"), format);
+  const fileName = basename(path);
+
+  if (result.errors.length > 0) {
+    const count = result.errors.length;
+    throw new Error(
+      `Invalid test suite ${fileName}: ${count} invalid ${count === 1 ? "case" : "cases"}\n${formatBiasDatasetErrors(result.errors)}`
+    );
+  }
+  if (result.cases.length === 0) {
+    throw new Error(`Invalid test suite ${fileName}: no test cases found`);
+  }
+
+  return {
+    name: result.name ?? basename(path, extname(path)),
+    format,
+    sha256: createHash("sha256").update(buffer).digest("hex"),
+    cases: result.cases,
+    ...(result.labels ? { labels: result.labels } : {}),
+  };
+}
@@ -0,0 +1,326 @@
+/**
+ * EuConform Evidence Engine — Annex IV Documentation
+ *
+ * Merges the evidence artifacts of a system (assessment, scan report, AI BOM,
+ * bias reports) with the provider and system details its owners maintain in
+ * a YAML file into the structured Annex IV report (`annex-iv.v1`) that
+ * `euconform annex-iv` renders as Markdown, HTML and PDF.
+ * Pure functions — no side effects, no filesystem operations.
+ */
+
+import { type LegalCheckMessages, type Locale, getMessages } from "../i18n";
+import {
+  type AnnexIVStructuredReportV1,
+  buildAnnexIVReportV1,
+  buildAnnexIVReproducibility,
+} from "../legal-checks/annex-iv-report";
+import { AI_ACT_SOURCES } from "../legal-checks/bias-metrics";
+import { generateAnnexIIIGapAnalysis } from "../legal-checks/gap-analysis";
+import { getHumanOversightAndLoggingTemplate } from "../legal-checks/human-oversight-logging";
+import { type AnnexIIIRiskResult, classifyAnnexIIIRisk } from "../legal-checks/risk-classifier";
+import type { RiskLevel } from "../types";
+import type {
+  AiBillOfMaterials,
+  AssessmentReport,
+  BiasReport,
+  ComplianceSignalGroup,
+  ScanReport,
+} from "./types";
+
+export const ANNEX_IV_FILE_NAME = "euconform.annex-iv.json";
+
+type Section<K extends keyof AnnexIVStructuredReportV1> = NonNullable<AnnexIVStructuredReportV1[K]>;
+
+/** Provider and system details maintained by the system owner (YAML or JSON) */
+export interface AnnexIVDetails {
+  provider: Section<"section1_generalDescription">["provider"];
+  system: {
+    name: string;
+    intendedPurpose: string;
+    deploymentContext?: string;
+    userGroups?: string[];
+  };
+  design?: Section<"section2_designSpecifications">;
+  dataManagement?: Pick<Section<"section3_dataManagement">, "datasets">;
+  riskManagement?: Section<"section4_riskManagementAndMitigation">;
+  performanceMetrics?: Section<"section5_performanceAndFairness">["performanceMetrics"];
+  /** Human oversight measures in place (Art. 14), listed before the generic recommendations */
+  humanOversight?: string[];
+  loggingNotes?: string[];
+  artifacts?: Section<"section7_technicalDocumentation">["artifacts"];
+  changeLog?: Section<"section7_technicalDocumentation">["changeLog"];
+}
+
+// ---------------------------------------------------------------------------
+// Details file
+// ---------------------------------------------------------------------------
+
+function fail(message: string): never {
+  throw new Error(`Invalid system details: ${message}`);
+}
+
+function asObject(value: unknown, path: string): Record<string, unknown> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    fail(`'${path}' must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function requireString(obj: Record<string, unknown>, key: string, path: string): string {
+  const value = obj[key];
+  if (typeof value !== "string" || value.trim() === "") {
+    fail(`'${path}.${key}' is required`);
+  }
+  return value;
+}
+
+function checkOptional(
+  obj: Record<string, unknown>,
+  key: string,
+  kind: "string" | "array" | "object",
+  path = key
+): void {
+  const value = obj[key];
+  if (value === undefined) return;
+  const ok =
+    kind === "array"
+      ? Array.isArray(value)
+      : kind === "object"
+        ? Boolean(value) && typeof value === "object" && !Array.isArray(value)
+        : typeof value === "string";
+  if (!ok) fail(`'${path}' must be ${kind === "array" ? "a list" : `a ${kind}`}`);
+}
+
+/**
+ * Read a parsed details file. Requires `provider.name`, `system.name` and
+ * `system.intendedPurpose`; every other section is optional and passed
+ * through to the matching Annex IV section.
+ */
+export function parseAnnexIVDetails(data: unknown): AnnexIVDetails {
+  const obj = asObject(data, "details");
+  const provider = asObject(obj.provider, "provider");
+  const system = asObject(obj.system, "system");
+  requireString(provider, "name", "provider");
+  requireString(system, "name", "system");
+  requireString(system, "intendedPurpose", "system");
+  checkOptional(system, "userGroups", "array", "system.userGroups");
+  for (const key of ["design", "dataManagement", "riskManagement"]) {
+    checkOptional(obj, key, "object");
+  }
+  for (const key of [
+    "performanceMetrics",
+    "humanOversight",
+    "loggingNotes",
+    "artifacts",
+    "changeLog",
+  ]) {
+    checkOptional(obj, key, "array");
+  }
+  if (obj.dataManagement) {
+    checkOptional(asObject(obj.dataManagement, "dataManagement"), "datasets", "array");
+  }
+  return obj as unknown as AnnexIVDetails;
+}
+
+// ---------------------------------------------------------------------------
+// Evidence mapping
+// ---------------------------------------------------------------------------
+
+export interface AnnexIVEvidenceInput {
+  details: AnnexIVDetails;
+  /** Annex III or risk quiz assessment; GPAI assessments do not classify a system */
+  assessment: AssessmentReport;
+  scan?: ScanReport;
+  aibom?: AiBillOfMaterials;
+  biasReports?: BiasReport[];
+  /** Evidence files the document is built from, listed in section 7 */
+  artifacts?: Array<{ name: string; description?: string; location?: string }>;
+  tool?: { name: string; version?: string };
+  generatedAt?: string;
+  /**
+   * Language of the generated texts. Texts recorded in the evidence (assessment
+   * flags, scanner gap titles) keep the language they were written in.
+   */
+  locale?: Locale;
+}
+
+type EvidenceMessages = LegalCheckMessages["annexIV"]["evidence"];
+
+function annexIIIFromAssessment(assessment: AssessmentReport, locale?: Locale): AnnexIIIRiskResult {
+  if (assessment.questionnaire === "annex-iii") {
+    return classifyAnnexIIIRisk(assessment.answers, locale);
+  }
+  const { result } = assessment;
+  return {
+    level: result.level as RiskLevel,
+    matchedCategories: result.category ? [result.category] : [],
+    prohibitedFlags: result.flags.filter((flag) => flag.type === "critical"),
+    legalBasis: result.legalBasis,
+    notes: result.notes,
+  };
+}
+
+function describeSignal(
+  area: keyof ScanReport["complianceSignals"],
+  group: ComplianceSignalGroup,
+  texts: EvidenceMessages
+) {
+  const locations = group.evidence
+    .slice(0, 3)
+    .map((ev) => (ev.line ? `${ev.file}:${ev.line}` : ev.file));
+  const signal = texts.signal(
+    texts.signalAreas[area],
+    texts.signalStatuses[group.status],
+    texts.confidence[group.confidence]
+  );
+  return `${signal}${locations.length > 0 ? ` — ${locations.join(", ")}` : ""}`;
+}
+
+function buildDesign(
+  input: AnnexIVEvidenceInput,
+  texts: EvidenceMessages
+): AnnexIVDetails["design"] {
+  const models = (input.aibom?.components ?? []).filter((c) => c.kind === "model");
+  const providers = input.scan?.aiFootprint.providerHints ?? [];
+  const design = { ...input.details.design };
+  if (!design.modelType && models.length > 0) {
+    design.modelType = models
+      .map((m) => (m.version ? `${m.name} ${m.version}` : m.name))
+      .join(", ");
+  }
+  if (!design.architecture && input.scan?.aiFootprint.usesAI) {
+    design.architecture = texts.architecture(input.scan.aiFootprint.inferenceModes, providers);
+  }
+  return Object.keys(design).length > 0 ? design : undefined;
+}
+
+function buildDatasets(
+  input: AnnexIVEvidenceInput,
+  texts: EvidenceMessages
+): AnnexIVDetails["dataManagement"] {
+  const datasets = [...(input.details.dataManagement?.datasets ?? [])];
+  const named = new Set(datasets.map((d) => d.name));
+  for (const component of input.aibom?.components ?? []) {
+    if (component.kind !== "dataset" || named.has(component.name)) continue;
+    datasets.push({
+      name: component.name,
+      ...(component.version ? { version: component.version } : {}),
+      description: texts.aibomDataset(component.source),
+    });
+  }
+  return datasets.length > 0 ? { datasets } : undefined;
+}
+
+function buildRiskManagement(
+  input: AnnexIVEvidenceInput,
+  texts: EvidenceMessages
+): AnnexIVDetails["riskManagement"] {
+  const { riskManagement } = input.details;
+  const identifiedRisks = [
+    ...(riskManagement?.identifiedRisks ?? []),
+    ...input.assessment.result.flags.map(
+      (flag) => `${flag.message}${flag.articleReference ? ` (${flag.articleReference})` : ""}`
+    ),
+    ...(input.scan?.gaps ?? []).map((gap) =>
+      texts.scannerGap(gap.title, gap.priority, gap.status, gap.id)
+    ),
+  ];
+  return {
+    ...riskManagement,
+    ...(identifiedRisks.length > 0 ? { identifiedRisks } : {}),
+  };
+}
+
+function buildPerformance(
+  input: AnnexIVEvidenceInput,
+  texts: EvidenceMessages
+): AnnexIVStructuredReportV1["section5_performanceAndFairness"] {
+  const biasReports = input.biasReports ?? [];
+  return {
+    ...(input.details.performanceMetrics
+      ? { performanceMetrics: input.details.performanceMetrics }
+      : {}),
+    biasAndFairness: biasReports.map(({ result: { pairs: _pairs, ...result }, ...report }) => ({
+      ...report,
+      result,
+    })),
+    thresholdsAndInterpretationNotes: [...texts.biasNotes],
+  };
+}
+
+function buildBiasMethodology(
+  report: BiasReport | undefined,
+  texts: EvidenceMessages
+): AnnexIVStructuredReportV1["section5_performanceAndFairness"]["biasMethodology"] {
+  if (!report) return undefined;
+  return {
+    method: report.result.method,
+    engine: report.engine,
+    dataset: report.dataset,
+    citation: "Nangia, N., Vania, C., Bhalerao, R., & Bowman, S. R. (2020). CrowS-Pairs.",
+    description: texts.biasMethods[report.result.method],
+  };
+}
+
+/**
+ * Build the Annex IV report from the system details and evidence artifacts.
+ * Details the owners wrote come first; scanner findings, assessment flags and
+ * AI BOM entries are added where they document the same section.
+ */
+export function buildAnnexIVFromEvidence(input: AnnexIVEvidenceInput): AnnexIVStructuredReportV1 {
+  if (input.assessment.questionnaire === "gpai") {
+    throw new Error(
+      "Annex IV documents high-risk AI systems; use an annex-iii or risk assessment instead of the gpai questionnaire"
+    );
+  }
+  const { details, assessment, scan, locale } = input;
+  const texts = getMessages(locale).legalChecks.annexIV.evidence;
+  const level = assessment.result.level as RiskLevel;
+  const runs = (input.biasReports ?? []).flatMap((report) =>
+    report.reproducibility ? [report.reproducibility] : []
+  );
+  // Only areas with findings; missing implementations are listed as scanner
+  // gaps among the identified risks and must not read as documentation
+  const signalNotes = scan
+    ? (["loggingMonitoring", "humanOversight", "incidentReporting"] as const)
+        .filter((area) => ["present", "partial"].includes(scan.complianceSignals[area].status))
+        .map((area) => describeSignal(area, scan.complianceSignals[area], texts))
+    : [];
+  const oversightTemplate = getHumanOversightAndLoggingTemplate(level, locale);
+
+  return buildAnnexIVReportV1({
+    ...(input.tool ? { tool: input.tool } : {}),
+    ...(input.generatedAt ? { generatedAt: input.generatedAt } : {}),
+    legalSources: AI_ACT_SOURCES,
+    ...(runs.length > 0 ? { reproducibility: buildAnnexIVReproducibility(runs, locale) } : {}),
+    provider: details.provider,
+    system: {
+      ...details.system,
+      riskLevel: level,
+      annexIII: annexIIIFromAssessment(assessment, locale),
+    },
+    design: buildDesign(input, texts),
+    dataManagement: buildDatasets(input, texts),
+    riskManagement: buildRiskManagement(input, texts),
+    performanceAndFairness: buildPerformance(input, texts),
+    biasMethodology: buildBiasMethodology(input.biasReports?.[0], texts),
+    humanOversight: {
+      humanOversight: {
+        ...oversightTemplate,
+        recommendations: [...(details.humanOversight ?? []), ...oversightTemplate.recommendations],
+      },
+      loggingNotes: [...(details.loggingNotes ?? []), ...signalNotes],
+    },
+    technicalDocumentation: {
+      artifacts: [...(input.artifacts ?? []), ...(details.artifacts ?? [])],
+      ...(details.changeLog ? { changeLog: details.changeLog } : {}),
+    },
+    // The Annex III gap analysis only depends on the risk level, so it is
+    // derived again to match the document language
+    gapAnalysis: generateAnnexIIIGapAnalysis(
+      { level, score: 0, flags: [], recommendations: [], legalBasis: [] },
+      locale
+    ),
+    ...(locale ? { locale } : {}),
+  });
+}
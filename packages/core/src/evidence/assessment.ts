@@ -0,0 +1,230 @@
+/**
+ * EuConform Evidence Engine — Risk Assessment
+ *
+ * Evaluates answers to one of the classification questionnaires of the web
+ * wizard into the `euconform.assessment.v1` document written by
+ * `euconform assess`, together with the matching gap analysis. Answers kept
+ * in a file next to the code can be re-evaluated in CI.
+ * Pure functions — no side effects, no filesystem operations.
+ */
+
+import {
+  type GapAnalysisResult,
+  generateAnnexIIIGapAnalysis,
+  generateGPAIGapAnalysis,
+} from "../legal-checks/gap-analysis";
+import {
+  type GPAIComplianceResult,
+  classifyGPAICompliance,
+  getGPAIQuestions,
+} from "../legal-checks/gpai-classifier";
+import {
+  annexIIIResultToRiskAssessment,
+  classifyAnnexIIIRisk,
+  getAnnexIIIQuestions,
+  getProhibitedAIScreeningQuestions,
+} from "../legal-checks/risk-classifier";
+import { RISK_QUIZ_QUESTIONS_EN, classifyRisk } from "../risk-engine";
+import type { QuizAnswer, QuizQuestion, RiskAssessment } from "../types";
+import type { AssessmentQuestionnaire, AssessmentReport } from "./types";
+
+export const ASSESSMENT_FILE_NAME = "euconform.assessment.json";
+
+export const ASSESSMENT_QUESTIONNAIRES: AssessmentQuestionnaire[] = ["annex-iii", "gpai", "risk"];
+
+/** Questions to answer for a questionnaire, in the order they are asked */
+export function getAssessmentQuestions(questionnaire: AssessmentQuestionnaire): QuizQuestion[] {
+  switch (questionnaire) {
+    case "annex-iii":
+      return [...getProhibitedAIScreeningQuestions(), ...getAnnexIIIQuestions()];
+    case "gpai":
+      return getGPAIQuestions();
+    case "risk":
+      return RISK_QUIZ_QUESTIONS_EN;
+  }
+}
+
+function isQuestionnaire(value: unknown): value is AssessmentQuestionnaire {
+  return ASSESSMENT_QUESTIONNAIRES.includes(value as AssessmentQuestionnaire);
+}
+
+// ---------------------------------------------------------------------------
+// Answers
+// ---------------------------------------------------------------------------
+
+/** Contents of an answers file (YAML or JSON) */
+export interface AssessmentAnswers {
+  questionnaire?: AssessmentQuestionnaire;
+  system?: string;
+  answers: QuizAnswer[];
+}
+
+function parseAnswerList(raw: unknown): QuizAnswer[] {
+  if (Array.isArray(raw)) {
+    return raw.map((entry, index) => {
+      const item = entry as Partial<QuizAnswer> | null;
+      if (typeof item?.questionId !== "string" || typeof item.value !== "string") {
+        throw new Error(
+          `Invalid answers file: answers[${index}] needs a string 'questionId' and 'value'`
+        );
+      }
+      return { questionId: item.questionId, value: item.value };
+    });
+  }
+  if (raw && typeof raw === "object") {
+    return Object.entries(raw).map(([questionId, value]) => {
+      if (typeof value !== "string") {
+        throw new Error(
+          `Invalid answers file: the answer to '${questionId}' must be a string such as "yes"`
+        );
+      }
+      return { questionId, value };
+    });
+  }
+  throw new Error(
+    "Invalid answers file: 'answers' must map question ids to values or list { questionId, value } entries"
+  );
+}
+
+/**
+ * Read a parsed answers file. `answers` is either a map of question id to
+ * option value or a list of `{ questionId, value }` entries.
+ */
+export function parseAssessmentAnswers(data: unknown): AssessmentAnswers {
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error("Invalid answers file: expected an object with 'answers'");
+  }
+  const obj = data as Record<string, unknown>;
+  if (obj.questionnaire !== undefined && !isQuestionnaire(obj.questionnaire)) {
+    throw new Error(
+      `Invalid answers file: 'questionnaire' must be one of ${ASSESSMENT_QUESTIONNAIRES.join(", ")}`
+    );
+  }
+  if (obj.system !== undefined && typeof obj.system !== "string") {
+    throw new Error("Invalid answers file: 'system' must be a string");
+  }
+  return {
+    ...(obj.questionnaire ? { questionnaire: obj.questionnaire as AssessmentQuestionnaire } : {}),
+    ...(obj.system ? { system: obj.system as string } : {}),
+    answers: parseAnswerList(obj.answers),
+  };
+}
+
+/**
+ * Check answers against the options of the questionnaire. Returns one message
+ * per problem; an empty list means every question has exactly one valid answer.
+ */
+export function validateAssessmentAnswers(
+  questionnaire: AssessmentQuestionnaire,
+  answers: QuizAnswer[]
+): string[] {
+  const questions = new Map(
+    getAssessmentQuestions(questionnaire).map((question) => [question.id, question])
+  );
+  const problems: string[] = [];
+  const seen = new Set<string>();
+
+  for (const answer of answers) {
+    const question = questions.get(answer.questionId);
+    if (!question) {
+      problems.push(
+        `Unknown question '${answer.questionId}' for the ${questionnaire} questionnaire`
+      );
+      continue;
+    }
+    if (seen.has(answer.questionId)) {
+      problems.push(`Question '${answer.questionId}' is answered more than once`);
+    }
+    seen.add(answer.questionId);
+    const values = question.options.map((option) => option.value);
+    if (!values.includes(answer.value)) {
+      problems.push(
+        `Invalid answer '${answer.value}' to '${answer.questionId}'; expected one of: ${values.join(", ")}`
+      );
+    }
+  }
+  for (const id of questions.keys()) {
+    if (!seen.has(id)) problems.push(`Missing answer to '${id}'`);
+  }
+  return problems;
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+function fromRiskAssessment(assessment: RiskAssessment): {
+  result: AssessmentReport["result"];
+  gapAnalysis: GapAnalysisResult;
+} {
+  return {
+    result: {
+      level: assessment.level,
+      ...(assessment.category ? { category: assessment.category } : {}),
+      score: assessment.score,
+      flags: assessment.flags,
+      legalBasis: assessment.legalBasis,
+      notes: assessment.recommendations,
+    },
+    gapAnalysis: generateAnnexIIIGapAnalysis(assessment),
+  };
+}
+
+function fromGPAIResult(gpai: GPAIComplianceResult): {
+  result: AssessmentReport["result"];
+  gapAnalysis: GapAnalysisResult;
+} {
+  return {
+    result: {
+      level: gpai.level,
+      isSystemicRisk: gpai.isSystemicRisk,
+      flags: gpai.flags.map((flag) => ({
+        type: flag.status === "missing" ? "critical" : "warning",
+        message: `${flag.obligation}: ${flag.status}`,
+        articleReference: flag.articleRef,
+      })),
+      legalBasis: gpai.legalBasis,
+      notes: gpai.notes,
+    },
+    gapAnalysis: generateGPAIGapAnalysis(gpai),
+  };
+}
+
+export interface AssessmentReportInput {
+  questionnaire: AssessmentQuestionnaire;
+  answers: QuizAnswer[];
+  system?: string;
+  answersSource?: AssessmentReport["answersSource"];
+  generatedAt: string;
+}
+
+/**
+ * Classify the answers with the questionnaire's classifier and build the
+ * assessment document. Throws when the answers do not fit the questionnaire.
+ */
+export function buildAssessmentReport(input: AssessmentReportInput): AssessmentReport {
+  const problems = validateAssessmentAnswers(input.questionnaire, input.answers);
+  if (problems.length > 0) {
+    throw new Error(`Invalid answers: ${problems.join("; ")}`);
+  }
+
+  const { result, gapAnalysis } =
+    input.questionnaire === "gpai"
+      ? fromGPAIResult(classifyGPAICompliance(input.answers))
+      : fromRiskAssessment(
+          input.questionnaire === "annex-iii"
+            ? annexIIIResultToRiskAssessment(classifyAnnexIIIRisk(input.answers))
+            : classifyRisk(input.answers)
+        );
+
+  return {
+    schemaVersion: "euconform.assessment.v1",
+    generatedAt: input.generatedAt,
+    ...(input.system ? { system: input.system } : {}),
+    questionnaire: input.questionnaire,
+    ...(input.answersSource ? { answersSource: input.answersSource } : {}),
+    answers: input.answers,
+    result,
+    gapAnalysis,
+  };
+}
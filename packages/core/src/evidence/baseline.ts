@@ -0,0 +1,119 @@
+/**
+ * EuConform Evidence Engine — Baseline Suppressions
+ *
+ * Applies accepted gaps and false-positive signals from a baseline document.
+ * Suppressed items are recorded in the report instead of being dropped, and
+ * expired suppressions stop applying. Pure functions — no filesystem access.
+ */
+
+import ignore from "ignore";
+import type {
+  Baseline,
+  BaselineSuppression,
+  DetectedSignal,
+  ExpiredSuppression,
+  ReportSuppressions,
+  ScanGap,
+  SuppressionMeta,
+} from "./types";
+
+export interface BaselineState {
+  active: BaselineSuppression[];
+  suppressions: ReportSuppressions;
+}
+
+function toMeta(suppression: BaselineSuppression): SuppressionMeta {
+  return {
+    justification: suppression.justification,
+    owner: suppression.owner,
+    expires: suppression.expires,
+  };
+}
+
+/** A suppression applies through the end of its expiry date (UTC) */
+export function isSuppressionExpired(suppression: BaselineSuppression, now: Date): boolean {
+  const end = Date.parse(`${suppression.expires}T23:59:59.999Z`);
+  return Number.isNaN(end) || now.getTime() > end;
+}
+
+function toExpired(suppression: BaselineSuppression): ExpiredSuppression {
+  return {
+    target: suppression.gap !== undefined ? "gap" : "signal",
+    id: suppression.gap ?? suppression.signal ?? "",
+    ...(suppression.files ? { files: suppression.files } : {}),
+    ...toMeta(suppression),
+  };
+}
+
+export function createBaselineState(baseline: Baseline, now: Date): BaselineState {
+  const active: BaselineSuppression[] = [];
+  const expired: ExpiredSuppression[] = [];
+
+  for (const suppression of baseline.suppressions) {
+    if (isSuppressionExpired(suppression, now)) {
+      expired.push(toExpired(suppression));
+    } else {
+      active.push(suppression);
+    }
+  }
+
+  return { active, suppressions: { gaps: [], signals: [], expired } };
+}
+
+function removeEvidence(
+  signal: DetectedSignal,
+  suppression: BaselineSuppression
+): { remaining: DetectedSignal | null; removed: number } {
+  if (!suppression.files) {
+    return { remaining: null, removed: signal.evidence.length };
+  }
+
+  const matcher = ignore().add(suppression.files);
+  const kept = signal.evidence.filter((evidence) => !matcher.ignores(evidence.file));
+  const removed = signal.evidence.length - kept.length;
+  return { remaining: kept.length > 0 ? { ...signal, evidence: kept } : null, removed };
+}
+
+/**
+ * Remove suppressed signals, or only their evidence in matching files when the
+ * suppression is scoped with `files`. Records each suppression that matched.
+ */
+export function suppressSignals(signals: DetectedSignal[], state: BaselineState): DetectedSignal[] {
+  const result: DetectedSignal[] = [];
+
+  for (const signal of signals) {
+    let current: DetectedSignal | null = signal;
+    for (const suppression of state.active) {
+      if (!current || suppression.signal !== signal.id) continue;
+      const { remaining, removed } = removeEvidence(current, suppression);
+      if (removed === 0) continue;
+      state.suppressions.signals.push({
+        id: signal.id,
+        name: signal.name,
+        category: signal.category,
+        ...(suppression.files ? { files: suppression.files } : {}),
+        evidenceCount: removed,
+        ...toMeta(suppression),
+      });
+      current = remaining;
+    }
+    if (current) result.push(current);
+  }
+
+  return result;
+}
+
+export function suppressGaps(gaps: ScanGap[], state: BaselineState): ScanGap[] {
+  return gaps.filter((gap) => {
+    const suppression = state.active.find((candidate) => candidate.gap === gap.id);
+    if (!suppression) return true;
+    state.suppressions.gaps.push({
+      id: gap.id,
+      title: gap.title,
+      priority: gap.priority,
+      status: gap.status,
+      ...toMeta(suppression),
+    });
+    return false;
+  });
+}
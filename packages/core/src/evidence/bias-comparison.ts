@@ -0,0 +1,254 @@
+/**
+ * EuConform Evidence Engine — Bias Comparison
+ *
+ * Compares two `euconform.bias.v1` reports of the same dataset and method
+ * (baseline → candidate), e.g. before and after a base-model swap. Pairs are
+ * matched by id, so the significance test is paired: an exact McNemar test on
+ * the pairs whose stereotype preference flipped between the two runs.
+ * Pure functions — no side effects, no filesystem operations.
+ */
+
+import { binomialTest, bootstrapMeanCI } from "../metrics/bias-statistics";
+import type { BootstrapConfidenceInterval, CrowsPairsPairResult } from "../types";
+import type { BiasReport } from "./types";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface BiasComparisonOptions {
+  /** Significance level of the McNemar test (default 0.05) */
+  alpha?: number;
+  /** Seed for the bootstrap CI of the score delta (default 42) */
+  seed?: number;
+}
+
+/** Exact McNemar test: discordant pairs compared against a 50/50 split */
+export interface McNemarTestResult {
+  test: "mcnemar-exact";
+  /** Pairs preferring the stereotype in the candidate only */
+  toStereotypical: number;
+  /** Pairs preferring the stereotype in the baseline only */
+  fromStereotypical: number;
+  pValue: number;
+  alpha: number;
+  significant: boolean;
+}
+
+export interface BiasScoreDelta {
+  /** "overall" or a bias type */
+  scope: string;
+  /** Pairs evaluated in both runs; all values below are computed on these */
+  pairs: number;
+  baseline: { score: number; stereotypicalPreference: number };
+  candidate: { score: number; stereotypicalPreference: number };
+  scoreDelta: number;
+  /** Percentage points */
+  preferenceDelta: number;
+  /** Paired bootstrap CI of the mean per-pair score change */
+  scoreDeltaCI: BootstrapConfidenceInterval;
+  significance: McNemarTestResult;
+  /** Whether the stereotypical preference moved away from or towards 50% */
+  direction: "more-biased" | "less-biased" | "unchanged";
+  /** More biased and statistically significant */
+  regression: boolean;
+}
+
+export interface BiasRunSummary {
+  model: string;
+  modelDigest?: string;
+  generatedAt: string;
+}
+
+export interface BiasComparison {
+  dataset: { name: string; sha256: string };
+  method: BiasReport["result"]["method"];
+  baseline: BiasRunSummary;
+  candidate: BiasRunSummary;
+  overall: BiasScoreDelta;
+  byBiasType: BiasScoreDelta[];
+  /** True when the candidate is significantly more biased overall */
+  regression: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Comparison
+// ---------------------------------------------------------------------------
+
+/** Model, digest and date identifying a bias run; shared with the replay drift report */
+export function summarizeRun(report: BiasReport): BiasRunSummary {
+  return {
+    model: report.model,
+    ...(report.modelDigest ? { modelDigest: report.modelDigest } : {}),
+    generatedAt: report.generatedAt,
+  };
+}
+
+function requirePairs(report: BiasReport, label: string): CrowsPairsPairResult[] {
+  const pairs = report.result.pairs;
+  if (!pairs || pairs.length === 0) {
+    throw new Error(`The ${label} bias report has no per-pair results to compare`);
+  }
+  return pairs;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function preference(scores: number[]): number {
+  return (scores.filter((score) => score > 0).length / scores.length) * 100;
+}
+
+function compareMatchedPairs(
+  scope: string,
+  matched: Array<[CrowsPairsPairResult, CrowsPairsPairResult]>,
+  alpha: number,
+  seed: number
+): BiasScoreDelta {
+  const baselineScores = matched.map(([baseline]) => baseline.score);
+  const candidateScores = matched.map(([, candidate]) => candidate.score);
+  const toStereotypical = matched.filter(([b, c]) => b.score <= 0 && c.score > 0).length;
+  const fromStereotypical = matched.filter(([b, c]) => b.score > 0 && c.score <= 0).length;
+  const test = binomialTest(toStereotypical, toStereotypical + fromStereotypical, 0.5, alpha);
+
+  const baselinePreference = preference(baselineScores);
+  const candidatePreference = preference(candidateScores);
+  const distanceChange = Math.abs(candidatePreference - 50) - Math.abs(baselinePreference - 50);
+  const direction =
+    distanceChange > 0 ? "more-biased" : distanceChange < 0 ? "less-biased" : "unchanged";
+
+  return {
+    scope,
+    pairs: matched.length,
+    baseline: {
+      score: Number(mean(baselineScores).toFixed(6)),
+      stereotypicalPreference: Number(baselinePreference.toFixed(2)),
+    },
+    candidate: {
+      score: Number(mean(candidateScores).toFixed(6)),
+      stereotypicalPreference: Number(candidatePreference.toFixed(2)),
+    },
+    scoreDelta: Number((mean(candidateScores) - mean(baselineScores)).toFixed(6)),
+    preferenceDelta: Number((candidatePreference - baselinePreference).toFixed(2)),
+    scoreDeltaCI: bootstrapMeanCI(
+      matched.map(([baseline, candidate]) => candidate.score - baseline.score),
+      { seed }
+    ),
+    significance: {
+      test: "mcnemar-exact",
+      toStereotypical,
+      fromStereotypical,
+      pValue: test.pValue,
+      alpha,
+      significant: test.significant,
+    },
+    direction,
+    regression: direction === "more-biased" && test.significant,
+  };
+}
+
+/**
+ * Compare a candidate bias report against a baseline. Both must evaluate the
+ * same dataset (by SHA-256) with the same method; otherwise the scores are
+ * not comparable and this throws.
+ */
+export function compareBiasReports(
+  baseline: BiasReport,
+  candidate: BiasReport,
+  options: BiasComparisonOptions = {}
+): BiasComparison {
+  const alpha = options.alpha ?? 0.05;
+  const seed = options.seed ?? 42;
+
+  if (baseline.datasetSha256 !== candidate.datasetSha256) {
+    throw new Error(
+      `Bias reports use different datasets (${baseline.dataset} ${baseline.datasetSha256.slice(0, 12)} vs. ${candidate.dataset} ${candidate.datasetSha256.slice(0, 12)})`
+    );
+  }
+  if (baseline.result.method !== candidate.result.method) {
+    throw new Error(
+      `Bias reports use different methods (${baseline.result.method} vs. ${candidate.result.method})`
+    );
+  }
+
+  const candidatePairs = new Map(requirePairs(candidate, "candidate").map((p) => [p.id, p]));
+  const matched: Array<[CrowsPairsPairResult, CrowsPairsPairResult]> = [];
+  for (const pair of requirePairs(baseline, "baseline")) {
+    const other = candidatePairs.get(pair.id);
+    if (other) matched.push([pair, other]);
+  }
+  if (matched.length === 0) {
+    throw new Error("Bias reports have no sentence pairs in common");
+  }
+
+  const byType = new Map<string, Array<[CrowsPairsPairResult, CrowsPairsPairResult]>>();
+  for (const entry of matched) {
+    const group = byType.get(entry[0].biasType) ?? [];
+    group.push(entry);
+    byType.set(entry[0].biasType, group);
+  }
+
+  const overall = compareMatchedPairs("overall", matched, alpha, seed);
+  return {
+    dataset: { name: candidate.dataset, sha256: candidate.datasetSha256 },
+    method: candidate.result.method,
+    baseline: summarizeRun(baseline),
+    candidate: summarizeRun(candidate),
+    overall,
+    byBiasType: [...byType]
+      .sort(([a, x], [b, y]) => y.length - x.length || a.localeCompare(b))
+      .map(([biasType, pairs]) => compareMatchedPairs(biasType, pairs, alpha, seed)),
+    regression: overall.regression,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+function formatSigned(value: number, digits: number): string {
+  return `${value > 0 ? "+" : ""}${value.toFixed(digits)}`;
+}
+
+function formatRun(run: BiasRunSummary): string {
+  const digest = run.modelDigest ? ` (${run.modelDigest.slice(0, 12)})` : "";
+  return `${run.model}${digest}, ${run.generatedAt}`;
+}
+
+function formatDeltaRow(delta: BiasScoreDelta): string {
+  const { significance: test } = delta;
+  const pValue = test.pValue < 0.0001 ? "< 0.0001" : test.pValue.toFixed(4);
+  const status = delta.regression ? "**regression**" : delta.direction;
+  return (
+    `| ${delta.scope} | ${delta.pairs} | ${delta.baseline.score.toFixed(4)} → ` +
+    `${delta.candidate.score.toFixed(4)} | ${formatSigned(delta.scoreDelta, 4)} ` +
+    `[${delta.scoreDeltaCI.lower.toFixed(4)}, ${delta.scoreDeltaCI.upper.toFixed(4)}] | ` +
+    `${delta.baseline.stereotypicalPreference.toFixed(1)}% → ` +
+    `${delta.candidate.stereotypicalPreference.toFixed(1)}% | ` +
+    `${test.toStereotypical}/${test.fromStereotypical} | ${pValue} | ${status} |`
+  );
+}
+
+export function renderBiasComparisonMarkdown(comparison: BiasComparison): string {
+  const { overall } = comparison;
+  return [
+    "# EuConform Bias Comparison",
+    "",
+    `> Baseline: ${formatRun(comparison.baseline)}`,
+    `> Candidate: ${formatRun(comparison.candidate)}`,
+    `> Dataset: ${comparison.dataset.name} (sha256 ${comparison.dataset.sha256.slice(0, 12)}), method ${comparison.method}`,
+    "",
+    comparison.regression
+      ? "**Result:** regression detected — the candidate is significantly more biased"
+      : "**Result:** no regression",
+    "",
+    "| Scope | Pairs | Score | Δ Score [95% CI] | Stereotypical Preference | Flips to/from | p-value | Status |",
+    "|-------|-------|-------|------------------|--------------------------|---------------|---------|--------|",
+    formatDeltaRow(overall),
+    ...comparison.byBiasType.map(formatDeltaRow),
+    "",
+    `Significance: exact McNemar test on pairs whose stereotypical preference flipped (α = ${overall.significance.alpha}). Per-bias-type rows are for orientation; only the overall row decides the result.`,
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,219 @@
+/**
+ * EuConform Evidence Engine — Bias Replay Drift
+ *
+ * Compares a replayed bias run (`euconform bias --replay`) with the report it
+ * repeats. Unlike a model comparison, nothing is expected to change: any pair
+ * score outside the tolerance is drift, and differing parameters from the
+ * reproducibility block (model digest, engine version, ...) are listed as
+ * likely causes. Pure functions — no side effects, no filesystem operations.
+ */
+
+import type { BiasReproducibility, CrowsPairsPairResult } from "../types";
+import { type BiasRunSummary, summarizeRun } from "./bias-comparison";
+import type { BiasReport } from "./types";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Largest per-pair score difference still treated as numerical noise */
+export const DEFAULT_REPLAY_TOLERANCE = 1e-4;
+
+export interface BiasReplayParameterChange {
+  /** Dotted path in the reproducibility block, e.g. "model.digest" */
+  field: string;
+  original: string;
+  replay: string;
+}
+
+export interface BiasReplayValueDrift {
+  original: number;
+  replay: number;
+  delta: number;
+}
+
+export interface BiasReplayDrift {
+  original: BiasRunSummary;
+  replay: BiasRunSummary;
+  tolerance: number;
+  /** Recorded parameters or environment that differ between the runs */
+  parameterChanges: BiasReplayParameterChange[];
+  score: BiasReplayValueDrift;
+  stereotypicalPreference: BiasReplayValueDrift;
+  pairs: {
+    /** Pairs evaluated in both runs */
+    compared: number;
+    /** Compared pairs whose score moved by more than the tolerance */
+    drifted: number;
+    maxAbsScoreDelta: number;
+    /** Pairs measured with a different method (exact vs. latency fallback) */
+    methodChangedPairIds: number[];
+    /** Pairs in the original result that the replay did not evaluate */
+    missingPairIds: number[];
+  };
+  /** Every original pair was re-evaluated with the same method and score */
+  reproduced: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Drift detection
+// ---------------------------------------------------------------------------
+
+function requireReproducibility(report: BiasReport, label: string): BiasReproducibility {
+  if (!report.reproducibility) {
+    throw new Error(`The ${label} bias report has no reproducibility block`);
+  }
+  return report.reproducibility;
+}
+
+/** Fields whose change can explain drift; run outcomes are compared separately */
+function reproducibilityFields(block: BiasReproducibility): Record<string, unknown> {
+  return {
+    "tool.version": block.tool.version,
+    "engine.name": block.engine.name,
+    "engine.version": block.engine.version,
+    "model.name": block.model.name,
+    "model.digest": block.model.digest,
+    "model.quantization": block.model.quantization,
+    "model.parameterSize": block.model.parameterSize,
+    "model.format": block.model.format,
+    generationOptions: block.generationOptions,
+    "dataset.sha256": block.dataset.sha256,
+    seed: block.seed,
+    bootstrapIterations: block.bootstrapIterations,
+  };
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return "—";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function diffParameters(
+  original: BiasReproducibility,
+  replay: BiasReproducibility
+): BiasReplayParameterChange[] {
+  const before = reproducibilityFields(original);
+  const after = reproducibilityFields(replay);
+  return Object.keys(before)
+    .map((field) => ({
+      field,
+      original: formatValue(before[field]),
+      replay: formatValue(after[field]),
+    }))
+    .filter((change) => change.original !== change.replay);
+}
+
+function valueDrift(original: number, replay: number): BiasReplayValueDrift {
+  return { original, replay, delta: Number((replay - original).toFixed(6)) };
+}
+
+/**
+ * Compare a replayed run with the original report. Both need per-pair results
+ * and a reproducibility block.
+ */
+export function detectBiasReplayDrift(
+  original: BiasReport,
+  replay: BiasReport,
+  options: { tolerance?: number } = {}
+): BiasReplayDrift {
+  const tolerance = options.tolerance ?? DEFAULT_REPLAY_TOLERANCE;
+  const parameterChanges = diffParameters(
+    requireReproducibility(original, "original"),
+    requireReproducibility(replay, "replayed")
+  );
+
+  const replayPairs = new Map<number, CrowsPairsPairResult>(
+    (replay.result.pairs ?? []).map((pair) => [pair.id, pair])
+  );
+  let compared = 0;
+  let drifted = 0;
+  let maxAbsScoreDelta = 0;
+  const methodChangedPairIds: number[] = [];
+  const missingPairIds: number[] = [];
+  for (const pair of original.result.pairs ?? []) {
+    const other = replayPairs.get(pair.id);
+    if (!other) {
+      missingPairIds.push(pair.id);
+      continue;
+    }
+    compared++;
+    const delta = Math.abs(other.score - pair.score);
+    maxAbsScoreDelta = Math.max(maxAbsScoreDelta, delta);
+    if (delta > tolerance) drifted++;
+    if (other.method !== pair.method) methodChangedPairIds.push(pair.id);
+  }
+
+  return {
+    original: summarizeRun(original),
+    replay: summarizeRun(replay),
+    tolerance,
+    parameterChanges,
+    score: valueDrift(original.result.score, replay.result.score),
+    stereotypicalPreference: valueDrift(
+      original.result.stereotypicalPreference,
+      replay.result.stereotypicalPreference
+    ),
+    pairs: {
+      compared,
+      drifted,
+      maxAbsScoreDelta: Number(maxAbsScoreDelta.toFixed(6)),
+      methodChangedPairIds,
+      missingPairIds,
+    },
+    reproduced:
+      compared > 0 &&
+      drifted === 0 &&
+      methodChangedPairIds.length === 0 &&
+      missingPairIds.length === 0,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+function formatIds(ids: number[]): string {
+  if (ids.length === 0) return "none";
+  const shown = ids.slice(0, 20).join(", ");
+  return ids.length > 20 ? `${shown} … (${ids.length} total)` : shown;
+}
+
+export function renderBiasReplayMarkdown(drift: BiasReplayDrift): string {
+  const { pairs } = drift;
+  const lines = [
+    "# EuConform Bias Replay",
+    "",
+    `> Original: ${drift.original.model}, ${drift.original.generatedAt}`,
+    `> Replay: ${drift.replay.model}, ${drift.replay.generatedAt}`,
+    "",
+    drift.reproduced
+      ? `**Result:** reproduced — every pair score is within ${drift.tolerance} of the original`
+      : "**Result:** drift detected",
+    "",
+    "| Value | Original | Replay | Δ |",
+    "|-------|----------|--------|---|",
+    `| Score | ${drift.score.original.toFixed(6)} | ${drift.score.replay.toFixed(6)} | ${drift.score.delta} |`,
+    `| Stereotypical Preference | ${drift.stereotypicalPreference.original.toFixed(2)}% | ${drift.stereotypicalPreference.replay.toFixed(2)}% | ${drift.stereotypicalPreference.delta} |`,
+    "",
+    `- Pairs compared: ${pairs.compared}`,
+    `- Pairs outside tolerance: ${pairs.drifted} (max |Δ score| ${pairs.maxAbsScoreDelta})`,
+    `- Method changed: ${formatIds(pairs.methodChangedPairIds)}`,
+    `- Not re-evaluated: ${formatIds(pairs.missingPairIds)}`,
+    "",
+    "## Parameter Changes",
+    "",
+  ];
+
+  if (drift.parameterChanges.length === 0) {
+    lines.push("None — the replay used the recorded parameters and environment.", "");
+  } else {
+    lines.push("| Field | Original | Replay |", "|-------|----------|--------|");
+    for (const change of drift.parameterChanges) {
+      lines.push(`| ${change.field} | ${change.original} | ${change.replay} |`);
+    }
+    lines.push("");
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,107 @@
+/**
+ * EuConform Evidence Engine — Bias Report
+ *
+ * Turns a CrowS-Pairs bias result into the `euconform.bias.v1` document that
+ * is written next to the scan artifacts and referenced from the bundle.
+ * Pure functions — no side effects, no filesystem operations.
+ */
+
+import { DEFAULT_BOOTSTRAP_ITERATIONS, DEFAULT_BOOTSTRAP_SEED } from "../metrics/bias-statistics";
+import type {
+  BiasCalculationMethod,
+  BiasEngine,
+  BiasReproducibility,
+  CrowsPairsBiasResult,
+  CrowsPairsPairResult,
+} from "../types";
+import type { BiasReport } from "./types";
+
+export const BIAS_FILE_NAME = "euconform.bias.json";
+
+export interface BiasReportInput {
+  model: string;
+  modelDigest?: string;
+  engine: BiasEngine;
+  dataset: {
+    name: string;
+    source: BiasReport["datasetSource"];
+    sha256: string;
+  };
+  result: CrowsPairsBiasResult;
+  reproducibility?: BiasReproducibility;
+  generatedAt: string;
+}
+
+export interface BiasReproducibilityInput {
+  tool: BiasReproducibility["tool"];
+  engine: BiasReproducibility["engine"];
+  model: BiasReproducibility["model"];
+  generationOptions: BiasReproducibility["generationOptions"];
+  dataset: Omit<BiasReproducibility["dataset"], "pairs"> & {
+    /** Ids of all pairs in the dataset, evaluated or not */
+    pairIds: number[];
+  };
+  seed?: number;
+  bootstrapIterations?: number;
+  /** Per-pair results of the run */
+  pairs: CrowsPairsPairResult[];
+}
+
+export function buildBiasReport(input: BiasReportInput): BiasReport {
+  const { model, engine, dataset, result } = input;
+  return {
+    schemaVersion: "euconform.bias.v1",
+    generatedAt: input.generatedAt,
+    model,
+    ...(input.modelDigest ? { modelDigest: input.modelDigest } : {}),
+    engine,
+    dataset: dataset.name,
+    datasetSource: dataset.source,
+    datasetSha256: dataset.sha256,
+    ...(input.reproducibility ? { reproducibility: input.reproducibility } : {}),
+    result: {
+      score: result.score,
+      method: result.method,
+      pairsAnalyzed: result.pairsAnalyzed,
+      stereotypicalPreference: result.stereotypicalPreference,
+      confidenceInterval: result.confidenceInterval,
+      significance: result.significance,
+      byBiasType: result.byBiasType,
+      pairs: result.pairs,
+    },
+  };
+}
+
+/**
+ * Record the parameters of a run, including which pairs it covers and which
+ * fell back to the latency method, so `euconform bias --replay` can repeat it
+ */
+export function buildBiasReproducibility(input: BiasReproducibilityInput): BiasReproducibility {
+  const { pairIds, ...dataset } = input.dataset;
+  const evaluated = new Set(input.pairs.map((pair) => pair.id));
+  const counts: Partial<Record<BiasCalculationMethod, number>> = {};
+  for (const pair of input.pairs) {
+    counts[pair.method] = (counts[pair.method] ?? 0) + 1;
+  }
+
+  return {
+    tool: input.tool,
+    engine: input.engine,
+    model: input.model,
+    generationOptions: input.generationOptions,
+    dataset: { ...dataset, pairs: pairIds.length },
+    sampleSelection: {
+      strategy: "all",
+      evaluated: input.pairs.length,
+      excludedPairIds: pairIds.filter((id) => !evaluated.has(id)),
+    },
+    seed: input.seed ?? DEFAULT_BOOTSTRAP_SEED,
+    bootstrapIterations: input.bootstrapIterations ?? DEFAULT_BOOTSTRAP_ITERATIONS,
+    methods: {
+      counts,
+      fallbackPairIds: input.pairs
+        .filter((pair) => pair.method === "logprobs_fallback_latency")
+        .map((pair) => pair.id),
+    },
+  };
+}
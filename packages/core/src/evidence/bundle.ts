@@ -1,4 +1,5 @@
 import { sha256Hex } from "./hash";
+import { SARIF_MIME_TYPE } from "./sarif";
 import type { BundleArtifactRef, BundleArtifactRole, ScanBundle } from "./types";
 
 interface ArtifactInput {
@@ -11,6 +12,8 @@ interface BuildBundleOptions {
   aibom?: ArtifactInput;
   ci?: ArtifactInput;
   summary?: ArtifactInput;
+  sarif?: ArtifactInput;
+  bias?: ArtifactInput;
   tool: { name: string; version: string };
   target: { name: string; rootPath: string };
   generatedAt: string;
@@ -28,7 +31,8 @@ function extractSchemaVersion(content: string): string | undefined {
 function makeArtifactRef(
   role: BundleArtifactRole,
   input: ArtifactInput,
-  required: boolean
+  required: boolean,
+  mimeType?: string
 ): BundleArtifactRef {
   const isJson = input.fileName.endsWith(".json");
   const ref: BundleArtifactRef = {
@@ -38,7 +42,9 @@ function makeArtifactRef(
     required,
   };
 
-  if (isJson) {
+  if (mimeType) {
+    ref.mimeType = mimeType;
+  } else if (isJson) {
     const sv = extractSchemaVersion(input.content);
     if (sv) ref.schemaVersion = sv;
   } else {
@@ -48,15 +54,26 @@ function makeArtifactRef(
   return ref;
 }
 
+/** Emit the oldest bundle revision that knows every included role */
+function bundleSchemaVersion(opts: BuildBundleOptions): ScanBundle["schemaVersion"] {
+  if (opts.bias) return "euconform.bundle.v1.2";
+  if (opts.sarif) return "euconform.bundle.v1.1";
+  return "euconform.bundle.v1";
+}
+
 export function buildBundleManifest(opts: BuildBundleOptions): ScanBundle {
   const artifacts: BundleArtifactRef[] = [makeArtifactRef("report", opts.report, true)];
 
   if (opts.aibom) artifacts.push(makeArtifactRef("aibom", opts.aibom, false));
   if (opts.ci) artifacts.push(makeArtifactRef("ci", opts.ci, false));
   if (opts.summary) artifacts.push(makeArtifactRef("summary", opts.summary, false));
+  if (opts.sarif) {
+    artifacts.push(makeArtifactRef("sarif", opts.sarif, false, SARIF_MIME_TYPE));
+  }
+  if (opts.bias) artifacts.push(makeArtifactRef("bias", opts.bias, false));
 
   return {
-    schemaVersion: "euconform.bundle.v1",
+    schemaVersion: bundleSchemaVersion(opts),
     generatedAt: opts.generatedAt,
     tool: opts.tool,
     target: opts.target,
@@ -0,0 +1,325 @@
+/**
+ * EuConform Evidence Engine — Scan Diff
+ *
+ * Compares two scan outputs (base → head) and reports what changed:
+ * gaps, compliance signal status, AI BOM components, and open questions.
+ * Pure functions — no side effects, no filesystem operations.
+ */
+
+import { COMPLIANCE_LABELS, type ComplianceArea, STATUS_LABELS, bomKindLabel } from "./markdown";
+import type {
+  AiBillOfMaterials,
+  BomComponent,
+  ComplianceSignalGroup,
+  ScanGap,
+  ScanReport,
+} from "./types";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ScanDiffInput {
+  report: ScanReport;
+  /** Optional — component changes are only reported when both sides have one */
+  aibom?: AiBillOfMaterials;
+}
+
+export type ChangeDirection = "improved" | "regressed" | "changed";
+
+export interface GapChange {
+  id: string;
+  title: string;
+  from: Pick<ScanGap, "priority" | "status">;
+  to: Pick<ScanGap, "priority" | "status">;
+  direction: ChangeDirection;
+}
+
+export interface ComplianceStatusChange {
+  area: ComplianceArea;
+  from: ComplianceSignalGroup["status"];
+  to: ComplianceSignalGroup["status"];
+  direction: ChangeDirection;
+}
+
+export interface ComponentVersionChange {
+  kind: BomComponent["kind"];
+  name: string;
+  fromVersion?: string;
+  toVersion?: string;
+}
+
+export interface ScanDiff {
+  base: { name: string; generatedAt: string };
+  head: { name: string; generatedAt: string };
+  gaps: {
+    added: ScanGap[];
+    resolved: ScanGap[];
+    changed: GapChange[];
+  };
+  complianceSignals: ComplianceStatusChange[];
+  components: {
+    added: BomComponent[];
+    removed: BomComponent[];
+    changed: ComponentVersionChange[];
+  } | null;
+  openQuestions: {
+    added: string[];
+    resolved: string[];
+  };
+  /** True when head introduces gaps, worsens a gap, or downgrades a compliance area */
+  regression: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Comparison helpers
+// ---------------------------------------------------------------------------
+
+const PRIORITY_RANK: Record<ScanGap["priority"], number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+  critical: 3,
+};
+
+const GAP_STATUS_RANK: Record<ScanGap["status"], number> = {
+  partial: 0,
+  missing: 1,
+};
+
+/** "unknown" is not ranked: transitions to or from it are reported as neutral changes */
+const SIGNAL_STATUS_RANK: Partial<Record<ComplianceSignalGroup["status"], number>> = {
+  absent: 0,
+  partial: 1,
+  present: 2,
+};
+
+function compareRanks(from: number | undefined, to: number | undefined): ChangeDirection {
+  if (from === undefined || to === undefined || from === to) return "changed";
+  return to > from ? "improved" : "regressed";
+}
+
+function gapDirection(from: ScanGap, to: ScanGap): ChangeDirection {
+  const severityDelta =
+    PRIORITY_RANK[to.priority] -
+    PRIORITY_RANK[from.priority] +
+    GAP_STATUS_RANK[to.status] -
+    GAP_STATUS_RANK[from.status];
+  if (severityDelta > 0) return "regressed";
+  if (severityDelta < 0) return "improved";
+  return "changed";
+}
+
+function diffGaps(base: ScanGap[], head: ScanGap[]): ScanDiff["gaps"] {
+  const baseById = new Map(base.map((gap) => [gap.id, gap]));
+  const headIds = new Set(head.map((gap) => gap.id));
+
+  const added: ScanGap[] = [];
+  const changed: GapChange[] = [];
+  for (const gap of head) {
+    const previous = baseById.get(gap.id);
+    if (!previous) {
+      added.push(gap);
+      continue;
+    }
+    if (previous.priority === gap.priority && previous.status === gap.status) continue;
+    changed.push({
+      id: gap.id,
+      title: gap.title,
+      from: { priority: previous.priority, status: previous.status },
+      to: { priority: gap.priority, status: gap.status },
+      direction: gapDirection(previous, gap),
+    });
+  }
+
+  return { added, resolved: base.filter((gap) => !headIds.has(gap.id)), changed };
+}
+
+function diffComplianceSignals(base: ScanReport, head: ScanReport): ComplianceStatusChange[] {
+  const changes: ComplianceStatusChange[] = [];
+  for (const area of Object.keys(COMPLIANCE_LABELS) as ComplianceArea[]) {
+    const from = base.complianceSignals[area].status;
+    const to = head.complianceSignals[area].status;
+    if (from === to) continue;
+    changes.push({
+      area,
+      from,
+      to,
+      direction: compareRanks(SIGNAL_STATUS_RANK[from], SIGNAL_STATUS_RANK[to]),
+    });
+  }
+  return changes;
+}
+
+/** Components are matched by kind and name so version bumps are not reported as add + remove */
+function componentKey(component: BomComponent): string {
+  return `${component.kind}:${component.name}`;
+}
+
+function diffComponents(
+  base: AiBillOfMaterials | undefined,
+  head: AiBillOfMaterials | undefined
+): ScanDiff["components"] {
+  if (!base || !head) return null;
+
+  const baseByKey = new Map(base.components.map((c) => [componentKey(c), c]));
+  const headKeys = new Set(head.components.map(componentKey));
+
+  const added: BomComponent[] = [];
+  const changed: ComponentVersionChange[] = [];
+  for (const component of head.components) {
+    const previous = baseByKey.get(componentKey(component));
+    if (!previous) {
+      added.push(component);
+    } else if (previous.version !== component.version) {
+      changed.push({
+        kind: component.kind,
+        name: component.name,
+        fromVersion: previous.version,
+        toVersion: component.version,
+      });
+    }
+  }
+
+  return {
+    added,
+    removed: base.components.filter((c) => !headKeys.has(componentKey(c))),
+    changed,
+  };
+}
+
+function diffStrings(base: string[], head: string[]): { added: string[]; resolved: string[] } {
+  const baseSet = new Set(base);
+  const headSet = new Set(head);
+  return {
+    added: head.filter((item) => !baseSet.has(item)),
+    resolved: base.filter((item) => !headSet.has(item)),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Main exports
+// ---------------------------------------------------------------------------
+
+export function diffScanOutputs(base: ScanDiffInput, head: ScanDiffInput): ScanDiff {
+  const gaps = diffGaps(base.report.gaps, head.report.gaps);
+  const complianceSignals = diffComplianceSignals(base.report, head.report);
+
+  const regression =
+    gaps.added.length > 0 ||
+    gaps.changed.some((change) => change.direction === "regressed") ||
+    complianceSignals.some((change) => change.direction === "regressed");
+
+  return {
+    base: { name: base.report.target.name, generatedAt: base.report.generatedAt },
+    head: { name: head.report.target.name, generatedAt: head.report.generatedAt },
+    gaps,
+    complianceSignals,
+    components: diffComponents(base.aibom, head.aibom),
+    openQuestions: diffStrings(
+      base.report.assessmentHints.openQuestions,
+      head.report.assessmentHints.openQuestions
+    ),
+    regression,
+  };
+}
+
+const DIRECTION_MARKERS: Record<ChangeDirection, string> = {
+  improved: "improved",
+  regressed: "**regressed**",
+  changed: "changed",
+};
+
+function buildGapSection(gaps: ScanDiff["gaps"]): string {
+  const lines = ["## Gaps", ""];
+  if (gaps.added.length + gaps.resolved.length + gaps.changed.length === 0) {
+    lines.push("No gap changes.");
+    return lines.join("\n");
+  }
+
+  for (const gap of gaps.added) {
+    lines.push(`- **New** [${gap.priority.toUpperCase()}] ${gap.title} (\`${gap.id}\`)`);
+  }
+  for (const change of gaps.changed) {
+    lines.push(
+      `- ${DIRECTION_MARKERS[change.direction]}: ${change.title} (\`${change.id}\`) ${change.from.priority}/${change.from.status} → ${change.to.priority}/${change.to.status}`
+    );
+  }
+  for (const gap of gaps.resolved) {
+    lines.push(`- Resolved [${gap.priority.toUpperCase()}] ${gap.title} (\`${gap.id}\`)`);
+  }
+  return lines.join("\n");
+}
+
+function buildComplianceSection(changes: ComplianceStatusChange[]): string {
+  const lines = ["## Compliance Signals", ""];
+  if (changes.length === 0) {
+    lines.push("No status changes.");
+    return lines.join("\n");
+  }
+
+  lines.push("| Area | Before | After | Change |");
+  lines.push("|------|--------|-------|--------|");
+  for (const change of changes) {
+    lines.push(
+      `| ${COMPLIANCE_LABELS[change.area]} | ${STATUS_LABELS[change.from]} | ${STATUS_LABELS[change.to]} | ${DIRECTION_MARKERS[change.direction]} |`
+    );
+  }
+  return lines.join("\n");
+}
+
+function buildComponentSection(components: ScanDiff["components"]): string {
+  const lines = ["## AI BOM Components", ""];
+  if (!components) {
+    lines.push("Not compared (AI BOM missing on one side).");
+    return lines.join("\n");
+  }
+  if (components.added.length + components.removed.length + components.changed.length === 0) {
+    lines.push("No component changes.");
+    return lines.join("\n");
+  }
+
+  for (const c of components.added) {
+    lines.push(`- Added ${bomKindLabel(c.kind)}: ${c.name}${c.version ? ` ${c.version}` : ""}`);
+  }
+  for (const c of components.changed) {
+    lines.push(
+      `- Updated ${bomKindLabel(c.kind)}: ${c.name} ${c.fromVersion ?? "(none)"} → ${c.toVersion ?? "(none)"}`
+    );
+  }
+  for (const c of components.removed) {
+    lines.push(`- Removed ${bomKindLabel(c.kind)}: ${c.name}${c.version ? ` ${c.version}` : ""}`);
+  }
+  return lines.join("\n");
+}
+
+function buildOpenQuestionSection(openQuestions: ScanDiff["openQuestions"]): string {
+  const lines = ["## Open Questions", ""];
+  if (openQuestions.added.length + openQuestions.resolved.length === 0) {
+    lines.push("No changes.");
+    return lines.join("\n");
+  }
+
+  for (const question of openQuestions.added) lines.push(`- New: ${question}`);
+  for (const question of openQuestions.resolved) lines.push(`- No longer raised: ${question}`);
+  return lines.join("\n");
+}
+
+export function renderScanDiffMarkdown(diff: ScanDiff): string {
+  const sections = [
+    [
+      "# EuConform Scan Diff",
+      "",
+      `> Base: ${diff.base.name} (${diff.base.generatedAt})`,
+      `> Head: ${diff.head.name} (${diff.head.generatedAt})`,
+      "",
+      diff.regression ? "**Result:** regression detected" : "**Result:** no regression",
+    ].join("\n"),
+    buildGapSection(diff.gaps),
+    buildComplianceSection(diff.complianceSignals),
+    buildComponentSection(diff.components),
+    buildOpenQuestionSection(diff.openQuestions),
+  ];
+
+  return `${sections.join("\n\n")}\n`;
+}
@@ -0,0 +1,41 @@
+/**
+ * EuConform Evidence Engine — Fairness Report
+ *
+ * Turns a tabular fairness audit into the `euconform.fairness.v1` document
+ * (Art. 10 evidence for classifiers) written by `euconform fairness`.
+ * Pure functions — no side effects, no filesystem operations.
+ */
+
+import type { TabularFairnessResult } from "../legal-checks/tabular-fairness";
+import type { FairnessReport } from "./types";
+
+export const FAIRNESS_FILE_NAME = "euconform.fairness.json";
+
+export interface FairnessReportInput {
+  model?: string;
+  predictions: FairnessReport["predictions"];
+  result: TabularFairnessResult;
+  generatedAt: string;
+}
+
+export function buildFairnessReport(input: FairnessReportInput): FairnessReport {
+  const { result } = input;
+  const evaluated = [...result.byAttribute, ...result.intersectional].filter(
+    (entry) => entry.metrics.length > 0
+  );
+  return {
+    schemaVersion: "euconform.fairness.v1",
+    generatedAt: input.generatedAt,
+    ...(input.model ? { model: input.model } : {}),
+    predictions: input.predictions,
+    minGroupSize: result.minGroupSize,
+    summary: {
+      passed: result.overallPassed,
+      evaluated: evaluated.length,
+      failed: evaluated.filter((entry) => !entry.passed).length,
+    },
+    byAttribute: result.byAttribute,
+    intersectional: result.intersectional,
+    sources: result.sources,
+  };
+}
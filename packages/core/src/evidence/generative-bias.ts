@@ -0,0 +1,46 @@
+/**
+ * EuConform Evidence Engine — Generative Bias Report
+ *
+ * Turns a generative bias result (regard and toxicity of completions per
+ * demographic group) into the `euconform.bias-generative.v1` document written
+ * by `euconform bias --suite generative`.
+ * Pure functions — no side effects, no filesystem operations.
+ */
+
+import type { GenerativeBiasResult } from "../legal-checks/generative-bias";
+import type { GenerativeBiasReport } from "./types";
+
+export const GENERATIVE_BIAS_FILE_NAME = "euconform.bias-generative.json";
+
+export interface GenerativeBiasReportInput {
+  model: string;
+  engine: GenerativeBiasReport["engine"];
+  result: GenerativeBiasResult;
+  generatedAt: string;
+}
+
+export function buildGenerativeBiasReport(input: GenerativeBiasReportInput): GenerativeBiasReport {
+  const { result } = input;
+  return {
+    schemaVersion: "euconform.bias-generative.v1",
+    generatedAt: input.generatedAt,
+    model: input.model,
+    engine: input.engine,
+    lang: result.lang,
+    classifiers: {
+      ...(result.regardModelId ? { regard: result.regardModelId } : {}),
+      ...(result.toxicityModelId ? { toxicity: result.toxicityModelId } : {}),
+    },
+    thresholds: result.thresholds,
+    summary: {
+      prompts: result.prompts,
+      scored: result.samples.length,
+      averageToxicity: result.toxicity.average,
+      maxToxicity: result.toxicity.max,
+      passed: result.passed,
+    },
+    byAttribute: result.byAttribute,
+    samples: result.samples,
+    failures: result.failures,
+  };
+}
@@ -9,6 +9,11 @@ export type {
   AiBillOfMaterials,
   AppType,
   AssessmentHint,
+  AssessmentQuestionnaire,
+  AssessmentReport,
+  BiasReport,
+  Baseline,
+  BaselineSuppression,
   BomComponent,
   BomComponentKind,
   BundleArtifactRef,
@@ -16,13 +21,23 @@ export type {
   CiReport,
   ComplianceSignalGroup,
   ConfidenceLevel,
+  CustomDetectorRule,
+  CustomFileRule,
+  CustomImportRule,
+  CustomRegexRule,
   DetectedSignal,
   DetectorContext,
+  ExpiredSuppression,
+  EuconformConfig,
+  FairnessReport,
   FailOnLevel,
   FileProvenance,
   GapCounts,
+  GenerativeBiasReport,
   OpenQuestion,
+  ReportSuppressions,
   RepoProfile,
+  RobustnessReport,
   ScanBundle,
   ScanFile,
   ScanGap,
@@ -35,17 +50,104 @@ export type {
   SignalCategory,
   SignalDetector,
   SignalEvidence,
+  SuppressedGap,
+  SuppressedSignal,
+  SuppressionMeta,
 } from "./types";
 
-export { generateScanOutput } from "./output";
+export { generateScanOutput, type ScanOutputOptions } from "./output";
+export { isSuppressionExpired } from "./baseline";
+export { generateOpenQuestions } from "./open-questions";
 export { generateSummaryMarkdown } from "./markdown";
+export {
+  diffScanOutputs,
+  renderScanDiffMarkdown,
+  type ChangeDirection,
+  type ComplianceStatusChange,
+  type ComponentVersionChange,
+  type GapChange,
+  type ScanDiff,
+  type ScanDiffInput,
+} from "./diff";
+export {
+  buildSarifLog,
+  sarifLevel,
+  SARIF_FILE_NAME,
+  SARIF_MIME_TYPE,
+  type SarifLevel,
+  type SarifLog,
+  type SarifResult,
+} from "./sarif";
+export {
+  buildBiasReport,
+  buildBiasReproducibility,
+  BIAS_FILE_NAME,
+  type BiasReportInput,
+  type BiasReproducibilityInput,
+} from "./bias";
+export {
+  compareBiasReports,
+  renderBiasComparisonMarkdown,
+  type BiasComparison,
+  type BiasComparisonOptions,
+  type BiasRunSummary,
+  type BiasScoreDelta,
+  type McNemarTestResult,
+} from "./bias-comparison";
+export {
+  detectBiasReplayDrift,
+  renderBiasReplayMarkdown,
+  DEFAULT_REPLAY_TOLERANCE,
+  type BiasReplayDrift,
+  type BiasReplayParameterChange,
+  type BiasReplayValueDrift,
+} from "./bias-replay";
+export {
+  buildGenerativeBiasReport,
+  GENERATIVE_BIAS_FILE_NAME,
+  type GenerativeBiasReportInput,
+} from "./generative-bias";
+export {
+  buildRobustnessReport,
+  ROBUSTNESS_FILE_NAME,
+  type RobustnessReportInput,
+} from "./robustness";
+export { buildFairnessReport, FAIRNESS_FILE_NAME, type FairnessReportInput } from "./fairness";
+export {
+  buildAssessmentReport,
+  getAssessmentQuestions,
+  parseAssessmentAnswers,
+  validateAssessmentAnswers,
+  ASSESSMENT_FILE_NAME,
+  ASSESSMENT_QUESTIONNAIRES,
+  type AssessmentAnswers,
+  type AssessmentReportInput,
+} from "./assessment";
+export {
+  suggestQuestionnaire,
+  suggestQuizAnswers,
+  type QuizAnswerSuggestion,
+  type QuizAnswerSuggestions,
+} from "./quiz-suggestions";
+export {
+  buildAnnexIVFromEvidence,
+  parseAnnexIVDetails,
+  ANNEX_IV_FILE_NAME,
+  type AnnexIVDetails,
+  type AnnexIVEvidenceInput,
+} from "./annex-iv";
 export { buildBundleManifest } from "./bundle";
 export { sha256Hex } from "./hash";
 export {
   getSchemaMajorVersion,
   validateAiBillOfMaterials,
+  validateAssessmentReport,
+  validateBiasReport,
   validateCiReport,
   validateEcefJsonDocument,
+  validateFairnessReport,
+  validateGenerativeBiasReport,
+  validateRobustnessReport,
   validateScanBundle,
   validateScanReport,
 } from "./validate";
@@ -5,6 +5,7 @@
  * Pure function — no side effects, no filesystem operations.
  */
 
+import { DEFAULT_LOCALE, type Locale, type ScanMessages, getMessages } from "../i18n";
 import type {
   AiBillOfMaterials,
   BomComponent,
@@ -17,38 +18,19 @@ import type {
 // Helpers
 // ---------------------------------------------------------------------------
 
-type ComplianceArea = keyof ScanReport["complianceSignals"];
-
-const COMPLIANCE_LABELS: Record<ComplianceArea, string> = {
-  disclosure: "AI Disclosure",
-  biasTesting: "Bias Testing",
-  reportingExports: "Reporting & Exports",
-  loggingMonitoring: "Logging & Monitoring",
-  humanOversight: "Human Oversight",
-  dataGovernance: "Data Governance",
-  incidentReporting: "Incident Reporting",
-};
-
-const STATUS_LABELS: Record<ComplianceSignalGroup["status"], string> = {
-  present: "Present",
-  partial: "Partial",
-  absent: "Absent",
-  unknown: "Unknown",
-};
-
-function bomKindLabel(kind: BomComponent["kind"]): string {
-  const labels: Record<BomComponent["kind"], string> = {
-    framework: "Framework",
-    runtime: "Runtime",
-    "inference-provider": "Inference Provider",
-    "ai-framework": "AI Framework",
-    model: "Model",
-    "vector-store": "Vector Store",
-    embedding: "Embedding",
-    dataset: "Dataset",
-    tool: "Tool",
-  };
-  return labels[kind];
+export type ComplianceArea = keyof ScanReport["complianceSignals"];
+
+type SummaryMessages = ScanMessages["summary"];
+
+const DEFAULT_SUMMARY = getMessages(DEFAULT_LOCALE).scan.summary;
+
+export const COMPLIANCE_LABELS: Record<ComplianceArea, string> = DEFAULT_SUMMARY.areas;
+
+export const STATUS_LABELS: Record<ComplianceSignalGroup["status"], string> =
+  DEFAULT_SUMMARY.statuses;
+
+export function bomKindLabel(kind: BomComponent["kind"]): string {
+  return DEFAULT_SUMMARY.bomKinds[kind];
 }
 
 function formatDate(iso: string): string {
@@ -64,86 +46,84 @@ function formatDate(iso: string): string {
 // Section builders
 // ---------------------------------------------------------------------------
 
-function buildHeader(report: ScanReport, scanScope: ScanScope): string {
+function buildHeader(report: ScanReport, scanScope: ScanScope, m: SummaryMessages): string {
   const date = formatDate(report.generatedAt);
   return [
-    "# EuConform Scan Report",
+    `# ${m.title}`,
     "",
-    "> **Disclaimer:** This is technical guidance only. It does not constitute legal advice.",
-    `> Generated by EuConform v${report.tool.version} on ${date}.`,
-    `> Scan scope: \`${scanScope}\`.`,
+    m.disclaimer,
+    m.generated(report.tool.version, date),
+    m.scope(scanScope),
   ].join("\n");
 }
 
-function buildProjectOverview(report: ScanReport): string {
+function buildProjectOverview(report: ScanReport, m: SummaryMessages): string {
   const lines = [
-    "## Project Overview",
+    `## ${m.projectOverview}`,
     "",
-    `- **Name:** ${report.target.name}`,
-    `- **Type:** ${report.target.repoType}`,
+    `- **${m.name}:** ${report.target.name}`,
+    `- **${m.type}:** ${report.target.repoType}`,
   ];
 
   if (report.target.detectedStack.length > 0) {
-    lines.push(`- **Stack:** ${report.target.detectedStack.join(", ")}`);
+    lines.push(`- **${m.stack}:** ${report.target.detectedStack.join(", ")}`);
   } else {
-    lines.push("- **Stack:** Not detected");
+    lines.push(`- **${m.stack}:** ${m.notDetected}`);
   }
 
   return lines.join("\n");
 }
 
-function buildAiComponents(aibom: AiBillOfMaterials): string {
-  const lines = ["## AI Components Detected", ""];
+function buildAiComponents(aibom: AiBillOfMaterials, m: SummaryMessages): string {
+  const lines = [`## ${m.aiComponents}`, ""];
 
   if (aibom.components.length === 0) {
-    lines.push("No AI components detected.");
+    lines.push(m.noAiComponents);
     return lines.join("\n");
   }
 
-  lines.push("| Component | Kind | Source |");
+  lines.push(`| ${m.componentColumns.join(" | ")} |`);
   lines.push("|-----------|------|--------|");
 
   for (const comp of aibom.components) {
-    lines.push(`| ${comp.name} | ${bomKindLabel(comp.kind)} | ${comp.source} |`);
+    lines.push(`| ${comp.name} | ${m.bomKinds[comp.kind]} | ${comp.source} |`);
   }
 
   return lines.join("\n");
 }
 
-function buildComplianceSignals(report: ScanReport): string {
-  const lines = ["## Compliance Signals", ""];
-  lines.push("| Area | Status | Confidence |");
+function buildComplianceSignals(report: ScanReport, m: SummaryMessages): string {
+  const lines = [`## ${m.complianceSignals}`, ""];
+  lines.push(`| ${m.signalColumns.join(" | ")} |`);
   lines.push("|------|--------|------------|");
 
-  const areas = Object.keys(COMPLIANCE_LABELS) as ComplianceArea[];
+  const areas = Object.keys(m.areas) as ComplianceArea[];
 
   for (const area of areas) {
     const group = report.complianceSignals[area];
-    lines.push(
-      `| ${COMPLIANCE_LABELS[area]} | ${STATUS_LABELS[group.status]} | ${group.confidence} |`
-    );
+    lines.push(`| ${m.areas[area]} | ${m.statuses[group.status]} | ${group.confidence} |`);
   }
 
   return lines.join("\n");
 }
 
-function buildAssessmentHints(report: ScanReport): string {
+function buildAssessmentHints(report: ScanReport, m: SummaryMessages): string {
   const { riskIndicators, gpaiIndicators, possibleModes } = report.assessmentHints;
 
-  const lines = ["## Assessment Hints", ""];
+  const lines = [`## ${m.assessmentHints}`, ""];
 
   if (gpaiIndicators.length === 0 && riskIndicators.length === 0 && possibleModes.length === 0) {
-    lines.push("No assessment hints generated (no AI detected).");
+    lines.push(m.noAssessmentHints);
     return lines.join("\n");
   }
 
   if (possibleModes.length > 0) {
-    lines.push(`**Possible classification modes:** ${possibleModes.join(", ")}`);
+    lines.push(`**${m.possibleModes}:** ${possibleModes.join(", ")}`);
     lines.push("");
   }
 
   if (gpaiIndicators.length > 0) {
-    lines.push("### GPAI Indicators");
+    lines.push(`### ${m.gpaiIndicators}`);
     lines.push("");
     for (const hint of gpaiIndicators) {
       const ref = hint.articleRef ? ` (${hint.articleRef})` : "";
@@ -153,7 +133,7 @@ function buildAssessmentHints(report: ScanReport): string {
   }
 
   if (riskIndicators.length > 0) {
-    lines.push("### Risk Indicators");
+    lines.push(`### ${m.riskIndicators}`);
     lines.push("");
     for (const hint of riskIndicators) {
       const ref = hint.articleRef ? ` (${hint.articleRef})` : "";
@@ -165,12 +145,12 @@ function buildAssessmentHints(report: ScanReport): string {
   return lines.join("\n");
 }
 
-function buildOpenQuestions(report: ScanReport): string {
+function buildOpenQuestions(report: ScanReport, m: SummaryMessages): string {
   const questions = report.assessmentHints.openQuestions;
-  const lines = ["## Open Questions", ""];
+  const lines = [`## ${m.openQuestions}`, ""];
 
   if (questions.length === 0) {
-    lines.push("No open questions.");
+    lines.push(m.noOpenQuestions);
     return lines.join("\n");
   }
 
@@ -181,11 +161,11 @@ function buildOpenQuestions(report: ScanReport): string {
   return lines.join("\n");
 }
 
-function buildRecommendedActions(report: ScanReport): string {
-  const lines = ["## Recommended Actions", ""];
+function buildRecommendedActions(report: ScanReport, m: SummaryMessages): string {
+  const lines = [`## ${m.recommendedActions}`, ""];
 
   if (report.recommendationSummary.length === 0) {
-    lines.push("No recommended actions.");
+    lines.push(m.noRecommendedActions);
     return lines.join("\n");
   }
 
@@ -196,10 +176,27 @@ function buildRecommendedActions(report: ScanReport): string {
   return lines.join("\n");
 }
 
-function buildFooter(): string {
-  return ["---", "*Full details: `euconform.report.json` -- AI BOM: `euconform.aibom.json`*"].join(
-    "\n"
-  );
+function buildSuppressions(report: ScanReport, m: SummaryMessages): string | null {
+  const suppressions = report.suppressions;
+  if (!suppressions) return null;
+
+  const lines = [`## ${m.suppressedFindings}`, ""];
+  const { gaps, signals, expired } = suppressions;
+
+  if (gaps.length === 0 && signals.length === 0 && expired.length === 0) {
+    lines.push(m.noSuppressions);
+    return lines.join("\n");
+  }
+
+  lines.push(...gaps.map(m.suppressedGap));
+  lines.push(...signals.map(m.suppressedSignal));
+  lines.push(...expired.map(m.expiredSuppression));
+
+  return lines.join("\n");
+}
+
+function buildFooter(m: SummaryMessages): string {
+  return ["---", m.footer].join("\n");
 }
 
 // ---------------------------------------------------------------------------
@@ -209,18 +206,21 @@ function buildFooter(): string {
 export function generateSummaryMarkdown(
   report: ScanReport,
   aibom: AiBillOfMaterials,
-  scanScope: ScanScope
+  scanScope: ScanScope,
+  locale: Locale = DEFAULT_LOCALE
 ): string {
+  const m = getMessages(locale).scan.summary;
   const sections = [
-    buildHeader(report, scanScope),
-    buildProjectOverview(report),
-    buildAiComponents(aibom),
-    buildComplianceSignals(report),
-    buildAssessmentHints(report),
-    buildOpenQuestions(report),
-    buildRecommendedActions(report),
-    buildFooter(),
-  ];
+    buildHeader(report, scanScope, m),
+    buildProjectOverview(report, m),
+    buildAiComponents(aibom, m),
+    buildComplianceSignals(report, m),
+    buildAssessmentHints(report, m),
+    buildOpenQuestions(report, m),
+    buildRecommendedActions(report, m),
+    buildSuppressions(report, m),
+    buildFooter(m),
+  ].filter((section): section is string => section !== null);
 
   return `${sections.join("\n\n")}\n`;
 }
@@ -0,0 +1,79 @@
+/**
+ * EuConform Evidence Engine — Open Questions
+ *
+ * Derives the questions a scanner cannot answer from code alone
+ * (market placement, intended purpose, role, GPAI status, disclosure).
+ */
+
+import { hasImplementationSignals } from "./compliance-evaluation";
+import type { DetectedSignal, OpenQuestion } from "./types";
+
+export function generateOpenQuestions(signals: DetectedSignal[]): OpenQuestion[] {
+  const questions: OpenQuestion[] = [];
+  const hasAI = signals.some(
+    (s) =>
+      s.category === "ai-provider" ||
+      s.category === "ai-framework" ||
+      s.category === "local-inference"
+  );
+
+  if (hasAI) {
+    questions.push({
+      id: "oq-market-placement",
+      question: "Is this AI system placed on the EU market or used within the EU?",
+      context:
+        "The EU AI Act applies to AI systems placed on or put into service in the EU market.",
+      relatedSignalIds: signals.filter((s) => s.category.startsWith("ai-")).map((s) => s.id),
+      suggestedAction: "Determine your system's geographic scope and market placement.",
+    });
+
+    questions.push({
+      id: "oq-intended-purpose",
+      question: "What is the intended purpose of this AI system?",
+      context:
+        "Risk classification under the EU AI Act depends on the system's intended purpose and deployment context, which cannot be determined from code alone.",
+      relatedSignalIds: [],
+      suggestedAction:
+        "Use the EuConform wizard to complete your risk assessment with human-provided context.",
+    });
+
+    questions.push({
+      id: "oq-provider-role",
+      question: "Are you a provider, deployer, or importer of this AI system?",
+      context:
+        "Different roles under Art. 3 carry different obligations. A scanner cannot determine your organizational role.",
+      relatedSignalIds: [],
+      suggestedAction:
+        "Clarify your role in the AI value chain to determine applicable obligations.",
+    });
+  }
+
+  const hasGpaiSignals = signals.some(
+    (s) => s.category === "ai-provider" || s.id.includes("langchain") || s.id.includes("llamaindex")
+  );
+  if (hasGpaiSignals) {
+    questions.push({
+      id: "oq-gpai-downstream",
+      question:
+        "Are you using a general-purpose AI model? Do you provide downstream access to others?",
+      context:
+        "GPAI obligations (Art. 53-55) apply to providers of general-purpose AI models. Using an API does not automatically make you a GPAI provider.",
+      relatedSignalIds: signals.filter((s) => s.category === "ai-provider").map((s) => s.id),
+      suggestedAction: "Determine whether you are a GPAI provider or deployer.",
+    });
+  }
+
+  const hasNoDisclosure = !hasImplementationSignals(signals, ["compliance-disclosure"]);
+  if (hasAI && hasNoDisclosure) {
+    questions.push({
+      id: "oq-disclosure-missing",
+      question: "Does your system inform users that they are interacting with AI?",
+      context:
+        "No AI disclosure signals were found in the codebase. Art. 50 requires transparency for AI systems interacting with natural persons.",
+      relatedSignalIds: [],
+      suggestedAction: "Add explicit AI disclosure in user-facing entry points.",
+    });
+  }
+
+  return questions;
+}
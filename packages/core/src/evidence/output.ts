@@ -2,18 +2,29 @@
  * EuConform Evidence Engine — Output Generation
  *
  * Transforms a ScanResult into a ScanOutput containing:
- * - ScanReport (euconform.report.v1)
+ * - ScanReport (euconform.report.v1, or v1.1 when a baseline is applied)
  * - AiBillOfMaterials (euconform.aibom.v1)
  * - summaryMarkdown
  *
  * Pure function — no side effects, no filesystem operations.
  */
 
+import {
+  DEFAULT_LOCALE,
+  type Locale,
+  type OpenQuestionId,
+  type ScanGapRuleId,
+  type ScanMessages,
+  getMessages,
+} from "../i18n";
+import { type BaselineState, createBaselineState, suppressGaps, suppressSignals } from "./baseline";
 import { evaluateSignalsForCategories } from "./compliance-evaluation";
 import { generateSummaryMarkdown } from "./markdown";
+import { generateOpenQuestions } from "./open-questions";
 import type {
   AiBillOfMaterials,
   AssessmentHint,
+  Baseline,
   BomComponent,
   BomComponentKind,
   ComplianceSignalGroup,
@@ -37,16 +48,6 @@ const COMPLIANCE_AREA_MAP = {
   incidentReporting: ["compliance-incident"] as SignalCategory[],
 };
 
-const COMPLIANCE_AREA_LABELS: Record<keyof typeof COMPLIANCE_AREA_MAP, string> = {
-  disclosure: "AI disclosure",
-  biasTesting: "bias testing",
-  reportingExports: "reporting and exports",
-  loggingMonitoring: "logging and monitoring",
-  humanOversight: "human oversight",
-  dataGovernance: "data governance",
-  incidentReporting: "incident reporting",
-};
-
 const AI_CATEGORIES = new Set<SignalCategory>([
   "ai-provider",
   "ai-framework",
@@ -162,6 +163,15 @@ function normalizeEvidence(evidence: SignalEvidence[], maxItems = 12): SignalEvi
 }
 
 const SIGNAL_NAME_MAP: [string, string][] = [
+  ["fastapi", "FastAPI"],
+  ["flask", "Flask"],
+  ["django", "Django"],
+  ["pytorch", "PyTorch"],
+  ["tensorflow", "TensorFlow"],
+  ["vllm", "vLLM"],
+  // Python Transformers variants must win over the generic "transformers" (Transformers.js) entry
+  ["hf-transformers", "Hugging Face Transformers"],
+  ["sentence-transformers", "Sentence Transformers"],
   ["react", "React"],
   ["express", "Express"],
   ["fastify", "Fastify"],
@@ -250,7 +260,8 @@ function deriveSource(evidence: SignalEvidence[]): BomComponent["source"] {
     else if (
       item.file.endsWith("pnpm-lock.yaml") ||
       item.file.endsWith("package-lock.json") ||
-      item.file.endsWith("yarn.lock")
+      item.file.endsWith("yarn.lock") ||
+      item.file.endsWith("poetry.lock")
     ) {
       source = "lock-file";
     } else if (item.provenance === "config") {
@@ -331,10 +342,21 @@ function evaluateComplianceAreas(
   return result;
 }
 
+/** Open questions in the output locale; unknown ids keep the scanner's wording */
+function localizeOpenQuestions(
+  openQuestions: ScanResult["openQuestions"],
+  messages: ScanMessages
+): string[] {
+  return openQuestions.map(
+    (question) => messages.openQuestions[question.id as OpenQuestionId] ?? question.question
+  );
+}
+
 function buildAssessmentHints(
   signals: DetectedSignal[],
   complianceAreas: Record<keyof typeof COMPLIANCE_AREA_MAP, ComplianceAreaEvaluation>,
-  openQuestions: ScanResult["openQuestions"]
+  openQuestions: ScanResult["openQuestions"],
+  messages: ScanMessages
 ): ScanReport["assessmentHints"] {
   const possibleModes: string[] = [];
   const riskIndicators: AssessmentHint[] = [];
@@ -346,7 +368,7 @@ function buildAssessmentHints(
       possibleModes: [],
       riskIndicators: [],
       gpaiIndicators: [],
-      openQuestions: openQuestions.map((question) => question.question),
+      openQuestions: localizeOpenQuestions(openQuestions, messages),
     };
   }
 
@@ -363,7 +385,7 @@ function buildAssessmentHints(
       )
     );
     gpaiIndicators.push({
-      hint: `GPAI model usage detected — cloud providers found: ${providers.join(", ")}. Provider obligations depend on your role and downstream distribution.`,
+      hint: messages.hints.cloudProviders(providers.join(", ")),
       articleRef: "Art. 53",
       confidence: "medium",
     });
@@ -371,7 +393,7 @@ function buildAssessmentHints(
 
   if (hasLocalInference) {
     gpaiIndicators.push({
-      hint: "Local deployment detected — provider-side GPAI obligations are less likely unless you distribute or provide downstream access to the model.",
+      hint: messages.hints.localInference,
       articleRef: "Art. 53",
       confidence: "low",
     });
@@ -379,7 +401,7 @@ function buildAssessmentHints(
 
   if (complianceAreas.biasTesting.group.status !== "absent") {
     riskIndicators.push({
-      hint: "Bias evaluation infrastructure detected — this can support Art. 10 evidence if it is part of your real evaluation workflow.",
+      hint: messages.hints.biasEvaluation,
       articleRef: "Art. 10",
       confidence: complianceAreas.biasTesting.group.confidence,
     });
@@ -387,7 +409,7 @@ function buildAssessmentHints(
 
   if (signals.some((signal) => signal.category === "training")) {
     riskIndicators.push({
-      hint: "Training or fine-tuning signals detected — data governance and provider obligations may apply depending on your role.",
+      hint: messages.hints.training,
       articleRef: "Art. 10",
       confidence: "high",
     });
@@ -403,7 +425,7 @@ function buildAssessmentHints(
     }
 
     riskIndicators.push({
-      hint: `Documentation references ${COMPLIANCE_AREA_LABELS[key]}, but no production implementation evidence was detected.`,
+      hint: messages.hints.documentedOnly(messages.areaNames[key]),
       confidence: "low",
     });
   }
@@ -416,86 +438,86 @@ function buildAssessmentHints(
     possibleModes,
     riskIndicators,
     gpaiIndicators,
-    openQuestions: openQuestions.map((question) => question.question),
+    openQuestions: localizeOpenQuestions(openQuestions, messages),
   };
 }
 
-interface GapRule {
+export interface GapRule {
   id: string;
   title: string;
   description: string;
   priority: ScanGap["priority"];
   area: keyof typeof COMPLIANCE_AREA_MAP;
+  /** EU AI Act articles the gap relates to, e.g. for SARIF rule metadata */
+  articles: string[];
 }
 
-const GAP_RULES: GapRule[] = [
+const GAP_RULE_DEFINITIONS: readonly (Omit<GapRule, "id" | "title" | "description"> & {
+  id: ScanGapRuleId;
+})[] = [
   {
     id: "gap-disclosure",
-    title: "No AI disclosure mechanism detected",
-    description:
-      "The EU AI Act requires that users are informed when interacting with AI systems. No user-facing disclosure implementation was found in the production codebase.",
     priority: "critical",
     area: "disclosure",
+    articles: ["Art. 50"],
   },
   {
     id: "gap-logging",
-    title: "No logging or monitoring infrastructure detected",
-    description:
-      "AI system outputs and decisions should be logged for traceability and audit purposes. No production logging infrastructure was detected.",
     priority: "high",
     area: "loggingMonitoring",
+    articles: ["Art. 12", "Art. 19", "Art. 26(6)"],
   },
   {
     id: "gap-oversight",
-    title: "No human oversight mechanism detected",
-    description:
-      "High-risk AI systems require human oversight capabilities. No production review or override mechanisms were found.",
     priority: "high",
     area: "humanOversight",
+    articles: ["Art. 14", "Art. 26(2)"],
   },
   {
     id: "gap-bias",
-    title: "No bias testing infrastructure detected",
-    description:
-      "AI systems should be evaluated for bias and discrimination. No production-grade bias evaluation tooling was found.",
     priority: "medium",
     area: "biasTesting",
+    articles: ["Art. 10(2)(f)", "Art. 10(2)(g)"],
   },
   {
     id: "gap-data",
-    title: "No data governance mechanisms detected",
-    description:
-      "Training and inference data should be governed with clear provenance and quality controls. No production data governance infrastructure was found.",
     priority: "medium",
     area: "dataGovernance",
+    articles: ["Art. 10"],
   },
   {
     id: "gap-incident",
-    title: "No incident reporting mechanism detected",
-    description:
-      "AI system incidents should be reportable and trackable. No production incident reporting infrastructure was found.",
     priority: "medium",
     area: "incidentReporting",
+    articles: ["Art. 73"],
   },
 ];
 
+/** Gap rules with their default-locale wording, e.g. for SARIF rule metadata */
+export const GAP_RULES: readonly GapRule[] = GAP_RULE_DEFINITIONS.map((rule) => {
+  const { title, description } = getMessages(DEFAULT_LOCALE).scan.gaps[rule.id];
+  return { ...rule, title, description };
+});
+
 function buildGaps(
   complianceAreas: Record<keyof typeof COMPLIANCE_AREA_MAP, ComplianceAreaEvaluation>,
-  aiDetected: boolean
+  aiDetected: boolean,
+  messages: ScanMessages
 ): ScanGap[] {
   if (!aiDetected) return [];
 
   const gaps: ScanGap[] = [];
 
-  for (const rule of GAP_RULES) {
+  for (const rule of GAP_RULE_DEFINITIONS) {
     const evaluation = complianceAreas[rule.area];
     const confidence = highestConfidence(evaluation.implementationSignals);
+    const text = messages.gaps[rule.id];
 
     if (evaluation.implementationSignals.length === 0) {
       gaps.push({
         id: rule.id,
-        title: rule.title,
-        description: rule.description,
+        title: text.title,
+        description: text.description,
         priority: rule.priority,
         status: "missing",
         basis: "scanner-rule",
@@ -507,8 +529,8 @@ function buildGaps(
     if (confidence !== "high") {
       gaps.push({
         id: rule.id,
-        title: `${rule.title.replace("No ", "Partial ")}`.replace(" detected", ""),
-        description: `Some implementation signals were found, but confidence is not yet high. ${rule.description}`,
+        title: text.partialTitle,
+        description: messages.partialGapDescription(text.description),
         priority:
           rule.priority === "critical" ? "high" : rule.priority === "high" ? "medium" : "low",
         status: "partial",
@@ -524,7 +546,8 @@ function buildGaps(
 function buildRecommendationSummary(
   gaps: ScanGap[],
   openQuestions: ScanResult["openQuestions"],
-  complianceAreas: Record<keyof typeof COMPLIANCE_AREA_MAP, ComplianceAreaEvaluation>
+  complianceAreas: Record<keyof typeof COMPLIANCE_AREA_MAP, ComplianceAreaEvaluation>,
+  messages: ScanMessages
 ): string[] {
   const recommendations: string[] = [];
   const priorityOrder: Record<ScanGap["priority"], number> = {
@@ -539,7 +562,10 @@ function buildRecommendationSummary(
   );
 
   for (const gap of sortedGaps.slice(0, 4)) {
-    const prefix = gap.status === "missing" ? "Implement" : "Strengthen";
+    const prefix =
+      gap.status === "missing"
+        ? messages.recommendations.implement
+        : messages.recommendations.strengthen;
     recommendations.push(`[${gap.priority.toUpperCase()}] ${prefix}: ${gap.title}`);
   }
 
@@ -556,7 +582,7 @@ function buildRecommendationSummary(
       }
 
       recommendations.push(
-        `[LOW] Convert documented ${COMPLIANCE_AREA_LABELS[key]} into production implementation evidence`
+        `[LOW] ${messages.recommendations.documentedOnly(messages.areaNames[key])}`
       );
 
       if (recommendations.length >= 4) break;
@@ -564,15 +590,10 @@ function buildRecommendationSummary(
   }
 
   if (openQuestions.length > 0) {
-    recommendations.push(
-      `Resolve ${openQuestions.length} open question(s) that require human context`
-    );
+    recommendations.push(messages.recommendations.openQuestions(openQuestions.length));
   }
 
-  const finalRecommendation =
-    "Review the generated artifacts and complete role/risk classification in the EuConform web app";
-
-  return [...recommendations.slice(0, 4), finalRecommendation];
+  return [...recommendations.slice(0, 4), messages.recommendations.review];
 }
 
 function buildDetectedStack(signals: DetectedSignal[]): string[] {
@@ -604,7 +625,9 @@ function hasCapability(group: ComplianceSignalGroup): boolean {
 
 function resolveBomKind(signal: DetectedSignal, canonicalName: string): BomComponentKind {
   if (signal.category === "rag") {
-    return canonicalName.toLowerCase().includes("embedding") ? "embedding" : "vector-store";
+    return canonicalName.toLowerCase().includes("embedding") || signal.id.includes("embedding")
+      ? "embedding"
+      : "vector-store";
   }
   return CATEGORY_TO_BOM_KIND[signal.category] ?? "tool";
 }
@@ -668,10 +691,39 @@ function buildAiBom(
   };
 }
 
-export function generateScanOutput(scanResult: ScanResult): ScanOutput {
+export interface ScanOutputOptions {
+  /** Accepted gaps and false-positive signals to suppress */
+  baseline?: Baseline;
+  /** Reference time for suppression expiry (defaults to now) */
+  now?: Date;
+  /** Language of gaps, hints, recommendations and the summary (defaults to English) */
+  locale?: Locale;
+}
+
+/**
+ * Drop suppressed signals before anything is derived from them. Open
+ * questions are regenerated because several depend on the signal set.
+ */
+function applySignalBaseline(scanResult: ScanResult, state: BaselineState): ScanResult {
+  const signals = suppressSignals(scanResult.signals, state);
+  if (state.suppressions.signals.length === 0) return scanResult;
+  return { ...scanResult, signals, openQuestions: generateOpenQuestions(signals) };
+}
+
+export function generateScanOutput(
+  rawScanResult: ScanResult,
+  options: ScanOutputOptions = {}
+): ScanOutput {
   const generatedAt = new Date().toISOString();
+  const baselineState = options.baseline
+    ? createBaselineState(options.baseline, options.now ?? new Date())
+    : undefined;
+  const scanResult = baselineState
+    ? applySignalBaseline(rawScanResult, baselineState)
+    : rawScanResult;
   const aiDetected = hasAI(scanResult.signals);
   const complianceAreas = evaluateComplianceAreas(scanResult.signals, aiDetected);
+  const messages = getMessages(options.locale).scan;
 
   const report: ScanReport = {
     schemaVersion: "euconform.report.v1",
@@ -699,20 +751,33 @@ export function generateScanOutput(scanResult: ScanResult): ScanOutput {
     assessmentHints: buildAssessmentHints(
       scanResult.signals,
       complianceAreas,
-      scanResult.openQuestions
+      scanResult.openQuestions,
+      messages
     ),
-    gaps: buildGaps(complianceAreas, aiDetected),
+    gaps: buildGaps(complianceAreas, aiDetected, messages),
     recommendationSummary: [],
   };
 
+  if (baselineState) {
+    report.schemaVersion = "euconform.report.v1.1";
+    report.gaps = suppressGaps(report.gaps, baselineState);
+    report.suppressions = baselineState.suppressions;
+  }
+
   report.recommendationSummary = buildRecommendationSummary(
     report.gaps,
     scanResult.openQuestions,
-    complianceAreas
+    complianceAreas,
+    messages
   );
 
   const aibom = buildAiBom(scanResult, complianceAreas, generatedAt);
-  const summaryMarkdown = generateSummaryMarkdown(report, aibom, scanResult.meta.scanScope);
+  const summaryMarkdown = generateSummaryMarkdown(
+    report,
+    aibom,
+    scanResult.meta.scanScope,
+    options.locale
+  );
 
   return { report, aibom, summaryMarkdown };
 }
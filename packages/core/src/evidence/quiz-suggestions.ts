@@ -0,0 +1,160 @@
+/**
+ * EuConform Evidence Engine — Quiz Answer Suggestions
+ *
+ * The scanner leaves classification to humans, but some questionnaire answers
+ * follow from what it found in the code (e.g. a human review flow). This
+ * module proposes those answers from a scan report, each with a rationale and
+ * the evidence behind it, for the user to confirm in the wizard.
+ * Pure functions — no side effects, no filesystem operations.
+ */
+
+import {
+  DEFAULT_LOCALE,
+  type Locale,
+  type QuizSuggestionId,
+  type ScanMessages,
+  getMessages,
+} from "../i18n";
+import type { QuizAnswer } from "../types";
+import type {
+  AssessmentQuestionnaire,
+  ComplianceSignalGroup,
+  ConfidenceLevel,
+  ScanReport,
+  SignalEvidence,
+} from "./types";
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface QuizAnswerSuggestion extends QuizAnswer {
+  confidence: ConfidenceLevel;
+  /** Why the scan report points to this answer */
+  rationale: string;
+  /** Scanner evidence behind the suggestion; empty when it rests on absence */
+  evidence: SignalEvidence[];
+}
+
+export interface QuizAnswerSuggestions {
+  questionnaire: AssessmentQuestionnaire;
+  suggestions: QuizAnswerSuggestion[];
+}
+
+type ComplianceArea = keyof ScanReport["complianceSignals"];
+
+interface SuggestionRule {
+  id: QuizSuggestionId;
+  questionnaire: AssessmentQuestionnaire;
+  questionId: string;
+  area: ComplianceArea;
+  /** Answer when the area has implementation evidence */
+  found: string;
+  /** Answer when AI was detected but the area has no implementation evidence */
+  absent?: string;
+}
+
+// Only areas that answer a question directly. Annex III areas and Art. 5
+// practices depend on the use case, which the scanner cannot see; the
+// rationales live in the message catalog under the rule id.
+const SUGGESTION_RULES: readonly SuggestionRule[] = [
+  {
+    id: "risk-human-oversight",
+    questionnaire: "risk",
+    questionId: "human-oversight",
+    area: "humanOversight",
+    found: "limited",
+    absent: "none",
+  },
+  {
+    id: "annex-iii-human-oversight",
+    questionnaire: "annex-iii",
+    questionId: "annexIII-human-oversight",
+    area: "humanOversight",
+    found: "yes",
+    absent: "no",
+  },
+  {
+    id: "gpai-technical-docs",
+    questionnaire: "gpai",
+    questionId: "gpai-technical-docs",
+    area: "reportingExports",
+    found: "unsure",
+  },
+  {
+    id: "gpai-red-teaming",
+    questionnaire: "gpai",
+    questionId: "gpai-red-teaming",
+    area: "biasTesting",
+    found: "unsure",
+  },
+  {
+    id: "gpai-incident-reporting",
+    questionnaire: "gpai",
+    questionId: "gpai-incident-reporting",
+    area: "incidentReporting",
+    found: "yes",
+    absent: "no",
+  },
+];
+
+// ---------------------------------------------------------------------------
+// Suggestions
+// ---------------------------------------------------------------------------
+
+/**
+ * Questionnaire matching the scanner's role hint: training or fine-tuning
+ * signals suggest a GPAI provider, everything else the Annex III path
+ */
+export function suggestQuestionnaire(report: ScanReport): AssessmentQuestionnaire {
+  return report.assessmentHints.possibleModes.includes("gpai-provider") ? "gpai" : "annex-iii";
+}
+
+function suggestFromRule(
+  rule: SuggestionRule,
+  group: ComplianceSignalGroup,
+  messages: ScanMessages["quizSuggestions"]
+): QuizAnswerSuggestion | null {
+  const rationale = messages[rule.id];
+  if (group.status === "present" || group.status === "partial") {
+    return {
+      questionId: rule.questionId,
+      value: rule.found,
+      confidence: group.confidence,
+      rationale: rationale.found,
+      evidence: group.evidence,
+    };
+  }
+  if (group.status === "absent" && rule.absent && rationale.absent) {
+    return {
+      questionId: rule.questionId,
+      value: rule.absent,
+      confidence: "low",
+      rationale: rationale.absent,
+      evidence: [],
+    };
+  }
+  return null;
+}
+
+/**
+ * Propose answers to a questionnaire from a scan report. Questions without
+ * scanner evidence get no suggestion and stay for the user to answer.
+ * Rationales are written in the given locale.
+ */
+export function suggestQuizAnswers(
+  report: ScanReport,
+  questionnaire: AssessmentQuestionnaire = suggestQuestionnaire(report),
+  locale: Locale = DEFAULT_LOCALE
+): QuizAnswerSuggestions {
+  const messages = getMessages(locale).scan.quizSuggestions;
+  const suggestions: QuizAnswerSuggestion[] = [];
+  if (report.aiFootprint.usesAI) {
+    for (const rule of SUGGESTION_RULES) {
+      if (rule.questionnaire !== questionnaire) continue;
+      const suggestion = suggestFromRule(rule, report.complianceSignals[rule.area], messages);
+      if (suggestion) suggestions.push(suggestion);
+    }
+  }
+  return { questionnaire, suggestions };
+}
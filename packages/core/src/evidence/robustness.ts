@@ -0,0 +1,37 @@
+/**
+ * EuConform Evidence Engine — Robustness Report
+ *
+ * Turns a text-perturbation robustness result into the `euconform.robustness.v1`
+ * document (Art. 15 evidence) written by `euconform robustness`.
+ * Pure functions — no side effects, no filesystem operations.
+ */
+
+import type { Perturbation, RobustnessResult } from "../legal-checks/robustness-transparency";
+import type { RobustnessReport } from "./types";
+
+export const ROBUSTNESS_FILE_NAME = "euconform.robustness.json";
+
+export interface RobustnessReportInput {
+  model: string;
+  engine: RobustnessReport["engine"];
+  testSuite: RobustnessReport["testSuite"];
+  perturbations: Perturbation[];
+  result: RobustnessResult;
+  generatedAt: string;
+}
+
+export function buildRobustnessReport(input: RobustnessReportInput): RobustnessReport {
+  const { result } = input;
+  return {
+    schemaVersion: "euconform.robustness.v1",
+    generatedAt: input.generatedAt,
+    model: input.model,
+    engine: input.engine,
+    testSuite: input.testSuite,
+    seed: result.seed,
+    perturbations: input.perturbations.map(({ id, description }) => ({ id, description })),
+    summary: result.summary,
+    byPerturbation: result.byPerturbation,
+    cases: result.cases,
+  };
+}
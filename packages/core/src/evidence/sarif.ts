@@ -0,0 +1,234 @@
+/**
+ * EuConform Evidence Engine — SARIF Export
+ *
+ * Maps scan gaps to a SARIF 2.1.0 log so they can be ingested by code
+ * scanning dashboards next to other static analysis findings.
+ * Pure functions — no side effects, no filesystem operations.
+ */
+
+import { GAP_RULES, type GapRule } from "./output";
+import type { ScanGap, ScanReport, SignalEvidence } from "./types";
+
+export const SARIF_FILE_NAME = "euconform.sarif.json";
+export const SARIF_MIME_TYPE = "application/sarif+json";
+
+const SARIF_SCHEMA_URI = "https://json.schemastore.org/sarif-2.1.0.json";
+const INFORMATION_URI = "https://github.com/Hiepler/EuConform";
+const SRCROOT = "%SRCROOT%";
+
+// ---------------------------------------------------------------------------
+// Types (subset of SARIF 2.1.0 used by EuConform)
+// ---------------------------------------------------------------------------
+
+export type SarifLevel = "error" | "warning" | "note";
+
+export interface SarifMessage {
+  text: string;
+}
+
+export interface SarifReportingDescriptor {
+  id: string;
+  name: string;
+  shortDescription: SarifMessage;
+  fullDescription: SarifMessage;
+  defaultConfiguration: { level: SarifLevel };
+  properties: {
+    tags: string[];
+    euAiActArticles: string[];
+  };
+}
+
+export interface SarifLocation {
+  physicalLocation: {
+    artifactLocation: { uri: string; uriBaseId: string };
+    region?: { startLine: number };
+  };
+  message?: SarifMessage;
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: SarifMessage;
+  locations?: SarifLocation[];
+  partialFingerprints: Record<string, string>;
+  suppressions?: Array<{ kind: "external"; status: "accepted"; justification: string }>;
+  properties: {
+    priority: ScanGap["priority"];
+    status: ScanGap["status"];
+    euAiActArticles: string[];
+  };
+}
+
+export interface SarifLog {
+  $schema: string;
+  version: "2.1.0";
+  runs: Array<{
+    tool: {
+      driver: {
+        name: string;
+        version: string;
+        informationUri: string;
+        rules: SarifReportingDescriptor[];
+      };
+    };
+    originalUriBaseIds: Record<string, { description: SarifMessage }>;
+    results: SarifResult[];
+  }>;
+}
+
+// ---------------------------------------------------------------------------
+// Mapping helpers
+// ---------------------------------------------------------------------------
+
+/** Same thresholds as the GitHub workflow annotations */
+export function sarifLevel(priority: ScanGap["priority"]): SarifLevel {
+  if (priority === "critical" || priority === "high") return "error";
+  if (priority === "medium") return "warning";
+  return "note";
+}
+
+/** "gap-disclosure" → "GapDisclosure" */
+function ruleName(id: string): string {
+  return id
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0]?.toUpperCase() + part.slice(1))
+    .join("");
+}
+
+function toDescriptor(
+  rule: Pick<GapRule, "id" | "title" | "description" | "priority" | "articles">
+): SarifReportingDescriptor {
+  return {
+    id: rule.id,
+    name: ruleName(rule.id),
+    shortDescription: { text: rule.title },
+    fullDescription: { text: rule.description },
+    defaultConfiguration: { level: sarifLevel(rule.priority) },
+    properties: {
+      tags: ["eu-ai-act", "compliance", ...rule.articles],
+      euAiActArticles: [...rule.articles],
+    },
+  };
+}
+
+function toLocations(evidence: SignalEvidence[]): SarifLocation[] | undefined {
+  const seen = new Set<string>();
+  const locations: SarifLocation[] = [];
+  for (const item of evidence) {
+    const key = `${item.file}:${item.line ?? ""}`;
+    if (!item.file || seen.has(key)) continue;
+    seen.add(key);
+    locations.push({
+      physicalLocation: {
+        artifactLocation: { uri: item.file, uriBaseId: SRCROOT },
+        ...(item.line ? { region: { startLine: item.line } } : {}),
+      },
+      ...(item.snippet ? { message: { text: item.snippet } } : {}),
+    });
+  }
+  return locations.length > 0 ? locations : undefined;
+}
+
+type GapLike = Pick<ScanGap, "id" | "title" | "priority"> & { description?: string };
+
+/** Rules for the built-in gaps carry article references; unknown ids fall back to the gap text */
+function ruleFor(gap: GapLike): SarifReportingDescriptor {
+  const known = GAP_RULES.find((rule) => rule.id === gap.id);
+  return toDescriptor(
+    known ?? {
+      id: gap.id,
+      title: gap.title,
+      description: gap.description ?? gap.title,
+      priority: gap.priority,
+      articles: [],
+    }
+  );
+}
+
+function collectRules(gaps: GapLike[]): SarifReportingDescriptor[] {
+  const rules = new Map<string, SarifReportingDescriptor>();
+  for (const gap of gaps) {
+    if (!rules.has(gap.id)) rules.set(gap.id, ruleFor(gap));
+  }
+  return [...rules.values()];
+}
+
+// ---------------------------------------------------------------------------
+// Main export
+// ---------------------------------------------------------------------------
+
+/**
+ * Build a SARIF 2.1.0 log with one result per gap. Gaps suppressed by a
+ * baseline are kept as results carrying an accepted external suppression.
+ */
+export function buildSarifLog(report: ScanReport): SarifLog {
+  const suppressed = report.suppressions?.gaps ?? [];
+  const rules = collectRules([...report.gaps, ...suppressed]);
+  const ruleIndexOf = (id: string) => rules.findIndex((rule) => rule.id === id);
+  const results: SarifResult[] = [];
+
+  for (const gap of report.gaps) {
+    const ruleIndex = ruleIndexOf(gap.id);
+    const locations = toLocations(gap.evidence);
+    results.push({
+      ruleId: gap.id,
+      ruleIndex,
+      level: sarifLevel(gap.priority),
+      message: { text: `${gap.title}. ${gap.description}` },
+      ...(locations ? { locations } : {}),
+      partialFingerprints: { "euconformGap/v1": gap.id },
+      properties: {
+        priority: gap.priority,
+        status: gap.status,
+        euAiActArticles: rules[ruleIndex]?.properties.euAiActArticles ?? [],
+      },
+    });
+  }
+
+  for (const gap of suppressed) {
+    const ruleIndex = ruleIndexOf(gap.id);
+    results.push({
+      ruleId: gap.id,
+      ruleIndex,
+      level: sarifLevel(gap.priority),
+      message: { text: gap.title },
+      partialFingerprints: { "euconformGap/v1": gap.id },
+      suppressions: [
+        {
+          kind: "external",
+          status: "accepted",
+          justification: `${gap.justification} (owner: ${gap.owner}, expires: ${gap.expires})`,
+        },
+      ],
+      properties: {
+        priority: gap.priority,
+        status: gap.status,
+        euAiActArticles: rules[ruleIndex]?.properties.euAiActArticles ?? [],
+      },
+    });
+  }
+
+  return {
+    $schema: SARIF_SCHEMA_URI,
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "EuConform",
+            version: report.tool.version,
+            informationUri: INFORMATION_URI,
+            rules,
+          },
+        },
+        originalUriBaseIds: {
+          [SRCROOT]: { description: { text: `Scanned project root (${report.target.name})` } },
+        },
+        results,
+      },
+    ],
+  };
+}
@@ -5,6 +5,30 @@
  * Classification is done by the wizard from human input, not by the scanner.
  */
 
+import type { Citation } from "../legal-checks/bias-metrics";
+import type { GapAnalysisResult } from "../legal-checks/gap-analysis";
+import type {
+  GenerativeAttributeResult,
+  GenerativeBiasFailure,
+  GenerativeBiasLanguage,
+  GenerativeBiasSample,
+} from "../legal-checks/generative-bias";
+import type { GPAIComplianceLevel } from "../legal-checks/gpai-classifier";
+import type { FairnessAttributeResult } from "../legal-checks/tabular-fairness";
+import type {
+  BiasCalculationMethod,
+  BiasEngine,
+  BiasReproducibility,
+  BinomialTestResult,
+  BootstrapConfidenceInterval,
+  CrowsPairsCategoryResult,
+  CrowsPairsPairResult,
+  HighRiskCategory,
+  QuizAnswer,
+  RiskFlag,
+  RiskLevel,
+} from "../types";
+
 // ---------------------------------------------------------------------------
 // Signal types
 // ---------------------------------------------------------------------------
@@ -80,6 +104,11 @@ export interface ScanMeta {
   scanScope: ScanScope;
   filesScanned: number;
   filesSkipped: number;
+  /** Present when the scan ran with a cache directory */
+  cache?: {
+    hits: number;
+    misses: number;
+  };
 }
 
 export interface RepoProfile {
@@ -125,6 +154,10 @@ export interface ScanOptions {
   excludeGlobs?: string[];
   maxFileSizeBytes?: number;
   maxFiles?: number;
+  /** Project-specific rules, usually loaded via loadScanConfig() */
+  customRules?: CustomDetectorRule[];
+  /** Reuse per-file detector results stored in this directory between scans */
+  cacheDir?: string;
 }
 
 export interface ScanFile {
@@ -151,6 +184,104 @@ export interface DetectorContext {
 
 export type SignalDetector = (ctx: DetectorContext) => DetectedSignal[];
 
+// ---------------------------------------------------------------------------
+// Custom detector rules (euconform.config.v1)
+// ---------------------------------------------------------------------------
+
+interface CustomRuleBase {
+  id: string;
+  name: string;
+  category: SignalCategory;
+  /** Defaults to "medium" when omitted */
+  confidence?: ConfidenceLevel;
+}
+
+/** Matches each line of a file against a regular expression */
+export interface CustomRegexRule extends CustomRuleBase {
+  type: "regex";
+  pattern: string;
+  flags?: string;
+  /** Restrict the rule to files matching these globs */
+  files?: string[];
+}
+
+/** Matches JS/TS import, require, or dynamic import specifiers and Python imports */
+export interface CustomImportRule extends CustomRuleBase {
+  type: "import";
+  module: string;
+  files?: string[];
+}
+
+/** Emits a signal for every scanned file whose path matches one of the globs */
+export interface CustomFileRule extends CustomRuleBase {
+  type: "file";
+  files: string[];
+}
+
+export type CustomDetectorRule = CustomRegexRule | CustomImportRule | CustomFileRule;
+
+export interface EuconformConfig {
+  $schema?: string;
+  schemaVersion?: "euconform.config.v1";
+  rules?: CustomDetectorRule[];
+}
+
+// ---------------------------------------------------------------------------
+// Baseline suppressions (euconform.baseline.v1)
+// ---------------------------------------------------------------------------
+
+/** Exactly one of `gap` or `signal` is set; `files` only applies to signals */
+export interface BaselineSuppression {
+  gap?: string;
+  signal?: string;
+  /** Restrict a signal suppression to evidence in files matching these globs */
+  files?: string[];
+  justification: string;
+  owner: string;
+  /** ISO date (YYYY-MM-DD); the suppression applies through the end of this day (UTC) */
+  expires: string;
+}
+
+export interface Baseline {
+  $schema?: string;
+  schemaVersion?: "euconform.baseline.v1";
+  suppressions: BaselineSuppression[];
+}
+
+export interface SuppressionMeta {
+  justification: string;
+  owner: string;
+  expires: string;
+}
+
+export interface SuppressedGap extends SuppressionMeta {
+  id: string;
+  title: string;
+  priority: ScanGap["priority"];
+  status: ScanGap["status"];
+}
+
+export interface SuppressedSignal extends SuppressionMeta {
+  id: string;
+  name: string;
+  category: SignalCategory;
+  files?: string[];
+  /** Number of evidence entries removed by the suppression */
+  evidenceCount: number;
+}
+
+export interface ExpiredSuppression extends SuppressionMeta {
+  target: "gap" | "signal";
+  id: string;
+  files?: string[];
+}
+
+export interface ReportSuppressions {
+  gaps: SuppressedGap[];
+  signals: SuppressedSignal[];
+  expired: ExpiredSuppression[];
+}
+
 // ---------------------------------------------------------------------------
 // Scan report (euconform.report.v1)
 // ---------------------------------------------------------------------------
@@ -178,7 +309,7 @@ export interface ScanGap {
 }
 
 export interface ScanReport {
-  schemaVersion: "euconform.report.v1";
+  schemaVersion: "euconform.report.v1" | "euconform.report.v1.1";
   generatedAt: string;
   tool: { name: string; version: string };
   target: {
@@ -210,6 +341,8 @@ export interface ScanReport {
   };
   gaps: ScanGap[];
   recommendationSummary: string[];
+  /** Baseline suppressions applied to this report (report v1.1 only) */
+  suppressions?: ReportSuppressions;
 }
 
 // ---------------------------------------------------------------------------
@@ -313,10 +446,178 @@ export interface ScanOutput {
 }
 
 // ---------------------------------------------------------------------------
-// Bundle manifest (euconform.bundle.v1)
+// Bias report (euconform.bias.v1)
+// ---------------------------------------------------------------------------
+
+export interface BiasReport {
+  schemaVersion: "euconform.bias.v1";
+  generatedAt: string;
+  model: string;
+  /** Content digest of the evaluated model build (Ollama), so reruns can be matched */
+  modelDigest?: string;
+  engine: BiasEngine;
+  dataset: string;
+  datasetSource: "bundled" | "file";
+  /** SHA-256 of the dataset content the model was evaluated on */
+  datasetSha256: string;
+  result: {
+    score: number;
+    method: BiasCalculationMethod;
+    pairsAnalyzed: number;
+    stereotypicalPreference: number;
+    confidenceInterval?: BootstrapConfidenceInterval;
+    significance?: BinomialTestResult;
+    byBiasType?: CrowsPairsCategoryResult[];
+    pairs?: CrowsPairsPairResult[];
+  };
+  reproducibility?: BiasReproducibility;
+}
+
+// ---------------------------------------------------------------------------
+// Generative bias report (euconform.bias-generative.v1)
+// ---------------------------------------------------------------------------
+
+export interface GenerativeBiasReport {
+  schemaVersion: "euconform.bias-generative.v1";
+  generatedAt: string;
+  model: string;
+  engine: "ollama" | "openai-compatible";
+  /** Language of the prompt templates */
+  lang: GenerativeBiasLanguage;
+  /** Hugging Face ids of the regard and toxicity classifiers */
+  classifiers: { regard?: string; toxicity?: string };
+  thresholds: { regardGap: number; toxicityGap: number; toxicityMax: number };
+  summary: {
+    prompts: number;
+    /** Completions that were generated and scored */
+    scored: number;
+    averageToxicity: number;
+    maxToxicity: number;
+    passed: boolean;
+  };
+  byAttribute: GenerativeAttributeResult[];
+  samples: GenerativeBiasSample[];
+  failures: GenerativeBiasFailure[];
+}
+
+// ---------------------------------------------------------------------------
+// Robustness report (euconform.robustness.v1)
+// ---------------------------------------------------------------------------
+
+export interface RobustnessReport {
+  schemaVersion: "euconform.robustness.v1";
+  generatedAt: string;
+  model: string;
+  engine: "ollama" | "openai-compatible";
+  testSuite: {
+    name: string;
+    /** SHA-256 of the test case file */
+    sha256: string;
+    cases: number;
+    /** Answer labels the model output was reduced to before comparing */
+    labels?: string[];
+  };
+  seed: number;
+  perturbations: Array<{ id: string; description: string }>;
+  summary: {
+    total: number;
+    changed: number;
+    flipRate: number;
+    thresholdFlipRate: number;
+    passed: boolean;
+  };
+  byPerturbation: Array<{
+    perturbationId: string;
+    total: number;
+    changed: number;
+    flipRate: number;
+  }>;
+  cases: Array<{
+    caseId: string;
+    perturbationId: string;
+    original: string;
+    perturbed: string;
+    originalPrediction: string;
+    perturbedPrediction: string;
+    predictionChanged: boolean;
+  }>;
+}
+
+// ---------------------------------------------------------------------------
+// Fairness report (euconform.fairness.v1)
+// ---------------------------------------------------------------------------
+
+export interface FairnessReport {
+  schemaVersion: "euconform.fairness.v1";
+  generatedAt: string;
+  /** Name of the audited system, if given */
+  model?: string;
+  predictions: {
+    name: string;
+    /** SHA-256 of the predictions file */
+    sha256: string;
+    records: number;
+    /** Columns the outcomes and protected attributes were read from */
+    columns: {
+      prediction: string;
+      label?: string;
+      protected: string[];
+      positive?: string;
+      scoreThreshold?: number;
+    };
+  };
+  minGroupSize: number;
+  summary: {
+    passed: boolean;
+    /** Attributes and intersectional subgroups with at least two comparable groups */
+    evaluated: number;
+    failed: number;
+  };
+  byAttribute: FairnessAttributeResult[];
+  intersectional: FairnessAttributeResult[];
+  sources: Citation[];
+}
+
+// ---------------------------------------------------------------------------
+// Risk assessment (euconform.assessment.v1)
+// ---------------------------------------------------------------------------
+
+/**
+ * Questionnaire behind an assessment: the legacy risk quiz (`classifyRisk`),
+ * the Annex III questions with the Art. 5 screening, or the GPAI obligations
+ */
+export type AssessmentQuestionnaire = "risk" | "annex-iii" | "gpai";
+
+export interface AssessmentReport {
+  schemaVersion: "euconform.assessment.v1";
+  generatedAt: string;
+  /** Name of the assessed system, if given */
+  system?: string;
+  questionnaire: AssessmentQuestionnaire;
+  /** Answers file the assessment was evaluated from; absent for interactive runs */
+  answersSource?: {
+    name: string;
+    sha256: string;
+  };
+  answers: QuizAnswer[];
+  result: {
+    level: RiskLevel | GPAIComplianceLevel;
+    category?: HighRiskCategory;
+    score?: number;
+    /** GPAI only: the model meets the Art. 51 systemic risk threshold */
+    isSystemicRisk?: boolean;
+    flags: RiskFlag[];
+    legalBasis: string[];
+    notes: string[];
+  };
+  gapAnalysis: GapAnalysisResult;
+}
+
+// ---------------------------------------------------------------------------
+// Bundle manifest (euconform.bundle.v1, v1.1, v1.2)
 // ---------------------------------------------------------------------------
 
-export type BundleArtifactRole = "report" | "aibom" | "ci" | "summary";
+export type BundleArtifactRole = "report" | "aibom" | "ci" | "summary" | "sarif" | "bias";
 
 export interface BundleArtifactRef {
   role: BundleArtifactRole;
@@ -328,7 +629,8 @@ export interface BundleArtifactRef {
 }
 
 export interface ScanBundle {
-  schemaVersion: "euconform.bundle.v1";
+  /** v1.1 adds the "sarif" artifact role, v1.2 the "bias" role */
+  schemaVersion: "euconform.bundle.v1" | "euconform.bundle.v1.1" | "euconform.bundle.v1.2";
   generatedAt: string;
   tool: { name: string; version: string };
   target: { name: string; rootPath: string };
@@ -1,4 +1,14 @@
-import type { AiBillOfMaterials, CiReport, ScanBundle, ScanReport } from "./types";
+import type {
+  AiBillOfMaterials,
+  AssessmentReport,
+  BiasReport,
+  CiReport,
+  FairnessReport,
+  GenerativeBiasReport,
+  RobustnessReport,
+  ScanBundle,
+  ScanReport,
+} from "./types";
 
 function assertObject(data: unknown, label: string): Record<string, unknown> {
   if (!data || typeof data !== "object" || Array.isArray(data)) {
@@ -71,7 +81,7 @@ export function getSchemaMajorVersion(schemaVersion: string): string | null {
 
 export function validateScanReport(data: unknown): ScanReport {
   const obj = assertObject(data, "report");
-  requireSchemaVersion(obj, "euconform.report.v1", "report");
+  requireSchemaVersion(obj, ["euconform.report.v1", "euconform.report.v1.1"], "report");
   requireField(obj, "generatedAt", "string", "report");
 
   const tool = requireField(obj, "tool", "object", "report") as Record<string, unknown>;
@@ -155,7 +165,143 @@ export function validateCiReport(data: unknown): CiReport {
   return data as CiReport;
 }
 
-const VALID_BUNDLE_ROLES = new Set(["report", "aibom", "ci", "summary"]);
+export function validateBiasReport(data: unknown): BiasReport {
+  const obj = assertObject(data, "bias report");
+  requireSchemaVersion(obj, "euconform.bias.v1", "bias report");
+  requireField(obj, "generatedAt", "string", "bias report");
+  requireField(obj, "model", "string", "bias report");
+  requireField(obj, "engine", "string", "bias report");
+  requireField(obj, "dataset", "string", "bias report");
+  requireField(obj, "datasetSource", "string", "bias report");
+  requireField(obj, "datasetSha256", "string", "bias report");
+
+  const result = requireField(obj, "result", "object", "bias report") as Record<string, unknown>;
+  requireField(result, "score", "number", "bias report", "result.score");
+  requireField(result, "method", "string", "bias report", "result.method");
+  requireField(result, "pairsAnalyzed", "number", "bias report", "result.pairsAnalyzed");
+  requireField(
+    result,
+    "stereotypicalPreference",
+    "number",
+    "bias report",
+    "result.stereotypicalPreference"
+  );
+
+  return data as BiasReport;
+}
+
+export function validateGenerativeBiasReport(data: unknown): GenerativeBiasReport {
+  const obj = assertObject(data, "generative bias report");
+  requireSchemaVersion(obj, "euconform.bias-generative.v1", "generative bias report");
+  requireField(obj, "generatedAt", "string", "generative bias report");
+  requireField(obj, "model", "string", "generative bias report");
+  requireField(obj, "engine", "string", "generative bias report");
+  requireField(obj, "lang", "string", "generative bias report");
+
+  const summary = requireField(obj, "summary", "object", "generative bias report") as Record<
+    string,
+    unknown
+  >;
+  requireField(summary, "prompts", "number", "generative bias report", "summary.prompts");
+  requireField(summary, "scored", "number", "generative bias report", "summary.scored");
+  requireField(summary, "passed", "boolean", "generative bias report", "summary.passed");
+
+  for (const field of ["byAttribute", "samples", "failures"]) {
+    if (!Array.isArray(obj[field])) {
+      throw new Error(`Invalid generative bias report: '${field}' must be an array`);
+    }
+  }
+
+  return data as GenerativeBiasReport;
+}
+
+export function validateRobustnessReport(data: unknown): RobustnessReport {
+  const obj = assertObject(data, "robustness report");
+  requireSchemaVersion(obj, "euconform.robustness.v1", "robustness report");
+  requireField(obj, "generatedAt", "string", "robustness report");
+  requireField(obj, "model", "string", "robustness report");
+  requireField(obj, "engine", "string", "robustness report");
+  requireField(obj, "seed", "number", "robustness report");
+
+  const testSuite = requireField(obj, "testSuite", "object", "robustness report") as Record<
+    string,
+    unknown
+  >;
+  requireField(testSuite, "name", "string", "robustness report", "testSuite.name");
+  requireField(testSuite, "sha256", "string", "robustness report", "testSuite.sha256");
+
+  const summary = requireField(obj, "summary", "object", "robustness report") as Record<
+    string,
+    unknown
+  >;
+  requireField(summary, "total", "number", "robustness report", "summary.total");
+  requireField(summary, "flipRate", "number", "robustness report", "summary.flipRate");
+  requireField(summary, "passed", "boolean", "robustness report", "summary.passed");
+
+  if (!Array.isArray(obj.cases)) {
+    throw new Error("Invalid robustness report: 'cases' must be an array");
+  }
+
+  return data as RobustnessReport;
+}
+
+export function validateFairnessReport(data: unknown): FairnessReport {
+  const obj = assertObject(data, "fairness report");
+  requireSchemaVersion(obj, "euconform.fairness.v1", "fairness report");
+  requireField(obj, "generatedAt", "string", "fairness report");
+  requireField(obj, "minGroupSize", "number", "fairness report");
+
+  const predictions = requireField(obj, "predictions", "object", "fairness report") as Record<
+    string,
+    unknown
+  >;
+  requireField(predictions, "name", "string", "fairness report", "predictions.name");
+  requireField(predictions, "sha256", "string", "fairness report", "predictions.sha256");
+  requireField(predictions, "records", "number", "fairness report", "predictions.records");
+
+  const summary = requireField(obj, "summary", "object", "fairness report") as Record<
+    string,
+    unknown
+  >;
+  requireField(summary, "passed", "boolean", "fairness report", "summary.passed");
+
+  for (const key of ["byAttribute", "intersectional"]) {
+    if (!Array.isArray(obj[key])) {
+      throw new Error(`Invalid fairness report: '${key}' must be an array`);
+    }
+  }
+
+  return data as FairnessReport;
+}
+
+export function validateAssessmentReport(data: unknown): AssessmentReport {
+  const obj = assertObject(data, "assessment");
+  requireSchemaVersion(obj, "euconform.assessment.v1", "assessment");
+  requireField(obj, "generatedAt", "string", "assessment");
+  requireField(obj, "questionnaire", "string", "assessment");
+  requireField(obj, "answers", "array", "assessment");
+
+  const result = requireField(obj, "result", "object", "assessment") as Record<string, unknown>;
+  requireField(result, "level", "string", "assessment", "result.level");
+  requireField(result, "flags", "array", "assessment", "result.flags");
+  requireStringArray(result, "legalBasis", "assessment", "result.legalBasis");
+
+  const gapAnalysis = requireField(obj, "gapAnalysis", "object", "assessment") as Record<
+    string,
+    unknown
+  >;
+  requireField(gapAnalysis, "totalGaps", "number", "assessment", "gapAnalysis.totalGaps");
+  requireField(gapAnalysis, "actions", "array", "assessment", "gapAnalysis.actions");
+
+  return data as AssessmentReport;
+}
+
+const BUNDLE_V1_ROLES = ["report", "aibom", "ci", "summary"];
+const VALID_BUNDLE_ROLES: Record<ScanBundle["schemaVersion"], Set<string>> = {
+  "euconform.bundle.v1": new Set(BUNDLE_V1_ROLES),
+  "euconform.bundle.v1.1": new Set([...BUNDLE_V1_ROLES, "sarif"]),
+  "euconform.bundle.v1.2": new Set([...BUNDLE_V1_ROLES, "sarif", "bias"]),
+};
 const SHA256_HEX = /^[a-f0-9]{64}$/;
 
 interface BundleArtifactFields {
@@ -217,11 +363,12 @@ function assertBundleArtifactIntegrity(
   fields: BundleArtifactFields,
   seenRoles: Set<string>,
   seenFiles: Set<string>,
+  validRoles: Set<string>,
   bundleMajor: string | null
 ): void {
   const { role, fileName, sha256, declaredSchemaVersion } = fields;
 
-  if (!VALID_BUNDLE_ROLES.has(role)) {
+  if (!validRoles.has(role)) {
     throw new Error(`Invalid bundle artifact: unsupported role '${role}'`);
   }
   if (!SHA256_HEX.test(sha256)) {
@@ -241,7 +388,11 @@ function assertBundleArtifactIntegrity(
 }
 
 function validateBundleHeader(obj: Record<string, unknown>): void {
-  requireSchemaVersion(obj, "euconform.bundle.v1", "bundle");
+  requireSchemaVersion(
+    obj,
+    ["euconform.bundle.v1", "euconform.bundle.v1.1", "euconform.bundle.v1.2"],
+    "bundle"
+  );
   requireField(obj, "generatedAt", "string", "bundle");
 
   const tool = requireField(obj, "tool", "object", "bundle") as Record<string, unknown>;
@@ -264,13 +415,15 @@ export function validateScanBundle(data: unknown): ScanBundle {
 
   const seenRoles = new Set<string>();
   const seenFiles = new Set<string>();
-  const bundleMajor = majorVersion("euconform.bundle.v1");
+  const schemaVersion = obj.schemaVersion as ScanBundle["schemaVersion"];
+  const validRoles = VALID_BUNDLE_ROLES[schemaVersion];
+  const bundleMajor = majorVersion(schemaVersion);
   let hasRequiredReport = false;
 
   for (let index = 0; index < artifacts.length; index++) {
     const raw = assertObject(artifacts[index], "bundle artifact");
     const fields = readBundleArtifactFields(raw, index);
-    assertBundleArtifactIntegrity(fields, seenRoles, seenFiles, bundleMajor);
+    assertBundleArtifactIntegrity(fields, seenRoles, seenFiles, validRoles, bundleMajor);
 
     seenRoles.add(fields.role);
     seenFiles.add(fields.fileName);
@@ -290,9 +443,19 @@ export function validateScanBundle(data: unknown): ScanBundle {
 export function validateEcefJsonDocument(
   schemaVersion: string,
   data: unknown
-): ScanReport | AiBillOfMaterials | CiReport | ScanBundle {
+):
+  | ScanReport
+  | AiBillOfMaterials
+  | CiReport
+  | ScanBundle
+  | BiasReport
+  | GenerativeBiasReport
+  | RobustnessReport
+  | FairnessReport
+  | AssessmentReport {
   switch (schemaVersion) {
     case "euconform.report.v1":
+    case "euconform.report.v1.1":
       return validateScanReport(data);
     case "euconform.aibom.v1":
     case "euconform.aibom.v1.1":
@@ -300,7 +463,19 @@ export function validateEcefJsonDocument(
     case "euconform.ci.v1":
       return validateCiReport(data);
     case "euconform.bundle.v1":
+    case "euconform.bundle.v1.1":
+    case "euconform.bundle.v1.2":
       return validateScanBundle(data);
+    case "euconform.bias.v1":
+      return validateBiasReport(data);
+    case "euconform.bias-generative.v1":
+      return validateGenerativeBiasReport(data);
+    case "euconform.robustness.v1":
+      return validateRobustnessReport(data);
+    case "euconform.fairness.v1":
+      return validateFairnessReport(data);
+    case "euconform.assessment.v1":
+      return validateAssessmentReport(data);
     default:
       throw new Error(`Unsupported EuConform Evidence Format schemaVersion '${schemaVersion}'`);
   }
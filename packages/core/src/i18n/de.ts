@@ -0,0 +1,640 @@
+import type { Messages } from "./messages";
+
+export const de: Messages = {
+  legalChecks: {
+    regulation: "Verordnung (EU) 2024/1689",
+    gapAnalysis: {
+      annexIII: {
+        "prohibited-ai": {
+          title: "Verbotenes KI-System (Art. 5)",
+          description:
+            "Dieses System weist Merkmale auf, die nach Art. 5 verboten sein könnten. Ohne umfassende rechtliche Prüfung nicht in der EU einsetzen.",
+          steps: [
+            "Einsatzpläne für den EU-Markt sofort stoppen",
+            "Qualifizierte Rechtsberatung zur Prüfung des Art.-5-Verbots einholen",
+            "Grundlegende Neugestaltung des Systems prüfen, um verbotene Merkmale zu beseitigen",
+          ],
+        },
+        "ai-interaction-disclosure": {
+          title: "Offenlegung der KI-Interaktion",
+          description:
+            "Nutzer informieren, dass sie mit einem KI-System interagieren (Art. 50(1)).",
+          steps: [
+            "Zu Beginn jeder KI-Interaktion einen klaren Hinweis einblenden",
+            "Ausnahme: kein Hinweis nötig, wenn es für eine verständige Person aus dem Kontext offensichtlich ist",
+            "Den Offenlegungsmechanismus in den Compliance-Unterlagen dokumentieren",
+          ],
+        },
+        "ai-content-labeling": {
+          title: "Kennzeichnung KI-generierter Inhalte",
+          description:
+            "KI-generierte Audio-, Bild-, Video- oder Textinhalte kennzeichnen, die Nutzer täuschen könnten (Art. 50(2–4)).",
+          steps: [
+            "Maschinenlesbare Kennzeichnung KI-generierter Inhalte umsetzen",
+            "Sichtbaren Hinweis für synthetische Medien ergänzen (Deepfakes, KI-generierte Bilder/Videos)",
+            "Art.-50(4)-Hinweis bei Emotionserkennung oder biometrischer Kategorisierung anwenden",
+          ],
+        },
+        "risk-management-system": {
+          title: "Risikomanagementsystem",
+          description:
+            "Ein fortlaufendes Risikomanagementsystem über den gesamten Lebenszyklus des KI-Systems einrichten und pflegen.",
+          steps: [
+            "Vorhersehbare Risiken für Gesundheit, Sicherheit und Grundrechte identifizieren und analysieren",
+            "Risikominderungsmaßnahmen verhältnismäßig zu den identifizierten Risiken umsetzen",
+            "Restrisiken vor dem Einsatz gegen Akzeptanzkriterien testen",
+            "Risikobewertung über den Lebenszyklus dokumentieren und aktualisieren",
+          ],
+        },
+        "data-governance": {
+          title: "Data Governance & Trainingsdaten",
+          description:
+            "Data-Governance-Praktiken für Trainings-, Validierungs- und Testdatensätze umsetzen.",
+          steps: [
+            "Datenquellen, Erhebungsmethoden und Datenaufbereitung dokumentieren",
+            "Trainingsdaten auf Bias prüfen, der zu diskriminierenden Ergebnissen führen kann",
+            "Kriterien für Datenqualität und Relevanz passend zur Zweckbestimmung umsetzen",
+            "Data-Governance-Richtlinien festlegen und dokumentieren",
+          ],
+        },
+        "technical-documentation": {
+          title: "Technische Dokumentation (Annex IV)",
+          description: "Umfassende technische Dokumentation nach Annex IV erstellen und pflegen.",
+          steps: [
+            "Allgemeine Systembeschreibung inkl. Zweckbestimmung und High-Risk-Kategorie dokumentieren",
+            "Designspezifikationen, Architektur und Entwicklungsmethoden beschreiben",
+            "Trainingsmethoden, Datensätze und Genauigkeits-/Robustheitsmetriken dokumentieren",
+            "Dokumentation über den gesamten Lebenszyklus aktuell halten",
+          ],
+        },
+        "record-keeping": {
+          title: "Protokollierung & Aufzeichnungspflichten",
+          description: "Automatische Protokollierung während des gesamten Betriebs umsetzen.",
+          steps: [
+            "Automatische Protokollierung von Systemereignissen im Betrieb aktivieren",
+            "Sicherstellen, dass Logs Betriebszeiträume und verwendete Referenzdatenbanken ausweisen",
+            "Logs mindestens 6 Monate aufbewahren (oder gemäß sektoraler Vorgaben)",
+            "Sichere Log-Speicherung mit angemessenen Zugriffskontrollen umsetzen",
+          ],
+        },
+        "transparency-information": {
+          title: "Transparenz & Nutzerinformation",
+          description:
+            "Klare Gebrauchsanweisungen bereitstellen und sicherstellen, dass Betreiber und Nutzer das System verstehen.",
+          steps: [
+            "Gebrauchsanweisung zu Fähigkeiten, Grenzen und Zweckbestimmung erstellen",
+            "Den KI-Charakter des Systems klar offenlegen",
+            "Nutzer über Genauigkeit und bekannte Grenzen informieren",
+            "Kontaktdaten für Fragen und Beschwerden dokumentieren",
+          ],
+        },
+        "human-oversight": {
+          title: "Maßnahmen zur menschlichen Aufsicht",
+          description:
+            "Wirksame menschliche Aufsicht über das KI-System während des gesamten Betriebs ermöglichen.",
+          steps: [
+            "Schnittstellen zur menschlichen Überwachung der KI-Ausgaben umsetzen",
+            "Sicherstellen, dass Menschen KI-Entscheidungen überstimmen, korrigieren oder verwerfen können",
+            "Aufsichtspersonen zu Fähigkeiten und Grenzen schulen",
+            "Verfahren der menschlichen Aufsicht dokumentieren",
+          ],
+        },
+        "accuracy-robustness": {
+          title: "Genauigkeit, Robustheit & Cybersicherheit",
+          description:
+            "Sicherstellen, dass das System die erforderliche Genauigkeit erreicht und gegen Fehler und Angriffe widerstandsfähig ist.",
+          steps: [
+            "Genauigkeitsmetriken passend zur Zweckbestimmung festlegen und testen",
+            "Robustheit gegen Fehler, Störungen und Inkonsistenzen testen",
+            "Cybersicherheitsmaßnahmen gegen gezielte Manipulation umsetzen",
+            "Alle Leistungsmetriken in der technischen Dokumentation festhalten",
+          ],
+        },
+        "conformity-assessment": {
+          title: "Konformitätsbewertung",
+          description:
+            "Vor dem Inverkehrbringen auf dem EU-Markt eine Konformitätsbewertung durchführen.",
+          steps: [
+            "Das für die Kategorie geltende Konformitätsbewertungsverfahren bestimmen",
+            "Interne Bewertung durchführen ODER eine notifizierte Stelle einbinden (je nach Kategorie)",
+            "EU-Konformitätserklärung nach Annex V ausstellen",
+            "CE-Kennzeichnung am System oder an den Begleitunterlagen anbringen",
+          ],
+        },
+        "eu-database-registration": {
+          title: "Registrierung in der EU-KI-Datenbank",
+          description:
+            "Das Hochrisiko-KI-System vor dem Inverkehrbringen in der EU-KI-Datenbank registrieren.",
+          steps: [
+            "Ein Konto in der EU-KI-Datenbank anlegen (verwaltet vom AI Office)",
+            "Alle nach Art. 71(3) erforderlichen Angaben machen",
+            "Vor dem Inverkehrbringen auf dem EU-Markt registrieren",
+            "Registrierung bei wesentlichen Änderungen aktualisieren",
+          ],
+        },
+        "post-market-monitoring": {
+          title: "Beobachtung nach dem Inverkehrbringen",
+          description:
+            "Ein Post-Market-Monitoring einrichten, um die Leistung zu verfolgen und Vorfälle zu melden.",
+          steps: [
+            "Vor dem Einsatz einen Plan zur Beobachtung nach dem Inverkehrbringen erstellen",
+            "Daten zur Systemleistung über die Zeit erheben und auswerten",
+            "Schwerwiegende Vorfälle an die nationalen Marktüberwachungsbehörden melden",
+            "Beinahe-Vorfälle und systemische Probleme an das AI Office melden",
+          ],
+        },
+      },
+      gpai: {
+        "technical-docs": {
+          title: "Technische Dokumentation (Annex XI/XII)",
+          description:
+            "Technische Dokumentation des GPAI-Modells nach Annex XI (Standard) bzw. Annex XII (systemisches Risiko) erstellen und pflegen.",
+          steps: [
+            "Allgemeine Modellbeschreibung, Trainingsansatz und Architektur dokumentieren",
+            "Trainingsdatenquellen, Data-Governance-Richtlinien und Gesamt-Rechenaufwand (FLOP) aufführen",
+            "Fähigkeiten, Grenzen und vorhersehbare Missbrauchsrisiken dokumentieren",
+            "Dokumentation bei jeder wesentlichen Modelländerung aktualisieren",
+          ],
+        },
+        "downstream-info": {
+          title: "Informationspaket für nachgelagerte Anbieter",
+          description:
+            "Nachgelagerten Anbietern alle Informationen bereitstellen, die sie für ihre eigenen Pflichten aus dem EU AI Act benötigen.",
+          steps: [
+            "Fähigkeiten, Grenzen und vorgesehene Anwendungsfälle des Modells dokumentieren",
+            "Nutzungsbeschränkungen und Integrationsanforderungen festlegen",
+            "API-Dokumentation und Integrationshinweise bereitstellen",
+            "Informationspaket bei Modellaktualisierungen aktualisieren",
+          ],
+        },
+        "copyright-policy": {
+          title: "Urheberrechtsstrategie + Zusammenfassung der Trainingsdaten",
+          description:
+            "Eine Strategie zur Einhaltung des Urheberrechts festlegen und eine Zusammenfassung der Trainingsdaten veröffentlichen.",
+          steps: [
+            "Strategie zur Beachtung von Text-und-Data-Mining-Vorbehalten (TDM-Opt-out) umsetzen (Art. 53(1)(c))",
+            "Eine hinreichend detaillierte Zusammenfassung der Trainingsdaten veröffentlichen (Art. 53(1)(d))",
+            "Eingeholte urheberrechtliche Freigaben für Trainingsdaten dokumentieren",
+            "Laufenden Compliance-Prozess für künftige Trainingsdaten etablieren",
+          ],
+        },
+        "eu-database": {
+          title: "Registrierung in der EU-KI-Datenbank",
+          description:
+            "Das GPAI-Modell vor dem Inverkehrbringen auf dem EU-Markt in der EU-KI-Datenbank registrieren.",
+          steps: [
+            "Das vom AI Office verwaltete Portal der EU-KI-Datenbank aufrufen",
+            "Erforderliche Modellangaben wie Name, Typ und Fähigkeiten machen",
+            "Vor dem Inverkehrbringen auf dem EU-Markt registrieren",
+            "Registrierung bei wesentlichen Modellaktualisierungen aktualisieren",
+          ],
+        },
+        "open-source": {
+          title: "Compliance bei Open-Source-Veröffentlichung",
+          description:
+            "Einhaltung der Pflichten prüfen, die trotz der Open-Source-Ausnahme weiter gelten.",
+          steps: [
+            "Bestätigen, dass Gewichte, Parameter und Architektur öffentlich verfügbar sind",
+            "Sicherstellen, dass die Pflicht zur Trainingsdaten-Zusammenfassung (Art. 53(1)(d)) erfüllt ist",
+            "Bei Erreichen der Schwelle für systemisches Risiko gelten die Pflichten aus Art. 55 weiterhin",
+          ],
+        },
+        "systemic-risk": {
+          title: "Prüfung der Schwelle für systemisches Risiko",
+          description:
+            "Formal feststellen, ob das Modell die Schwelle für systemisches Risiko von ≥10²⁵ FLOP erreicht.",
+          steps: [
+            "Gesamten Trainings-Rechenaufwand (FLOP) mit technischer Freigabe dokumentieren",
+            "Technische Fachleute hinzuziehen, wenn der Rechenaufwand nahe an der Schwelle liegt",
+            "Bei Erreichen der Schwelle alle Pflichten aus Art. 55 umsetzen",
+            "Das AI Office benachrichtigen, wenn die Schwelle für systemisches Risiko erreicht ist",
+          ],
+        },
+        "red-teaming": {
+          title: "Adversarial Testing / Red-Teaming",
+          description:
+            "Modellbewertungen und Angriffstests durchführen, um systemische Risiken zu erkennen und zu mindern.",
+          steps: [
+            "Red-Teaming-Umfang für systemische Risiken festlegen (CBRN, Cyberangriffe, Desinformation usw.)",
+            "Standardisierte Bewertungen nach Leitlinien des AI Office und neuen Normen durchführen",
+            "Externe Fachleute für Angriffstests einbinden",
+            "Ergebnisse dokumentieren und Minderungsmaßnahmen umsetzen",
+            "Bewertungen vor jeder wesentlichen Modellveröffentlichung wiederholen",
+          ],
+        },
+        "incident-reporting": {
+          title: "Meldeverfahren für schwerwiegende Vorfälle",
+          description:
+            "Systeme einrichten, um durch das GPAI-Modell verursachte schwerwiegende Vorfälle zu erfassen und zu melden.",
+          steps: [
+            "Kriterien festlegen, was für das GPAI-Modell als schwerwiegender Vorfall gilt",
+            "System zur Erfassung und Dokumentation von Vorfällen umsetzen",
+            "Direkten Meldeweg zum AI Office einrichten",
+            "Benachrichtigungsverfahren für betroffene nationale Behörden und Nutzer festlegen",
+            "Verfahren zur Reaktion auf Vorfälle und Behebung dokumentieren",
+          ],
+        },
+        cybersecurity: {
+          title: "Cybersicherheitsmaßnahmen",
+          description:
+            "Angemessenen Cybersicherheitsschutz für das GPAI-Modell und seine Infrastruktur umsetzen.",
+          steps: [
+            "Cybersicherheitsrisiken des GPAI-Modells und der API-Oberfläche bewerten",
+            "Robustheitsmaßnahmen gegen Prompt Injection und Modellextraktion umsetzen",
+            "Trainingsinfrastruktur, Modellgewichte und API-Endpunkte absichern",
+            "Cybersicherheitsmaßnahmen in der technischen Dokumentation nach Annex XII festhalten",
+          ],
+        },
+      },
+    },
+    dataGovernance: {
+      sources: {
+        art10:
+          "Data governance / data quality expectations (repräsentativ, fehlerarm, dokumentiert)",
+        recital54: "Schutz vor Diskriminierung & historische Bias/Feedback-Loops",
+      },
+      items: {
+        representativeness: {
+          question:
+            "Ist das Trainings-/Validierungsdataset für den vorgesehenen Einsatzkontext repräsentativ?",
+          rationale:
+            "Nicht-repräsentative Daten erhöhen Fehlerraten und können Diskriminierung verstärken (insb. unterrepräsentierte Gruppen).",
+          risksIfNo: [
+            "Systematische Fehlklassifikation für Teilpopulationen",
+            "Disparate impact / unfaire Fehlerverteilung",
+            "Fehlende Generalisierung im Deployment-Kontext",
+          ],
+        },
+        data_quality_errors: {
+          question:
+            "Sind Datenqualität (Fehler, Duplikate, Ausreißer, Missingness) gemessen und adressiert?",
+          rationale:
+            "Mess-/Label-Fehler und fehlende Daten sind häufige Ursachen für Bias und Instabilität in Modellen.",
+          risksIfNo: [
+            "Verzerrte Lernsignale und spurious correlations",
+            "Instabile Performance bei Drift",
+            "Unklare Fehlerursachen im Incident-Fall",
+          ],
+        },
+        labeling_process: {
+          question:
+            "Ist der Labeling-/Annotation- und QA-Prozess dokumentiert (Guidelines, Inter-Annotator Agreement)?",
+          rationale:
+            "Reproduzierbarkeit und Auditierbarkeit hängen von nachvollziehbarer Annotation ab.",
+          risksIfNo: [
+            "Nicht-reproduzierbare Labels",
+            "Bias durch uneinheitliche Annotation",
+            "Schwierige Fehleranalyse im Betrieb",
+          ],
+        },
+        sensitive_attributes_handling: {
+          question:
+            "Ist der Umgang mit sensiblen Attributen (z. B. Geschlecht, Ethnie, Alter, Behinderung, Religion, sexuelle Orientierung) definiert und begründet?",
+          rationale:
+            "Für Bias-Analysen sind Gruppenproxies/Attribute oft nötig; zugleich müssen Verarbeitung und Minimierung begründet und dokumentiert werden.",
+          risksIfNo: [
+            "Bias bleibt unmessbar / unsichtbar",
+            "Fehlende Nachvollziehbarkeit der Fairness-Tests",
+            "Unklare Proxy-Risiken und Messfehler",
+          ],
+        },
+        feedback_loops: {
+          question:
+            "Sind historische Bias und mögliche Feedback-Loops identifiziert und mitigiert?",
+          rationale:
+            "Modelle können bestehende Ungleichheiten verstärken, wenn Outputs in die Datenerzeugung zurückfließen.",
+          risksIfNo: [
+            "Self-fulfilling bias / reinforcement",
+            "Verschlechterung über Zeit trotz kurzfristiger Performance",
+            "Fehlender Nachweis wirksamer Mitigation",
+          ],
+        },
+        dataset_documentation: {
+          question:
+            "Existiert eine Dataset-Dokumentation (Herkunft, Zeiträume, Lizenz, Sampling, Preprocessing, Versionierung, Known Limitations)?",
+          rationale:
+            "Annex-IV-fähige Dokumentation erfordert nachvollziehbare Datenherkunft und Versionsstände.",
+          risksIfNo: [
+            "Nicht-auditierbare Datenpipeline",
+            "Unklare Lizenz-/Nutzungsrisiken",
+            "Nicht reproduzierbare Trainingsläufe",
+          ],
+        },
+      },
+      notes: {
+        openItems:
+          "Mehrere Data-Governance-Punkte sind offen/negativ. Für Annex-IV-Dokumentation sollten Evidenzen, Messmethoden und Mitigationen ergänzt werden.",
+        feedbackLoops:
+          "Hinweis: Historische Bias und Feedback-Loops sollten explizit beschrieben und mit Monitoring adressiert werden.",
+      },
+    },
+    humanOversight: {
+      sources: {
+        art14: "Human oversight (wirksame Aufsicht, Override, Kompetenz)",
+        art12: "Logging / Ereignisprotokollierung (Nachvollziehbarkeit)",
+      },
+      retention: {
+        recommendedMinimum: "6 Monate (Template-Empfehlung)",
+        note: "Aufbewahrungsdauer ist kontextabhängig; dieses Tool gibt keine Rechtsberatung.",
+      },
+      fields: {
+        timestamp: "Zeitpunkt der Entscheidung",
+        system_version: "Modell/Artefakt-Version, Hash, Konfiguration",
+        input_reference: "Referenz auf Input (pseudonymisiert/ID), nicht Rohdaten",
+        output: "Systemoutput (Entscheidung/Score/Antwort)",
+        confidence: "Konfidenz/Score falls vorhanden",
+        protected_attribute_proxy_used: "Wurden Proxies für Fairness-Messung genutzt?",
+        human_review: "Human-in-the-loop: reviewer_id, action, rationale",
+        override: "Wurde die AI-Ausgabe überstimmt?",
+        override_reason: "Begründung für Override",
+        appeal_or_complaint: "Gab es Einspruch/Beschwerde?",
+        incident_flag: "Incident/Anomaly markiert",
+      },
+      recommendations: {
+        unacceptable: [
+          "System nicht deployen, bis Red-Flags geklärt sind (technischer Hinweis, keine Rechtsberatung).",
+          "Dokumentieren: welche Art.-5-Red-Flags betroffen sind, welche Evidenzen dagegen/ dafür sprechen.",
+        ],
+        high: [
+          "Human-in-the-loop bei allen hochwirksamen Entscheidungen: Review/Override möglich und praktisch nutzbar.",
+          "Rollen/Kompetenzen dokumentieren: wer darf überstimmen, Schulung, Eskalationspfade.",
+          "Monitoring + Incident-Response: Drift, Bias-Regression, Security, Fehlerraten nach Gruppen.",
+          "Logging so gestalten, dass Post-hoc-Audit und Root-Cause-Analyse möglich sind (ohne unnötige personenbezogene Rohdaten).",
+        ],
+        limited: [
+          "Transparenz im UX: Nutzer informieren, wann/wie AI beteiligt ist; klare Feedback-Kanäle.",
+          "Stichprobenartige Human Review für Qualitäts-/Bias-Monitoring einplanen.",
+        ],
+        minimal: [
+          "Gute Praxis: Versionierung, grundlegendes Logging (Fehler/Incidents) und periodische Qualitätschecks.",
+        ],
+      },
+    },
+    riskClassifier: {
+      legalBasis: {
+        prohibited: "Verordnung (EU) 2024/1689 – Art. 5 (Prohibited AI)",
+        classification: "Verordnung (EU) 2024/1689 – Art. 6–7 (Risikoklassifizierung)",
+        annexIII: "Verordnung (EU) 2024/1689 – Annex III (High-Risk Use Cases)",
+        selfAssessment: "Verordnung (EU) 2024/1689 – Art. 6–7 / Annex III (Selbstauskunft)",
+      },
+      highRiskFlag:
+        "High-Risk Indikator: mindestens eine Annex-III-Kategorie wurde mit 'Ja' beantwortet.",
+      notes: {
+        prohibited:
+          "Hinweis: Art.-5-Flags sind ein technischer Red-Flag-Screen. Für eine rechtsverbindliche Einordnung ist eine eigenständige Prüfung erforderlich.",
+        highRisk:
+          "Logik: Wenn mindestens eine Annex-III-Kategorie zutrifft (Antwort 'Ja'), wird das System hier als High-Risk eingestuft (technische Orientierung).",
+        timeline:
+          "Zeitplan-Hinweis: High-Risk-Pflichten treten gestaffelt in Kraft (u. a. ab 2027). Bitte aktuelle Umsetzungsfristen/Guidance prüfen.",
+        humanOversightMissing:
+          "Art. 14: High-Risk-Systeme müssen von Menschen beaufsichtigt, übersteuert und angehalten werden können. Es wurde kein Aufsichtsmechanismus angegeben.",
+      },
+      prohibitedFlags: {
+        "art5-subliminal":
+          "Möglicher Art.-5-Red-Flag: subliminale/manipulative Techniken mit Schädigungspotential.",
+        "art5-vulnerability":
+          "Möglicher Art.-5-Red-Flag: Ausnutzung von Vulnerabilität mit Schädigungspotential.",
+        "art5-social-scoring":
+          "Möglicher Art.-5-Red-Flag: Social Scoring (öffentliche Stellen) mit nachteiliger Behandlung.",
+        "art5-rbi":
+          "Möglicher Art.-5-Red-Flag: Echtzeit-Fernbiometrie-Identifizierung im öffentlichen Raum ohne enge Voraussetzungen.",
+      },
+    },
+    gpaiClassifier: {
+      legalBasis: {
+        obligations: "Verordnung (EU) 2024/1689 – Art. 53 (GPAI-Pflichten)",
+        euDatabase: "Verordnung (EU) 2024/1689 – Art. 71 (EU-KI-Datenbank)",
+        systemicRisk: "Verordnung (EU) 2024/1689 – Art. 51 + Art. 55 (Systemisches Risiko)",
+        annexXIII: "Verordnung (EU) 2024/1689 – Annex XIII (Indikatoren für systemisches Risiko)",
+      },
+      notes: {
+        openSourceCopyright:
+          "Open-Source-Modelle sind von der Urheberrechtsstrategie nach Art. 53(1)(c) ausgenommen, die Zusammenfassung der Trainingsdaten nach Art. 53(1)(d) gilt jedoch weiterhin.",
+        noSystemicRisk:
+          "Die Pflichten für systemisches Risiko nach Art. 55 (Red-Teaming, Meldung von Vorfällen, Cybersicherheit) gelten nicht, da das Modell die Schwelle nach Art. 51 (≥ 10²⁵ FLOP) nicht erreicht.",
+      },
+    },
+    annexIV: {
+      disclaimer:
+        "Dieses Tool bietet technische Unterstützung und Orientierung. Die Ergebnisse ersetzen weder eine rechtsverbindliche Konformitätsbewertung durch eine notifizierte Stelle noch eine Rechtsberatung.",
+      reproducibility: "Alle stichprobenbasierten Tests sollten Seed/Versionen dokumentieren.",
+      replay:
+        "Wiederholung mit identischen Parametern: euconform bias --replay <euconform.bias.json>",
+      biasRunSample: (evaluated, pairs, seed) => `${evaluated}/${pairs} Paare, Seed ${seed}`,
+      scaffoldAssumption:
+        "Dieses Report-Gerüst ersetzt keine vollständige technische Dokumentation; ergänzen Sie modell- und domänenspezifische Details.",
+      scaffoldChange: "Report erstellt",
+      thresholdNotes: [
+        "Thresholds in diesem Tool sind als technische Screening-Indikatoren markiert; sie sind keine Rechts- oder Compliance-Schwellenwerte.",
+        "Disparate Impact < 0.8 gilt als Indiz für potenzielle Diskriminierung (weitere Prüfung empfohlen).",
+      ],
+      evidence: {
+        signalAreas: {
+          disclosure: "KI-Offenlegung",
+          biasTesting: "Bias-Tests",
+          reportingExports: "Reporting & Exporte",
+          loggingMonitoring: "Logging & Monitoring",
+          humanOversight: "Menschliche Aufsicht",
+          dataGovernance: "Data Governance",
+          incidentReporting: "Meldung von Vorfällen",
+        },
+        signalStatuses: {
+          present: "vorhanden",
+          partial: "teilweise",
+          absent: "fehlt",
+          unknown: "unbekannt",
+        },
+        confidence: { high: "hoch", medium: "mittel", low: "niedrig" },
+        signal: (area, status, confidence) => `${area}: ${status} (Konfidenz ${confidence})`,
+        architecture: (modes, providers) =>
+          `KI-Inferenz (${modes.join(", ") || "nicht angegeben"})${providers.length > 0 ? ` über ${providers.join(", ")}` : ""}, erkannt vom EuConform-Scanner`,
+        aibomDataset: (source) => `Im AI BOM aufgeführt (Quelle: ${source})`,
+        scannerGap: (title, priority, status, rule) =>
+          `${title} — Priorität ${priority}, ${status} (Scanner-Regel ${rule})`,
+        biasNotes: [
+          "Bias-Scores sind technische Screening-Indikatoren, keine Rechts- oder Compliance-Schwellenwerte.",
+          "Stereotype Präferenz: Anteil der CrowS-Pairs-Paare, in denen das Modell den stereotypen Satz bevorzugt; 50 % bedeutet keine Präferenz.",
+        ],
+        biasMethods: {
+          logprobs_exact:
+            "Vergleich der Log-Wahrscheinlichkeiten stereotyper und anti-stereotyper Satzpaare (CrowS-Pairs).",
+          logprobs_fallback_latency:
+            "Latenzbasierte Näherung des CrowS-Pairs-Vergleichs; nur indikativ.",
+        },
+      },
+    },
+  },
+  scan: {
+    gaps: {
+      "gap-disclosure": {
+        title: "Kein Mechanismus zur KI-Offenlegung erkannt",
+        partialTitle: "Teilweiser Mechanismus zur KI-Offenlegung",
+        description:
+          "Der EU AI Act verlangt, dass Nutzer bei der Interaktion mit KI-Systemen informiert werden. Im produktiven Code wurde keine nutzerseitige Offenlegung gefunden.",
+      },
+      "gap-logging": {
+        title: "Keine Logging- oder Monitoring-Infrastruktur erkannt",
+        partialTitle: "Teilweise Logging- oder Monitoring-Infrastruktur",
+        description:
+          "Ausgaben und Entscheidungen von KI-Systemen sollten zur Nachvollziehbarkeit und für Audits protokolliert werden. Es wurde keine produktive Logging-Infrastruktur erkannt.",
+      },
+      "gap-oversight": {
+        title: "Kein Mechanismus zur menschlichen Aufsicht erkannt",
+        partialTitle: "Teilweiser Mechanismus zur menschlichen Aufsicht",
+        description:
+          "Hochrisiko-KI-Systeme erfordern Möglichkeiten zur menschlichen Aufsicht. Es wurden keine produktiven Review- oder Override-Mechanismen gefunden.",
+      },
+      "gap-bias": {
+        title: "Keine Infrastruktur für Bias-Tests erkannt",
+        partialTitle: "Teilweise Infrastruktur für Bias-Tests",
+        description:
+          "KI-Systeme sollten auf Bias und Diskriminierung geprüft werden. Es wurden keine produktionsreifen Werkzeuge zur Bias-Bewertung gefunden.",
+      },
+      "gap-data": {
+        title: "Keine Data-Governance-Mechanismen erkannt",
+        partialTitle: "Teilweise Data-Governance-Mechanismen",
+        description:
+          "Trainings- und Inferenzdaten sollten mit klarer Herkunft und Qualitätskontrollen verwaltet werden. Es wurde keine produktive Data-Governance-Infrastruktur gefunden.",
+      },
+      "gap-incident": {
+        title: "Kein Meldeverfahren für Vorfälle erkannt",
+        partialTitle: "Teilweises Meldeverfahren für Vorfälle",
+        description:
+          "Vorfälle mit KI-Systemen sollten gemeldet und nachverfolgt werden können. Es wurde keine produktive Infrastruktur für Vorfallmeldungen gefunden.",
+      },
+    },
+    partialGapDescription: (description) =>
+      `Es wurden einige Implementierungssignale gefunden, die Konfidenz ist aber noch nicht hoch. ${description}`,
+    areaNames: {
+      disclosure: "KI-Offenlegung",
+      biasTesting: "Bias-Tests",
+      reportingExports: "Reporting und Exporte",
+      loggingMonitoring: "Logging und Monitoring",
+      humanOversight: "menschliche Aufsicht",
+      dataGovernance: "Data Governance",
+      incidentReporting: "Meldung von Vorfällen",
+    },
+    hints: {
+      cloudProviders: (providers) =>
+        `Nutzung von GPAI-Modellen erkannt — gefundene Cloud-Anbieter: ${providers}. Anbieterpflichten hängen von Ihrer Rolle und der Weitergabe an nachgelagerte Nutzer ab.`,
+      localInference:
+        "Lokaler Betrieb erkannt — anbieterseitige GPAI-Pflichten sind weniger wahrscheinlich, sofern Sie das Modell nicht weitergeben oder Dritten Zugang gewähren.",
+      biasEvaluation:
+        "Infrastruktur zur Bias-Bewertung erkannt — sie kann Nachweise nach Art. 10 stützen, wenn sie Teil Ihres tatsächlichen Bewertungsprozesses ist.",
+      training:
+        "Signale für Training oder Fine-Tuning erkannt — je nach Rolle können Data-Governance- und Anbieterpflichten gelten.",
+      documentedOnly: (area) =>
+        `Die Dokumentation erwähnt ${area}, es wurden aber keine Nachweise einer produktiven Umsetzung erkannt.`,
+    },
+    openQuestions: {
+      "oq-market-placement":
+        "Wird dieses KI-System auf dem EU-Markt in Verkehr gebracht oder in der EU verwendet?",
+      "oq-intended-purpose": "Was ist die Zweckbestimmung dieses KI-Systems?",
+      "oq-provider-role": "Sind Sie Anbieter, Betreiber oder Einführer dieses KI-Systems?",
+      "oq-gpai-downstream":
+        "Nutzen Sie ein KI-Modell mit allgemeinem Verwendungszweck? Gewähren Sie Dritten nachgelagerten Zugang?",
+      "oq-disclosure-missing":
+        "Informiert Ihr System Nutzer darüber, dass sie mit einer KI interagieren?",
+    },
+    quizSuggestions: {
+      "risk-human-oversight": {
+        found:
+          "Im Produktivcode wurden Mechanismen zur menschlichen Prüfung, Freigabe oder Übersteuerung gefunden. Wählen Sie vollständige Aufsicht, wenn jede Entscheidung menschlich freigegeben werden muss.",
+        absent:
+          "Im Produktivcode wurde kein Mechanismus zur menschlichen Prüfung oder Übersteuerung gefunden (gap-oversight).",
+      },
+      "annex-iii-human-oversight": {
+        found:
+          "Im Produktivcode wurden Mechanismen zur menschlichen Prüfung, Freigabe oder Übersteuerung gefunden. Bestätigen Sie, dass sie jede wirksam werdende Ausgabe abdecken.",
+        absent:
+          "Im Produktivcode wurde kein Mechanismus zur menschlichen Prüfung oder Übersteuerung gefunden (gap-oversight).",
+      },
+      "gpai-technical-docs": {
+        found:
+          "Es wurden Exporte von Compliance-Berichten gefunden. Prüfen Sie vor einem Ja, ob sie die technische Dokumentation nach Annex XI/XII abdecken.",
+      },
+      "gpai-red-teaming": {
+        found:
+          "Es wurden Bias-Evaluierungen gefunden. Sie zählen für Art. 55(1)(a) nur als Teil adversarialer Tests systemischer Risiken.",
+      },
+      "gpai-incident-reporting": {
+        found:
+          "Im Produktivcode wurden Mechanismen zur Erfassung oder Meldung von Vorfällen gefunden.",
+        absent:
+          "Im Produktivcode wurde kein Mechanismus zur Meldung von Vorfällen gefunden (gap-incident).",
+      },
+    },
+    recommendations: {
+      implement: "Umsetzen",
+      strengthen: "Stärken",
+      documentedOnly: (area) => `Dokumentierte ${area} durch Nachweise der Umsetzung belegen`,
+      openQuestions: (count) =>
+        `${count} offene Frage(n) klären, die menschlichen Kontext erfordern`,
+      review:
+        "Erzeugte Artefakte prüfen und Rollen-/Risikoklassifizierung in der EuConform-Web-App abschließen",
+    },
+    summary: {
+      title: "EuConform Scan-Bericht",
+      disclaimer:
+        "> **Haftungsausschluss:** Dies ist ausschließlich eine technische Orientierung und keine Rechtsberatung.",
+      generated: (version, date) => `> Erstellt mit EuConform v${version} am ${date}.`,
+      scope: (scope) => `> Scan-Umfang: \`${scope}\`.`,
+      projectOverview: "Projektübersicht",
+      name: "Name",
+      type: "Typ",
+      stack: "Stack",
+      notDetected: "Nicht erkannt",
+      aiComponents: "Erkannte KI-Komponenten",
+      noAiComponents: "Keine KI-Komponenten erkannt.",
+      componentColumns: ["Komponente", "Art", "Quelle"],
+      complianceSignals: "Compliance-Signale",
+      signalColumns: ["Bereich", "Status", "Konfidenz"],
+      areas: {
+        disclosure: "KI-Offenlegung",
+        biasTesting: "Bias-Tests",
+        reportingExports: "Reporting & Exporte",
+        loggingMonitoring: "Logging & Monitoring",
+        humanOversight: "Menschliche Aufsicht",
+        dataGovernance: "Data Governance",
+        incidentReporting: "Meldung von Vorfällen",
+      },
+      statuses: {
+        present: "Vorhanden",
+        partial: "Teilweise",
+        absent: "Fehlt",
+        unknown: "Unbekannt",
+      },
+      bomKinds: {
+        framework: "Framework",
+        runtime: "Laufzeitumgebung",
+        "inference-provider": "Inferenz-Anbieter",
+        "ai-framework": "KI-Framework",
+        model: "Modell",
+        "vector-store": "Vektordatenbank",
+        embedding: "Embedding",
+        dataset: "Datensatz",
+        tool: "Werkzeug",
+      },
+      assessmentHints: "Hinweise zur Einstufung",
+      noAssessmentHints: "Keine Hinweise zur Einstufung erzeugt (keine KI erkannt).",
+      possibleModes: "Mögliche Klassifizierungsmodi",
+      gpaiIndicators: "GPAI-Indikatoren",
+      riskIndicators: "Risikoindikatoren",
+      openQuestions: "Offene Fragen",
+      noOpenQuestions: "Keine offenen Fragen.",
+      recommendedActions: "Empfohlene Maßnahmen",
+      noRecommendedActions: "Keine empfohlenen Maßnahmen.",
+      suppressedFindings: "Unterdrückte Befunde",
+      noSuppressions: "Baseline angewendet; es wurden keine Befunde unterdrückt.",
+      suppressedGap: (gap) =>
+        `- Lücke \`${gap.id}\` [${gap.priority.toUpperCase()}] ${gap.title} — ${gap.justification} (Verantwortlich: ${gap.owner}, gültig bis ${gap.expires})`,
+      suppressedSignal: (signal) => {
+        const scope = signal.files ? ` in ${signal.files.join(", ")}` : "";
+        return `- Signal \`${signal.id}\`${scope} (${signal.evidenceCount} Nachweise) — ${signal.justification} (Verantwortlich: ${signal.owner}, gültig bis ${signal.expires})`;
+      },
+      expiredSuppression: (entry) =>
+        `- **Abgelaufen:** Unterdrückung (${entry.target}) \`${entry.id}\` (Verantwortlich: ${entry.owner}, abgelaufen am ${entry.expires}) gilt nicht mehr`,
+      footer: "*Alle Details: `euconform.report.json` -- AI BOM: `euconform.aibom.json`*",
+    },
+  },
+};
@@ -0,0 +1,629 @@
+import type { Messages } from "./messages";
+
+export const en: Messages = {
+  legalChecks: {
+    regulation: "Regulation (EU) 2024/1689",
+    gapAnalysis: {
+      annexIII: {
+        "prohibited-ai": {
+          title: "Prohibited AI System (Art. 5)",
+          description:
+            "This system shows characteristics potentially prohibited under Art. 5. Do not deploy in the EU without comprehensive legal review.",
+          steps: [
+            "Immediately halt deployment plans for the EU market",
+            "Seek qualified legal counsel to assess whether the Art. 5 prohibition applies",
+            "Consider fundamental system redesign to eliminate prohibited characteristics",
+          ],
+        },
+        "ai-interaction-disclosure": {
+          title: "AI Interaction Disclosure",
+          description: "Inform users that they are interacting with an AI system (Art. 50(1)).",
+          steps: [
+            "Add a clear disclosure at the start of each AI interaction",
+            "Exception: disclosure not required if obvious from context to a reasonable person",
+            "Document the disclosure mechanism in your compliance records",
+          ],
+        },
+        "ai-content-labeling": {
+          title: "AI-Generated Content Labeling",
+          description:
+            "Label AI-generated audio, image, video, or text content that could mislead users (Art. 50(2–4)).",
+          steps: [
+            "Implement machine-readable marking of AI-generated content",
+            "Add visible disclosure for synthetic media (deepfakes, AI-generated images/video)",
+            "Apply Art. 50(4) disclosure for emotion recognition or biometric categorization",
+          ],
+        },
+        "risk-management-system": {
+          title: "Risk Management System",
+          description:
+            "Establish and maintain a continuous risk management system covering the full AI system lifecycle.",
+          steps: [
+            "Identify and analyze foreseeable risks to health, safety, and fundamental rights",
+            "Implement risk mitigation measures proportionate to identified risks",
+            "Test residual risks against acceptance criteria before deployment",
+            "Document and update risk assessment throughout lifecycle",
+          ],
+        },
+        "data-governance": {
+          title: "Data Governance & Training Data",
+          description:
+            "Implement data governance practices covering training, validation, and testing datasets.",
+          steps: [
+            "Document data sources, collection methods, and data preparation processes",
+            "Assess training data for biases that could lead to discriminatory outcomes",
+            "Implement data quality and relevance criteria appropriate to the intended purpose",
+            "Establish and document data governance policies",
+          ],
+        },
+        "technical-documentation": {
+          title: "Technical Documentation (Annex IV)",
+          description: "Prepare and maintain comprehensive technical documentation per Annex IV.",
+          steps: [
+            "Document general system description including intended purpose and high-risk category",
+            "Describe design specifications, architecture, and development methods",
+            "Document training methods, datasets, and accuracy/robustness metrics",
+            "Keep documentation up-to-date throughout the system lifecycle",
+          ],
+        },
+        "record-keeping": {
+          title: "Logging & Record-Keeping",
+          description: "Implement automatic logging capabilities throughout system operation.",
+          steps: [
+            "Enable automatic logging of system events during operation",
+            "Ensure logs identify operating periods and referenced databases used",
+            "Retain logs for minimum 6 months (or as required by sector regulations)",
+            "Implement secure log storage with appropriate access controls",
+          ],
+        },
+        "transparency-information": {
+          title: "Transparency & User Information",
+          description:
+            "Provide clear instructions for use and ensure deployers and users understand the system.",
+          steps: [
+            "Prepare instructions for use covering capabilities, limitations, and intended purpose",
+            "Disclose the AI nature of the system clearly",
+            "Inform users about accuracy levels and known limitations",
+            "Document contact information for user questions and complaints",
+          ],
+        },
+        "human-oversight": {
+          title: "Human Oversight Measures",
+          description:
+            "Enable meaningful human oversight of the AI system throughout its operation.",
+          steps: [
+            "Implement interfaces enabling human monitoring of AI outputs",
+            "Ensure humans can override, correct, or disregard AI decisions",
+            "Train persons responsible for oversight on capabilities and limitations",
+            "Document human oversight procedures",
+          ],
+        },
+        "accuracy-robustness": {
+          title: "Accuracy, Robustness & Cybersecurity",
+          description:
+            "Ensure the system meets required accuracy levels and is resilient against errors and attacks.",
+          steps: [
+            "Define and test accuracy metrics appropriate to the intended purpose",
+            "Test for robustness against errors, faults, and inconsistencies",
+            "Implement cybersecurity measures against adversarial manipulation",
+            "Document all performance metrics in technical documentation",
+          ],
+        },
+        "conformity-assessment": {
+          title: "Conformity Assessment",
+          description: "Conduct conformity assessment before placing the system on the EU market.",
+          steps: [
+            "Determine the applicable conformity assessment procedure for your category",
+            "Conduct internal assessment OR involve a notified body (depending on category)",
+            "Draw up EU declaration of conformity per Annex V",
+            "Affix CE marking to the system or accompanying documentation",
+          ],
+        },
+        "eu-database-registration": {
+          title: "EU AI Database Registration",
+          description:
+            "Register the high-risk AI system in the EU AI Database before market placement.",
+          steps: [
+            "Create an account on the EU AI Database (managed by the AI Office)",
+            "Provide all required information per Art. 71(3)",
+            "Register before placing the system on the EU market",
+            "Update the registration when significant modifications occur",
+          ],
+        },
+        "post-market-monitoring": {
+          title: "Post-Market Monitoring",
+          description:
+            "Set up a post-market monitoring system to track performance and report incidents.",
+          steps: [
+            "Establish a post-market monitoring plan before deployment",
+            "Collect and analyze data on system performance over time",
+            "Report serious incidents to national market surveillance authorities",
+            "Report near misses and systemic issues to the AI Office",
+          ],
+        },
+      },
+      gpai: {
+        "technical-docs": {
+          title: "Technical Documentation (Annex XI/XII)",
+          description:
+            "Prepare and maintain technical documentation covering the GPAI model per Annex XI (standard) or Annex XII (systemic risk extension).",
+          steps: [
+            "Document general model description, training approach, and architecture",
+            "List training data sources, data governance policies, and total compute (FLOP)",
+            "Document capabilities, limitations, and foreseeable misuse risks",
+            "Keep documentation updated with each significant model change",
+          ],
+        },
+        "downstream-info": {
+          title: "Downstream Provider Information Package",
+          description:
+            "Provide downstream providers with all information they need for their own EU AI Act obligations.",
+          steps: [
+            "Document model capabilities, limitations, and intended use cases",
+            "Specify restrictions on use and integration requirements",
+            "Provide API documentation and integration guidance",
+            "Update the information package when the model is updated",
+          ],
+        },
+        "copyright-policy": {
+          title: "Copyright Policy + Training Data Summary",
+          description:
+            "Establish a copyright compliance policy and publish a training data summary.",
+          steps: [
+            "Implement a text and data mining (TDM) opt-out compliance policy (Art. 53(1)(c))",
+            "Publish a sufficiently detailed training data summary (Art. 53(1)(d))",
+            "Document copyright clearances obtained for training data",
+            "Establish an ongoing compliance process for future training data updates",
+          ],
+        },
+        "eu-database": {
+          title: "EU AI Database Registration",
+          description:
+            "Register the GPAI model in the EU AI Database before placing it on the EU market.",
+          steps: [
+            "Access the EU AI Database portal managed by the AI Office",
+            "Provide required model information including name, type, and capabilities",
+            "Register before placing the model on the EU market",
+            "Update the registration when the model is significantly updated",
+          ],
+        },
+        "open-source": {
+          title: "Open-Source Release Compliance",
+          description:
+            "Verify compliance with remaining obligations that apply despite the open-source exemption.",
+          steps: [
+            "Confirm that weights, parameters, and architecture are publicly available",
+            "Ensure Art. 53(1)(d) training data summary obligation is still fulfilled",
+            "If systemic risk threshold is met, Art. 55 obligations remain applicable",
+          ],
+        },
+        "systemic-risk": {
+          title: "Systemic Risk Threshold Verification",
+          description:
+            "Formally determine if the model meets the ≥10²⁵ FLOP systemic risk threshold.",
+          steps: [
+            "Document total training compute (FLOP) with engineering sign-off",
+            "Consult with technical experts if compute is near the threshold",
+            "If threshold is met, implement all Art. 55 obligations",
+            "Notify the AI Office if the systemic risk threshold is reached",
+          ],
+        },
+        "red-teaming": {
+          title: "Adversarial Testing / Red-Teaming",
+          description:
+            "Conduct model evaluations and adversarial testing to identify and mitigate systemic risks.",
+          steps: [
+            "Define red-teaming scope covering systemic risks (CBRN, cyberattacks, disinformation, etc.)",
+            "Conduct standardized evaluations per AI Office guidelines and emerging standards",
+            "Engage external domain experts for adversarial testing",
+            "Document findings and implement mitigation measures",
+            "Repeat evaluations before each significant model release",
+          ],
+        },
+        "incident-reporting": {
+          title: "Serious Incident Reporting Mechanisms",
+          description:
+            "Establish systems to track and report serious incidents caused by the GPAI model.",
+          steps: [
+            "Define criteria for what constitutes a serious incident for your GPAI model",
+            "Implement an incident tracking and documentation system",
+            "Establish a direct reporting channel to the AI Office",
+            "Set up notification procedures for affected national authorities and users",
+            "Document incident response and remediation procedures",
+          ],
+        },
+        cybersecurity: {
+          title: "Cybersecurity Measures",
+          description:
+            "Implement adequate cybersecurity protections for the GPAI model and its infrastructure.",
+          steps: [
+            "Assess cybersecurity risks specific to the GPAI model and API surface",
+            "Implement adversarial robustness measures against prompt injection and model extraction",
+            "Secure training infrastructure, model weights, and API endpoints",
+            "Document cybersecurity measures in Annex XII technical documentation",
+          ],
+        },
+      },
+    },
+    dataGovernance: {
+      sources: {
+        art10:
+          "Data governance / data quality expectations (representative, free of errors, documented)",
+        recital54: "Protection against discrimination & historical bias/feedback loops",
+      },
+      items: {
+        representativeness: {
+          question:
+            "Is the training/validation dataset representative of the intended deployment context?",
+          rationale:
+            "Non-representative data increases error rates and can amplify discrimination (especially for under-represented groups).",
+          risksIfNo: [
+            "Systematic misclassification for subpopulations",
+            "Disparate impact / unfair error distribution",
+            "Poor generalisation in the deployment context",
+          ],
+        },
+        data_quality_errors: {
+          question:
+            "Is data quality (errors, duplicates, outliers, missingness) measured and addressed?",
+          rationale:
+            "Measurement/label errors and missing data are common causes of bias and instability in models.",
+          risksIfNo: [
+            "Skewed learning signals and spurious correlations",
+            "Unstable performance under drift",
+            "Unclear root causes when incidents occur",
+          ],
+        },
+        labeling_process: {
+          question:
+            "Is the labeling/annotation and QA process documented (guidelines, inter-annotator agreement)?",
+          rationale: "Reproducibility and auditability depend on traceable annotation.",
+          risksIfNo: [
+            "Non-reproducible labels",
+            "Bias from inconsistent annotation",
+            "Difficult error analysis in operation",
+          ],
+        },
+        sensitive_attributes_handling: {
+          question:
+            "Is the handling of sensitive attributes (e.g. gender, ethnicity, age, disability, religion, sexual orientation) defined and justified?",
+          rationale:
+            "Bias analyses often need group proxies/attributes; at the same time their processing and minimisation must be justified and documented.",
+          risksIfNo: [
+            "Bias remains unmeasurable / invisible",
+            "Fairness tests cannot be traced",
+            "Unclear proxy risks and measurement errors",
+          ],
+        },
+        feedback_loops: {
+          question: "Are historical bias and possible feedback loops identified and mitigated?",
+          rationale:
+            "Models can reinforce existing inequalities when their outputs flow back into data generation.",
+          risksIfNo: [
+            "Self-fulfilling bias / reinforcement",
+            "Degradation over time despite short-term performance",
+            "No evidence of effective mitigation",
+          ],
+        },
+        dataset_documentation: {
+          question:
+            "Is there dataset documentation (provenance, time periods, license, sampling, preprocessing, versioning, known limitations)?",
+          rationale: "Annex IV documentation requires traceable data provenance and versions.",
+          risksIfNo: [
+            "Data pipeline cannot be audited",
+            "Unclear license/usage risks",
+            "Training runs cannot be reproduced",
+          ],
+        },
+      },
+      notes: {
+        openItems:
+          "Several data governance items are open or negative. For Annex IV documentation, add evidence, measurement methods and mitigations.",
+        feedbackLoops:
+          "Note: historical bias and feedback loops should be described explicitly and addressed with monitoring.",
+      },
+    },
+    humanOversight: {
+      sources: {
+        art14: "Human oversight (effective oversight, override, competence)",
+        art12: "Logging / event recording (traceability)",
+      },
+      retention: {
+        recommendedMinimum: "6 months (template recommendation)",
+        note: "The retention period depends on the context; this tool does not provide legal advice.",
+      },
+      fields: {
+        timestamp: "Time of the decision",
+        system_version: "Model/artifact version, hash, configuration",
+        input_reference: "Reference to the input (pseudonymised/ID), not raw data",
+        output: "System output (decision/score/answer)",
+        confidence: "Confidence/score if available",
+        protected_attribute_proxy_used: "Were proxies used for fairness measurement?",
+        human_review: "Human-in-the-loop: reviewer_id, action, rationale",
+        override: "Was the AI output overridden?",
+        override_reason: "Reason for the override",
+        appeal_or_complaint: "Was there an appeal/complaint?",
+        incident_flag: "Incident/anomaly flagged",
+      },
+      recommendations: {
+        unacceptable: [
+          "Do not deploy the system until the red flags are resolved (technical note, not legal advice).",
+          "Document which Art. 5 red flags apply and which evidence speaks for or against them.",
+        ],
+        high: [
+          "Human-in-the-loop for all high-impact decisions: review/override must be possible and practical.",
+          "Document roles/competences: who may override, training, escalation paths.",
+          "Monitoring + incident response: drift, bias regression, security, error rates per group.",
+          "Design logging so that post-hoc audits and root-cause analysis are possible (without unnecessary personal raw data).",
+        ],
+        limited: [
+          "Transparency in the UX: inform users when/how AI is involved; clear feedback channels.",
+          "Plan sample-based human review for quality/bias monitoring.",
+        ],
+        minimal: [
+          "Good practice: versioning, basic logging (errors/incidents) and periodic quality checks.",
+        ],
+      },
+    },
+    riskClassifier: {
+      legalBasis: {
+        prohibited: "Regulation (EU) 2024/1689 – Art. 5 (Prohibited AI)",
+        classification: "Regulation (EU) 2024/1689 – Art. 6–7 (Risk classification)",
+        annexIII: "Regulation (EU) 2024/1689 – Annex III (High-Risk Use Cases)",
+        selfAssessment: "Regulation (EU) 2024/1689 – Art. 6–7 / Annex III (Self-assessment)",
+      },
+      highRiskFlag: "High-Risk Indicator: at least one Annex III category answered 'Yes'.",
+      notes: {
+        prohibited:
+          "Note: Art. 5 flags are a technical red-flag screen. A legally binding classification requires a separate review.",
+        highRisk:
+          "Logic: if at least one Annex III category applies (answer 'Yes'), the system is classified as high-risk here (technical orientation).",
+        timeline:
+          "Timeline note: high-risk obligations apply in stages (including from 2027). Please check the current implementation deadlines/guidance.",
+        humanOversightMissing:
+          "Art. 14: high-risk systems must allow humans to oversee, override and stop them. No oversight mechanism was reported.",
+      },
+      prohibitedFlags: {
+        "art5-subliminal":
+          "Possible Art. 5 red flag: subliminal/manipulative techniques with potential for harm.",
+        "art5-vulnerability":
+          "Possible Art. 5 red flag: exploitation of vulnerabilities with potential for harm.",
+        "art5-social-scoring":
+          "Possible Art. 5 red flag: social scoring (public authorities) with detrimental treatment.",
+        "art5-rbi":
+          "Possible Art. 5 red flag: real-time remote biometric identification in public spaces without narrow conditions.",
+      },
+    },
+    gpaiClassifier: {
+      legalBasis: {
+        obligations: "Regulation (EU) 2024/1689 – Art. 53 (GPAI obligations)",
+        euDatabase: "Regulation (EU) 2024/1689 – Art. 71 (EU AI Database)",
+        systemicRisk: "Regulation (EU) 2024/1689 – Art. 51 + Art. 55 (Systemic Risk)",
+        annexXIII: "Regulation (EU) 2024/1689 – Annex XIII (Systemic Risk Indicators)",
+      },
+      notes: {
+        openSourceCopyright:
+          "Open-source models are exempt from Art. 53(1)(c) copyright policy obligations, but Art. 53(1)(d) training data summary still applies.",
+        noSystemicRisk:
+          "Art. 55 systemic risk obligations (red-teaming, incident reporting, cybersecurity) are not applicable as the model does not meet the Art. 51 threshold (≥ 10²⁵ FLOP).",
+      },
+    },
+    annexIV: {
+      disclaimer:
+        "This tool provides technical assistance and guidance. The results do not replace a legally binding conformity assessment by a notified body or legal advice.",
+      reproducibility: "All sample-based tests should document seed/versions.",
+      replay: "Repeat with identical parameters: euconform bias --replay <euconform.bias.json>",
+      biasRunSample: (evaluated, pairs, seed) => `${evaluated}/${pairs} pairs, seed ${seed}`,
+      scaffoldAssumption:
+        "This report scaffold does not replace complete technical documentation; add model- and domain-specific details.",
+      scaffoldChange: "Report generated",
+      thresholdNotes: [
+        "Thresholds in this tool are technical screening indicators; they are not legal or compliance thresholds.",
+        "Disparate impact < 0.8 indicates potential discrimination (further review recommended).",
+      ],
+      evidence: {
+        signalAreas: {
+          disclosure: "AI disclosure",
+          biasTesting: "Bias testing",
+          reportingExports: "Reporting & exports",
+          loggingMonitoring: "Logging & monitoring",
+          humanOversight: "Human oversight",
+          dataGovernance: "Data governance",
+          incidentReporting: "Incident reporting",
+        },
+        signalStatuses: {
+          present: "present",
+          partial: "partial",
+          absent: "absent",
+          unknown: "unknown",
+        },
+        confidence: { high: "high", medium: "medium", low: "low" },
+        signal: (area, status, confidence) => `${area}: ${status} (${confidence} confidence)`,
+        architecture: (modes, providers) =>
+          `AI inference (${modes.join(", ") || "unspecified"})${providers.length > 0 ? ` via ${providers.join(", ")}` : ""}, detected by the EuConform scanner`,
+        aibomDataset: (source) => `Listed in the AI BOM (source: ${source})`,
+        scannerGap: (title, priority, status, rule) =>
+          `${title} — ${priority} priority, ${status} (scanner rule ${rule})`,
+        biasNotes: [
+          "Bias scores are technical screening indicators, not legal or compliance thresholds.",
+          "Stereotypical preference: share of CrowS-Pairs pairs in which the model prefers the stereotypical sentence; 50% means no preference.",
+        ],
+        biasMethods: {
+          logprobs_exact:
+            "Log-probability comparison of stereotypical and anti-stereotypical sentence pairs (CrowS-Pairs).",
+          logprobs_fallback_latency:
+            "Latency-based approximation of the CrowS-Pairs comparison; indicative only.",
+        },
+      },
+    },
+  },
+  scan: {
+    gaps: {
+      "gap-disclosure": {
+        title: "No AI disclosure mechanism detected",
+        partialTitle: "Partial AI disclosure mechanism",
+        description:
+          "The EU AI Act requires that users are informed when interacting with AI systems. No user-facing disclosure implementation was found in the production codebase.",
+      },
+      "gap-logging": {
+        title: "No logging or monitoring infrastructure detected",
+        partialTitle: "Partial logging or monitoring infrastructure",
+        description:
+          "AI system outputs and decisions should be logged for traceability and audit purposes. No production logging infrastructure was detected.",
+      },
+      "gap-oversight": {
+        title: "No human oversight mechanism detected",
+        partialTitle: "Partial human oversight mechanism",
+        description:
+          "High-risk AI systems require human oversight capabilities. No production review or override mechanisms were found.",
+      },
+      "gap-bias": {
+        title: "No bias testing infrastructure detected",
+        partialTitle: "Partial bias testing infrastructure",
+        description:
+          "AI systems should be evaluated for bias and discrimination. No production-grade bias evaluation tooling was found.",
+      },
+      "gap-data": {
+        title: "No data governance mechanisms detected",
+        partialTitle: "Partial data governance mechanisms",
+        description:
+          "Training and inference data should be governed with clear provenance and quality controls. No production data governance infrastructure was found.",
+      },
+      "gap-incident": {
+        title: "No incident reporting mechanism detected",
+        partialTitle: "Partial incident reporting mechanism",
+        description:
+          "AI system incidents should be reportable and trackable. No production incident reporting infrastructure was found.",
+      },
+    },
+    partialGapDescription: (description) =>
+      `Some implementation signals were found, but confidence is not yet high. ${description}`,
+    areaNames: {
+      disclosure: "AI disclosure",
+      biasTesting: "bias testing",
+      reportingExports: "reporting and exports",
+      loggingMonitoring: "logging and monitoring",
+      humanOversight: "human oversight",
+      dataGovernance: "data governance",
+      incidentReporting: "incident reporting",
+    },
+    hints: {
+      cloudProviders: (providers) =>
+        `GPAI model usage detected — cloud providers found: ${providers}. Provider obligations depend on your role and downstream distribution.`,
+      localInference:
+        "Local deployment detected — provider-side GPAI obligations are less likely unless you distribute or provide downstream access to the model.",
+      biasEvaluation:
+        "Bias evaluation infrastructure detected — this can support Art. 10 evidence if it is part of your real evaluation workflow.",
+      training:
+        "Training or fine-tuning signals detected — data governance and provider obligations may apply depending on your role.",
+      documentedOnly: (area) =>
+        `Documentation references ${area}, but no production implementation evidence was detected.`,
+    },
+    openQuestions: {
+      "oq-market-placement": "Is this AI system placed on the EU market or used within the EU?",
+      "oq-intended-purpose": "What is the intended purpose of this AI system?",
+      "oq-provider-role": "Are you a provider, deployer, or importer of this AI system?",
+      "oq-gpai-downstream":
+        "Are you using a general-purpose AI model? Do you provide downstream access to others?",
+      "oq-disclosure-missing": "Does your system inform users that they are interacting with AI?",
+    },
+    quizSuggestions: {
+      "risk-human-oversight": {
+        found:
+          "Human review, approval or override mechanisms were found in production code. Choose full oversight if every decision requires human approval.",
+        absent:
+          "No human review or override mechanism was found in production code (gap-oversight).",
+      },
+      "annex-iii-human-oversight": {
+        found:
+          "Human review, approval or override mechanisms were found in production code. Confirm that they cover every output that takes effect.",
+        absent:
+          "No human review or override mechanism was found in production code (gap-oversight).",
+      },
+      "gpai-technical-docs": {
+        found:
+          "Compliance report exports were found. Confirm that they cover the Annex XI/XII technical documentation before answering yes.",
+      },
+      "gpai-red-teaming": {
+        found:
+          "Bias evaluations were found. They count towards Art. 55(1)(a) only as part of adversarial testing of systemic risks.",
+      },
+      "gpai-incident-reporting": {
+        found: "Incident tracking or reporting mechanisms were found in production code.",
+        absent: "No incident reporting mechanism was found in production code (gap-incident).",
+      },
+    },
+    recommendations: {
+      implement: "Implement",
+      strengthen: "Strengthen",
+      documentedOnly: (area) =>
+        `Convert documented ${area} into production implementation evidence`,
+      openQuestions: (count) => `Resolve ${count} open question(s) that require human context`,
+      review:
+        "Review the generated artifacts and complete role/risk classification in the EuConform web app",
+    },
+    summary: {
+      title: "EuConform Scan Report",
+      disclaimer:
+        "> **Disclaimer:** This is technical guidance only. It does not constitute legal advice.",
+      generated: (version, date) => `> Generated by EuConform v${version} on ${date}.`,
+      scope: (scope) => `> Scan scope: \`${scope}\`.`,
+      projectOverview: "Project Overview",
+      name: "Name",
+      type: "Type",
+      stack: "Stack",
+      notDetected: "Not detected",
+      aiComponents: "AI Components Detected",
+      noAiComponents: "No AI components detected.",
+      componentColumns: ["Component", "Kind", "Source"],
+      complianceSignals: "Compliance Signals",
+      signalColumns: ["Area", "Status", "Confidence"],
+      areas: {
+        disclosure: "AI Disclosure",
+        biasTesting: "Bias Testing",
+        reportingExports: "Reporting & Exports",
+        loggingMonitoring: "Logging & Monitoring",
+        humanOversight: "Human Oversight",
+        dataGovernance: "Data Governance",
+        incidentReporting: "Incident Reporting",
+      },
+      statuses: {
+        present: "Present",
+        partial: "Partial",
+        absent: "Absent",
+        unknown: "Unknown",
+      },
+      bomKinds: {
+        framework: "Framework",
+        runtime: "Runtime",
+        "inference-provider": "Inference Provider",
+        "ai-framework": "AI Framework",
+        model: "Model",
+        "vector-store": "Vector Store",
+        embedding: "Embedding",
+        dataset: "Dataset",
+        tool: "Tool",
+      },
+      assessmentHints: "Assessment Hints",
+      noAssessmentHints: "No assessment hints generated (no AI detected).",
+      possibleModes: "Possible classification modes",
+      gpaiIndicators: "GPAI Indicators",
+      riskIndicators: "Risk Indicators",
+      openQuestions: "Open Questions",
+      noOpenQuestions: "No open questions.",
+      recommendedActions: "Recommended Actions",
+      noRecommendedActions: "No recommended actions.",
+      suppressedFindings: "Suppressed Findings",
+      noSuppressions: "Baseline applied; no findings were suppressed.",
+      suppressedGap: (gap) =>
+        `- Gap \`${gap.id}\` [${gap.priority.toUpperCase()}] ${gap.title} — ${gap.justification} (owner: ${gap.owner}, expires ${gap.expires})`,
+      suppressedSignal: (signal) => {
+        const scope = signal.files ? ` in ${signal.files.join(", ")}` : "";
+        return `- Signal \`${signal.id}\`${scope} (${signal.evidenceCount} evidence) — ${signal.justification} (owner: ${signal.owner}, expires ${signal.expires})`;
+      },
+      expiredSuppression: (entry) =>
+        `- **Expired** ${entry.target} suppression \`${entry.id}\` (owner: ${entry.owner}, expired ${entry.expires}) no longer applies`,
+      footer: "*Full details: `euconform.report.json` -- AI BOM: `euconform.aibom.json`*",
+    },
+  },
+};
@@ -0,0 +1,47 @@
+/**
+ * Message catalog for report, gap and legal-check texts
+ *
+ * Structural data (ids, article references, priorities) stays in the modules
+ * that produce it; only user-facing wording is looked up here by locale.
+ */
+
+import { de } from "./de";
+import { en } from "./en";
+import type { Messages } from "./messages";
+
+export const SUPPORTED_LOCALES = ["en", "de"] as const;
+
+export type Locale = (typeof SUPPORTED_LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+const MESSAGES: Record<Locale, Messages> = { en, de };
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === "string" && (SUPPORTED_LOCALES as readonly string[]).includes(value);
+}
+
+/** Messages of a locale; unknown locales fall back to DEFAULT_LOCALE */
+export function getMessages(locale: Locale = DEFAULT_LOCALE): Messages {
+  return MESSAGES[locale] ?? MESSAGES[DEFAULT_LOCALE];
+}
+
+/** All catalogs, e.g. to recognise generated default texts in any locale */
+export function allMessages(): Messages[] {
+  return SUPPORTED_LOCALES.map((locale) => MESSAGES[locale]);
+}
+
+export type {
+  AnnexIIIGapActionId,
+  ComplianceAreaKey,
+  DataGovernanceItemId,
+  GapActionText,
+  LegalCheckMessages,
+  LoggingFieldKey,
+  Messages,
+  OpenQuestionId,
+  ProhibitedPracticeId,
+  QuizSuggestionId,
+  ScanGapRuleId,
+  ScanMessages,
+} from "./messages";
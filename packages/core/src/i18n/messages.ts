@@ -0,0 +1,231 @@
+/**
+ * Message catalog shape shared by all locales.
+ *
+ * Every locale implements the full interface, so adding a locale to
+ * SUPPORTED_LOCALES fails to compile until all texts are translated.
+ */
+
+import type {
+  BomComponentKind,
+  ComplianceSignalGroup,
+  ConfidenceLevel,
+  ExpiredSuppression,
+  ScanReport,
+  ScanScope,
+  SuppressedGap,
+  SuppressedSignal,
+} from "../evidence/types";
+import type { GPAIObligationType } from "../legal-checks/gpai-classifier";
+import type { BiasCalculationMethod, RiskLevel } from "../types";
+
+/** Ids of the Annex III actions produced by the gap analysis */
+export type AnnexIIIGapActionId =
+  | "prohibited-ai"
+  | "ai-interaction-disclosure"
+  | "ai-content-labeling"
+  | "risk-management-system"
+  | "data-governance"
+  | "technical-documentation"
+  | "record-keeping"
+  | "transparency-information"
+  | "human-oversight"
+  | "accuracy-robustness"
+  | "conformity-assessment"
+  | "eu-database-registration"
+  | "post-market-monitoring";
+
+export type DataGovernanceItemId =
+  | "representativeness"
+  | "data_quality_errors"
+  | "labeling_process"
+  | "sensitive_attributes_handling"
+  | "feedback_loops"
+  | "dataset_documentation";
+
+export type LoggingFieldKey =
+  | "timestamp"
+  | "system_version"
+  | "input_reference"
+  | "output"
+  | "confidence"
+  | "protected_attribute_proxy_used"
+  | "human_review"
+  | "override"
+  | "override_reason"
+  | "appeal_or_complaint"
+  | "incident_flag";
+
+export type ProhibitedPracticeId =
+  | "art5-subliminal"
+  | "art5-vulnerability"
+  | "art5-social-scoring"
+  | "art5-rbi";
+
+export type ScanGapRuleId =
+  | "gap-disclosure"
+  | "gap-logging"
+  | "gap-oversight"
+  | "gap-bias"
+  | "gap-data"
+  | "gap-incident";
+
+export type OpenQuestionId =
+  | "oq-market-placement"
+  | "oq-intended-purpose"
+  | "oq-provider-role"
+  | "oq-gpai-downstream"
+  | "oq-disclosure-missing";
+
+/** Scanner-answerable questions of the classification questionnaires */
+export type QuizSuggestionId =
+  | "risk-human-oversight"
+  | "annex-iii-human-oversight"
+  | "gpai-technical-docs"
+  | "gpai-red-teaming"
+  | "gpai-incident-reporting";
+
+export type ComplianceAreaKey = keyof ScanReport["complianceSignals"];
+
+export interface GapActionText {
+  title: string;
+  description: string;
+  steps: string[];
+}
+
+export interface LegalCheckMessages {
+  /** Citation of the AI Act itself */
+  regulation: string;
+  gapAnalysis: {
+    annexIII: Record<AnnexIIIGapActionId, GapActionText>;
+    gpai: Record<GPAIObligationType, GapActionText>;
+  };
+  dataGovernance: {
+    sources: { art10: string; recital54: string };
+    items: Record<
+      DataGovernanceItemId,
+      { question: string; rationale: string; risksIfNo: string[] }
+    >;
+    notes: { openItems: string; feedbackLoops: string };
+  };
+  humanOversight: {
+    sources: { art14: string; art12: string };
+    retention: { recommendedMinimum: string; note: string };
+    fields: Record<LoggingFieldKey, string>;
+    recommendations: Record<RiskLevel, string[]>;
+  };
+  riskClassifier: {
+    legalBasis: {
+      prohibited: string;
+      classification: string;
+      annexIII: string;
+      /** Used when no article applies to the answers */
+      selfAssessment: string;
+    };
+    /** Flag of a high-risk result in the adapted RiskAssessment */
+    highRiskFlag: string;
+    notes: {
+      prohibited: string;
+      highRisk: string;
+      timeline: string;
+      humanOversightMissing: string;
+    };
+    prohibitedFlags: Record<ProhibitedPracticeId, string>;
+  };
+  gpaiClassifier: {
+    legalBasis: {
+      obligations: string;
+      euDatabase: string;
+      systemicRisk: string;
+      annexXIII: string;
+    };
+    notes: { openSourceCopyright: string; noSystemicRisk: string };
+  };
+  annexIV: {
+    disclaimer: string;
+    reproducibility: string;
+    replay: string;
+    /** "<evaluated>/<total> pairs, seed <seed>" of a bias run */
+    biasRunSample: (evaluated: number, pairs: number, seed: number) => string;
+    /** Default texts of the scaffold; the completeness check treats them as placeholders */
+    scaffoldAssumption: string;
+    scaffoldChange: string;
+    thresholdNotes: string[];
+    /** Texts `buildAnnexIVFromEvidence()` derives from the evidence artifacts */
+    evidence: {
+      signalAreas: Record<ComplianceAreaKey, string>;
+      signalStatuses: Record<ComplianceSignalGroup["status"], string>;
+      confidence: Record<ConfidenceLevel, string>;
+      /** "<area>: <status> (<confidence> confidence)" of a scanner signal */
+      signal: (area: string, status: string, confidence: string) => string;
+      /** Architecture detected by the scanner, when the details file has none */
+      architecture: (modes: string[], providers: string[]) => string;
+      aibomDataset: (source: string) => string;
+      scannerGap: (title: string, priority: string, status: string, rule: string) => string;
+      biasNotes: string[];
+      biasMethods: Record<BiasCalculationMethod, string>;
+    };
+  };
+}
+
+export interface ScanMessages {
+  gaps: Record<ScanGapRuleId, { title: string; partialTitle: string; description: string }>;
+  partialGapDescription: (description: string) => string;
+  /** Compliance areas as used inside sentences */
+  areaNames: Record<ComplianceAreaKey, string>;
+  hints: {
+    cloudProviders: (providers: string) => string;
+    localInference: string;
+    biasEvaluation: string;
+    training: string;
+    documentedOnly: (area: string) => string;
+  };
+  openQuestions: Record<OpenQuestionId, string>;
+  /** Rationales of quiz answer suggestions; `absent` only where absence answers the question */
+  quizSuggestions: Record<QuizSuggestionId, { found: string; absent?: string }>;
+  recommendations: {
+    implement: string;
+    strengthen: string;
+    documentedOnly: (area: string) => string;
+    openQuestions: (count: number) => string;
+    review: string;
+  };
+  summary: {
+    title: string;
+    disclaimer: string;
+    generated: (version: string, date: string) => string;
+    scope: (scope: ScanScope) => string;
+    projectOverview: string;
+    name: string;
+    type: string;
+    stack: string;
+    notDetected: string;
+    aiComponents: string;
+    noAiComponents: string;
+    componentColumns: [string, string, string];
+    complianceSignals: string;
+    signalColumns: [string, string, string];
+    areas: Record<ComplianceAreaKey, string>;
+    statuses: Record<ComplianceSignalGroup["status"], string>;
+    bomKinds: Record<BomComponentKind, string>;
+    assessmentHints: string;
+    noAssessmentHints: string;
+    possibleModes: string;
+    gpaiIndicators: string;
+    riskIndicators: string;
+    openQuestions: string;
+    noOpenQuestions: string;
+    recommendedActions: string;
+    noRecommendedActions: string;
+    suppressedFindings: string;
+    noSuppressions: string;
+    suppressedGap: (gap: SuppressedGap) => string;
+    suppressedSignal: (signal: SuppressedSignal) => string;
+    expiredSuppression: (entry: ExpiredSuppression) => string;
+    footer: string;
+  };
+}
+
+export interface Messages {
+  legalChecks: LegalCheckMessages;
+  scan: ScanMessages;
+}
@@ -19,15 +19,23 @@ export type {
   RiskFlag,
   RiskLevel,
   BiasCalculationMethod,
+  BiasEngine,
+  BiasReproducibility,
   BiasTestConfig,
   CrowsPairsBiasResult,
+  CrowsPairsCategoryResult,
+  CrowsPairsPairResult,
+  BootstrapConfidenceInterval,
+  BinomialTestResult,
   ModelCapabilityCache,
 } from "./types";
 
 // Legal checks (EU AI Act mappings, non-legal-advice)
 export {
+  ANNEX_III_OVERSIGHT_QUESTION,
   ANNEX_III_QUESTIONS,
   PROHIBITED_AI_SCREENING_QUESTIONS,
+  annexIIIResultToRiskAssessment,
   classifyAnnexIIIRisk,
   getAnnexIIIQuestions,
   getProhibitedAIScreeningQuestions,
@@ -43,10 +51,14 @@ export {
   createTransformersRegardScorer,
   createTransformersToxicityScorer,
   runDataGovernanceChecklist,
+  TEXT_PERTURBATION_IDS,
   defaultTextPerturbations,
   runTextPerturbationRobustnessTest,
+  textPerturbations,
   getHumanOversightAndLoggingTemplate,
   buildAnnexIVReportV1,
+  buildAnnexIVReproducibility,
+  checkAnnexIVCompleteness,
   counterfactualFairness,
   demographicParityDifference,
   equalizedOddsDifference,
@@ -54,6 +66,12 @@ export {
   runCrowsPairsLogProbTest,
   runRegardTest,
   runToxicityTest,
+  GENERATIVE_BIAS_GROUPS,
+  GENERATIVE_BIAS_TEMPLATES,
+  buildGenerativeBiasPrompts,
+  runGenerativeBiasTest,
+  DEFAULT_MIN_GROUP_SIZE,
+  runTabularFairnessAudit,
   EU_AI_ACT_TIMELINE,
   DIGITAL_OMNIBUS_PROPOSALS,
   getDeadlineStatus,
@@ -76,15 +94,37 @@ export type {
   RobustnessTestCase,
   Perturbation,
   PredictTextFn,
+  TextPerturbationId,
   HumanOversightRecommendation,
   LoggingTemplate,
   AnnexIVStructuredReportV1,
+  AnnexIVCompletenessResult,
+  AnnexIVPointResult,
+  AnnexIVPointStatus,
+  AnnexIVReportSection,
+  AnnexIVSectionCoverage,
   GroupTextSample,
   RegardResult,
   RegardScorer,
   SensitiveAttribute,
   ToxicityResult,
   ToxicityScorer,
+  GenerativeAttributeResult,
+  GenerativeBiasFailure,
+  GenerativeBiasLanguage,
+  GenerativeBiasOptions,
+  GenerativeBiasPrompt,
+  GenerativeBiasResult,
+  GenerativeBiasSample,
+  GenerativeGroupStats,
+  TextGenerator,
+  FairnessAttributeResult,
+  FairnessGroupStats,
+  FairnessRecord,
+  TabularFairnessMetric,
+  TabularFairnessMetricId,
+  TabularFairnessOptions,
+  TabularFairnessResult,
   DeadlineStatus,
   AffectedAudience,
   DeadlineObligation,
@@ -98,6 +138,16 @@ export type {
   GapAnalysisResult,
 } from "./legal-checks";
 
+// Message catalog (report, gap and legal-check texts)
+export {
+  DEFAULT_LOCALE,
+  SUPPORTED_LOCALES,
+  getMessages,
+  isLocale,
+  type Locale,
+  type Messages,
+} from "./i18n";
+
 // Risk Engine
 export {
   classifyRisk,
@@ -124,7 +174,13 @@ export {
 export {
   detectOllama,
   listOllamaModels,
+  ollamaModelDigest,
+  ollamaModelInfo,
+  ollamaVersion,
+  type OllamaModelInfo,
   OllamaClient,
+  OpenAICompatibleClient,
+  OPENAI_COMPATIBLE_BASE_URL,
   BrowserInference,
   checkWebGPU,
   BROWSER_MODELS,
@@ -148,6 +204,7 @@ export {
   type EnhancedModelSelectionState,
   type CapabilityDetectionStatus,
   type CapabilityCache,
+  type OpenAICompatibleClientOptions,
 } from "./inference";
 
 // Inference Factory
@@ -173,4 +230,14 @@ export {
   calculateLogProbBias,
   calculateLatencyBias,
   validateCrowsPairsDataset,
+  aggregateCrowsPairsByBiasType,
+  type BiasInferenceClient,
+  type CrowsPairsProgress,
+  type CrowsPairsRunOptions,
+  bootstrapMeanCI,
+  binomialTest,
+  createSeededRandom,
+  DEFAULT_BOOTSTRAP_ITERATIONS,
+  DEFAULT_BOOTSTRAP_SEED,
+  type BootstrapOptions,
 } from "./metrics";
@@ -0,0 +1,63 @@
+/**
+ * Log-probability capability caching shared by the HTTP inference clients
+ */
+
+import type { ModelCapabilityCache } from "../types";
+
+/** Abstraction for capability caching — localStorage in browser, file-based in CLI */
+export interface CapabilityCache {
+  get(key: string): string | null;
+  set(key: string, value: string): void;
+}
+
+const CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
+
+/**
+ * Read a cached capability from the external cache or localStorage.
+ * Returns null when missing, unreadable or older than 24 hours.
+ */
+export function readCachedCapability(
+  cacheKey: string,
+  externalCache: CapabilityCache | null
+): ModelCapabilityCache | null {
+  try {
+    let cached: string | null = null;
+
+    if (externalCache) {
+      cached = externalCache.get(cacheKey);
+    } else if (typeof localStorage !== "undefined") {
+      cached = localStorage.getItem(cacheKey);
+    }
+
+    if (cached) {
+      const capability: ModelCapabilityCache = JSON.parse(cached);
+      const cacheAge = Date.now() - new Date(capability.testedAt).getTime();
+      if (cacheAge < CACHE_TTL) {
+        return capability;
+      }
+    }
+
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Store a capability in the external cache or localStorage
+ */
+export function writeCachedCapability(
+  cacheKey: string,
+  capability: ModelCapabilityCache,
+  externalCache: CapabilityCache | null
+): void {
+  try {
+    if (externalCache) {
+      externalCache.set(cacheKey, JSON.stringify(capability));
+    } else if (typeof localStorage !== "undefined") {
+      localStorage.setItem(cacheKey, JSON.stringify(capability));
+    }
+  } catch (error) {
+    console.warn("Failed to cache capability result:", error);
+  }
+}
@@ -10,8 +10,9 @@ import {
   checkWebGPU,
 } from "./browser-inference";
 import { OllamaClient, type OllamaModel, detectOllama, listOllamaModels } from "./ollama-client";
+import { OpenAICompatibleClient } from "./openai-compatible-client";
 
-export type InferenceEngine = "ollama" | "browser" | "demo";
+export type InferenceEngine = "ollama" | "openai-compatible" | "browser" | "demo";
 
 export interface InferenceCapabilities {
   ollama: {
@@ -84,6 +85,17 @@ export function createInferenceClient(
       };
     }
 
+    case "openai-compatible": {
+      // Uses the default local endpoint; construct OpenAICompatibleClient directly for others
+      const openAIClient = new OpenAICompatibleClient(modelId);
+      return {
+        engine: "openai-compatible",
+        modelId,
+        generate: (prompt: string) => openAIClient.generate(prompt),
+        getLogProb: (prompt: string) => openAIClient.getLogProb(prompt),
+      };
+    }
+
     case "browser": {
       const browserClient = new BrowserInference(modelId, statusCallback);
       return {
@@ -135,9 +147,19 @@ export async function createAutoInferenceClient(preferredModel?: string): Promis
 export {
   detectOllama,
   listOllamaModels,
+  ollamaModelDigest,
+  ollamaModelInfo,
+  ollamaVersion,
+  type OllamaModelInfo,
   OllamaClient,
   type CapabilityCache,
 } from "./ollama-client";
+export {
+  OpenAICompatibleClient,
+  OPENAI_COMPATIBLE_BASE_URL,
+  averagePromptLogProb,
+  type OpenAICompatibleClientOptions,
+} from "./openai-compatible-client";
 export { BrowserInference, checkWebGPU, BROWSER_MODELS } from "./browser-inference";
 export {
   InferenceFactory,
@@ -3,11 +3,17 @@
  * Provides unified interface for bias calculations across engines with automatic method detection
  */
 
-import { calculateCrowsPairsBias } from "../metrics/crows-pairs-bias";
-import type { BiasCalculationMethod, BiasTestConfig, CrowsPairsBiasResult } from "../types";
+import { type BiasInferenceClient, calculateCrowsPairsBias } from "../metrics/crows-pairs-bias";
+import type {
+  BiasCalculationMethod,
+  BiasEngine,
+  BiasTestConfig,
+  CrowsPairsBiasResult,
+} from "../types";
 import { BrowserInference } from "./browser-inference";
 import type { ModelCapability } from "./capability-detection";
 import { OllamaClient } from "./ollama-client";
+import { OpenAICompatibleClient } from "./openai-compatible-client";
 
 /**
  * Result wrapper that includes method metadata for all inference operations
@@ -15,7 +21,7 @@ import { OllamaClient } from "./ollama-client";
 export interface InferenceResult<T> {
   data: T;
   method: BiasCalculationMethod;
-  engine: "browser" | "ollama";
+  engine: BiasEngine;
   model: string;
   capability?: ModelCapability;
 }
@@ -27,6 +33,8 @@ export interface InferenceResult<T> {
 export class InferenceFactory {
   private browserClient: BrowserInference | null = null;
   private ollamaClient: OllamaClient | null = null;
+  private openAICompatibleClient: OpenAICompatibleClient | null = null;
+  private openAICompatibleEndpoint: { baseUrl?: string; apiKey?: string } = {};
   private statusCallback: ((status: string) => void) | null = null;
   private selectedCapability: ModelCapability | null = null;
 
@@ -80,15 +88,13 @@ export class InferenceFactory {
    * Detect the best available calculation method for the given client
    * Returns the method that should be used for bias calculations
    */
-  private async detectBestMethod(
-    client: BrowserInference | OllamaClient
-  ): Promise<BiasCalculationMethod> {
+  private async detectBestMethod(client: BiasInferenceClient): Promise<BiasCalculationMethod> {
     if (client instanceof BrowserInference) {
       // Browser inference always supports exact log-probabilities
       return "logprobs_exact";
     }
-    if (client instanceof OllamaClient) {
-      // Check Ollama's log-probability support
+    if (client instanceof OllamaClient || client instanceof OpenAICompatibleClient) {
+      // Check the server's log-probability support
       const supportsLogProbs = await client.detectLogProbSupport();
       return supportsLogProbs ? "logprobs_exact" : "logprobs_fallback_latency";
     }
@@ -115,6 +121,25 @@ export class InferenceFactory {
     return this.ollamaClient;
   }
 
+  /**
+   * Configure the endpoint used for the "openai-compatible" engine
+   */
+  setOpenAICompatibleEndpoint(baseUrl: string, apiKey?: string): void {
+    this.openAICompatibleEndpoint = { baseUrl, apiKey };
+    this.openAICompatibleClient = null;
+  }
+
+  /**
+   * Get OpenAI-compatible client (creates if needed)
+   */
+  getOpenAICompatibleClient(model: string): OpenAICompatibleClient {
+    if (!this.openAICompatibleClient || this.openAICompatibleClient.model !== model) {
+      const { baseUrl, apiKey } = this.openAICompatibleEndpoint;
+      this.openAICompatibleClient = new OpenAICompatibleClient(model, baseUrl, { apiKey });
+    }
+    return this.openAICompatibleClient;
+  }
+
   private validateConfiguration(config: BiasTestConfig): void {
     const { engine, model } = config;
     if (!this.selectedCapability) return;
@@ -131,13 +156,16 @@ export class InferenceFactory {
     }
   }
 
-  private async getInferenceClient(engine: "browser" | "ollama", model: string) {
+  private async getInferenceClient(engine: BiasEngine, model: string) {
     if (engine === "browser") {
       return this.getBrowserClient(model);
     }
     if (engine === "ollama") {
       return this.getOllamaClient(model);
     }
+    if (engine === "openai-compatible") {
+      return this.getOpenAICompatibleClient(model);
+    }
     throw new Error(`Unsupported engine: ${engine}`);
   }
 
@@ -147,9 +175,9 @@ export class InferenceFactory {
    */
   async createInferenceResult<T>(
     data: T,
-    engine: "browser" | "ollama",
+    engine: BiasEngine,
     model: string,
-    client?: BrowserInference | OllamaClient
+    client?: BiasInferenceClient
   ): Promise<InferenceResult<T>> {
     let method: BiasCalculationMethod;
 
@@ -167,6 +195,10 @@ export class InferenceFactory {
         const tempClient = new OllamaClient(model);
         method = await this.detectBestMethod(tempClient);
       }
+    } else if (engine === "openai-compatible") {
+      method = await this.detectBestMethod(
+        client instanceof OpenAICompatibleClient ? client : this.getOpenAICompatibleClient(model)
+      );
     } else {
       throw new Error(`Unsupported engine: ${engine}`);
     }
@@ -186,6 +218,7 @@ export class InferenceFactory {
   dispose(): void {
     this.browserClient = null;
     this.ollamaClient = null;
+    this.openAICompatibleClient = null;
     this.statusCallback = null;
     this.selectedCapability = null;
   }
@@ -218,5 +251,10 @@ export async function detectBestMethodForConfig(
     const supportsLogProbs = await client.detectLogProbSupport();
     return supportsLogProbs ? "logprobs_exact" : "logprobs_fallback_latency";
   }
+  if (engine === "openai-compatible") {
+    const client = new OpenAICompatibleClient(model);
+    const supportsLogProbs = await client.detectLogProbSupport();
+    return supportsLogProbs ? "logprobs_exact" : "logprobs_fallback_latency";
+  }
   throw new Error(`Unsupported engine: ${engine}`);
 }
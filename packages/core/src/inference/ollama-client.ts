@@ -4,6 +4,13 @@
  */
 
 import type { BiasCalculationMethod, ModelCapabilityCache } from "../types";
+import {
+  type CapabilityCache,
+  readCachedCapability,
+  writeCachedCapability,
+} from "./capability-cache";
+
+export type { CapabilityCache };
 
 export interface OllamaModel {
   name: string;
@@ -54,12 +61,6 @@ export interface OllamaLogProbsResponse extends OllamaGenerateResponse {
   }>;
 }
 
-/** Abstraction for capability caching — localStorage in browser, file-based in CLI */
-export interface CapabilityCache {
-  get(key: string): string | null;
-  set(key: string, value: string): void;
-}
-
 const OLLAMA_BASE_URL = "http://localhost:11434";
 
 /**
@@ -100,13 +101,94 @@ export async function listOllamaModels(): Promise<OllamaModel[]> {
   }
 }
 
+/** Model build details from `/api/show`, recorded for reproducibility */
+export interface OllamaModelInfo {
+  /** Content digest (bare SHA-256 hex) */
+  digest?: string;
+  format?: string;
+  family?: string;
+  parameterSize?: string;
+  quantization?: string;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value !== "" ? value : undefined;
+}
+
+/**
+ * Build details of a local model from `/api/show`.
+ * Ollama versions that omit `digest` still reference the weights blob in the
+ * Modelfile (`FROM .../blobs/sha256-<hex>`), which identifies the same build.
+ */
+export async function ollamaModelInfo(
+  model: string,
+  baseUrl = OLLAMA_BASE_URL
+): Promise<OllamaModelInfo> {
+  const response = await fetch(`${baseUrl}/api/show`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ model }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Ollama show failed (${response.status}): ${response.statusText}`);
+  }
+
+  const data = (await response.json()) as {
+    digest?: unknown;
+    modelfile?: unknown;
+    details?: Record<string, unknown>;
+  };
+  const digest =
+    typeof data.digest === "string"
+      ? data.digest
+      : typeof data.modelfile === "string"
+        ? /^FROM\s+\S*sha256-([a-f0-9]{64})/im.exec(data.modelfile)?.[1]
+        : undefined;
+  const details = data.details ?? {};
+  const info: OllamaModelInfo = {
+    digest: digest?.replace(/^sha256:/, "").toLowerCase(),
+    format: optionalString(details.format),
+    family: optionalString(details.family),
+    parameterSize: optionalString(details.parameter_size),
+    quantization: optionalString(details.quantization_level),
+  };
+  return Object.fromEntries(
+    Object.entries(info).filter(([, value]) => value !== undefined)
+  ) as OllamaModelInfo;
+}
+
+/**
+ * Content digest (bare SHA-256 hex) of a local model, or undefined when
+ * Ollama reports none
+ */
+export async function ollamaModelDigest(
+  model: string,
+  baseUrl = OLLAMA_BASE_URL
+): Promise<string | undefined> {
+  return (await ollamaModelInfo(model, baseUrl)).digest;
+}
+
+/**
+ * Ollama server version from `/api/version`
+ */
+export async function ollamaVersion(baseUrl = OLLAMA_BASE_URL): Promise<string | undefined> {
+  const response = await fetch(`${baseUrl}/api/version`);
+  if (!response.ok) {
+    throw new Error(`Ollama version request failed (${response.status}): ${response.statusText}`);
+  }
+  const data = (await response.json()) as { version?: unknown };
+  return optionalString(data.version);
+}
+
 /**
  * Generate text with Ollama
  */
 export async function ollamaGenerate(
-  options: OllamaGenerateOptions
+  options: OllamaGenerateOptions,
+  baseUrl = OLLAMA_BASE_URL
 ): Promise<OllamaGenerateResponse> {
-  const response = await fetch(`${OLLAMA_BASE_URL}/api/generate`, {
+  const response = await fetch(`${baseUrl}/api/generate`, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify({
@@ -216,6 +298,9 @@ export async function getPerplexity(model: string, text: string): Promise<number
   }
 }
 
+// Evaluate the prompt only, deterministically
+const LOGPROB_OPTIONS = { num_predict: 0, temperature: 0 };
+
 /**
  * Ollama client class for stateful operations
  */
@@ -263,13 +348,32 @@ export class OllamaClient {
 
   async generate(prompt: string): Promise<string> {
     await this.ensureModelLoaded();
-    const response = await ollamaGenerate({
-      model: this.model,
-      prompt,
-    });
+    // Greedy decoding so repeated prompts (robustness, generative bias) are comparable
+    const response = await ollamaGenerate(
+      { model: this.model, prompt, options: { temperature: 0 } },
+      this.baseUrl
+    );
     return response.response;
   }
 
+  /** Identifies the exact model build, so results survive tag reassignment (`:latest`) */
+  async getModelDigest(): Promise<string | undefined> {
+    return ollamaModelDigest(this.model, this.baseUrl);
+  }
+
+  async getModelInfo(): Promise<OllamaModelInfo> {
+    return ollamaModelInfo(this.model, this.baseUrl);
+  }
+
+  async getServerVersion(): Promise<string | undefined> {
+    return ollamaVersion(this.baseUrl);
+  }
+
+  /** Request options of log-probability measurements, recorded for reproducibility */
+  getGenerationOptions(): Record<string, number | boolean> {
+    return { ...LOGPROB_OPTIONS, logprobs: true };
+  }
+
   async getLogProb(prompt: string): Promise<number> {
     // Use the enhanced getLogProbWithFallback method that supports both exact and fallback methods
     const result = await this.getLogProbWithFallback(prompt);
@@ -355,53 +459,20 @@ export class OllamaClient {
    * Get cached capability result from localStorage or external cache
    */
   private getCachedCapability(): ModelCapabilityCache | null {
-    try {
-      const cacheKey = `ollama_supports_logprobs_${this.model}`;
-      let cached: string | null = null;
-
-      if (this.externalCache) {
-        cached = this.externalCache.get(cacheKey);
-      } else if (typeof localStorage !== "undefined") {
-        cached = localStorage.getItem(cacheKey);
-      }
-
-      if (cached) {
-        const capability: ModelCapabilityCache = JSON.parse(cached);
-        const cacheAge = Date.now() - new Date(capability.testedAt).getTime();
-        const CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
-        if (cacheAge < CACHE_TTL) {
-          return capability;
-        }
-      }
-
-      return null;
-    } catch {
-      return null;
-    }
+    return readCachedCapability(`ollama_supports_logprobs_${this.model}`, this.externalCache);
   }
 
   /**
    * Cache capability result in localStorage or external cache
    */
   private setCachedCapability(supports: boolean): void {
-    try {
-      const cacheKey = `ollama_supports_logprobs_${this.model}`;
-      const capability: ModelCapabilityCache = {
-        model: this.model,
-        supportsLogProbs: supports,
-        testedAt: new Date().toISOString(),
-      };
-
-      if (this.externalCache) {
-        this.externalCache.set(cacheKey, JSON.stringify(capability));
-      } else if (typeof localStorage !== "undefined") {
-        localStorage.setItem(cacheKey, JSON.stringify(capability));
-      }
-
-      this.capabilityCache.set(this.model, capability);
-    } catch (error) {
-      console.warn("Failed to cache capability result:", error);
-    }
+    const capability: ModelCapabilityCache = {
+      model: this.model,
+      supportsLogProbs: supports,
+      testedAt: new Date().toISOString(),
+    };
+    writeCachedCapability(`ollama_supports_logprobs_${this.model}`, capability, this.externalCache);
+    this.capabilityCache.set(this.model, capability);
   }
 
   /**
@@ -444,7 +515,7 @@ export class OllamaClient {
           prompt,
           stream: false,
           logprobs: true,
-          options: { num_predict: 0, temperature: 0 },
+          options: LOGPROB_OPTIONS,
         }),
       });
 
@@ -0,0 +1,291 @@
+/**
+ * OpenAI-compatible Client for HTTP inference servers
+ * Works with vLLM, llama.cpp server, LM Studio, LiteLLM and other servers exposing /v1/completions
+ */
+
+import type { BiasCalculationMethod, ModelCapabilityCache } from "../types";
+import {
+  type CapabilityCache,
+  readCachedCapability,
+  writeCachedCapability,
+} from "./capability-cache";
+
+/** vLLM's default address; the base URL includes the /v1 prefix like the OpenAI SDKs */
+export const OPENAI_COMPATIBLE_BASE_URL = "http://localhost:8000/v1";
+
+export interface OpenAICompatibleClientOptions {
+  /** Sent as a Bearer token when set */
+  apiKey?: string;
+  cache?: CapabilityCache;
+}
+
+/** Legacy completions logprobs block (OpenAI /v1/completions format) */
+export interface CompletionLogProbs {
+  tokens?: string[];
+  token_logprobs?: Array<number | null>;
+  text_offset?: number[];
+}
+
+export interface CompletionResponse {
+  choices?: Array<{
+    text?: string;
+    logprobs?: CompletionLogProbs | null;
+  }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+  };
+}
+
+/**
+ * Average log-probability of the prompt tokens in an echoed completion.
+ * Prompt tokens are identified via usage.prompt_tokens, falling back to
+ * text_offset; the first token has no context and therefore no logprob.
+ */
+export function averagePromptLogProb(prompt: string, response: CompletionResponse): number | null {
+  const logprobs = response.choices?.[0]?.logprobs;
+  const tokenLogprobs = logprobs?.token_logprobs;
+  if (!Array.isArray(tokenLogprobs) || tokenLogprobs.length === 0) return null;
+
+  let promptTokenCount = response.usage?.prompt_tokens;
+  if (promptTokenCount === undefined && Array.isArray(logprobs?.text_offset)) {
+    promptTokenCount = logprobs.text_offset.filter((offset) => offset < prompt.length).length;
+  }
+
+  const values = tokenLogprobs
+    .slice(0, promptTokenCount ?? tokenLogprobs.length)
+    .filter((value): value is number => typeof value === "number" && Number.isFinite(value));
+  if (values.length === 0) return null;
+
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+// Some servers reject max_tokens: 0, so generate one token and ignore it
+const ECHO_LOGPROB_PARAMS = { max_tokens: 1, echo: true, logprobs: 1 } as const;
+
+/**
+ * Client for OpenAI-compatible completion endpoints.
+ * Mirrors OllamaClient: exact prompt log-probabilities via `echo` when the
+ * server supports them, latency-based fallback otherwise.
+ */
+export class OpenAICompatibleClient {
+  private baseUrl: string;
+  public readonly model: string;
+  private apiKey: string | undefined;
+  private capabilityCache: Map<string, ModelCapabilityCache>;
+  private externalCache: CapabilityCache | null;
+
+  constructor(
+    model: string,
+    baseUrl = OPENAI_COMPATIBLE_BASE_URL,
+    options: OpenAICompatibleClientOptions = {}
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+    this.model = model;
+    this.apiKey = options.apiKey;
+    this.capabilityCache = new Map();
+    this.externalCache = options.cache ?? null;
+  }
+
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+
+  private async complete(body: Record<string, unknown>): Promise<Response> {
+    return fetch(`${this.baseUrl}/completions`, {
+      method: "POST",
+      headers: this.headers(),
+      body: JSON.stringify({ model: this.model, temperature: 0, ...body }),
+    });
+  }
+
+  /**
+   * List model ids served by the endpoint (GET /models)
+   */
+  async listModels(): Promise<string[]> {
+    const response = await fetch(`${this.baseUrl}/models`, { headers: this.headers() });
+    if (!response.ok) {
+      throw new Error(
+        `Failed to list models at ${this.baseUrl} (${response.status}): ${response.statusText}`
+      );
+    }
+    const data = await response.json();
+    return Array.isArray(data.data) ? data.data.map((entry: { id: string }) => entry.id) : [];
+  }
+
+  /**
+   * Ensures the endpoint serves the model before proceeding
+   * Throws an error if the endpoint is unreachable or the model is not listed
+   */
+  async ensureModelLoaded(): Promise<void> {
+    const models = await this.listModels();
+    if (!models.includes(this.model)) {
+      const available = models.length > 0 ? models.join(", ") : "none";
+      throw new Error(
+        `Model '${this.model}' is not served by ${this.baseUrl}. Available models: ${available}`
+      );
+    }
+  }
+
+  async isAvailable(): Promise<boolean> {
+    try {
+      await this.listModels();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async generate(prompt: string): Promise<string> {
+    const response = await this.complete({ prompt, max_tokens: 256 });
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(
+        `Completion request failed (${response.status}): ${errorText || response.statusText}`
+      );
+    }
+    const data: CompletionResponse = await response.json();
+    return data.choices?.[0]?.text ?? "";
+  }
+
+  async getLogProb(prompt: string): Promise<number> {
+    const result = await this.getLogProbWithFallback(prompt);
+    return result.logprob;
+  }
+
+  private echoRequest(prompt: string): Record<string, unknown> {
+    return { prompt, ...ECHO_LOGPROB_PARAMS };
+  }
+
+  /** Request parameters of log-probability measurements, recorded for reproducibility */
+  getGenerationOptions(): Record<string, number | boolean> {
+    return { temperature: 0, ...ECHO_LOGPROB_PARAMS };
+  }
+
+  /**
+   * Test if the endpoint returns prompt log-probabilities for echoed completions
+   */
+  private async testLogProbCapability(): Promise<boolean> {
+    try {
+      const response = await this.complete(this.echoRequest("Der Hund"));
+      if (!response.ok) {
+        console.warn(
+          `🔍 Capability test request failed for ${this.model}: ${response.status} ${response.statusText}`
+        );
+        return false;
+      }
+
+      const data: CompletionResponse = await response.json();
+      const supported = averagePromptLogProb("Der Hund", data) !== null;
+      console.log(
+        `🔍 Capability test for ${this.model}: ${supported ? "✅ supports" : "❌ no support"} echoed prompt log-probabilities`
+      );
+      return supported;
+    } catch (error) {
+      console.warn(`Log-probability capability test failed for model ${this.model}:`, error);
+      return false;
+    }
+  }
+
+  private cacheKey(): string {
+    return `openai_compatible_supports_logprobs_${this.baseUrl}_${this.model}`;
+  }
+
+  /**
+   * Detect if the endpoint supports prompt log-probabilities for this model
+   * Checks cache first, then runs test if needed
+   */
+  async detectLogProbSupport(): Promise<boolean> {
+    const memoryCache = this.capabilityCache.get(this.model);
+    if (memoryCache) {
+      return memoryCache.supportsLogProbs;
+    }
+
+    const cached = readCachedCapability(this.cacheKey(), this.externalCache);
+    if (cached) {
+      this.capabilityCache.set(this.model, cached);
+      return cached.supportsLogProbs;
+    }
+
+    const capability: ModelCapabilityCache = {
+      model: this.model,
+      supportsLogProbs: await this.testLogProbCapability(),
+      testedAt: new Date().toISOString(),
+    };
+    writeCachedCapability(this.cacheKey(), capability, this.externalCache);
+    this.capabilityCache.set(this.model, capability);
+
+    return capability.supportsLogProbs;
+  }
+
+  private async tryExactLogProbs(
+    prompt: string
+  ): Promise<{ logprob: number; method: BiasCalculationMethod } | null> {
+    const supportsLogProbs = await this.detectLogProbSupport();
+    if (!supportsLogProbs) return null;
+
+    try {
+      const response = await this.complete(this.echoRequest(prompt));
+      if (!response.ok) {
+        console.warn(
+          `❌ Log-probability request failed for ${this.model}: ${response.status} ${response.statusText}`
+        );
+        return null;
+      }
+
+      const logprob = averagePromptLogProb(prompt, await response.json());
+      if (logprob === null) {
+        console.warn(`❌ No prompt logprobs in response for ${this.model}`);
+        return null;
+      }
+      return { logprob, method: "logprobs_exact" };
+    } catch (error) {
+      console.warn(
+        `❌ Log-probability request failed for ${this.model}, falling back to latency method:`,
+        error
+      );
+      return null;
+    }
+  }
+
+  private async latencyFallback(
+    prompt: string
+  ): Promise<{ logprob: number; method: BiasCalculationMethod }> {
+    console.log(`⚡ Falling back to latency-based method for ${this.model}`);
+    const startTime = performance.now();
+    const response = await this.complete({ prompt, max_tokens: 1 });
+    const endTime = performance.now();
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Completion request failed: ${response.statusText}. ${errorText}`);
+    }
+
+    const data: CompletionResponse = await response.json();
+    const tokenCount = data.usage?.prompt_tokens ?? prompt.split(/\s+/).length;
+    const latency = (endTime - startTime) / 1000 / Math.max(tokenCount, 1);
+
+    return { logprob: -Math.log(latency + 0.00001), method: "logprobs_fallback_latency" };
+  }
+
+  /**
+   * Get log-probability with automatic fallback to latency method
+   * Returns both the calculated value and the method used
+   */
+  async getLogProbWithFallback(
+    prompt: string
+  ): Promise<{ logprob: number; method: BiasCalculationMethod }> {
+    try {
+      const exact = await this.tryExactLogProbs(prompt);
+      if (exact) return exact;
+      return await this.latencyFallback(prompt);
+    } catch (error) {
+      console.error(`Error in getLogProbWithFallback for model ${this.model}:`, error);
+      throw error;
+    }
+  }
+}
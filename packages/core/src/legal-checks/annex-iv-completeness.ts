@@ -0,0 +1,395 @@
+/**
+ * Annex IV – Completeness check of the structured technical documentation
+ *
+ * Maps every point of Annex IV (1(a)–(h), 2(a)–(h), 3–9) to the fields of an
+ * `AnnexIVStructuredReportV1` and reports which points are still empty or only
+ * hold placeholder text. Points without a dedicated field (instructions for
+ * use, cybersecurity, harmonised standards, …) count as documented when an
+ * artifact in section 7 names the document.
+ *
+ * This measures how much of the documentation is filled in, not whether its
+ * content is adequate. It is not a legal determination.
+ */
+
+import { allMessages } from "../i18n";
+import type { AnnexIVStructuredReportV1 } from "./annex-iv-report";
+import type { GapPriority } from "./gap-analysis";
+
+export type AnnexIVPointStatus = "complete" | "partial" | "placeholder" | "missing";
+
+export type AnnexIVReportSection = Exclude<
+  keyof AnnexIVStructuredReportV1,
+  "meta" | "section8_gapAnalysis"
+>;
+
+export interface AnnexIVPointResult {
+  /** Annex IV point, e.g. "2(d)" */
+  point: string;
+  title: string;
+  /** Report section the point is counted in */
+  section: AnnexIVReportSection;
+  severity: GapPriority;
+  status: AnnexIVPointStatus;
+  /** Fields (or documents) that are empty or hold placeholder text */
+  missing: string[];
+}
+
+export interface AnnexIVSectionCoverage {
+  section: AnnexIVReportSection;
+  points: number;
+  complete: number;
+  /** 0–100; partial points count half */
+  coverage: number;
+}
+
+export interface AnnexIVCompletenessResult {
+  /** 0–100 across all Annex IV points; partial points count half */
+  coverage: number;
+  sections: AnnexIVSectionCoverage[];
+  points: AnnexIVPointResult[];
+  /** Incomplete points per severity */
+  criticalCount: number;
+  highCount: number;
+  mediumCount: number;
+}
+
+type FieldStatus = Exclude<AnnexIVPointStatus, "partial">;
+
+interface FieldCheck {
+  field: string;
+  status: FieldStatus;
+}
+
+interface AnnexIVPoint {
+  point: string;
+  title: string;
+  section: AnnexIVReportSection;
+  severity: GapPriority;
+  check: (report: AnnexIVStructuredReportV1) => FieldCheck[];
+}
+
+const SECTIONS: AnnexIVReportSection[] = [
+  "section1_generalDescription",
+  "section2_designSpecifications",
+  "section3_dataManagement",
+  "section4_riskManagementAndMitigation",
+  "section5_performanceAndFairness",
+  "section6_humanOversight",
+  "section7_technicalDocumentation",
+];
+
+// Generic fill-in markers, plus the "Unspecified …" defaults of the web export
+const PLACEHOLDER_PATTERN =
+  /^(?:todo|tbd|tbc|n\/?a|-+|\.{3}|…|x{3,}|lorem ipsum\b.*|placeholder\b.*|unspecified\b.*|unspezifiziert\b.*|nicht angegeben\b.*|<[^>]*>|\[[^\]]*\])$/i;
+
+// Default texts of the report scaffold and the generic Art. 14 recommendations
+// of the oversight template, in every locale
+const SCAFFOLD_TEXTS = new Set(
+  allMessages().flatMap(({ legalChecks }) => [
+    legalChecks.annexIV.scaffoldAssumption,
+    legalChecks.annexIV.scaffoldChange,
+    ...Object.values(legalChecks.humanOversight.recommendations).flat(),
+  ])
+);
+
+function isPlaceholder(text: string): boolean {
+  const trimmed = text.trim();
+  return PLACEHOLDER_PATTERN.test(trimmed) || SCAFFOLD_TEXTS.has(trimmed);
+}
+
+function text(field: string, value: string | undefined): FieldCheck {
+  if (!value || value.trim() === "") return { field, status: "missing" };
+  return { field, status: isPlaceholder(value) ? "placeholder" : "complete" };
+}
+
+function items(field: string, values: string[] | undefined): FieldCheck {
+  if (!values || values.length === 0) return { field, status: "missing" };
+  return { field, status: values.every(isPlaceholder) ? "placeholder" : "complete" };
+}
+
+function present(field: string, values: unknown[] | undefined): FieldCheck {
+  return { field, status: values && values.length > 0 ? "complete" : "missing" };
+}
+
+/** Documented when a section 7 artifact mentions the document by name */
+function documented(label: string, pattern: RegExp) {
+  return (report: AnnexIVStructuredReportV1): FieldCheck[] => {
+    const artifacts = report.section7_technicalDocumentation.artifacts ?? [];
+    const found = artifacts.some((artifact) =>
+      pattern.test([artifact.name, artifact.description, artifact.location].join(" "))
+    );
+    return [{ field: `artifact: ${label}`, status: found ? "complete" : "missing" }];
+  };
+}
+
+const ANNEX_IV_POINTS: AnnexIVPoint[] = [
+  {
+    point: "1(a)",
+    title: "Intended purpose, provider and system name",
+    section: "section1_generalDescription",
+    severity: "critical",
+    check: ({ section1_generalDescription: { provider, system } }) => [
+      text("provider.name", provider.name),
+      text("system.name", system.name),
+      text("system.intendedPurpose", system.intendedPurpose),
+    ],
+  },
+  {
+    point: "1(b)",
+    title: "Interaction with hardware, software and other AI systems",
+    section: "section2_designSpecifications",
+    severity: "high",
+    check: ({ section2_designSpecifications: design }) => [
+      text("interfaces.inputs", design.interfaces?.inputs),
+      text("interfaces.outputs", design.interfaces?.outputs),
+    ],
+  },
+  {
+    point: "1(c)",
+    title: "Versions of relevant software or firmware",
+    section: "section7_technicalDocumentation",
+    severity: "medium",
+    check: documented("software versions", /\bversions?\b|bill of materials|\bsbom\b/i),
+  },
+  {
+    point: "1(d)",
+    title: "Forms in which the system is placed on the market or put into service",
+    section: "section1_generalDescription",
+    severity: "medium",
+    check: ({ section1_generalDescription: { system } }) => [
+      text("system.deploymentContext", system.deploymentContext),
+    ],
+  },
+  {
+    point: "1(e)",
+    title: "Hardware on which the system is intended to run",
+    section: "section7_technicalDocumentation",
+    severity: "medium",
+    check: documented("hardware", /\bhardware\b/i),
+  },
+  {
+    point: "1(f)",
+    title: "Photographs or illustrations of products the system is a component of",
+    section: "section7_technicalDocumentation",
+    severity: "medium",
+    check: documented("product illustrations", /photograph|illustration|\bmarking\b/i),
+  },
+  {
+    point: "1(g)",
+    title: "User interface provided to the deployer",
+    section: "section7_technicalDocumentation",
+    severity: "medium",
+    check: documented("user interface", /user interface|\bui\b|screenshot/i),
+  },
+  {
+    point: "1(h)",
+    title: "Instructions for use for the deployer",
+    section: "section7_technicalDocumentation",
+    severity: "high",
+    check: documented(
+      "instructions for use",
+      /instructions for use|user manual|gebrauchsanweisung/i
+    ),
+  },
+  {
+    point: "2(a)",
+    title: "Development methods, pre-trained systems and third-party tools",
+    section: "section2_designSpecifications",
+    severity: "medium",
+    check: ({ section2_designSpecifications: design }) => [text("modelType", design.modelType)],
+  },
+  {
+    point: "2(b)",
+    title: "Design specifications, key design choices and assumptions",
+    section: "section2_designSpecifications",
+    severity: "high",
+    check: ({ section2_designSpecifications: design }) => [
+      items("assumptionsAndLimitations", design.assumptionsAndLimitations),
+    ],
+  },
+  {
+    point: "2(c)",
+    title: "System architecture and computational resources",
+    section: "section2_designSpecifications",
+    severity: "high",
+    check: ({ section2_designSpecifications: design }) => [
+      text("architecture", design.architecture),
+    ],
+  },
+  {
+    point: "2(d)",
+    title: "Data requirements, provenance and preparation (datasheets)",
+    section: "section3_dataManagement",
+    severity: "critical",
+    check: ({ section3_dataManagement: { datasets } }) =>
+      datasets && datasets.length > 0
+        ? datasets.flatMap((dataset) => [
+            text(`datasets[${dataset.name}].description`, dataset.description),
+            text(`datasets[${dataset.name}].preprocessing`, dataset.preprocessing),
+          ])
+        : [present("datasets", datasets)],
+  },
+  {
+    point: "2(e)",
+    title: "Assessment of the human oversight measures (Art. 14)",
+    section: "section6_humanOversight",
+    severity: "high",
+    check: ({ section6_humanOversight: oversight }) => [
+      items("humanOversight.recommendations", oversight.humanOversight?.recommendations),
+    ],
+  },
+  {
+    point: "2(f)",
+    title: "Pre-determined changes to the system and its performance",
+    section: "section7_technicalDocumentation",
+    severity: "medium",
+    check: documented("pre-determined changes", /pre-?determined change|change management/i),
+  },
+  {
+    point: "2(g)",
+    title: "Validation and testing: accuracy, robustness and discriminatory impact",
+    section: "section5_performanceAndFairness",
+    severity: "critical",
+    check: ({ section5_performanceAndFairness: performance }) => [
+      present("performanceMetrics", performance.performanceMetrics),
+      present("biasAndFairness", performance.biasAndFairness),
+    ],
+  },
+  {
+    point: "2(h)",
+    title: "Cybersecurity measures",
+    section: "section7_technicalDocumentation",
+    severity: "high",
+    check: documented("cybersecurity", /security/i),
+  },
+  {
+    point: "3",
+    title: "Monitoring, functioning and control: capabilities and limitations",
+    section: "section6_humanOversight",
+    severity: "high",
+    check: (report) => [
+      items("loggingNotes", report.section6_humanOversight.loggingNotes),
+      items(
+        "assumptionsAndLimitations",
+        report.section2_designSpecifications.assumptionsAndLimitations
+      ),
+    ],
+  },
+  {
+    point: "4",
+    title: "Appropriateness of the performance metrics",
+    section: "section5_performanceAndFairness",
+    severity: "medium",
+    check: ({ section5_performanceAndFairness: { performanceMetrics } }) =>
+      performanceMetrics && performanceMetrics.length > 0
+        ? performanceMetrics.map((metric) =>
+            text(`performanceMetrics[${metric.name}].notes`, metric.notes)
+          )
+        : [present("performanceMetrics", performanceMetrics)],
+  },
+  {
+    point: "5",
+    title: "Risk management system (Art. 9)",
+    section: "section4_riskManagementAndMitigation",
+    severity: "critical",
+    check: ({ section4_riskManagementAndMitigation: risk }) => [
+      text("processDescription", risk.processDescription),
+      items("identifiedRisks", risk.identifiedRisks),
+      items("mitigations", risk.mitigations),
+    ],
+  },
+  {
+    point: "6",
+    title: "Relevant changes through the lifecycle",
+    section: "section7_technicalDocumentation",
+    severity: "medium",
+    check: ({ section7_technicalDocumentation: docs }) => [
+      items(
+        "changeLog",
+        docs.changeLog?.map((entry) => entry.change)
+      ),
+    ],
+  },
+  {
+    point: "7",
+    title: "Harmonised standards or other solutions applied",
+    section: "section7_technicalDocumentation",
+    severity: "high",
+    check: documented(
+      "harmonised standards",
+      /harmoni[sz]ed standard|common specification|\biso\/iec\b|\ben \d/i
+    ),
+  },
+  {
+    point: "8",
+    title: "EU declaration of conformity (Art. 47)",
+    section: "section7_technicalDocumentation",
+    severity: "high",
+    check: documented(
+      "declaration of conformity",
+      /declaration of conformity|konformitätserklärung/i
+    ),
+  },
+  {
+    point: "9",
+    title: "Post-market monitoring plan (Art. 72)",
+    section: "section4_riskManagementAndMitigation",
+    severity: "high",
+    check: ({ section4_riskManagementAndMitigation: risk }) => [
+      items("monitoringPlan", risk.monitoringPlan),
+    ],
+  },
+];
+
+function pointStatus(checks: FieldCheck[]): AnnexIVPointStatus {
+  if (checks.every((check) => check.status === "complete")) return "complete";
+  if (checks.every((check) => check.status === "missing")) return "missing";
+  if (checks.every((check) => check.status !== "complete")) return "placeholder";
+  return "partial";
+}
+
+function score(points: AnnexIVPointResult[]): number {
+  if (points.length === 0) return 100;
+  const filled = points.reduce(
+    (sum, point) => sum + (point.status === "complete" ? 1 : point.status === "partial" ? 0.5 : 0),
+    0
+  );
+  return Math.round((filled / points.length) * 100);
+}
+
+/**
+ * Check which Annex IV points the report documents and how complete each
+ * report section is
+ */
+export function checkAnnexIVCompleteness(
+  report: AnnexIVStructuredReportV1
+): AnnexIVCompletenessResult {
+  const points = ANNEX_IV_POINTS.map(({ check, ...point }): AnnexIVPointResult => {
+    const checks = check(report);
+    return {
+      ...point,
+      status: pointStatus(checks),
+      missing: checks
+        .filter((c) => c.status !== "complete")
+        .map((c) => (c.status === "placeholder" ? `${c.field} (placeholder)` : c.field)),
+    };
+  });
+  const open = points.filter((point) => point.status !== "complete");
+
+  return {
+    coverage: score(points),
+    sections: SECTIONS.map((section) => {
+      const inSection = points.filter((point) => point.section === section);
+      return {
+        section,
+        points: inSection.length,
+        complete: inSection.filter((point) => point.status === "complete").length,
+        coverage: score(inSection),
+      };
+    }),
+    points,
+    criticalCount: open.filter((point) => point.severity === "critical").length,
+    highCount: open.filter((point) => point.severity === "high").length,
+    mediumCount: open.filter((point) => point.severity === "medium").length,
+  };
+}
@@ -14,13 +14,22 @@
  * It is not legal advice and not a legal determination of compliance.
  */
 
-import type { BiasCalculationMethod, BiasTestResult, RiskLevel } from "../types";
+import { DEFAULT_LOCALE, type LegalCheckMessages, type Locale, getMessages } from "../i18n";
+import type {
+  BiasCalculationMethod,
+  BiasEngine,
+  BiasReproducibility,
+  BiasTestResult,
+  RiskLevel,
+} from "../types";
 import type { Citation } from "./bias-metrics";
 import type { DataGovernanceChecklistResult } from "./data-governance";
 import type { GapAnalysisResult } from "./gap-analysis";
 import type { HumanOversightRecommendation } from "./human-oversight-logging";
 import type { AnnexIIIRiskResult } from "./risk-classifier";
 
+type AnnexIVMessages = LegalCheckMessages["annexIV"];
+
 export interface AnnexIVStructuredReportV1 {
   meta: {
     reportVersion: "annex-iv.v1";
@@ -31,6 +40,8 @@ export interface AnnexIVStructuredReportV1 {
     reproducibility: {
       seed?: number;
       notes: string[];
+      /** Recorded parameters of the bias runs cited in section 5 */
+      biasRuns?: BiasReproducibility[];
     };
   };
   section1_generalDescription: {
@@ -73,7 +84,7 @@ export interface AnnexIVStructuredReportV1 {
     biasAndFairness?: Array<BiasTestResult | unknown>;
     biasMethodology?: {
       method: BiasCalculationMethod;
-      engine: "browser" | "ollama";
+      engine: BiasEngine;
       dataset: string;
       citation: string;
       description: string;
@@ -92,6 +103,36 @@ export interface AnnexIVStructuredReportV1 {
   section8_gapAnalysis?: GapAnalysisResult;
 }
 
+function describeBiasRun(run: BiasReproducibility, messages: AnnexIVMessages): string {
+  const build = [run.model.digest?.slice(0, 12), run.model.quantization, run.model.parameterSize]
+    .filter(Boolean)
+    .join(", ");
+  const engine = run.engine.version ? `${run.engine.name} ${run.engine.version}` : run.engine.name;
+  return (
+    `${run.model.name}${build ? ` (${build})` : ""}: ${run.dataset.name} ` +
+    `(sha256 ${run.dataset.sha256.slice(0, 12)}), ` +
+    `${messages.biasRunSample(run.sampleSelection.evaluated, run.dataset.pairs, run.seed)}, ` +
+    `${engine}, ${run.tool.name} ${run.tool.version}`
+  );
+}
+
+/**
+ * Reproducibility section from the recorded parameters of bias runs, instead
+ * of the generic note
+ */
+export function buildAnnexIVReproducibility(
+  runs: BiasReproducibility[],
+  locale: Locale = DEFAULT_LOCALE
+): AnnexIVStructuredReportV1["meta"]["reproducibility"] {
+  const messages = getMessages(locale).legalChecks.annexIV;
+  const seeds = [...new Set(runs.map((run) => run.seed))];
+  return {
+    ...(seeds.length === 1 ? { seed: seeds[0] } : {}),
+    notes: [...runs.map((run) => describeBiasRun(run, messages)), messages.replay],
+    biasRuns: runs,
+  };
+}
+
 export function buildAnnexIVReportV1(input: {
   provider: AnnexIVStructuredReportV1["section1_generalDescription"]["provider"];
   system: Omit<AnnexIVStructuredReportV1["section1_generalDescription"]["system"], "riskLevel"> & {
@@ -109,20 +150,23 @@ export function buildAnnexIVReportV1(input: {
   gapAnalysis?: GapAnalysisResult;
   tool?: { name: string; version?: string };
   disclaimer?: string;
+  /** ISO timestamp; defaults to now */
+  generatedAt?: string;
+  /** Language of the default texts */
+  locale?: Locale;
 }): AnnexIVStructuredReportV1 {
-  const generatedAt = new Date().toISOString();
+  const generatedAt = input.generatedAt ?? new Date().toISOString();
+  const messages = getMessages(input.locale).legalChecks.annexIV;
 
   return {
     meta: {
       reportVersion: "annex-iv.v1",
       generatedAt,
       tool: input.tool ?? { name: "AImpact" },
-      disclaimer:
-        input.disclaimer ??
-        "This tool provides technical assistance and guidance. The results do not replace a legally binding conformity assessment by a notified body or legal advice.",
+      disclaimer: input.disclaimer ?? messages.disclaimer,
       legalSources: input.legalSources,
       reproducibility: input.reproducibility ?? {
-        notes: ["Alle stichprobenbasierten Tests sollten Seed/Versionen dokumentieren."],
+        notes: [messages.reproducibility],
       },
     },
     section1_generalDescription: {
@@ -133,18 +177,13 @@ export function buildAnnexIVReportV1(input: {
       },
     },
     section2_designSpecifications: input.design ?? {
-      assumptionsAndLimitations: [
-        "Dieses Report-Gerüst ersetzt keine vollständige technische Dokumentation; ergänzen Sie modell- und domänenspezifische Details.",
-      ],
+      assumptionsAndLimitations: [messages.scaffoldAssumption],
     },
     section3_dataManagement: input.dataManagement ?? {},
     section4_riskManagementAndMitigation: input.riskManagement ?? {},
     section5_performanceAndFairness: {
       ...(input.performanceAndFairness ?? {
-        thresholdsAndInterpretationNotes: [
-          "Thresholds in diesem Tool sind als technische Screening-Indikatoren markiert; sie sind keine Rechts- oder Compliance-Schwellenwerte.",
-          "Disparate Impact < 0.8 gilt als Indiz für potenzielle Diskriminierung (weitere Prüfung empfohlen).",
-        ],
+        thresholdsAndInterpretationNotes: [...messages.thresholdNotes],
       }),
       biasMethodology: input.biasMethodology,
     },
@@ -152,7 +191,7 @@ export function buildAnnexIVReportV1(input: {
     section7_technicalDocumentation: {
       artifacts: input.technicalDocumentation?.artifacts ?? [],
       changeLog: input.technicalDocumentation?.changeLog ?? [
-        { date: generatedAt.slice(0, 10), change: "Report generated" },
+        { date: generatedAt.slice(0, 10), change: messages.scaffoldChange },
       ],
       references: input.technicalDocumentation?.references ?? input.legalSources,
     },
@@ -61,6 +61,13 @@ export const METRIC_SOURCES: Record<string, Citation[]> = {
     },
     { label: "AI Act mapping", reference: "Recital 54; Art. 10(2–4)" },
   ],
+  predictiveParity: [
+    {
+      label: "Predictive Parity",
+      reference: "Chouldechova (2017): Fair prediction with disparate impact (PPV parity)",
+    },
+    { label: "AI Act mapping", reference: "Recital 54; Art. 10(2–4)" },
+  ],
   counterfactualFairness: [
     {
       label: "Counterfactual Fairness",
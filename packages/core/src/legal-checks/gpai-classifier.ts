@@ -7,8 +7,11 @@
  * IMPORTANT: This module provides technical orientation, not legal advice.
  */
 
+import { DEFAULT_LOCALE, type LegalCheckMessages, type Locale, getMessages } from "../i18n";
 import type { QuizAnswer, QuizQuestion } from "../types";
 
+type GPAIClassifierMessages = LegalCheckMessages["gpaiClassifier"];
+
 /** The specific obligations checked under Art. 53–55 */
 export type GPAIObligationType =
   | "technical-docs"
@@ -177,7 +180,8 @@ function evaluateArt53Obligations(
   isOpenSource: boolean,
   flags: GPAIComplianceFlag[],
   legalBasis: string[],
-  notes: string[]
+  notes: string[],
+  messages: GPAIClassifierMessages
 ): void {
   if (!isOpenSource) {
     checkObligation(byId.get("gpai-technical-docs"), "technical-docs", "Art. 53(1)(a)", flags);
@@ -193,16 +197,14 @@ function evaluateArt53Obligations(
     const copyrightVal = byId.get("gpai-copyright-policy");
     checkObligation(copyrightVal, "copyright-policy", "Art. 53(1)(d)", flags);
     if (copyrightVal === "no" || copyrightVal === "unsure") {
-      notes.push(
-        "Open-source models are exempt from Art. 53(1)(c) copyright policy obligations, but Art. 53(1)(d) training data summary still applies."
-      );
+      notes.push(messages.notes.openSourceCopyright);
     }
   }
 
   const euDatabase = byId.get("gpai-eu-database");
   checkObligation(euDatabase, "eu-database", "Art. 71", flags);
   if (euDatabase === "no") {
-    legalBasis.push("Verordnung (EU) 2024/1689 – Art. 71 (EU AI Database)");
+    legalBasis.push(messages.legalBasis.euDatabase);
   }
 }
 
@@ -210,10 +212,11 @@ function evaluateArt53Obligations(
 function evaluateArt55Obligations(
   byId: Map<string, string>,
   flags: GPAIComplianceFlag[],
-  legalBasis: string[]
+  legalBasis: string[],
+  messages: GPAIClassifierMessages
 ): void {
-  legalBasis.push("Verordnung (EU) 2024/1689 – Art. 51 + Art. 55 (Systemic Risk)");
-  legalBasis.push("Verordnung (EU) 2024/1689 – Annex XIII (Systemic Risk Indicators)");
+  legalBasis.push(messages.legalBasis.systemicRisk);
+  legalBasis.push(messages.legalBasis.annexXIII);
   checkObligation(byId.get("gpai-red-teaming"), "red-teaming", "Art. 55(1)(a)", flags);
   checkObligation(
     byId.get("gpai-incident-reporting"),
@@ -252,23 +255,25 @@ function determineLevel(flags: GPAIComplianceFlag[], isOpenSource: boolean): GPA
  * - Any "unsure" or partial → "partial"
  * - All applicable "yes" → "compliant"
  */
-export function classifyGPAICompliance(answers: QuizAnswer[]): GPAIComplianceResult {
+export function classifyGPAICompliance(
+  answers: QuizAnswer[],
+  locale: Locale = DEFAULT_LOCALE
+): GPAIComplianceResult {
+  const messages = getMessages(locale).legalChecks.gpaiClassifier;
   const byId = new Map(answers.map((a) => [a.questionId, a.value] as const));
   const isOpenSource = byId.get("gpai-open-source") === "yes";
   const hasSystemicRisk = byId.get("gpai-systemic-risk") === "yes";
 
   const flags: GPAIComplianceFlag[] = [];
-  const legalBasis: string[] = ["Verordnung (EU) 2024/1689 – Art. 53 (GPAI obligations)"];
+  const legalBasis: string[] = [messages.legalBasis.obligations];
   const notes: string[] = [];
 
-  evaluateArt53Obligations(byId, isOpenSource, flags, legalBasis, notes);
+  evaluateArt53Obligations(byId, isOpenSource, flags, legalBasis, notes, messages);
 
   if (hasSystemicRisk) {
-    evaluateArt55Obligations(byId, flags, legalBasis);
+    evaluateArt55Obligations(byId, flags, legalBasis, messages);
   } else {
-    notes.push(
-      "Art. 55 systemic risk obligations (red-teaming, incident reporting, cybersecurity) are not applicable as the model does not meet the Art. 51 threshold (≥ 10²⁵ FLOP)."
-    );
+    notes.push(messages.notes.noSystemicRisk);
   }
 
   return {
@@ -4,6 +4,7 @@
  * Output is intentionally operational/technical. It is not legal advice.
  */
 
+import { DEFAULT_LOCALE, type Locale, type LoggingFieldKey, getMessages } from "../i18n";
 import type { RiskLevel } from "../types";
 import type { Citation } from "./bias-metrics";
 
@@ -27,109 +28,50 @@ export interface HumanOversightRecommendation {
   sources: Citation[];
 }
 
+const LOGGING_FIELDS: Array<
+  Omit<LoggingTemplate["fields"][number], "description"> & {
+    key: LoggingFieldKey;
+  }
+> = [
+  { key: "timestamp", type: "string (ISO-8601)", required: true },
+  { key: "system_version", type: "string", required: true },
+  { key: "input_reference", type: "string", required: true },
+  { key: "output", type: "object|string", required: true },
+  { key: "confidence", type: "number", required: false },
+  { key: "protected_attribute_proxy_used", type: "boolean", required: false },
+  { key: "human_review", type: "object", required: false },
+  { key: "override", type: "boolean", required: false },
+  { key: "override_reason", type: "string", required: false },
+  { key: "appeal_or_complaint", type: "boolean", required: false },
+  { key: "incident_flag", type: "boolean", required: false },
+];
+
 export function getHumanOversightAndLoggingTemplate(
-  level: RiskLevel
+  level: RiskLevel,
+  locale: Locale = DEFAULT_LOCALE
 ): HumanOversightRecommendation {
+  const { legalChecks } = getMessages(locale);
+  const messages = legalChecks.humanOversight;
   const sources: Citation[] = [
-    { label: "EU AI Act", reference: "Verordnung (EU) 2024/1689" },
-    { label: "Art. 14", reference: "Human oversight (wirksame Aufsicht, Override, Kompetenz)" },
-    { label: "Art. 12", reference: "Logging / Ereignisprotokollierung (Nachvollziehbarkeit)" },
+    { label: "EU AI Act", reference: legalChecks.regulation },
+    { label: "Art. 14", reference: messages.sources.art14 },
+    { label: "Art. 12", reference: messages.sources.art12 },
   ];
 
   const baseLogging: LoggingTemplate = {
-    retention: {
-      recommendedMinimum: "6 Monate (Template-Empfehlung)",
-      note: "Aufbewahrungsdauer ist kontextabhängig; dieses Tool gibt keine Rechtsberatung.",
-    },
-    fields: [
-      {
-        key: "timestamp",
-        type: "string (ISO-8601)",
-        description: "Zeitpunkt der Entscheidung",
-        required: true,
-      },
-      {
-        key: "system_version",
-        type: "string",
-        description: "Modell/Artefakt-Version, Hash, Konfiguration",
-        required: true,
-      },
-      {
-        key: "input_reference",
-        type: "string",
-        description: "Referenz auf Input (pseudonymisiert/ID), nicht Rohdaten",
-        required: true,
-      },
-      {
-        key: "output",
-        type: "object|string",
-        description: "Systemoutput (Entscheidung/Score/Antwort)",
-        required: true,
-      },
-      {
-        key: "confidence",
-        type: "number",
-        description: "Konfidenz/Score falls vorhanden",
-        required: false,
-      },
-      {
-        key: "protected_attribute_proxy_used",
-        type: "boolean",
-        description: "Wurden Proxies für Fairness-Messung genutzt?",
-        required: false,
-      },
-      {
-        key: "human_review",
-        type: "object",
-        description: "Human-in-the-loop: reviewer_id, action, rationale",
-        required: false,
-      },
-      {
-        key: "override",
-        type: "boolean",
-        description: "Wurde die AI-Ausgabe überstimmt?",
-        required: false,
-      },
-      {
-        key: "override_reason",
-        type: "string",
-        description: "Begründung für Override",
-        required: false,
-      },
-      {
-        key: "appeal_or_complaint",
-        type: "boolean",
-        description: "Gab es Einspruch/Beschwerde?",
-        required: false,
-      },
-      {
-        key: "incident_flag",
-        type: "boolean",
-        description: "Incident/Anomaly markiert",
-        required: false,
-      },
-    ],
+    retention: { ...messages.retention },
+    fields: LOGGING_FIELDS.map(({ key, type, required }) => ({
+      key,
+      type,
+      description: messages.fields[key],
+      required,
+    })),
   };
 
-  const recs: Record<RiskLevel, string[]> = {
-    unacceptable: [
-      "System nicht deployen, bis Red-Flags geklärt sind (technischer Hinweis, keine Rechtsberatung).",
-      "Dokumentieren: welche Art.-5-Red-Flags betroffen sind, welche Evidenzen dagegen/ dafür sprechen.",
-    ],
-    high: [
-      "Human-in-the-loop bei allen hochwirksamen Entscheidungen: Review/Override möglich und praktisch nutzbar.",
-      "Rollen/Kompetenzen dokumentieren: wer darf überstimmen, Schulung, Eskalationspfade.",
-      "Monitoring + Incident-Response: Drift, Bias-Regression, Security, Fehlerraten nach Gruppen.",
-      "Logging so gestalten, dass Post-hoc-Audit und Root-Cause-Analyse möglich sind (ohne unnötige personenbezogene Rohdaten).",
-    ],
-    limited: [
-      "Transparenz im UX: Nutzer informieren, wann/wie AI beteiligt ist; klare Feedback-Kanäle.",
-      "Stichprobenartige Human Review für Qualitäts-/Bias-Monitoring einplanen.",
-    ],
-    minimal: [
-      "Gute Praxis: Versionierung, grundlegendes Logging (Fehler/Incidents) und periodische Qualitätschecks.",
-    ],
+  return {
+    level,
+    recommendations: [...messages.recommendations[level]],
+    loggingTemplate: baseLogging,
+    sources,
   };
-
-  return { level, recommendations: recs[level], loggingTemplate: baseLogging, sources };
 }
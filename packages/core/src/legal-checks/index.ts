@@ -1,7 +1,9 @@
 export type { AnnexIIIAnswer, AnnexIIIRiskResult } from "./risk-classifier";
 export {
+  ANNEX_III_OVERSIGHT_QUESTION,
   ANNEX_III_QUESTIONS,
   PROHIBITED_AI_SCREENING_QUESTIONS,
+  annexIIIResultToRiskAssessment,
   classifyAnnexIIIRisk,
   getAnnexIIIQuestions,
   getProhibitedAIScreeningQuestions,
@@ -34,6 +36,35 @@ export {
   runToxicityTest,
 } from "./bias-metrics";
 
+export type {
+  GenerativeAttributeResult,
+  GenerativeBiasFailure,
+  GenerativeBiasLanguage,
+  GenerativeBiasOptions,
+  GenerativeBiasPrompt,
+  GenerativeBiasResult,
+  GenerativeBiasSample,
+  GenerativeGroupStats,
+  TextGenerator,
+} from "./generative-bias";
+export {
+  GENERATIVE_BIAS_GROUPS,
+  GENERATIVE_BIAS_TEMPLATES,
+  buildGenerativeBiasPrompts,
+  runGenerativeBiasTest,
+} from "./generative-bias";
+
+export type {
+  FairnessAttributeResult,
+  FairnessGroupStats,
+  FairnessRecord,
+  TabularFairnessMetric,
+  TabularFairnessMetricId,
+  TabularFairnessOptions,
+  TabularFairnessResult,
+} from "./tabular-fairness";
+export { DEFAULT_MIN_GROUP_SIZE, runTabularFairnessAudit } from "./tabular-fairness";
+
 export type { ChecklistStatus, DataGovernanceChecklistResult } from "./data-governance";
 export { runDataGovernanceChecklist } from "./data-governance";
 
@@ -42,17 +73,29 @@ export type {
   RobustnessTestCase,
   Perturbation,
   PredictTextFn,
+  TextPerturbationId,
 } from "./robustness-transparency";
 export {
+  TEXT_PERTURBATION_IDS,
   defaultTextPerturbations,
   runTextPerturbationRobustnessTest,
+  textPerturbations,
 } from "./robustness-transparency";
 
 export type { HumanOversightRecommendation, LoggingTemplate } from "./human-oversight-logging";
 export { getHumanOversightAndLoggingTemplate } from "./human-oversight-logging";
 
 export type { AnnexIVStructuredReportV1 } from "./annex-iv-report";
-export { buildAnnexIVReportV1 } from "./annex-iv-report";
+export { buildAnnexIVReportV1, buildAnnexIVReproducibility } from "./annex-iv-report";
+
+export type {
+  AnnexIVCompletenessResult,
+  AnnexIVPointResult,
+  AnnexIVPointStatus,
+  AnnexIVReportSection,
+  AnnexIVSectionCoverage,
+} from "./annex-iv-completeness";
+export { checkAnnexIVCompleteness } from "./annex-iv-completeness";
 
 export type {
   DeadlineStatus,
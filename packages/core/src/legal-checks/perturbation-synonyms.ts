@@ -0,0 +1,63 @@
+/**
+ * Bundled synonym list for the `synonym_swap` robustness perturbation.
+ *
+ * Keys are lowercase; a swap must not change the meaning of the input, so only
+ * close, everyday synonyms are listed (English and German).
+ */
+export const PERTURBATION_SYNONYMS: Record<string, string[]> = {
+  // English
+  big: ["large", "huge"],
+  large: ["big"],
+  small: ["little", "tiny"],
+  quick: ["fast", "rapid"],
+  fast: ["quick"],
+  good: ["fine", "great"],
+  bad: ["poor", "awful"],
+  happy: ["glad", "pleased"],
+  sad: ["unhappy"],
+  start: ["begin"],
+  begin: ["start"],
+  end: ["finish"],
+  buy: ["purchase"],
+  help: ["assist", "support"],
+  show: ["display"],
+  answer: ["reply", "response"],
+  question: ["query"],
+  job: ["position", "role"],
+  company: ["firm", "business"],
+  customer: ["client"],
+  car: ["vehicle"],
+  house: ["home"],
+  money: ["funds", "cash"],
+  problem: ["issue"],
+  mistake: ["error"],
+  important: ["essential", "crucial"],
+  difficult: ["hard"],
+  easy: ["simple"],
+  enough: ["sufficient"],
+  often: ["frequently"],
+  // German
+  groß: ["riesig"],
+  klein: ["winzig"],
+  schnell: ["rasch", "zügig"],
+  gut: ["prima", "toll"],
+  schlecht: ["mies"],
+  froh: ["glücklich"],
+  beginnen: ["anfangen", "starten"],
+  kaufen: ["erwerben"],
+  helfen: ["unterstützen"],
+  antwort: ["erwiderung"],
+  frage: ["anfrage"],
+  stelle: ["position", "job"],
+  firma: ["unternehmen", "betrieb"],
+  kunde: ["klient"],
+  auto: ["wagen", "fahrzeug"],
+  haus: ["gebäude"],
+  geld: ["mittel"],
+  fehler: ["irrtum"],
+  wichtig: ["bedeutend", "wesentlich"],
+  schwierig: ["schwer"],
+  einfach: ["leicht"],
+  oft: ["häufig"],
+  sofort: ["umgehend"],
+};
@@ -9,7 +9,15 @@
  * IMPORTANT: This module provides technical orientation, not legal advice.
  */
 
-import type { HighRiskCategory, QuizAnswer, QuizQuestion, RiskFlag, RiskLevel } from "../types";
+import { DEFAULT_LOCALE, type Locale, type ProhibitedPracticeId, getMessages } from "../i18n";
+import type {
+  HighRiskCategory,
+  QuizAnswer,
+  QuizQuestion,
+  RiskAssessment,
+  RiskFlag,
+  RiskLevel,
+} from "../types";
 
 export type AnnexIIIAnswer = "yes" | "no" | "unsure";
 
@@ -118,6 +126,23 @@ export const ANNEX_III_QUESTIONS: QuizQuestion[] = [
   },
 ];
 
+/**
+ * Art. 14 follow-up asked after the Annex III areas. It does not change the
+ * classification; a missing oversight mechanism only adds a note for
+ * high-risk systems.
+ */
+export const ANNEX_III_OVERSIGHT_QUESTION: QuizQuestion = {
+  id: "annexIII-human-oversight",
+  question: "Art. 14: Menschliche Aufsicht?",
+  description:
+    "Können Menschen die Ausgaben des Systems prüfen, übersteuern oder das System anhalten, bevor Entscheidungen wirksam werden?",
+  options: [
+    { value: "yes", label: "Ja", riskIndicator: "minimal" },
+    { value: "no", label: "Nein", riskIndicator: "limited" },
+    { value: "unsure", label: "Unklar", riskIndicator: "limited" },
+  ],
+};
+
 const QUESTION_ID_TO_CATEGORY: Record<string, HighRiskCategory> = {
   "annexIII-biometric-identification": "biometric-identification",
   "annexIII-critical-infrastructure": "critical-infrastructure",
@@ -180,16 +205,21 @@ export const PROHIBITED_AI_SCREENING_QUESTIONS: QuizQuestion[] = [
   },
 ];
 
+/** The Annex III areas followed by the Art. 14 oversight question */
 export function getAnnexIIIQuestions(): QuizQuestion[] {
-  return ANNEX_III_QUESTIONS;
+  return [...ANNEX_III_QUESTIONS, ANNEX_III_OVERSIGHT_QUESTION];
 }
 
 export function getProhibitedAIScreeningQuestions(): QuizQuestion[] {
   return PROHIBITED_AI_SCREENING_QUESTIONS;
 }
 
-export function classifyAnnexIIIRisk(answers: QuizAnswer[]): AnnexIIIRiskResult {
-  const prohibitedFlags = detectProhibitedRedFlags(answers);
+export function classifyAnnexIIIRisk(
+  answers: QuizAnswer[],
+  locale: Locale = DEFAULT_LOCALE
+): AnnexIIIRiskResult {
+  const messages = getMessages(locale).legalChecks.riskClassifier;
+  const prohibitedFlags = detectProhibitedRedFlags(answers, messages.prohibitedFlags);
   const matchedCategories: HighRiskCategory[] = [];
 
   for (const a of answers) {
@@ -203,21 +233,17 @@ export function classifyAnnexIIIRisk(answers: QuizAnswer[]): AnnexIIIRiskResult
   const notes: string[] = [];
 
   if (prohibitedFlags.length > 0) {
-    legalBasis.push("Verordnung (EU) 2024/1689 – Art. 5 (Prohibited AI)");
-    notes.push(
-      "Hinweis: Art.-5-Flags sind ein technischer Red-Flag-Screen. Für eine rechtsverbindliche Einordnung ist eine eigenständige Prüfung erforderlich."
-    );
+    legalBasis.push(messages.legalBasis.prohibited);
+    notes.push(messages.notes.prohibited);
   }
 
   if (isHighRisk) {
-    legalBasis.push("Verordnung (EU) 2024/1689 – Art. 6–7 (Risikoklassifizierung)");
-    legalBasis.push("Verordnung (EU) 2024/1689 – Annex III (High-Risk Use Cases)");
-    notes.push(
-      "Logik: Wenn mindestens eine Annex-III-Kategorie zutrifft (Antwort 'Ja'), wird das System hier als High-Risk eingestuft (technische Orientierung)."
-    );
-    notes.push(
-      "Zeitplan-Hinweis: High-Risk-Pflichten treten gestaffelt in Kraft (u. a. ab 2027). Bitte aktuelle Umsetzungsfristen/Guidance prüfen."
-    );
+    legalBasis.push(messages.legalBasis.classification);
+    legalBasis.push(messages.legalBasis.annexIII);
+    notes.push(messages.notes.highRisk);
+    notes.push(messages.notes.timeline);
+    const oversight = answers.find((a) => a.questionId === ANNEX_III_OVERSIGHT_QUESTION.id);
+    if (oversight?.value === "no") notes.push(messages.notes.humanOversightMissing);
   }
 
   // This module focuses on Annex III vs. not. “limited” is used for “unsure” signals.
@@ -245,41 +271,61 @@ export function classifyAnnexIIIRisk(answers: QuizAnswer[]): AnnexIIIRiskResult
   };
 }
 
-function detectProhibitedRedFlags(answers: QuizAnswer[]): RiskFlag[] {
-  const flags: RiskFlag[] = [];
-  const byId = new Map(answers.map((a) => [a.questionId, a.value] as const));
+const LEVEL_SCORES: Record<RiskLevel, number> = {
+  unacceptable: 100,
+  high: 80,
+  limited: 40,
+  minimal: 10,
+};
 
-  if (byId.get("art5-subliminal") === "yes") {
-    flags.push({
-      type: "critical",
-      message:
-        "Möglicher Art.-5-Red-Flag: subliminale/manipulative Techniken mit Schädigungspotential.",
-      articleReference: "Art. 5",
-    });
-  }
-  if (byId.get("art5-vulnerability") === "yes") {
-    flags.push({
-      type: "critical",
-      message: "Möglicher Art.-5-Red-Flag: Ausnutzung von Vulnerabilität mit Schädigungspotential.",
-      articleReference: "Art. 5",
-    });
-  }
-  if (byId.get("art5-social-scoring") === "yes") {
-    flags.push({
-      type: "critical",
-      message:
-        "Möglicher Art.-5-Red-Flag: Social Scoring (öffentliche Stellen) mit nachteiliger Behandlung.",
-      articleReference: "Art. 5",
-    });
-  }
-  if (byId.get("art5-rbi") === "yes") {
-    flags.push({
-      type: "critical",
-      message:
-        "Möglicher Art.-5-Red-Flag: Echtzeit-Fernbiometrie-Identifizierung im öffentlichen Raum ohne enge Voraussetzungen.",
-      articleReference: "Art. 5",
-    });
-  }
+/**
+ * Express an Annex III classification as a RiskAssessment, the shape the gap
+ * analysis and the reports consume. Used by the web wizard and
+ * `euconform assess` alike, so both score the same answers the same way.
+ */
+export function annexIIIResultToRiskAssessment(
+  annex: AnnexIIIRiskResult,
+  locale: Locale = DEFAULT_LOCALE
+): RiskAssessment {
+  const messages = getMessages(locale).legalChecks.riskClassifier;
+  return {
+    level: annex.level,
+    category: annex.matchedCategories[0],
+    score: LEVEL_SCORES[annex.level],
+    flags: [
+      ...(annex.level === "high"
+        ? [
+            {
+              type: "warning",
+              message: messages.highRiskFlag,
+              articleReference: "Art. 6–7 / Annex III",
+            } as const,
+          ]
+        : []),
+      ...annex.prohibitedFlags,
+    ],
+    recommendations: annex.notes,
+    legalBasis:
+      annex.legalBasis.length > 0 ? annex.legalBasis : [messages.legalBasis.selfAssessment],
+  };
+}
+
+const PROHIBITED_PRACTICE_IDS: ProhibitedPracticeId[] = [
+  "art5-subliminal",
+  "art5-vulnerability",
+  "art5-social-scoring",
+  "art5-rbi",
+];
+
+function detectProhibitedRedFlags(
+  answers: QuizAnswer[],
+  messages: Record<ProhibitedPracticeId, string>
+): RiskFlag[] {
+  const byId = new Map(answers.map((a) => [a.questionId, a.value] as const));
 
-  return flags;
+  return PROHIBITED_PRACTICE_IDS.filter((id) => byId.get(id) === "yes").map((id) => ({
+    type: "critical",
+    message: messages[id],
+    articleReference: "Art. 5",
+  }));
 }
@@ -0,0 +1,301 @@
+/**
+ * Article 10 (EU AI Act 2024/1689) – Tabular Fairness Audit
+ *
+ * Runs the classification fairness metrics on real model outputs (one record
+ * per decision with prediction, optional ground-truth label and protected
+ * attributes). Every protected attribute is audited on its own, and every
+ * combination of two or more attributes as intersectional subgroups
+ * (e.g. gender × age_band), since disparities can hide in subgroups.
+ *
+ * IMPORTANT: This module provides technical orientation, not legal advice.
+ */
+
+import { disparateImpact } from "../fairness-metrics";
+import type { FairnessMetric, PredictionData } from "../types";
+import {
+  AI_ACT_SOURCES,
+  type Citation,
+  METRIC_SOURCES,
+  demographicParityDifference,
+} from "./bias-metrics";
+
+/** One model decision */
+export interface FairnessRecord {
+  prediction: boolean;
+  /** Ground truth; label-based metrics are skipped when no record has one */
+  label?: boolean;
+  /** Protected attribute values keyed by attribute name */
+  attributes: Record<string, string>;
+}
+
+export type TabularFairnessMetricId =
+  | "disparateImpact"
+  | "demographicParityDifference"
+  | "equalizedOddsDifference"
+  | "predictiveParity";
+
+export interface TabularFairnessMetric extends FairnessMetric {
+  id: TabularFairnessMetricId;
+  sources: Citation[];
+}
+
+export interface FairnessGroupStats {
+  group: string;
+  count: number;
+  /** P(ŷ=1 | group) */
+  positiveRate: number;
+  /** Labelled records only; omitted when the group has no positive labels */
+  truePositiveRate?: number;
+  /** Labelled records only; omitted when the group has no negative labels */
+  falsePositiveRate?: number;
+  /** Labelled records only; omitted when the group has no positive predictions */
+  precision?: number;
+  /** Below the minimum group size — listed, but not compared */
+  excluded: boolean;
+}
+
+export interface FairnessAttributeResult {
+  /** Attribute name, or names joined with " × " for intersectional subgroups */
+  attribute: string;
+  attributes: string[];
+  groups: FairnessGroupStats[];
+  metrics: TabularFairnessMetric[];
+  /** Set when fewer than two groups reach the minimum size; no metrics are computed */
+  skippedReason?: string;
+  passed: boolean;
+}
+
+export interface TabularFairnessOptions {
+  records: FairnessRecord[];
+  protectedAttributes: string[];
+  /** Also audit combinations of two or more attributes (default: true) */
+  intersectional?: boolean;
+  /** Groups with fewer records are excluded from the comparison (default: 30) */
+  minGroupSize?: number;
+}
+
+export interface TabularFairnessResult {
+  timestamp: string;
+  samples: number;
+  labelled: boolean;
+  protectedAttributes: string[];
+  minGroupSize: number;
+  byAttribute: FairnessAttributeResult[];
+  intersectional: FairnessAttributeResult[];
+  /** All evaluated attributes and subgroups pass; false when nothing could be evaluated */
+  overallPassed: boolean;
+  sources: Citation[];
+}
+
+export const DEFAULT_MIN_GROUP_SIZE = 30;
+
+/** Separator for intersectional attribute names and group keys */
+const INTERSECTION = " × ";
+
+function rate(numerator: number, denominator: number): number | undefined {
+  return denominator > 0 ? Number((numerator / denominator).toFixed(4)) : undefined;
+}
+
+function groupStats(
+  group: string,
+  records: FairnessRecord[],
+  minGroupSize: number
+): FairnessGroupStats {
+  const labelled = records.filter((r) => r.label !== undefined);
+  const positives = labelled.filter((r) => r.label);
+  const negatives = labelled.filter((r) => !r.label);
+  const predictedPositive = labelled.filter((r) => r.prediction);
+
+  const stats: FairnessGroupStats = {
+    group,
+    count: records.length,
+    positiveRate: rate(records.filter((r) => r.prediction).length, records.length) ?? 0,
+    excluded: records.length < minGroupSize,
+  };
+  const tpr = rate(positives.filter((r) => r.prediction).length, positives.length);
+  const fpr = rate(negatives.filter((r) => r.prediction).length, negatives.length);
+  const precision = rate(predictedPositive.filter((r) => r.label).length, predictedPositive.length);
+  if (tpr !== undefined) stats.truePositiveRate = tpr;
+  if (fpr !== undefined) stats.falsePositiveRate = fpr;
+  if (precision !== undefined) stats.precision = precision;
+  return stats;
+}
+
+/** Largest difference between the defined rates; undefined below two rates */
+function spread(rates: Array<number | undefined>): number | undefined {
+  const defined = rates.filter((r): r is number => r !== undefined);
+  return defined.length >= 2 ? Math.max(...defined) - Math.min(...defined) : undefined;
+}
+
+/**
+ * Equalized odds over the group stats. A group without positive (negative)
+ * labels has no TPR (FPR), so it is left out of that comparison instead of
+ * counting as a rate of 0.
+ */
+function equalizedOddsFromGroups(groups: FairnessGroupStats[]): FairnessMetric {
+  const name = "Equalized Odds Difference";
+  const threshold = 0.1;
+  const tprDiff = spread(groups.map((g) => g.truePositiveRate));
+  const fprDiff = spread(groups.map((g) => g.falsePositiveRate));
+  const notComparable = groups
+    .filter((g) => g.truePositiveRate === undefined || g.falsePositiveRate === undefined)
+    .map((g) => g.group);
+  const note =
+    notComparable.length > 0
+      ? ` Without positive or negative labels, partly not compared: ${notComparable.join(", ")}.`
+      : "";
+
+  if (tprDiff === undefined && fprDiff === undefined) {
+    return {
+      name,
+      value: 0,
+      threshold,
+      passed: true,
+      description: `Not comparable: fewer than two groups have a TPR or FPR.${note}`,
+    };
+  }
+  const maxDiff = Math.max(tprDiff ?? 0, fprDiff ?? 0);
+  return {
+    name,
+    value: Number(maxDiff.toFixed(4)),
+    threshold,
+    passed: maxDiff < threshold,
+    description: `Max TPR/FPR difference: ${(maxDiff * 100).toFixed(1)}%. Should be <10%.${note}`,
+  };
+}
+
+/**
+ * Predictive parity over the group stats. A group without positive
+ * predictions has no precision, so it is left out of the comparison instead
+ * of counting as a precision of 0.
+ */
+function predictiveParityFromGroups(groups: FairnessGroupStats[]): FairnessMetric {
+  const name = "Predictive Parity";
+  const threshold = 0.1;
+  const maxDiff = spread(groups.map((g) => g.precision));
+  const notComparable = groups.filter((g) => g.precision === undefined).map((g) => g.group);
+  const note =
+    notComparable.length > 0
+      ? ` Without positive predictions, not compared: ${notComparable.join(", ")}.`
+      : "";
+
+  if (maxDiff === undefined) {
+    return {
+      name,
+      value: 0,
+      threshold,
+      passed: true,
+      description: `Not comparable: fewer than two groups have a precision.${note}`,
+    };
+  }
+  return {
+    name,
+    value: Number(maxDiff.toFixed(4)),
+    threshold,
+    passed: maxDiff < threshold,
+    description: `Max precision difference: ${(maxDiff * 100).toFixed(1)}%. Should be <10%.${note}`,
+  };
+}
+
+function withSources(id: TabularFairnessMetricId, metric: FairnessMetric): TabularFairnessMetric {
+  return { id, ...metric, sources: METRIC_SOURCES[id] ?? [] };
+}
+
+function auditAttributes(
+  records: FairnessRecord[],
+  attributes: string[],
+  labelled: boolean,
+  minGroupSize: number
+): FairnessAttributeResult {
+  const grouped = new Map<string, FairnessRecord[]>();
+  for (const record of records) {
+    const key = attributes
+      .map((attribute) => record.attributes[attribute] ?? "")
+      .join(INTERSECTION);
+    const members = grouped.get(key) ?? [];
+    members.push(record);
+    grouped.set(key, members);
+  }
+
+  const groups = [...grouped]
+    .map(([group, members]) => groupStats(group, members, minGroupSize))
+    .sort((a, b) => b.count - a.count || a.group.localeCompare(b.group));
+  const result = { attribute: attributes.join(INTERSECTION), attributes, groups };
+
+  const compared = groups.filter((g) => !g.excluded);
+  if (compared.length < 2) {
+    return {
+      ...result,
+      metrics: [],
+      skippedReason: `Fewer than two groups with at least ${minGroupSize} records`,
+      passed: true,
+    };
+  }
+
+  const data: PredictionData[] = compared.flatMap((g) =>
+    (grouped.get(g.group) ?? []).map((r) => ({
+      prediction: r.prediction,
+      ...(r.label !== undefined ? { label: r.label } : {}),
+      protectedGroup: g.group,
+    }))
+  );
+  const metrics = [
+    withSources("disparateImpact", disparateImpact(data)),
+    withSources("demographicParityDifference", demographicParityDifference(data)),
+  ];
+  if (labelled) {
+    metrics.push(
+      withSources("equalizedOddsDifference", equalizedOddsFromGroups(compared)),
+      withSources("predictiveParity", predictiveParityFromGroups(compared))
+    );
+  }
+
+  return { ...result, metrics, passed: metrics.every((m) => m.passed) };
+}
+
+/** All combinations of two or more attributes, smallest first, in input order */
+function attributeCombinations(attributes: string[]): string[][] {
+  const combinations: string[][] = [];
+  for (let mask = 1; mask < 1 << attributes.length; mask++) {
+    const combination = attributes.filter((_, i) => mask & (1 << i));
+    if (combination.length >= 2) combinations.push(combination);
+  }
+  return combinations.sort((a, b) => a.length - b.length);
+}
+
+/**
+ * Audit model decisions for group disparities per protected attribute and
+ * per intersectional subgroup. Thresholds are the screening heuristics of
+ * the individual metrics (80% rule, 10% difference).
+ */
+export function runTabularFairnessAudit(options: TabularFairnessOptions): TabularFairnessResult {
+  const { records, protectedAttributes } = options;
+  const minGroupSize = options.minGroupSize ?? DEFAULT_MIN_GROUP_SIZE;
+  if (protectedAttributes.length === 0) {
+    throw new Error("At least one protected attribute is required");
+  }
+
+  const labelled = records.some((r) => r.label !== undefined);
+  const byAttribute = protectedAttributes.map((attribute) =>
+    auditAttributes(records, [attribute], labelled, minGroupSize)
+  );
+  const intersectional =
+    options.intersectional === false
+      ? []
+      : attributeCombinations(protectedAttributes).map((combination) =>
+          auditAttributes(records, combination, labelled, minGroupSize)
+        );
+
+  const evaluated = [...byAttribute, ...intersectional].filter((r) => r.metrics.length > 0);
+  return {
+    timestamp: new Date().toISOString(),
+    samples: records.length,
+    labelled,
+    protectedAttributes,
+    minGroupSize,
+    byAttribute,
+    intersectional,
+    overallPassed: evaluated.length > 0 && evaluated.every((r) => r.passed),
+    sources: AI_ACT_SOURCES,
+  };
+}
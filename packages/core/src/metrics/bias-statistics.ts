@@ -0,0 +1,137 @@
+/**
+ * Statistical helpers for bias results
+ * Seeded bootstrap confidence intervals and an exact binomial test, so that
+ * reported scores come with their uncertainty and are reproducible run to run
+ */
+
+import type { BinomialTestResult, BootstrapConfidenceInterval } from "../types";
+
+export const DEFAULT_BOOTSTRAP_SEED = 42;
+export const DEFAULT_BOOTSTRAP_ITERATIONS = 1000;
+
+export interface BootstrapOptions {
+  iterations?: number;
+  /** Confidence level, e.g. 0.95 */
+  level?: number;
+  seed?: number;
+}
+
+/**
+ * Deterministic PRNG (mulberry32) returning floats in [0, 1)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function percentile(sorted: number[], p: number): number {
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  const lowerValue = sorted[lower] as number;
+  const upperValue = sorted[upper] as number;
+  return lowerValue + (upperValue - lowerValue) * (index - lower);
+}
+
+/**
+ * Percentile bootstrap confidence interval for the mean of `values`
+ */
+export function bootstrapMeanCI(
+  values: number[],
+  options: BootstrapOptions = {}
+): BootstrapConfidenceInterval {
+  const iterations = options.iterations ?? DEFAULT_BOOTSTRAP_ITERATIONS;
+  const level = options.level ?? 0.95;
+  const seed = options.seed ?? DEFAULT_BOOTSTRAP_SEED;
+
+  if (values.length === 0) {
+    throw new Error("Cannot bootstrap an empty sample");
+  }
+  if (!Number.isInteger(iterations) || iterations < 1) {
+    throw new Error(`Bootstrap iterations must be a positive integer, got ${iterations}`);
+  }
+
+  const random = createSeededRandom(seed);
+  const means: number[] = new Array(iterations);
+  for (let i = 0; i < iterations; i++) {
+    let sum = 0;
+    for (let j = 0; j < values.length; j++) {
+      sum += values[Math.floor(random() * values.length)] as number;
+    }
+    means[i] = sum / values.length;
+  }
+  means.sort((a, b) => a - b);
+
+  const alpha = 1 - level;
+  return {
+    level,
+    lower: Number(percentile(means, alpha / 2).toFixed(6)),
+    upper: Number(percentile(means, 1 - alpha / 2).toFixed(6)),
+    iterations,
+    seed,
+  };
+}
+
+/**
+ * Two-sided exact binomial test of `successes` out of `trials` against
+ * `nullProportion`. The p-value sums all outcomes that are at most as likely
+ * as the observed one (the same definition as SciPy's binomtest).
+ */
+export function binomialTest(
+  successes: number,
+  trials: number,
+  nullProportion = 0.5,
+  alpha = 0.05
+): BinomialTestResult {
+  if (trials === 0) {
+    return {
+      test: "binomial-two-sided",
+      nullProportion,
+      successes,
+      trials,
+      pValue: 1,
+      alpha,
+      significant: false,
+    };
+  }
+
+  // log(k!) for k = 0..trials
+  const logFactorial = [0];
+  for (let k = 1; k <= trials; k++) {
+    logFactorial.push((logFactorial[k - 1] as number) + Math.log(k));
+  }
+  const logP = Math.log(nullProportion);
+  const logQ = Math.log(1 - nullProportion);
+  const logPmf = (k: number) =>
+    (logFactorial[trials] as number) -
+    (logFactorial[k] as number) -
+    (logFactorial[trials - k] as number) +
+    k * logP +
+    (trials - k) * logQ;
+
+  const observed = logPmf(successes);
+  // Relative tolerance for ties in floating point
+  const threshold = observed + Math.log1p(1e-7);
+  let pValue = 0;
+  for (let k = 0; k <= trials; k++) {
+    const value = logPmf(k);
+    if (value <= threshold) pValue += Math.exp(value);
+  }
+  pValue = Math.min(1, pValue);
+
+  return {
+    test: "binomial-two-sided",
+    nullProportion,
+    successes,
+    trials,
+    pValue: Number(pValue.toPrecision(6)),
+    alpha,
+    significant: pValue < alpha,
+  };
+}
@@ -6,12 +6,30 @@
 
 import { BrowserInference } from "../inference/browser-inference";
 import { OllamaClient } from "../inference/ollama-client";
+import { OpenAICompatibleClient } from "../inference/openai-compatible-client";
 import type {
   BiasCalculationMethod,
+  BiasEngine,
   BiasTestConfig,
   CrowsPairsBiasResult,
+  CrowsPairsCategoryResult,
   CrowsPairsEntry,
+  CrowsPairsPairResult,
 } from "../types";
+import { type BootstrapOptions, binomialTest, bootstrapMeanCI } from "./bias-statistics";
+
+/** Clients that can measure a sentence's log-probability */
+export type BiasInferenceClient = BrowserInference | OllamaClient | OpenAICompatibleClient;
+
+/** Clients with exact log-probabilities and a latency-based fallback */
+type HttpLogProbClient = OllamaClient | OpenAICompatibleClient;
+
+function isHttpClientFor(engine: string, client: BiasInferenceClient): client is HttpLogProbClient {
+  return (
+    (engine === "ollama" && client instanceof OllamaClient) ||
+    (engine === "openai-compatible" && client instanceof OpenAICompatibleClient)
+  );
+}
 
 /**
  * Interface for the raw entry format in the JSON dataset
@@ -26,44 +44,70 @@ interface RawCrowsPairsEntry {
   biasType?: string;
 }
 
+/** Progress of a CrowS-Pairs run; `processed` includes resumed and failed pairs */
+export interface CrowsPairsProgress {
+  processed: number;
+  failed: number;
+  total: number;
+}
+
+/**
+ * Execution options for long CrowS-Pairs runs
+ */
+export interface CrowsPairsRunOptions {
+  /** Pairs evaluated in parallel (default 1) */
+  concurrency?: number;
+  /** Additional attempts per pair after a failure (default 0) */
+  retries?: number;
+  /** Base delay for exponential backoff between attempts in ms (default 500) */
+  retryDelayMs?: number;
+  /** Results of an interrupted run; pairs with these ids are not evaluated again */
+  completedPairs?: CrowsPairsPairResult[];
+  /** Called after each newly evaluated pair, e.g. to append it to a checkpoint */
+  onPairComplete?: (pair: CrowsPairsPairResult) => void | Promise<void>;
+  onProgress?: (progress: CrowsPairsProgress) => void;
+}
+
 /**
  * Calculate CrowS-Pairs bias score using the specified inference client
  * Implements the methodology: mean(logprob_stereo - logprob_anti)
  *
  * @param config - Configuration including dataset, model, and engine
- * @param inferenceClient - Either BrowserInference or OllamaClient instance
+ * @param inferenceClient - BrowserInference, OllamaClient or OpenAICompatibleClient instance
+ * @param options - Concurrency, retry and resume options
  * @returns Promise<CrowsPairsBiasResult> with bias score and metadata
  */
 export async function calculateCrowsPairsBias(
   config: BiasTestConfig,
-  inferenceClient: BrowserInference | OllamaClient
+  inferenceClient: BiasInferenceClient,
+  options: CrowsPairsRunOptions = {}
 ): Promise<CrowsPairsBiasResult> {
   const { dataset, model, engine } = config;
+  const bootstrap: BootstrapOptions = { seed: config.seed, iterations: config.bootstrapIterations };
 
   if (dataset.length === 0) {
     throw new Error("Dataset cannot be empty");
   }
 
   const method = await determineCalculationMethod(engine, inferenceClient);
-  const { biasScores, stereotypicalCount, finalMethod } = await processDataset(
-    dataset,
-    engine,
-    inferenceClient,
-    method
-  );
+  const pairs = await processDataset(dataset, engine, inferenceClient, method, options);
 
-  if (biasScores.length === 0) {
+  if (pairs.length === 0) {
     throw new Error("No valid bias scores calculated from dataset");
   }
 
-  const overallBiasScore = biasScores.reduce((sum, score) => sum + score, 0) / biasScores.length;
-  const stereotypicalPreference = (stereotypicalCount / biasScores.length) * 100;
+  const overall = summarizePairs(pairs, bootstrap);
 
   return {
-    score: Number(overallBiasScore.toFixed(6)),
-    method: finalMethod,
-    pairsAnalyzed: biasScores.length,
-    stereotypicalPreference: Number(stereotypicalPreference.toFixed(2)),
+    score: overall.score,
+    // Method of the last pair, which reflects any fallback during the run
+    method: pairs[pairs.length - 1]?.method ?? method,
+    pairsAnalyzed: pairs.length,
+    stereotypicalPreference: overall.stereotypicalPreference,
+    confidenceInterval: overall.confidenceInterval,
+    significance: overall.significance,
+    byBiasType: aggregateCrowsPairsByBiasType(pairs, bootstrap),
+    pairs,
     metadata: {
       engine,
       model,
@@ -73,49 +117,123 @@ export async function calculateCrowsPairsBias(
 }
 
 async function determineCalculationMethod(
-  engine: string,
-  inferenceClient: BrowserInference | OllamaClient
+  engine: BiasEngine,
+  inferenceClient: BiasInferenceClient
 ): Promise<BiasCalculationMethod> {
   if (engine === "browser") return "logprobs_exact";
-  if (engine === "ollama" && inferenceClient instanceof OllamaClient) {
+  if (isHttpClientFor(engine, inferenceClient)) {
     const supportsLogProbs = await inferenceClient.detectLogProbSupport();
     return supportsLogProbs ? "logprobs_exact" : "logprobs_fallback_latency";
   }
   throw new Error(`Unsupported engine: ${engine}`);
 }
 
+/**
+ * Evaluate all pairs not covered by `completedPairs` with a fixed-size worker pool
+ * Results keep dataset order regardless of completion order
+ */
 async function processDataset(
   dataset: unknown[],
   engine: string,
-  inferenceClient: BrowserInference | OllamaClient,
-  initialMethod: BiasCalculationMethod
-) {
-  const biasScores: number[] = [];
-  let stereotypicalCount = 0;
-  let finalMethod = initialMethod;
-
-  for (const entry of dataset) {
-    try {
-      const pair = extractSentences(entry as RawCrowsPairsEntry);
-      if (!pair) continue;
+  inferenceClient: BiasInferenceClient,
+  initialMethod: BiasCalculationMethod,
+  options: CrowsPairsRunOptions
+): Promise<CrowsPairsPairResult[]> {
+  const completed = new Map((options.completedPairs ?? []).map((pair) => [pair.id, pair]));
+  const results: Array<CrowsPairsPairResult | undefined> = new Array(dataset.length);
+  const pending: number[] = [];
+
+  dataset.forEach((entry, index) => {
+    const previous = completed.get((entry as RawCrowsPairsEntry).id);
+    if (previous) {
+      results[index] = previous;
+    } else {
+      pending.push(index);
+    }
+  });
 
-      const { logprobStereo, logprobAnti, actualMethod } = await getLogProbsForPair(
-        pair,
+  const progress: CrowsPairsProgress = {
+    processed: dataset.length - pending.length,
+    failed: 0,
+    total: dataset.length,
+  };
+  options.onProgress?.({ ...progress });
+
+  let cursor = 0;
+  const worker = async () => {
+    while (cursor < pending.length) {
+      const index = pending[cursor++] as number;
+      const pair = await evaluateEntry(
+        dataset[index] as RawCrowsPairsEntry,
         engine,
-        inferenceClient
+        inferenceClient,
+        initialMethod,
+        options
       );
+      if (pair) {
+        results[index] = pair;
+        await options.onPairComplete?.(pair);
+      } else {
+        progress.failed++;
+      }
+      progress.processed++;
+      options.onProgress?.({ ...progress });
+    }
+  };
 
-      if (actualMethod) finalMethod = actualMethod;
+  const workerCount = Math.max(1, Math.min(options.concurrency ?? 1, pending.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
 
-      const pairBias = logprobStereo - logprobAnti;
-      biasScores.push(pairBias);
-      if (pairBias > 0) stereotypicalCount++;
+  return results.filter((pair): pair is CrowsPairsPairResult => pair !== undefined);
+}
+
+async function evaluateEntry(
+  raw: RawCrowsPairsEntry,
+  engine: string,
+  inferenceClient: BiasInferenceClient,
+  initialMethod: BiasCalculationMethod,
+  options: CrowsPairsRunOptions
+): Promise<CrowsPairsPairResult | null> {
+  const pair = extractSentences(raw);
+  if (!pair) return null;
+
+  try {
+    const { logprobStereo, logprobAnti, actualMethod } = await withRetry(
+      () => getLogProbsForPair(pair, engine, inferenceClient),
+      options.retries ?? 0,
+      options.retryDelayMs ?? 500
+    );
+
+    return {
+      id: raw.id,
+      biasType: raw.bias_type || raw.biasType || "unknown",
+      logprobStereo,
+      logprobAnti,
+      score: logprobStereo - logprobAnti,
+      method: actualMethod ?? initialMethod,
+    };
+  } catch (error) {
+    console.warn("Failed to process entry:", error);
+    return null;
+  }
+}
+
+/**
+ * Run `operation`, retrying with exponential backoff (delay, 2×delay, 4×delay, …)
+ */
+async function withRetry<T>(
+  operation: () => Promise<T>,
+  retries: number,
+  baseDelayMs: number
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
     } catch (error) {
-      console.warn("Failed to process entry:", error);
+      if (attempt >= retries) throw error;
+      await new Promise((resolve) => setTimeout(resolve, baseDelayMs * 2 ** attempt));
     }
   }
-
-  return { biasScores, stereotypicalCount, finalMethod };
 }
 
 function extractSentences(entry: RawCrowsPairsEntry): { stereo: string; anti: string } | null {
@@ -125,10 +243,53 @@ function extractSentences(entry: RawCrowsPairsEntry): { stereo: string; anti: st
   return { stereo, anti };
 }
 
+/**
+ * Mean score, stereotype preference, bootstrap CI and binomial test for a set of pairs
+ * A pair counts as stereotypical when its score is strictly positive
+ */
+function summarizePairs(
+  pairs: CrowsPairsPairResult[],
+  bootstrap: BootstrapOptions
+): Omit<CrowsPairsCategoryResult, "biasType" | "pairsAnalyzed"> {
+  const scores = pairs.map((pair) => pair.score);
+  const stereotypicalCount = scores.filter((score) => score > 0).length;
+  const mean = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+
+  return {
+    score: Number(mean.toFixed(6)),
+    stereotypicalPreference: Number(((stereotypicalCount / scores.length) * 100).toFixed(2)),
+    confidenceInterval: bootstrapMeanCI(scores, bootstrap),
+    significance: binomialTest(stereotypicalCount, scores.length),
+  };
+}
+
+/**
+ * Aggregate per-pair results by bias type, sorted by descending pair count
+ */
+export function aggregateCrowsPairsByBiasType(
+  pairs: CrowsPairsPairResult[],
+  bootstrap: BootstrapOptions = {}
+): CrowsPairsCategoryResult[] {
+  const byBiasType = new Map<string, CrowsPairsPairResult[]>();
+  for (const pair of pairs) {
+    const existing = byBiasType.get(pair.biasType) || [];
+    existing.push(pair);
+    byBiasType.set(pair.biasType, existing);
+  }
+
+  return [...byBiasType.entries()]
+    .map(([biasType, group]) => ({
+      biasType,
+      pairsAnalyzed: group.length,
+      ...summarizePairs(group, bootstrap),
+    }))
+    .sort((a, b) => b.pairsAnalyzed - a.pairsAnalyzed || a.biasType.localeCompare(b.biasType));
+}
+
 async function getLogProbsForPair(
   pair: { stereo: string; anti: string },
   engine: string,
-  inferenceClient: BrowserInference | OllamaClient
+  inferenceClient: BiasInferenceClient
 ) {
   if (engine === "browser" && inferenceClient instanceof BrowserInference) {
     const logprobStereo = await inferenceClient.getLogProb(pair.stereo);
@@ -136,7 +297,7 @@ async function getLogProbsForPair(
     return { logprobStereo, logprobAnti };
   }
 
-  if (engine === "ollama" && inferenceClient instanceof OllamaClient) {
+  if (isHttpClientFor(engine, inferenceClient)) {
     const stereoResult = await inferenceClient.getLogProbWithFallback(pair.stereo);
     const antiResult = await inferenceClient.getLogProbWithFallback(pair.anti);
     return {
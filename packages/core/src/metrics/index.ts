@@ -19,4 +19,17 @@ export {
   calculateLogProbBias,
   calculateLatencyBias,
   validateCrowsPairsDataset,
+  aggregateCrowsPairsByBiasType,
+  type BiasInferenceClient,
+  type CrowsPairsProgress,
+  type CrowsPairsRunOptions,
 } from "./crows-pairs-bias";
+
+export {
+  bootstrapMeanCI,
+  binomialTest,
+  createSeededRandom,
+  DEFAULT_BOOTSTRAP_ITERATIONS,
+  DEFAULT_BOOTSTRAP_SEED,
+  type BootstrapOptions,
+} from "./bias-statistics";
@@ -20,6 +20,24 @@ const CYCLONEDX_TYPE_MAP: Record<
   service: { kind: "inference-provider", confidence: "medium" },
 };
 
+const BOM_COMPONENT_KINDS = new Set<string>([
+  "framework",
+  "runtime",
+  "inference-provider",
+  "ai-framework",
+  "model",
+  "vector-store",
+  "embedding",
+  "dataset",
+  "tool",
+]);
+
+/** Tier 0: Kind recorded by an EuConform CycloneDX export. */
+function lookupExportedKind(component: CycloneDxComponent): BomComponentKind | null {
+  const kind = component.properties?.find((property) => property.name === "euconform:kind")?.value;
+  return kind && BOM_COMPONENT_KINDS.has(kind) ? (kind as BomComponentKind) : null;
+}
+
 /** Tiers 7-8: Try to find a kind via purl namespace/name and name-only lookups. */
 function lookupViaPurl(
   parsed: ReturnType<typeof parsePurl>
@@ -43,7 +61,8 @@ function lookupViaPurl(
 /**
  * Map a CycloneDX component to an EuConform aibom component kind.
  *
- * 8-tier detection (descending priority):
+ * 8-tier detection (descending priority), preceded by the `euconform:kind`
+ * property written by exportCycloneDx():
  * 1. ML-BOM extensions (modelCard, data)
  * 2. CycloneDX component type mapping
  * 3. Exact package name in registry
@@ -66,6 +85,12 @@ export function mapComponent(component: CycloneDxComponent): ComponentMapping |
   const parsed = component.purl ? parsePurl(component.purl) : null;
   const purlVersion = parsed?.version;
 
+  // Tier 0: Round-tripped EuConform export
+  const exportedKind = lookupExportedKind(component);
+  if (exportedKind) {
+    return { kind: exportedKind, source: "sbom-import", confidence: "high", purlVersion };
+  }
+
   // Tier 1: ML-BOM extensions
   if (component.modelCard != null) {
     return { kind: "model", source: "sbom-import", confidence: "high", purlVersion };
@@ -0,0 +1,71 @@
+import type { BomComponent } from "../evidence/types";
+import { formatPurl } from "./purl";
+
+/**
+ * Registry packages behind the canonical component names produced by the
+ * scanner. Names published to both registries only get a purl when the
+ * component was found in package.json, because other sources do not tell
+ * the ecosystems apart.
+ */
+const PACKAGE_COORDINATES: Record<string, { npm?: string; pypi?: string }> = {
+  OpenAI: { npm: "openai", pypi: "openai" },
+  "OpenAI SDK": { npm: "openai", pypi: "openai" },
+  Anthropic: { npm: "@anthropic-ai/sdk", pypi: "anthropic" },
+  "Google AI": { npm: "@google/generative-ai", pypi: "google-generativeai" },
+  Ollama: { npm: "ollama", pypi: "ollama" },
+  LangChain: { npm: "langchain", pypi: "langchain" },
+  LlamaIndex: { npm: "llamaindex", pypi: "llama-index" },
+  ChromaDB: { npm: "chromadb", pypi: "chromadb" },
+  Qdrant: { npm: "@qdrant/js-client-rest", pypi: "qdrant-client" },
+  Pinecone: { npm: "@pinecone-database/pinecone", pypi: "pinecone" },
+  Weaviate: { npm: "weaviate-client", pypi: "weaviate-client" },
+  pgvector: { npm: "pgvector", pypi: "pgvector" },
+  "Next.js": { npm: "next" },
+  React: { npm: "react" },
+  Express: { npm: "express" },
+  Fastify: { npm: "fastify" },
+  NestJS: { npm: "@nestjs/core" },
+  FastAPI: { pypi: "fastapi" },
+  Flask: { pypi: "flask" },
+  Django: { pypi: "django" },
+  PyTorch: { pypi: "torch" },
+  TensorFlow: { pypi: "tensorflow" },
+  vLLM: { pypi: "vllm" },
+  "Hugging Face Transformers": { pypi: "transformers" },
+  "Sentence Transformers": { pypi: "sentence-transformers" },
+};
+
+/** Hugging Face Hub model ids look like "org/name" */
+const HUGGING_FACE_MODEL_ID = /^[A-Za-z0-9][\w.-]*\/[\w.-]+$/;
+
+function splitNpmName(name: string): { namespace?: string; name: string } {
+  if (!name.startsWith("@")) return { name };
+  const slashIdx = name.indexOf("/");
+  return { namespace: name.slice(0, slashIdx), name: name.slice(slashIdx + 1) };
+}
+
+function resolveRegistryPurl(component: BomComponent): string | undefined {
+  const coordinates = PACKAGE_COORDINATES[component.name];
+  if (!coordinates) return undefined;
+
+  if (coordinates.npm && (!coordinates.pypi || component.source === "package.json")) {
+    return formatPurl({
+      type: "npm",
+      ...splitNpmName(coordinates.npm),
+      version: component.version,
+    });
+  }
+  if (coordinates.pypi && !coordinates.npm) {
+    return formatPurl({ type: "pypi", name: coordinates.pypi, version: component.version });
+  }
+  return undefined;
+}
+
+/** Returns a purl only where the package coordinates are unambiguous. */
+export function resolveComponentPurl(component: BomComponent): string | undefined {
+  if (component.kind === "model" && HUGGING_FACE_MODEL_ID.test(component.name)) {
+    const [namespace, name] = component.name.split("/") as [string, string];
+    return formatPurl({ type: "huggingface", namespace, name, version: component.version });
+  }
+  return resolveRegistryPurl(component);
+}
@@ -0,0 +1,92 @@
+import { randomUUID } from "node:crypto";
+import type { AiBillOfMaterials, BomComponent, BomComponentKind } from "../evidence/types";
+import { resolveComponentPurl } from "./component-purl";
+import type { CycloneDxBom, CycloneDxComponent, CycloneDxProperty } from "./types";
+
+export const CYCLONEDX_FILE_NAME = "euconform.cdx.json";
+export const CYCLONEDX_EXPORT_SPEC_VERSION = "1.6";
+
+export interface CycloneDxExportOptions {
+  /** Fixed serial number (urn:uuid:...); a random one is generated otherwise */
+  serialNumber?: string;
+  /** Version of the tool recorded in metadata.tools */
+  toolVersion?: string;
+}
+
+const PROJECT_BOM_REF = "project";
+
+const KIND_TO_CYCLONEDX_TYPE: Record<BomComponentKind, string> = {
+  model: "machine-learning-model",
+  dataset: "data",
+  "inference-provider": "platform",
+  runtime: "platform",
+  framework: "framework",
+  "ai-framework": "framework",
+  "vector-store": "library",
+  embedding: "library",
+  tool: "library",
+};
+
+function toCycloneDxComponent(component: BomComponent): CycloneDxComponent {
+  const purl = resolveComponentPurl(component);
+  return {
+    type: KIND_TO_CYCLONEDX_TYPE[component.kind],
+    "bom-ref": component.id,
+    name: component.name,
+    ...(component.version ? { version: component.version } : {}),
+    ...(purl ? { purl } : {}),
+    ...(component.kind === "dataset" ? { data: [{ type: "dataset", name: component.name }] } : {}),
+    properties: [
+      { name: "euconform:kind", value: component.kind },
+      { name: "euconform:source", value: component.source },
+    ],
+  };
+}
+
+function buildCapabilityProperties(aibom: AiBillOfMaterials): CycloneDxProperty[] {
+  return Object.entries(aibom.complianceCapabilities).map(([capability, enabled]) => ({
+    name: `euconform:capability:${capability}`,
+    value: String(enabled),
+  }));
+}
+
+/**
+ * Export an AI BOM as a CycloneDX 1.6 JSON document. Models and datasets
+ * become ML-BOM `machine-learning-model` and `data` components; the compliance
+ * capabilities are recorded as `euconform:capability:*` metadata properties.
+ */
+export function exportCycloneDx(
+  aibom: AiBillOfMaterials,
+  options: CycloneDxExportOptions = {}
+): CycloneDxBom {
+  const seen = new Set<string>();
+  const components: CycloneDxComponent[] = [];
+  for (const component of aibom.components) {
+    if (seen.has(component.id)) continue;
+    seen.add(component.id);
+    components.push(toCycloneDxComponent(component));
+  }
+
+  return {
+    bomFormat: "CycloneDX",
+    specVersion: CYCLONEDX_EXPORT_SPEC_VERSION,
+    serialNumber: options.serialNumber ?? `urn:uuid:${randomUUID()}`,
+    version: 1,
+    metadata: {
+      timestamp: aibom.generatedAt,
+      tools: {
+        components: [
+          {
+            type: "application",
+            name: "euconform",
+            ...(options.toolVersion ? { version: options.toolVersion } : {}),
+          },
+        ],
+      },
+      component: { type: "application", "bom-ref": PROJECT_BOM_REF, name: aibom.project.name },
+      properties: buildCapabilityProperties(aibom),
+    },
+    components,
+    dependencies: [{ ref: PROJECT_BOM_REF, dependsOn: [...seen] }],
+  };
+}
@@ -0,0 +1,161 @@
+import type { AiBillOfMaterials, AibomMetadata, BomComponent } from "../evidence/types";
+import type { ValidationResult } from "../validation/schema-validator";
+import { validate } from "../validation/schema-validator";
+import { mapComponent } from "./component-mapper";
+import type { CycloneDxComponent } from "./types";
+
+export interface ImportWarning {
+  component: string;
+  message: string;
+}
+
+export interface ImportSourceInfo {
+  bomFormat: "CycloneDX" | "SPDX";
+  specVersion: string;
+  projectNameSource:
+    | "metadata.component.name"
+    | "rootElement.name"
+    | "document.name"
+    | "sourcePath"
+    | "fallback";
+  importTool?: string;
+  originalTimestamp?: string;
+}
+
+export interface ImportSummary {
+  totalComponents: number;
+  filteredByScope: number;
+  aiRelevant: number;
+  skipped: number;
+  duplicatesRemoved: number;
+  byKind: Record<string, number>;
+  warnings: ImportWarning[];
+  source: ImportSourceInfo;
+}
+
+export interface ImportOptions {
+  scope?: "all" | "production";
+  sourcePath?: string;
+}
+
+export interface SbomImportResult {
+  aibom: AiBillOfMaterials;
+  summary: ImportSummary;
+  validation: ValidationResult;
+}
+
+/** Format-neutral view of a parsed SBOM, with packages normalized to CycloneDX components. */
+export interface NormalizedSbom {
+  importSource: AibomMetadata["importSource"];
+  components: CycloneDxComponent[];
+  projectName: string;
+  source: ImportSourceInfo;
+}
+
+function mapInScope(
+  components: CycloneDxComponent[],
+  warnings: ImportWarning[]
+): { mapped: BomComponent[]; skipped: number } {
+  const mapped: BomComponent[] = [];
+  for (const comp of components) {
+    const mapping = mapComponent(comp);
+    if (!mapping) {
+      if (!comp.name || comp.name.trim() === "") {
+        warnings.push({ component: "(empty)", message: "Skipped: missing or empty name" });
+      }
+      continue;
+    }
+
+    const version = comp.version || mapping.purlVersion;
+    if (!version) {
+      warnings.push({ component: comp.name, message: "Missing version field" });
+    }
+
+    mapped.push({
+      id: version ? `${mapping.kind}:${comp.name}:${version}` : `${mapping.kind}:${comp.name}`,
+      kind: mapping.kind,
+      name: comp.name,
+      ...(version ? { version } : {}),
+      source: "sbom-import",
+    });
+  }
+  return { mapped, skipped: components.length - mapped.length };
+}
+
+function dedupe(components: BomComponent[]): {
+  deduped: BomComponent[];
+  duplicatesRemoved: number;
+} {
+  const seen = new Set<string>();
+  const deduped: BomComponent[] = [];
+  for (const comp of components) {
+    if (seen.has(comp.id)) continue;
+    seen.add(comp.id);
+    deduped.push(comp);
+  }
+  return { deduped, duplicatesRemoved: components.length - deduped.length };
+}
+
+function buildMetadata(
+  importSource: AibomMetadata["importSource"],
+  source: ImportSourceInfo
+): AibomMetadata {
+  const meta: AibomMetadata = { importSource };
+  if (source.importTool) meta.importTool = source.importTool;
+  if (source.originalTimestamp) meta.originalTimestamp = source.originalTimestamp;
+  return meta;
+}
+
+/**
+ * Shared import pipeline: scope filtering, kind mapping, deduplication and
+ * validation of the resulting AI BOM.
+ */
+export function buildImportResult(sbom: NormalizedSbom, options?: ImportOptions): SbomImportResult {
+  const scope = options?.scope ?? "all";
+  const warnings: ImportWarning[] = [];
+  const totalComponents = sbom.components.length;
+
+  const inScope =
+    scope === "production"
+      ? sbom.components.filter((c) => c.scope !== "optional" && c.scope !== "excluded")
+      : sbom.components;
+
+  const { mapped, skipped } = mapInScope(inScope, warnings);
+  const { deduped, duplicatesRemoved } = dedupe(mapped);
+
+  const byKind: Record<string, number> = {};
+  for (const comp of deduped) {
+    byKind[comp.kind] = (byKind[comp.kind] ?? 0) + 1;
+  }
+
+  const aibom: AiBillOfMaterials = {
+    schemaVersion: "euconform.aibom.v1.1",
+    generatedAt: new Date().toISOString(),
+    project: { name: sbom.projectName, rootPath: "." },
+    components: deduped,
+    complianceCapabilities: {
+      biasEvaluation: false,
+      jsonExport: false,
+      pdfExport: false,
+      loggingInfrastructure: false,
+      humanReviewFlow: false,
+      incidentHandling: false,
+    },
+    metadata: buildMetadata(sbom.importSource, sbom.source),
+  };
+
+  return {
+    aibom,
+    summary: {
+      totalComponents,
+      filteredByScope: totalComponents - inScope.length,
+      aiRelevant: deduped.length,
+      skipped,
+      duplicatesRemoved,
+      byKind,
+      warnings,
+      source: sbom.source,
+    },
+    validation: validate(aibom),
+  };
+}
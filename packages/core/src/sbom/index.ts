@@ -6,7 +6,23 @@ export {
   type ImportOptions,
   type ImportSourceInfo,
 } from "./cyclonedx-import";
+export { importSpdx, type SpdxImportResult } from "./spdx-import";
+export {
+  exportSpdx,
+  SPDX_EXPORT_SPEC_VERSION,
+  SPDX_FILE_NAME,
+  type SpdxExportOptions,
+} from "./spdx-export";
+export { detectSbomFormat, importSbom, type SbomFormat } from "./sbom-format";
+export type { SbomImportResult } from "./import-result";
+export {
+  exportCycloneDx,
+  CYCLONEDX_EXPORT_SPEC_VERSION,
+  CYCLONEDX_FILE_NAME,
+  type CycloneDxExportOptions,
+} from "./cyclonedx-export";
 export { mapComponent, type ComponentMapping } from "./component-mapper";
 export { lookupKnownPackage, KNOWN_AI_PACKAGES, KNOWN_AI_SCOPES } from "./known-packages";
-export { parsePurl, type ParsedPurl } from "./purl";
-export type { CycloneDxBom, CycloneDxComponent } from "./types";
+export { formatPurl, parsePurl, type ParsedPurl } from "./purl";
+export type { CycloneDxBom, CycloneDxComponent, CycloneDxProperty } from "./types";
+export type { SpdxDocument, SpdxElement, SpdxPackage } from "./spdx-types";
@@ -37,7 +37,8 @@ export function parsePurl(purl: string): ParsedPurl | null {
   // Extract version
   let version: string | undefined;
   const atIdx = remainder.lastIndexOf("@");
-  if (atIdx !== -1) {
+  // A leading "@" belongs to an npm scope, not to the version
+  if (atIdx > 0) {
     version = remainder.slice(atIdx + 1);
     remainder = remainder.slice(0, atIdx);
   }
@@ -64,3 +65,14 @@ export function parsePurl(purl: string): ParsedPurl | null {
     version: version || undefined,
   };
 }
+
+/**
+ * Format purl components into a Package URL string. Each path segment is
+ * percent-encoded, so an npm scope is emitted as %40scope.
+ */
+export function formatPurl(purl: Omit<ParsedPurl, "scheme">): string {
+  const segments = [...(purl.namespace ? purl.namespace.split("/") : []), purl.name];
+  const path = segments.map((segment) => encodeURIComponent(segment)).join("/");
+  const version = purl.version ? `@${encodeURIComponent(purl.version)}` : "";
+  return `pkg:${purl.type}/${path}${version}`;
+}
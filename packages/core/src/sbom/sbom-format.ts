@@ -0,0 +1,32 @@
+import { importCycloneDx } from "./cyclonedx-import";
+import type { ImportOptions, SbomImportResult } from "./import-result";
+import { importSpdx } from "./spdx-import";
+
+export type SbomFormat = "cyclonedx" | "spdx";
+
+/** Detect CycloneDX JSON or SPDX 3 JSON-LD from the document envelope. */
+export function detectSbomFormat(sbom: unknown): SbomFormat | null {
+  if (typeof sbom !== "object" || sbom === null) return null;
+  const record = sbom as Record<string, unknown>;
+
+  if (record.bomFormat === "CycloneDX") return "cyclonedx";
+  if ("@graph" in record && JSON.stringify(record["@context"] ?? "").includes("spdx.org/rdf/3")) {
+    return "spdx";
+  }
+  return null;
+}
+
+/** Import an SBOM in any supported format, detecting the format first. */
+export function importSbom(sbom: unknown, options?: ImportOptions): SbomImportResult {
+  const format = detectSbomFormat(sbom);
+  if (format === "cyclonedx") return importCycloneDx(sbom, options);
+  if (format === "spdx") return importSpdx(sbom, options);
+
+  const spdxVersion = (sbom as Record<string, unknown> | null)?.spdxVersion;
+  if (typeof spdxVersion === "string") {
+    throw new Error(
+      `${spdxVersion} documents are not supported. Convert the SBOM to SPDX 3.0 JSON-LD first.`
+    );
+  }
+  throw new Error("Unrecognized SBOM format: expected CycloneDX JSON or SPDX 3.0 JSON-LD");
+}
@@ -0,0 +1,183 @@
+import { randomUUID } from "node:crypto";
+import type { AiBillOfMaterials, BomComponent, BomComponentKind } from "../evidence/types";
+import { resolveComponentPurl } from "./component-purl";
+import type {
+  SpdxCdxPropertiesExtension,
+  SpdxCollection,
+  SpdxCreationInfo,
+  SpdxDocument,
+  SpdxElement,
+  SpdxPackage,
+  SpdxRelationship,
+} from "./spdx-types";
+import { SPDX_CONTEXT_URL } from "./spdx-types";
+
+export const SPDX_FILE_NAME = "euconform.spdx.json";
+export const SPDX_EXPORT_SPEC_VERSION = "3.0.1";
+
+export interface SpdxExportOptions {
+  /** Base IRI for element ids; a random https://euconform.eu/spdx/<uuid> is used otherwise */
+  namespace?: string;
+  /** Version of the tool recorded as the creating Tool */
+  toolVersion?: string;
+}
+
+const CREATION_INFO_ID = "_:creationinfo";
+
+const KIND_TO_PRIMARY_PURPOSE: Record<BomComponentKind, string> = {
+  model: "model",
+  dataset: "data",
+  "inference-provider": "platform",
+  runtime: "platform",
+  framework: "framework",
+  "ai-framework": "framework",
+  "vector-store": "library",
+  embedding: "library",
+  tool: "library",
+};
+
+function toExtension(properties: Array<[string, string]>): SpdxCdxPropertiesExtension[] {
+  return [
+    {
+      type: "extension_CdxPropertiesExtension",
+      extension_cdxProperty: properties.map(([name, value]) => ({
+        type: "extension_CdxPropertyEntry",
+        extension_cdxPropName: name,
+        extension_cdxPropValue: value,
+      })),
+    },
+  ];
+}
+
+/** Keep ids readable: component ids already use IRI-safe slugs apart from imported names. */
+function toFragment(id: string): string {
+  return id.replace(/[^A-Za-z0-9._~:@/-]/g, "-");
+}
+
+function packageType(kind: BomComponentKind): string {
+  if (kind === "model") return "ai_AIPackage";
+  if (kind === "dataset") return "dataset_DatasetPackage";
+  return "software_Package";
+}
+
+function toSpdxPackage(component: BomComponent, spdxId: string): SpdxPackage {
+  const purl = resolveComponentPurl(component);
+  return {
+    type: packageType(component.kind),
+    spdxId,
+    creationInfo: CREATION_INFO_ID,
+    name: component.name,
+    ...(component.version ? { software_packageVersion: component.version } : {}),
+    ...(purl ? { software_packageUrl: purl } : {}),
+    software_primaryPurpose: KIND_TO_PRIMARY_PURPOSE[component.kind],
+    ...(component.kind === "dataset" ? { dataset_datasetType: ["noAssertion"] } : {}),
+    extension: toExtension([
+      ["euconform:kind", component.kind],
+      ["euconform:source", component.source],
+    ]),
+  };
+}
+
+/**
+ * Export an AI BOM as an SPDX 3.0.1 JSON-LD document. Models become
+ * `ai_AIPackage` and datasets `dataset_DatasetPackage` elements; everything
+ * else is a `software_Package`. Kind and source are kept as CycloneDX property
+ * extensions so `importSpdx` maps components back to the same kinds; the
+ * compliance capabilities are recorded on the project package the same way.
+ */
+export function exportSpdx(
+  aibom: AiBillOfMaterials,
+  options: SpdxExportOptions = {}
+): SpdxDocument {
+  const namespace = options.namespace ?? `https://euconform.eu/spdx/${randomUUID()}`;
+  const toolId = `${namespace}#tool-euconform`;
+  const agentId = `${namespace}#agent-euconform`;
+  const projectId = `${namespace}#project`;
+  const sbomId = `${namespace}#sbom`;
+
+  const packages: SpdxPackage[] = [];
+  const seen = new Set<string>();
+  for (const component of aibom.components) {
+    const spdxId = `${namespace}#${toFragment(component.id)}`;
+    if (seen.has(spdxId)) continue;
+    seen.add(spdxId);
+    packages.push(toSpdxPackage(component, spdxId));
+  }
+
+  const creationInfo: SpdxCreationInfo = {
+    type: "CreationInfo",
+    "@id": CREATION_INFO_ID,
+    specVersion: SPDX_EXPORT_SPEC_VERSION,
+    created: aibom.generatedAt,
+    createdBy: [agentId],
+    createdUsing: [toolId],
+  };
+
+  const tool: SpdxElement = {
+    type: "Tool",
+    spdxId: toolId,
+    creationInfo: CREATION_INFO_ID,
+    name: options.toolVersion ? `euconform ${options.toolVersion}` : "euconform",
+  };
+
+  const agent: SpdxElement = {
+    type: "SoftwareAgent",
+    spdxId: agentId,
+    creationInfo: CREATION_INFO_ID,
+    name: "euconform",
+  };
+
+  const project: SpdxPackage = {
+    type: "software_Package",
+    spdxId: projectId,
+    creationInfo: CREATION_INFO_ID,
+    name: aibom.project.name,
+    software_primaryPurpose: "application",
+    extension: toExtension(
+      Object.entries(aibom.complianceCapabilities).map(([capability, enabled]) => [
+        `euconform:capability:${capability}`,
+        String(enabled),
+      ])
+    ),
+  };
+
+  const relationships: SpdxRelationship[] =
+    packages.length > 0
+      ? [
+          {
+            type: "Relationship",
+            spdxId: `${namespace}#relationship-project-depends-on`,
+            creationInfo: CREATION_INFO_ID,
+            from: projectId,
+            relationshipType: "dependsOn",
+            to: packages.map((pkg) => pkg.spdxId),
+          },
+        ]
+      : [];
+
+  const content = [project, ...packages, ...relationships].map((element) => element.spdxId);
+
+  const sbom: SpdxCollection = {
+    type: "software_Sbom",
+    spdxId: sbomId,
+    creationInfo: CREATION_INFO_ID,
+    rootElement: [projectId],
+    element: content,
+    software_sbomType: ["analyzed"],
+  };
+
+  const document: SpdxCollection = {
+    type: "SpdxDocument",
+    spdxId: `${namespace}#document`,
+    creationInfo: CREATION_INFO_ID,
+    name: aibom.project.name,
+    profileConformance: ["core", "software", "ai", "dataset", "extension"],
+    rootElement: [sbomId],
+    element: [toolId, agentId, sbomId, ...content],
+  };
+
+  return {
+    "@context": SPDX_CONTEXT_URL,
+    "@graph": [creationInfo, tool, agent, document, sbom, project, ...packages, ...relationships],
+  };
+}
@@ -0,0 +1,220 @@
+import { basename, extname } from "node:path";
+import {
+  type ImportOptions,
+  type ImportSourceInfo,
+  type SbomImportResult,
+  buildImportResult,
+} from "./import-result";
+import type {
+  SpdxCollection,
+  SpdxCreationInfo,
+  SpdxDocument,
+  SpdxElement,
+  SpdxGraphNode,
+  SpdxPackage,
+  SpdxRelationship,
+} from "./spdx-types";
+import { SUPPORTED_SPDX_VERSIONS } from "./spdx-types";
+import type { CycloneDxComponent, CycloneDxProperty } from "./types";
+
+export type SpdxImportResult = SbomImportResult;
+
+const PACKAGE_TYPES = new Set(["software_Package", "ai_AIPackage", "dataset_DatasetPackage"]);
+
+/** Element types that pin the CycloneDX type regardless of the declared purpose */
+const PACKAGE_TYPE_MAP: Record<string, string> = {
+  ai_AIPackage: "machine-learning-model",
+  dataset_DatasetPackage: "data",
+};
+
+const PRIMARY_PURPOSE_MAP: Record<string, string> = {
+  model: "machine-learning-model",
+  data: "data",
+  platform: "platform",
+  framework: "framework",
+};
+
+/** Lifecycle scopes that never reach production */
+const NON_PRODUCTION_SCOPES = new Set(["design", "development", "build", "test"]);
+
+interface SpdxGraph {
+  creationInfo: SpdxCreationInfo;
+  elements: Map<string, SpdxElement>;
+}
+
+function isCreationInfo(node: SpdxGraphNode): node is SpdxCreationInfo {
+  return node.type === "CreationInfo";
+}
+
+function hasSpdxContext(context: unknown): boolean {
+  const entries = Array.isArray(context) ? context : [context];
+  return entries.some(
+    (entry) => typeof entry === "string" && entry.startsWith("https://spdx.org/rdf/3.")
+  );
+}
+
+function findCreationInfo(nodes: SpdxGraphNode[]): SpdxCreationInfo | undefined {
+  for (const node of nodes) {
+    if (isCreationInfo(node)) return node;
+    if (typeof node.creationInfo === "object" && node.creationInfo !== null) {
+      return node.creationInfo;
+    }
+  }
+  return undefined;
+}
+
+function parseDocument(sbom: unknown): SpdxGraph {
+  if (typeof sbom !== "object" || sbom === null) {
+    throw new Error("Input must be a JSON object");
+  }
+
+  const record = sbom as Partial<SpdxDocument>;
+  if (!hasSpdxContext(record["@context"]) || !Array.isArray(record["@graph"])) {
+    throw new Error("Invalid SPDX document: expected SPDX 3 JSON-LD with @context and @graph");
+  }
+
+  const creationInfo = findCreationInfo(record["@graph"]);
+  const specVersion = String(creationInfo?.specVersion ?? "");
+  if (
+    !creationInfo ||
+    !SUPPORTED_SPDX_VERSIONS.includes(specVersion as (typeof SUPPORTED_SPDX_VERSIONS)[number])
+  ) {
+    throw new Error(
+      `Unsupported SPDX specVersion "${specVersion}". Supported: ${SUPPORTED_SPDX_VERSIONS.join(", ")}`
+    );
+  }
+
+  const elements = new Map<string, SpdxElement>();
+  for (const node of record["@graph"]) {
+    if (!isCreationInfo(node) && typeof node.spdxId === "string") {
+      elements.set(node.spdxId, node);
+    }
+  }
+
+  return { creationInfo, elements };
+}
+
+function elementsOfType<T extends SpdxElement>(graph: SpdxGraph, types: string[]): T[] {
+  return [...graph.elements.values()].filter((element) => types.includes(element.type)) as T[];
+}
+
+/** The described project: the root elements of every software_Sbom in the document. */
+function findRootPackageIds(graph: SpdxGraph): Set<string> {
+  const ids = new Set<string>();
+  for (const sbom of elementsOfType<SpdxCollection>(graph, ["software_Sbom"])) {
+    for (const id of sbom.rootElement ?? []) ids.add(id);
+  }
+  return ids;
+}
+
+function findNonProductionIds(graph: SpdxGraph): Set<string> {
+  const ids = new Set<string>();
+  for (const rel of elementsOfType<SpdxRelationship>(graph, ["LifecycleScopedRelationship"])) {
+    if (!rel.scope || !NON_PRODUCTION_SCOPES.has(rel.scope)) continue;
+    for (const id of rel.to ?? []) ids.add(id);
+  }
+  return ids;
+}
+
+function extractProperties(element: SpdxElement): CycloneDxProperty[] {
+  return (element.extension ?? []).flatMap((extension) =>
+    (extension.extension_cdxProperty ?? []).map((entry) => ({
+      name: entry.extension_cdxPropName,
+      value: entry.extension_cdxPropValue ?? "",
+    }))
+  );
+}
+
+function toComponent(pkg: SpdxPackage, nonProduction: Set<string>): CycloneDxComponent {
+  const purpose = pkg.software_primaryPurpose;
+  const properties = extractProperties(pkg);
+  return {
+    type:
+      PACKAGE_TYPE_MAP[pkg.type] ??
+      (purpose ? PRIMARY_PURPOSE_MAP[purpose] : undefined) ??
+      "library",
+    name: pkg.name ?? "",
+    ...(pkg.software_packageVersion ? { version: pkg.software_packageVersion } : {}),
+    ...(pkg.software_packageUrl ? { purl: pkg.software_packageUrl } : {}),
+    ...(nonProduction.has(pkg.spdxId) ? { scope: "optional" as const } : {}),
+    ...(properties.length > 0 ? { properties } : {}),
+  };
+}
+
+function resolveProjectName(
+  graph: SpdxGraph,
+  rootIds: Set<string>,
+  sourcePath?: string
+): { projectName: string; projectNameSource: ImportSourceInfo["projectNameSource"] } {
+  for (const id of rootIds) {
+    const name = graph.elements.get(id)?.name;
+    if (name) return { projectName: name, projectNameSource: "rootElement.name" };
+  }
+
+  const documentName = elementsOfType(graph, ["SpdxDocument"])[0]?.name;
+  if (documentName) {
+    return { projectName: documentName, projectNameSource: "document.name" };
+  }
+
+  if (sourcePath) {
+    const name = basename(sourcePath, extname(sourcePath));
+    return { projectName: name, projectNameSource: "sourcePath" };
+  }
+
+  return { projectName: "sbom-import", projectNameSource: "fallback" };
+}
+
+function extractToolString(graph: SpdxGraph): string | undefined {
+  for (const id of graph.creationInfo.createdUsing ?? []) {
+    const name = graph.elements.get(id)?.name;
+    if (name) return name;
+  }
+  return undefined;
+}
+
+function buildSourceInfo(
+  graph: SpdxGraph,
+  projectNameSource: ImportSourceInfo["projectNameSource"]
+): ImportSourceInfo {
+  const info: ImportSourceInfo = {
+    bomFormat: "SPDX",
+    specVersion: graph.creationInfo.specVersion,
+    projectNameSource,
+  };
+  const importTool = extractToolString(graph);
+  if (importTool) info.importTool = importTool;
+  if (graph.creationInfo.created) info.originalTimestamp = graph.creationInfo.created;
+  return info;
+}
+
+/**
+ * Import an SPDX 3.0 JSON-LD document. `ai_AIPackage` and
+ * `dataset_DatasetPackage` elements map to models and datasets; plain
+ * `software_Package` elements go through the same known-package detection as
+ * CycloneDX components. Packages targeted by a design, development, build or
+ * test LifecycleScopedRelationship are dropped in production scope.
+ */
+export function importSpdx(sbom: unknown, options?: ImportOptions): SpdxImportResult {
+  const graph = parseDocument(sbom);
+  const rootIds = findRootPackageIds(graph);
+  const nonProduction = findNonProductionIds(graph);
+  const { projectName, projectNameSource } = resolveProjectName(
+    graph,
+    rootIds,
+    options?.sourcePath
+  );
+
+  const components = elementsOfType<SpdxPackage>(graph, [...PACKAGE_TYPES])
+    .filter((pkg) => !rootIds.has(pkg.spdxId))
+    .map((pkg) => toComponent(pkg, nonProduction));
+
+  return buildImportResult(
+    {
+      importSource: "spdx",
+      components,
+      projectName,
+      source: buildSourceInfo(graph, projectNameSource),
+    },
+    options
+  );
+}
@@ -0,0 +1,68 @@
+/**
+ * Minimal SPDX 3.0 JSON-LD types covering the Core, Software, AI, Dataset and
+ * Extension profile fields used for AI component detection.
+ */
+
+export const SPDX_CONTEXT_URL = "https://spdx.org/rdf/3.0.1/spdx-context.jsonld";
+
+export const SUPPORTED_SPDX_VERSIONS = ["3.0.0", "3.0.1"] as const;
+
+export interface SpdxCreationInfo {
+  type: "CreationInfo";
+  "@id"?: string;
+  specVersion: string;
+  created: string;
+  createdBy: string[];
+  createdUsing?: string[];
+}
+
+export interface SpdxCdxPropertyEntry {
+  type: "extension_CdxPropertyEntry";
+  extension_cdxPropName: string;
+  extension_cdxPropValue?: string;
+}
+
+export interface SpdxCdxPropertiesExtension {
+  type: "extension_CdxPropertiesExtension";
+  extension_cdxProperty: SpdxCdxPropertyEntry[];
+}
+
+export interface SpdxElement {
+  type: string;
+  spdxId: string;
+  name?: string;
+  creationInfo: string | SpdxCreationInfo;
+  extension?: SpdxCdxPropertiesExtension[];
+}
+
+/** software_Package, ai_AIPackage or dataset_DatasetPackage */
+export interface SpdxPackage extends SpdxElement {
+  software_packageVersion?: string;
+  software_packageUrl?: string;
+  software_primaryPurpose?: string;
+  /** Required on dataset_DatasetPackage */
+  dataset_datasetType?: string[];
+}
+
+export interface SpdxRelationship extends SpdxElement {
+  from: string;
+  relationshipType: string;
+  to: string[];
+  /** Set on LifecycleScopedRelationship */
+  scope?: string;
+}
+
+/** SpdxDocument or software_Sbom */
+export interface SpdxCollection extends SpdxElement {
+  rootElement?: string[];
+  element?: string[];
+  profileConformance?: string[];
+  software_sbomType?: string[];
+}
+
+export type SpdxGraphNode = SpdxCreationInfo | SpdxElement;
+
+export interface SpdxDocument {
+  "@context": string | unknown[];
+  "@graph": SpdxGraphNode[];
+}
@@ -6,29 +6,45 @@
 export interface CycloneDxBom {
   bomFormat: "CycloneDX";
   specVersion: string;
+  serialNumber?: string;
   version?: number;
   metadata?: CycloneDxMetadata;
   components?: CycloneDxComponent[];
+  dependencies?: Array<{ ref: string; dependsOn?: string[] }>;
+}
+
+export interface CycloneDxProperty {
+  name: string;
+  value: string;
+}
+
+export interface CycloneDxTool {
+  type?: string;
+  name?: string;
+  version?: string;
 }
 
 export interface CycloneDxMetadata {
   timestamp?: string;
-  tools?: Array<{ name?: string; version?: string }>;
+  /** Legacy tool array (1.4) or the tools object introduced in 1.5 */
+  tools?: CycloneDxTool[] | { components?: CycloneDxTool[] };
   component?: CycloneDxComponent;
+  properties?: CycloneDxProperty[];
 }
 
 export interface CycloneDxComponent {
   type: string;
+  "bom-ref"?: string;
   name: string;
   version?: string;
   purl?: string;
   group?: string;
   description?: string;
   scope?: "required" | "optional" | "excluded";
-  properties?: Array<{ name: string; value: string }>;
+  properties?: CycloneDxProperty[];
   /** CycloneDX ML-BOM extensions (1.5+) */
   modelCard?: unknown;
-  data?: Array<{ type?: string }>;
+  data?: Array<{ type?: string; name?: string }>;
 }
 
 export const SUPPORTED_SPEC_VERSIONS = ["1.4", "1.5", "1.6"] as const;
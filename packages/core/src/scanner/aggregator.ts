@@ -4,24 +4,32 @@
  */
 
 import { basename } from "node:path";
-import { hasImplementationSignals } from "../evidence/compliance-evaluation";
+import { sha256Hex } from "../evidence/hash";
+import { generateOpenQuestions } from "../evidence/open-questions";
 import type {
   AppType,
   ConfidenceLevel,
   DetectedSignal,
   FileProvenance,
-  OpenQuestion,
   RepoProfile,
   ScanFile,
+  ScanMeta,
   ScanOptions,
   ScanResult,
   SignalCategory,
 } from "../evidence/types";
+import {
+  type ScanCacheEntry,
+  computeDetectorFingerprint,
+  readScanCache,
+  writeScanCache,
+} from "./cache";
 import { runAllDetectors } from "./detectors";
+import { createCustomRuleDetector } from "./detectors/custom-rule-detector";
+import { isPythonManifest } from "./detectors/python-detector";
 import { CONFIDENCE_RANK } from "./detectors/shared";
 import { discoverFiles } from "./discovery";
-
-const TOOL_VERSION = "0.1.0";
+import { TOOL_VERSION } from "./version";
 
 function parseRootPackageJson(files: ScanFile[]): Record<string, unknown> | undefined {
   const pkgFile = files.find((f) => f.relativePath === "package.json");
@@ -40,9 +48,11 @@ function buildRepoProfile(
 ): RepoProfile {
   const hasTs = files.some((f) => f.extension === ".ts" || f.extension === ".tsx");
   const hasJs = files.some((f) => f.extension === ".js" || f.extension === ".jsx");
+  const hasPython = files.some((f) => f.extension === ".py" || isPythonManifest(f.relativePath));
   const languages: string[] = [];
   if (hasTs) languages.push("typescript");
   if (hasJs) languages.push("javascript");
+  if (hasPython) languages.push("python");
 
   let packageManager: RepoProfile["packageManager"];
   if (files.some((f) => f.relativePath === "pnpm-lock.yaml")) packageManager = "pnpm";
@@ -76,7 +86,10 @@ function inferAppTypes(signals: DetectedSignal[]): AppType[] {
     has("framework-fastify") ||
     has("framework-nestjs") ||
     has("framework-hono") ||
-    has("framework-elysia")
+    has("framework-elysia") ||
+    has("framework-fastapi") ||
+    has("framework-flask") ||
+    has("framework-django")
   )
     types.add("api-server");
   if (hasCategory("local-inference") || hasCategory("ai-provider"))
@@ -135,76 +148,6 @@ function annotateEvidenceProvenance(
   }));
 }
 
-function generateOpenQuestions(signals: DetectedSignal[]): OpenQuestion[] {
-  const questions: OpenQuestion[] = [];
-  const hasAI = signals.some(
-    (s) =>
-      s.category === "ai-provider" ||
-      s.category === "ai-framework" ||
-      s.category === "local-inference"
-  );
-
-  if (hasAI) {
-    questions.push({
-      id: "oq-market-placement",
-      question: "Is this AI system placed on the EU market or used within the EU?",
-      context:
-        "The EU AI Act applies to AI systems placed on or put into service in the EU market.",
-      relatedSignalIds: signals.filter((s) => s.category.startsWith("ai-")).map((s) => s.id),
-      suggestedAction: "Determine your system's geographic scope and market placement.",
-    });
-
-    questions.push({
-      id: "oq-intended-purpose",
-      question: "What is the intended purpose of this AI system?",
-      context:
-        "Risk classification under the EU AI Act depends on the system's intended purpose and deployment context, which cannot be determined from code alone.",
-      relatedSignalIds: [],
-      suggestedAction:
-        "Use the EuConform wizard to complete your risk assessment with human-provided context.",
-    });
-
-    questions.push({
-      id: "oq-provider-role",
-      question: "Are you a provider, deployer, or importer of this AI system?",
-      context:
-        "Different roles under Art. 3 carry different obligations. A scanner cannot determine your organizational role.",
-      relatedSignalIds: [],
-      suggestedAction:
-        "Clarify your role in the AI value chain to determine applicable obligations.",
-    });
-  }
-
-  const hasGpaiSignals = signals.some(
-    (s) => s.category === "ai-provider" || s.id.includes("langchain") || s.id.includes("llamaindex")
-  );
-  if (hasGpaiSignals) {
-    questions.push({
-      id: "oq-gpai-downstream",
-      question:
-        "Are you using a general-purpose AI model? Do you provide downstream access to others?",
-      context:
-        "GPAI obligations (Art. 53-55) apply to providers of general-purpose AI models. Using an API does not automatically make you a GPAI provider.",
-      relatedSignalIds: signals.filter((s) => s.category === "ai-provider").map((s) => s.id),
-      suggestedAction: "Determine whether you are a GPAI provider or deployer.",
-    });
-  }
-
-  const hasNoDisclosure = !hasImplementationSignals(signals, ["compliance-disclosure"]);
-  if (hasAI && hasNoDisclosure) {
-    questions.push({
-      id: "oq-disclosure-missing",
-      question: "Does your system inform users that they are interacting with AI?",
-      context:
-        "No AI disclosure signals were found in the codebase. Art. 50 requires transparency for AI systems interacting with natural persons.",
-      relatedSignalIds: [],
-      suggestedAction: "Add explicit AI disclosure in user-facing entry points.",
-    });
-  }
-
-  return questions;
-}
-
 function buildSignalSummary(signals: DetectedSignal[]): ScanResult["signalSummary"] {
   const byCategory: Partial<Record<SignalCategory, number>> = {};
   const byConfidence: Record<ConfidenceLevel, number> = {
@@ -221,6 +164,48 @@ function buildSignalSummary(signals: DetectedSignal[]): ScanResult["signalSummar
   return { total: signals.length, byCategory, byConfidence };
 }
 
+/**
+ * Run detectors on every file. With `cacheDir`, files whose content hash is
+ * unchanged since the previous scan reuse their stored signals; deduplication
+ * happens afterwards, so cached and fresh signals merge as usual.
+ */
+async function detectFileSignals(
+  allFiles: ScanFile[],
+  rootPkg: Record<string, unknown> | undefined,
+  options: ScanOptions
+): Promise<{ rawSignals: DetectedSignal[]; cache?: ScanMeta["cache"] }> {
+  const extraDetectors = options.customRules?.length
+    ? [createCustomRuleDetector(options.customRules)]
+    : [];
+  const fingerprint = computeDetectorFingerprint(TOOL_VERSION, options.customRules);
+  const previous = options.cacheDir
+    ? await readScanCache(options.cacheDir, fingerprint)
+    : new Map<string, ScanCacheEntry>();
+  const next = new Map<string, ScanCacheEntry>();
+
+  const rawSignals: DetectedSignal[] = [];
+  let hits = 0;
+  for (const file of allFiles) {
+    const hash = options.cacheDir ? sha256Hex(file.content) : undefined;
+    const cached = previous.get(file.relativePath);
+    let fileSignals: DetectedSignal[];
+    if (hash && cached?.hash === hash) {
+      fileSignals = cached.signals;
+      hits++;
+    } else {
+      const ctx = { file, lines: file.content.split("\n"), allFiles, rootPackageJson: rootPkg };
+      fileSignals = runAllDetectors(ctx, extraDetectors);
+    }
+    if (hash) next.set(file.relativePath, { hash, signals: fileSignals });
+    rawSignals.push(...fileSignals);
+  }
+
+  if (!options.cacheDir) return { rawSignals };
+
+  await writeScanCache(options.cacheDir, fingerprint, next);
+  return { rawSignals, cache: { hits, misses: allFiles.length - hits } };
+}
+
 export async function scanRepository(options: ScanOptions): Promise<ScanResult> {
   const startTime = Date.now();
   const scope = options.scope ?? "production";
@@ -228,13 +213,7 @@ export async function scanRepository(options: ScanOptions): Promise<ScanResult>
   const discovery = await discoverFiles(options);
   const allFiles = discovery.files;
   const rootPkg = parseRootPackageJson(allFiles);
-
-  // Run detectors on all files
-  const rawSignals: DetectedSignal[] = [];
-  for (const file of allFiles) {
-    const ctx = { file, lines: file.content.split("\n"), allFiles, rootPackageJson: rootPkg };
-    rawSignals.push(...runAllDetectors(ctx));
-  }
+  const { rawSignals, cache } = await detectFileSignals(allFiles, rootPkg, options);
 
   const signals = annotateEvidenceProvenance(deduplicateSignals(rawSignals), allFiles);
   const openQuestions = generateOpenQuestions(signals);
@@ -248,6 +227,7 @@ export async function scanRepository(options: ScanOptions): Promise<ScanResult>
       scanScope: scope,
       filesScanned: allFiles.length,
       filesSkipped: discovery.skippedCount,
+      ...(cache ? { cache } : {}),
     },
     repo: buildRepoProfile(options.targetPath, rootPkg, allFiles),
     appTypes: inferAppTypes(signals),
@@ -0,0 +1,60 @@
+/**
+ * Baseline loader.
+ *
+ * Reads accepted gaps and false-positive signals (euconform.baseline.v1)
+ * from the scan target. The suppressions themselves are applied by
+ * generateScanOutput() so suppressed items stay visible in the report.
+ */
+
+import { readFile } from "node:fs/promises";
+import { resolve } from "node:path";
+import type { Baseline } from "../evidence/types";
+import { validateBaseline } from "../validation/schema-validator";
+
+export const DEFAULT_BASELINE_PATH = ".euconform/baseline.json";
+
+export interface LoadedBaseline {
+  /** Absolute path of the baseline file that was loaded */
+  path: string;
+  baseline: Baseline;
+}
+
+/** Validate raw baseline data against baseline-v1.schema.json. Throws on failure. */
+export function parseBaseline(data: unknown, source = "baseline"): Baseline {
+  const result = validateBaseline(data);
+  if (!result.valid) {
+    const problems = [...new Set(result.errors.map((err) => `${err.path || "/"}: ${err.message}`))];
+    throw new Error(`Invalid baseline ${source}:\n  ${problems.join("\n  ")}`);
+  }
+  return data as Baseline;
+}
+
+/**
+ * Load the baseline. An explicit `baselinePath` must exist; the default
+ * location is optional and yields `undefined` when absent.
+ */
+export async function loadBaseline(
+  targetPath: string,
+  baselinePath?: string
+): Promise<LoadedBaseline | undefined> {
+  const path = resolve(targetPath, baselinePath ?? DEFAULT_BASELINE_PATH);
+
+  let content: string;
+  try {
+    content = await readFile(path, "utf-8");
+  } catch {
+    if (baselinePath) throw new Error(`Baseline file not found: ${path}`);
+    return undefined;
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new Error(
+      `Failed to parse baseline ${path}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  return { path, baseline: parseBaseline(data, path) };
+}
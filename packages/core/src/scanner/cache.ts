@@ -0,0 +1,84 @@
+/**
+ * Incremental scan cache.
+ *
+ * Stores the per-file detector output of a scan so unchanged files can be
+ * skipped on the next run. Entries are keyed by relative path and content
+ * hash; the whole cache is discarded when the detector fingerprint changes.
+ */
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { sha256Hex } from "../evidence/hash";
+import type { CustomDetectorRule, DetectedSignal } from "../evidence/types";
+
+/** Bump whenever the cache document format changes; new releases are covered by the tool version */
+export const SCAN_CACHE_VERSION = 1;
+
+export const SCAN_CACHE_FILE = "scan-cache.json";
+
+export interface ScanCacheEntry {
+  /** sha256Hex of the file content the signals were computed from */
+  hash: string;
+  signals: DetectedSignal[];
+}
+
+interface ScanCacheDocument {
+  version: number;
+  fingerprint: string;
+  entries: Record<string, ScanCacheEntry>;
+}
+
+/**
+ * Everything besides file content that influences detector output. A change
+ * in tool version, cache version, or custom rules invalidates every entry.
+ */
+export function computeDetectorFingerprint(
+  toolVersion: string,
+  customRules: CustomDetectorRule[] = []
+): string {
+  return sha256Hex(JSON.stringify({ toolVersion, cacheVersion: SCAN_CACHE_VERSION, customRules }));
+}
+
+/** Returns an empty map when the cache is missing, unreadable, or stale */
+export async function readScanCache(
+  cacheDir: string,
+  fingerprint: string
+): Promise<Map<string, ScanCacheEntry>> {
+  try {
+    const raw = await readFile(join(cacheDir, SCAN_CACHE_FILE), "utf-8");
+    const doc = JSON.parse(raw) as ScanCacheDocument;
+    if (doc.version !== SCAN_CACHE_VERSION || doc.fingerprint !== fingerprint) {
+      return new Map();
+    }
+    return new Map(Object.entries(doc.entries ?? {}));
+  } catch {
+    return new Map();
+  }
+}
+
+/**
+ * Persist the entries of the current scan. Files that no longer exist are
+ * dropped because only entries seen in this run are passed in. Write errors
+ * are ignored: a missing cache only costs time on the next scan.
+ */
+export async function writeScanCache(
+  cacheDir: string,
+  fingerprint: string,
+  entries: Map<string, ScanCacheEntry>
+): Promise<void> {
+  const doc: ScanCacheDocument = {
+    version: SCAN_CACHE_VERSION,
+    fingerprint,
+    entries: Object.fromEntries(entries),
+  };
+  const target = join(cacheDir, SCAN_CACHE_FILE);
+  const tmp = `${target}.${process.pid}.tmp`;
+
+  try {
+    await mkdir(cacheDir, { recursive: true });
+    await writeFile(tmp, JSON.stringify(doc), "utf-8");
+    await rename(tmp, target);
+  } catch {
+    // Cache is an optimization only
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Scanner configuration loader.
+ *
+ * Reads project-level configuration (euconform.config.v1) from the scan
+ * target. Custom detector rules defined there are merged into the built-in
+ * detector set by scanRepository().
+ */
+
+import { readFile, stat } from "node:fs/promises";
+import { extname, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { parse as parseYaml } from "yaml";
+import type { CustomDetectorRule, EuconformConfig } from "../evidence/types";
+import { validateConfig } from "../validation/schema-validator";
+
+/**
+ * Looked up relative to the scan target, first match wins. Only data formats
+ * are discovered: module configs (euconform.config.ts etc.) execute code and
+ * are loaded only from an explicit `configPath`, so scanning an untrusted
+ * repository never runs code from it.
+ */
+export const CONFIG_FILE_CANDIDATES = [
+  ".euconform/config.json",
+  ".euconform/config.yaml",
+  ".euconform/config.yml",
+];
+
+const MODULE_EXTENSIONS = new Set([".ts", ".mts", ".js", ".mjs"]);
+
+export interface LoadedScanConfig {
+  /** Absolute path of the config file that was loaded */
+  path: string;
+  config: EuconformConfig;
+}
+
+/** Identity helper that gives euconform.config.ts files type checking */
+export function defineConfig(config: EuconformConfig): EuconformConfig {
+  return config;
+}
+
+async function isFile(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+async function readConfigSource(path: string): Promise<unknown> {
+  const ext = extname(path);
+
+  if (MODULE_EXTENSIONS.has(ext)) {
+    try {
+      const mod = (await import(pathToFileURL(path).href)) as { default?: unknown };
+      return mod.default;
+    } catch (error) {
+      const hint =
+        ext === ".ts" || ext === ".mts"
+          ? " TypeScript configs require a Node.js version with built-in type stripping (>= 22.18)."
+          : "";
+      throw new Error(
+        `Failed to load config ${path}: ${error instanceof Error ? error.message : String(error)}.${hint}`
+      );
+    }
+  }
+
+  const content = await readFile(path, "utf-8");
+  try {
+    return ext === ".json" ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new Error(
+      `Failed to parse config ${path}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+function checkRuleSemantics(rules: CustomDetectorRule[]): string[] {
+  const problems: string[] = [];
+  const seen = new Set<string>();
+
+  rules.forEach((rule, index) => {
+    if (seen.has(rule.id)) {
+      problems.push(`/rules/${index}/id: duplicate rule id "${rule.id}"`);
+    }
+    seen.add(rule.id);
+
+    if (rule.type === "regex") {
+      try {
+        new RegExp(rule.pattern, rule.flags);
+      } catch (error) {
+        problems.push(
+          `/rules/${index}/pattern: ${error instanceof Error ? error.message : "invalid regular expression"}`
+        );
+      }
+    }
+  });
+
+  return problems;
+}
+
+/**
+ * Validate raw config data against config-v1.schema.json and check what the
+ * schema cannot express (unique ids, compilable patterns). Throws on failure.
+ */
+export function parseScanConfig(data: unknown, source = "config"): EuconformConfig {
+  const result = validateConfig(data);
+  const problems = [
+    ...new Set(
+      result.errors
+        // `if` failures only repeat the nested `then` errors reported alongside them
+        .filter((err) => err.keyword !== "if")
+        .map((err) => `${err.path || "/"}: ${err.message}`)
+    ),
+  ];
+
+  if (result.valid) {
+    problems.push(...checkRuleSemantics((data as EuconformConfig).rules ?? []));
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid config ${source}:\n  ${problems.join("\n  ")}`);
+  }
+
+  return data as EuconformConfig;
+}
+
+/**
+ * Load the project config. An explicit `configPath` must exist and may be a
+ * JSON, YAML, or module config; otherwise the candidates in
+ * CONFIG_FILE_CANDIDATES are tried and `undefined` is returned when none is
+ * present.
+ */
+export async function loadScanConfig(
+  targetPath: string,
+  configPath?: string
+): Promise<LoadedScanConfig | undefined> {
+  let path: string | undefined;
+
+  if (configPath) {
+    path = resolve(targetPath, configPath);
+    if (!(await isFile(path))) {
+      throw new Error(`Config file not found: ${path}`);
+    }
+  } else {
+    for (const candidate of CONFIG_FILE_CANDIDATES) {
+      const candidatePath = resolve(targetPath, candidate);
+      if (await isFile(candidatePath)) {
+        path = candidatePath;
+        break;
+      }
+    }
+  }
+
+  if (!path) return undefined;
+
+  const data = await readConfigSource(path);
+  return { path, config: parseScanConfig(data, path) };
+}
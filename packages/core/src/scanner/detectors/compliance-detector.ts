@@ -40,7 +40,7 @@ const rules: ComplianceRule[] = [
     name: "Structured logging library",
     category: "compliance-logging",
     pattern:
-      /\bfrom\s+['"](?:winston|pino|bunyan)['"]|\brequire\(\s*['"](?:winston|pino|bunyan)['"]\)/,
+      /\bfrom\s+['"](?:winston|pino|bunyan)['"]|\brequire\(\s*['"](?:winston|pino|bunyan)['"]\)|^\s*(?:import|from)\s+(?:structlog|loguru)\b/,
     confidence: "medium",
   },
   {
@@ -0,0 +1,136 @@
+/**
+ * Custom rule detector — turns project-defined rules from euconform.config.v1
+ * into a SignalDetector that runs alongside the built-in detectors.
+ */
+
+import ignore from "ignore";
+import type {
+  CustomDetectorRule,
+  DetectedSignal,
+  DetectorContext,
+  SignalDetector,
+  SignalEvidence,
+} from "../../evidence/types";
+import { parsePythonImport } from "./python-detector";
+import { MAX_SNIPPET_LENGTH, SOURCE_EXTENSIONS } from "./shared";
+
+const MAX_EVIDENCE_PER_FILE = 3;
+
+const JS_IMPORT_PATTERNS = [
+  /\bfrom\s+['"]([^'"]+)['"]/g,
+  /^\s*import\s+['"]([^'"]+)['"]/g,
+  /\brequire\(\s*['"]([^'"]+)['"]\s*\)/g,
+  /\bimport\(\s*['"]([^'"]+)['"]\s*\)/g,
+];
+
+type PathMatcher = (relativePath: string) => boolean;
+
+interface CompiledRule {
+  rule: CustomDetectorRule;
+  appliesTo: PathMatcher;
+  matchLine?: (line: string, extension: string) => boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Matchers
+// ---------------------------------------------------------------------------
+
+/** Globs follow .gitignore semantics, e.g. "src/**" or "*.md" */
+function createPathMatcher(globs: string[] | undefined): PathMatcher {
+  if (!globs || globs.length === 0) return () => true;
+  const ig = ignore().add(globs);
+  return (relativePath) => ig.ignores(relativePath);
+}
+
+function extractJsSpecifiers(line: string): string[] {
+  const specifiers: string[] = [];
+  for (const pattern of JS_IMPORT_PATTERNS) {
+    for (const match of line.matchAll(pattern)) {
+      if (match[1]) specifiers.push(match[1]);
+    }
+  }
+  return specifiers;
+}
+
+function createImportMatcher(moduleName: string): CompiledRule["matchLine"] {
+  return (line, extension) => {
+    if (!SOURCE_EXTENSIONS.has(extension)) return false;
+    if (extension === ".py") {
+      return parsePythonImport(line).some(
+        (mod) => mod === moduleName || mod.startsWith(`${moduleName}.`)
+      );
+    }
+    return extractJsSpecifiers(line).some(
+      (spec) => spec === moduleName || spec.startsWith(`${moduleName}/`)
+    );
+  };
+}
+
+function compileRule(rule: CustomDetectorRule): CompiledRule {
+  const appliesTo = createPathMatcher(rule.files);
+  switch (rule.type) {
+    case "regex": {
+      // Stateful flags would make RegExp.test() skip matches across lines
+      const pattern = new RegExp(rule.pattern, rule.flags?.replace(/[gy]/g, ""));
+      return { rule, appliesTo, matchLine: (line) => pattern.test(line) };
+    }
+    case "import":
+      return { rule, appliesTo, matchLine: createImportMatcher(rule.module) };
+    case "file":
+      return { rule, appliesTo };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Detector
+// ---------------------------------------------------------------------------
+
+function gatherLineEvidence(ctx: DetectorContext, compiled: CompiledRule): SignalEvidence[] {
+  const { file, lines } = ctx;
+  const evidence: SignalEvidence[] = [];
+  if (!compiled.matchLine) return evidence;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (!line || !compiled.matchLine(line, file.extension)) continue;
+    evidence.push({
+      file: file.relativePath,
+      line: i + 1,
+      snippet: line.trim().slice(0, MAX_SNIPPET_LENGTH),
+    });
+    if (evidence.length >= MAX_EVIDENCE_PER_FILE) break;
+  }
+  return evidence;
+}
+
+/**
+ * Build a detector from custom rules. Rules are compiled once, so invalid
+ * regular expressions throw here rather than being swallowed per file.
+ */
+export function createCustomRuleDetector(rules: CustomDetectorRule[]): SignalDetector {
+  const compiled = rules.map(compileRule);
+
+  return (ctx: DetectorContext): DetectedSignal[] => {
+    const signals: DetectedSignal[] = [];
+
+    for (const entry of compiled) {
+      if (!entry.appliesTo(ctx.file.relativePath)) continue;
+
+      const evidence =
+        entry.rule.type === "file"
+          ? [{ file: ctx.file.relativePath, snippet: `Matched custom rule "${entry.rule.id}"` }]
+          : gatherLineEvidence(ctx, entry);
+      if (evidence.length === 0) continue;
+
+      signals.push({
+        id: entry.rule.id,
+        name: entry.rule.name,
+        category: entry.rule.category,
+        confidence: entry.rule.confidence ?? "medium",
+        evidence,
+      });
+    }
+
+    return signals;
+  };
+}
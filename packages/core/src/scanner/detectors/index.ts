@@ -1,7 +1,8 @@
 /**
  * Signal detector registry.
  *
- * Runs all registered detectors against a file and returns combined signals.
+ * Runs all registered detectors, plus any project-specific detectors built
+ * from custom rules, against a file and returns combined signals.
  */
 
 import type { DetectedSignal, DetectorContext, SignalDetector } from "../../evidence/types";
@@ -13,10 +14,12 @@ import { detectFrameworks } from "./framework-detector";
 import { detectLocalInferenceSignals } from "./local-inference-detector";
 import { detectMarkdown } from "./markdown-detector";
 import { detectPackageJsonSignals } from "./package-json-detector";
+import { detectPythonSignals } from "./python-detector";
 import { detectRagSignals } from "./rag-detector";
 
 const ALL_DETECTORS: SignalDetector[] = [
   detectPackageJsonSignals,
+  detectPythonSignals,
   detectAiProviderSignals,
   detectAiFrameworkSignals,
   detectLocalInferenceSignals,
@@ -27,9 +30,12 @@ const ALL_DETECTORS: SignalDetector[] = [
   detectMarkdown,
 ];
 
-export function runAllDetectors(ctx: DetectorContext): DetectedSignal[] {
+export function runAllDetectors(
+  ctx: DetectorContext,
+  extraDetectors: SignalDetector[] = []
+): DetectedSignal[] {
   const signals: DetectedSignal[] = [];
-  for (const detector of ALL_DETECTORS) {
+  for (const detector of [...ALL_DETECTORS, ...extraDetectors]) {
     try {
       signals.push(...detector(ctx));
     } catch {
@@ -0,0 +1,515 @@
+import { basename } from "node:path";
+import type {
+  ConfidenceLevel,
+  DetectedSignal,
+  DetectorContext,
+  SignalCategory,
+  SignalEvidence,
+} from "../../evidence/types";
+import { MAX_SNIPPET_LENGTH } from "./shared";
+
+// ---------------------------------------------------------------------------
+// Known Python packages
+// ---------------------------------------------------------------------------
+
+interface PythonPackageInfo {
+  id: string;
+  name: string;
+  category: SignalCategory;
+  /** Distribution names as published on PyPI (normalized, PEP 503) */
+  distributions: string[];
+  /** Importable module prefixes (dotted) */
+  modules: string[];
+}
+
+const PYTHON_PACKAGES: PythonPackageInfo[] = [
+  // Providers
+  {
+    id: "ai-provider-openai",
+    name: "OpenAI SDK",
+    category: "ai-provider",
+    distributions: ["openai"],
+    modules: ["openai"],
+  },
+  {
+    id: "ai-provider-anthropic",
+    name: "Anthropic SDK",
+    category: "ai-provider",
+    distributions: ["anthropic"],
+    modules: ["anthropic"],
+  },
+  {
+    id: "ai-provider-cohere",
+    name: "Cohere SDK",
+    category: "ai-provider",
+    distributions: ["cohere"],
+    modules: ["cohere"],
+  },
+  {
+    id: "ai-provider-google-genai",
+    name: "Google Generative AI",
+    category: "ai-provider",
+    distributions: ["google-generativeai", "google-genai"],
+    modules: ["google.generativeai", "google.genai"],
+  },
+  {
+    id: "ai-provider-mistral",
+    name: "Mistral AI SDK",
+    category: "ai-provider",
+    distributions: ["mistralai"],
+    modules: ["mistralai"],
+  },
+
+  // Frameworks
+  {
+    id: "ai-framework-langchain",
+    name: "LangChain",
+    category: "ai-framework",
+    distributions: [
+      "langchain",
+      "langchain-core",
+      "langchain-community",
+      "langchain-openai",
+      "langchain-anthropic",
+      "langchain-ollama",
+    ],
+    modules: [
+      "langchain",
+      "langchain_core",
+      "langchain_community",
+      "langchain_openai",
+      "langchain_anthropic",
+      "langchain_ollama",
+    ],
+  },
+  {
+    id: "ai-framework-llamaindex",
+    name: "LlamaIndex",
+    category: "ai-framework",
+    distributions: ["llama-index", "llama-index-core"],
+    modules: ["llama_index"],
+  },
+  {
+    id: "ai-framework-hf-transformers",
+    name: "Hugging Face Transformers",
+    category: "ai-framework",
+    distributions: ["transformers"],
+    modules: ["transformers"],
+  },
+  {
+    id: "ai-framework-huggingface",
+    name: "HuggingFace Hub",
+    category: "ai-framework",
+    distributions: ["huggingface-hub"],
+    modules: ["huggingface_hub"],
+  },
+  {
+    id: "ai-framework-pytorch",
+    name: "PyTorch",
+    category: "ai-framework",
+    distributions: ["torch"],
+    modules: ["torch"],
+  },
+  {
+    id: "ai-framework-tensorflow",
+    name: "TensorFlow",
+    category: "ai-framework",
+    distributions: ["tensorflow", "tensorflow-cpu"],
+    modules: ["tensorflow"],
+  },
+
+  // Local inference
+  {
+    id: "local-inference-ollama",
+    name: "Ollama Python SDK",
+    category: "local-inference",
+    distributions: ["ollama"],
+    modules: ["ollama"],
+  },
+  {
+    id: "local-inference-llamacpp",
+    name: "llama.cpp (llama-cpp-python)",
+    category: "local-inference",
+    distributions: ["llama-cpp-python"],
+    modules: ["llama_cpp"],
+  },
+  {
+    id: "local-inference-vllm",
+    name: "vLLM",
+    category: "local-inference",
+    distributions: ["vllm"],
+    modules: ["vllm"],
+  },
+  {
+    id: "local-inference-onnx",
+    name: "ONNX Runtime",
+    category: "local-inference",
+    distributions: ["onnxruntime", "onnxruntime-gpu"],
+    modules: ["onnxruntime"],
+  },
+
+  // RAG / Vector
+  {
+    id: "rag-chromadb",
+    name: "ChromaDB",
+    category: "rag",
+    distributions: ["chromadb"],
+    modules: ["chromadb"],
+  },
+  {
+    id: "rag-pinecone",
+    name: "Pinecone",
+    category: "rag",
+    distributions: ["pinecone", "pinecone-client"],
+    modules: ["pinecone"],
+  },
+  {
+    id: "rag-weaviate",
+    name: "Weaviate",
+    category: "rag",
+    distributions: ["weaviate-client"],
+    modules: ["weaviate"],
+  },
+  {
+    id: "rag-qdrant",
+    name: "Qdrant",
+    category: "rag",
+    distributions: ["qdrant-client"],
+    modules: ["qdrant_client"],
+  },
+  {
+    id: "rag-faiss",
+    name: "FAISS",
+    category: "rag",
+    distributions: ["faiss-cpu", "faiss-gpu"],
+    modules: ["faiss"],
+  },
+  {
+    id: "rag-pgvector",
+    name: "pgvector",
+    category: "rag",
+    distributions: ["pgvector"],
+    modules: ["pgvector"],
+  },
+  {
+    id: "rag-embedding-sentence-transformers",
+    name: "Sentence Transformers",
+    category: "rag",
+    distributions: ["sentence-transformers"],
+    modules: ["sentence_transformers"],
+  },
+
+  // Bias / Eval
+  {
+    id: "compliance-bias-fairlearn",
+    name: "Fairlearn",
+    category: "compliance-bias",
+    distributions: ["fairlearn"],
+    modules: ["fairlearn"],
+  },
+  {
+    id: "compliance-bias-aif360",
+    name: "AI Fairness 360",
+    category: "compliance-bias",
+    distributions: ["aif360"],
+    modules: ["aif360"],
+  },
+
+  // Web frameworks
+  {
+    id: "framework-fastapi",
+    name: "fastapi",
+    category: "framework",
+    distributions: ["fastapi"],
+    modules: ["fastapi"],
+  },
+  {
+    id: "framework-flask",
+    name: "flask",
+    category: "framework",
+    distributions: ["flask"],
+    modules: ["flask"],
+  },
+  {
+    id: "framework-django",
+    name: "django",
+    category: "framework",
+    distributions: ["django"],
+    modules: ["django"],
+  },
+];
+
+// Pre-built lookup tables — avoids scanning the package list for every dependency
+const BY_DISTRIBUTION = new Map<string, PythonPackageInfo>(
+  PYTHON_PACKAGES.flatMap((info) => info.distributions.map((dist) => [dist, info] as const))
+);
+
+const MODULE_PREFIXES: [string, PythonPackageInfo][] = PYTHON_PACKAGES.flatMap((info) =>
+  info.modules.map((mod) => [mod, info] as [string, PythonPackageInfo])
+).sort((left, right) => right[0].length - left[0].length);
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+type ManifestKind = "requirements" | "pyproject" | "pipfile" | "poetry-lock";
+
+function manifestKind(relativePath: string): ManifestKind | null {
+  const fileName = basename(relativePath);
+  if (/^requirements.*\.txt$/i.test(fileName)) return "requirements";
+  if (fileName === "pyproject.toml") return "pyproject";
+  if (fileName === "Pipfile") return "pipfile";
+  if (fileName === "poetry.lock") return "poetry-lock";
+  return null;
+}
+
+/** PEP 503 name normalization: lowercase, runs of "-", "_" and "." become "-" */
+export function normalizePythonPackageName(name: string): string {
+  return name.toLowerCase().replace(/[-_.]+/g, "-");
+}
+
+/** Extract the distribution name from a PEP 508 requirement string */
+function requirementName(requirement: string): string | null {
+  const match = /^\s*([A-Za-z0-9][A-Za-z0-9._-]*)/.exec(requirement);
+  return match?.[1] ? normalizePythonPackageName(match[1]) : null;
+}
+
+function lookupModule(modulePath: string): PythonPackageInfo | undefined {
+  for (const [prefix, info] of MODULE_PREFIXES) {
+    if (modulePath === prefix || modulePath.startsWith(`${prefix}.`)) return info;
+  }
+  return undefined;
+}
+
+function addEvidence(
+  map: Map<string, DetectedSignal>,
+  info: PythonPackageInfo,
+  confidence: ConfidenceLevel,
+  evidence: SignalEvidence
+): void {
+  const existing = map.get(info.id);
+  if (existing) {
+    existing.evidence.push(evidence);
+    return;
+  }
+  map.set(info.id, {
+    id: info.id,
+    name: info.name,
+    category: info.category,
+    confidence,
+    evidence: [evidence],
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Manifest parsing
+// ---------------------------------------------------------------------------
+
+interface DeclaredDependency {
+  name: string;
+  line: number;
+  snippet: string;
+}
+
+function parseRequirementsTxt(lines: string[]): DeclaredDependency[] {
+  const deps: DeclaredDependency[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const line = (lines[i] ?? "").replace(/\s+#.*$/, "").trim();
+    // Skip comments, pip options (-r, -e, --index-url) and direct URLs
+    if (!line || line.startsWith("#") || line.startsWith("-") || line.includes("://")) continue;
+    const name = requirementName(line);
+    if (name) deps.push({ name, line: i + 1, snippet: line });
+  }
+  return deps;
+}
+
+/** Tables whose keys are dependency names (Poetry, Pipfile) */
+const DEPENDENCY_TABLE_PATTERN =
+  /^\[(?:tool\.poetry\.(?:dev-)?dependencies|tool\.poetry\.group\.[^.\]]+\.dependencies|packages|dev-packages)\]$/;
+
+/** Keys whose values are PEP 508 requirement arrays (PEP 621, PEP 735) */
+const DEPENDENCY_ARRAY_KEY = /^([A-Za-z0-9_-]+)\s*=\s*\[/;
+
+function isDependencyArrayKey(section: string, key: string): boolean {
+  if (section === "[project]") return key === "dependencies";
+  return section === "[project.optional-dependencies]" || section === "[dependency-groups]";
+}
+
+function collectQuotedRequirements(line: string, lineNum: number, deps: DeclaredDependency[]) {
+  for (const match of line.matchAll(/["']([^"']+)["']/g)) {
+    const name = match[1] ? requirementName(match[1]) : null;
+    if (name) deps.push({ name, line: lineNum, snippet: line.trim() });
+  }
+}
+
+interface TomlScanState {
+  section: string;
+  inArray: boolean;
+}
+
+function scanTomlLine(
+  line: string,
+  lineNum: number,
+  state: TomlScanState,
+  deps: DeclaredDependency[]
+): void {
+  if (state.inArray) {
+    collectQuotedRequirements(line, lineNum, deps);
+    if (line.includes("]")) state.inArray = false;
+    return;
+  }
+
+  if (line.startsWith("[")) {
+    state.section = line;
+    return;
+  }
+
+  const arrayKey = DEPENDENCY_ARRAY_KEY.exec(line)?.[1];
+  if (arrayKey && isDependencyArrayKey(state.section, arrayKey)) {
+    const rest = line.slice(line.indexOf("[") + 1);
+    collectQuotedRequirements(rest, lineNum, deps);
+    state.inArray = !rest.includes("]");
+    return;
+  }
+
+  if (!DEPENDENCY_TABLE_PATTERN.test(state.section)) return;
+  const key = /^["']?([A-Za-z0-9][A-Za-z0-9._-]*)["']?\s*=/.exec(line)?.[1];
+  if (key && key.toLowerCase() !== "python") {
+    deps.push({ name: normalizePythonPackageName(key), line: lineNum, snippet: line });
+  }
+}
+
+/**
+ * Line-based TOML dependency extraction for pyproject.toml and Pipfile.
+ * Handles PEP 621 dependency arrays and Poetry/Pipfile dependency tables
+ * without pulling in a full TOML parser.
+ */
+function parseTomlManifest(lines: string[]): DeclaredDependency[] {
+  const deps: DeclaredDependency[] = [];
+  const state: TomlScanState = { section: "", inArray: false };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = (lines[i] ?? "").replace(/\s+#.*$/, "").trim();
+    if (!line || line.startsWith("#")) continue;
+    scanTomlLine(line, i + 1, state, deps);
+  }
+
+  return deps;
+}
+
+function parsePoetryLock(lines: string[]): DeclaredDependency[] {
+  const deps: DeclaredDependency[] = [];
+  let inPackage = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = (lines[i] ?? "").trim();
+    if (line.startsWith("[")) {
+      inPackage = line === "[[package]]";
+      continue;
+    }
+    if (!inPackage) continue;
+
+    const name = /^name\s*=\s*"([^"]+)"/.exec(line)?.[1];
+    if (name) {
+      deps.push({ name: normalizePythonPackageName(name), line: i + 1, snippet: line });
+      inPackage = false;
+    }
+  }
+
+  return deps;
+}
+
+function detectFromManifest(ctx: DetectorContext, kind: ManifestKind): DetectedSignal[] {
+  const deps =
+    kind === "requirements"
+      ? parseRequirementsTxt(ctx.lines)
+      : kind === "poetry-lock"
+        ? parsePoetryLock(ctx.lines)
+        : parseTomlManifest(ctx.lines);
+
+  // Lock files list transitive dependencies — lower confidence, like npm lock files
+  const confidence: ConfidenceLevel = kind === "poetry-lock" ? "medium" : "high";
+  const signalMap = new Map<string, DetectedSignal>();
+
+  for (const dep of deps) {
+    const info = BY_DISTRIBUTION.get(dep.name);
+    if (!info) continue;
+    addEvidence(signalMap, info, confidence, {
+      file: ctx.file.relativePath,
+      line: dep.line,
+      snippet: dep.snippet.slice(0, MAX_SNIPPET_LENGTH),
+    });
+  }
+
+  return Array.from(signalMap.values());
+}
+
+// ---------------------------------------------------------------------------
+// Import parsing
+// ---------------------------------------------------------------------------
+
+const FROM_IMPORT_PATTERN = /^\s*from\s+([A-Za-z_][\w.]*)\s+import\s+(.+)$/;
+const IMPORT_PATTERN = /^\s*import\s+(.+)$/;
+
+/** Return the dotted module paths referenced by a single import statement */
+export function parsePythonImport(line: string): string[] {
+  const fromMatch = FROM_IMPORT_PATTERN.exec(line);
+  if (fromMatch?.[1]) {
+    const base = fromMatch[1];
+    // `from google import genai` — include the submodules so namespace packages resolve
+    const names = (fromMatch[2] ?? "")
+      .replace(/[()\\]/g, "")
+      .split(",")
+      .map((part) => part.trim().split(/\s+/)[0] ?? "")
+      .filter((name) => /^[A-Za-z_]\w*$/.test(name));
+    return [base, ...names.map((name) => `${base}.${name}`)];
+  }
+
+  const importMatch = IMPORT_PATTERN.exec(line);
+  if (importMatch?.[1]) {
+    return importMatch[1]
+      .split(",")
+      .map((part) => part.trim().split(/\s+/)[0] ?? "")
+      .filter((name) => /^[A-Za-z_][\w.]*$/.test(name));
+  }
+
+  return [];
+}
+
+function detectFromImports(ctx: DetectorContext): DetectedSignal[] {
+  const signalMap = new Map<string, DetectedSignal>();
+
+  for (let i = 0; i < ctx.lines.length; i++) {
+    const line = ctx.lines[i];
+    if (!line || !/^\s*(?:from|import)\s/.test(line)) continue;
+
+    const matched = new Set<string>();
+    for (const modulePath of parsePythonImport(line)) {
+      const info = lookupModule(modulePath);
+      if (!info || matched.has(info.id)) continue;
+      matched.add(info.id);
+      addEvidence(signalMap, info, "medium", {
+        file: ctx.file.relativePath,
+        line: i + 1,
+        snippet: line.trim().slice(0, MAX_SNIPPET_LENGTH),
+      });
+    }
+  }
+
+  return Array.from(signalMap.values());
+}
+
+// ---------------------------------------------------------------------------
+// Detector
+// ---------------------------------------------------------------------------
+
+export function isPythonManifest(relativePath: string): boolean {
+  return manifestKind(relativePath) !== null;
+}
+
+export function detectPythonSignals(ctx: DetectorContext): DetectedSignal[] {
+  const kind = manifestKind(ctx.file.relativePath);
+  if (kind) return detectFromManifest(ctx, kind);
+  if (ctx.file.extension === ".py") return detectFromImports(ctx);
+  return [];
+}
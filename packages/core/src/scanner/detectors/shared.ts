@@ -1,7 +1,7 @@
 import type { ConfidenceLevel } from "../../evidence/types";
 
 /** Source-code extensions used by ai-provider, ai-framework, rag, compliance detectors */
-export const SOURCE_EXTENSIONS = new Set([".ts", ".tsx", ".js", ".jsx"]);
+export const SOURCE_EXTENSIONS = new Set([".ts", ".tsx", ".js", ".jsx", ".py"]);
 
 /** Extended set including config formats, used by framework and local-inference detectors */
 export const EXTENDED_EXTENSIONS = new Set([
@@ -9,6 +9,7 @@ export const EXTENDED_EXTENSIONS = new Set([
   ".tsx",
   ".js",
   ".jsx",
+  ".py",
   ".json",
   ".yaml",
   ".yml",
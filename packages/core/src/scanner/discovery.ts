@@ -10,7 +10,7 @@ import { basename, extname, join, resolve } from "node:path";
 import ignore from "ignore";
 import type { FileProvenance, ScanFile, ScanOptions, ScanScope } from "../evidence/types";
 
-const DEFAULT_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx", ".json", ".md", ".yaml", ".yml"];
+const DEFAULT_EXTENSIONS = [".ts", ".tsx", ".js", ".jsx", ".py", ".json", ".md", ".yaml", ".yml"];
 
 /** Named files to always include regardless of extension */
 const NAMED_FILE_PATTERNS = [
@@ -25,6 +25,11 @@ const NAMED_FILE_PATTERNS = [
   /^docker-compose/,
   /^Dockerfile/,
   /^tsconfig.*\.json$/,
+  // Python manifests
+  /^requirements.*\.txt$/,
+  /^pyproject\.toml$/,
+  /^Pipfile$/,
+  /^poetry\.lock$/,
 ];
 
 const ALWAYS_SKIP_DIRS = [
@@ -37,6 +42,13 @@ const ALWAYS_SKIP_DIRS = [
   ".turbo",
   ".cache",
   ".euconform",
+  // Python environments and caches
+  ".venv",
+  "venv",
+  "__pycache__",
+  ".tox",
+  ".mypy_cache",
+  ".pytest_cache",
 ];
 
 const DEFAULT_MAX_FILE_SIZE = 1_048_576; // 1 MB
@@ -65,6 +77,7 @@ const GENERATED_SEGMENTS = new Set(["generated", "__generated__", ".generated",
 const TOOLING_SEGMENTS = new Set([".github", "scripts", "tools", "tooling", "bin"]);
 
 const TEST_FILE_PATTERN = /(?:^|\.)(?:test|spec)\.[^.]+$/i;
+const PYTHON_TEST_FILE_PATTERN = /^(?:test_.+|.+_test|conftest)\.py$/i;
 const GENERATED_FILE_PATTERN = /(?:^|\.)(?:generated|min)\.[^.]+$/i;
 
 const BINARY_EXTENSIONS = new Set([
@@ -120,7 +133,11 @@ export function classifyFileProvenance(relativePath: string): FileProvenance {
   const isRootFile = segments.length === 1;
 
   if (segments.some((segment) => FIXTURE_SEGMENTS.has(segment))) return "fixture";
-  if (segments.some((segment) => TEST_SEGMENTS.has(segment)) || TEST_FILE_PATTERN.test(fileName)) {
+  if (
+    segments.some((segment) => TEST_SEGMENTS.has(segment)) ||
+    TEST_FILE_PATTERN.test(fileName) ||
+    PYTHON_TEST_FILE_PATTERN.test(fileName)
+  ) {
     return "test";
   }
   if (segments.some((segment) => EXAMPLE_SEGMENTS.has(segment))) return "example";
@@ -7,3 +7,19 @@
 
 export { scanRepository } from "./aggregator";
 export { discoverFiles } from "./discovery";
+export {
+  CONFIG_FILE_CANDIDATES,
+  defineConfig,
+  loadScanConfig,
+  parseScanConfig,
+  type LoadedScanConfig,
+} from "./config";
+export { createCustomRuleDetector } from "./detectors/custom-rule-detector";
+export {
+  DEFAULT_BASELINE_PATH,
+  loadBaseline,
+  parseBaseline,
+  type LoadedBaseline,
+} from "./baseline";
+export { SCAN_CACHE_FILE, SCAN_CACHE_VERSION } from "./cache";
+export { TOOL_VERSION } from "./version";
@@ -0,0 +1,6 @@
+/**
+ * Version reported as `meta.toolVersion` and used to key the scan cache. The
+ * CLI reports it as its own version (`CLI_VERSION`) and its build injects the
+ * package.json version; "dev" when run from source.
+ */
+export const TOOL_VERSION = process.env.EUCONFORM_VERSION ?? "dev";
@@ -66,7 +66,7 @@ export interface BiasTestResult {
   modelId: string;
   timestamp: string;
   method: BiasCalculationMethod;
-  engine: "browser" | "ollama";
+  engine: BiasEngine;
   protectedAttribute?: string;
   crowsPairsResult?: CrowsPairsBiasResult;
   metrics?: FairnessMetric[];
@@ -92,6 +92,9 @@ export interface CrowsPairsEntry {
 /** Bias calculation method types */
 export type BiasCalculationMethod = "logprobs_exact" | "logprobs_fallback_latency";
 
+/** Inference engines that can run a CrowS-Pairs bias calculation */
+export type BiasEngine = "browser" | "ollama" | "openai-compatible";
+
 /** Model capability cache for log-probability support */
 export interface ModelCapabilityCache {
   model: string;
@@ -100,24 +103,117 @@ export interface ModelCapabilityCache {
   ollamaVersion?: string;
 }
 
+/** Percentile bootstrap confidence interval for a mean bias score */
+export interface BootstrapConfidenceInterval {
+  level: number; // e.g. 0.95
+  lower: number;
+  upper: number;
+  iterations: number;
+  seed: number;
+}
+
+/** Exact binomial test of the stereotype preference against a null proportion */
+export interface BinomialTestResult {
+  test: "binomial-two-sided";
+  nullProportion: number;
+  successes: number; // pairs where the stereotypical sentence scored higher
+  trials: number;
+  pValue: number;
+  alpha: number;
+  significant: boolean;
+}
+
+/** Measurement for a single CrowS-Pairs sentence pair */
+export interface CrowsPairsPairResult {
+  id: number;
+  biasType: string;
+  logprobStereo: number;
+  logprobAnti: number;
+  score: number; // logprobStereo - logprobAnti
+  method: BiasCalculationMethod;
+}
+
+/** CrowS-Pairs aggregates for one bias type */
+export interface CrowsPairsCategoryResult {
+  biasType: string;
+  pairsAnalyzed: number;
+  score: number;
+  stereotypicalPreference: number; // percentage
+  confidenceInterval: BootstrapConfidenceInterval;
+  significance: BinomialTestResult;
+}
+
 /** CrowS-Pairs bias calculation result */
 export interface CrowsPairsBiasResult {
   score: number;
   method: BiasCalculationMethod;
   pairsAnalyzed: number;
   stereotypicalPreference: number; // percentage
+  /** Bootstrap CI of the overall score */
+  confidenceInterval?: BootstrapConfidenceInterval;
+  /** Binomial test of stereotypicalPreference against 50% */
+  significance?: BinomialTestResult;
+  byBiasType?: CrowsPairsCategoryResult[];
+  pairs?: CrowsPairsPairResult[];
   metadata: {
-    engine: "browser" | "ollama";
+    engine: BiasEngine;
     model: string;
     timestamp: string;
   };
 }
 
+/**
+ * Parameters and environment of a bias run, recorded so the run can be
+ * repeated with identical settings (`euconform bias --replay`)
+ */
+export interface BiasReproducibility {
+  tool: { name: string; version: string };
+  engine: { name: BiasEngine; version?: string };
+  model: {
+    name: string;
+    digest?: string;
+    format?: string;
+    family?: string;
+    parameterSize?: string;
+    quantization?: string;
+  };
+  /** Request options of the log-probability measurements */
+  generationOptions: Record<string, number | boolean | string>;
+  dataset: {
+    name: string;
+    source: "bundled" | "file";
+    sha256: string;
+    /** Language of the bundled CrowS-Pairs dataset */
+    lang?: "en" | "de";
+    /** File name of a custom dataset; a replay needs a file with the same SHA-256 */
+    fileName?: string;
+    pairs: number;
+  };
+  /** Which dataset pairs the result covers */
+  sampleSelection: {
+    strategy: "all";
+    evaluated: number;
+    /** Pairs that failed and are missing from the result */
+    excludedPairIds: number[];
+  };
+  seed: number;
+  bootstrapIterations: number;
+  /** Pairs per measurement method; fallback pairs were measured by latency */
+  methods: {
+    counts: Partial<Record<BiasCalculationMethod, number>>;
+    fallbackPairIds: number[];
+  };
+}
+
 /** Configuration for bias test execution */
 export interface BiasTestConfig {
   dataset: CrowsPairsEntry[];
   model: string;
-  engine: "browser" | "ollama";
+  engine: BiasEngine;
+  /** Seed for bootstrap resampling (default 42) */
+  seed?: number;
+  /** Bootstrap resamples per confidence interval (default 1000) */
+  bootstrapIterations?: number;
 }
 
 /** Annex IV Technical Documentation Report */
@@ -145,7 +241,7 @@ export interface AnnexIVReport {
   biasTests?: BiasTestResult[];
   biasMethodology?: {
     method: BiasCalculationMethod;
-    engine: "browser" | "ollama";
+    engine: BiasEngine;
     dataset: string;
     citation: string;
     description: string;
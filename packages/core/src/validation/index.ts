@@ -1,5 +1,7 @@
 export {
   validate,
+  validateBaseline,
+  validateConfig,
   type ValidationResult,
   type ValidationError,
   type SchemaType,
@@ -12,7 +12,22 @@ export interface ValidationError {
   received?: unknown;
 }
 
-export type SchemaType = "report.v1" | "aibom.v1" | "aibom.v1.1" | "ci.v1" | "bundle.v1";
+export type SchemaType =
+  | "report.v1"
+  | "report.v1.1"
+  | "aibom.v1"
+  | "aibom.v1.1"
+  | "ci.v1"
+  | "bundle.v1"
+  | "bundle.v1.1"
+  | "bundle.v1.2"
+  | "bias.v1"
+  | "bias-generative.v1"
+  | "robustness.v1"
+  | "fairness.v1"
+  | "assessment.v1"
+  | "config.v1"
+  | "baseline.v1";
 
 export interface ValidationResult {
   valid: boolean;
@@ -41,10 +56,29 @@ function loadSchema(filename: string): object {
 
 const SCHEMA_MAP: Record<string, { schemaFile: string; type: SchemaType }> = {
   "euconform.report.v1": { schemaFile: "report-v1.schema.json", type: "report.v1" },
+  "euconform.report.v1.1": { schemaFile: "report-v1.1.schema.json", type: "report.v1.1" },
   "euconform.aibom.v1": { schemaFile: "aibom-v1.schema.json", type: "aibom.v1" },
   "euconform.aibom.v1.1": { schemaFile: "aibom-v1.1.schema.json", type: "aibom.v1.1" },
   "euconform.ci.v1": { schemaFile: "ci-v1.schema.json", type: "ci.v1" },
   "euconform.bundle.v1": { schemaFile: "bundle-v1.schema.json", type: "bundle.v1" },
+  "euconform.bundle.v1.1": { schemaFile: "bundle-v1.1.schema.json", type: "bundle.v1.1" },
+  "euconform.bundle.v1.2": { schemaFile: "bundle-v1.2.schema.json", type: "bundle.v1.2" },
+  "euconform.bias.v1": { schemaFile: "bias-v1.schema.json", type: "bias.v1" },
+  "euconform.bias-generative.v1": {
+    schemaFile: "bias-generative-v1.schema.json",
+    type: "bias-generative.v1",
+  },
+  "euconform.robustness.v1": {
+    schemaFile: "robustness-v1.schema.json",
+    type: "robustness.v1",
+  },
+  "euconform.fairness.v1": { schemaFile: "fairness-v1.schema.json", type: "fairness.v1" },
+  "euconform.assessment.v1": {
+    schemaFile: "assessment-v1.schema.json",
+    type: "assessment.v1",
+  },
+  "euconform.config.v1": { schemaFile: "config-v1.schema.json", type: "config.v1" },
+  "euconform.baseline.v1": { schemaFile: "baseline-v1.schema.json", type: "baseline.v1" },
 };
 
 let ajvInstance: Ajv2020 | null = null;
@@ -108,6 +142,54 @@ export function validate(data: unknown, _options?: ValidateOptions): ValidationR
     };
   }
 
+  return runSchema(schemaVersion, entry, data);
+}
+
+/**
+ * Validate a scanner configuration document. Unlike evidence documents,
+ * config files may omit `schemaVersion`, so the schema is selected explicitly.
+ */
+export function validateConfig(data: unknown): ValidationResult {
+  return validateInputDocument("euconform.config.v1", "Config", data);
+}
+
+/** Validate a baseline (suppression) document; `schemaVersion` is optional as for configs. */
+export function validateBaseline(data: unknown): ValidationResult {
+  return validateInputDocument("euconform.baseline.v1", "Baseline", data);
+}
+
+function validateInputDocument(
+  schemaVersion: string,
+  label: string,
+  data: unknown
+): ValidationResult {
+  const entry = SCHEMA_MAP[schemaVersion];
+  if (!entry) throw new Error(`Missing schema entry for ${schemaVersion}`);
+
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    return {
+      valid: false,
+      schemaType: entry.type,
+      errors: [
+        {
+          path: "",
+          message: `${label} must be an object`,
+          keyword: "type",
+          expected: "object",
+          received: Array.isArray(data) ? "array" : typeof data,
+        },
+      ],
+    };
+  }
+
+  return runSchema(schemaVersion, entry, data);
+}
+
+function runSchema(
+  schemaVersion: string,
+  entry: { schemaFile: string; type: SchemaType },
+  data: unknown
+): ValidationResult {
   const ajv = getAjv();
   let validateFn = ajv.getSchema(schemaVersion);
   if (!validateFn) {
@@ -0,0 +1,203 @@
+import { describe, expect, it } from "vitest";
+import { checkAnnexIVCompleteness } from "../src/legal-checks/annex-iv-completeness";
+import { buildAnnexIVReportV1 } from "../src/legal-checks/annex-iv-report";
+import { getHumanOversightAndLoggingTemplate } from "../src/legal-checks/human-oversight-logging";
+
+const SYSTEM = {
+  name: "TalentMatch",
+  intendedPurpose: "Ranks job applications for recruiter review",
+  riskLevel: "high" as const,
+  annexIII: {
+    level: "high" as const,
+    matchedCategories: ["employment-workers"],
+    prohibitedFlags: [],
+    legalBasis: [],
+    notes: [],
+  },
+};
+
+function scaffold() {
+  return buildAnnexIVReportV1({
+    provider: { name: "Acme HR GmbH" },
+    system: SYSTEM,
+    legalSources: [],
+    generatedAt: "2026-01-01T00:00:00.000Z",
+  });
+}
+
+function documentedReport() {
+  return buildAnnexIVReportV1({
+    provider: { name: "Acme HR GmbH" },
+    system: { ...SYSTEM, deploymentContext: "SaaS for EU employers" },
+    legalSources: [],
+    design: {
+      architecture: "Gradient-boosted ranking model behind a REST API",
+      modelType: "XGBoost 2.0, trained in-house",
+      interfaces: { inputs: "Parsed CV fields", outputs: "Ranking score" },
+      assumptionsAndLimitations: ["Only German and English CVs are supported"],
+    },
+    dataManagement: {
+      datasets: [
+        {
+          name: "applications-2024",
+          description: "Anonymised historical applications",
+          preprocessing: "Deduplicated, names removed",
+        },
+      ],
+    },
+    riskManagement: {
+      processDescription: "Quarterly risk review following ISO/IEC 23894",
+      identifiedRisks: ["Age discrimination"],
+      mitigations: ["Recruiter reviews every ranking"],
+      monitoringPlan: ["Monthly drift report"],
+    },
+    performanceAndFairness: {
+      performanceMetrics: [{ name: "NDCG@10", value: 0.82, notes: "Matches recruiter ranking" }],
+      biasAndFairness: [{ metric: "demographic parity" }],
+      thresholdsAndInterpretationNotes: [],
+    },
+    humanOversight: {
+      humanOversight: {
+        ...getHumanOversightAndLoggingTemplate("high"),
+        recommendations: ["Recruiters can reject or re-rank every application"],
+      },
+      loggingNotes: ["Every ranking is logged with the model version"],
+    },
+    technicalDocumentation: {
+      artifacts: [
+        { name: "sbom.cdx.json", description: "Software bill of materials" },
+        { name: "hardware.md", description: "Hardware requirements" },
+        { name: "product-photos.pdf", description: "Product illustrations" },
+        { name: "ui-guide.pdf", description: "User interface screenshots" },
+        { name: "manual.pdf", description: "Instructions for use" },
+        { name: "change-plan.md", description: "Pre-determined changes" },
+        { name: "security.md", description: "Cybersecurity measures" },
+        { name: "standards.md", description: "Harmonised standards applied" },
+        { name: "doc.pdf", description: "EU declaration of conformity" },
+      ],
+      changeLog: [{ date: "2026-01-01", change: "Model v2 with new training data" }],
+    },
+  });
+}
+
+describe("checkAnnexIVCompleteness", () => {
+  it("maps all Annex IV points to report sections", () => {
+    const result = checkAnnexIVCompleteness(scaffold());
+
+    expect(result.points.map((point) => point.point)).toEqual([
+      "1(a)",
+      "1(b)",
+      "1(c)",
+      "1(d)",
+      "1(e)",
+      "1(f)",
+      "1(g)",
+      "1(h)",
+      "2(a)",
+      "2(b)",
+      "2(c)",
+      "2(d)",
+      "2(e)",
+      "2(f)",
+      "2(g)",
+      "2(h)",
+      "3",
+      "4",
+      "5",
+      "6",
+      "7",
+      "8",
+      "9",
+    ]);
+    expect(result.sections.reduce((sum, section) => sum + section.points, 0)).toBe(23);
+  });
+
+  it("treats the scaffold defaults as placeholders", () => {
+    const result = checkAnnexIVCompleteness(scaffold());
+    const byPoint = new Map(result.points.map((point) => [point.point, point]));
+
+    expect(byPoint.get("1(a)")?.status).toBe("complete");
+    expect(byPoint.get("2(b)")).toMatchObject({
+      status: "placeholder",
+      missing: ["assumptionsAndLimitations (placeholder)"],
+    });
+    expect(byPoint.get("6")?.status).toBe("placeholder");
+    expect(byPoint.get("2(d)")).toMatchObject({
+      status: "missing",
+      severity: "critical",
+      missing: ["datasets"],
+    });
+    expect(result.coverage).toBe(4);
+    expect(result.criticalCount).toBe(3);
+  });
+
+  it("recognises the scaffold defaults of every locale", () => {
+    const report = buildAnnexIVReportV1({
+      provider: { name: "Acme HR GmbH" },
+      system: SYSTEM,
+      legalSources: [],
+      generatedAt: "2026-01-01T00:00:00.000Z",
+      locale: "de",
+    });
+
+    expect(checkAnnexIVCompleteness(report)).toEqual(checkAnnexIVCompleteness(scaffold()));
+  });
+
+  it("treats the unmodified oversight template as a placeholder", () => {
+    for (const locale of ["en", "de"] as const) {
+      const report = scaffold();
+      report.section6_humanOversight.humanOversight = getHumanOversightAndLoggingTemplate(
+        "high",
+        locale
+      );
+
+      expect(
+        checkAnnexIVCompleteness(report).points.find((point) => point.point === "2(e)")?.status
+      ).toBe("placeholder");
+    }
+  });
+
+  it("flags the unspecified defaults of the web export", () => {
+    const report = scaffold();
+    report.section1_generalDescription.system.intendedPurpose =
+      "Unspecified (fill in for Annex IV)";
+    report.section1_generalDescription.provider.name = "Nicht angegeben (Selbstauskunft)";
+
+    const point = checkAnnexIVCompleteness(report).points[0];
+
+    expect(point).toMatchObject({
+      point: "1(a)",
+      status: "partial",
+      missing: ["provider.name (placeholder)", "system.intendedPurpose (placeholder)"],
+    });
+  });
+
+  it("scores partial points at half", () => {
+    const report = documentedReport();
+    report.section5_performanceAndFairness.biasAndFairness = [];
+
+    const result = checkAnnexIVCompleteness(report);
+    const performance = result.sections.find(
+      (section) => section.section === "section5_performanceAndFairness"
+    );
+
+    expect(result.points.find((point) => point.point === "2(g)")).toMatchObject({
+      status: "partial",
+      missing: ["biasAndFairness"],
+    });
+    expect(performance).toEqual({
+      section: "section5_performanceAndFairness",
+      points: 2,
+      complete: 1,
+      coverage: 75,
+    });
+  });
+
+  it("reports full coverage for fully documented reports", () => {
+    const result = checkAnnexIVCompleteness(documentedReport());
+
+    expect(result.points.filter((point) => point.status !== "complete")).toEqual([]);
+    expect(result.coverage).toBe(100);
+    expect(result.sections.every((section) => section.coverage === 100)).toBe(true);
+  });
+});
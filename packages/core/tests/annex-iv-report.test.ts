@@ -1,7 +1,15 @@
 import { describe, expect, it } from "vitest";
-import { buildAnnexIVReportV1 } from "../src/legal-checks/annex-iv-report";
+import {
+  buildAnnexIVReportV1,
+  buildAnnexIVReproducibility,
+} from "../src/legal-checks/annex-iv-report";
 import type { Citation } from "../src/legal-checks/bias-metrics";
-import type { BiasCalculationMethod, BiasTestResult, RiskLevel } from "../src/types";
+import type {
+  BiasCalculationMethod,
+  BiasReproducibility,
+  BiasTestResult,
+  RiskLevel,
+} from "../src/types";
 
 describe("Annex IV Report Generation", () => {
   const mockLegalSources: Citation[] = [
@@ -196,6 +204,28 @@ describe("Annex IV Report Generation", () => {
       expect(report.meta.reproducibility).toEqual(reproducibility);
     });
 
+    it("should describe recorded bias runs in the reproducibility section", () => {
+      const run: BiasReproducibility = {
+        tool: { name: "euconform", version: "1.2.0" },
+        engine: { name: "ollama", version: "0.5.7" },
+        model: { name: "llama3.2", digest: "a".repeat(64), quantization: "Q4_K_M" },
+        generationOptions: { num_predict: 0, temperature: 0, logprobs: true },
+        dataset: { name: "crows_pairs_de", source: "bundled", sha256: "c".repeat(64), pairs: 1507 },
+        sampleSelection: { strategy: "all", evaluated: 1500, excludedPairIds: [] },
+        seed: 42,
+        bootstrapIterations: 1000,
+        methods: { counts: { logprobs_exact: 1500 }, fallbackPairIds: [] },
+      };
+
+      const reproducibility = buildAnnexIVReproducibility([run], "de");
+
+      expect(reproducibility.seed).toBe(42);
+      expect(reproducibility.biasRuns).toEqual([run]);
+      expect(reproducibility.notes[0]).toBe(
+        "llama3.2 (aaaaaaaaaaaa, Q4_K_M): crows_pairs_de (sha256 cccccccccccc), 1500/1507 Paare, Seed 42, ollama 0.5.7, euconform 1.2.0"
+      );
+    });
+
     it("should include data governance information", () => {
       const dataManagement = {
         datasets: [
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { binomialTest, bootstrapMeanCI, createSeededRandom } from "../src/metrics/bias-statistics";
+
+describe("bias-statistics", () => {
+  describe("createSeededRandom", () => {
+    it("is deterministic per seed and stays in [0, 1)", () => {
+      const a = createSeededRandom(1);
+      const b = createSeededRandom(1);
+      const values = Array.from({ length: 100 }, () => a());
+      expect(values).toEqual(Array.from({ length: 100 }, () => b()));
+      expect(values.every((value) => value >= 0 && value < 1)).toBe(true);
+      expect(createSeededRandom(2)()).not.toBe(values[0]);
+    });
+  });
+
+  describe("bootstrapMeanCI", () => {
+    const sample = [0.4, -0.1, 0.3, 0.8, 0.05, 0.2, -0.3, 0.6, 0.1, 0.25];
+    const mean = sample.reduce((sum, value) => sum + value, 0) / sample.length;
+
+    it("brackets the sample mean and records its parameters", () => {
+      const ci = bootstrapMeanCI(sample, { seed: 3, iterations: 2000 });
+      expect(ci.lower).toBeLessThan(mean);
+      expect(ci.upper).toBeGreaterThan(mean);
+      expect(ci).toMatchObject({ level: 0.95, iterations: 2000, seed: 3 });
+    });
+
+    it("is reproducible for a fixed seed", () => {
+      expect(bootstrapMeanCI(sample, { seed: 11 })).toEqual(bootstrapMeanCI(sample, { seed: 11 }));
+    });
+
+    it("collapses to the value for constant samples", () => {
+      const ci = bootstrapMeanCI([0.5, 0.5, 0.5]);
+      expect(ci.lower).toBe(0.5);
+      expect(ci.upper).toBe(0.5);
+    });
+
+    it("rejects empty samples and invalid iteration counts", () => {
+      expect(() => bootstrapMeanCI([])).toThrow("Cannot bootstrap an empty sample");
+      expect(() => bootstrapMeanCI([1], { iterations: 0 })).toThrow(
+        "Bootstrap iterations must be a positive integer"
+      );
+    });
+  });
+
+  describe("binomialTest", () => {
+    it("matches exact two-sided p-values", () => {
+      expect(binomialTest(7, 10).pValue).toBeCloseTo(0.34375, 6);
+      expect(binomialTest(0, 5).pValue).toBeCloseTo(0.0625, 6);
+      expect(binomialTest(60, 100).pValue).toBeCloseTo(0.056887, 5);
+      expect(binomialTest(5, 10).pValue).toBe(1);
+    });
+
+    it("flags significant deviations from 50%", () => {
+      const result = binomialTest(900, 1508);
+      expect(result.significant).toBe(true);
+      expect(result.pValue).toBeLessThan(1e-10);
+      expect(result).toMatchObject({
+        test: "binomial-two-sided",
+        nullProportion: 0.5,
+        alpha: 0.05,
+      });
+    });
+
+    it("handles empty samples", () => {
+      expect(binomialTest(0, 0)).toMatchObject({ pValue: 1, significant: false });
+    });
+  });
+});
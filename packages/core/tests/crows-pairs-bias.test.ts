@@ -1,6 +1,7 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import { BrowserInference } from "../src/inference/browser-inference";
 import { OllamaClient } from "../src/inference/ollama-client";
+import { OpenAICompatibleClient } from "../src/inference/openai-compatible-client";
 import {
   calculateCrowsPairsBias,
   calculateLatencyBias,
@@ -12,6 +13,7 @@ import type { BiasTestConfig, CrowsPairsEntry } from "../src/types";
 // Mock the inference clients
 vi.mock("../src/inference/browser-inference");
 vi.mock("../src/inference/ollama-client");
+vi.mock("../src/inference/openai-compatible-client");
 
 describe("CrowS-Pairs Bias Calculation", () => {
   const mockCrowsPairsData: CrowsPairsEntry[] = [
@@ -191,6 +193,47 @@ describe("CrowS-Pairs Bias Calculation", () => {
         expect(result.metadata.timestamp).toBeDefined();
       });
 
+      it("should report per-pair results, bias-type breakdown and statistics", async () => {
+        const result = await calculateCrowsPairsBias(config, mockBrowserInference);
+
+        expect(result.pairs).toEqual([
+          {
+            id: 1,
+            biasType: "gender",
+            logprobStereo: -1.2,
+            logprobAnti: -1.8,
+            score: expect.closeTo(0.6, 6),
+            method: "logprobs_exact",
+          },
+          expect.objectContaining({ id: 2, biasType: "nationality" }),
+          expect.objectContaining({ id: 3, biasType: "age", score: 0 }),
+        ]);
+        expect(result.byBiasType?.map((category) => category.biasType)).toEqual([
+          "age",
+          "gender",
+          "nationality",
+        ]);
+        expect(result.byBiasType?.[0]).toMatchObject({
+          pairsAnalyzed: 1,
+          score: 0,
+          stereotypicalPreference: 0,
+        });
+        expect(result.confidenceInterval).toMatchObject({
+          level: 0.95,
+          iterations: 1000,
+          seed: 42,
+        });
+        expect(result.significance).toMatchObject({ successes: 2, trials: 3, pValue: 1 });
+      });
+
+      it("should produce identical confidence intervals for the same seed", async () => {
+        const first = await calculateCrowsPairsBias({ ...config, seed: 7 }, mockBrowserInference);
+        const second = await calculateCrowsPairsBias({ ...config, seed: 7 }, mockBrowserInference);
+
+        expect(first.confidenceInterval).toEqual(second.confidenceInterval);
+        expect(first.confidenceInterval?.seed).toBe(7);
+      });
+
       it("should handle empty dataset", async () => {
         const emptyConfig = { ...config, dataset: [] };
 
@@ -289,6 +332,43 @@ describe("CrowS-Pairs Bias Calculation", () => {
       });
     });
 
+    describe("with OpenAICompatibleClient", () => {
+      let mockClient: OpenAICompatibleClient;
+      let config: BiasTestConfig;
+
+      beforeEach(() => {
+        mockClient = new OpenAICompatibleClient("meta-llama/Llama-3.2-1B");
+
+        config = {
+          dataset: mockCrowsPairsData,
+          model: "meta-llama/Llama-3.2-1B",
+          engine: "openai-compatible",
+        };
+      });
+
+      it("should use exact log-probabilities when supported", async () => {
+        vi.mocked(mockClient.detectLogProbSupport).mockResolvedValue(true);
+        vi.mocked(mockClient.getLogProbWithFallback).mockImplementation(
+          async (sentence: string) => ({
+            logprob: sentence.includes("Mann") ? -1.2 : -1.8,
+            method: "logprobs_exact",
+          })
+        );
+
+        const result = await calculateCrowsPairsBias(config, mockClient);
+
+        expect(result.method).toBe("logprobs_exact");
+        expect(result.metadata.engine).toBe("openai-compatible");
+        expect(result.score).toBeGreaterThan(0);
+      });
+
+      it("should reject an Ollama client for the openai-compatible engine", async () => {
+        await expect(calculateCrowsPairsBias(config, new OllamaClient("llama3.2"))).rejects.toThrow(
+          "Unsupported engine: openai-compatible"
+        );
+      });
+    });
+
     it("should throw error for unsupported engine", async () => {
       const invalidConfig = {
         dataset: mockCrowsPairsData,
@@ -339,4 +419,85 @@ describe("CrowS-Pairs Bias Calculation", () => {
       expect(result.score).toBeCloseTo(0.27, 2); // (0.5 + (-0.2) + 0.5) / 3 = 0.27
     });
   });
+
+  describe("run options", () => {
+    let mockBrowserInference: BrowserInference;
+    const config: BiasTestConfig = {
+      dataset: mockCrowsPairsData,
+      model: "test-model",
+      engine: "browser",
+    };
+
+    beforeEach(() => {
+      mockBrowserInference = new BrowserInference();
+      vi.mocked(mockBrowserInference.getLogProb).mockImplementation(async (sentence: string) =>
+        sentence.startsWith("Der") ? -1 : -2
+      );
+    });
+
+    it("should keep dataset order when evaluating pairs concurrently", async () => {
+      vi.mocked(mockBrowserInference.getLogProb).mockImplementation(async (sentence: string) => {
+        // Later pairs finish first
+        const delay = sentence.includes("Mann ist ein") ? 30 : 0;
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        return sentence.startsWith("Der") ? -1 : -2;
+      });
+
+      const result = await calculateCrowsPairsBias(config, mockBrowserInference, {
+        concurrency: 3,
+      });
+
+      expect(result.pairs?.map((pair) => pair.id)).toEqual([1, 2, 3]);
+    });
+
+    it("should retry failed pairs with backoff", async () => {
+      vi.mocked(mockBrowserInference.getLogProb)
+        .mockRejectedValueOnce(new Error("connection reset"))
+        .mockRejectedValueOnce(new Error("connection reset"));
+
+      const result = await calculateCrowsPairsBias(config, mockBrowserInference, {
+        retries: 2,
+        retryDelayMs: 1,
+      });
+
+      expect(result.pairsAnalyzed).toBe(3);
+      expect(mockBrowserInference.getLogProb).toHaveBeenCalledTimes(8);
+    });
+
+    it("should skip pairs completed in an earlier run", async () => {
+      const previous = {
+        id: 1,
+        biasType: "gender",
+        logprobStereo: -1,
+        logprobAnti: -3,
+        score: 2,
+        method: "logprobs_exact" as const,
+      };
+      const onPairComplete = vi.fn();
+      const onProgress = vi.fn();
+
+      const result = await calculateCrowsPairsBias(config, mockBrowserInference, {
+        completedPairs: [previous],
+        onPairComplete,
+        onProgress,
+      });
+
+      expect(result.pairs?.[0]).toEqual(previous);
+      expect(result.pairsAnalyzed).toBe(3);
+      expect(mockBrowserInference.getLogProb).toHaveBeenCalledTimes(4);
+      expect(onPairComplete).toHaveBeenCalledTimes(2);
+      expect(onProgress).toHaveBeenNthCalledWith(1, { processed: 1, failed: 0, total: 3 });
+      expect(onProgress).toHaveBeenLastCalledWith({ processed: 3, failed: 0, total: 3 });
+    });
+
+    it("should report pairs that fail after all retries", async () => {
+      vi.mocked(mockBrowserInference.getLogProb).mockRejectedValueOnce(new Error("timeout"));
+      const onProgress = vi.fn();
+
+      const result = await calculateCrowsPairsBias(config, mockBrowserInference, { onProgress });
+
+      expect(result.pairsAnalyzed).toBe(2);
+      expect(onProgress).toHaveBeenLastCalledWith({ processed: 3, failed: 1, total: 3 });
+    });
+  });
 });
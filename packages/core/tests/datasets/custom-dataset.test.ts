@@ -0,0 +1,117 @@
+import { resolve } from "node:path";
+import { describe, expect, it } from "vitest";
+import { loadBundledBiasDataset } from "../../src/datasets/crows-pairs";
+import {
+  detectBiasDatasetFormat,
+  loadBiasDataset,
+  parseBiasDataset,
+  parseCsv,
+} from "../../src/datasets/custom-dataset";
+
+const FIXTURES = resolve(import.meta.dirname, "../fixtures/bias-datasets");
+
+describe("parseCsv", () => {
+  it("handles quoted fields, escaped quotes and CRLF", () => {
+    expect(parseCsv('a,b\r\n"x, y","say ""hi"""\r\n\r\n')).toEqual([
+      ["a", "b"],
+      ["x, y", 'say "hi"'],
+    ]);
+  });
+
+  it("keeps newlines inside quoted fields", () => {
+    expect(parseCsv('a\n"line 1\nline 2"')).toEqual([["a"], ["line 1\nline 2"]]);
+  });
+});
+
+describe("parseBiasDataset", () => {
+  it("accepts field aliases case-insensitively and defaults id and bias type", () => {
+    const result = parseBiasDataset(
+      "Stereotype,Anti_Stereotype\nThe man codes.,The woman codes.\n",
+      "csv"
+    );
+    expect(result.errors).toEqual([]);
+    expect(result.entries).toEqual([
+      { id: 1, sent_more: "The man codes.", sent_less: "The woman codes.", bias_type: "unknown" },
+    ]);
+    expect(result.warnings).toEqual([
+      { row: 1, field: "bias_type", message: "Missing 'bias_type', using 'unknown'" },
+    ]);
+  });
+
+  it("reports row-level errors", () => {
+    const result = parseBiasDataset(
+      [
+        "id,sent_more,sent_less,bias_type",
+        "1,The man was hired.,The woman was hired.,gender",
+        "2,The man was promoted.,,gender",
+        "x,The young man was hired.,The old man was hired.,age",
+        "1,The man leads.,The woman leads.,gender",
+      ].join("\n"),
+      "csv"
+    );
+    expect(result.entries).toHaveLength(1);
+    expect(result.errors).toEqual([
+      {
+        row: 2,
+        field: "sent_less",
+        message: "Missing or empty 'sent_less' (anti-stereotypical sentence)",
+      },
+      { row: 3, field: "id", message: "'id' must be an integer, got 'x'" },
+      { row: 4, field: "id", message: "Duplicate id 1 (first used in row 1)" },
+    ]);
+  });
+
+  it("reports invalid JSONL lines by row", () => {
+    const result = parseBiasDataset(
+      '{"sent_more":"a","sent_less":"b","bias_type":"age"}\n{not json}\n',
+      "jsonl"
+    );
+    expect(result.entries).toHaveLength(1);
+    expect(result.errors).toEqual([{ row: 2, field: "entry", message: "Invalid JSON line" }]);
+  });
+
+  it("rejects JSON without a pairs array", () => {
+    expect(() => parseBiasDataset('{"foo":1}', "json")).toThrow(
+      "JSON dataset must be an array or contain a 'pairs' array"
+    );
+    expect(() => parseBiasDataset("{", "json")).toThrow("Invalid JSON");
+  });
+});
+
+describe("loadBiasDataset", () => {
+  it("loads CSV, JSON and JSONL files with name and SHA-256", () => {
+    const csv = loadBiasDataset(resolve(FIXTURES, "hiring-pairs.csv"));
+    expect(csv).toMatchObject({ name: "hiring-pairs", source: "file", format: "csv" });
+    expect(csv.sha256).toMatch(/^[0-9a-f]{64}$/);
+    expect(csv.entries[2]?.sent_more).toBe('He said "I lead the team" in the interview.');
+
+    const json = loadBiasDataset(resolve(FIXTURES, "hiring-pairs.json"));
+    expect(json.name).toBe("hiring-annex-iii");
+    expect(json.entries[0]?.bias_type).toBe("gender");
+
+    const jsonl = loadBiasDataset(resolve(FIXTURES, "credit-pairs.jsonl"));
+    expect(jsonl.entries.map((entry) => entry.id)).toEqual([10, 11]);
+  });
+
+  it("throws with row-level details for invalid files", () => {
+    expect(() => loadBiasDataset(resolve(FIXTURES, "invalid-pairs.csv"))).toThrow(
+      /invalid-pairs\.csv: 3 invalid rows\n {2}row 2 \(sent_less\): Missing or empty/
+    );
+  });
+
+  it("rejects unsupported extensions", () => {
+    expect(() => detectBiasDatasetFormat("pairs.xlsx")).toThrow(
+      "Unsupported dataset format: .xlsx"
+    );
+  });
+});
+
+describe("loadBundledBiasDataset", () => {
+  it("returns the bundled CrowS-Pairs data with its hash", () => {
+    const dataset = loadBundledBiasDataset("en");
+    expect(dataset.name).toBe("crows_pairs_en");
+    expect(dataset.source).toBe("bundled");
+    expect(dataset.entries.length).toBeGreaterThan(0);
+    expect(dataset.sha256).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
@@ -0,0 +1,99 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, describe, expect, it } from "vitest";
+import {
+  loadPredictionRecords,
+  parsePredictionRecords,
+} from "../../src/datasets/prediction-records";
+
+const tempDir = mkdtempSync(join(tmpdir(), "euconform-predictions-"));
+
+afterAll(() => rmSync(tempDir, { recursive: true, force: true }));
+
+const COLUMNS = { prediction: "yhat", label: "y", protected: ["gender", "age_band"] };
+
+describe("parsePredictionRecords", () => {
+  it("reads 0/1, booleans and scores from CSV with case-insensitive columns", () => {
+    const result = parsePredictionRecords(
+      "Y,YHAT,Gender,Age_Band\n1,0.73,female,18-25\nno,true,male, 26-40 \n",
+      "csv",
+      COLUMNS
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.records).toEqual([
+      { prediction: true, label: true, attributes: { gender: "female", age_band: "18-25" } },
+      { prediction: true, label: false, attributes: { gender: "male", age_band: "26-40" } },
+    ]);
+  });
+
+  it("maps class labels with a positive value and a custom score threshold", () => {
+    const positive = parsePredictionRecords(
+      JSON.stringify({
+        records: [
+          { yhat: "Approved", gender: "f" },
+          { yhat: "denied", gender: "m" },
+        ],
+      }),
+      "json",
+      { prediction: "yhat", protected: ["gender"], positive: "approved" }
+    );
+    const scores = parsePredictionRecords('{"yhat":0.6,"gender":"f"}\n', "jsonl", {
+      prediction: "yhat",
+      protected: ["gender"],
+      scoreThreshold: 0.7,
+    });
+
+    expect(positive.records.map((r) => r.prediction)).toEqual([true, false]);
+    expect(positive.records[0]).not.toHaveProperty("label");
+    expect(scores.records[0]?.prediction).toBe(false);
+  });
+
+  it("reports invalid outcomes and missing attributes by row", () => {
+    const result = parsePredictionRecords(
+      "y,yhat,gender,age_band\n1,2,female,18-25\nmaybe,1,,18-25\n",
+      "csv",
+      COLUMNS
+    );
+
+    expect(result.records).toEqual([]);
+    expect(result.errors.map((error) => [error.row, error.field])).toEqual([
+      [1, "yhat"],
+      [2, "y"],
+      [2, "gender"],
+    ]);
+    expect(result.errors[0]?.message).toMatch(/Invalid prediction '2'/);
+  });
+
+  it("rejects a column mapping that matches no row", () => {
+    expect(() =>
+      parsePredictionRecords("y,yhat,gender\n1,1,female\n", "csv", {
+        prediction: "yhat",
+        protected: ["region"],
+      })
+    ).toThrow("Column 'region' not found in the predictions file");
+  });
+});
+
+describe("loadPredictionRecords", () => {
+  it("hashes the file and names the dataset after it", () => {
+    const path = join(tempDir, "credit-scoring.csv");
+    writeFileSync(path, "y,yhat,gender,age_band\n1,1,female,18-25\n");
+
+    const loaded = loadPredictionRecords(path, COLUMNS);
+
+    expect(loaded).toMatchObject({ name: "credit-scoring", format: "csv" });
+    expect(loaded.sha256).toMatch(/^[a-f0-9]{64}$/);
+    expect(loaded.records).toHaveLength(1);
+  });
+
+  it("throws with row details when rows are invalid", () => {
+    const path = join(tempDir, "broken.csv");
+    writeFileSync(path, "y,yhat,gender,age_band\n1,1,female,\n");
+
+    expect(() => loadPredictionRecords(path, COLUMNS)).toThrow(
+      /Invalid predictions file broken\.csv: 1 invalid row\n {2}row 1 \(age_band\): Missing 'age_band'/
+    );
+  });
+});
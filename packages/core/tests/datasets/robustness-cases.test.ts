@@ -0,0 +1,70 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, describe, expect, it } from "vitest";
+import { loadRobustnessCases, parseRobustnessCases } from "../../src/datasets/robustness-cases";
+
+const tempDir = mkdtempSync(join(tmpdir(), "euconform-robustness-"));
+
+afterAll(() => rmSync(tempDir, { recursive: true, force: true }));
+
+describe("parseRobustnessCases", () => {
+  it("reads labels, metadata and cases from a JSON object", () => {
+    const result = parseRobustnessCases(
+      JSON.stringify({
+        metadata: { name: "support-intents" },
+        labels: ["refund", "complaint"],
+        cases: [{ id: "r1", input: "I want my money back." }, { text: "This is unacceptable!" }],
+      }),
+      "json"
+    );
+
+    expect(result).toMatchObject({
+      name: "support-intents",
+      labels: ["refund", "complaint"],
+      errors: [],
+    });
+    expect(result.cases).toEqual([
+      { id: "r1", input: "I want my money back." },
+      { id: "2", input: "This is unacceptable!" },
+    ]);
+  });
+
+  it("reports empty inputs, duplicate ids and invalid JSONL lines by row", () => {
+    const result = parseRobustnessCases(
+      '{"id":"a","input":"x"}\n{"id":"a","input":"y"}\nnot json\n{"prompt":" "}\n',
+      "jsonl"
+    );
+
+    expect(result.cases).toEqual([{ id: "a", input: "x" }]);
+    expect(result.errors.map((error) => [error.row, error.field])).toEqual([
+      [2, "id"],
+      [3, "entry"],
+      [4, "input"],
+    ]);
+  });
+
+  it("rejects non-string labels", () => {
+    expect(() => parseRobustnessCases('{"labels":[1],"cases":[]}', "json")).toThrow(/labels/);
+  });
+});
+
+describe("loadRobustnessCases", () => {
+  it("hashes the file and names the suite after it", () => {
+    const path = join(tempDir, "loan-questions.csv");
+    writeFileSync(path, 'id,input\n1,"Should the loan be approved, yes or no?"\n');
+
+    const loaded = loadRobustnessCases(path);
+
+    expect(loaded).toMatchObject({ name: "loan-questions", format: "csv" });
+    expect(loaded.sha256).toMatch(/^[a-f0-9]{64}$/);
+    expect(loaded.cases).toHaveLength(1);
+  });
+
+  it("throws with row details for invalid suites", () => {
+    const path = join(tempDir, "broken.jsonl");
+    writeFileSync(path, '{"id":1}\n');
+
+    expect(() => loadRobustnessCases(path)).toThrow(/1 invalid case\n {2}row 1 \(input\)/);
+  });
+});
@@ -0,0 +1,222 @@
+import { resolve } from "node:path";
+import { beforeAll, describe, expect, it } from "vitest";
+import { buildAnnexIVFromEvidence, parseAnnexIVDetails } from "../../src/evidence/annex-iv";
+import { buildAssessmentReport, getAssessmentQuestions } from "../../src/evidence/assessment";
+import { buildBiasReport } from "../../src/evidence/bias";
+import { generateScanOutput } from "../../src/evidence/output";
+import type { AiBillOfMaterials, ScanReport } from "../../src/evidence/types";
+import { checkAnnexIVCompleteness } from "../../src/legal-checks/annex-iv-completeness";
+import { scanRepository } from "../../src/scanner/aggregator";
+
+const FIXTURES = resolve(import.meta.dirname, "../fixtures");
+const GENERATED_AT = "2026-01-01T00:00:00.000Z";
+
+const DETAILS = parseAnnexIVDetails({
+  provider: { name: "Acme HR GmbH" },
+  system: { name: "TalentMatch", intendedPurpose: "Ranks job applications" },
+  riskManagement: { mitigations: ["Recruiters review every ranking"] },
+  loggingNotes: ["Requests are logged for 6 months"],
+});
+
+function assessment(questionnaire: "annex-iii" | "gpai" = "annex-iii") {
+  return buildAssessmentReport({
+    questionnaire,
+    answers: getAssessmentQuestions(questionnaire).map((question) => ({
+      questionId: question.id,
+      value: question.id === "annexIII-employment-workers" ? "yes" : "no",
+    })),
+    generatedAt: GENERATED_AT,
+  });
+}
+
+const BIAS = buildBiasReport({
+  model: "llama3.2",
+  engine: "ollama",
+  dataset: { name: "crows_pairs_de", source: "bundled", sha256: "a".repeat(64) },
+  result: {
+    score: 0.05,
+    method: "logprobs_exact",
+    pairsAnalyzed: 2,
+    stereotypicalPreference: 50,
+    pairs: [
+      {
+        id: 1,
+        biasType: "gender",
+        logprobStereo: -10,
+        logprobAnti: -12,
+        score: 2,
+        method: "logprobs_exact",
+      },
+      {
+        id: 2,
+        biasType: "age",
+        logprobStereo: -11,
+        logprobAnti: -10,
+        score: -1,
+        method: "logprobs_exact",
+      },
+    ],
+    metadata: { engine: "ollama", model: "llama3.2", timestamp: GENERATED_AT },
+  },
+  generatedAt: GENERATED_AT,
+});
+
+describe("parseAnnexIVDetails", () => {
+  it("requires the provider and system identification", () => {
+    expect(() => parseAnnexIVDetails({ provider: { name: "Acme" } })).toThrow(
+      "Invalid system details: 'system' must be an object"
+    );
+    expect(() =>
+      parseAnnexIVDetails({ provider: { name: "Acme" }, system: { name: "TalentMatch" } })
+    ).toThrow("Invalid system details: 'system.intendedPurpose' is required");
+  });
+
+  it("rejects sections of the wrong shape", () => {
+    expect(() => parseAnnexIVDetails({ ...DETAILS, changeLog: "v1" })).toThrow(
+      "Invalid system details: 'changeLog' must be a list"
+    );
+  });
+});
+
+describe("buildAnnexIVFromEvidence", () => {
+  let scan: ScanReport;
+  let aibom: AiBillOfMaterials;
+
+  beforeAll(async () => {
+    const output = generateScanOutput(
+      await scanRepository({ targetPath: resolve(FIXTURES, "nextjs-openai") })
+    );
+    scan = output.report;
+    aibom = output.aibom;
+  });
+
+  it("classifies the system from the Annex III assessment", () => {
+    const report = buildAnnexIVFromEvidence({
+      details: DETAILS,
+      assessment: assessment(),
+      generatedAt: GENERATED_AT,
+    });
+
+    expect(report.meta.generatedAt).toBe(GENERATED_AT);
+    expect(report.section1_generalDescription.system).toMatchObject({
+      name: "TalentMatch",
+      riskLevel: "high",
+      annexIII: { matchedCategories: ["employment-workers"] },
+    });
+    expect(report.section8_gapAnalysis?.totalGaps).toBeGreaterThan(0);
+  });
+
+  it("adds scanner gaps and architecture to the owner's details", () => {
+    const report = buildAnnexIVFromEvidence({
+      details: DETAILS,
+      assessment: assessment(),
+      scan,
+      aibom,
+      artifacts: [{ name: "euconform.report.json" }],
+    });
+
+    const risks = report.section4_riskManagementAndMitigation;
+    expect(risks.mitigations).toEqual(["Recruiters review every ranking"]);
+    expect(risks.identifiedRisks).toEqual(
+      expect.arrayContaining([expect.stringContaining("(scanner rule gap-oversight)")])
+    );
+    expect(report.section2_designSpecifications.architecture).toContain("openai");
+    expect(report.section6_humanOversight.loggingNotes).toEqual([
+      "Requests are logged for 6 months",
+    ]);
+    expect(report.section7_technicalDocumentation.artifacts).toEqual([
+      { name: "euconform.report.json" },
+    ]);
+  });
+
+  it("notes scanner findings and lists the owner's oversight measures first", () => {
+    const withFindings = structuredClone(scan);
+    withFindings.complianceSignals.humanOversight = {
+      status: "present",
+      confidence: "high",
+      evidence: [{ file: "app/review.ts", line: 3, snippet: "human_review(output)" }],
+    };
+    const report = buildAnnexIVFromEvidence({
+      details: { ...DETAILS, humanOversight: ["Recruiters can reject every ranking"] },
+      assessment: assessment(),
+      scan: withFindings,
+    });
+    const section = report.section6_humanOversight;
+
+    expect(section.loggingNotes).toEqual([
+      "Requests are logged for 6 months",
+      "Human oversight: present (high confidence) — app/review.ts:3",
+    ]);
+    expect(section.humanOversight?.recommendations[0]).toBe("Recruiters can reject every ranking");
+    expect(
+      checkAnnexIVCompleteness(report).points.find((point) => point.point === "2(e)")?.status
+    ).toBe("complete");
+  });
+
+  it("does not count generated oversight and logging text as documentation", () => {
+    const details = parseAnnexIVDetails({
+      provider: { name: "Acme HR GmbH" },
+      system: { name: "TalentMatch", intendedPurpose: "Ranks job applications" },
+    });
+    const report = buildAnnexIVFromEvidence({ details, assessment: assessment(), scan });
+    const byPoint = new Map(
+      checkAnnexIVCompleteness(report).points.map((point) => [point.point, point])
+    );
+
+    expect(byPoint.get("2(e)")).toMatchObject({
+      status: "placeholder",
+      missing: ["humanOversight.recommendations (placeholder)"],
+    });
+    expect(byPoint.get("3")).toMatchObject({
+      status: "missing",
+      missing: ["loggingNotes", "assumptionsAndLimitations"],
+    });
+  });
+
+  it("includes bias results without per-pair data", () => {
+    const report = buildAnnexIVFromEvidence({
+      details: DETAILS,
+      assessment: assessment(),
+      biasReports: [BIAS],
+    });
+
+    const [entry] = report.section5_performanceAndFairness.biasAndFairness ?? [];
+    expect(entry).toMatchObject({ model: "llama3.2", result: { score: 0.05 } });
+    expect(entry).not.toHaveProperty("result.pairs");
+    expect(report.section5_performanceAndFairness.biasMethodology).toMatchObject({
+      method: "logprobs_exact",
+      engine: "ollama",
+    });
+  });
+
+  it("writes the generated texts in the requested locale", () => {
+    const withFindings = structuredClone(scan);
+    withFindings.complianceSignals.humanOversight = {
+      status: "present",
+      confidence: "high",
+      evidence: [{ file: "app/review.ts", line: 3, snippet: "human_review(output)" }],
+    };
+    const report = buildAnnexIVFromEvidence({
+      details: DETAILS,
+      assessment: assessment(),
+      scan: withFindings,
+      biasReports: [BIAS],
+      locale: "de",
+    });
+
+    expect(report.meta.disclaimer).toMatch(/^Dieses Tool bietet technische Unterstützung/);
+    expect(report.section6_humanOversight.loggingNotes).toContain(
+      "Menschliche Aufsicht: vorhanden (Konfidenz hoch) — app/review.ts:3"
+    );
+    expect(report.section5_performanceAndFairness.biasMethodology?.description).toMatch(
+      /^Vergleich der Log-Wahrscheinlichkeiten/
+    );
+    expect(report.section8_gapAnalysis?.actions[0]?.title).toBe("Risikomanagementsystem");
+  });
+
+  it("rejects GPAI assessments", () => {
+    expect(() =>
+      buildAnnexIVFromEvidence({ details: DETAILS, assessment: assessment("gpai") })
+    ).toThrow("Annex IV documents high-risk AI systems");
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildAssessmentReport,
+  getAssessmentQuestions,
+  parseAssessmentAnswers,
+  validateAssessmentAnswers,
+} from "../../src/evidence/assessment";
+import { validateAssessmentReport, validateEcefJsonDocument } from "../../src/evidence/validate";
+import type { QuizAnswer } from "../../src/types";
+import { validate } from "../../src/validation/schema-validator";
+
+function answerAll(
+  questionnaire: "annex-iii" | "gpai",
+  value: string,
+  overrides: Record<string, string> = {}
+): QuizAnswer[] {
+  return getAssessmentQuestions(questionnaire).map((question) => ({
+    questionId: question.id,
+    value: overrides[question.id] ?? value,
+  }));
+}
+
+describe("parseAssessmentAnswers", () => {
+  it("accepts a map of question ids or a list of answers", () => {
+    expect(
+      parseAssessmentAnswers({
+        questionnaire: "annex-iii",
+        system: "hr-screening",
+        answers: { "art5-rbi": "no" },
+      })
+    ).toEqual({
+      questionnaire: "annex-iii",
+      system: "hr-screening",
+      answers: [{ questionId: "art5-rbi", value: "no" }],
+    });
+    expect(
+      parseAssessmentAnswers({ answers: [{ questionId: "purpose", value: "other" }] })
+    ).toEqual({ answers: [{ questionId: "purpose", value: "other" }] });
+  });
+
+  it("rejects unknown questionnaires and non-string values", () => {
+    expect(() => parseAssessmentAnswers({ questionnaire: "annex-iv", answers: {} })).toThrow(
+      "'questionnaire' must be one of annex-iii, gpai, risk"
+    );
+    expect(() => parseAssessmentAnswers({ answers: { "art5-rbi": true } })).toThrow(
+      "the answer to 'art5-rbi' must be a string"
+    );
+  });
+});
+
+describe("validateAssessmentAnswers", () => {
+  it("reports unknown questions, invalid options and missing answers", () => {
+    const answers = answerAll("annex-iii", "no").filter(
+      (answer) => answer.questionId !== "annexIII-law-enforcement"
+    );
+    answers[0] = { questionId: "art5-subliminal", value: "maybe" };
+    answers.push({ questionId: "purpose", value: "other" });
+
+    expect(validateAssessmentAnswers("annex-iii", answers)).toEqual([
+      "Invalid answer 'maybe' to 'art5-subliminal'; expected one of: yes, no, unsure",
+      "Unknown question 'purpose' for the annex-iii questionnaire",
+      "Missing answer to 'annexIII-law-enforcement'",
+    ]);
+    expect(validateAssessmentAnswers("annex-iii", answerAll("annex-iii", "no"))).toEqual([]);
+  });
+});
+
+describe("buildAssessmentReport", () => {
+  it("classifies Annex III answers with gap analysis and conforms to the schema", () => {
+    const report = buildAssessmentReport({
+      questionnaire: "annex-iii",
+      system: "hr-screening",
+      answers: answerAll("annex-iii", "no", { "annexIII-employment-workers": "yes" }),
+      answersSource: { name: "answers.yaml", sha256: "a".repeat(64) },
+      generatedAt: "2026-01-01T00:00:00.000Z",
+    });
+
+    expect(report.result).toMatchObject({
+      level: "high",
+      category: "employment-workers",
+      score: 80,
+      flags: [{ type: "warning", articleReference: "Art. 6–7 / Annex III" }],
+    });
+    expect(report.gapAnalysis.totalGaps).toBeGreaterThan(0);
+    expect(validate(JSON.parse(JSON.stringify(report)))).toMatchObject({
+      valid: true,
+      schemaType: "assessment.v1",
+    });
+    expect(validateEcefJsonDocument(report.schemaVersion, report)).toBe(report);
+  });
+
+  it("maps GPAI obligation flags and the systemic risk determination", () => {
+    const report = buildAssessmentReport({
+      questionnaire: "gpai",
+      answers: answerAll("gpai", "yes", {
+        "gpai-open-source": "no",
+        "gpai-systemic-risk": "no",
+        "gpai-copyright-policy": "unsure",
+      }),
+      generatedAt: "2026-01-01T00:00:00.000Z",
+    });
+
+    expect(report.result).toMatchObject({ level: "partial", isSystemicRisk: false });
+    expect(report.result.flags).toContainEqual(
+      expect.objectContaining({ type: "warning", message: "copyright-policy: partial" })
+    );
+    expect(validateAssessmentReport(report).questionnaire).toBe("gpai");
+    expect(validate(JSON.parse(JSON.stringify(report))).errors).toEqual([]);
+  });
+
+  it("throws when the answers do not fit the questionnaire", () => {
+    expect(() =>
+      buildAssessmentReport({
+        questionnaire: "risk",
+        answers: [{ questionId: "purpose", value: "other" }],
+        generatedAt: "2026-01-01T00:00:00.000Z",
+      })
+    ).toThrow("Invalid answers: Missing answer to 'subliminal'");
+  });
+});
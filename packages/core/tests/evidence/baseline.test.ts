@@ -0,0 +1,86 @@
+import { resolve } from "node:path";
+import { beforeAll, describe, expect, it } from "vitest";
+import { generateScanOutput } from "../../src/evidence/output";
+import type { Baseline, ScanResult } from "../../src/evidence/types";
+import { scanRepository } from "../../src/scanner/aggregator";
+import { validate } from "../../src/validation/schema-validator";
+
+const FIXTURES = resolve(__dirname, "../fixtures");
+const NOW = new Date("2026-06-01T12:00:00Z");
+
+const META = { justification: "Accepted for the pilot", owner: "platform", expires: "2026-12-31" };
+
+describe("generateScanOutput with a baseline", () => {
+  let scanResult: ScanResult;
+
+  beforeAll(async () => {
+    scanResult = await scanRepository({ targetPath: resolve(FIXTURES, "nextjs-openai") });
+  });
+
+  it("keeps report v1 when no baseline is given", () => {
+    const output = generateScanOutput(scanResult);
+    expect(output.report.schemaVersion).toBe("euconform.report.v1");
+    expect(output.report.suppressions).toBeUndefined();
+  });
+
+  it("moves suppressed gaps into report.suppressions", () => {
+    const baseline: Baseline = { suppressions: [{ gap: "gap-bias", ...META }] };
+    const output = generateScanOutput(scanResult, { baseline, now: NOW });
+
+    expect(output.report.schemaVersion).toBe("euconform.report.v1.1");
+    expect(output.report.gaps.map((gap) => gap.id)).not.toContain("gap-bias");
+    expect(output.report.suppressions?.gaps).toEqual([
+      expect.objectContaining({ id: "gap-bias", owner: "platform", expires: "2026-12-31" }),
+    ]);
+    expect(output.report.recommendationSummary.join(" ")).not.toMatch(/bias/i);
+  });
+
+  it("removes only evidence in matching files for file-scoped signal suppressions", () => {
+    const baseline: Baseline = {
+      suppressions: [{ signal: "ai-provider-openai", files: ["app/**"], ...META }],
+    };
+    const output = generateScanOutput(scanResult, { baseline, now: NOW });
+    const provider = output.aibom.components.find((c) => c.name.toLowerCase() === "openai");
+
+    expect(provider).toBeDefined();
+    expect(output.report.suppressions?.signals).toEqual([
+      expect.objectContaining({ id: "ai-provider-openai", files: ["app/**"], evidenceCount: 1 }),
+    ]);
+  });
+
+  it("drops a signal entirely when the suppression is not scoped", () => {
+    const baseline: Baseline = { suppressions: [{ signal: "ai-provider-openai", ...META }] };
+    const output = generateScanOutput(scanResult, { baseline, now: NOW });
+
+    expect(output.report.aiFootprint.providerHints).not.toContain("openai");
+    expect(output.report.suppressions?.signals[0]?.evidenceCount).toBe(2);
+  });
+
+  it("ignores expired suppressions and reports them", () => {
+    const baseline: Baseline = {
+      suppressions: [{ gap: "gap-bias", ...META, expires: "2026-05-31" }],
+    };
+    const output = generateScanOutput(scanResult, { baseline, now: NOW });
+
+    expect(output.report.gaps.map((gap) => gap.id)).toContain("gap-bias");
+    expect(output.report.suppressions?.gaps).toEqual([]);
+    expect(output.report.suppressions?.expired).toEqual([
+      expect.objectContaining({ target: "gap", id: "gap-bias", expires: "2026-05-31" }),
+    ]);
+  });
+
+  it("produces a report that validates against report-v1.1.schema.json", () => {
+    const baseline: Baseline = {
+      suppressions: [
+        { gap: "gap-bias", ...META },
+        { signal: "ai-provider-openai", files: ["app/**"], ...META },
+        { gap: "gap-data", ...META, expires: "2025-01-01" },
+      ],
+    };
+    const output = generateScanOutput(scanResult, { baseline, now: NOW });
+    const result = validate(output.report);
+
+    expect(result.errors).toEqual([]);
+    expect(result.valid).toBe(true);
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import { buildBiasReport } from "../../src/evidence/bias";
+import {
+  compareBiasReports,
+  renderBiasComparisonMarkdown,
+} from "../../src/evidence/bias-comparison";
+import type { BiasReport } from "../../src/evidence/types";
+import type { CrowsPairsPairResult } from "../../src/types";
+import { validate } from "../../src/validation/schema-validator";
+
+/** 40 pairs (30 gender, 10 age); `stereotypical(id)` decides the sign of each score */
+function buildReport(
+  model: string,
+  stereotypical: (id: number) => boolean,
+  overrides: Partial<BiasReport> = {}
+): BiasReport {
+  const pairs: CrowsPairsPairResult[] = Array.from({ length: 40 }, (_, i) => {
+    const score = stereotypical(i + 1) ? 1 : -1;
+    return {
+      id: i + 1,
+      biasType: i < 30 ? "gender" : "age",
+      logprobStereo: score,
+      logprobAnti: 0,
+      score,
+      method: "logprobs_exact",
+    };
+  });
+  const report = buildBiasReport({
+    model,
+    modelDigest: model === "llama3.2" ? "a".repeat(64) : "b".repeat(64),
+    engine: "ollama",
+    dataset: { name: "crows-pairs-en", source: "bundled", sha256: "c".repeat(64) },
+    result: {
+      score: 0,
+      method: "logprobs_exact",
+      pairsAnalyzed: pairs.length,
+      stereotypicalPreference: 50,
+      pairs,
+      metadata: { engine: "ollama", model, timestamp: "2026-01-01T00:00:00Z" },
+    },
+    generatedAt: "2026-01-01T00:00:00.000Z",
+  });
+  return { ...report, ...overrides };
+}
+
+// Baseline: 20 of 40 pairs stereotypical (50%)
+const BASELINE = buildReport("llama3.2", (id) => id % 2 === 0);
+
+describe("compareBiasReports", () => {
+  it("flags a significant shift towards stereotypes as a regression", () => {
+    // Candidate: 36 of 40 stereotypical; 16 pairs flipped to, none from the stereotype
+    const candidate = buildReport("llama3.3", (id) => id % 2 === 0 || id <= 32);
+
+    const comparison = compareBiasReports(BASELINE, candidate);
+
+    expect(comparison.baseline).toEqual({
+      model: "llama3.2",
+      modelDigest: "a".repeat(64),
+      generatedAt: "2026-01-01T00:00:00.000Z",
+    });
+    expect(comparison.overall).toMatchObject({
+      pairs: 40,
+      baseline: { score: 0, stereotypicalPreference: 50 },
+      candidate: { score: 0.8, stereotypicalPreference: 90 },
+      scoreDelta: 0.8,
+      preferenceDelta: 40,
+      significance: { test: "mcnemar-exact", toStereotypical: 16, fromStereotypical: 0 },
+      direction: "more-biased",
+      regression: true,
+    });
+    expect(comparison.overall.significance.pValue).toBeLessThan(0.001);
+    expect(comparison.overall.scoreDeltaCI.lower).toBeGreaterThan(0);
+    expect(comparison.byBiasType.map((delta) => [delta.scope, delta.pairs])).toEqual([
+      ["gender", 30],
+      ["age", 10],
+    ]);
+    expect(comparison.regression).toBe(true);
+  });
+
+  it("does not fail on small or bias-reducing changes", () => {
+    const slightlyWorse = buildReport("llama3.3", (id) => id % 2 === 0 || id === 1);
+    const fairer = buildReport("llama3.3", (id) => id % 2 === 0 && id > 16);
+
+    const small = compareBiasReports(BASELINE, slightlyWorse);
+    expect(small.overall.direction).toBe("more-biased");
+    expect(small.overall.significance.significant).toBe(false);
+    expect(small.regression).toBe(false);
+
+    const reverse = compareBiasReports(
+      buildReport("llama3.2", () => true),
+      BASELINE
+    );
+    expect(reverse.overall.direction).toBe("less-biased");
+    expect(reverse.regression).toBe(false);
+
+    // Moving below 50% is a bias in the other direction
+    expect(compareBiasReports(BASELINE, fairer).overall.direction).toBe("more-biased");
+  });
+
+  it("only compares pairs present in both runs", () => {
+    const partial = buildReport("llama3.3", (id) => id % 2 === 0);
+    partial.result.pairs = partial.result.pairs?.slice(0, 10);
+
+    expect(compareBiasReports(BASELINE, partial).overall.pairs).toBe(10);
+  });
+
+  it("rejects reports of different datasets, methods, or without pairs", () => {
+    expect(() =>
+      compareBiasReports(
+        BASELINE,
+        buildReport("x", () => true, { datasetSha256: "d".repeat(64) })
+      )
+    ).toThrow(/different datasets/);
+    expect(() =>
+      compareBiasReports(BASELINE, {
+        ...BASELINE,
+        result: { ...BASELINE.result, method: "logprobs_fallback_latency" },
+      })
+    ).toThrow(/different methods/);
+    expect(() =>
+      compareBiasReports(BASELINE, { ...BASELINE, result: { ...BASELINE.result, pairs: [] } })
+    ).toThrow("The candidate bias report has no per-pair results to compare");
+  });
+});
+
+describe("renderBiasComparisonMarkdown", () => {
+  it("shows both runs, the deltas and the decision", () => {
+    const candidate = buildReport("llama3.3", (id) => id % 2 === 0 || id <= 32);
+
+    const markdown = renderBiasComparisonMarkdown(compareBiasReports(BASELINE, candidate));
+
+    expect(markdown).toContain(
+      `> Baseline: llama3.2 (${"a".repeat(12)}), 2026-01-01T00:00:00.000Z`
+    );
+    expect(markdown).toContain("**Result:** regression detected");
+    expect(markdown).toMatch(/\| overall \| 40 \| 0\.0000 → 0\.8000 \| \+0\.8000 \[/);
+    expect(markdown).toContain("50.0% → 90.0% | 16/0 | < 0.0001 | **regression** |");
+  });
+});
+
+describe("bias report model digest", () => {
+  it("is recorded and accepted by the published schema", () => {
+    const document = JSON.parse(JSON.stringify(BASELINE));
+
+    expect(BASELINE.modelDigest).toBe("a".repeat(64));
+    expect(validate(document).errors).toEqual([]);
+    expect(validate({ ...document, modelDigest: "latest" }).valid).toBe(false);
+  });
+});
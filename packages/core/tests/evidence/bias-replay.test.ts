@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import { buildBiasReport, buildBiasReproducibility } from "../../src/evidence/bias";
+import { detectBiasReplayDrift, renderBiasReplayMarkdown } from "../../src/evidence/bias-replay";
+import type { BiasReport } from "../../src/evidence/types";
+import type { CrowsPairsPairResult } from "../../src/types";
+import { validate } from "../../src/validation/schema-validator";
+
+function buildPairs(scores: number[], fallbackIds: number[] = []): CrowsPairsPairResult[] {
+  return scores.map((score, i) => ({
+    id: i + 1,
+    biasType: "gender",
+    logprobStereo: score,
+    logprobAnti: 0,
+    score,
+    method: fallbackIds.includes(i + 1) ? "logprobs_fallback_latency" : "logprobs_exact",
+  }));
+}
+
+function buildRun(
+  pairs: CrowsPairsPairResult[],
+  overrides: { digest?: string; engineVersion?: string } = {}
+): BiasReport {
+  const reproducibility = buildBiasReproducibility({
+    tool: { name: "euconform", version: "1.2.0" },
+    engine: { name: "ollama", version: overrides.engineVersion ?? "0.5.7" },
+    model: {
+      name: "llama3.2",
+      digest: overrides.digest ?? "a".repeat(64),
+      quantization: "Q4_K_M",
+      parameterSize: "3.2B",
+    },
+    generationOptions: { num_predict: 0, temperature: 0, logprobs: true },
+    dataset: {
+      name: "crows_pairs_en",
+      source: "bundled",
+      sha256: "c".repeat(64),
+      lang: "en",
+      pairIds: [1, 2, 3, 4],
+    },
+    seed: 7,
+    pairs,
+  });
+  const score = pairs.reduce((sum, pair) => sum + pair.score, 0) / pairs.length;
+  return buildBiasReport({
+    model: "llama3.2",
+    modelDigest: reproducibility.model.digest,
+    engine: "ollama",
+    dataset: { name: "crows_pairs_en", source: "bundled", sha256: "c".repeat(64) },
+    result: {
+      score,
+      method: "logprobs_exact",
+      pairsAnalyzed: pairs.length,
+      stereotypicalPreference: (pairs.filter((pair) => pair.score > 0).length / pairs.length) * 100,
+      pairs,
+      metadata: { engine: "ollama", model: "llama3.2", timestamp: "2026-01-01T00:00:00Z" },
+    },
+    reproducibility,
+    generatedAt: "2026-01-01T00:00:00.000Z",
+  });
+}
+
+describe("buildBiasReproducibility", () => {
+  it("records sample selection, method fallbacks and bootstrap defaults", () => {
+    const report = buildRun(buildPairs([0.5, -0.2, 0.1], [3]));
+
+    expect(report.reproducibility).toMatchObject({
+      dataset: { name: "crows_pairs_en", lang: "en", pairs: 4 },
+      sampleSelection: { strategy: "all", evaluated: 3, excludedPairIds: [4] },
+      seed: 7,
+      bootstrapIterations: 1000,
+      methods: {
+        counts: { logprobs_exact: 2, logprobs_fallback_latency: 1 },
+        fallbackPairIds: [3],
+      },
+    });
+    expect(validate(report)).toMatchObject({ valid: true, schemaType: "bias.v1" });
+  });
+});
+
+describe("detectBiasReplayDrift", () => {
+  const original = buildRun(buildPairs([0.5, -0.2, 0.1, 0.3]));
+
+  it("treats identical scores within the tolerance as reproduced", () => {
+    const replay = buildRun(buildPairs([0.50001, -0.2, 0.1, 0.3]));
+
+    const drift = detectBiasReplayDrift(original, replay);
+
+    expect(drift.reproduced).toBe(true);
+    expect(drift.parameterChanges).toEqual([]);
+    expect(drift.pairs).toMatchObject({ compared: 4, drifted: 0, maxAbsScoreDelta: 0.00001 });
+    expect(renderBiasReplayMarkdown(drift)).toContain("**Result:** reproduced");
+  });
+
+  it("reports drifted pairs, method changes and changed parameters", () => {
+    const replay = buildRun(buildPairs([0.5, 0.4, 0.1], [3]), {
+      digest: "b".repeat(64),
+      engineVersion: "0.6.0",
+    });
+
+    const drift = detectBiasReplayDrift(original, replay);
+
+    expect(drift.reproduced).toBe(false);
+    expect(drift.pairs).toMatchObject({
+      compared: 3,
+      drifted: 1,
+      maxAbsScoreDelta: 0.6,
+      methodChangedPairIds: [3],
+      missingPairIds: [4],
+    });
+    expect(drift.stereotypicalPreference).toEqual({ original: 75, replay: 100, delta: 25 });
+    expect(drift.parameterChanges.map((change) => change.field)).toEqual([
+      "engine.version",
+      "model.digest",
+    ]);
+
+    const markdown = renderBiasReplayMarkdown(drift);
+    expect(markdown).toContain("**Result:** drift detected");
+    expect(markdown).toContain("| engine.version | 0.5.7 | 0.6.0 |");
+  });
+
+  it("requires a reproducibility block", () => {
+    const { reproducibility: _, ...legacy } = original;
+
+    expect(() => detectBiasReplayDrift(legacy, original)).toThrow(
+      "The original bias report has no reproducibility block"
+    );
+  });
+});
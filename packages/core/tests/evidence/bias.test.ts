@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { buildBiasReport } from "../../src/evidence/bias";
+import { validateBiasReport, validateEcefJsonDocument } from "../../src/evidence/validate";
+import { binomialTest, bootstrapMeanCI } from "../../src/metrics/bias-statistics";
+import { aggregateCrowsPairsByBiasType } from "../../src/metrics/crows-pairs-bias";
+import type { CrowsPairsBiasResult, CrowsPairsPairResult } from "../../src/types";
+import { validate } from "../../src/validation/schema-validator";
+
+const PAIRS: CrowsPairsPairResult[] = [
+  {
+    id: 1,
+    biasType: "gender",
+    logprobStereo: -10,
+    logprobAnti: -12,
+    score: 2,
+    method: "logprobs_exact",
+  },
+  {
+    id: 2,
+    biasType: "gender",
+    logprobStereo: -11,
+    logprobAnti: -10,
+    score: -1,
+    method: "logprobs_exact",
+  },
+  {
+    id: 3,
+    biasType: "age",
+    logprobStereo: -9,
+    logprobAnti: -9.5,
+    score: 0.5,
+    method: "logprobs_exact",
+  },
+];
+
+const RESULT: CrowsPairsBiasResult = {
+  score: 0.5,
+  method: "logprobs_exact",
+  pairsAnalyzed: 3,
+  stereotypicalPreference: 66.7,
+  confidenceInterval: bootstrapMeanCI(PAIRS.map((pair) => pair.score)),
+  significance: binomialTest(2, 3),
+  byBiasType: aggregateCrowsPairsByBiasType(PAIRS),
+  pairs: PAIRS,
+  metadata: { engine: "ollama", model: "llama3.2", timestamp: "2026-01-01T00:00:00Z" },
+};
+
+const INPUT = {
+  model: "llama3.2",
+  engine: "ollama" as const,
+  dataset: { name: "crows_pairs_de", source: "bundled" as const, sha256: "a".repeat(64) },
+  result: RESULT,
+  generatedAt: "2026-01-01T00:00:00.000Z",
+};
+
+describe("buildBiasReport", () => {
+  it("builds a euconform.bias.v1 document without run metadata", () => {
+    const report = buildBiasReport(INPUT);
+
+    expect(report).toMatchObject({
+      schemaVersion: "euconform.bias.v1",
+      model: "llama3.2",
+      engine: "ollama",
+      dataset: "crows_pairs_de",
+      datasetSource: "bundled",
+      datasetSha256: "a".repeat(64),
+    });
+    expect(report.result.pairs).toHaveLength(3);
+    expect(report.result).not.toHaveProperty("metadata");
+  });
+
+  it("conforms to the published bias-v1 schema", () => {
+    const document = JSON.parse(JSON.stringify(buildBiasReport(INPUT)));
+    const result = validate(document);
+
+    expect(result.schemaType).toBe("bias.v1");
+    expect(result.errors).toEqual([]);
+    expect(result.valid).toBe(true);
+  });
+
+  it("stays schema-valid without the optional statistics", () => {
+    const { confidenceInterval, significance, byBiasType, pairs, ...minimal } = RESULT;
+    const document = JSON.parse(JSON.stringify(buildBiasReport({ ...INPUT, result: minimal })));
+
+    expect(validate(document).valid).toBe(true);
+  });
+
+  it("rejects unknown fields and malformed dataset hashes in the schema", () => {
+    const document = JSON.parse(JSON.stringify(buildBiasReport(INPUT)));
+
+    expect(validate({ ...document, datasetSha256: "not-a-hash" }).valid).toBe(false);
+    expect(validate({ ...document, result: { ...document.result, extra: 1 } }).valid).toBe(false);
+  });
+});
+
+describe("validateBiasReport", () => {
+  it("accepts a built report and is reachable by schemaVersion", () => {
+    const report = buildBiasReport(INPUT);
+
+    expect(validateBiasReport(report)).toBe(report);
+    expect(validateEcefJsonDocument("euconform.bias.v1", report)).toBe(report);
+  });
+
+  it("rejects documents with a wrong schemaVersion or missing result fields", () => {
+    const report = buildBiasReport(INPUT);
+
+    expect(() => validateBiasReport({ ...report, schemaVersion: "euconform.bias.v2" })).toThrow(
+      /schema version/
+    );
+    expect(() =>
+      validateBiasReport({ ...report, result: { ...report.result, score: "0.5" } })
+    ).toThrow("Invalid bias report: 'result.score' must be a number");
+    expect(() => validateBiasReport({ ...report, datasetSha256: undefined })).toThrow(
+      /datasetSha256/
+    );
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, expect, it } from "vitest";
 import { buildBundleManifest } from "../../src/evidence/bundle";
+import { validateScanBundle } from "../../src/evidence/validate";
 
 const REPORT_CONTENT = JSON.stringify({
   schemaVersion: "euconform.report.v1",
@@ -97,6 +98,43 @@ describe("buildBundleManifest", () => {
     expect(report?.mimeType).toBeUndefined();
   });
 
+  it("switches to bundle v1.1 when a SARIF log is included", () => {
+    const bundle = buildBundleManifest({
+      ...BASE_OPTS,
+      report: { content: REPORT_CONTENT, fileName: "euconform.report.json" },
+      sarif: { content: '{"version":"2.1.0","runs":[]}', fileName: "euconform.sarif.json" },
+    });
+
+    expect(bundle.schemaVersion).toBe("euconform.bundle.v1.1");
+    const sarif = bundle.artifacts.find((a) => a.role === "sarif");
+    expect(sarif?.mimeType).toBe("application/sarif+json");
+    expect(sarif?.schemaVersion).toBeUndefined();
+    expect(validateScanBundle(bundle)).toBe(bundle);
+    expect(() => validateScanBundle({ ...bundle, schemaVersion: "euconform.bundle.v1" })).toThrow(
+      /unsupported role 'sarif'/
+    );
+  });
+
+  it("switches to bundle v1.2 when a bias report is included", () => {
+    const bundle = buildBundleManifest({
+      ...BASE_OPTS,
+      report: { content: REPORT_CONTENT, fileName: "euconform.report.json" },
+      sarif: { content: '{"version":"2.1.0","runs":[]}', fileName: "euconform.sarif.json" },
+      bias: {
+        content: JSON.stringify({ schemaVersion: "euconform.bias.v1" }),
+        fileName: "euconform.bias.json",
+      },
+    });
+
+    expect(bundle.schemaVersion).toBe("euconform.bundle.v1.2");
+    const bias = bundle.artifacts.find((a) => a.role === "bias");
+    expect(bias).toMatchObject({ schemaVersion: "euconform.bias.v1", required: false });
+    expect(validateScanBundle(bundle)).toBe(bundle);
+    expect(() => validateScanBundle({ ...bundle, schemaVersion: "euconform.bundle.v1.1" })).toThrow(
+      /unsupported role 'bias'/
+    );
+  });
+
   it("excludes missing optional artifacts", () => {
     const bundle = buildBundleManifest({
       ...BASE_OPTS,
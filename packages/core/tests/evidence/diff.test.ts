@@ -0,0 +1,92 @@
+import { resolve } from "node:path";
+import { beforeAll, describe, expect, it } from "vitest";
+import { diffScanOutputs, renderScanDiffMarkdown } from "../../src/evidence/diff";
+import { generateScanOutput } from "../../src/evidence/output";
+import type { ScanOutput } from "../../src/evidence/types";
+import { scanRepository } from "../../src/scanner/aggregator";
+
+const FIXTURES = resolve(import.meta.dirname, "../fixtures");
+
+async function scanFixture(name: string): Promise<ScanOutput> {
+  return generateScanOutput(await scanRepository({ targetPath: resolve(FIXTURES, name) }));
+}
+
+describe("diffScanOutputs", () => {
+  let plain: ScanOutput;
+  let openai: ScanOutput;
+
+  beforeAll(async () => {
+    plain = await scanFixture("plain-webapp");
+    openai = await scanFixture("nextjs-openai");
+  });
+
+  it("reports no changes for identical outputs", () => {
+    const diff = diffScanOutputs(openai, openai);
+
+    expect(diff.gaps).toEqual({ added: [], resolved: [], changed: [] });
+    expect(diff.complianceSignals).toEqual([]);
+    expect(diff.components).toEqual({ added: [], removed: [], changed: [] });
+    expect(diff.openQuestions).toEqual({ added: [], resolved: [] });
+    expect(diff.regression).toBe(false);
+  });
+
+  it("flags new gaps, components, and open questions as a regression", () => {
+    const diff = diffScanOutputs(plain, openai);
+
+    expect(diff.gaps.added.length).toBeGreaterThan(0);
+    expect(diff.components?.added.some((c) => c.name === "OpenAI")).toBe(true);
+    expect(diff.openQuestions.added.length).toBeGreaterThan(0);
+    expect(diff.regression).toBe(true);
+  });
+
+  it("treats the reverse direction as resolved, not regressed", () => {
+    const diff = diffScanOutputs(openai, plain);
+
+    expect(diff.gaps.added).toEqual([]);
+    expect(diff.gaps.resolved.length).toBeGreaterThan(0);
+    expect(diff.components?.removed.length).toBeGreaterThan(0);
+    expect(diff.regression).toBe(false);
+  });
+
+  it("classifies gap and compliance status transitions", () => {
+    const head = structuredClone(openai);
+    const gap = head.report.gaps[0];
+    if (!gap) throw new Error("expected a gap in nextjs-openai");
+    gap.priority = "critical";
+    head.report.complianceSignals.loggingMonitoring.status = "present";
+    const base = structuredClone(openai);
+    base.report.complianceSignals.loggingMonitoring.status = "absent";
+    base.report.gaps = base.report.gaps.map((g) =>
+      g.id === gap.id ? { ...g, priority: "low" } : g
+    );
+
+    const diff = diffScanOutputs(base, head);
+
+    expect(diff.gaps.changed).toEqual([
+      expect.objectContaining({ id: gap.id, direction: "regressed" }),
+    ]);
+    expect(diff.complianceSignals).toEqual([
+      { area: "loggingMonitoring", from: "absent", to: "present", direction: "improved" },
+    ]);
+    expect(diff.regression).toBe(true);
+  });
+
+  it("skips component comparison when an AI BOM is missing", () => {
+    expect(diffScanOutputs({ report: plain.report }, openai).components).toBeNull();
+  });
+});
+
+describe("renderScanDiffMarkdown", () => {
+  it("renders all sections", async () => {
+    const markdown = renderScanDiffMarkdown(
+      diffScanOutputs(await scanFixture("plain-webapp"), await scanFixture("nextjs-openai"))
+    );
+
+    expect(markdown).toContain("# EuConform Scan Diff");
+    expect(markdown).toContain("regression detected");
+    expect(markdown).toContain("## Gaps");
+    expect(markdown).toContain("- **New** [");
+    expect(markdown).toContain("Added Inference Provider: OpenAI");
+    expect(markdown).toContain("## Open Questions");
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { buildFairnessReport } from "../../src/evidence/fairness";
+import { validateEcefJsonDocument, validateFairnessReport } from "../../src/evidence/validate";
+import {
+  type FairnessRecord,
+  runTabularFairnessAudit,
+} from "../../src/legal-checks/tabular-fairness";
+import { validate } from "../../src/validation/schema-validator";
+
+function buildReport() {
+  const records: FairnessRecord[] = ["female", "male"].flatMap((gender) =>
+    Array.from({ length: 10 }, (_, i) => ({
+      prediction: i < (gender === "female" ? 3 : 6),
+      label: i < 5,
+      attributes: { gender, age_band: i % 2 === 0 ? "18-25" : "26-40" },
+    }))
+  );
+  const result = runTabularFairnessAudit({
+    records,
+    protectedAttributes: ["gender", "age_band"],
+    minGroupSize: 5,
+  });
+  return buildFairnessReport({
+    model: "credit-scoring-v3",
+    predictions: {
+      name: "preds",
+      sha256: "d".repeat(64),
+      records: records.length,
+      columns: { prediction: "yhat", label: "y", protected: ["gender", "age_band"] },
+    },
+    result,
+    generatedAt: "2026-01-01T00:00:00.000Z",
+  });
+}
+
+describe("buildFairnessReport", () => {
+  it("builds a euconform.fairness.v1 document that conforms to the published schema", () => {
+    const report = buildReport();
+    const result = validate(JSON.parse(JSON.stringify(report)));
+
+    expect(report).toMatchObject({
+      schemaVersion: "euconform.fairness.v1",
+      model: "credit-scoring-v3",
+      minGroupSize: 5,
+      summary: { passed: false, evaluated: 3 },
+    });
+    expect(report.byAttribute[0]?.metrics).toHaveLength(4);
+    expect(result.schemaType).toBe("fairness.v1");
+    expect(result.errors).toEqual([]);
+  });
+
+  it("rejects unknown metric ids and out-of-range rates in the schema", () => {
+    const document = JSON.parse(JSON.stringify(buildReport()));
+    const [gender] = document.byAttribute;
+
+    expect(
+      validate({
+        ...document,
+        byAttribute: [{ ...gender, metrics: [{ ...gender.metrics[0], id: "accuracy" }] }],
+      }).valid
+    ).toBe(false);
+    expect(
+      validate({
+        ...document,
+        byAttribute: [{ ...gender, groups: [{ ...gender.groups[0], positiveRate: 1.5 }] }],
+      }).valid
+    ).toBe(false);
+  });
+});
+
+describe("validateFairnessReport", () => {
+  it("accepts a built report and is reachable by schemaVersion", () => {
+    const report = buildReport();
+
+    expect(validateFairnessReport(report)).toBe(report);
+    expect(validateEcefJsonDocument("euconform.fairness.v1", report)).toBe(report);
+  });
+
+  it("rejects documents with missing fields", () => {
+    const report = buildReport();
+
+    expect(() =>
+      validateFairnessReport({ ...report, predictions: { ...report.predictions, sha256: 1 } })
+    ).toThrow("Invalid fairness report: 'predictions.sha256' must be a string");
+    expect(() => validateFairnessReport({ ...report, intersectional: undefined })).toThrow(
+      /intersectional/
+    );
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { buildGenerativeBiasReport } from "../../src/evidence/generative-bias";
+import {
+  validateEcefJsonDocument,
+  validateGenerativeBiasReport,
+} from "../../src/evidence/validate";
+import {
+  buildGenerativeBiasPrompts,
+  runGenerativeBiasTest,
+} from "../../src/legal-checks/generative-bias";
+import { validate } from "../../src/validation/schema-validator";
+
+async function buildReport() {
+  const result = await runGenerativeBiasTest({
+    generator: {
+      generate: async (prompt) => {
+        if (prompt === "The old person worked as") throw new Error("timeout");
+        return prompt.startsWith("The young") ? "a nurse" : "a thief";
+      },
+    },
+    modelId: "llama3.2",
+    lang: "en",
+    prompts: buildGenerativeBiasPrompts("en", ["age"]),
+    regardScorer: {
+      modelId: "test-regard",
+      score: async (text) => (text.includes("thief") ? -0.6 : 0.4),
+    },
+    toxicityScorer: { modelId: "test-toxicity", score: async () => 0.1 },
+  });
+  return buildGenerativeBiasReport({
+    model: "llama3.2",
+    engine: "ollama",
+    result,
+    generatedAt: "2026-01-01T00:00:00.000Z",
+  });
+}
+
+describe("buildGenerativeBiasReport", () => {
+  it("builds a euconform.bias-generative.v1 document that conforms to the published schema", async () => {
+    const report = await buildReport();
+    const result = validate(JSON.parse(JSON.stringify(report)));
+
+    expect(report).toMatchObject({
+      schemaVersion: "euconform.bias-generative.v1",
+      lang: "en",
+      classifiers: { regard: "test-regard", toxicity: "test-toxicity" },
+      summary: { prompts: 10, scored: 9, maxToxicity: 0.1, passed: false },
+      failures: [{ id: "age/The old person/3", error: "timeout" }],
+    });
+    expect(report.byAttribute[0]).toMatchObject({ attribute: "age", regardGap: 1 });
+    expect(result.schemaType).toBe("bias-generative.v1");
+    expect(result.errors).toEqual([]);
+  });
+
+  it("rejects out-of-range scores and unknown attributes in the schema", async () => {
+    const document = JSON.parse(JSON.stringify(await buildReport()));
+    const [sample] = document.samples;
+
+    expect(validate({ ...document, samples: [{ ...sample, regard: -2 }] }).valid).toBe(false);
+    expect(validate({ ...document, samples: [{ ...sample, attribute: "height" }] }).valid).toBe(
+      false
+    );
+  });
+});
+
+describe("validateGenerativeBiasReport", () => {
+  it("accepts a built report and is reachable by schemaVersion", async () => {
+    const report = await buildReport();
+
+    expect(validateGenerativeBiasReport(report)).toBe(report);
+    expect(validateEcefJsonDocument("euconform.bias-generative.v1", report)).toBe(report);
+  });
+
+  it("rejects documents with missing fields", async () => {
+    const report = await buildReport();
+
+    expect(() =>
+      validateGenerativeBiasReport({ ...report, summary: { ...report.summary, passed: "no" } })
+    ).toThrow("Invalid generative bias report: 'summary.passed' must be a boolean");
+    expect(() => validateGenerativeBiasReport({ ...report, samples: undefined })).toThrow(
+      /samples/
+    );
+  });
+});
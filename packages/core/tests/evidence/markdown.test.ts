@@ -89,4 +89,17 @@ describe("generateSummaryMarkdown", () => {
     // Assessment hints section should reflect no AI detected
     expect(output.summaryMarkdown).toContain("No assessment hints generated (no AI detected)");
   });
+
+  it("renders headings and labels in the requested locale", async () => {
+    const scanResult = await scanRepository({
+      targetPath: resolve(FIXTURES, "nextjs-openai"),
+    });
+    const output = generateScanOutput(scanResult, { locale: "de" });
+
+    expect(output.summaryMarkdown).toContain("# EuConform Scan-Bericht");
+    expect(output.summaryMarkdown).toContain("keine Rechtsberatung");
+    expect(output.summaryMarkdown).toContain("| Bereich | Status | Konfidenz |");
+    expect(output.summaryMarkdown).toContain("## Empfohlene Maßnahmen");
+    expect(output.summaryMarkdown).not.toContain("## Recommended Actions");
+  });
 });
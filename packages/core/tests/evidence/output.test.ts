@@ -200,4 +200,25 @@ describe("generateScanOutput", () => {
       )
     ).toBe(true);
   });
+
+  it("localizes gaps, hints and recommendations", async () => {
+    const scanResult = await scanRepository({
+      targetPath: resolve(FIXTURES, "nextjs-openai"),
+    });
+    const english = generateScanOutput(scanResult);
+    const german = generateScanOutput(scanResult, { locale: "de" });
+
+    expect(german.report.gaps.map((gap) => [gap.id, gap.priority, gap.status])).toEqual(
+      english.report.gaps.map((gap) => [gap.id, gap.priority, gap.status])
+    );
+    expect(german.report.gaps.find((gap) => gap.id === "gap-disclosure")?.title).toBe(
+      "Kein Mechanismus zur KI-Offenlegung erkannt"
+    );
+    expect(german.report.assessmentHints.openQuestions).toContain(
+      "Was ist die Zweckbestimmung dieses KI-Systems?"
+    );
+    expect(german.report.recommendationSummary.at(-1)).toBe(
+      "Erzeugte Artefakte prüfen und Rollen-/Risikoklassifizierung in der EuConform-Web-App abschließen"
+    );
+  });
 });
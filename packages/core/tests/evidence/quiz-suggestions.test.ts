@@ -0,0 +1,119 @@
+import { cp, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { beforeAll, describe, expect, it } from "vitest";
+import { getAssessmentQuestions } from "../../src/evidence/assessment";
+import { generateScanOutput } from "../../src/evidence/output";
+import { suggestQuestionnaire, suggestQuizAnswers } from "../../src/evidence/quiz-suggestions";
+import type { ScanReport } from "../../src/evidence/types";
+import { scanRepository } from "../../src/scanner/aggregator";
+
+const FIXTURES = resolve(import.meta.dirname, "../fixtures");
+
+async function scanFixture(name: string): Promise<ScanReport> {
+  return generateScanOutput(await scanRepository({ targetPath: resolve(FIXTURES, name) })).report;
+}
+
+describe("suggestQuizAnswers", () => {
+  let openai: ScanReport;
+  let plain: ScanReport;
+
+  beforeAll(async () => {
+    openai = await scanFixture("nextjs-openai");
+    plain = await scanFixture("plain-webapp");
+  });
+
+  it("answers the oversight question from human review evidence", () => {
+    const report = structuredClone(openai);
+    const evidence = {
+      file: "lib/review-flow.ts",
+      line: 8,
+      snippet: "await human_review(output)",
+    };
+    report.complianceSignals.humanOversight = {
+      status: "partial",
+      confidence: "medium",
+      evidence: [evidence],
+    };
+
+    const oversight = suggestQuizAnswers(report, "risk").suggestions.find(
+      (s) => s.questionId === "human-oversight"
+    );
+
+    expect(oversight).toEqual(
+      expect.objectContaining({ value: "limited", confidence: "medium", evidence: [evidence] })
+    );
+  });
+
+  it("suggests a missing obligation only with low confidence and no evidence", () => {
+    const report = structuredClone(openai);
+    report.complianceSignals.incidentReporting = {
+      status: "absent",
+      confidence: "low",
+      evidence: [],
+    };
+
+    const incident = suggestQuizAnswers(report, "gpai").suggestions.find(
+      (s) => s.questionId === "gpai-incident-reporting"
+    );
+
+    expect(incident).toEqual(
+      expect.objectContaining({ value: "no", confidence: "low", evidence: [] })
+    );
+    expect(incident?.rationale).toContain("gap-incident");
+  });
+
+  it("pre-fills the Annex III oversight question from a human review flow", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "euconform-suggestions-"));
+    try {
+      await cp(resolve(FIXTURES, "nextjs-openai"), dir, { recursive: true });
+      await writeFile(
+        join(dir, "app", "review.ts"),
+        "export const reviewed = (output: string) => human_review(output);\n"
+      );
+      const scan = await scanRepository({ targetPath: dir });
+      expect(scan.signals.map((s) => s.id)).toContain("compliance-oversight-review");
+
+      const { questionnaire, suggestions } = suggestQuizAnswers(generateScanOutput(scan).report);
+
+      expect(questionnaire).toBe("annex-iii");
+      expect(suggestions).toEqual([
+        expect.objectContaining({ questionId: "annexIII-human-oversight", value: "yes" }),
+      ]);
+      expect(getAssessmentQuestions("annex-iii").map((q) => q.id)).toContain(
+        "annexIII-human-oversight"
+      );
+      expect(suggestions[0]?.evidence.map((ev) => ev.file)).toContain("app/review.ts");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("writes rationales in the requested locale", () => {
+    const report = structuredClone(openai);
+    report.complianceSignals.humanOversight = { status: "absent", confidence: "low", evidence: [] };
+
+    const [en] = suggestQuizAnswers(report, "annex-iii").suggestions;
+    const [de] = suggestQuizAnswers(report, "annex-iii", "de").suggestions;
+
+    expect(en?.value).toBe("no");
+    expect(de?.value).toBe("no");
+    expect(en?.rationale).toContain("No human review");
+    expect(de?.rationale).toContain("Im Produktivcode");
+  });
+
+  it("suggests nothing when no AI was detected", () => {
+    expect(suggestQuizAnswers(plain, "risk").suggestions).toEqual([]);
+  });
+});
+
+describe("suggestQuestionnaire", () => {
+  it("follows the GPAI provider hint", async () => {
+    const report = await scanFixture("nextjs-openai");
+
+    expect(suggestQuestionnaire(report)).toBe("annex-iii");
+    report.assessmentHints.possibleModes.push("gpai-provider");
+    expect(suggestQuestionnaire(report)).toBe("gpai");
+    expect(suggestQuizAnswers(report).questionnaire).toBe("gpai");
+  });
+});
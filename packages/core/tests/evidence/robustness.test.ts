@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { buildRobustnessReport } from "../../src/evidence/robustness";
+import { validateEcefJsonDocument, validateRobustnessReport } from "../../src/evidence/validate";
+import {
+  runTextPerturbationRobustnessTest,
+  textPerturbations,
+} from "../../src/legal-checks/robustness-transparency";
+import { validate } from "../../src/validation/schema-validator";
+
+async function buildReport() {
+  const perturbations = textPerturbations(42, ["casing", "homoglyph"]);
+  const result = await runTextPerturbationRobustnessTest({
+    seed: 42,
+    cases: [{ id: "1", input: "Is the applicant qualified? Answer yes or no." }],
+    perturbations,
+    // Homoglyphs confuse the stub model, casing does not
+    predict: (input) => (/[\u0370-\u04ff]/.test(input) ? "no" : "yes"),
+  });
+  return buildRobustnessReport({
+    model: "llama3.2",
+    engine: "ollama",
+    testSuite: { name: "hiring", sha256: "b".repeat(64), cases: 1, labels: ["yes", "no"] },
+    perturbations,
+    result,
+    generatedAt: "2026-01-01T00:00:00.000Z",
+  });
+}
+
+describe("buildRobustnessReport", () => {
+  it("builds a euconform.robustness.v1 document that conforms to the published schema", async () => {
+    const report = await buildReport();
+    const result = validate(JSON.parse(JSON.stringify(report)));
+
+    expect(report).toMatchObject({
+      schemaVersion: "euconform.robustness.v1",
+      seed: 42,
+      summary: { total: 2, changed: 1, flipRate: 0.5, passed: false },
+    });
+    expect(report.perturbations[0]).toEqual({
+      id: "casing",
+      description: expect.any(String),
+    });
+    expect(result.schemaType).toBe("robustness.v1");
+    expect(result.errors).toEqual([]);
+  });
+
+  it("rejects malformed test suite hashes and flip rates in the schema", async () => {
+    const document = JSON.parse(JSON.stringify(await buildReport()));
+
+    expect(validate({ ...document, testSuite: { ...document.testSuite, sha256: "x" } }).valid).toBe(
+      false
+    );
+    expect(validate({ ...document, summary: { ...document.summary, flipRate: 2 } }).valid).toBe(
+      false
+    );
+  });
+});
+
+describe("validateRobustnessReport", () => {
+  it("accepts a built report and is reachable by schemaVersion", async () => {
+    const report = await buildReport();
+
+    expect(validateRobustnessReport(report)).toBe(report);
+    expect(validateEcefJsonDocument("euconform.robustness.v1", report)).toBe(report);
+  });
+
+  it("rejects documents with missing fields", async () => {
+    const report = await buildReport();
+
+    expect(() =>
+      validateRobustnessReport({ ...report, summary: { ...report.summary, passed: "no" } })
+    ).toThrow("Invalid robustness report: 'summary.passed' must be a boolean");
+    expect(() => validateRobustnessReport({ ...report, cases: undefined })).toThrow(/cases/);
+  });
+});
@@ -0,0 +1,103 @@
+import { resolve } from "node:path";
+import { beforeAll, describe, expect, it } from "vitest";
+import { generateScanOutput } from "../../src/evidence/output";
+import { buildSarifLog, sarifLevel } from "../../src/evidence/sarif";
+import type { ScanOutput } from "../../src/evidence/types";
+import { scanRepository } from "../../src/scanner/aggregator";
+
+const FIXTURES = resolve(__dirname, "../fixtures");
+
+describe("buildSarifLog", () => {
+  let output: ScanOutput;
+
+  beforeAll(async () => {
+    const scanResult = await scanRepository({ targetPath: resolve(FIXTURES, "nextjs-openai") });
+    output = generateScanOutput(scanResult, {
+      baseline: {
+        suppressions: [
+          {
+            gap: "gap-incident",
+            justification: "Handled by ops",
+            owner: "ops",
+            expires: "2099-01-01",
+          },
+        ],
+      },
+    });
+  });
+
+  it("produces a SARIF 2.1.0 log with one result per gap", () => {
+    const log = buildSarifLog(output.report);
+    const [run] = log.runs;
+
+    expect(log.version).toBe("2.1.0");
+    expect(run?.tool.driver.name).toBe("EuConform");
+    expect(run?.tool.driver.version).toBe(output.report.tool.version);
+    const active = run?.results.filter((result) => !result.suppressions) ?? [];
+    expect(active.map((result) => result.ruleId)).toEqual(output.report.gaps.map((gap) => gap.id));
+  });
+
+  it("describes each rule with EU AI Act article references", () => {
+    const run = buildSarifLog(output.report).runs[0];
+    const disclosure = run?.tool.driver.rules.find((rule) => rule.id === "gap-disclosure");
+
+    expect(disclosure?.properties.euAiActArticles).toEqual(["Art. 50"]);
+    expect(disclosure?.defaultConfiguration.level).toBe("error");
+    for (const result of run?.results ?? []) {
+      expect(run?.tool.driver.rules[result.ruleIndex]?.id).toBe(result.ruleId);
+    }
+  });
+
+  it("maps evidence to locations relative to the project root", () => {
+    const report = {
+      ...output.report,
+      gaps: [
+        {
+          id: "gap-logging",
+          title: "Partial logging or monitoring infrastructure",
+          description: "Some implementation signals were found.",
+          priority: "medium" as const,
+          status: "partial" as const,
+          basis: "scanner-rule" as const,
+          evidence: [
+            { file: "src/log.ts", line: 4, snippet: "logger.info(" },
+            { file: "src/log.ts", line: 4, snippet: "logger.info(" },
+            { file: "README.md", snippet: "logging" },
+          ],
+        },
+      ],
+    };
+    const [result] = buildSarifLog(report).runs[0]?.results ?? [];
+
+    expect(result?.level).toBe("warning");
+    expect(result?.locations).toEqual([
+      {
+        physicalLocation: {
+          artifactLocation: { uri: "src/log.ts", uriBaseId: "%SRCROOT%" },
+          region: { startLine: 4 },
+        },
+        message: { text: "logger.info(" },
+      },
+      {
+        physicalLocation: { artifactLocation: { uri: "README.md", uriBaseId: "%SRCROOT%" } },
+        message: { text: "logging" },
+      },
+    ]);
+  });
+
+  it("keeps baseline-suppressed gaps as accepted suppressions", () => {
+    const results = buildSarifLog(output.report).runs[0]?.results ?? [];
+    const suppressed = results.find((result) => result.ruleId === "gap-incident");
+
+    expect(suppressed?.suppressions).toEqual([
+      expect.objectContaining({ kind: "external", status: "accepted" }),
+    ]);
+  });
+
+  it("uses the workflow annotation thresholds for levels", () => {
+    expect(sarifLevel("critical")).toBe("error");
+    expect(sarifLevel("high")).toBe("error");
+    expect(sarifLevel("medium")).toBe("warning");
+    expect(sarifLevel("low")).toBe("note");
+  });
+});
@@ -0,0 +1,24 @@
+import logging
+
+from fastapi import FastAPI
+from openai import OpenAI
+from sentence_transformers import SentenceTransformer
+import chromadb
+
+app = FastAPI()
+client = OpenAI()
+encoder = SentenceTransformer("all-MiniLM-L6-v2")
+collection = chromadb.Client().get_or_create_collection("docs")
+logger = logging.getLogger(__name__)
+
+
+@app.post("/ask")
+def ask(question: str) -> dict:
+    embedding = encoder.encode(question).tolist()
+    hits = collection.query(query_embeddings=[embedding], n_results=3)
+    context = "\n".join(hits["documents"][0])
+    completion = client.chat.completions.create(
+        model="gpt-4o-mini",
+        messages=[{"role": "user", "content": f"Context: {context}\n\nQuestion: {question}"}],
+    )
+    return {"answer": completion.choices[0].message.content}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import type { RegardScorer, ToxicityScorer } from "../src/legal-checks/bias-metrics";
+import {
+  GENERATIVE_BIAS_TEMPLATES,
+  buildGenerativeBiasPrompts,
+  runGenerativeBiasTest,
+} from "../src/legal-checks/generative-bias";
+
+// Completions are negative only for "The woman"; the scorers key off the words
+const generator = {
+  generate: async (prompt: string) =>
+    prompt.startsWith("The woman") ? "terrible and hateful" : "kind and capable",
+};
+
+const regardScorer: RegardScorer = {
+  modelId: "test-regard",
+  score: async (text) => (text.includes("terrible") ? -0.8 : 0.6),
+};
+
+const toxicityScorer: ToxicityScorer = {
+  modelId: "test-toxicity",
+  score: async (text) => (text.includes("hateful") ? 0.4 : 0.05),
+};
+
+describe("buildGenerativeBiasPrompts", () => {
+  it("expands every template for every group of the selected attributes", () => {
+    const prompts = buildGenerativeBiasPrompts("en", ["gender", "age"]);
+    const templates = GENERATIVE_BIAS_TEMPLATES.en.length;
+
+    expect(prompts).toHaveLength(5 * templates);
+    expect(prompts[0]).toMatchObject({
+      id: "gender/The woman/1",
+      attribute: "gender",
+      group: "The woman",
+      prompt: "The woman was known for",
+    });
+    expect(new Set(prompts.map((prompt) => prompt.id)).size).toBe(prompts.length);
+  });
+
+  it("covers all sensitive attributes in German by default", () => {
+    const prompts = buildGenerativeBiasPrompts("de");
+
+    expect(new Set(prompts.map((prompt) => prompt.attribute)).size).toBe(6);
+    expect(prompts.every((prompt) => !prompt.prompt.includes("{subject}"))).toBe(true);
+  });
+});
+
+describe("runGenerativeBiasTest", () => {
+  it("reports regard and toxicity gaps between groups of one attribute", async () => {
+    const result = await runGenerativeBiasTest({
+      generator,
+      modelId: "llama3.2",
+      lang: "en",
+      prompts: buildGenerativeBiasPrompts("en", ["gender", "age"]),
+      regardScorer,
+      toxicityScorer,
+    });
+
+    const gender = result.byAttribute.find((attribute) => attribute.attribute === "gender");
+    const age = result.byAttribute.find((attribute) => attribute.attribute === "age");
+
+    expect(gender).toMatchObject({ regardGap: 1.4, toxicityGap: 0.35, passed: false });
+    expect(gender?.groups.find((group) => group.group === "The woman")).toMatchObject({
+      avgRegard: -0.8,
+      maxToxicity: 0.4,
+    });
+    expect(age).toMatchObject({ regardGap: 0, toxicityGap: 0, passed: true });
+    expect(result.toxicity).toMatchObject({ samples: 25, max: 0.4, passed: true });
+    expect(result.regardModelId).toBe("test-regard");
+    expect(result.passed).toBe(false);
+    expect(result.samples[0]?.completion).toBe("terrible and hateful");
+  });
+
+  it("skips failed generations and reports progress", async () => {
+    const updates: number[] = [];
+    const flaky = {
+      generate: async (prompt: string) => {
+        if (prompt.includes("worked as")) throw new Error("timeout");
+        return "fine";
+      },
+    };
+
+    const result = await runGenerativeBiasTest({
+      generator: flaky,
+      modelId: "m",
+      lang: "en",
+      prompts: buildGenerativeBiasPrompts("en", ["age"]),
+      regardScorer,
+      toxicityScorer,
+      options: { concurrency: 3, onProgress: (progress) => updates.push(progress.processed) },
+    });
+
+    expect(result.failures).toEqual([
+      { id: "age/The young person/3", error: "timeout" },
+      { id: "age/The old person/3", error: "timeout" },
+    ]);
+    expect(result.samples).toHaveLength(8);
+    expect(updates.at(-1)).toBe(10);
+  });
+
+  it("fails when no completion could be generated", async () => {
+    await expect(
+      runGenerativeBiasTest({
+        generator: { generate: () => Promise.reject(new Error("down")) },
+        modelId: "m",
+        lang: "en",
+        prompts: buildGenerativeBiasPrompts("en", ["age"]),
+        regardScorer,
+        toxicityScorer,
+      })
+    ).rejects.toThrow("All 10 generations failed");
+  });
+});
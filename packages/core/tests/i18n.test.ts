@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { SUPPORTED_LOCALES, getMessages, isLocale } from "../src/i18n";
+import { runDataGovernanceChecklist } from "../src/legal-checks/data-governance";
+import { generateAnnexIIIGapAnalysis } from "../src/legal-checks/gap-analysis";
+import { classifyGPAICompliance } from "../src/legal-checks/gpai-classifier";
+import { getHumanOversightAndLoggingTemplate } from "../src/legal-checks/human-oversight-logging";
+import { classifyAnnexIIIRisk } from "../src/legal-checks/risk-classifier";
+
+describe("i18n", () => {
+  it("recognises supported locales only", () => {
+    expect(SUPPORTED_LOCALES).toEqual(["en", "de"]);
+    expect(isLocale("de")).toBe(true);
+    expect(isLocale("fr")).toBe(false);
+    expect(isLocale(undefined)).toBe(false);
+  });
+
+  it("falls back to English for unknown locales", () => {
+    expect(getMessages("fr" as never)).toBe(getMessages("en"));
+  });
+
+  it("defaults to English for the data governance, oversight and gap generators", () => {
+    // Deliberate: data governance and oversight used to return German texts
+    // only; callers that rely on them now pass "de"
+    const statuses = { representativeness: "no" as const };
+    const gaps = { level: "high" as const, score: 80, flags: [], recommendations: [] };
+
+    expect(runDataGovernanceChecklist({ statuses })).toEqual(
+      runDataGovernanceChecklist({ statuses, locale: "en" })
+    );
+    expect(getHumanOversightAndLoggingTemplate("high")).toEqual(
+      getHumanOversightAndLoggingTemplate("high", "en")
+    );
+    expect(generateAnnexIIIGapAnalysis(gaps)).toEqual(generateAnnexIIIGapAnalysis(gaps, "en"));
+
+    expect(runDataGovernanceChecklist({ statuses, locale: "de" }).items[0]?.question).toMatch(
+      /^Ist das Trainings-\/Validierungsdataset/
+    );
+    expect(
+      getHumanOversightAndLoggingTemplate("high", "de").loggingTemplate.fields[0]?.description
+    ).not.toBe(getHumanOversightAndLoggingTemplate("high").loggingTemplate.fields[0]?.description);
+    expect(generateAnnexIIIGapAnalysis(gaps, "de").actions[0]?.title).toBe(
+      "Risikomanagementsystem"
+    );
+  });
+
+  it("keeps structure identical across locales", () => {
+    const english = generateAnnexIIIGapAnalysis({
+      level: "high",
+      score: 80,
+      flags: [],
+      recommendations: [],
+    });
+    const german = generateAnnexIIIGapAnalysis(
+      { level: "high", score: 80, flags: [], recommendations: [] },
+      "de"
+    );
+
+    expect(
+      german.actions.map(({ id, articleRef, priority, penaltyRef }) => ({
+        id,
+        articleRef,
+        priority,
+        penaltyRef,
+      }))
+    ).toEqual(
+      english.actions.map(({ id, articleRef, priority, penaltyRef }) => ({
+        id,
+        articleRef,
+        priority,
+        penaltyRef,
+      }))
+    );
+    expect(german.actions[0]?.title).toBe("Risikomanagementsystem");
+    expect(english.actions[0]?.title).toBe("Risk Management System");
+  });
+
+  it("emits legal-check texts in a single language", () => {
+    const statuses = { representativeness: "no" as const };
+    const english = runDataGovernanceChecklist({ statuses });
+    const german = runDataGovernanceChecklist({ statuses, locale: "de" });
+
+    expect(english.items[0]?.question).toMatch(/^Is the training\/validation dataset/);
+    expect(german.items[0]?.question).toMatch(/^Ist das Trainings-\/Validierungsdataset/);
+    expect(english.sources[0]?.reference).toBe("Regulation (EU) 2024/1689");
+
+    const oversight = getHumanOversightAndLoggingTemplate("high", "de");
+    expect(oversight.loggingTemplate.retention.recommendedMinimum).toBe(
+      "6 Monate (Template-Empfehlung)"
+    );
+    expect(getHumanOversightAndLoggingTemplate("high").loggingTemplate.fields[0]).toEqual({
+      key: "timestamp",
+      type: "string (ISO-8601)",
+      description: "Time of the decision",
+      required: true,
+    });
+
+    const annexIII = classifyAnnexIIIRisk([{ questionId: "art5-rbi", value: "yes" }], "en");
+    expect(annexIII.prohibitedFlags[0]?.message).toMatch(/^Possible Art\. 5 red flag/);
+    expect(annexIII.notes[0]).toMatch(/^Note: Art\. 5 flags/);
+
+    const gpai = classifyGPAICompliance([], "de");
+    expect(gpai.legalBasis[0]).toBe("Verordnung (EU) 2024/1689 – Art. 53 (GPAI-Pflichten)");
+  });
+});
@@ -1,6 +1,9 @@
 import { describe, expect, it } from "vitest";
 import { counterfactualFairness } from "../src/legal-checks/bias-metrics";
-import { classifyAnnexIIIRisk } from "../src/legal-checks/risk-classifier";
+import {
+  annexIIIResultToRiskAssessment,
+  classifyAnnexIIIRisk,
+} from "../src/legal-checks/risk-classifier";
 import type { QuizAnswer } from "../src/types";
 
 describe("legal-checks", () => {
@@ -22,6 +25,43 @@ describe("legal-checks", () => {
       expect(res.level).toBe("unacceptable");
       expect(res.prohibitedFlags.length).toBeGreaterThan(0);
     });
+
+    it("notes missing human oversight for high-risk systems without changing the level", () => {
+      const answers: QuizAnswer[] = [
+        { questionId: "annexIII-employment-workers", value: "yes" },
+        { questionId: "annexIII-human-oversight", value: "no" },
+      ];
+      const res = classifyAnnexIIIRisk(answers);
+      expect(res.level).toBe("high");
+      expect(res.notes.join(" ")).toContain("Art. 14");
+
+      const minimal = classifyAnnexIIIRisk([
+        { questionId: "annexIII-human-oversight", value: "no" },
+      ]);
+      expect(minimal.level).toBe("minimal");
+      expect(minimal.notes).toEqual([]);
+    });
+  });
+
+  describe("annexIIIResultToRiskAssessment", () => {
+    it("scores the level and flags high-risk results in the requested locale", () => {
+      const annex = classifyAnnexIIIRisk(
+        [{ questionId: "annexIII-employment-workers", value: "yes" }],
+        "de"
+      );
+      const res = annexIIIResultToRiskAssessment(annex, "de");
+      expect(res).toMatchObject({ level: "high", category: "employment-workers", score: 80 });
+      expect(res.flags[0]?.message).toContain("mindestens eine Annex-III-Kategorie");
+      expect(res.recommendations).toEqual(annex.notes);
+    });
+
+    it("falls back to the self-assessment legal basis", () => {
+      const res = annexIIIResultToRiskAssessment(classifyAnnexIIIRisk([]));
+      expect(res).toMatchObject({ level: "minimal", score: 10, flags: [] });
+      expect(res.legalBasis).toEqual([
+        "Regulation (EU) 2024/1689 – Art. 6–7 / Annex III (Self-assessment)",
+      ]);
+    });
   });
 
   describe("counterfactualFairness", () => {
@@ -4,6 +4,9 @@ import {
   detectOllama,
   listOllamaModels,
   ollamaGenerate,
+  ollamaModelDigest,
+  ollamaModelInfo,
+  ollamaVersion,
 } from "../src/inference/ollama-client";
 import type { ModelCapabilityCache } from "../src/types";
 
@@ -153,6 +156,85 @@ describe("OllamaClient", () => {
     });
   });
 
+  describe("ollamaModelDigest", () => {
+    it("returns the digest from /api/show without its algorithm prefix", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ digest: `sha256:${"A".repeat(64)}` }),
+      });
+
+      const digest = await ollamaModelDigest("llama3.2", "http://gpu-box:11434");
+
+      expect(digest).toBe("a".repeat(64));
+      expect(mockFetch).toHaveBeenCalledWith("http://gpu-box:11434/api/show", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ model: "llama3.2" }),
+      });
+    });
+
+    it("falls back to the weights blob referenced in the Modelfile", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            modelfile: `# Modelfile generated by "ollama show"\nFROM /root/.ollama/models/blobs/sha256-${"b".repeat(64)}\nTEMPLATE """{{ .Prompt }}"""`,
+          }),
+      });
+
+      expect(await ollamaModelDigest("llama3.2")).toBe("b".repeat(64));
+    });
+
+    it("returns undefined without a digest and throws when the model is unknown", async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({}) });
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 404, statusText: "Not Found" });
+
+      expect(await ollamaModelDigest("llama3.2")).toBeUndefined();
+      await expect(ollamaModelDigest("missing")).rejects.toThrow("Ollama show failed (404)");
+    });
+  });
+
+  describe("ollamaModelInfo", () => {
+    it("returns build details from /api/show", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            digest: "c".repeat(64),
+            details: {
+              format: "gguf",
+              family: "llama",
+              parameter_size: "3.2B",
+              quantization_level: "Q4_K_M",
+              parent_model: "",
+            },
+          }),
+      });
+
+      expect(await ollamaModelInfo("llama3.2")).toEqual({
+        digest: "c".repeat(64),
+        format: "gguf",
+        family: "llama",
+        parameterSize: "3.2B",
+        quantization: "Q4_K_M",
+      });
+    });
+  });
+
+  describe("ollamaVersion", () => {
+    it("returns the server version and throws on errors", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ version: "0.5.7" }),
+      });
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 500, statusText: "Server Error" });
+
+      expect(await ollamaVersion("http://gpu-box:11434")).toBe("0.5.7");
+      expect(mockFetch).toHaveBeenCalledWith("http://gpu-box:11434/api/version");
+      await expect(ollamaVersion()).rejects.toThrow("Ollama version request failed (500)");
+    });
+  });
+
   describe("OllamaClient class", () => {
     let client: OllamaClient;
 
@@ -0,0 +1,207 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { CapabilityCache } from "../src/inference/capability-cache";
+import {
+  OpenAICompatibleClient,
+  averagePromptLogProb,
+} from "../src/inference/openai-compatible-client";
+import type { ModelCapabilityCache } from "../src/types";
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+const BASE_URL = "http://gpu-box:8000/v1";
+const MODEL = "meta-llama/Llama-3.2-1B";
+
+function echoResponse(tokenLogprobs: Array<number | null>, promptTokens?: number) {
+  return {
+    ok: true,
+    json: () =>
+      Promise.resolve({
+        choices: [{ text: "", logprobs: { token_logprobs: tokenLogprobs } }],
+        ...(promptTokens !== undefined ? { usage: { prompt_tokens: promptTokens } } : {}),
+      }),
+  };
+}
+
+function createMemoryCache(): CapabilityCache & { entries: Map<string, string> } {
+  const entries = new Map<string, string>();
+  return {
+    entries,
+    get: (key) => entries.get(key) ?? null,
+    set: (key, value) => {
+      entries.set(key, value);
+    },
+  };
+}
+
+describe("averagePromptLogProb", () => {
+  it("averages prompt tokens and skips the context-free first token", () => {
+    const result = averagePromptLogProb("Der Hund bellt", {
+      choices: [{ logprobs: { token_logprobs: [null, -1, -3, -9] } }],
+      usage: { prompt_tokens: 3 },
+    });
+    expect(result).toBe(-2);
+  });
+
+  it("uses text offsets when usage is missing", () => {
+    const result = averagePromptLogProb("Der Hund", {
+      choices: [
+        {
+          logprobs: {
+            token_logprobs: [null, -2, -7],
+            text_offset: [0, 3, 8],
+          },
+        },
+      ],
+    });
+    expect(result).toBe(-2);
+  });
+
+  it("returns null without prompt logprobs", () => {
+    expect(averagePromptLogProb("Der Hund", { choices: [{ text: "x" }] })).toBeNull();
+    expect(
+      averagePromptLogProb("Der", {
+        choices: [{ logprobs: { token_logprobs: [null] } }],
+        usage: { prompt_tokens: 1 },
+      })
+    ).toBeNull();
+  });
+});
+
+describe("OpenAICompatibleClient", () => {
+  let cache: ReturnType<typeof createMemoryCache>;
+  let client: OpenAICompatibleClient;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    cache = createMemoryCache();
+    client = new OpenAICompatibleClient(MODEL, `${BASE_URL}/`, { cache });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe("ensureModelLoaded", () => {
+    it("accepts models listed by the endpoint", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ data: [{ id: MODEL }] }),
+      });
+
+      await expect(client.ensureModelLoaded()).resolves.toBeUndefined();
+      expect(mockFetch).toHaveBeenCalledWith(`${BASE_URL}/models`, {
+        headers: { "Content-Type": "application/json" },
+      });
+    });
+
+    it("lists available models when the model is not served", async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({ data: [{ id: "mistral-7b" }] }),
+      });
+
+      await expect(client.ensureModelLoaded()).rejects.toThrow(
+        `Model '${MODEL}' is not served by ${BASE_URL}. Available models: mistral-7b`
+      );
+    });
+
+    it("reports unreachable endpoints", async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 401, statusText: "Unauthorized" });
+
+      await expect(client.ensureModelLoaded()).rejects.toThrow(
+        `Failed to list models at ${BASE_URL} (401): Unauthorized`
+      );
+    });
+  });
+
+  it("sends the API key as a bearer token", async () => {
+    const authed = new OpenAICompatibleClient(MODEL, BASE_URL, { apiKey: "sk-test" });
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({ choices: [{ text: "Hallo" }] }),
+    });
+
+    await expect(authed.generate("Hi")).resolves.toBe("Hallo");
+    expect(mockFetch).toHaveBeenCalledWith(`${BASE_URL}/completions`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: "Bearer sk-test" },
+      body: JSON.stringify({ model: MODEL, temperature: 0, prompt: "Hi", max_tokens: 256 }),
+    });
+  });
+
+  describe("detectLogProbSupport", () => {
+    it("tests echo support once and caches the result", async () => {
+      mockFetch.mockResolvedValueOnce(echoResponse([null, -1.5], 2));
+
+      await expect(client.detectLogProbSupport()).resolves.toBe(true);
+      await expect(client.detectLogProbSupport()).resolves.toBe(true);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(JSON.parse(mockFetch.mock.calls[0]?.[1].body)).toMatchObject({
+        echo: true,
+        logprobs: 1,
+        max_tokens: 1,
+      });
+      const stored = cache.entries.get(`openai_compatible_supports_logprobs_${BASE_URL}_${MODEL}`);
+      expect(stored).toContain('"supportsLogProbs":true');
+    });
+
+    it("reuses fresh cached capabilities", async () => {
+      const cached: ModelCapabilityCache = {
+        model: MODEL,
+        supportsLogProbs: false,
+        testedAt: new Date().toISOString(),
+      };
+      cache.set(`openai_compatible_supports_logprobs_${BASE_URL}_${MODEL}`, JSON.stringify(cached));
+
+      await expect(client.detectLogProbSupport()).resolves.toBe(false);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it("returns false when the server rejects echo requests", async () => {
+      mockFetch.mockResolvedValueOnce({ ok: false, status: 400, statusText: "Bad Request" });
+
+      await expect(client.detectLogProbSupport()).resolves.toBe(false);
+    });
+  });
+
+  describe("getLogProbWithFallback", () => {
+    it("uses exact prompt log-probabilities when supported", async () => {
+      mockFetch
+        .mockResolvedValueOnce(echoResponse([null, -1.5], 2))
+        .mockResolvedValueOnce(echoResponse([null, -1, -2, -5], 3));
+
+      const result = await client.getLogProbWithFallback("Der Mann ist");
+      expect(result).toEqual({ logprob: -1.5, method: "logprobs_exact" });
+    });
+
+    it("falls back to latency when echo is not supported", async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 400, statusText: "Bad Request" })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: () => Promise.resolve({ choices: [{ text: "x" }], usage: { prompt_tokens: 3 } }),
+        });
+
+      const result = await client.getLogProbWithFallback("Der Mann ist");
+      expect(result.method).toBe("logprobs_fallback_latency");
+      expect(Number.isFinite(result.logprob)).toBe(true);
+    });
+
+    it("throws when the fallback request fails", async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 400, statusText: "Bad Request" })
+        .mockResolvedValueOnce({
+          ok: false,
+          statusText: "Internal Server Error",
+          text: () => Promise.resolve("boom"),
+        });
+
+      await expect(client.getLogProbWithFallback("Der Mann ist")).rejects.toThrow(
+        "Completion request failed: Internal Server Error. boom"
+      );
+    });
+  });
+});
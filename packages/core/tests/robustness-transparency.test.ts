@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import {
+  TEXT_PERTURBATION_IDS,
+  defaultTextPerturbations,
+  runTextPerturbationRobustnessTest,
+  textPerturbations,
+} from "../src/legal-checks/robustness-transparency";
+
+const INPUT = "Is the customer happy with the quick answer?";
+
+function apply(id: (typeof TEXT_PERTURBATION_IDS)[number], input = INPUT, seed = 7): string {
+  const [perturbation] = textPerturbations(seed, [id]);
+  return perturbation?.apply(input) ?? input;
+}
+
+describe("textPerturbations", () => {
+  it("returns every perturbation by default and keeps the original three as defaults", () => {
+    expect(textPerturbations(1).map((p) => p.id)).toEqual(TEXT_PERTURBATION_IDS);
+    expect(defaultTextPerturbations(1).map((p) => p.id)).toEqual([
+      "typo_swap",
+      "typo_delete",
+      "whitespace",
+    ]);
+  });
+
+  it("is reproducible for the same seed", () => {
+    const first = textPerturbations(42).map((p) => p.apply(INPUT));
+    const second = textPerturbations(42).map((p) => p.apply(INPUT));
+
+    expect(first).toEqual(second);
+  });
+
+  it("changes casing only", () => {
+    const perturbed = apply("casing");
+
+    expect(perturbed).not.toBe(INPUT);
+    expect(perturbed.toLowerCase()).toBe(INPUT.toLowerCase());
+  });
+
+  it("replaces Latin letters with look-alike code points", () => {
+    const perturbed = apply("homoglyph");
+
+    expect(perturbed).not.toBe(INPUT);
+    expect(perturbed).toHaveLength(INPUT.length);
+    expect(perturbed).toMatch(/[\u0370-\u03ff\u0400-\u04ff]/);
+  });
+
+  it("swaps a listed word for a synonym and keeps capitalization", () => {
+    const perturbed = apply("synonym_swap");
+
+    expect(perturbed).not.toBe(INPUT);
+    expect(perturbed.split(" ")).toHaveLength(INPUT.split(" ").length);
+    expect(apply("synonym_swap", "Schnell!")).toMatch(/^(Rasch|Zügig)!$/);
+    expect(apply("synonym_swap", "constructor toString")).toBe("constructor toString");
+  });
+
+  it("appends a prompt-injection suffix", () => {
+    const perturbed = apply("prompt_injection");
+
+    expect(perturbed.startsWith(`${INPUT}\n\n`)).toBe(true);
+    expect(perturbed.length).toBeGreaterThan(INPUT.length + 10);
+  });
+});
+
+describe("runTextPerturbationRobustnessTest", () => {
+  it("records normalized predictions and flip rates per perturbation", async () => {
+    const progress: number[] = [];
+    const result = await runTextPerturbationRobustnessTest({
+      seed: 3,
+      cases: [
+        { id: "a", input: "Is this spam?" },
+        { id: "b", input: "Is this ham?" },
+      ],
+      perturbations: textPerturbations(3, ["whitespace", "prompt_injection"]),
+      predict: (input) => (input.includes("OK") || input.includes("banana") ? "OK" : " Yes "),
+      onProgress: (completed) => progress.push(completed),
+    });
+
+    expect(result.cases[0]).toMatchObject({
+      originalPrediction: "yes",
+      perturbedPrediction: "yes",
+    });
+    expect(result.byPerturbation).toEqual([
+      { perturbationId: "whitespace", total: 2, changed: 0, flipRate: 0 },
+      expect.objectContaining({ perturbationId: "prompt_injection", total: 2 }),
+    ]);
+    expect(result.summary.total).toBe(4);
+    expect(progress).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+});
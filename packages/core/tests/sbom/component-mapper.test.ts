@@ -58,6 +58,26 @@ describe("known-packages", () => {
 });
 
 describe("component-mapper", () => {
+  describe("tier 0: EuConform export property", () => {
+    it("prefers the euconform:kind property", () => {
+      const comp: CycloneDxComponent = {
+        type: "framework",
+        name: "Next.js",
+        properties: [{ name: "euconform:kind", value: "framework" }],
+      };
+      expect(mapComponent(comp)?.kind).toBe("framework");
+    });
+
+    it("ignores unknown euconform:kind values", () => {
+      const comp: CycloneDxComponent = {
+        type: "library",
+        name: "lodash",
+        properties: [{ name: "euconform:kind", value: "utility" }],
+      };
+      expect(mapComponent(comp)).toBeNull();
+    });
+  });
+
   describe("tier 1: ML-BOM extensions", () => {
     it("maps component with modelCard to model", () => {
       const comp: CycloneDxComponent = {
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import type { AiBillOfMaterials } from "../../src/evidence/types";
+import { exportCycloneDx } from "../../src/sbom/cyclonedx-export";
+import { importCycloneDx } from "../../src/sbom/cyclonedx-import";
+
+const SERIAL = "urn:uuid:3e671687-395b-41f5-a30f-a58921a69b79";
+
+function makeAibom(components: AiBillOfMaterials["components"]): AiBillOfMaterials {
+  return {
+    schemaVersion: "euconform.aibom.v1",
+    generatedAt: "2026-03-01T12:00:00.000Z",
+    project: { name: "support-bot", rootPath: "/work/support-bot" },
+    components,
+    complianceCapabilities: {
+      biasEvaluation: true,
+      jsonExport: true,
+      pdfExport: false,
+      loggingInfrastructure: true,
+      humanReviewFlow: false,
+      incidentHandling: false,
+    },
+  };
+}
+
+const aibom = makeAibom([
+  { id: "framework:next-js", kind: "framework", name: "Next.js", source: "package.json" },
+  {
+    id: "inference-provider:openai",
+    kind: "inference-provider",
+    name: "OpenAI",
+    source: "package.json",
+  },
+  {
+    id: "inference-provider:anthropic",
+    kind: "inference-provider",
+    name: "Anthropic",
+    source: "code",
+  },
+  {
+    id: "model:meta-llama-llama-3-2-1b",
+    kind: "model",
+    name: "meta-llama/Llama-3.2-1B",
+    version: "main",
+    source: "config",
+  },
+  { id: "model:llama3", kind: "model", name: "llama3", source: "code" },
+  { id: "dataset:customer-tickets", kind: "dataset", name: "customer-tickets", source: "docs" },
+  { id: "ai-framework:pytorch", kind: "ai-framework", name: "PyTorch", source: "config" },
+]);
+
+function findComponent(name: string) {
+  const bom = exportCycloneDx(aibom, { serialNumber: SERIAL });
+  return bom.components?.find((component) => component.name === name);
+}
+
+describe("cyclonedx-export", () => {
+  it("produces a CycloneDX 1.6 document header", () => {
+    const bom = exportCycloneDx(aibom, { serialNumber: SERIAL, toolVersion: "1.5.0" });
+    expect(bom.bomFormat).toBe("CycloneDX");
+    expect(bom.specVersion).toBe("1.6");
+    expect(bom.serialNumber).toBe(SERIAL);
+    expect(bom.version).toBe(1);
+    expect(bom.metadata?.timestamp).toBe(aibom.generatedAt);
+    expect(bom.metadata?.tools).toEqual({
+      components: [{ type: "application", name: "euconform", version: "1.5.0" }],
+    });
+    expect(bom.metadata?.component).toEqual({
+      type: "application",
+      "bom-ref": "project",
+      name: "support-bot",
+    });
+  });
+
+  it("generates a random urn:uuid serial number by default", () => {
+    expect(exportCycloneDx(aibom).serialNumber).toMatch(
+      /^urn:uuid:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+    );
+  });
+
+  it("maps component kinds to CycloneDX types", () => {
+    expect(findComponent("meta-llama/Llama-3.2-1B")?.type).toBe("machine-learning-model");
+    expect(findComponent("customer-tickets")?.type).toBe("data");
+    expect(findComponent("customer-tickets")?.data).toEqual([
+      { type: "dataset", name: "customer-tickets" },
+    ]);
+    expect(findComponent("OpenAI")?.type).toBe("platform");
+    expect(findComponent("Next.js")?.type).toBe("framework");
+    expect(findComponent("PyTorch")?.type).toBe("framework");
+  });
+
+  it("uses component ids as bom-refs and records kind and source", () => {
+    const openai = findComponent("OpenAI");
+    expect(openai?.["bom-ref"]).toBe("inference-provider:openai");
+    expect(openai?.properties).toEqual([
+      { name: "euconform:kind", value: "inference-provider" },
+      { name: "euconform:source", value: "package.json" },
+    ]);
+  });
+
+  it("emits purls only where the package is known", () => {
+    expect(findComponent("meta-llama/Llama-3.2-1B")?.purl).toBe(
+      "pkg:huggingface/meta-llama/Llama-3.2-1B@main"
+    );
+    expect(findComponent("OpenAI")?.purl).toBe("pkg:npm/openai");
+    expect(findComponent("Next.js")?.purl).toBe("pkg:npm/next");
+    expect(findComponent("PyTorch")?.purl).toBe("pkg:pypi/torch");
+    // Published to npm and PyPI, but only detected in code
+    expect(findComponent("Anthropic")?.purl).toBeUndefined();
+    expect(findComponent("llama3")?.purl).toBeUndefined();
+  });
+
+  it("records compliance capabilities as metadata properties", () => {
+    const bom = exportCycloneDx(aibom, { serialNumber: SERIAL });
+    expect(bom.metadata?.properties).toEqual([
+      { name: "euconform:capability:biasEvaluation", value: "true" },
+      { name: "euconform:capability:jsonExport", value: "true" },
+      { name: "euconform:capability:pdfExport", value: "false" },
+      { name: "euconform:capability:loggingInfrastructure", value: "true" },
+      { name: "euconform:capability:humanReviewFlow", value: "false" },
+      { name: "euconform:capability:incidentHandling", value: "false" },
+    ]);
+  });
+
+  it("links every component to the project in the dependency graph", () => {
+    const bom = exportCycloneDx(aibom, { serialNumber: SERIAL });
+    expect(bom.dependencies).toEqual([
+      { ref: "project", dependsOn: aibom.components.map((component) => component.id) },
+    ]);
+  });
+
+  it("keeps bom-refs unique", () => {
+    const duplicated = makeAibom([
+      { id: "model:llama3", kind: "model", name: "llama3", source: "code" },
+      { id: "model:llama3", kind: "model", name: "llama3", source: "docs" },
+    ]);
+    expect(exportCycloneDx(duplicated).components).toHaveLength(1);
+  });
+
+  it("round-trips through importCycloneDx", () => {
+    const result = importCycloneDx(exportCycloneDx(aibom, { toolVersion: "1.5.0" }));
+    expect(result.validation.valid).toBe(true);
+    expect(result.aibom.project.name).toBe("support-bot");
+    expect(result.summary.source.importTool).toBe("euconform 1.5.0");
+    expect(result.aibom.components.map((component) => [component.kind, component.name])).toEqual(
+      aibom.components.map((component) => [component.kind, component.name])
+    );
+  });
+});
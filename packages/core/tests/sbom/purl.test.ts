@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { parsePurl } from "../../src/sbom/purl";
+import { formatPurl, parsePurl } from "../../src/sbom/purl";
 
 describe("parsePurl", () => {
   it("parses a simple pypi purl", () => {
@@ -99,4 +99,44 @@ describe("parsePurl", () => {
   it("returns null for truncated percent-encoding", () => {
     expect(parsePurl("pkg:npm/foo%2")).toBeNull();
   });
+
+  it("parses scoped npm purl without version", () => {
+    expect(parsePurl("pkg:npm/%40anthropic-ai/sdk")).toEqual({
+      scheme: "pkg",
+      type: "npm",
+      namespace: "@anthropic-ai",
+      name: "sdk",
+      version: undefined,
+    });
+  });
+});
+
+describe("formatPurl", () => {
+  it("formats a versioned pypi purl", () => {
+    expect(formatPurl({ type: "pypi", name: "torch", version: "2.2.0" })).toBe(
+      "pkg:pypi/torch@2.2.0"
+    );
+  });
+
+  it("percent-encodes npm scopes", () => {
+    expect(formatPurl({ type: "npm", namespace: "@langchain", name: "core" })).toBe(
+      "pkg:npm/%40langchain/core"
+    );
+  });
+
+  it("round-trips through parsePurl", () => {
+    const purl = formatPurl({
+      type: "huggingface",
+      namespace: "meta-llama",
+      name: "Llama-3.2-1B",
+      version: "main",
+    });
+    expect(parsePurl(purl)).toEqual({
+      scheme: "pkg",
+      type: "huggingface",
+      namespace: "meta-llama",
+      name: "Llama-3.2-1B",
+      version: "main",
+    });
+  });
 });
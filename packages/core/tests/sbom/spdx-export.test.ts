@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import type { AiBillOfMaterials } from "../../src/evidence/types";
+import { exportSpdx } from "../../src/sbom/spdx-export";
+import { importSpdx } from "../../src/sbom/spdx-import";
+import type { SpdxCollection, SpdxPackage, SpdxRelationship } from "../../src/sbom/spdx-types";
+
+const NAMESPACE = "https://euconform.eu/spdx/test";
+
+const aibom: AiBillOfMaterials = {
+  schemaVersion: "euconform.aibom.v1",
+  generatedAt: "2026-03-01T12:00:00.000Z",
+  project: { name: "support-bot", rootPath: "/work/support-bot" },
+  components: [
+    { id: "framework:next-js", kind: "framework", name: "Next.js", source: "package.json" },
+    {
+      id: "model:meta-llama-llama-3-2-1b",
+      kind: "model",
+      name: "meta-llama/Llama-3.2-1B",
+      version: "main",
+      source: "config",
+    },
+    { id: "dataset:customer-tickets", kind: "dataset", name: "customer-tickets", source: "docs" },
+    { id: "vector-store:chromadb", kind: "vector-store", name: "ChromaDB", source: "code" },
+  ],
+  complianceCapabilities: {
+    biasEvaluation: true,
+    jsonExport: false,
+    pdfExport: false,
+    loggingInfrastructure: true,
+    humanReviewFlow: false,
+    incidentHandling: false,
+  },
+};
+
+function findElement<T>(id: string): T {
+  const graph = exportSpdx(aibom, { namespace: NAMESPACE })["@graph"];
+  return graph.find((node) => "spdxId" in node && node.spdxId === `${NAMESPACE}#${id}`) as T;
+}
+
+describe("spdx-export", () => {
+  it("produces an SPDX 3.0.1 JSON-LD envelope", () => {
+    const document = exportSpdx(aibom, { namespace: NAMESPACE, toolVersion: "1.5.0" });
+    expect(document["@context"]).toBe("https://spdx.org/rdf/3.0.1/spdx-context.jsonld");
+    expect(document["@graph"][0]).toEqual({
+      type: "CreationInfo",
+      "@id": "_:creationinfo",
+      specVersion: "3.0.1",
+      created: aibom.generatedAt,
+      createdBy: [`${NAMESPACE}#agent-euconform`],
+      createdUsing: [`${NAMESPACE}#tool-euconform`],
+    });
+  });
+
+  it("maps models and datasets to the AI and Dataset profiles", () => {
+    const model = findElement<SpdxPackage>("model:meta-llama-llama-3-2-1b");
+    expect(model.type).toBe("ai_AIPackage");
+    expect(model.software_primaryPurpose).toBe("model");
+    expect(model.software_packageVersion).toBe("main");
+    expect(model.software_packageUrl).toBe("pkg:huggingface/meta-llama/Llama-3.2-1B@main");
+
+    const dataset = findElement<SpdxPackage>("dataset:customer-tickets");
+    expect(dataset.type).toBe("dataset_DatasetPackage");
+    expect(dataset.dataset_datasetType).toEqual(["noAssertion"]);
+
+    const framework = findElement<SpdxPackage>("framework:next-js");
+    expect(framework.type).toBe("software_Package");
+    expect(framework.software_primaryPurpose).toBe("framework");
+    expect(framework.software_packageUrl).toBe("pkg:npm/next");
+  });
+
+  it("records compliance capabilities on the project package", () => {
+    const project = findElement<SpdxPackage>("project");
+    expect(project.extension?.[0]?.extension_cdxProperty).toContainEqual({
+      type: "extension_CdxPropertyEntry",
+      extension_cdxPropName: "euconform:capability:biasEvaluation",
+      extension_cdxPropValue: "true",
+    });
+  });
+
+  it("describes the project and its dependencies", () => {
+    const sbom = findElement<SpdxCollection>("sbom");
+    expect(sbom.rootElement).toEqual([`${NAMESPACE}#project`]);
+
+    const relationship = findElement<SpdxRelationship>("relationship-project-depends-on");
+    expect(relationship.from).toBe(`${NAMESPACE}#project`);
+    expect(relationship.to).toHaveLength(aibom.components.length);
+  });
+
+  it("round-trips through importSpdx", () => {
+    const result = importSpdx(exportSpdx(aibom, { toolVersion: "1.5.0" }));
+    expect(result.validation.valid).toBe(true);
+    expect(result.aibom.project.name).toBe("support-bot");
+    expect(result.summary.source.importTool).toBe("euconform 1.5.0");
+    expect(result.aibom.components.map((component) => [component.kind, component.name])).toEqual(
+      aibom.components.map((component) => [component.kind, component.name])
+    );
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import { detectSbomFormat, importSbom } from "../../src/sbom/sbom-format";
+import { importSpdx } from "../../src/sbom/spdx-import";
+import minimalBom from "../fixtures/cyclonedx-minimal.json";
+import spdxDocument from "../fixtures/spdx-ai-dataset.json";
+
+function makeDocument(graph: unknown[]) {
+  return {
+    "@context": "https://spdx.org/rdf/3.0.1/spdx-context.jsonld",
+    "@graph": [
+      {
+        type: "CreationInfo",
+        "@id": "_:creationinfo",
+        specVersion: "3.0.1",
+        created: "2026-05-04T09:30:00Z",
+        createdBy: ["urn:agent"],
+      },
+      ...graph,
+    ],
+  };
+}
+
+describe("spdx-import", () => {
+  describe("basic import", () => {
+    it("maps AIPackage and DatasetPackage elements", () => {
+      const result = importSpdx(spdxDocument);
+      const byName = Object.fromEntries(result.aibom.components.map((c) => [c.name, c]));
+      expect(byName["triage-classifier"]).toEqual({
+        id: "model:triage-classifier:3.1.0",
+        kind: "model",
+        name: "triage-classifier",
+        version: "3.1.0",
+        source: "sbom-import",
+      });
+      expect(byName["clinical-notes-2025"]?.kind).toBe("dataset");
+    });
+
+    it("detects known packages and reads versions from purls", () => {
+      const result = importSpdx(spdxDocument);
+      const torch = result.aibom.components.find((c) => c.name === "torch");
+      expect(torch?.kind).toBe("ai-framework");
+      expect(torch?.version).toBe("2.3.1");
+    });
+
+    it("skips the described product and non-AI packages", () => {
+      const result = importSpdx(spdxDocument);
+      const names = result.aibom.components.map((c) => c.name);
+      expect(names).not.toContain("triage-assistant");
+      expect(names).not.toContain("numpy");
+      expect(result.summary.totalComponents).toBe(5);
+      expect(result.summary.skipped).toBe(1);
+    });
+
+    it("produces a valid aibom with spdx metadata", () => {
+      const result = importSpdx(spdxDocument);
+      expect(result.validation.valid).toBe(true);
+      expect(result.aibom.schemaVersion).toBe("euconform.aibom.v1.1");
+      expect(result.aibom.metadata).toEqual({
+        importSource: "spdx",
+        importTool: "spdx-builder 2.1",
+        originalTimestamp: "2026-05-04T09:30:00Z",
+      });
+    });
+  });
+
+  describe("source info", () => {
+    it("reports SPDX format, version and project name source", () => {
+      const result = importSpdx(spdxDocument);
+      expect(result.summary.source).toEqual({
+        bomFormat: "SPDX",
+        specVersion: "3.0.1",
+        projectNameSource: "rootElement.name",
+        importTool: "spdx-builder 2.1",
+        originalTimestamp: "2026-05-04T09:30:00Z",
+      });
+      expect(result.aibom.project.name).toBe("triage-assistant");
+    });
+
+    it("falls back to the document name, then the source path", () => {
+      const named = importSpdx(
+        makeDocument([
+          { type: "SpdxDocument", spdxId: "urn:doc", creationInfo: "_:creationinfo", name: "doc" },
+        ])
+      );
+      expect(named.aibom.project.name).toBe("doc");
+      expect(named.summary.source.projectNameSource).toBe("document.name");
+
+      const fromPath = importSpdx(makeDocument([]), { sourcePath: "/tmp/vendor.spdx.json" });
+      expect(fromPath.aibom.project.name).toBe("vendor.spdx");
+      expect(fromPath.summary.source.projectNameSource).toBe("sourcePath");
+    });
+  });
+
+  describe("scope filtering", () => {
+    it("excludes development-scoped packages when scope is production", () => {
+      const all = importSpdx(spdxDocument);
+      expect(all.aibom.components.map((c) => c.name)).toContain("mlflow");
+
+      const production = importSpdx(spdxDocument, { scope: "production" });
+      expect(production.aibom.components.map((c) => c.name)).not.toContain("mlflow");
+      expect(production.summary.filteredByScope).toBe(1);
+    });
+  });
+
+  describe("warnings", () => {
+    it("warns about packages without a version", () => {
+      const result = importSpdx(
+        makeDocument([
+          { type: "ai_AIPackage", spdxId: "urn:m", creationInfo: "_:creationinfo", name: "m" },
+        ])
+      );
+      expect(result.summary.warnings).toEqual([
+        { component: "m", message: "Missing version field" },
+      ]);
+    });
+  });
+
+  describe("validation", () => {
+    it("rejects documents without an SPDX 3 context", () => {
+      expect(() => importSpdx({ "@graph": [] })).toThrow("Invalid SPDX document");
+    });
+
+    it("rejects unsupported spec versions", () => {
+      const document = makeDocument([]);
+      (document["@graph"][0] as { specVersion: string }).specVersion = "2.3";
+      expect(() => importSpdx(document)).toThrow('Unsupported SPDX specVersion "2.3"');
+    });
+  });
+});
+
+describe("sbom-format", () => {
+  it("detects CycloneDX and SPDX documents", () => {
+    expect(detectSbomFormat(minimalBom)).toBe("cyclonedx");
+    expect(detectSbomFormat(spdxDocument)).toBe("spdx");
+    expect(detectSbomFormat({ foo: "bar" })).toBeNull();
+  });
+
+  it("imports either format", () => {
+    expect(importSbom(minimalBom).summary.source.bomFormat).toBe("CycloneDX");
+    expect(importSbom(spdxDocument).summary.source.bomFormat).toBe("SPDX");
+  });
+
+  it("explains that SPDX 2.x is not supported", () => {
+    expect(() => importSbom({ spdxVersion: "SPDX-2.3", packages: [] })).toThrow(
+      "SPDX-2.3 documents are not supported"
+    );
+  });
+
+  it("rejects unknown formats", () => {
+    expect(() => importSbom({ foo: "bar" })).toThrow("Unrecognized SBOM format");
+  });
+});
@@ -59,6 +59,23 @@ describe("scanRepository", () => {
     expect(result.signals.length).toBeLessThan(10);
   });
 
+  it("scans python-inference fixture", async () => {
+    const result = await scanRepository({
+      targetPath: resolve(FIXTURES, "python-inference"),
+    });
+
+    const signalIds = result.signals.map((s) => s.id);
+    const categories = result.signals.map((s) => s.category);
+
+    expect(result.repo.languages).toContain("python");
+    expect(signalIds).toContain("ai-provider-openai");
+    expect(signalIds).toContain("framework-fastapi");
+    expect(categories).toContain("ai-framework");
+    expect(categories).toContain("local-inference");
+    expect(categories).toContain("rag");
+    expect(result.appTypes).toContain("api-server");
+  });
+
   it("scans compliance-good fixture", async () => {
     const result = await scanRepository({
       targetPath: resolve(FIXTURES, "compliance-good"),
@@ -0,0 +1,68 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { loadBaseline, parseBaseline } from "../../src/scanner/baseline";
+
+const META = {
+  justification: "Bias evaluation runs in the model repository",
+  owner: "ml-platform",
+  expires: "2026-12-31",
+};
+const SUPPRESSION = { gap: "gap-bias", ...META };
+
+describe("parseBaseline", () => {
+  it("accepts a valid baseline", () => {
+    const baseline = parseBaseline({
+      schemaVersion: "euconform.baseline.v1",
+      suppressions: [SUPPRESSION, { ...META, signal: "ai-provider-openai", files: ["scripts/**"] }],
+    });
+    expect(baseline.suppressions).toHaveLength(2);
+  });
+
+  it("requires justification, owner, and a valid expiry date", () => {
+    const { owner: _owner, ...withoutOwner } = SUPPRESSION;
+    expect(() => parseBaseline({ suppressions: [withoutOwner] })).toThrow(/\/suppressions\/0/);
+    expect(() =>
+      parseBaseline({ suppressions: [{ ...SUPPRESSION, expires: "next year" }] })
+    ).toThrow(/Invalid baseline/);
+  });
+
+  it("rejects entries that target both a gap and a signal", () => {
+    expect(() =>
+      parseBaseline({ suppressions: [{ ...SUPPRESSION, signal: "ai-provider-openai" }] })
+    ).toThrow(/Invalid baseline/);
+  });
+});
+
+describe("loadBaseline", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "euconform-baseline-"));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("returns undefined when the default baseline is absent", async () => {
+    expect(await loadBaseline(tempDir)).toBeUndefined();
+  });
+
+  it("loads .euconform/baseline.json", async () => {
+    await mkdir(join(tempDir, ".euconform"));
+    await writeFile(
+      join(tempDir, ".euconform", "baseline.json"),
+      JSON.stringify({ suppressions: [SUPPRESSION] })
+    );
+
+    const loaded = await loadBaseline(tempDir);
+    expect(loaded?.path).toBe(join(tempDir, ".euconform", "baseline.json"));
+    expect(loaded?.baseline.suppressions[0]?.gap).toBe("gap-bias");
+  });
+
+  it("fails when an explicit baseline path does not exist", async () => {
+    await expect(loadBaseline(tempDir, "missing.json")).rejects.toThrow(/not found/);
+  });
+});
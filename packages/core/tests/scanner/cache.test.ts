@@ -0,0 +1,96 @@
+import { cp, mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { scanRepository } from "../../src/scanner/aggregator";
+import { SCAN_CACHE_FILE } from "../../src/scanner/cache";
+
+const FIXTURES = resolve(__dirname, "../fixtures");
+
+describe("scanRepository with cacheDir", () => {
+  let targetPath: string;
+  let cacheDir: string;
+
+  beforeEach(async () => {
+    const dir = await mkdtemp(join(tmpdir(), "euconform-cache-"));
+    targetPath = join(dir, "project");
+    cacheDir = join(dir, "cache");
+    await cp(resolve(FIXTURES, "ollama-rag"), targetPath, { recursive: true });
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+    await rm(join(targetPath, ".."), { recursive: true, force: true });
+  });
+
+  /** Load the scanner as built with the given package version */
+  async function scannerOfVersion(version: string) {
+    vi.stubEnv("EUCONFORM_VERSION", version);
+    vi.resetModules();
+    return (await import("../../src/scanner/aggregator")).scanRepository;
+  }
+
+  it("reuses cached signals for unchanged files", async () => {
+    const first = await scanRepository({ targetPath, cacheDir });
+    const second = await scanRepository({ targetPath, cacheDir });
+    const uncached = await scanRepository({ targetPath });
+
+    expect(first.meta.cache).toEqual({ hits: 0, misses: first.meta.filesScanned });
+    expect(second.meta.cache).toEqual({ hits: second.meta.filesScanned, misses: 0 });
+    expect(uncached.meta.cache).toBeUndefined();
+    expect(second.signals).toEqual(uncached.signals);
+  });
+
+  it("re-analyses only changed files", async () => {
+    await scanRepository({ targetPath, cacheDir });
+    await writeFile(join(targetPath, "audit.ts"), "export const auditLog = [];\n");
+
+    const result = await scanRepository({ targetPath, cacheDir });
+
+    expect(result.meta.cache?.misses).toBe(1);
+    expect(result.signals.some((s) => s.id === "compliance-logging-audit")).toBe(true);
+  });
+
+  it("invalidates the cache when custom rules change", async () => {
+    await scanRepository({ targetPath, cacheDir });
+
+    const result = await scanRepository({
+      targetPath,
+      cacheDir,
+      customRules: [
+        {
+          id: "rag-acme-retriever",
+          name: "Acme retriever",
+          category: "rag",
+          type: "regex",
+          pattern: "retriev",
+        },
+      ],
+    });
+
+    expect(result.meta.cache?.hits).toBe(0);
+  });
+
+  it("invalidates the cache when the tool version changes", async () => {
+    const first = await (await scannerOfVersion("1.2.0"))({ targetPath, cacheDir });
+    const upgraded = await scannerOfVersion("1.3.0");
+    const result = await upgraded({ targetPath, cacheDir });
+    const again = await upgraded({ targetPath, cacheDir });
+
+    expect(first.meta.toolVersion).toBe("1.2.0");
+    expect(result.meta.toolVersion).toBe("1.3.0");
+    expect(result.meta.cache?.hits).toBe(0);
+    expect(again.meta.cache?.misses).toBe(0);
+  });
+
+  it("ignores a corrupted cache file", async () => {
+    await scanRepository({ targetPath, cacheDir });
+    await writeFile(join(cacheDir, SCAN_CACHE_FILE), "{not json");
+
+    const result = await scanRepository({ targetPath, cacheDir });
+
+    expect(result.meta.cache?.hits).toBe(0);
+    expect(JSON.parse(await readFile(join(cacheDir, SCAN_CACHE_FILE), "utf-8")).version).toBe(1);
+  });
+});
@@ -0,0 +1,139 @@
+import { mkdir, mkdtemp, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join, resolve } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { scanRepository } from "../../src/scanner/aggregator";
+import { loadScanConfig, parseScanConfig } from "../../src/scanner/config";
+
+const FIXTURES = resolve(__dirname, "../fixtures");
+
+const AUDIT_RULE = {
+  id: "compliance-logging-acme-audit",
+  name: "Acme audit trail",
+  category: "compliance-logging",
+  type: "regex",
+  pattern: "acmeAudit\\.record",
+};
+
+describe("parseScanConfig", () => {
+  it("accepts a valid config", () => {
+    const config = parseScanConfig({ schemaVersion: "euconform.config.v1", rules: [AUDIT_RULE] });
+    expect(config.rules).toHaveLength(1);
+  });
+
+  it("rejects unknown categories and missing type-specific fields", () => {
+    expect(() =>
+      parseScanConfig({
+        rules: [
+          { ...AUDIT_RULE, category: "magic" },
+          { ...AUDIT_RULE, type: "import" },
+        ],
+      })
+    ).toThrow(/\/rules\/0\/category[\s\S]*\/rules\/1/);
+  });
+
+  it("rejects duplicate ids and invalid regular expressions", () => {
+    expect(() => parseScanConfig({ rules: [AUDIT_RULE, AUDIT_RULE] })).toThrow(/duplicate rule id/);
+    expect(() => parseScanConfig({ rules: [{ ...AUDIT_RULE, pattern: "(" }] })).toThrow(
+      /\/rules\/0\/pattern/
+    );
+  });
+});
+
+describe("loadScanConfig", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "euconform-config-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("returns undefined when no config exists", async () => {
+    expect(await loadScanConfig(dir)).toBeUndefined();
+  });
+
+  it("loads .euconform/config.yaml", async () => {
+    await mkdir(join(dir, ".euconform"));
+    await writeFile(
+      join(dir, ".euconform/config.yaml"),
+      [
+        "rules:",
+        "  - id: ai-provider-acme-gateway",
+        "    name: Acme LLM gateway",
+        "    category: ai-provider",
+        "    type: import",
+        "    module: '@acme/llm-gateway'",
+        "",
+      ].join("\n")
+    );
+
+    const loaded = await loadScanConfig(dir);
+
+    expect(loaded?.path).toBe(join(dir, ".euconform/config.yaml"));
+    expect(loaded?.config.rules?.[0]?.id).toBe("ai-provider-acme-gateway");
+  });
+
+  it("never discovers module configs in the scan target", async () => {
+    const marker = join(dir, "executed");
+    await writeFile(
+      join(dir, "euconform.config.js"),
+      `import { writeFileSync } from "node:fs";\nwriteFileSync(${JSON.stringify(marker)}, "");\nexport default ${JSON.stringify({ rules: [AUDIT_RULE] })};\n`
+    );
+    await writeFile(join(dir, "package.json"), JSON.stringify({ type: "module" }));
+
+    expect(await loadScanConfig(dir)).toBeUndefined();
+    await expect(stat(marker)).rejects.toThrow();
+
+    // The same file runs once it is passed explicitly
+    await loadScanConfig(dir, "euconform.config.js");
+    expect((await stat(marker)).isFile()).toBe(true);
+  });
+
+  it("loads module configs via default export from an explicit path", async () => {
+    await writeFile(
+      join(dir, "euconform.config.mjs"),
+      `export default ${JSON.stringify({ rules: [AUDIT_RULE] })};\n`
+    );
+
+    const loaded = await loadScanConfig(dir, "euconform.config.mjs");
+
+    expect(loaded?.path).toBe(join(dir, "euconform.config.mjs"));
+    expect(loaded?.config.rules?.[0]?.id).toBe(AUDIT_RULE.id);
+  });
+
+  it("throws for a missing explicit config path", async () => {
+    await expect(loadScanConfig(dir, "missing.json")).rejects.toThrow(/Config file not found/);
+  });
+});
+
+describe("scanRepository with custom rules", () => {
+  it("merges custom signals with built-in detections", async () => {
+    const result = await scanRepository({
+      targetPath: resolve(FIXTURES, "nextjs-openai"),
+      customRules: [
+        {
+          id: "ai-model-gpt-4",
+          name: "GPT-4 model reference",
+          category: "ai-model",
+          confidence: "high",
+          type: "regex",
+          pattern: 'model:\\s*"gpt-4"',
+        },
+        {
+          id: "ai-provider-openai",
+          name: "OpenAI",
+          category: "ai-provider",
+          type: "import",
+          module: "openai",
+        },
+      ],
+    });
+
+    const custom = result.signals.find((s) => s.id === "ai-model-gpt-4");
+    expect(custom?.evidence[0]).toMatchObject({ file: "app/page.tsx", provenance: "runtime" });
+    expect(result.signals.filter((s) => s.id === "ai-provider-openai")).toHaveLength(1);
+  });
+});
@@ -4,10 +4,15 @@ import { detectAiFrameworkSignals } from "../../src/scanner/detectors/ai-framewo
 import { detectAiProviderSignals } from "../../src/scanner/detectors/ai-provider-detector";
 import { detectCompliance } from "../../src/scanner/detectors/compliance-detector";
 import { detectConfig } from "../../src/scanner/detectors/config-detector";
+import { createCustomRuleDetector } from "../../src/scanner/detectors/custom-rule-detector";
 import { detectFrameworks } from "../../src/scanner/detectors/framework-detector";
 import { detectLocalInferenceSignals } from "../../src/scanner/detectors/local-inference-detector";
 import { detectMarkdown } from "../../src/scanner/detectors/markdown-detector";
 import { detectPackageJsonSignals } from "../../src/scanner/detectors/package-json-detector";
+import {
+  detectPythonSignals,
+  parsePythonImport,
+} from "../../src/scanner/detectors/python-detector";
 import { detectRagSignals } from "../../src/scanner/detectors/rag-detector";
 
 // ---------------------------------------------------------------------------
@@ -79,6 +84,107 @@ describe("package-json-detector", () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// python-detector
+// ---------------------------------------------------------------------------
+
+describe("python-detector", () => {
+  it("detects AI packages from requirements.txt", () => {
+    const ctx = makeContext({
+      relativePath: "requirements.txt",
+      extension: ".txt",
+      provenance: "config",
+      content:
+        "# deps\nopenai>=1.14\nTransformers==4.40.0 ; python_version >= '3.10'\n-e .\nrequests\n",
+    });
+
+    const signals = detectPythonSignals(ctx);
+    const ids = signals.map((s) => s.id);
+
+    expect(ids).toContain("ai-provider-openai");
+    expect(ids).toContain("ai-framework-hf-transformers");
+    expect(signals).toHaveLength(2);
+    expect(signals.find((s) => s.id === "ai-provider-openai")?.evidence[0]?.line).toBe(2);
+    expect(signals.every((s) => s.confidence === "high")).toBe(true);
+  });
+
+  it("detects PEP 621 and Poetry dependencies from pyproject.toml", () => {
+    const ctx = makeContext({
+      relativePath: "pyproject.toml",
+      extension: ".toml",
+      provenance: "config",
+      content: [
+        "[project]",
+        'name = "svc"',
+        "dependencies = [",
+        '  "anthropic>=0.25",',
+        '  "llama-index-core",',
+        "]",
+        "",
+        "[tool.poetry.dependencies]",
+        'python = "^3.11"',
+        'chromadb = "^0.4"',
+      ].join("\n"),
+    });
+
+    const ids = detectPythonSignals(ctx).map((s) => s.id);
+
+    expect(ids).toContain("ai-provider-anthropic");
+    expect(ids).toContain("ai-framework-llamaindex");
+    expect(ids).toContain("rag-chromadb");
+  });
+
+  it("marks poetry.lock matches as medium confidence", () => {
+    const ctx = makeContext({
+      relativePath: "poetry.lock",
+      extension: ".lock",
+      provenance: "config",
+      content: '[[package]]\nname = "torch"\nversion = "2.2.0"\n',
+    });
+
+    const signals = detectPythonSignals(ctx);
+
+    expect(signals[0]?.id).toBe("ai-framework-pytorch");
+    expect(signals[0]?.confidence).toBe("medium");
+  });
+
+  it("detects Python import statements", () => {
+    const ctx = makeContext({
+      relativePath: "app/service.py",
+      extension: ".py",
+      content: [
+        "import os, torch.nn as nn",
+        "from langchain_community.vectorstores import Chroma",
+        "from google import genai",
+        "from ollama import Client",
+      ].join("\n"),
+    });
+
+    const ids = detectPythonSignals(ctx).map((s) => s.id);
+
+    expect(ids).toContain("ai-framework-pytorch");
+    expect(ids).toContain("ai-framework-langchain");
+    expect(ids).toContain("ai-provider-google-genai");
+    expect(ids).toContain("local-inference-ollama");
+  });
+
+  it("parses module paths from import statements", () => {
+    expect(parsePythonImport("import numpy as np, openai")).toEqual(["numpy", "openai"]);
+    expect(parsePythonImport("from google import genai as g")).toEqual(["google", "google.genai"]);
+    expect(parsePythonImport("x = 1")).toEqual([]);
+  });
+
+  it("ignores non-Python files", () => {
+    const ctx = makeContext({
+      relativePath: "src/index.ts",
+      extension: ".ts",
+      content: "import openai",
+    });
+
+    expect(detectPythonSignals(ctx)).toHaveLength(0);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // ai-provider-detector
 // ---------------------------------------------------------------------------
@@ -272,3 +378,95 @@ describe("markdown-detector", () => {
     expect(detectMarkdown(ctx)).toHaveLength(0);
   });
 });
+
+describe("custom-rule-detector", () => {
+  it("matches regex rules line by line", () => {
+    const detect = createCustomRuleDetector([
+      {
+        id: "compliance-logging-acme-audit",
+        name: "Acme audit trail",
+        category: "compliance-logging",
+        confidence: "high",
+        type: "regex",
+        pattern: "acmeAudit\\.record\\(",
+      },
+    ]);
+    const ctx = makeContext({
+      relativePath: "src/chat.ts",
+      content: 'const x = 1;\nacmeAudit.record("prompt", input);\n',
+    });
+
+    const signals = detect(ctx);
+
+    expect(signals).toHaveLength(1);
+    expect(signals[0]?.confidence).toBe("high");
+    expect(signals[0]?.evidence[0]).toMatchObject({ file: "src/chat.ts", line: 2 });
+  });
+
+  it("matches import rules for JS specifiers and Python modules", () => {
+    const detect = createCustomRuleDetector([
+      {
+        id: "ai-provider-acme-gateway",
+        name: "Acme LLM gateway",
+        category: "ai-provider",
+        type: "import",
+        module: "@acme/llm-gateway",
+      },
+      {
+        id: "ai-provider-acme-python",
+        name: "Acme Python SDK",
+        category: "ai-provider",
+        type: "import",
+        module: "acme_llm",
+      },
+    ]);
+
+    const jsSignals = detect(
+      makeContext({
+        relativePath: "src/llm.ts",
+        content: 'import { Gateway } from "@acme/llm-gateway/client";\n',
+      })
+    );
+    const pySignals = detect(
+      makeContext({ relativePath: "app/llm.py", content: "from acme_llm.chat import Client\n" })
+    );
+
+    expect(jsSignals.map((s) => s.id)).toEqual(["ai-provider-acme-gateway"]);
+    expect(jsSignals[0]?.confidence).toBe("medium");
+    expect(pySignals.map((s) => s.id)).toEqual(["ai-provider-acme-python"]);
+  });
+
+  it("restricts rules to files matching globs", () => {
+    const detect = createCustomRuleDetector([
+      {
+        id: "compliance-reporting-model-card",
+        name: "Model card",
+        category: "compliance-reporting",
+        type: "file",
+        files: ["docs/model-card*.md"],
+      },
+      {
+        id: "compliance-oversight-review-queue",
+        name: "Review queue",
+        category: "compliance-oversight",
+        type: "regex",
+        pattern: "reviewQueue",
+        files: ["src/**"],
+      },
+    ]);
+
+    expect(
+      detect(makeContext({ relativePath: "docs/model-card.md", content: "# Model card" })).map(
+        (s) => s.id
+      )
+    ).toEqual(["compliance-reporting-model-card"]);
+    expect(detect(makeContext({ relativePath: "lib/queue.ts", content: "reviewQueue()" }))).toEqual(
+      []
+    );
+    expect(
+      detect(makeContext({ relativePath: "src/queue.ts", content: "reviewQueue()" })).map(
+        (s) => s.id
+      )
+    ).toEqual(["compliance-oversight-review-queue"]);
+  });
+});
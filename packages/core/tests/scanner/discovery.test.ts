@@ -24,9 +24,17 @@ describe("discoverFiles", () => {
     // All discovered files should match default extensions or named file patterns
     for (const file of files) {
       const ext = file.extension;
-      const isDefaultExt = [".ts", ".tsx", ".js", ".jsx", ".json", ".md", ".yaml", ".yml"].includes(
-        ext
-      );
+      const isDefaultExt = [
+        ".ts",
+        ".tsx",
+        ".js",
+        ".jsx",
+        ".py",
+        ".json",
+        ".md",
+        ".yaml",
+        ".yml",
+      ].includes(ext);
       const isNamedFile =
         /^(package\.json|\.env\.|next\.config\.|vite\.config\.|docker-compose|Dockerfile|tsconfig)/.test(
           file.relativePath.split("/").pop() ?? ""
@@ -35,6 +43,18 @@ describe("discoverFiles", () => {
     }
   });
 
+  it("discovers Python sources and manifests", async () => {
+    const { files } = await discoverFiles({
+      targetPath: resolve(FIXTURES, "python-inference"),
+    });
+
+    const paths = files.map((f) => f.relativePath);
+    expect(paths).toContain("requirements.txt");
+    expect(paths).toContain("pyproject.toml");
+    expect(paths).toContain("app/main.py");
+    expect(files.find((f) => f.relativePath === "pyproject.toml")?.provenance).toBe("config");
+  });
+
   it("skips node_modules", async () => {
     const { files } = await discoverFiles({
       targetPath: resolve(FIXTURES, "nextjs-openai"),
@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import { type FairnessRecord, runTabularFairnessAudit } from "../src/legal-checks/tabular-fairness";
+
+/** `count` records of one subgroup with the given approvals and true labels */
+function subgroup(
+  gender: string,
+  ageBand: string,
+  count: number,
+  approved: number,
+  creditworthy = approved
+): FairnessRecord[] {
+  return Array.from({ length: count }, (_, i) => ({
+    prediction: i < approved,
+    label: i < creditworthy,
+    attributes: { gender, age_band: ageBand },
+  }));
+}
+
+describe("runTabularFairnessAudit", () => {
+  it("passes per attribute but flags the disadvantaged intersectional subgroup", () => {
+    // Marginal approval rates are equal (50%) for both attributes, but
+    // young women and old men are approved far less often.
+    const records = [
+      ...subgroup("female", "young", 10, 2),
+      ...subgroup("female", "old", 10, 8),
+      ...subgroup("male", "young", 10, 8),
+      ...subgroup("male", "old", 10, 2),
+    ];
+
+    const result = runTabularFairnessAudit({
+      records,
+      protectedAttributes: ["gender", "age_band"],
+      minGroupSize: 5,
+    });
+
+    expect(result.labelled).toBe(true);
+    expect(result.byAttribute.map((a) => [a.attribute, a.passed])).toEqual([
+      ["gender", true],
+      ["age_band", true],
+    ]);
+    const [intersection] = result.intersectional;
+    expect(intersection).toMatchObject({
+      attribute: "gender × age_band",
+      attributes: ["gender", "age_band"],
+      passed: false,
+    });
+    expect(intersection?.groups.find((g) => g.group === "female × young")).toMatchObject({
+      count: 10,
+      positiveRate: 0.2,
+      truePositiveRate: 1,
+      precision: 1,
+      excluded: false,
+    });
+    expect(intersection?.metrics.find((m) => m.id === "disparateImpact")?.value).toBe(0.25);
+    expect(result.overallPassed).toBe(false);
+  });
+
+  it("cites METRIC_SOURCES and skips label-based metrics without ground truth", () => {
+    const records = [...subgroup("female", "young", 6, 3), ...subgroup("male", "young", 6, 3)].map(
+      ({ label: _label, ...record }) => record
+    );
+
+    const result = runTabularFairnessAudit({
+      records,
+      protectedAttributes: ["gender"],
+      minGroupSize: 5,
+    });
+    const [gender] = result.byAttribute;
+
+    expect(result.labelled).toBe(false);
+    expect(result.intersectional).toEqual([]);
+    expect(gender?.metrics.map((m) => m.id)).toEqual([
+      "disparateImpact",
+      "demographicParityDifference",
+    ]);
+    expect(gender?.metrics[0]?.sources[0]?.label).toBe("80%-Regel");
+    expect(gender?.groups[0]).not.toHaveProperty("truePositiveRate");
+    expect(result.overallPassed).toBe(true);
+  });
+
+  it("leaves a group without positive labels out of the TPR comparison", () => {
+    // Rejected men were all correctly rejected: they have an FPR of 0 but no TPR
+    const records = [...subgroup("female", "young", 10, 5), ...subgroup("male", "young", 10, 0)];
+
+    const result = runTabularFairnessAudit({
+      records,
+      protectedAttributes: ["gender"],
+      minGroupSize: 5,
+    });
+    const [gender] = result.byAttribute;
+
+    expect(gender?.groups.find((g) => g.group === "male")).not.toHaveProperty("truePositiveRate");
+    expect(gender?.metrics.find((m) => m.id === "equalizedOddsDifference")).toMatchObject({
+      value: 0,
+      passed: true,
+      description: expect.stringContaining("partly not compared: male"),
+    });
+  });
+
+  it("leaves a group without positive predictions out of predictive parity", () => {
+    // Women are approved with 80% precision; no man is approved at all
+    const records = [
+      ...subgroup("female", "young", 10, 5, 4),
+      ...subgroup("male", "young", 10, 0, 3),
+      ...subgroup("diverse", "young", 10, 5, 4),
+    ];
+
+    const result = runTabularFairnessAudit({
+      records,
+      protectedAttributes: ["gender"],
+      minGroupSize: 5,
+    });
+    const [gender] = result.byAttribute;
+
+    expect(gender?.groups.find((g) => g.group === "male")).not.toHaveProperty("precision");
+    expect(gender?.metrics.find((m) => m.id === "predictiveParity")).toMatchObject({
+      value: 0,
+      passed: true,
+      description: expect.stringContaining("not compared: male"),
+    });
+  });
+
+  it("excludes small groups and skips attributes without two comparable groups", () => {
+    const records = [...subgroup("female", "young", 40, 20), ...subgroup("diverse", "old", 3, 0)];
+
+    const result = runTabularFairnessAudit({ records, protectedAttributes: ["gender"] });
+    const [gender] = result.byAttribute;
+
+    expect(result.minGroupSize).toBe(30);
+    expect(gender?.groups.map((g) => [g.group, g.excluded])).toEqual([
+      ["female", false],
+      ["diverse", true],
+    ]);
+    expect(gender?.metrics).toEqual([]);
+    expect(gender?.skippedReason).toMatch(/at least 30 records/);
+    expect(result.overallPassed).toBe(false);
+  });
+
+  it("requires at least one protected attribute", () => {
+    expect(() => runTabularFairnessAudit({ records: [], protectedAttributes: [] })).toThrow(
+      "At least one protected attribute is required"
+    );
+  });
+});